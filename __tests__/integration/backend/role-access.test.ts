@@ -0,0 +1,1256 @@
+import jwt from 'jsonwebtoken';
+import { TRPCError } from '@trpc/server';
+
+// Every Prisma model resolves to the same set of mocked delegate methods
+const mockDelegate = {
+  findUnique: jest.fn(),
+  findFirst: jest.fn(),
+  findMany: jest.fn(),
+  count: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  updateMany: jest.fn(),
+  upsert: jest.fn(),
+  delete: jest.fn(),
+  deleteMany: jest.fn(),
+  createMany: jest.fn(),
+  aggregate: jest.fn(),
+  groupBy: jest.fn(),
+};
+
+jest.mock('@/lib/prisma', () => {
+  // Interactive transactions run against the same mocked client
+  const client: object = new Proxy({}, {
+    get: (_target, key) => (key === '$transaction' ? (fn: (tx: object) => unknown) => fn(client) : mockDelegate),
+  });
+  return { prisma: client, default: client };
+});
+
+// Payments run against the in-memory provider
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { PAYMENT_PROVIDER: 'fake' },
+}));
+
+const { appRouter } = require('@/backend/trpc/app-router') as typeof import('@/backend/trpc/app-router');
+
+const JWT_SECRET = 'role-access-test-secret';
+
+type Role = 'CUSTOMER' | 'MECHANIC' | 'ADMIN';
+
+const USERS: Record<Role, { userId: string; email: string }> = {
+  CUSTOMER: { userId: 'customer-1', email: 'customer@test.com' },
+  MECHANIC: { userId: 'mechanic-1', email: 'mechanic@test.com' },
+  ADMIN: { userId: 'admin-1', email: 'admin@test.com' },
+};
+
+const signToken = (role: string, overrides: Record<string, unknown> = {}) =>
+  jwt.sign({ ...USERS[role.toUpperCase() as Role], role, ...overrides }, JWT_SECRET, {
+    expiresIn: '1h',
+  });
+
+const callerFor = (token?: string) => {
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers.authorization = `Bearer ${token}`;
+  }
+
+  return appRouter.createCaller({
+    req: new Request('http://localhost/api/trpc', { headers }),
+    environment: 'test',
+    isProduction: false,
+  });
+};
+
+const callerAs = (role: Role) => callerFor(signToken(role));
+
+const expectCode = async (promise: Promise<unknown>, code: TRPCError['code']) => {
+  await expect(promise).rejects.toMatchObject({ code });
+};
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job-1',
+  customerId: USERS.CUSTOMER.userId,
+  mechanicId: USERS.MECHANIC.userId,
+  status: 'ACTIVE',
+  timers: [],
+  totals: {},
+  partsUsed: [],
+  photos: [],
+  ...overrides,
+});
+
+describe('tRPC role enforcement', () => {
+  const originalSecret = process.env.JWT_SECRET;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = JWT_SECRET;
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    for (const fn of Object.values(mockDelegate)) {
+      fn.mockReset();
+    }
+    mockDelegate.findMany.mockResolvedValue([]);
+    mockDelegate.count.mockResolvedValue(0);
+    mockDelegate.create.mockResolvedValue({ id: 'created-1' });
+    mockDelegate.update.mockImplementation(async ({ data }) => ({ ...job(), ...data }));
+    mockDelegate.updateMany.mockResolvedValue({ count: 1 });
+    mockDelegate.upsert.mockResolvedValue({ id: 'setting-1' });
+    mockDelegate.aggregate.mockResolvedValue({ _sum: {}, _avg: {}, _count: {} });
+    mockDelegate.groupBy.mockResolvedValue([]);
+  });
+
+  describe('authentication', () => {
+    test('rejects protected procedures without a token', async () => {
+      await expectCode(callerFor().job.getAll(), 'UNAUTHORIZED');
+    });
+
+    test('rejects an expired token', async () => {
+      const expired = jwt.sign(
+        { ...USERS.CUSTOMER, role: 'CUSTOMER', exp: Math.floor(Date.now() / 1000) - 60 },
+        JWT_SECRET
+      );
+      await expectCode(callerFor(expired).job.getAll(), 'UNAUTHORIZED');
+    });
+
+    test('rejects a token signed with another secret', async () => {
+      const forged = jwt.sign({ ...USERS.ADMIN, role: 'ADMIN' }, 'not-the-secret');
+      await expectCode(callerFor(forged).admin.getSystemStats(), 'UNAUTHORIZED');
+    });
+
+    test('only lets a signed-in user change their own password', async () => {
+      await expectCode(
+        callerFor().passwordReset.changePassword({ currentPassword: 'old-password', newPassword: 'new-password' }),
+        'UNAUTHORIZED'
+      );
+    });
+
+    test('leaves public procedures open', async () => {
+      await expect(callerFor().config.getAll()).resolves.toBeDefined();
+    });
+
+    test('normalizes lowercase role claims', async () => {
+      await expect(callerFor(signToken('admin')).admin.getSystemStats()).resolves.toBeDefined();
+    });
+  });
+
+  describe('role matrix', () => {
+    const matrix: {
+      name: string;
+      call: (caller: ReturnType<typeof callerFor>) => Promise<unknown>;
+      allowed: Role[];
+    }[] = [
+      {
+        name: 'admin.getSystemStats',
+        call: (c) => c.admin.getSystemStats(),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'admin.updateUserStatus',
+        call: (c) => c.admin.updateUserStatus({ userId: 'customer-2', isActive: false }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'admin.upsertTaxRule',
+        call: (c) => c.admin.upsertTaxRule({ name: 'Texas', state: 'TX', partsRate: 0.0625 }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'admin.upsertServiceZone',
+        call: (c) => c.admin.upsertServiceZone({
+          name: 'Austin metro',
+          shape: 'RADIUS',
+          centerLatitude: 30.2672,
+          centerLongitude: -97.7431,
+          radiusMiles: 25,
+        }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'passwordReset.getResetAttempts',
+        call: (c) => c.passwordReset.getResetAttempts({ userId: 'customer-2' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'config.set',
+        call: (c) => c.config.set({ key: 'labor_rate', value: 100 }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'analytics.getAdminAnalytics',
+        call: (c) => c.analytics.getAdminAnalytics({ period: 'month' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'notifications.sendNotification',
+        call: (c) =>
+          c.notifications.sendNotification({
+            userId: 'customer-1',
+            title: 'Hi',
+            body: 'There',
+            type: 'JOB_UPDATE',
+          }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'messages.sendSystemMessage',
+        call: (c) => c.messages.sendSystemMessage({ jobId: 'job-1', content: 'Hello' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'job.assignMechanic',
+        call: (c) => c.job.assignMechanic({ jobId: 'job-1', mechanicId: 'mechanic-1' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'dispatch.listEscalated',
+        call: (c) => c.dispatch.listEscalated(),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'dispatch.restart',
+        call: (c) => c.dispatch.restart({ jobId: 'job-1' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'dispatch.respondToOffer',
+        call: (c) => c.dispatch.respondToOffer({ offerId: 'offer-1', accept: true }),
+        allowed: ['MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'routePlan.planDay',
+        call: (c) => c.routePlan.planDay({ start: { latitude: 30.27, longitude: -97.74 } }),
+        allowed: ['MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'mechanic.getAllVerifications',
+        call: (c) => c.mechanic.getAllVerifications(),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'reviews.moderateReview',
+        call: (c) => c.reviews.moderateReview({ reviewId: 'review-1', isHidden: true }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'payments.listManualPayments',
+        call: (c) => c.payments.listManualPayments(),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'payments.processRefund',
+        call: (c) => c.payments.processRefund({ paymentId: 'pay-1' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'payments.listDisputes',
+        call: (c) => c.payments.listDisputes(),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'payouts.createPayoutBatch',
+        call: (c) => c.payouts.createPayoutBatch(),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'payouts.recordAdjustment',
+        call: (c) => c.payouts.recordAdjustment({ mechanicId: 'mechanic-1', amount: 10, description: 'Parts reimbursement' }),
+        allowed: ['ADMIN'],
+      },
+      {
+        name: 'payouts.listPayouts',
+        call: (c) => c.payouts.listPayouts(),
+        allowed: ['MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'quote.listAll',
+        call: (c) => c.quote.listAll(),
+        allowed: ['MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'quote.updateStatus',
+        call: (c) => c.quote.updateStatus({ quoteId: 'quote-1', status: 'EXPIRED' }),
+        allowed: ['MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'job.updateTotals',
+        call: (c) => c.job.updateTotals({ jobId: 'job-1', labor: 120 }),
+        allowed: ['MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'job.getAll',
+        call: (c) => c.job.getAll(),
+        allowed: ['CUSTOMER', 'MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'location.checkServiceArea',
+        call: (c) => c.location.checkServiceArea({ latitude: 30.2672, longitude: -97.7431 }),
+        allowed: ['CUSTOMER', 'MECHANIC', 'ADMIN'],
+      },
+      {
+        name: 'quote.listMine',
+        call: (c) => c.quote.listMine(),
+        allowed: ['CUSTOMER', 'MECHANIC', 'ADMIN'],
+      },
+    ];
+
+    const roles: Role[] = ['CUSTOMER', 'MECHANIC', 'ADMIN'];
+    const cases = matrix.flatMap((entry) =>
+      roles.map((role) => ({ ...entry, role, allowed: entry.allowed.includes(role) }))
+    );
+
+    test.each(cases)('$name as $role (allowed: $allowed)', async ({ call, role, allowed }) => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      mockDelegate.findFirst.mockResolvedValue(null);
+
+      const result = call(callerAs(role));
+
+      if (allowed) {
+        // Allowed callers may still hit business errors, but never auth errors
+        await result.catch((error) => {
+          expect(error.code).not.toBe('UNAUTHORIZED');
+          expect(error.code).not.toBe('FORBIDDEN');
+        });
+      } else {
+        await expectCode(result, 'FORBIDDEN');
+      }
+    });
+  });
+
+  describe('job ownership', () => {
+    test('customer can read their own job', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      await expect(callerAs('CUSTOMER').job.getById({ jobId: 'job-1' })).resolves.toMatchObject({
+        job: { id: 'job-1' },
+      });
+    });
+
+    test("customer cannot read another customer's job", async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ customerId: 'customer-2' }));
+      await expectCode(callerAs('CUSTOMER').job.getById({ jobId: 'job-1' }), 'FORBIDDEN');
+    });
+
+    test('mechanic cannot read a job assigned to someone else', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ mechanicId: 'mechanic-2' }));
+      await expectCode(callerAs('MECHANIC').job.getById({ jobId: 'job-1' }), 'FORBIDDEN');
+    });
+
+    test('mechanic can read an unassigned job', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ mechanicId: null, customerId: 'customer-2' }));
+      await expect(callerAs('MECHANIC').job.getById({ jobId: 'job-1' })).resolves.toBeDefined();
+    });
+
+    test('mechanic cannot log time on a job assigned to someone else', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ mechanicId: 'mechanic-2' }));
+      await expectCode(
+        callerAs('MECHANIC').job.updateTimeLog({ jobId: 'job-1', action: 'start' }),
+        'FORBIDDEN'
+      );
+    });
+
+    test('assigned mechanic logs time as themselves', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      await callerAs('MECHANIC').job.updateTimeLog({ jobId: 'job-1', action: 'start' });
+
+      expect(mockDelegate.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ actorId: USERS.MECHANIC.userId }),
+        })
+      );
+    });
+
+    test('only the customer can approve parts', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      await expectCode(
+        callerAs('MECHANIC').job.updatePartsApproval({ jobId: 'job-1', partsApproved: true }),
+        'FORBIDDEN'
+      );
+    });
+
+    test('customer job listing is scoped to the caller', async () => {
+      await callerAs('CUSTOMER').job.getAll({ customerId: 'customer-2', limit: 10, offset: 0 });
+
+      expect(mockDelegate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ customerId: USERS.CUSTOMER.userId }),
+        })
+      );
+    });
+
+    test('job photos require access to the job', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ customerId: 'customer-2', mechanicId: 'mechanic-2' }));
+      await expectCode(callerAs('CUSTOMER').photos.getJobPhotos({ jobId: 'job-1' }), 'FORBIDDEN');
+    });
+
+    test('admin bypasses ownership checks', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ customerId: 'customer-2', mechanicId: 'mechanic-2' }));
+      await expect(callerAs('ADMIN').job.getById({ jobId: 'job-1' })).resolves.toBeDefined();
+    });
+  });
+
+  describe('job timeline', () => {
+    test('status changes are appended to the timeline', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS' }));
+      await callerAs('MECHANIC').job.updateStatus({ jobId: 'job-1', status: 'COMPLETED' });
+
+      expect(mockDelegate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          jobId: 'job-1',
+          kind: 'STATUS_CHANGE',
+          eventType: 'COMPLETED',
+          actorId: USERS.MECHANIC.userId,
+        }),
+      });
+    });
+
+    test('a failed timeline write does not fail the mutation', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS' }));
+      mockDelegate.create.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        callerAs('MECHANIC').job.updateStatus({ jobId: 'job-1', status: 'COMPLETED' })
+      ).resolves.toMatchObject({ success: true });
+    });
+
+    test('participants can read the timeline', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      mockDelegate.findMany.mockResolvedValue([{ id: 'event-1', kind: 'STATUS_CHANGE' }]);
+
+      await expect(callerAs('CUSTOMER').job.getTimeline({ jobId: 'job-1' })).resolves.toMatchObject({
+        events: [{ id: 'event-1', kind: 'STATUS_CHANGE' }],
+      });
+      expect(mockDelegate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { jobId: 'job-1' }, orderBy: { createdAt: 'asc' } })
+      );
+    });
+
+    test("customer cannot read another customer's timeline", async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ customerId: 'customer-2' }));
+      await expectCode(callerAs('CUSTOMER').job.getTimeline({ jobId: 'job-1' }), 'FORBIDDEN');
+    });
+
+    test('assigned mechanic records the customer signature', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      await callerAs('MECHANIC').job.captureSignature({ jobId: 'job-1', signatureData: 'data:image/png;base64,AAA' });
+
+      expect(mockDelegate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ kind: 'SIGNATURE', actorId: USERS.MECHANIC.userId }),
+      });
+    });
+
+    test('customers cannot record signatures', async () => {
+      await expectCode(
+        callerAs('CUSTOMER').job.captureSignature({ jobId: 'job-1', signatureData: 'sig' }),
+        'FORBIDDEN'
+      );
+    });
+  });
+
+  describe('job status transitions', () => {
+    test('assigned mechanic completes an in-progress job', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS', startedAt: new Date() }));
+      await callerAs('MECHANIC').job.updateStatus({ jobId: 'job-1', status: 'COMPLETED' });
+
+      expect(mockDelegate.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'IN_PROGRESS' },
+        data: expect.objectContaining({ status: 'COMPLETED', completedAt: expect.any(Date) }),
+      });
+    });
+
+    test("completing a job stops sharing the mechanic's location", async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS', startedAt: new Date() }));
+      await callerAs('MECHANIC').job.updateStatus({ jobId: 'job-1', status: 'COMPLETED' });
+
+      expect(mockDelegate.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ currentLatitude: null, currentLongitude: null, eta: null }),
+      }));
+    });
+
+    test('illegal transitions are rejected with typed details', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'PENDING' }));
+
+      await expect(
+        callerAs('MECHANIC').job.updateStatus({ jobId: 'job-1', status: 'COMPLETED' })
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        reason: 'ILLEGAL_TRANSITION',
+        from: 'PENDING',
+        to: 'COMPLETED',
+      });
+      expect(mockDelegate.updateMany).not.toHaveBeenCalled();
+    });
+
+    test('customers cannot start work', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'EN_ROUTE' }));
+
+      await expect(
+        callerAs('CUSTOMER').job.updateStatus({ jobId: 'job-1', status: 'IN_PROGRESS' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN', reason: 'ROLE_NOT_PERMITTED' });
+    });
+
+    test('a concurrent status change is reported as illegal', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS' }));
+      mockDelegate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        callerAs('MECHANIC').job.updateStatus({ jobId: 'job-1', status: 'PAUSED' })
+      ).rejects.toMatchObject({ reason: 'ILLEGAL_TRANSITION' });
+    });
+
+    test('allowed transitions are scoped to the caller role', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS' }));
+
+      await expect(callerAs('MECHANIC').job.getAllowedTransitions({ jobId: 'job-1' })).resolves.toEqual({
+        status: 'IN_PROGRESS',
+        allowed: ['PAUSED', 'COMPLETED'],
+      });
+    });
+  });
+
+  describe('quote ownership', () => {
+    test("customer cannot read another customer's quote", async () => {
+      mockDelegate.findUnique.mockResolvedValue({ id: 'quote-1', customerId: 'customer-2' });
+      await expectCode(callerAs('CUSTOMER').quote.getById({ quoteId: 'quote-1' }), 'FORBIDDEN');
+    });
+
+    test("customer cannot accept another customer's quote", async () => {
+      mockDelegate.findUnique.mockResolvedValue({ id: 'quote-1', customerId: 'customer-2' });
+      await expectCode(callerAs('CUSTOMER').quote.accept({ quoteId: 'quote-1' }), 'FORBIDDEN');
+    });
+
+    test.each(['ACCEPTED', 'REJECTED'])('a %s quote cannot be accepted again', async (status) => {
+      mockDelegate.findUnique.mockResolvedValue({ id: 'quote-1', customerId: USERS.CUSTOMER.userId, status, job: null });
+
+      await expectCode(callerAs('CUSTOMER').quote.accept({ quoteId: 'quote-1' }), 'BAD_REQUEST');
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test("mechanic cannot change the status of another mechanic's quote", async () => {
+      mockDelegate.findUnique
+        .mockResolvedValueOnce({ id: 'quote-1', jobId: 'job-1' })
+        .mockResolvedValueOnce(job({ mechanicId: 'mechanic-2' }));
+
+      await expectCode(
+        callerAs('MECHANIC').quote.updateStatus({ quoteId: 'quote-1', status: 'REJECTED' }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test('customers cannot change quote status', async () => {
+      await expectCode(
+        callerAs('CUSTOMER').quote.updateStatus({ quoteId: 'quote-1', status: 'EXPIRED' }),
+        'FORBIDDEN'
+      );
+    });
+
+    test('mechanics cannot accept a quote for the customer', async () => {
+      await expectCode(
+        // @ts-expect-error only quote.accept moves a quote to ACCEPTED
+        callerAs('MECHANIC').quote.updateStatus({ quoteId: 'quote-1', status: 'ACCEPTED' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test("mechanic cannot edit another mechanic's quote", async () => {
+      mockDelegate.findUnique
+        .mockResolvedValueOnce({ id: 'quote-1', jobId: 'job-1', customerId: 'customer-1', status: 'PENDING' })
+        .mockResolvedValueOnce(job({ mechanicId: 'mechanic-2' }));
+
+      await expectCode(
+        callerAs('MECHANIC').quote.update({
+          quoteId: 'quote-1',
+          lineItems: [{ type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 10 }],
+        }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test("mechanic cannot read a quote on another mechanic's job", async () => {
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'quote-1',
+        customerId: 'customer-2',
+        job: job({ customerId: 'customer-2', mechanicId: 'mechanic-2' }),
+      });
+      await expectCode(callerAs('MECHANIC').quote.getById({ quoteId: 'quote-1' }), 'FORBIDDEN');
+    });
+
+    test('mechanic quote listing is scoped to their jobs', async () => {
+      await callerAs('MECHANIC').quote.listAll();
+
+      expect(mockDelegate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ job: { mechanicId: USERS.MECHANIC.userId } }),
+        })
+      );
+    });
+
+    test("mechanic cannot view another mechanic's analytics", async () => {
+      await expectCode(
+        callerAs('MECHANIC').analytics.getMechanicAnalytics({ mechanicId: 'mechanic-2', period: 'week' }),
+        'FORBIDDEN'
+      );
+    });
+  });
+
+  describe('quote line items and change orders', () => {
+    test("quote.create quotes the job for the job's customer", async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ status: 'PENDING', mechanicId: null, title: 'Brakes', location: 'Austin' }));
+
+      await callerAs('MECHANIC').quote.create({
+        jobId: 'job-1',
+        lineItems: [{ type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 100 }],
+      });
+
+      const { data } = mockDelegate.create.mock.calls[0][0];
+      expect(data).toMatchObject({ jobId: 'job-1', customerId: USERS.CUSTOMER.userId, total: 100, status: 'PENDING' });
+      expect(data.validUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    test('a mechanic cannot quote a job assigned to another mechanic', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ mechanicId: 'mechanic-2' }));
+
+      await expectCode(
+        callerAs('MECHANIC').quote.create({
+          jobId: 'job-1',
+          lineItems: [{ type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 100 }],
+        }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('quote.update recomputes totals from line items with the job location tax rule', async () => {
+      // Shared delegate: the quote, its job and the customer all resolve to this record
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'quote-1',
+        customerId: USERS.CUSTOMER.userId,
+        mechanicId: USERS.MECHANIC.userId,
+        status: 'PENDING',
+        total: 50,
+        location: '500 Congress Ave, Austin, TX 78701',
+        isFleetAccount: false,
+      });
+      mockDelegate.findMany.mockResolvedValue([
+        { id: 'tx', name: 'Texas', state: 'TX', zipPrefix: null, partsRate: 0.1, laborRate: 0.05, fleetExempt: false, isActive: true },
+      ]);
+
+      await callerAs('MECHANIC').quote.update({
+        quoteId: 'quote-1',
+        lineItems: [
+          { type: 'LABOR', description: 'Labor', quantity: 2, unitPrice: 80 },
+          { type: 'PART', description: 'Filter', quantity: 1, unitPrice: 40, partNumber: 'F-1' },
+        ],
+      });
+
+      const { data } = mockDelegate.update.mock.calls[0][0];
+      expect(data).toMatchObject({
+        laborCost: 160,
+        partsCost: 40,
+        subtotal: 200,
+        partsTax: 4,
+        laborTax: 8,
+        taxes: 12,
+        total: 212,
+        totalCost: 212,
+        taxRuleId: 'tx',
+      });
+      expect(data.lineItems.deleteMany).toEqual({});
+      expect(data.lineItems.create).toHaveLength(4);
+    });
+
+    test('customer cannot sign another customer\'s change order', async () => {
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'rev-1',
+        quoteId: 'quote-1',
+        status: 'PENDING',
+        quote: { id: 'quote-1', customerId: 'customer-2' },
+      });
+
+      await expectCode(
+        callerAs('CUSTOMER').quote.respondToRevision({ revisionId: 'rev-1', decision: 'APPROVE', signatureData: 'sig' }),
+        'FORBIDDEN'
+      );
+    });
+
+    test('approving a change order applies its totals to the quote', async () => {
+      const totals = { laborCost: 180, partsCost: 120, travelFee: 0, feesCost: 0, discountTotal: 0, subtotal: 300, partsTaxRate: 0.1, laborTaxRate: 0.1, partsTax: 12, laborTax: 18, taxes: 30, total: 330 };
+      mockDelegate.findUnique
+        .mockResolvedValueOnce({
+          id: 'rev-1',
+          quoteId: 'quote-1',
+          version: 2,
+          status: 'PENDING',
+          totals,
+          total: 330,
+          previousTotal: 220,
+          lineItems: [{ type: 'LABOR', description: 'Labor', quantity: 2, unitPrice: 90, total: 180 }],
+          quote: { id: 'quote-1', customerId: USERS.CUSTOMER.userId, jobId: 'job-1' },
+        })
+        .mockResolvedValueOnce({ id: 'job-1', mechanicId: USERS.MECHANIC.userId });
+
+      const result = await callerAs('CUSTOMER').quote.respondToRevision({
+        revisionId: 'rev-1',
+        decision: 'APPROVE',
+        signatureData: 'sig',
+      });
+
+      expect(result).toMatchObject({ status: 'APPROVED', total: 330 });
+      expect(mockDelegate.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'rev-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'APPROVED', signatureData: 'sig' }),
+      }));
+      expect(mockDelegate.update).toHaveBeenCalledTimes(1);
+      expect(mockDelegate.update.mock.calls[0][0].data).toMatchObject({ total: 330, totalCost: 330, version: 2 });
+    });
+
+    test('rejecting a change order leaves the quote untouched', async () => {
+      mockDelegate.findUnique.mockResolvedValueOnce({
+        id: 'rev-1',
+        quoteId: 'quote-1',
+        version: 2,
+        status: 'PENDING',
+        total: 330,
+        previousTotal: 220,
+        quote: { id: 'quote-1', customerId: USERS.CUSTOMER.userId },
+      });
+
+      const result = await callerAs('CUSTOMER').quote.respondToRevision({
+        revisionId: 'rev-1',
+        decision: 'REJECT',
+        signatureData: 'sig',
+      });
+
+      expect(result).toMatchObject({ status: 'REJECTED', total: 220 });
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test('a change order that was already answered cannot be signed again', async () => {
+      mockDelegate.findUnique.mockResolvedValueOnce({
+        id: 'rev-1',
+        quoteId: 'quote-1',
+        status: 'PENDING',
+        quote: { id: 'quote-1', customerId: USERS.CUSTOMER.userId },
+      });
+      mockDelegate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expectCode(
+        callerAs('CUSTOMER').quote.respondToRevision({ revisionId: 'rev-1', decision: 'APPROVE', signatureData: 'sig' }),
+        'CONFLICT'
+      );
+    });
+
+    test('no mechanic can propose a change order on a job without one', async () => {
+      mockDelegate.findUnique
+        .mockResolvedValueOnce({ id: 'quote-1', jobId: 'job-1', customerId: USERS.CUSTOMER.userId, status: 'ACCEPTED', lineItems: [] })
+        .mockResolvedValueOnce(job({ mechanicId: null }));
+
+      await expectCode(
+        callerAs('MECHANIC').quote.proposeRevision({
+          quoteId: 'quote-1',
+          lineItems: [{ type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 100 }],
+        }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('quote.update rejects client-supplied tax lines', async () => {
+      await expectCode(
+        callerAs('MECHANIC').quote.update({
+          quoteId: 'quote-1',
+          lineItems: [{
+            // @ts-expect-error TAX lines are computed, never accepted as input
+            type: 'TAX',
+            description: 'Tax',
+            quantity: 1,
+            unitPrice: 5,
+          }],
+        }),
+        'BAD_REQUEST'
+      );
+    });
+  });
+
+  describe('invoices', () => {
+    test("customer cannot download another customer's invoice", async () => {
+      mockDelegate.findFirst.mockResolvedValue({ id: 'pay-1', customerId: 'customer-2', job: job() });
+
+      await expectCode(callerAs('CUSTOMER').payments.getInvoicePdf({ paymentId: 'pay-1' }), 'FORBIDDEN');
+    });
+
+    test('a stored invoice PDF is reused until the payment changes', async () => {
+      mockDelegate.findFirst.mockResolvedValue({
+        id: 'pay-1',
+        customerId: USERS.CUSTOMER.userId,
+        job: job(),
+        invoiceFileId: 'heinicus/invoices/job-1/INV-PAY-1.pdf',
+        invoiceGeneratedAt: new Date('2026-03-01T12:00:00Z'),
+        updatedAt: new Date('2026-03-01T12:00:00Z'),
+      });
+
+      const result = await callerAs('CUSTOMER').payments.getInvoicePdf({ paymentIntentId: 'pi_123' });
+
+      expect(result.invoiceNumber).toBe('INV-PAY-1');
+      expect(result.url).toContain('INV-PAY-1.pdf');
+      expect(mockDelegate.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { stripePaymentId: 'pi_123' } }));
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deposits', () => {
+    const depositQuote = (jobStatus: string) => ({
+      id: 'quote-1',
+      jobId: 'job-1',
+      customerId: USERS.CUSTOMER.userId,
+      status: 'ACCEPTED',
+      total: 200,
+      depositPercent: 30,
+      depositAmount: 60,
+      job: job({ status: jobStatus }),
+    });
+
+    test('the balance cannot be charged before the deposit', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('COMPLETED'));
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'BALANCE' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('the balance cannot be charged before the job is completed', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('ACTIVE'));
+      mockDelegate.findMany.mockResolvedValue([{ kind: 'DEPOSIT', amount: 60, status: 'SUCCEEDED' }]);
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'BALANCE' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test("customer cannot read another customer's payment schedule", async () => {
+      mockDelegate.findUnique.mockResolvedValue({
+        ...depositQuote('ACTIVE'),
+        job: job({ customerId: 'customer-2' }),
+      });
+
+      await expectCode(callerAs('CUSTOMER').payments.getPaymentSchedule({ quoteId: 'quote-1' }), 'FORBIDDEN');
+    });
+
+    test('the payment schedule reports the balance still owed', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('ACTIVE'));
+      mockDelegate.findMany.mockResolvedValue([{ kind: 'DEPOSIT', amount: 60, status: 'SUCCEEDED' }]);
+
+      const { schedule } = await callerAs('CUSTOMER').payments.getPaymentSchedule({ quoteId: 'quote-1' });
+
+      expect(schedule).toMatchObject({
+        depositPaid: true,
+        totalPaid: 60,
+        balanceDue: 140,
+        next: { kind: 'BALANCE', amount: 140 },
+      });
+    })
+    test('the deposit intent is created with the payment provider', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('QUOTED'));
+      mockDelegate.findMany.mockResolvedValue([]);
+      mockDelegate.create.mockImplementation(async ({ data }) => ({ id: 'pay-1', ...data }));
+
+      const result = await callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'DEPOSIT' });
+
+      expect(result.paymentIntent).toMatchObject({
+        id: expect.stringMatching(/^pi_fake_/),
+        clientSecret: expect.stringMatching(/^pi_fake_.+_secret_/),
+        status: 'requires_payment_method',
+      });
+      expect(mockDelegate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ kind: 'DEPOSIT', amount: 60, stripePaymentId: result.paymentIntent.id }),
+      });
+    });
+
+    test('a quote cannot be paid before it is accepted', async () => {
+      mockDelegate.findUnique.mockResolvedValue({ ...depositQuote('QUOTED'), status: 'PENDING' });
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'DEPOSIT' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('a repeated deposit request picks up the intent already under way', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('QUOTED'));
+      mockDelegate.findMany.mockResolvedValue([]);
+      mockDelegate.create.mockImplementation(async ({ data }) => ({ id: 'pay-1', ...data }));
+
+      const first = await callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'DEPOSIT' });
+      mockDelegate.findFirst.mockResolvedValue({ id: first.payment.id, ...mockDelegate.create.mock.calls[0][0].data });
+      mockDelegate.create.mockClear();
+
+      const second = await callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'DEPOSIT' });
+
+      expect(second.paymentIntent.id).toBe(first.paymentIntent.id);
+      expect(second.payment.id).toBe(first.payment.id);
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('one-tap payment only charges the amount the customer approved', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('COMPLETED'));
+      mockDelegate.findMany.mockResolvedValue([{ kind: 'DEPOSIT', amount: 60, status: 'SUCCEEDED' }]);
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.createPaymentIntent({
+          quoteId: 'quote-1',
+          useDefaultMethod: true,
+          approvedAmount: 100,
+        }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('a declined card is reported as BAD_REQUEST', async () => {
+      mockDelegate.findUnique.mockResolvedValue(depositQuote('QUOTED'));
+      mockDelegate.findMany.mockResolvedValue([]);
+      mockDelegate.create.mockImplementation(async ({ data }) => ({ id: 'pay-1', ...data }));
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.createPaymentIntent({
+          quoteId: 'quote-1',
+          kind: 'DEPOSIT',
+          paymentMethodId: 'pm_card_chargeDeclined',
+        }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('paying for a missing quote is NOT_FOUND', async () => {
+      mockDelegate.findUnique.mockResolvedValue(null);
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1', kind: 'DEPOSIT' }),
+        'NOT_FOUND'
+      );
+    });
+
+    test('an intent with no payment on record cannot be confirmed', async () => {
+      mockDelegate.findFirst.mockResolvedValue(null);
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.confirmPaymentIntent({ paymentIntentId: 'pi_unknown' }),
+        'NOT_FOUND'
+      );
+    });
+
+    test("customer cannot confirm another customer's payment", async () => {
+      mockDelegate.findFirst.mockResolvedValue({ id: 'pay-1', customerId: 'customer-2', stripePaymentId: 'pi_1' });
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.confirmPaymentIntent({ paymentIntentId: 'pi_1' }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tips', () => {
+    test('only the job\'s customer can tip on it', async () => {
+      mockDelegate.findUnique.mockResolvedValue({ id: 'quote-1', job: job({ customerId: 'customer-2' }) });
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.addTip({ quoteId: 'quote-1', percent: 15, paymentMethodId: 'pm_card_visa' }),
+        'FORBIDDEN'
+      );
+      await expectCode(
+        callerAs('MECHANIC').payments.addTip({ quoteId: 'quote-1', percent: 15, paymentMethodId: 'pm_card_visa' }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('a tip needs either a percentage or an amount', async () => {
+      await expectCode(
+        callerAs('CUSTOMER').payments.addTip({ quoteId: 'quote-1', percent: 15, amount: 10 }),
+        'BAD_REQUEST'
+      );
+    });
+  });
+
+  describe('manual payments', () => {
+    const checkPayment = {
+      jobId: 'job-1',
+      source: 'CHECK' as const,
+      amount: 60,
+      checkNumber: '1042',
+      attested: true,
+    };
+
+    test('customers cannot record field payments', async () => {
+      await expectCode(callerAs('CUSTOMER').payments.recordManualPayment(checkPayment), 'FORBIDDEN');
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('only the assigned mechanic can record a field payment', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job({ mechanicId: 'mechanic-2' }));
+
+      await expectCode(callerAs('MECHANIC').payments.recordManualPayment(checkPayment), 'FORBIDDEN');
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('a check payment needs a check number and an attestation', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+
+      await expectCode(
+        callerAs('MECHANIC').payments.recordManualPayment({ ...checkPayment, checkNumber: ' ' }),
+        'BAD_REQUEST'
+      );
+      await expectCode(
+        callerAs('MECHANIC').payments.recordManualPayment({ ...checkPayment, attested: false }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('the assigned mechanic records a check awaiting reconciliation', async () => {
+      mockDelegate.findUnique.mockResolvedValue(job());
+      mockDelegate.findFirst.mockResolvedValue(null);
+      mockDelegate.create.mockImplementation(async ({ data }) => ({ id: 'pay-1', ...data }));
+
+      const result = await callerAs('MECHANIC').payments.recordManualPayment(checkPayment);
+
+      expect(result.payment).toMatchObject({ source: 'CHECK', status: 'SUCCEEDED', reconciliationStatus: 'PENDING' });
+      expect(mockDelegate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          customerId: USERS.CUSTOMER.userId,
+          stripePaymentId: null,
+          checkNumber: '1042',
+          recordedById: USERS.MECHANIC.userId,
+          attestedAt: expect.any(Date),
+        }),
+      });
+    });
+
+    test('rejecting a field payment requires a reason', async () => {
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'pay-1',
+        jobId: 'job-1',
+        source: 'CASH',
+        amount: 60,
+        reconciliationStatus: 'PENDING',
+      });
+
+      await expectCode(
+        callerAs('ADMIN').payments.reconcileManualPayment({ paymentId: 'pay-1', decision: 'REJECTED' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refunds', () => {
+    const cardPayment = {
+      id: 'pay-1',
+      jobId: 'job-1',
+      customerId: USERS.CUSTOMER.userId,
+      quoteId: 'quote-1',
+      source: 'CARD',
+      stripePaymentId: 'pi_fake_1',
+      amount: 200,
+      refundAmount: 150,
+      status: 'PARTIALLY_REFUNDED',
+      job: { id: 'job-1', title: 'Brake service', customerId: USERS.CUSTOMER.userId },
+      quote: { lineItems: [] },
+    };
+
+    test('customers cannot refund their own payment to account credit', async () => {
+      mockDelegate.findUnique.mockResolvedValue(cardPayment);
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.processRefund({ paymentId: 'pay-1', method: 'ACCOUNT_CREDIT' }),
+        'FORBIDDEN'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      ['an unaccepted quote', { status: 'PENDING' }],
+      ['an organization-billed job', { job: job({ organizationId: 'org-1' }) }],
+    ])('account credit cannot pay for %s', async (_name, overrides) => {
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'quote-1',
+        customerId: USERS.CUSTOMER.userId,
+        status: 'ACCEPTED',
+        total: 200,
+        job: job(),
+        ...overrides,
+      });
+
+      await expectCode(callerAs('CUSTOMER').payments.payWithCredit({ quoteId: 'quote-1' }), 'BAD_REQUEST');
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+      expect(mockDelegate.updateMany).not.toHaveBeenCalled();
+    });
+
+    test('a refund cannot exceed what is left on the payment', async () => {
+      mockDelegate.findUnique.mockResolvedValue(cardPayment);
+
+      await expectCode(
+        callerAs('ADMIN').payments.processRefund({ paymentId: 'pay-1', amount: 60, method: 'ACCOUNT_CREDIT' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payouts', () => {
+    test('mechanics cannot see another mechanic\'s earnings', async () => {
+      await expectCode(
+        callerAs('MECHANIC').payouts.getEarnings({ mechanicId: 'mechanic-2' }),
+        'FORBIDDEN'
+      );
+    });
+
+    test('payout accounts must pass the routing number checksum', async () => {
+      await expectCode(
+        callerAs('MECHANIC').payouts.updatePayoutAccount({
+          accountHolder: 'Cody Owner',
+          routingNumber: '011000016',
+          accountNumber: '000123456789',
+        }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('organizations', () => {
+    const orgQuote = {
+      id: 'quote-1',
+      jobId: 'job-1',
+      customerId: 'customer-2',
+      status: 'PENDING',
+      total: 900,
+      job: { title: 'Brakes', mechanicId: null, organizationId: 'org-1' },
+    };
+    const membership = (overrides: Record<string, unknown> = {}) => ({
+      id: 'member-1',
+      userId: USERS.CUSTOMER.userId,
+      organizationId: 'org-1',
+      role: 'MEMBER',
+      approvalLimit: 500,
+      organization: { id: 'org-1', name: 'Acme Fleet', paymentTermsDays: 30 },
+      ...overrides,
+    });
+
+    test('a member cannot approve a quote over their approval limit', async () => {
+      mockDelegate.findUnique.mockResolvedValueOnce(orgQuote).mockResolvedValueOnce(membership());
+
+      await expectCode(callerAs('CUSTOMER').quote.approve({ quoteId: 'quote-1' }), 'FORBIDDEN');
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test("a member approves a colleague's quote within their limit", async () => {
+      mockDelegate.findUnique
+        .mockResolvedValueOnce(orgQuote)
+        .mockResolvedValueOnce(membership({ approvalLimit: 1000 }));
+
+      const result = await callerAs('CUSTOMER').quote.approve({ quoteId: 'quote-1' });
+
+      expect(result.success).toBe(true);
+    });
+
+    test('organization jobs are not charged by card', async () => {
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'quote-1',
+        total: 200,
+        job: job({ status: 'COMPLETED', organizationId: 'org-1' }),
+      });
+
+      await expectCode(callerAs('CUSTOMER').payments.createPaymentIntent({ quoteId: 'quote-1' }), 'BAD_REQUEST');
+    });
+
+    test('only an owner can generate the monthly invoice', async () => {
+      mockDelegate.findUnique.mockResolvedValue(membership());
+
+      await expectCode(
+        callerAs('CUSTOMER').payments.generateInvoice({ organizationId: 'org-1', period: '2026-09' }),
+        'FORBIDDEN'
+      );
+    });
+  });
+
+  describe('mechanic verification', () => {
+    test('unverified mechanics cannot be assigned to jobs', async () => {
+      mockDelegate.findFirst.mockResolvedValue(null);
+      mockDelegate.findUnique.mockResolvedValue(job({ mechanicId: null, status: 'PENDING' }));
+
+      await expectCode(
+        callerAs('ADMIN').job.assignMechanic({ jobId: 'job-1', mechanicId: 'mechanic-1' }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.update).not.toHaveBeenCalled();
+    });
+
+    test('rejecting a submission needs review notes', async () => {
+      mockDelegate.findUnique.mockResolvedValue({ id: 'ver-1', mechanicId: 'mechanic-1', status: 'PENDING' });
+
+      await expectCode(
+        callerAs('ADMIN').mechanic.reviewVerification({ verificationId: 'ver-1', status: 'rejected' }),
+        'BAD_REQUEST'
+      );
+    });
+  });
+
+  describe('dispatch', () => {
+    test("mechanics cannot answer another mechanic's offer", async () => {
+      mockDelegate.findUnique.mockResolvedValue({
+        id: 'offer-1',
+        jobId: 'job-1',
+        mechanicId: 'mechanic-2',
+        status: 'PENDING',
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+
+      await expectCode(
+        callerAs('MECHANIC').dispatch.respondToOffer({ offerId: 'offer-1', accept: true }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tax rules', () => {
+    test('admin.upsertTaxRule requires a state or ZIP prefix', async () => {
+      await expectCode(
+        callerAs('ADMIN').admin.upsertTaxRule({ name: 'Nowhere', partsRate: 0.05 }),
+        'BAD_REQUEST'
+      );
+      expect(mockDelegate.create).not.toHaveBeenCalled();
+    });
+
+    test('admin.upsertTaxRule normalizes the state and records the editor', async () => {
+      await callerAs('ADMIN').admin.upsertTaxRule({ name: 'Texas', state: 'tx', partsRate: 0.0625 });
+
+      expect(mockDelegate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          state: 'TX',
+          zipPrefix: null,
+          partsRate: 0.0625,
+          laborRate: 0,
+          updatedBy: USERS.ADMIN.userId,
+        }),
+      });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Deposits Tests
+ *
+ * Covers the deposit/balance schedule and per-category deposit settings
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    systemSettings: { findUnique: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_DEPOSIT_PERCENTS,
+  depositFor,
+  loadDepositPercents,
+  paymentSchedule,
+} from '@/backend/services/deposits';
+
+const mockPrisma = prisma as unknown as {
+  systemSettings: { findUnique: jest.Mock };
+};
+
+const quote = { total: 200, depositPercent: 30, depositAmount: 60 };
+
+describe('paymentSchedule', () => {
+  it('asks for the deposit first, then the balance', () => {
+    expect(paymentSchedule(quote, []).next).toEqual({ kind: 'DEPOSIT', amount: 60 });
+
+    const afterDeposit = paymentSchedule(quote, [{ kind: 'DEPOSIT', amount: 60, status: 'SUCCEEDED' }]);
+    expect(afterDeposit).toMatchObject({
+      depositPaid: true,
+      totalPaid: 60,
+      balanceDue: 140,
+      next: { kind: 'BALANCE', amount: 140 },
+    });
+  });
+
+  it('ignores payments that did not complete', () => {
+    const schedule = paymentSchedule(quote, [
+      { kind: 'DEPOSIT', amount: 60, status: 'FAILED' },
+      { kind: 'DEPOSIT', amount: 60, status: 'CANCELED' },
+    ]);
+
+    expect(schedule).toMatchObject({ depositPaid: false, totalPaid: 0, next: { kind: 'DEPOSIT', amount: 60 } });
+  });
+
+  it('counts payments net of refunds and drops lost disputes', () => {
+    const schedule = paymentSchedule(quote, [
+      { kind: 'DEPOSIT', amount: 60, status: 'SUCCEEDED', refundAmount: 0 },
+      { kind: 'BALANCE', amount: 140, status: 'REFUNDED', refundAmount: 140 },
+    ]);
+    expect(schedule).toMatchObject({ totalPaid: 60, next: { kind: 'BALANCE', amount: 140 } });
+
+    const lost = paymentSchedule(quote, [{ kind: 'DEPOSIT', amount: 60, status: 'DISPUTED', disputeStatus: 'lost' }]);
+    expect(lost).toMatchObject({ depositPaid: false, next: { kind: 'DEPOSIT', amount: 60 } });
+  });
+
+  it('does not count tips towards the quote', () => {
+    const schedule = paymentSchedule(quote, [
+      { kind: 'DEPOSIT', amount: 60, status: 'SUCCEEDED' },
+      { kind: 'TIP', amount: 40, status: 'SUCCEEDED' },
+    ]);
+
+    expect(schedule).toMatchObject({ totalPaid: 60, balanceDue: 140, next: { kind: 'BALANCE', amount: 140 } });
+  });
+
+  it('charges the full amount when no deposit is taken, and nothing once paid', () => {
+    const noDeposit = { total: 200, depositPercent: 0, depositAmount: 0 };
+
+    expect(paymentSchedule(noDeposit, []).next).toEqual({ kind: 'FULL', amount: 200 });
+    expect(paymentSchedule(noDeposit, [{ kind: 'FULL', amount: 200, status: 'SUCCEEDED' }])).toMatchObject({
+      balanceDue: 0,
+      next: null,
+    });
+  });
+});
+
+describe('deposit percentages', () => {
+  it('takes no deposit on quotes without a service category', () => {
+    expect(depositFor(199.99, 'REPAIR', DEFAULT_DEPOSIT_PERCENTS)).toEqual({ depositPercent: 30, depositAmount: 60 });
+    expect(depositFor(199.99, null, DEFAULT_DEPOSIT_PERCENTS)).toEqual({ depositPercent: 0, depositAmount: 0 });
+  });
+
+  it('applies valid admin overrides over the defaults', async () => {
+    mockPrisma.systemSettings.findUnique.mockResolvedValue({
+      value: { REPAIR: 25, MAINTENANCE: '10', EMERGENCY: 150 },
+    });
+
+    await expect(loadDepositPercents()).resolves.toEqual({
+      ...DEFAULT_DEPOSIT_PERCENTS,
+      REPAIR: 25,
+      MAINTENANCE: 10,
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Dispatch Tests
+ *
+ * Availability windows, ranking eligible mechanics, offering a job in
+ * turn with timeouts and escalating to the admin queue
+ */
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    user: { findMany: jest.fn() },
+    dispatchOffer: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/backend/services/mechanic-verification', () => ({
+  getVerificationState: jest.fn(),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn(),
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getVerificationState } from '@/backend/services/mechanic-verification';
+import { sendNotification } from '@/backend/services/notifications';
+import {
+  DispatchError,
+  expireOffers,
+  isWithinAvailability,
+  MAX_OFFERS_PER_ROUND,
+  OFFER_TIMEOUT_SECONDS,
+  rankMechanics,
+  respondToOffer,
+  startDispatch,
+} from '@/backend/services/dispatch';
+
+const mockPrisma = prisma as unknown as {
+  job: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  user: { findMany: jest.Mock };
+  dispatchOffer: {
+    create: jest.Mock;
+    findUnique: jest.Mock;
+    findMany: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+  };
+};
+
+// Monday 10:00 server local time
+const monday10am = new Date(2026, 9, 19, 10, 0);
+const now = new Date(2026, 9, 18, 12, 0);
+
+const JOB_LOCATION = { latitude: 30.2672, longitude: -97.7431 };
+
+const mechanic = (id: string, overrides: { profile?: object; [key: string]: unknown } = {}) => ({
+  id,
+  firstName: 'Mech',
+  lastName: id,
+  mechanicProfile: {
+    skills: ['REPAIR'],
+    latitude: JOB_LOCATION.latitude + 0.05,
+    longitude: JOB_LOCATION.longitude,
+    serviceRadiusMiles: 25,
+    averageRating: 4.5,
+    totalReviews: 12,
+    ...overrides.profile,
+  },
+  availability: overrides.availability ?? [{ dayOfWeek: 'MONDAY', startTime: '08:00', endTime: '17:00' }],
+  tools: overrides.tools ?? [{ name: 'Brake Lathe ' }],
+  coverageZones: overrides.coverageZones ?? [],
+  _count: { jobsAssigned: overrides.activeJobs ?? 0 },
+});
+
+// Job state returned for each kind of lookup the service makes
+let dispatchState: Record<string, unknown>;
+
+describe('Dispatch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    dispatchState = {
+      id: 'job-1',
+      title: 'Brake repair',
+      mechanicId: null,
+      dispatchStatus: 'OFFERING',
+      dispatchStartedAt: now,
+      dispatchOffers: [],
+    };
+
+    mockPrisma.job.findUnique.mockImplementation(async ({ select }) => {
+      if (select?.services) {
+        return {
+          id: 'job-1',
+          ...JOB_LOCATION,
+          scheduledAt: monday10am,
+          services: [{ category: 'REPAIR', requiredTools: ['brake lathe'] }],
+        };
+      }
+      if (select?.dispatchOffers) {
+        return dispatchState;
+      }
+      return { id: 'job-1', mechanicId: null, status: 'PENDING', customerId: 'customer-1', mechanic: { firstName: 'Mech', lastName: 'near' } };
+    });
+
+    mockPrisma.user.findMany.mockImplementation(async ({ where }) => where.role === 'ADMIN'
+      ? [{ id: 'admin-1' }]
+      : [
+        mechanic('far', { profile: { latitude: JOB_LOCATION.latitude + 0.15, totalReviews: 0, averageRating: 0 } }),
+        mechanic('near'),
+        mechanic('no-tools', { tools: [] }),
+        mechanic('weekend', { availability: [{ dayOfWeek: 'SATURDAY', startTime: '08:00', endTime: '17:00' }] }),
+        mechanic('busy', { activeJobs: 3 }),
+        mechanic('unlocated', { profile: { latitude: null, longitude: null } }),
+        mechanic('unverified'),
+        mechanic('remote', { profile: { latitude: JOB_LOCATION.latitude + 1 } }),
+      ]);
+
+    (getVerificationState as jest.Mock).mockImplementation(async (mechanicId: string) => ({
+      verified: mechanicId !== 'unverified',
+      status: 'APPROVED',
+      expiredDocuments: [],
+      expiringDocuments: [],
+    }));
+
+    mockPrisma.dispatchOffer.create.mockImplementation(async ({ data }) => ({ id: `offer-${data.mechanicId}`, ...data }));
+    mockPrisma.dispatchOffer.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('isWithinAvailability', () => {
+    const windows = [{ dayOfWeek: 'MONDAY', startTime: '08:00', endTime: '17:00' }];
+
+    it('matches the day and time, end exclusive', () => {
+      expect(isWithinAvailability(windows, monday10am)).toBe(true);
+      expect(isWithinAvailability(windows, new Date(2026, 9, 19, 17, 0))).toBe(false);
+      expect(isWithinAvailability(windows, new Date(2026, 9, 20, 10, 0))).toBe(false);
+    });
+  });
+
+  describe('rankMechanics', () => {
+    it('ranks eligible mechanics by distance, rating and workload', async () => {
+      const { candidates } = await rankMechanics('job-1', now);
+
+      expect(candidates.map((candidate) => candidate.mechanicId)).toEqual(['near', 'far']);
+      expect(candidates[0]).toMatchObject({ distanceMiles: 3.5, activeJobs: 0, rating: 4.5 });
+      expect(candidates[1].rating).toBeNull();
+      expect(candidates[0].score).toBeGreaterThan(candidates[1].score);
+    });
+
+    it('explains why each other mechanic is ineligible', async () => {
+      const { excluded } = await rankMechanics('job-1', now);
+
+      expect(Object.fromEntries(excluded.map((exclusion) => [exclusion.mechanicId, exclusion.reason]))).toEqual({
+        'no-tools': 'Missing tools: brake lathe',
+        weekend: 'Not available at the job time',
+        busy: 'Already on 3 active jobs',
+        unlocated: 'No location reported',
+        unverified: 'Not verified',
+        remote: '69.1 mi away, outside their 25 mi radius',
+      });
+    });
+
+    it('uses drawn coverage areas instead of the service radius', async () => {
+      const zone = (latitude: number) => ({
+        id: `zone-${latitude}`,
+        name: 'Coverage',
+        shape: 'RADIUS',
+        polygon: null,
+        centerLatitude: latitude,
+        centerLongitude: JOB_LOCATION.longitude,
+        radiusMiles: 10,
+        mechanicId: 'mech',
+        travelFeePerMile: null,
+        minimumTravelFee: null,
+        surcharge: 0,
+        surchargeLabel: null,
+        priority: 0,
+        isActive: true,
+      });
+      mockPrisma.user.findMany.mockResolvedValue([
+        mechanic('near', { coverageZones: [zone(JOB_LOCATION.latitude + 1)] }),
+        mechanic('remote', { profile: { latitude: JOB_LOCATION.latitude + 1 }, coverageZones: [zone(JOB_LOCATION.latitude)] }),
+      ]);
+
+      const { candidates, excluded } = await rankMechanics('job-1', now);
+
+      expect(candidates.map((candidate) => candidate.mechanicId)).toEqual(['remote']);
+      expect(excluded).toEqual([{ mechanicId: 'near', name: 'Mech near', reason: 'Outside their coverage areas' }]);
+    });
+
+    it('needs the job location', async () => {
+      mockPrisma.job.findUnique.mockResolvedValue({ id: 'job-1', latitude: null, longitude: null, services: [] });
+
+      await expect(rankMechanics('job-1', now)).rejects.toBeInstanceOf(DispatchError);
+    });
+  });
+
+  describe('offers', () => {
+    it('offers the job to the top candidate with a timeout', async () => {
+      const offer = await startDispatch('job-1', now);
+
+      expect(mockPrisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { dispatchStatus: 'OFFERING', dispatchStartedAt: now },
+      });
+      expect(offer).toMatchObject({
+        mechanicId: 'near',
+        rank: 1,
+        expiresAt: new Date(now.getTime() + OFFER_TIMEOUT_SECONDS * 1000),
+      });
+      expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: 'near', type: 'JOB_OFFER' }));
+    });
+
+    it('moves on to the next candidate when an offer is declined', async () => {
+      mockPrisma.dispatchOffer.findUnique.mockResolvedValue({
+        id: 'offer-near', jobId: 'job-1', mechanicId: 'near', status: 'PENDING', expiresAt: now,
+      });
+      dispatchState.dispatchOffers = [{ mechanicId: 'near', offeredAt: now }];
+
+      await respondToOffer({ offerId: 'offer-near', mechanicId: 'near', accept: false, now });
+
+      expect(mockPrisma.dispatchOffer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ mechanicId: 'far', rank: 2 }),
+      });
+    });
+
+    it('escalates to the admin queue once the round is used up', async () => {
+      dispatchState.dispatchOffers = Array.from({ length: MAX_OFFERS_PER_ROUND }, (_, index) => ({
+        mechanicId: `mechanic-${index}`,
+        offeredAt: now,
+      }));
+      mockPrisma.dispatchOffer.findMany.mockResolvedValue([{ id: 'offer-3', jobId: 'job-1', mechanicId: 'mechanic-2' }]);
+
+      const expired = await expireOffers(now);
+
+      expect(expired).toHaveLength(1);
+      expect(mockPrisma.dispatchOffer.create).not.toHaveBeenCalled();
+      expect(mockPrisma.job.update).toHaveBeenCalledWith({ where: { id: 'job-1' }, data: { dispatchStatus: 'ESCALATED' } });
+      expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: 'admin-1', title: 'Job Needs a Mechanic' }));
+    });
+
+    it('assigns the mechanic who accepts in time', async () => {
+      mockPrisma.dispatchOffer.findUnique.mockResolvedValue({
+        id: 'offer-near', jobId: 'job-1', mechanicId: 'near', status: 'PENDING', expiresAt: now,
+      });
+
+      const result = await respondToOffer({ offerId: 'offer-near', mechanicId: 'near', accept: true, now });
+
+      expect(result.accepted).toBe(true);
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', mechanicId: null },
+        data: { mechanicId: 'near', dispatchStatus: 'ASSIGNED' },
+      });
+      expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: 'customer-1', type: 'MECHANIC_ASSIGNED' }));
+    });
+
+    it('refuses answers after the offer expired or for someone else', async () => {
+      mockPrisma.dispatchOffer.findUnique.mockResolvedValue({
+        id: 'offer-near', jobId: 'job-1', mechanicId: 'near', status: 'PENDING', expiresAt: now,
+      });
+      mockPrisma.dispatchOffer.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(respondToOffer({ offerId: 'offer-near', mechanicId: 'near', accept: true, now }))
+        .rejects.toThrow('This offer has expired');
+      await expect(respondToOffer({ offerId: 'offer-near', mechanicId: 'far', accept: true, now }))
+        .rejects.toThrow('Offer not found');
+      expect(mockPrisma.job.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Earnings Ledger and Payouts Tests
+ *
+ * Double-entry postings for job revenue, tips, platform commission and refund
+ * clawbacks, netting in-person cash at payout, and the CSV and NACHA exports
+ */
+
+jest.mock('@/lib/prisma', () => {
+  const client: Record<string, unknown> = {
+    payment: { findUnique: jest.fn() },
+    systemSettings: { findUnique: jest.fn() },
+    earningsTransaction: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+    earningsEntry: { groupBy: jest.fn() },
+    mechanicProfile: { findMany: jest.fn() },
+    payoutBatch: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    payout: { create: jest.fn() },
+  };
+  client.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(client));
+  return { prisma: client };
+});
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { PAYOUT_ENCRYPTION_KEY: '0f'.repeat(32) },
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  EarningsError,
+  getEarningsBalance,
+  postPaymentEarnings,
+  postRefundClawback,
+  postTransaction,
+} from '@/backend/services/earnings';
+import {
+  createPayoutBatch,
+  decryptBankNumber,
+  encryptBankNumber,
+  isValidRoutingNumber,
+  payoutBatchCsv,
+  payoutBatchNacha,
+  PayoutError,
+  weeklyPeriod,
+} from '@/backend/services/payouts';
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+type Entry = { account: string; debit: number; credit: number };
+type Transaction = {
+  id: string;
+  mechanicId: string;
+  type: string;
+  sourceKey: string | null;
+  paymentId: string | null;
+  entries: Entry[];
+  createdAt: Date;
+};
+
+const NEXT_WEEK = new Date(Date.now() + 8 * 24 * 60 * 60 * 1000);
+
+describe('Earnings ledger', () => {
+  let transactions: Transaction[];
+  let payments: Record<string, unknown>;
+  let commissionSetting: { value: unknown } | null;
+
+  const payment = (id: string, amount: number, source = 'CARD', mechanicId = 'mechanic-1', kind = 'FULL') => {
+    payments[id] = { id, amount, source, kind, job: { mechanicId, title: 'Brake service' } };
+  };
+
+  const entriesOf = (type: string) =>
+    transactions.filter((t) => t.type === type).flatMap((t) => t.entries);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transactions = [];
+    payments = {};
+    commissionSetting = null;
+
+    mockPrisma.payment.findUnique.mockImplementation(async ({ where }) => payments[where.id] ?? null);
+    mockPrisma.systemSettings.findUnique.mockImplementation(async () => commissionSetting);
+
+    mockPrisma.earningsTransaction.findUnique.mockImplementation(async ({ where }) =>
+      transactions.find((t) => t.sourceKey === where.sourceKey) ?? null
+    );
+    mockPrisma.earningsTransaction.create.mockImplementation(async ({ data }) => {
+      const { entries, ...rest } = data;
+      const transaction = { id: `txn-${transactions.length + 1}`, ...rest, entries: entries.create, createdAt: new Date() };
+      transactions.push(transaction);
+      return transaction;
+    });
+    mockPrisma.earningsTransaction.findMany.mockImplementation(async ({ where, distinct }) => {
+      if (distinct) {
+        return [...new Set(transactions.map((t) => t.mechanicId))].map((mechanicId) => ({ mechanicId }));
+      }
+      return transactions.filter((t) => t.paymentId === where.paymentId && where.type.in.includes(t.type));
+    });
+    mockPrisma.earningsEntry.groupBy.mockImplementation(async ({ where }) => {
+      const asOf: Date | undefined = where.transaction.createdAt?.lte;
+      const sums: Record<string, { debit: number; credit: number }> = {};
+      transactions
+        .filter((t) => t.mechanicId === where.transaction.mechanicId && (!asOf || t.createdAt <= asOf))
+        .flatMap((t) => t.entries)
+        .filter((entry) => where.account.in.includes(entry.account))
+        .forEach((entry) => {
+          sums[entry.account] ??= { debit: 0, credit: 0 };
+          sums[entry.account].debit += entry.debit;
+          sums[entry.account].credit += entry.credit;
+        });
+      return Object.entries(sums).map(([account, _sum]) => ({ account, _sum }));
+    });
+  });
+
+  it('posts balanced revenue and commission for a card payment', async () => {
+    payment('pay-1', 100);
+
+    await postPaymentEarnings('pay-1');
+
+    expect(entriesOf('JOB_REVENUE')).toEqual([
+      { account: 'PLATFORM_CASH', debit: 100, credit: 0 },
+      { account: 'MECHANIC_PAYABLE', debit: 0, credit: 100 },
+    ]);
+    expect(entriesOf('PLATFORM_FEE')).toEqual([
+      { account: 'MECHANIC_PAYABLE', debit: 15, credit: 0 },
+      { account: 'PLATFORM_FEES', debit: 0, credit: 15 },
+    ]);
+    expect(await getEarningsBalance('mechanic-1')).toEqual({ payable: 85, heldCash: 0, available: 85 });
+  });
+
+  it('posts a payment once however many times it is reported', async () => {
+    payment('pay-1', 100);
+
+    await postPaymentEarnings('pay-1');
+    await postPaymentEarnings('pay-1');
+
+    expect(transactions).toHaveLength(2);
+    expect(mockPrisma.earningsTransaction.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('charges the commission saved in admin settings', async () => {
+    commissionSetting = { value: 20 };
+    payment('pay-1', 80);
+
+    await postPaymentEarnings('pay-1');
+
+    expect(entriesOf('PLATFORM_FEE')).toContainEqual({ account: 'PLATFORM_FEES', debit: 0, credit: 16 });
+  });
+
+  it('rejects unbalanced transactions', async () => {
+    await expect(
+      postTransaction({
+        mechanicId: 'mechanic-1',
+        type: 'ADJUSTMENT',
+        description: 'Typo',
+        lines: [{ account: 'PLATFORM_FEES', debit: 10 }, { account: 'MECHANIC_PAYABLE', credit: 9 }],
+      })
+    ).rejects.toBeInstanceOf(EarningsError);
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('claws back a refund and returns the commission on it', async () => {
+    payment('pay-1', 100);
+    await postPaymentEarnings('pay-1');
+
+    await postRefundClawback({ paymentId: 'pay-1', amount: 50, sourceKey: 'refund:refund-1', description: 'Refund' });
+
+    expect(entriesOf('REFUND_CLAWBACK')).toEqual([
+      { account: 'MECHANIC_PAYABLE', debit: 42.5, credit: 0 },
+      { account: 'PLATFORM_FEES', debit: 7.5, credit: 0 },
+      { account: 'PLATFORM_CASH', debit: 0, credit: 50 },
+    ]);
+    expect((await getEarningsBalance('mechanic-1')).available).toBe(42.5);
+  });
+
+  it('has the mechanic owe the commission on cash they collected', async () => {
+    payment('pay-1', 100, 'CASH');
+
+    await postPaymentEarnings('pay-1');
+
+    expect(entriesOf('JOB_REVENUE')).toContainEqual({ account: 'MECHANIC_HELD_CASH', debit: 100, credit: 0 });
+    expect(await getEarningsBalance('mechanic-1')).toEqual({ payable: 85, heldCash: 100, available: -15 });
+  });
+
+  it('passes a tip to the mechanic without commission', async () => {
+    payment('tip-1', 20, 'CARD', 'mechanic-1', 'TIP');
+
+    const result = await postPaymentEarnings('tip-1');
+
+    expect(result).toEqual({ revenue: expect.objectContaining({ type: 'TIP' }), commission: null });
+    expect(entriesOf('TIP')).toEqual([
+      { account: 'PLATFORM_CASH', debit: 20, credit: 0 },
+      { account: 'MECHANIC_PAYABLE', debit: 0, credit: 20 },
+    ]);
+    expect(entriesOf('PLATFORM_FEE')).toEqual([]);
+    expect((await getEarningsBalance('mechanic-1')).available).toBe(20);
+  });
+
+  describe('weekly payout batch', () => {
+    let payouts: Record<string, unknown>[];
+
+    beforeEach(() => {
+      payouts = [];
+      mockPrisma.payoutBatch.findUnique.mockResolvedValue(null);
+      mockPrisma.payoutBatch.create.mockImplementation(async ({ data }) => ({ id: 'batch-1', status: 'DRAFT', ...data }));
+      mockPrisma.payoutBatch.update.mockImplementation(async ({ data }) => ({ id: 'batch-1', status: 'DRAFT', ...data }));
+      mockPrisma.payout.create.mockImplementation(async ({ data }) => {
+        const payout = { id: `payout-${payouts.length + 1}`, status: 'PENDING', ...data };
+        payouts.push(payout);
+        return payout;
+      });
+      mockPrisma.mechanicProfile.findMany.mockResolvedValue([
+        { mechanicId: 'mechanic-1', payoutAccountNumber: encryptBankNumber('000123456789'), payoutAccountLast4: '6789' },
+      ]);
+    });
+
+    it('pays the available balance with in-person cash netted out', async () => {
+      payment('pay-1', 100);
+      payment('pay-2', 40, 'CASH');
+      payment('pay-3', 50, 'CARD', 'mechanic-2');
+      await postPaymentEarnings('pay-1');
+      await postPaymentEarnings('pay-2');
+      await postPaymentEarnings('pay-3');
+
+      const { batch, skipped } = await createPayoutBatch({ createdById: 'admin-1', now: NEXT_WEEK });
+
+      expect(payouts).toEqual([
+        expect.objectContaining({ mechanicId: 'mechanic-1', amount: 79, accountLast4: '6789' }),
+      ]);
+      expect(batch.total).toBe(79);
+      expect(skipped).toEqual([
+        { mechanicId: 'mechanic-2', available: 42.5, reason: 'No payout bank account' },
+      ]);
+      expect(entriesOf('PAYOUT')).toEqual([
+        { account: 'MECHANIC_PAYABLE', debit: 119, credit: 0 },
+        { account: 'PLATFORM_CASH', debit: 0, credit: 79 },
+        { account: 'MECHANIC_HELD_CASH', debit: 0, credit: 40 },
+      ]);
+      expect(await getEarningsBalance('mechanic-1')).toEqual({ payable: 0, heldCash: 0, available: 0 });
+    });
+
+    it('creates one batch per week', async () => {
+      mockPrisma.payoutBatch.findUnique.mockResolvedValue({ id: 'batch-0' });
+
+      await expect(createPayoutBatch({ createdById: 'admin-1' })).rejects.toBeInstanceOf(PayoutError);
+      expect(mockPrisma.payoutBatch.create).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Payout helpers', () => {
+  it('covers the last full Monday to Sunday week', () => {
+    const { periodStart, periodEnd } = weeklyPeriod(new Date('2026-10-21T15:00:00Z'));
+
+    expect(periodStart.toISOString()).toBe('2026-10-12T00:00:00.000Z');
+    expect(periodEnd.toISOString()).toBe('2026-10-18T23:59:59.999Z');
+  });
+
+  it('checks the routing number checksum', () => {
+    expect(isValidRoutingNumber('011000015')).toBe(true);
+    expect(isValidRoutingNumber('011000016')).toBe(false);
+    expect(isValidRoutingNumber('01100001')).toBe(false);
+  });
+
+  // Only the fields the exports read
+  const batch = {
+    id: 'batch-abcdefgh',
+    periodStart: new Date('2026-10-12T00:00:00Z'),
+    periodEnd: new Date('2026-10-18T23:59:59.999Z'),
+    payouts: [
+      {
+        id: 'payout-1',
+        mechanicId: 'mechanic-1',
+        amount: 79,
+        status: 'PENDING',
+        accountLast4: '6789',
+        mechanic: {
+          id: 'mechanic-1',
+          firstName: 'Cody',
+          lastName: 'Owner',
+          email: 'cody@example.com',
+          mechanicProfile: {
+            payoutAccountHolder: 'Cody Owner',
+            payoutRoutingNumber: encryptBankNumber('011000015'),
+            payoutAccountNumber: encryptBankNumber('000123456789'),
+            payoutAccountType: 'SAVINGS',
+          },
+        },
+      },
+    ],
+  } as unknown as Parameters<typeof payoutBatchCsv>[0];
+
+  it('exports a CSV row per payout', () => {
+    expect(payoutBatchCsv(batch).split('\n')).toEqual([
+      'payout_id,mechanic_id,mechanic_name,email,amount,account_type,account_last4,status',
+      'payout-1,mechanic-1,Cody Owner,cody@example.com,79.00,SAVINGS,6789,PENDING',
+      '',
+    ]);
+  });
+
+  it('exports a NACHA file of fixed-width records in blocks of ten', () => {
+    const origin = { routingNumber: '011000015', bankName: 'First Bank', companyId: '1234567890', companyName: 'Heinicus' };
+    const records = payoutBatchNacha(batch, origin, new Date('2026-10-19T12:00:00Z')).trimEnd().split('\n');
+
+    expect(records).toHaveLength(10);
+    records.forEach((record) => expect(record).toHaveLength(94));
+    expect(records.map((record) => record[0]).slice(0, 5)).toEqual(['1', '5', '6', '8', '9']);
+
+    const entry = records[2];
+    expect(entry.slice(1, 3)).toBe('32');
+    expect(entry.slice(3, 12)).toBe('011000015');
+    expect(entry.slice(29, 39)).toBe('0000007900');
+    expect(records[3].slice(32, 44)).toBe('000000007900');
+    expect(records[4].slice(43, 55)).toBe('000000007900');
+  });
+
+  it('stores bank numbers encrypted', () => {
+    const stored = encryptBankNumber('000123456789');
+
+    expect(stored).not.toContain('000123456789');
+    expect(stored).not.toBe(encryptBankNumber('000123456789'));
+    expect(decryptBankNumber(stored)).toBe('000123456789');
+    expect(() => decryptBankNumber('000123456789')).toThrow(PayoutError);
+  });
+
+  it('refuses to export an account number wider than the NACHA field', () => {
+    const [payout] = batch.payouts;
+    const profile = {
+      payoutAccountHolder: 'Cody Owner',
+      payoutRoutingNumber: encryptBankNumber('011000015'),
+      payoutAccountNumber: encryptBankNumber('1'.repeat(18)),
+      payoutAccountType: 'SAVINGS' as const,
+    };
+    const origin = { routingNumber: '011000015', bankName: 'First Bank', companyId: '1234567890', companyName: 'Heinicus' };
+
+    expect(() => payoutBatchNacha({
+      ...batch,
+      payouts: [{ ...payout, mechanic: { ...payout.mechanic, mechanicProfile: profile } }],
+    }, origin)).toThrow(PayoutError);
+  });
+
+  it('refuses to export an empty batch', () => {
+    expect(() => payoutBatchNacha({ ...batch, payouts: [] }, {
+      routingNumber: '011000015', bankName: 'First Bank', companyId: '1234567890', companyName: 'Heinicus',
+    })).toThrow(PayoutError);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Fake Payment Provider Tests
+ *
+ * Scripted declines, 3D Secure, manual capture and refunds on the in-memory
+ * provider, and its delayed webhooks fed through the real webhook processor
+ */
+
+jest.mock('@/lib/prisma', () => {
+  const client: Record<string, unknown> = {
+    processedWebhookEvent: { findUnique: jest.fn(), create: jest.fn() },
+    payment: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    quote: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    job: { updateMany: jest.fn() },
+    refund: { findMany: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+    paymentDispute: { upsert: jest.fn() },
+    earningsTransaction: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(async ({ data }) => ({ id: `txn-${data.sourceKey}`, ...data })),
+    },
+    systemSettings: { findUnique: jest.fn().mockResolvedValue(null) },
+  };
+  client.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(client));
+  return { prisma: client };
+});
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { PAYMENT_PROVIDER: 'fake' },
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/job-state-machine', () => ({
+  ...jest.requireActual('@/backend/services/job-state-machine'),
+  transitionJob: jest.fn().mockResolvedValue({}),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { sendNotification } from '@/backend/services/notifications';
+import { handleStripeWebhook } from '@/backend/services/stripe-webhooks';
+import { transitionJob } from '@/backend/services/job-state-machine';
+import {
+  getPaymentProvider,
+  PaymentProviderError,
+  setPaymentProvider,
+  WebhookSignatureError,
+} from '@/backend/services/payment-provider';
+import {
+  createFakePaymentProvider,
+  FAKE_PAYMENT_METHODS,
+  type FakePaymentProvider,
+} from '@/backend/services/fake-payment-provider';
+
+const mockPrisma = prisma as unknown as {
+  processedWebhookEvent: { findUnique: jest.Mock; create: jest.Mock };
+  payment: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  quote: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  job: { updateMany: jest.Mock };
+};
+
+const eventTypes = (provider: FakePaymentProvider) =>
+  provider.pendingWebhooks().map(({ payload }) => JSON.parse(payload).type);
+
+describe('Fake payment provider', () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = createFakePaymentProvider();
+    setPaymentProvider(provider);
+  });
+
+  afterAll(() => {
+    setPaymentProvider(null);
+  });
+
+  it('is the configured provider when PAYMENT_PROVIDER is fake', () => {
+    setPaymentProvider(null);
+    expect(getPaymentProvider().name).toBe('fake');
+  });
+
+  it('hands out sequential ids so runs are reproducible', async () => {
+    const first = await provider.createIntent({ amount: 6000 });
+    const second = await provider.createIntent({ amount: 6000 });
+
+    expect(first).toMatchObject({ id: 'pi_fake_1', clientSecret: 'pi_fake_1_secret_fake', status: 'requires_payment_method' });
+    expect(second.id).toBe('pi_fake_2');
+  });
+
+  it('rejects amounts below the card minimum', async () => {
+    await expect(provider.createIntent({ amount: 25 })).rejects.toMatchObject({ code: 'amount_too_small' });
+  });
+
+  it('declines scripted cards and queues payment_intent.payment_failed', async () => {
+    const intent = await provider.createIntent({ amount: 6000 });
+
+    const confirm = provider.confirmIntent(intent.id, FAKE_PAYMENT_METHODS.insufficientFunds);
+
+    await expect(confirm).rejects.toBeInstanceOf(PaymentProviderError);
+    await expect(confirm).rejects.toMatchObject({ code: 'card_declined', declineCode: 'insufficient_funds' });
+    expect((await provider.retrieveIntent(intent.id)).status).toBe('requires_payment_method');
+    expect(eventTypes(provider)).toEqual(['payment_intent.payment_failed']);
+  });
+
+  it('holds 3D Secure payments in requires_action until the customer authenticates', async () => {
+    const intent = await provider.createIntent({ amount: 6000 });
+
+    const pending = await provider.confirmIntent(intent.id, FAKE_PAYMENT_METHODS.threeDSecure);
+    expect(pending).toMatchObject({ status: 'requires_action', nextActionUrl: expect.stringContaining(intent.id) });
+
+    const authenticated = await provider.authenticate(intent.id);
+    expect(authenticated).toMatchObject({ status: 'succeeded', amountCaptured: 6000, nextActionUrl: null });
+    expect(eventTypes(provider)).toEqual(['payment_intent.requires_action', 'payment_intent.succeeded']);
+  });
+
+  it('fails the payment when 3D Secure is abandoned', async () => {
+    const intent = await provider.createIntent({ amount: 6000 });
+    await provider.confirmIntent(intent.id, FAKE_PAYMENT_METHODS.threeDSecure);
+
+    const failed = await provider.authenticate(intent.id, { approve: false });
+
+    expect(failed.status).toBe('requires_payment_method');
+    expect(eventTypes(provider)).toContain('payment_intent.payment_failed');
+  });
+
+  it('captures manually captured intents up to the authorized amount', async () => {
+    const intent = await provider.createIntent({
+      amount: 6000,
+      paymentMethodId: FAKE_PAYMENT_METHODS.success,
+      confirm: true,
+      captureMethod: 'manual',
+    });
+    expect(intent.status).toBe('requires_capture');
+
+    const captured = await provider.captureIntent(intent.id, 4500);
+
+    expect(captured).toMatchObject({ status: 'succeeded', amountCaptured: 4500 });
+    await expect(provider.captureIntent(intent.id)).rejects.toMatchObject({
+      code: 'payment_intent_unexpected_state',
+    });
+  });
+
+  it('refunds no more than was captured', async () => {
+    const intent = await provider.createIntent({
+      amount: 6000,
+      paymentMethodId: FAKE_PAYMENT_METHODS.success,
+      confirm: true,
+    });
+
+    await expect(provider.refund({ paymentIntentId: intent.id, amount: 2000 })).resolves.toMatchObject({
+      amount: 2000,
+      status: 'succeeded',
+    });
+    await expect(provider.refund({ paymentIntentId: intent.id, amount: 5000 })).rejects.toMatchObject({
+      code: 'charge_already_refunded',
+    });
+    await expect(provider.refund({ paymentIntentId: intent.id })).resolves.toMatchObject({ amount: 4000 });
+  });
+
+  it('signs webhooks that only it can verify', async () => {
+    await provider.createIntent({ amount: 6000, paymentMethodId: FAKE_PAYMENT_METHODS.success, confirm: true });
+    const [{ payload, signature }] = provider.pendingWebhooks();
+
+    expect(provider.verifyWebhook(payload, signature)).toMatchObject({ type: 'payment_intent.succeeded' });
+    expect(() => provider.verifyWebhook(payload.replace('6000', '1'), signature)).toThrow(WebhookSignatureError);
+    expect(() => provider.verifyWebhook(payload, null)).toThrow(WebhookSignatureError);
+  });
+
+  describe('delayed webhooks', () => {
+    let ledger: Set<string>;
+    let payment: Record<string, unknown>;
+
+    beforeEach(() => {
+      ledger = new Set();
+      payment = {
+        id: 'pay-1',
+        stripePaymentId: null,
+        quoteId: 'quote-1',
+        kind: 'DEPOSIT',
+        amount: 60,
+        status: 'PENDING',
+        paymentMethod: null,
+        refundAmount: 0,
+        disputeStatus: null,
+        job: { id: 'job-1', title: 'Brake service', status: 'QUOTED', customerId: 'customer-1', mechanicId: 'mechanic-1' },
+      };
+
+      mockPrisma.processedWebhookEvent.findUnique.mockImplementation(async ({ where }) =>
+        ledger.has(where.id) ? { id: where.id } : null
+      );
+      mockPrisma.processedWebhookEvent.create.mockImplementation(async ({ data }) => {
+        if (ledger.has(data.id)) throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        ledger.add(data.id);
+        return data;
+      });
+      mockPrisma.payment.findUnique.mockImplementation(async ({ where }) =>
+        where.stripePaymentId === payment.stripePaymentId ? { ...payment } : null
+      );
+      mockPrisma.payment.update.mockImplementation(async ({ data }) => Object.assign(payment, data));
+      mockPrisma.payment.findMany.mockImplementation(async () => [payment]);
+      mockPrisma.quote.findUnique.mockResolvedValue({
+        id: 'quote-1',
+        total: 200,
+        depositPercent: 30,
+        depositAmount: 60,
+        depositPaidAt: null,
+        paidAt: null,
+      });
+      mockPrisma.quote.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('leaves the payment pending until the success webhook arrives', async () => {
+      const intent = await provider.createIntent({ amount: 6000, metadata: { quoteId: 'quote-1' } });
+      payment.stripePaymentId = intent.id;
+
+      await provider.confirmIntent(intent.id, FAKE_PAYMENT_METHODS.threeDSecure);
+      await provider.authenticate(intent.id);
+      expect(payment.status).toBe('PENDING');
+
+      const delivered = await provider.flushWebhooks(handleStripeWebhook);
+
+      expect(delivered).toBe(2);
+      expect(payment.status).toBe('SUCCEEDED');
+      expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+        where: { id: 'quote-1' },
+        data: { depositPaidAt: expect.any(Date), paidAt: null },
+      });
+      expect(transitionJob).toHaveBeenCalledWith(
+        expect.objectContaining({ jobId: 'job-1', to: 'ACCEPTED', source: 'payment' })
+      );
+    });
+
+    it('applies a redelivered webhook once', async () => {
+      const intent = await provider.createIntent({
+        amount: 6000,
+        paymentMethodId: FAKE_PAYMENT_METHODS.success,
+        confirm: true,
+      });
+      payment.stripePaymentId = intent.id;
+      const [delivery] = provider.pendingWebhooks();
+
+      await provider.flushWebhooks(handleStripeWebhook);
+      const again = await handleStripeWebhook(delivery.payload, delivery.signature);
+
+      expect(again.outcome).toBe('duplicate');
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it('records a decline delivered after the client saw the error', async () => {
+      const intent = await provider.createIntent({ amount: 6000 });
+      payment.stripePaymentId = intent.id;
+
+      await expect(provider.confirmIntent(intent.id, FAKE_PAYMENT_METHODS.declined)).rejects.toThrow(
+        'Your card was declined.'
+      );
+      await provider.flushWebhooks(handleStripeWebhook);
+
+      expect(payment.status).toBe('FAILED');
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'customer-1', type: 'PAYMENT_FAILED' })
+      );
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Invoices Tests
+ *
+ * Covers invoice assembly from a payment and PDF rendering
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    payment: { findMany: jest.fn() },
+    jobPhoto: { findMany: jest.fn() },
+    jobTimeline: { findFirst: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { buildInvoice, renderInvoicePdf, type InvoicePayment } from '@/backend/services/invoices';
+
+const mockPrisma = prisma as unknown as {
+  payment: { findMany: jest.Mock };
+  jobPhoto: { findMany: jest.Mock };
+  jobTimeline: { findFirst: jest.Mock };
+};
+
+const payment = {
+  id: 'pay_1a2b3c4d5e',
+  amount: 60,
+  status: 'COMPLETED',
+  paymentMethod: 'card',
+  createdAt: new Date('2026-03-01T12:00:00Z'),
+  updatedAt: new Date('2026-03-01T12:05:00Z'),
+  job: {
+    id: 'job-1',
+    title: 'Brake service',
+    location: '500 Congress Ave, Austin, TX 78701',
+    customer: { firstName: 'Sam', lastName: 'Rivera', email: 'sam@test.com', phone: null },
+    mechanic: {
+      firstName: 'Alex',
+      lastName: 'Kim',
+      email: 'alex@test.com',
+      phone: '555-0100',
+      mechanicProfile: { businessLicense: 'TX-12345' },
+    },
+    quotes: [{
+      subtotal: 190,
+      discountTotal: 10,
+      partsTax: 6.4,
+      laborTax: 0,
+      taxes: 6.4,
+      total: 196.4,
+      taxExempt: false,
+      lineItems: [
+        { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 120, total: 120, partNumber: null },
+        { type: 'PART', description: 'Brake pads', quantity: 2, unitPrice: 40, total: 80, partNumber: 'BP-1' },
+        { type: 'DISCOUNT', description: 'Promo', quantity: 1, unitPrice: 10, total: 10, partNumber: null },
+        { type: 'TAX', description: 'Sales tax on parts (8%)', quantity: 1, unitPrice: 6.4, total: 6.4, partNumber: null },
+      ],
+    }],
+  },
+} as unknown as InvoicePayment;
+
+describe('buildInvoice', () => {
+  beforeEach(() => {
+    mockPrisma.payment.findMany.mockResolvedValue([
+      { kind: 'DEPOSIT', amount: 60 },
+      { kind: 'BALANCE', amount: 100 },
+      { kind: 'TIP', amount: 30 },
+    ]);
+    mockPrisma.jobPhoto.findMany.mockResolvedValue([
+      { type: 'BEFORE', url: 'https://img/full.jpg', thumbnailUrl: 'https://img/thumb.jpg', description: null },
+    ]);
+    mockPrisma.jobTimeline.findFirst.mockResolvedValue({
+      createdAt: new Date('2026-03-01T11:00:00Z'),
+      metadata: { signatureData: 'data:image/png;base64,bm90LWFuLWltYWdl', signerName: 'Sam Rivera' },
+    });
+  });
+
+  it('splits tax lines out and reports the balance after all payments, tips aside', async () => {
+    const invoice = await buildInvoice(payment);
+
+    expect(invoice.invoiceNumber).toBe('INV-PAY_1A2B');
+    expect(invoice.lineItems.map((item) => item.total)).toEqual([120, 80, -10]);
+    expect(invoice.taxLines).toEqual([{ description: 'Sales tax on parts (8%)', total: 6.4 }]);
+    expect(invoice).toMatchObject({
+      total: 196.4,
+      amountPaid: 60,
+      totalPaid: 160,
+      tip: 30,
+      balanceDue: 36.4,
+      mechanic: { name: 'Alex Kim', businessLicense: 'TX-12345' },
+      signature: { signerName: 'Sam Rivera' },
+      photos: [{ type: 'BEFORE', url: 'https://img/thumb.jpg' }],
+    });
+  });
+
+  it('renders a PDF even when images cannot be decoded', async () => {
+    // pdfkit's font tables need Node's TextDecoder (ascii), not the Expo polyfill
+    const expoTextDecoder = global.TextDecoder;
+    global.TextDecoder = jest.requireActual('util').TextDecoder;
+    const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const pdf = await renderInvoicePdf(await buildInvoice(payment));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(fetchSpy).toHaveBeenCalledWith('https://img/thumb.jpg');
+
+    global.TextDecoder = expoTextDecoder;
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Job State Machine Tests
+ *
+ * Covers the transition table and per-role permissions
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  JOB_STATUSES,
+  JOB_TRANSITIONS,
+  assertTransition,
+  getAllowedTransitions,
+} from '@/backend/services/job-state-machine';
+
+describe('job state machine', () => {
+  it('walks the happy path from PENDING to COMPLETED', () => {
+    const path = [
+      ['PENDING', 'QUOTED', 'MECHANIC'],
+      ['QUOTED', 'ACCEPTED', 'CUSTOMER'],
+      ['ACCEPTED', 'SCHEDULED', 'MECHANIC'],
+      ['SCHEDULED', 'EN_ROUTE', 'MECHANIC'],
+      ['EN_ROUTE', 'IN_PROGRESS', 'MECHANIC'],
+      ['IN_PROGRESS', 'PAUSED', 'MECHANIC'],
+      ['PAUSED', 'IN_PROGRESS', 'MECHANIC'],
+      ['IN_PROGRESS', 'COMPLETED', 'MECHANIC'],
+    ] as const;
+
+    for (const [from, to, role] of path) {
+      expect(() => assertTransition(from, to, role)).not.toThrow();
+    }
+  });
+
+  it('treats COMPLETED and CANCELLED as terminal', () => {
+    for (const to of JOB_STATUSES) {
+      expect(() => assertTransition('COMPLETED', to, 'ADMIN')).toThrow(
+        expect.objectContaining({ reason: 'ILLEGAL_TRANSITION' })
+      );
+      expect(() => assertTransition('CANCELLED', to, 'ADMIN')).toThrow(
+        expect.objectContaining({ reason: 'ILLEGAL_TRANSITION' })
+      );
+    }
+  });
+
+  it('rejects skipping states', () => {
+    expect(() => assertTransition('ACCEPTED', 'IN_PROGRESS', 'MECHANIC')).toThrow(
+      expect.objectContaining({ code: 'BAD_REQUEST', reason: 'ILLEGAL_TRANSITION' })
+    );
+  });
+
+  it('rejects unknown current statuses', () => {
+    expect(() => assertTransition('ACTIVE', 'COMPLETED', 'ADMIN')).toThrow(
+      expect.objectContaining({ reason: 'ILLEGAL_TRANSITION' })
+    );
+    expect(getAllowedTransitions('ACTIVE', 'ADMIN')).toEqual([]);
+  });
+
+  it('enforces per-role permissions', () => {
+    expect(() => assertTransition('QUOTED', 'ACCEPTED', 'MECHANIC')).toThrow(
+      expect.objectContaining({ code: 'FORBIDDEN', reason: 'ROLE_NOT_PERMITTED' })
+    );
+    expect(() => assertTransition('IN_PROGRESS', 'CANCELLED', 'CUSTOMER')).toThrow(
+      expect.objectContaining({ reason: 'ROLE_NOT_PERMITTED' })
+    );
+    expect(getAllowedTransitions('SCHEDULED', 'CUSTOMER')).toEqual(['CANCELLED']);
+  });
+
+  it('lets admins make every listed transition', () => {
+    for (const from of JOB_STATUSES) {
+      expect(getAllowedTransitions(from, 'ADMIN')).toEqual(Object.keys(JOB_TRANSITIONS[from]));
+    }
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Job Timeline Tests
+ *
+ * Recording events without failing the mutation that caused them, reading
+ * a job's history oldest first with every kind merged into one feed, and
+ * keeping it from anyone who is not on the job
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: { findUnique: jest.fn() },
+    jobTimeline: { create: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+import jwt from 'jsonwebtoken';
+import { prisma } from '@/lib/prisma';
+import { getJobTimeline, recordJobEvent } from '@/backend/services/job-timeline';
+import { jobRouter } from '@/backend/trpc/routes/job/route';
+
+const mockPrisma = prisma as unknown as {
+  job: { findUnique: jest.Mock };
+  jobTimeline: { create: jest.Mock; findMany: jest.Mock };
+};
+
+const JWT_SECRET = 'job-timeline-test-secret';
+
+const row = (id: string, kind: string, minute: number, metadata: unknown = {}) => ({
+  id,
+  jobId: 'job-1',
+  kind,
+  eventType: id.toUpperCase(),
+  description: `Event ${id}`,
+  actorId: 'mechanic-1',
+  metadata,
+  createdAt: new Date(2026, 9, 19, 9, minute),
+  actor: { id: 'mechanic-1', firstName: 'Mia', lastName: 'Lopez', role: 'MECHANIC' },
+});
+
+describe('recordJobEvent', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records system events without an actor', async () => {
+    mockPrisma.jobTimeline.create.mockResolvedValue({ id: 'event-1' });
+
+    await expect(recordJobEvent({
+      jobId: 'job-1',
+      kind: 'PAYMENT',
+      eventType: 'PAYMENT_SUCCEEDED',
+      description: 'Payment of $50.00 succeeded',
+    })).resolves.toEqual({ success: true, id: 'event-1' });
+
+    expect(mockPrisma.jobTimeline.create).toHaveBeenCalledWith({
+      data: {
+        jobId: 'job-1',
+        kind: 'PAYMENT',
+        eventType: 'PAYMENT_SUCCEEDED',
+        description: 'Payment of $50.00 succeeded',
+        actorId: null,
+        metadata: {},
+      },
+    });
+  });
+
+  it('reports a failed write instead of throwing', async () => {
+    mockPrisma.jobTimeline.create.mockRejectedValue(new Error('db down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(recordJobEvent({
+      jobId: 'job-1',
+      kind: 'MESSAGE',
+      eventType: 'MESSAGE_SENT',
+      description: 'Message sent',
+      actorId: 'customer-1',
+    })).resolves.toEqual({ success: false });
+  });
+});
+
+describe('getJobTimeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reads every kind oldest first in one feed', async () => {
+    mockPrisma.jobTimeline.findMany.mockResolvedValue([
+      row('status', 'STATUS_CHANGE', 0, { from: 'SCHEDULED' }),
+      row('payment', 'PAYMENT', 5),
+      row('message', 'MESSAGE', 10),
+    ]);
+
+    const entries = await getJobTimeline('job-1');
+
+    expect(mockPrisma.jobTimeline.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { jobId: 'job-1' }, orderBy: { createdAt: 'asc' } })
+    );
+    expect(entries.map((entry) => entry.kind)).toEqual(['STATUS_CHANGE', 'PAYMENT', 'MESSAGE']);
+    expect(entries[0]).toEqual({
+      id: 'status',
+      jobId: 'job-1',
+      kind: 'STATUS_CHANGE',
+      eventType: 'STATUS',
+      description: 'Event status',
+      metadata: { from: 'SCHEDULED' },
+      createdAt: new Date(2026, 9, 19, 9, 0),
+      actor: { id: 'mechanic-1', firstName: 'Mia', lastName: 'Lopez', role: 'MECHANIC' },
+    });
+  });
+
+  it('filters to the requested kinds', async () => {
+    mockPrisma.jobTimeline.findMany.mockResolvedValue([]);
+
+    await getJobTimeline('job-1', { kinds: ['PAYMENT', 'MESSAGE'], limit: 20 });
+
+    expect(mockPrisma.jobTimeline.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { jobId: 'job-1', kind: { in: ['PAYMENT', 'MESSAGE'] } },
+      take: 20,
+    }));
+  });
+
+  it('returns metadata only when it is an object', async () => {
+    mockPrisma.jobTimeline.findMany.mockResolvedValue([
+      row('legacy', 'STATUS_CHANGE', 0, null),
+      row('list', 'STATUS_CHANGE', 1, ['not', 'an', 'object']),
+    ]);
+
+    const entries = await getJobTimeline('job-1');
+
+    expect(entries.map((entry) => entry.metadata)).toEqual([null, null]);
+  });
+});
+
+describe('job.getTimeline', () => {
+  const originalSecret = process.env.JWT_SECRET;
+
+  const callerAs = (userId: string, role: string) => {
+    const token = jwt.sign({ userId, email: `${userId}@test.com`, role }, JWT_SECRET, { expiresIn: '1h' });
+    return jobRouter.createCaller({
+      req: new Request('http://localhost/api/trpc', { headers: { authorization: `Bearer ${token}` } }),
+      environment: 'test',
+      isProduction: false,
+    });
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = JWT_SECRET;
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.job.findUnique.mockResolvedValue({ id: 'job-1', customerId: 'customer-1', mechanicId: 'mechanic-1' });
+    mockPrisma.jobTimeline.findMany.mockResolvedValue([row('status', 'STATUS_CHANGE', 0)]);
+  });
+
+  it('returns the timeline to the customer and the assigned mechanic', async () => {
+    await expect(callerAs('customer-1', 'CUSTOMER').getTimeline({ jobId: 'job-1' }))
+      .resolves.toMatchObject({ events: [{ id: 'status' }] });
+    await expect(callerAs('mechanic-1', 'MECHANIC').getTimeline({ jobId: 'job-1' }))
+      .resolves.toMatchObject({ events: [{ id: 'status' }] });
+  });
+
+  it('refuses anyone who is not on the job', async () => {
+    await expect(callerAs('customer-2', 'CUSTOMER').getTimeline({ jobId: 'job-1' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(callerAs('mechanic-2', 'MECHANIC').getTimeline({ jobId: 'job-1' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    expect(mockPrisma.jobTimeline.findMany).not.toHaveBeenCalled();
+  });
+});
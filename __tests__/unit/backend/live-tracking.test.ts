@@ -0,0 +1,190 @@
+/**
+ * Live Tracking Tests
+ *
+ * Breadcrumbs and ETA on every reported position, the en-route, arriving
+ * and arrived geofences, and refusing updates once the job has ended
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: { findUnique: jest.fn(), update: jest.fn() },
+    jobLocationPoint: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+jest.mock('@/backend/services/job-state-machine', () => ({
+  ...jest.requireActual('@/backend/services/job-state-machine'),
+  transitionJob: jest.fn(),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn(),
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { transitionJob } from '@/backend/services/job-state-machine';
+import { recordJobEvent } from '@/backend/services/job-timeline';
+import { sendNotification } from '@/backend/services/notifications';
+import type { RoutingProvider } from '@/backend/services/routing-provider';
+import {
+  getJobTrail,
+  LiveTrackingError,
+  recordMechanicLocation,
+} from '@/backend/services/live-tracking';
+
+const mockPrisma = prisma as unknown as {
+  job: { findUnique: jest.Mock; update: jest.Mock };
+  jobLocationPoint: { findFirst: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+};
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const JOB = { latitude: 30.2672, longitude: -97.7431 };
+
+// 0.01° of latitude is about 1.1 km
+const north = (km: number) => ({ latitude: JOB.latitude + km / 111.2, longitude: JOB.longitude });
+
+// One minute of driving per kilometer
+const provider: RoutingProvider = {
+  name: 'heuristic',
+  route: async (origin, destination) => {
+    const meters = Math.abs(destination.latitude - origin.latitude) * 111_200;
+    return { distanceMeters: meters, durationSeconds: meters * 0.06, provider: 'heuristic' };
+  },
+};
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job-1',
+  customerId: 'customer-1',
+  mechanicId: 'mech-1',
+  status: 'EN_ROUTE',
+  ...JOB,
+  arrivingNotifiedAt: null,
+  arrivedAt: null,
+  ...overrides,
+});
+
+const report = (location: { latitude: number; longitude: number }) => ({
+  jobId: 'job-1',
+  mechanicId: 'mech-1',
+  location,
+  accuracyMeters: 8,
+  now,
+});
+
+describe('Live tracking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.job.findUnique.mockResolvedValue(job());
+    mockPrisma.jobLocationPoint.findFirst.mockResolvedValue(null);
+  });
+
+  it('records a breadcrumb and recomputes the ETA', async () => {
+    const update = await recordMechanicLocation(report(north(12)), provider);
+
+    expect(mockPrisma.jobLocationPoint.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ jobId: 'job-1', accuracyMeters: 8, recordedAt: now }),
+    });
+    expect(update).toMatchObject({ etaMinutes: 12, events: [] });
+    expect(mockPrisma.job.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: {
+        currentLatitude: north(12).latitude,
+        currentLongitude: JOB.longitude,
+        eta: new Date(now.getTime() + 12 * 60_000),
+      },
+    });
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('moves a scheduled job en route once the mechanic leaves the departure geofence', async () => {
+    mockPrisma.job.findUnique.mockResolvedValue(job({ status: 'SCHEDULED' }));
+    mockPrisma.jobLocationPoint.findFirst.mockResolvedValue(north(20));
+
+    const update = await recordMechanicLocation(report(north(19)), provider);
+
+    expect(update.events).toEqual(['EN_ROUTE']);
+    expect(update.status).toBe('EN_ROUTE');
+    expect(transitionJob).toHaveBeenCalledWith(expect.objectContaining({
+      jobId: 'job-1',
+      to: 'EN_ROUTE',
+      notes: 'ETA 19 min',
+    }));
+  });
+
+  it('stays scheduled while the mechanic is still at the start', async () => {
+    mockPrisma.job.findUnique.mockResolvedValue(job({ status: 'SCHEDULED' }));
+    mockPrisma.jobLocationPoint.findFirst.mockResolvedValue(north(20));
+
+    const update = await recordMechanicLocation(report(north(19.9)), provider);
+
+    expect(update.events).toEqual([]);
+    expect(transitionJob).not.toHaveBeenCalled();
+  });
+
+  it('tells the customer once when the mechanic is five minutes away', async () => {
+    const update = await recordMechanicLocation(report(north(4)), provider);
+
+    expect(update.events).toEqual(['ARRIVING']);
+    expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'customer-1',
+      type: 'MECHANIC_ARRIVING',
+      body: 'Your mechanic is arriving in about 4 minutes',
+    }));
+
+    jest.clearAllMocks();
+    mockPrisma.job.findUnique.mockResolvedValue(job({ arrivingNotifiedAt: now }));
+
+    await expect(recordMechanicLocation(report(north(3)), provider)).resolves.toMatchObject({ events: [] });
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('marks the job arrived inside the arrival geofence', async () => {
+    const update = await recordMechanicLocation(report(north(0.1)), provider);
+
+    expect(update).toMatchObject({ events: ['ARRIVED'], etaMinutes: 0 });
+    expect(mockPrisma.job.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ arrivedAt: now, arrivingNotifiedAt: now }),
+    }));
+    expect(recordJobEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'MECHANIC_ARRIVED' }));
+    expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({ type: 'MECHANIC_ARRIVED' }));
+  });
+
+  it('only keeps the trail once work has started', async () => {
+    mockPrisma.job.findUnique.mockResolvedValue(job({ status: 'IN_PROGRESS' }));
+
+    const update = await recordMechanicLocation(report(north(0.1)), provider);
+
+    expect(update.events).toEqual([]);
+    expect(mockPrisma.jobLocationPoint.create).toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('refuses updates after the job ends or from another mechanic', async () => {
+    mockPrisma.job.findUnique.mockResolvedValue(job({ status: 'COMPLETED' }));
+    await expect(recordMechanicLocation(report(north(1)), provider)).rejects.toMatchObject({
+      code: 'INVALID_STATUS',
+    });
+
+    mockPrisma.job.findUnique.mockResolvedValue(job({ mechanicId: 'mech-2' }));
+    await expect(recordMechanicLocation(report(north(1)), provider)).rejects.toThrow(LiveTrackingError);
+
+    expect(mockPrisma.jobLocationPoint.create).not.toHaveBeenCalled();
+  });
+
+  it('returns the latest breadcrumbs oldest first', async () => {
+    mockPrisma.jobLocationPoint.findMany.mockResolvedValue([{ latitude: 2 }, { latitude: 1 }]);
+
+    await expect(getJobTrail('job-1', 2)).resolves.toEqual([{ latitude: 1 }, { latitude: 2 }]);
+    expect(mockPrisma.jobLocationPoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      orderBy: { recordedAt: 'desc' },
+      take: 2,
+    }));
+  });
+});
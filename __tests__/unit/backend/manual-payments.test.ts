@@ -0,0 +1,203 @@
+/**
+ * Manual Payments Tests
+ *
+ * Recording cash, check and tap-to-pay payments against a quote, admin
+ * reconciliation, and the card/offline revenue split
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: { findUnique: jest.fn() },
+    quote: { findFirst: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    payment: { findMany: jest.fn(), findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/services/storage', () => ({
+  uploadDocument: jest.fn().mockResolvedValue({ success: true, fileId: 'heinicus/receipts/job-1/receipt.jpg' }),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/earnings', () => ({
+  postPaymentEarnings: jest.fn().mockResolvedValue(null),
+  reversePaymentEarnings: jest.fn().mockResolvedValue(null),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { uploadDocument } from '@/backend/services/storage';
+import { recordJobEvent } from '@/backend/services/job-timeline';
+import { reversePaymentEarnings } from '@/backend/services/earnings';
+import {
+  ManualPaymentError,
+  reconcileManualPayment,
+  recordManualPayment,
+  revenueBySource,
+  validateManualPayment,
+} from '@/backend/services/manual-payments';
+
+const mockPrisma = prisma as unknown as {
+  job: { findUnique: jest.Mock };
+  quote: { findFirst: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+  payment: { findMany: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+};
+
+const RECEIPT = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ==';
+
+const quote = {
+  id: 'quote-1',
+  total: 200,
+  depositPercent: 30,
+  depositAmount: 60,
+  depositPaidAt: null,
+  paidAt: null,
+};
+
+describe('Manual payments', () => {
+  let payments: Record<string, unknown>[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    payments = [];
+
+    mockPrisma.job.findUnique.mockResolvedValue({ id: 'job-1', customerId: 'customer-1', mechanicId: 'mechanic-1' });
+    mockPrisma.quote.findFirst.mockResolvedValue(quote);
+    mockPrisma.quote.findUnique.mockResolvedValue(quote);
+    mockPrisma.payment.findMany.mockImplementation(async () => payments);
+    mockPrisma.payment.create.mockImplementation(async ({ data }) => {
+      const payment = { id: `pay-${payments.length + 1}`, refundAmount: 0, disputeStatus: null, ...data };
+      payments.push(payment);
+      return payment;
+    });
+  });
+
+  describe('validateManualPayment', () => {
+    const base = { amount: 60, attested: true };
+
+    it('requires the proof that matches the source', () => {
+      expect(() => validateManualPayment({ ...base, source: 'CHECK' })).toThrow('check number');
+      expect(() => validateManualPayment({ ...base, source: 'CASH' })).toThrow('receipt photo');
+      expect(() => validateManualPayment({ ...base, source: 'TAP_TO_PAY', terminalReference: '  ' })).toThrow(
+        'terminal transaction reference'
+      );
+
+      expect(() => validateManualPayment({ ...base, source: 'CHECK', checkNumber: '1042' })).not.toThrow();
+      expect(() => validateManualPayment({ ...base, source: 'CASH', receiptPhoto: RECEIPT })).not.toThrow();
+    });
+
+    it('requires the mechanic attestation', () => {
+      expect(() =>
+        validateManualPayment({ source: 'CHECK', checkNumber: '1042', amount: 60, attested: false })
+      ).toThrow(ManualPaymentError);
+    });
+  });
+
+  it('records cash as the deposit with its receipt and marks the deposit paid', async () => {
+    const { payment, schedule } = await recordManualPayment({
+      jobId: 'job-1',
+      recordedById: 'mechanic-1',
+      source: 'CASH',
+      amount: 60,
+      receiptPhoto: RECEIPT,
+      attested: true,
+    });
+
+    expect(uploadDocument).toHaveBeenCalledWith(expect.objectContaining({
+      folder: 'receipts/job-1',
+      mimeType: 'image/jpeg',
+      fileName: expect.stringMatching(/^receipt-\d+\.jpg$/),
+    }));
+    expect(payment).toMatchObject({
+      source: 'CASH',
+      kind: 'DEPOSIT',
+      quoteId: 'quote-1',
+      stripePaymentId: null,
+      status: 'SUCCEEDED',
+      receiptFileId: 'heinicus/receipts/job-1/receipt.jpg',
+      reconciliationStatus: 'PENDING',
+      recordedById: 'mechanic-1',
+    });
+    expect(schedule).toMatchObject({ depositPaid: true, balanceDue: 140, next: { kind: 'BALANCE' } });
+    expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+      where: { id: 'quote-1' },
+      data: { depositPaidAt: expect.any(Date), paidAt: null },
+    });
+    expect(recordJobEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'PAYMENT_RECORDED' }));
+  });
+
+  it('refuses more than the balance due', async () => {
+    await expect(
+      recordManualPayment({
+        jobId: 'job-1',
+        recordedById: 'mechanic-1',
+        source: 'CHECK',
+        checkNumber: '1042',
+        amount: 250,
+        attested: true,
+      })
+    ).rejects.toThrow('exceeds the balance due of $200.00');
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('cancels a rejected payment and reopens the deposit', async () => {
+    const rejected = {
+      id: 'pay-1',
+      jobId: 'job-1',
+      quoteId: 'quote-1',
+      kind: 'DEPOSIT',
+      source: 'CHECK',
+      amount: 60,
+      status: 'SUCCEEDED',
+      reconciliationStatus: 'PENDING',
+      reconciliationNote: null,
+    };
+    mockPrisma.payment.findUnique.mockResolvedValue(rejected);
+    mockPrisma.payment.update.mockImplementation(async ({ data }) => Object.assign(rejected, data));
+    mockPrisma.quote.findUnique.mockResolvedValue({ ...quote, depositPaidAt: new Date('2026-10-01T12:00:00Z') });
+    payments = [rejected];
+
+    await reconcileManualPayment({ paymentId: 'pay-1', adminId: 'admin-1', decision: 'REJECTED', note: 'Check bounced' });
+
+    expect(rejected).toMatchObject({
+      status: 'CANCELED',
+      reconciliationStatus: 'REJECTED',
+      reconciledById: 'admin-1',
+      reconciliationNote: 'Check bounced',
+    });
+    expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+      where: { id: 'quote-1' },
+      data: { depositPaidAt: null, paidAt: null },
+    });
+    expect(reversePaymentEarnings).toHaveBeenCalledWith('pay-1', 'Check payment rejected');
+  });
+
+  it('does not reconcile card payments or reconcile twice', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValueOnce({ id: 'pay-1', source: 'CARD' });
+    await expect(
+      reconcileManualPayment({ paymentId: 'pay-1', adminId: 'admin-1', decision: 'RECONCILED' })
+    ).rejects.toThrow('Only cash, check and tap-to-pay');
+
+    mockPrisma.payment.findUnique.mockResolvedValueOnce({ id: 'pay-2', source: 'CASH', reconciliationStatus: 'RECONCILED' });
+    await expect(
+      reconcileManualPayment({ paymentId: 'pay-2', adminId: 'admin-1', decision: 'RECONCILED' })
+    ).rejects.toThrow('already reconciled');
+
+    expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+  });
+
+  it('splits revenue, net of refunds, between card and offline sources', () => {
+    expect(
+      revenueBySource([
+        { amount: 100, source: 'CARD' },
+        { amount: 80, refundAmount: 30, source: 'CARD' },
+        { amount: 50.1, source: null },
+        { amount: 40, source: 'CASH' },
+        { amount: 25.5, source: 'CHECK' },
+        { amount: 12.25, source: 'TAP_TO_PAY' },
+        { amount: 20, source: 'ACCOUNT_CREDIT' },
+      ])
+    ).toEqual({ card: 200.1, cash: 40, check: 25.5, tapToPay: 12.25, offline: 77.75, credit: 20 });
+  });
+});
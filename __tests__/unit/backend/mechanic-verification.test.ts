@@ -0,0 +1,228 @@
+/**
+ * Mechanic Verification Tests
+ *
+ * Document validation on submission, admin review rules, whether a
+ * mechanic counts as verified and expiry reminders
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    mechanicVerification: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    verificationDocument: { findMany: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/services/storage', () => ({
+  uploadDocument: jest.fn(),
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { uploadDocument } from '@/backend/services/storage';
+import { sendNotification } from '@/backend/services/notifications';
+import {
+  getVerificationState,
+  notifyExpiringDocuments,
+  reviewVerification,
+  submitVerification,
+  VerificationDocumentUpload,
+  VerificationError,
+} from '@/backend/services/mechanic-verification';
+
+const mockPrisma = prisma as unknown as {
+  mechanicVerification: { findFirst: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  verificationDocument: { findMany: jest.Mock; update: jest.Mock };
+};
+
+const now = new Date('2026-10-19T12:00:00Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+const documents = (): VerificationDocumentUpload[] => [
+  { type: 'SELFIE', base64Data: 'c2VsZmll', mimeType: 'image/jpeg' },
+  { type: 'ID', base64Data: 'aWQ=', mimeType: 'image/jpeg', expiresAt: daysFromNow(400) },
+  { type: 'ASE_CERTIFICATION', base64Data: 'YXNl', mimeType: 'application/pdf', expiresAt: daysFromNow(700) },
+  { type: 'INSURANCE', base64Data: 'aW5z', mimeType: 'image/png', expiresAt: daysFromNow(200) },
+];
+
+describe('Mechanic Verification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (uploadDocument as jest.Mock).mockImplementation(async ({ fileName }) => ({ success: true, fileId: `file-${fileName}` }));
+    mockPrisma.mechanicVerification.create.mockImplementation(async ({ data }) => ({ id: 'ver-1', ...data }));
+  });
+
+  describe('submitVerification', () => {
+    it('stores each document and opens a pending submission', async () => {
+      mockPrisma.mechanicVerification.findFirst.mockResolvedValue(null);
+
+      await submitVerification({ mechanicId: 'mech-1', fullName: 'Alex Kim', documents: documents(), now });
+
+      expect(uploadDocument).toHaveBeenCalledTimes(4);
+      expect(uploadDocument).toHaveBeenCalledWith(expect.objectContaining({
+        folder: 'verifications/mech-1',
+        mimeType: 'application/pdf',
+      }));
+      const { data } = mockPrisma.mechanicVerification.create.mock.calls[0][0];
+      expect(data).toMatchObject({ mechanicId: 'mech-1', status: 'PENDING', submittedAt: now });
+      expect(data.documents.create.map((document: { type: string; expiresAt: Date | null }) => [document.type, document.expiresAt])).toEqual([
+        ['SELFIE', null],
+        ['ID', daysFromNow(400)],
+        ['ASE_CERTIFICATION', daysFromNow(700)],
+        ['INSURANCE', daysFromNow(200)],
+      ]);
+    });
+
+    it('needs every document, with a future expiry where documents lapse', async () => {
+      const missing = documents().filter((document) => document.type !== 'INSURANCE');
+      await expect(submitVerification({ mechanicId: 'mech-1', fullName: 'Alex Kim', documents: missing, now }))
+        .rejects.toThrow('Upload one insurance certificate');
+
+      const undated = documents().map((document) => document.type === 'ID' ? { ...document, expiresAt: undefined } : document);
+      await expect(submitVerification({ mechanicId: 'mech-1', fullName: 'Alex Kim', documents: undated, now }))
+        .rejects.toThrow('Government ID needs an expiry date');
+
+      const expired = documents().map((document) => document.type === 'INSURANCE' ? { ...document, expiresAt: daysFromNow(-1) } : document);
+      await expect(submitVerification({ mechanicId: 'mech-1', fullName: 'Alex Kim', documents: expired, now }))
+        .rejects.toThrow('Insurance certificate has already expired');
+
+      expect(uploadDocument).not.toHaveBeenCalled();
+    });
+
+    it('rejects unsupported files and a second pending submission', async () => {
+      const gif = documents().map((document) => document.type === 'SELFIE' ? { ...document, mimeType: 'image/gif' } : document);
+      await expect(submitVerification({ mechanicId: 'mech-1', fullName: 'Alex Kim', documents: gif, now }))
+        .rejects.toBeInstanceOf(VerificationError);
+
+      mockPrisma.mechanicVerification.findFirst.mockResolvedValue({ id: 'ver-0' });
+      await expect(submitVerification({ mechanicId: 'mech-1', fullName: 'Alex Kim', documents: documents(), now }))
+        .rejects.toThrow('pending review');
+    });
+  });
+
+  describe('reviewVerification', () => {
+    it('approves a pending submission and notifies the mechanic', async () => {
+      mockPrisma.mechanicVerification.findUnique.mockResolvedValue({ id: 'ver-1', mechanicId: 'mech-1', status: 'PENDING' });
+
+      await reviewVerification({ verificationId: 'ver-1', reviewerId: 'admin-1', decision: 'APPROVED' });
+
+      expect(mockPrisma.mechanicVerification.update).toHaveBeenCalledWith({
+        where: { id: 'ver-1' },
+        data: expect.objectContaining({ status: 'APPROVED', reviewedBy: 'admin-1', reviewNotes: null }),
+      });
+      expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'mech-1',
+        type: 'VERIFICATION_UPDATE',
+        title: 'Verification Approved',
+      }));
+    });
+
+    it('needs notes to reject and only reviews pending submissions', async () => {
+      mockPrisma.mechanicVerification.findUnique.mockResolvedValue({ id: 'ver-1', mechanicId: 'mech-1', status: 'PENDING' });
+      await expect(reviewVerification({ verificationId: 'ver-1', reviewerId: 'admin-1', decision: 'REJECTED', notes: '  ' }))
+        .rejects.toThrow('why the submission was rejected');
+
+      mockPrisma.mechanicVerification.findUnique.mockResolvedValue({ id: 'ver-1', mechanicId: 'mech-1', status: 'APPROVED' });
+      await expect(reviewVerification({ verificationId: 'ver-1', reviewerId: 'admin-1', decision: 'APPROVED' }))
+        .rejects.toThrow('already approved');
+
+      expect(mockPrisma.mechanicVerification.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVerificationState', () => {
+    const approved = (expiries: (Date | null)[]) => ({
+      id: 'ver-1',
+      status: 'APPROVED',
+      documents: expiries.map((expiresAt, index) => ({ type: ['SELFIE', 'ID', 'ASE_CERTIFICATION', 'INSURANCE'][index], expiresAt })),
+    });
+
+    it('is unverified without a submission', async () => {
+      mockPrisma.mechanicVerification.findFirst.mockResolvedValue(null);
+
+      expect(await getVerificationState('mech-1', now)).toEqual({
+        verified: false,
+        status: null,
+        expiredDocuments: [],
+        expiringDocuments: [],
+      });
+    });
+
+    it('stays verified while a renewal is pending and flags documents expiring soon', async () => {
+      mockPrisma.mechanicVerification.findFirst
+        .mockResolvedValueOnce({ status: 'PENDING' })
+        .mockResolvedValueOnce(approved([null, daysFromNow(400), daysFromNow(10), daysFromNow(200)]));
+
+      const state = await getVerificationState('mech-1', now);
+
+      expect(state).toMatchObject({ verified: true, status: 'PENDING', expiredDocuments: [] });
+      expect(state.expiringDocuments).toEqual([{ type: 'ASE_CERTIFICATION', expiresAt: daysFromNow(10) }]);
+    });
+
+    it('is unverified once an approved document has expired', async () => {
+      mockPrisma.mechanicVerification.findFirst
+        .mockResolvedValueOnce({ status: 'APPROVED' })
+        .mockResolvedValueOnce(approved([null, daysFromNow(400), daysFromNow(700), daysFromNow(-2)]));
+
+      expect(await getVerificationState('mech-1', now)).toMatchObject({
+        verified: false,
+        expiredDocuments: ['INSURANCE'],
+      });
+    });
+  });
+
+  describe('notifyExpiringDocuments', () => {
+    const expiring = (overrides: Record<string, unknown> = {}) => ({
+      id: 'doc-1',
+      type: 'INSURANCE',
+      expiresAt: daysFromNow(20),
+      expiryNotifiedAt: null,
+      verification: { id: 'ver-1', mechanicId: 'mech-1' },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockPrisma.mechanicVerification.findFirst.mockResolvedValue({ id: 'ver-1' });
+    });
+
+    it('reminds once per window and records when', async () => {
+      mockPrisma.verificationDocument.findMany.mockResolvedValue([expiring()]);
+
+      expect(await notifyExpiringDocuments(now)).toEqual({ notified: 1 });
+      expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'mech-1',
+        type: 'DOCUMENT_EXPIRING',
+        body: expect.stringContaining('expires in 20 days'),
+      }));
+      expect(mockPrisma.verificationDocument.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { expiryNotifiedAt: now },
+      });
+    });
+
+    it('skips documents already reminded in this window, but reminds again a week out', async () => {
+      mockPrisma.verificationDocument.findMany.mockResolvedValue([
+        expiring({ expiryNotifiedAt: daysFromNow(-5) }),
+        expiring({ id: 'doc-2', type: 'ID', expiresAt: daysFromNow(5), expiryNotifiedAt: daysFromNow(-20) }),
+      ]);
+
+      expect(await notifyExpiringDocuments(now)).toEqual({ notified: 1 });
+      expect(mockPrisma.verificationDocument.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'doc-2' } }));
+    });
+
+    it('stops reminding once renewed documents are submitted', async () => {
+      mockPrisma.verificationDocument.findMany.mockResolvedValue([expiring()]);
+      mockPrisma.mechanicVerification.findFirst.mockResolvedValue({ id: 'ver-2' });
+
+      expect(await notifyExpiringDocuments(now)).toEqual({ notified: 0 });
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+  });
+});
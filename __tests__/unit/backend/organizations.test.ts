@@ -0,0 +1,319 @@
+/**
+ * Organizations Tests
+ *
+ * Monthly periods, the consolidated invoice for an organization's jobs,
+ * member invitations and approval limits, and issuing invoices on net terms
+ */
+
+jest.mock('@/lib/prisma', () => {
+  const prisma: Record<string, unknown> = {
+    organization: { findUnique: jest.fn() },
+    organizationInvoice: { findUnique: jest.fn(), upsert: jest.fn() },
+    organizationMember: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+    organizationInvitation: { findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    job: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  prisma.$transaction = jest.fn((run: (tx: unknown) => unknown) => run(prisma));
+  return { prisma };
+});
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { sendNotification } from '@/backend/services/notifications';
+import {
+  buildConsolidatedInvoice,
+  invoicePeriod,
+  renderConsolidatedInvoicePdf,
+} from '@/backend/services/invoices';
+import {
+  assertCanApproveQuote,
+  inviteMember,
+  issueOrganizationInvoice,
+  OrganizationError,
+  respondToInvitation,
+} from '@/backend/services/organizations';
+
+const mockPrisma = prisma as unknown as {
+  organization: { findUnique: jest.Mock };
+  organizationInvoice: { findUnique: jest.Mock; upsert: jest.Mock };
+  organizationMember: { findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+  organizationInvitation: { findUnique: jest.Mock; findFirst: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+  user: { findUnique: jest.Mock };
+  job: { findMany: jest.Mock; updateMany: jest.Mock };
+};
+
+const organization = {
+  id: 'org-acme-1',
+  name: 'Acme Fleet',
+  billingEmail: 'ap@acme.test',
+  billingAddress: '1 Fleet Way, Austin, TX',
+  paymentTermsDays: 30,
+};
+
+const orgJob = (id: string, total: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: 'Brake service',
+  poNumber: `PO-${id}`,
+  completedAt: new Date('2026-09-12T15:00:00Z'),
+  customer: { firstName: 'Sam', lastName: 'Rivera' },
+  vehicle: { year: 2020, make: 'Ford', model: 'Transit', licensePlate: 'FLT-001' },
+  quotes: [{ total }],
+  payments: [],
+  ...overrides,
+});
+
+describe('Organizations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.organization.findUnique.mockResolvedValue(organization);
+    mockPrisma.organizationInvoice.findUnique.mockResolvedValue(null);
+    mockPrisma.job.findMany.mockResolvedValue([
+      orgJob('job-1', 250),
+      orgJob('job-2', 180.5, { payments: [{ amount: 50, refundAmount: null }] }),
+    ]);
+    mockPrisma.organizationMember.findMany.mockResolvedValue([{ userId: 'owner-1' }]);
+    mockPrisma.organizationInvoice.upsert.mockImplementation(async ({ create }) => ({
+      id: 'orginv-1',
+      status: 'OPEN',
+      ...create,
+    }));
+  });
+
+  describe('invoicePeriod', () => {
+    it('covers the calendar month in UTC, end exclusive', () => {
+      expect(invoicePeriod('2026-12')).toEqual({
+        start: new Date('2026-12-01T00:00:00Z'),
+        end: new Date('2027-01-01T00:00:00Z'),
+      });
+    });
+
+    it('rejects malformed periods', () => {
+      expect(() => invoicePeriod('2026-13')).toThrow('Invalid invoice period');
+      expect(() => invoicePeriod('Sept 2026')).toThrow('Invalid invoice period');
+    });
+  });
+
+  describe('buildConsolidatedInvoice', () => {
+    it("lists the month's completed jobs with PO numbers and nets out direct payments", async () => {
+      const invoice = await buildConsolidatedInvoice('org-acme-1', '2026-09');
+
+      expect(mockPrisma.job.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          organizationId: 'org-acme-1',
+          status: 'COMPLETED',
+          completedAt: { gte: new Date('2026-09-01T00:00:00Z'), lt: new Date('2026-10-01T00:00:00Z') },
+        },
+      }));
+      expect(invoice).toMatchObject({
+        invoiceNumber: 'INV-ORG-AC-202609',
+        status: 'DRAFT',
+        total: 430.5,
+        paid: 50,
+        balanceDue: 380.5,
+      });
+      expect(invoice!.lines.map((line) => [line.poNumber, line.amountDue])).toEqual([
+        ['PO-job-1', 250],
+        ['PO-job-2', 130.5],
+      ]);
+      expect(invoice!.lines[0].vehicle).toBe('2020 Ford Transit (FLT-001)');
+    });
+
+    it('is due on net terms from the end of the month until issued', async () => {
+      const invoice = await buildConsolidatedInvoice('org-acme-1', '2026-09');
+
+      expect(invoice!.dueDate).toEqual(new Date('2026-10-31T00:00:00Z'));
+    });
+
+    it('returns null for an unknown organization', async () => {
+      mockPrisma.organization.findUnique.mockResolvedValue(null);
+
+      expect(await buildConsolidatedInvoice('missing', '2026-09')).toBeNull();
+    });
+
+    it('renders a PDF', async () => {
+      // pdfkit's font tables need Node's TextDecoder (ascii), not the Expo polyfill
+      const expoTextDecoder = global.TextDecoder;
+      global.TextDecoder = jest.requireActual('util').TextDecoder;
+
+      try {
+        const invoice = await buildConsolidatedInvoice('org-acme-1', '2026-09');
+        const pdf = await renderConsolidatedInvoicePdf(invoice!);
+
+        expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      } finally {
+        global.TextDecoder = expoTextDecoder;
+      }
+    });
+  });
+
+  describe('invitations', () => {
+    const now = new Date('2026-10-02T09:00:00Z');
+    const invitation = (overrides: Record<string, unknown> = {}) => ({
+      id: 'invite-1',
+      organizationId: 'org-acme-1',
+      userId: 'customer-1',
+      role: 'MEMBER',
+      approvalLimit: 500,
+      status: 'PENDING',
+      expiresAt: new Date('2026-10-10T00:00:00Z'),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'customer-1', role: 'CUSTOMER' });
+      mockPrisma.organizationMember.findUnique.mockResolvedValue(null);
+      mockPrisma.organizationInvitation.findFirst.mockResolvedValue(null);
+      mockPrisma.organizationInvitation.create.mockImplementation(async ({ data }) => ({
+        id: 'invite-1',
+        ...data,
+        organization: { name: 'Acme Fleet' },
+      }));
+      mockPrisma.organizationInvitation.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('invites a customer without making them a member', async () => {
+      const created = await inviteMember({
+        organizationId: 'org-acme-1',
+        invitedById: 'owner-1',
+        email: 'Sam@Example.com',
+        role: 'MEMBER',
+        approvalLimit: 500,
+        now,
+      });
+
+      expect(created).toMatchObject({ userId: 'customer-1', invitedById: 'owner-1', expiresAt: new Date('2026-10-16T09:00:00Z') });
+      expect(mockPrisma.organizationMember.create).not.toHaveBeenCalled();
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'customer-1', type: 'ORGANIZATION_INVITE' })
+      );
+    });
+
+    it('does not invite the same customer twice', async () => {
+      mockPrisma.organizationInvitation.findFirst.mockResolvedValue({ id: 'invite-0' });
+
+      await expect(inviteMember({
+        organizationId: 'org-acme-1', invitedById: 'owner-1', email: 'sam@example.com', role: 'MEMBER', approvalLimit: null, now,
+      })).rejects.toThrow('already been invited');
+    });
+
+    it('adds the member with the invited role and limit once accepted', async () => {
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(invitation());
+
+      await respondToInvitation({ userId: 'customer-1', invitationId: 'invite-1', accept: true, now });
+
+      expect(mockPrisma.organizationInvitation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invite-1', status: 'PENDING' },
+        data: { status: 'ACCEPTED', respondedAt: now },
+      });
+      expect(mockPrisma.organizationMember.create).toHaveBeenCalledWith({
+        data: { organizationId: 'org-acme-1', userId: 'customer-1', role: 'MEMBER', approvalLimit: 500 },
+      });
+    });
+
+    it('only lets the invitee answer an open invitation', async () => {
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(invitation());
+      await expect(
+        respondToInvitation({ userId: 'customer-2', invitationId: 'invite-1', accept: true, now })
+      ).rejects.toThrow('Invitation not found');
+
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(invitation({ expiresAt: now }));
+      await expect(
+        respondToInvitation({ userId: 'customer-1', invitationId: 'invite-1', accept: true, now })
+      ).rejects.toThrow('expired');
+
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(invitation());
+      mockPrisma.organizationInvitation.updateMany.mockResolvedValue({ count: 0 });
+      await expect(
+        respondToInvitation({ userId: 'customer-1', invitationId: 'invite-1', accept: true, now })
+      ).rejects.toThrow('no longer open');
+
+      expect(mockPrisma.organizationMember.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approval limits', () => {
+    const membership = (overrides: Record<string, unknown> = {}) => ({
+      userId: 'member-1',
+      organizationId: 'org-acme-1',
+      role: 'MEMBER',
+      approvalLimit: 500,
+      ...overrides,
+    });
+
+    it('lets members approve up to their limit', async () => {
+      mockPrisma.organizationMember.findUnique.mockResolvedValue(membership());
+
+      await expect(assertCanApproveQuote('member-1', 'org-acme-1', 500)).resolves.toBeUndefined();
+      await expect(assertCanApproveQuote('member-1', 'org-acme-1', 500.01)).rejects.toThrow('approval limit of $500.00');
+    });
+
+    it('does not limit owners or members without a limit', async () => {
+      mockPrisma.organizationMember.findUnique.mockResolvedValueOnce(membership({ role: 'OWNER' }));
+      await expect(assertCanApproveQuote('member-1', 'org-acme-1', 5000)).resolves.toBeUndefined();
+
+      mockPrisma.organizationMember.findUnique.mockResolvedValueOnce(membership({ approvalLimit: null }));
+      await expect(assertCanApproveQuote('member-1', 'org-acme-1', 5000)).resolves.toBeUndefined();
+    });
+
+    it('refuses users outside the organization', async () => {
+      mockPrisma.organizationMember.findUnique.mockResolvedValue(membership({ organizationId: 'org-other' }));
+
+      await expect(assertCanApproveQuote('member-1', 'org-acme-1', 10)).rejects.toBeInstanceOf(OrganizationError);
+    });
+  });
+
+  describe('issueOrganizationInvoice', () => {
+    const now = new Date('2026-10-02T09:00:00Z');
+
+    it('issues the balance due on net terms, attaches the jobs and notifies owners', async () => {
+      const issued = await issueOrganizationInvoice('org-acme-1', '2026-09', now);
+
+      expect(issued).toMatchObject({
+        invoiceNumber: 'INV-ORG-AC-202609',
+        total: 380.5,
+        issuedAt: now,
+        dueAt: new Date('2026-11-01T09:00:00Z'),
+      });
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['job-1', 'job-2'] } },
+        data: { organizationInvoiceId: 'orginv-1' },
+      });
+      expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'owner-1',
+        type: 'INVOICE_ISSUED',
+      }));
+    });
+
+    it('keeps one invoice per organization and month', async () => {
+      await issueOrganizationInvoice('org-acme-1', '2026-09', now);
+
+      expect(mockPrisma.organizationInvoice.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { organizationId_periodStart: { organizationId: 'org-acme-1', periodStart: new Date('2026-09-01T00:00:00Z') } },
+        update: { total: 380.5 },
+      }));
+    });
+
+    it('skips months without jobs', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([]);
+
+      expect(await issueOrganizationInvoice('org-acme-1', '2026-09', now)).toBeNull();
+      expect(mockPrisma.organizationInvoice.upsert).not.toHaveBeenCalled();
+    });
+
+    it('refuses a month that has not ended or is already paid', async () => {
+      await expect(issueOrganizationInvoice('org-acme-1', '2026-10', now)).rejects.toThrow('once it has ended');
+
+      mockPrisma.organizationInvoice.findUnique.mockResolvedValue({
+        invoiceNumber: 'INV-ORG-AC-202609',
+        status: 'PAID',
+        issuedAt: now,
+        dueAt: now,
+      });
+      await expect(issueOrganizationInvoice('org-acme-1', '2026-09', now)).rejects.toThrow('already paid');
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Pricing Engine Tests
+ *
+ * Golden-file tests pin the estimate for every ServiceType; regenerate with
+ * `UPDATE_GOLDEN=1 npx jest pricing-engine` after an intentional price change
+ * and review the JSON diff.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    service: { findUnique: jest.fn() },
+    pricingProfile: { findUnique: jest.fn() },
+    mechanicProfile: { findUnique: jest.fn() },
+    systemSettings: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    taxRule: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { SERVICE_TYPES } from '@/constants/pricing';
+import {
+  calculateEstimate,
+  estimateQuote,
+  type EstimateInput,
+  type PricingContext,
+} from '@/backend/services/pricing-engine';
+
+const mockPrisma = prisma as unknown as {
+  service: { findUnique: jest.Mock };
+  pricingProfile: { findUnique: jest.Mock };
+  mechanicProfile: { findUnique: jest.Mock };
+  systemSettings: { findMany: jest.Mock };
+  user: { findUnique: jest.Mock };
+  taxRule: { findMany: jest.Mock };
+};
+
+const GOLDEN_FILE = path.join(__dirname, '__golden__', 'pricing-engine.json');
+
+const context: PricingContext = {
+  config: { travelFeePerMile: 0.65, minimumTravelFee: 15 },
+  taxRates: { parts: 0.08, labor: 0.08 },
+  now: new Date('2026-01-01T00:00:00Z'),
+};
+
+/**
+ * Scenarios priced for every service type
+ */
+const SCENARIOS: Record<string, Omit<EstimateInput, 'serviceType'>> = {
+  standard: { urgency: 'medium', distanceMiles: 12 },
+  emergency_older_import: {
+    urgency: 'emergency',
+    distanceMiles: 40,
+    vehicle: { year: 2012, make: 'Toyota', model: 'Camry', mileage: 160000 },
+  },
+};
+
+function goldenEstimates() {
+  const estimates: Record<string, Record<string, unknown>> = {};
+
+  for (const serviceType of SERVICE_TYPES) {
+    estimates[serviceType] = {};
+    for (const [name, scenario] of Object.entries(SCENARIOS)) {
+      const { lineItems, totals, adjustments } = calculateEstimate({ serviceType, ...scenario }, context);
+      estimates[serviceType][name] = { lineItems, totals, adjustments };
+    }
+  }
+
+  return estimates;
+}
+
+describe('calculateEstimate golden files', () => {
+  const actual = goldenEstimates();
+
+  if (process.env.UPDATE_GOLDEN) {
+    fs.writeFileSync(GOLDEN_FILE, `${JSON.stringify(actual, null, 2)}\n`);
+  }
+
+  const golden = JSON.parse(fs.readFileSync(GOLDEN_FILE, 'utf8'));
+
+  it('covers every service type', () => {
+    expect(Object.keys(golden).sort()).toEqual([...SERVICE_TYPES].sort());
+  });
+
+  it.each(SERVICE_TYPES)('prices %s as recorded', (serviceType) => {
+    expect(actual[serviceType]).toEqual(golden[serviceType]);
+  });
+});
+
+describe('calculateEstimate', () => {
+  it('explains every adjustment to the pre-tax price', () => {
+    const estimate = calculateEstimate({
+      serviceType: 'brake_service',
+      urgency: 'high',
+      distanceMiles: 30,
+      vehicle: { year: 2008, make: 'BMW', mileage: 90000 },
+      aiDiagnosis: { confidence: 'low', urgencyLevel: 'high' },
+    }, context);
+
+    expect(estimate.adjustments.map((a) => a.rule)).toEqual([
+      'ai_complex_diagnosis',
+      'vehicle_age',
+      'urgency',
+      'luxury_parts',
+      'urgency_travel',
+    ]);
+  });
+
+  it("uses the mechanic's custom price as the minimum charge and applies their discount", () => {
+    const estimate = calculateEstimate(
+      { serviceType: 'oil_change', urgency: 'medium' },
+      { ...context, pricingProfile: { customPrice: 60, discountPercent: 10 } }
+    );
+
+    expect(estimate.basePriceSource).toBe('mechanic');
+    expect(estimate.lineItems[0]).toMatchObject({ type: 'LABOR', total: 60 });
+    expect(estimate.adjustments).toContainEqual(expect.objectContaining({ rule: 'base_price_minimum' }));
+    expect(estimate.totals.discountTotal).toBeGreaterThan(0);
+    expect(estimate.adjustments).toContainEqual(
+      expect.objectContaining({ rule: 'mechanic_discount', amount: -estimate.totals.discountTotal })
+    );
+  });
+
+  it('prices selected parts individually', () => {
+    const estimate = calculateEstimate(
+      { serviceType: 'oil_change', urgency: 'low', selectedParts: ['Oil Filter', 'Synthetic Oil (5qt)'] },
+      context
+    );
+
+    expect(estimate.lineItems.filter((item) => item.type === 'PART').map((item) => item.description)).toEqual([
+      'Oil Filter',
+      'Synthetic Oil (5qt)',
+    ]);
+    expect(estimate.totals.partsCost).toBe(60);
+  });
+
+  it("uses the Service row's estimated time for labor hours", () => {
+    const estimate = calculateEstimate(
+      { serviceType: 'transmission', urgency: 'low' },
+      { ...context, service: { basePrice: 100, estimatedTime: 240 } }
+    );
+
+    expect(estimate.laborHours).toBe(4);
+    expect(estimate.basePriceSource).toBe('service');
+  });
+
+  it("uses the service zone's travel rates and adds its surcharge", () => {
+    const estimate = calculateEstimate(
+      { serviceType: 'oil_change', urgency: 'medium', distanceMiles: 10 },
+      {
+        ...context,
+        zone: { name: 'Lake Travis', travelFeePerMile: 2, minimumTravelFee: null, surcharge: 25, surchargeLabel: 'Remote area fee' },
+      }
+    );
+
+    expect(estimate.lineItems.find((item) => item.type === 'TRAVEL')).toMatchObject({
+      description: 'Travel (10 mi) - Lake Travis',
+      total: 20,
+    });
+    expect(estimate.lineItems.find((item) => item.type === 'FEE')).toMatchObject({ description: 'Remote area fee', total: 25 });
+    expect(estimate.adjustments).toContainEqual(expect.objectContaining({ rule: 'zone_surcharge', amount: 25 }));
+  });
+});
+
+describe('estimateQuote', () => {
+  it('loads travel fees from system settings and ignores inactive pricing profiles', async () => {
+    mockPrisma.service.findUnique.mockResolvedValue({ basePrice: 40, estimatedTime: 30, isActive: true });
+    mockPrisma.pricingProfile.findUnique.mockResolvedValue({ customPrice: 500, discountPercent: 0, isActive: false });
+    mockPrisma.mechanicProfile.findUnique.mockResolvedValue({ latitude: 30, longitude: -97 });
+    mockPrisma.taxRule.findMany.mockResolvedValue([]);
+    mockPrisma.systemSettings.findMany.mockResolvedValue([
+      { key: 'travelFeePerMile', value: 1 },
+      { key: 'minimumTravelFee', value: 20 },
+    ]);
+
+    const estimate = await estimateQuote({
+      serviceType: 'oil_change',
+      urgency: 'medium',
+      serviceId: 'service-1',
+      mechanicId: 'mech-1',
+      coordinates: { latitude: 30.5, longitude: -97 },
+    });
+
+    expect(estimate.basePriceSource).toBe('service');
+    expect(estimate.totals.travelFee).toBe(34.55);
+  });
+
+  it("measures travel from the mechanic's location and ignores unknown mechanics", async () => {
+    mockPrisma.service.findUnique.mockResolvedValue(null);
+    mockPrisma.mechanicProfile.findUnique.mockResolvedValue(null);
+    mockPrisma.taxRule.findMany.mockResolvedValue([]);
+    mockPrisma.systemSettings.findMany.mockResolvedValue([]);
+
+    const estimate = await estimateQuote({
+      serviceType: 'oil_change',
+      urgency: 'medium',
+      serviceId: 'service-1',
+      mechanicId: 'not-a-mechanic',
+      coordinates: { latitude: 45, longitude: -120 },
+    });
+
+    expect(mockPrisma.pricingProfile.findUnique).not.toHaveBeenCalled();
+    expect(estimate.lineItems.find((item) => item.type === 'TRAVEL')).toMatchObject({ description: 'Travel (minimum)' });
+  });
+
+  it('taxes the estimate with the rule for the service location', async () => {
+    mockPrisma.service.findUnique.mockResolvedValue(null);
+    mockPrisma.pricingProfile.findUnique.mockResolvedValue(null);
+    mockPrisma.systemSettings.findMany.mockResolvedValue([]);
+    mockPrisma.user.findUnique.mockResolvedValue({ address: '1 Elm St, Portland, OR 97201', isFleetAccount: false });
+    mockPrisma.taxRule.findMany.mockResolvedValue([
+      { id: 'tx', name: 'Texas', state: 'TX', zipPrefix: null, partsRate: 0.0625, laborRate: 0, fleetExempt: false, isActive: true },
+    ]);
+
+    const estimate = await estimateQuote({
+      serviceType: 'oil_change',
+      urgency: 'medium',
+      customerId: 'customer-1',
+      location: '500 Congress Ave, Austin, TX 78701',
+    });
+
+    expect(estimate.totals.partsTaxRate).toBe(0.0625);
+    expect(estimate.totals.laborTax).toBe(0);
+    expect(estimate.lineItems.filter((item) => item.type === 'TAX').map((item) => item.description)).toEqual([
+      'Sales tax on parts (6.25%)',
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Quote Revisions Service Tests
+ *
+ * Covers change order line item diffs
+ */
+
+import { diffLineItems } from '@/backend/services/quote-revisions';
+import { priceQuoteLineItems } from '@/utils/quote-totals';
+
+const original = priceQuoteLineItems([
+  { type: 'LABOR', description: 'Brake job', quantity: 2, unitPrice: 90 },
+  { type: 'PART', description: 'Brake pads', quantity: 1, unitPrice: 80, partNumber: 'BP-1' },
+], 0.08).lineItems;
+
+describe('diffLineItems', () => {
+  it('reports new lines as added and dropped lines as removed', () => {
+    const revised = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Brake job', quantity: 2, unitPrice: 90 },
+      { type: 'PART', description: 'Rotors', quantity: 2, unitPrice: 60, partNumber: 'RT-2' },
+    ], 0.08).lineItems;
+
+    const { added, removed } = diffLineItems(original, revised);
+
+    expect(added.map((item) => item.description)).toEqual(['Rotors']);
+    expect(removed.map((item) => item.description)).toEqual(['Brake pads']);
+  });
+
+  it('treats a quantity change as a removed and an added line', () => {
+    const revised = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Brake job', quantity: 3, unitPrice: 90 },
+      { type: 'PART', description: 'Brake pads', quantity: 1, unitPrice: 80, partNumber: 'BP-1' },
+    ], 0.08).lineItems;
+
+    const { added, removed } = diffLineItems(original, revised);
+
+    expect(added).toEqual([expect.objectContaining({ description: 'Brake job', quantity: 3 })]);
+    expect(removed).toEqual([expect.objectContaining({ description: 'Brake job', quantity: 2 })]);
+  });
+
+  it('ignores derived tax lines', () => {
+    const { added, removed } = diffLineItems(original, priceQuoteLineItems([
+      { type: 'LABOR', description: 'Brake job', quantity: 2, unitPrice: 90 },
+      { type: 'PART', description: 'Brake pads', quantity: 1, unitPrice: 80, partNumber: 'BP-1' },
+    ], 0.1).lineItems);
+
+    expect(added).toEqual([]);
+    expect(removed).toEqual([]);
+  });
+});
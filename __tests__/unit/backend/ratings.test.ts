@@ -0,0 +1,115 @@
+/**
+ * Ratings Service Tests
+ *
+ * Covers aggregate rating recomputation and badge evaluation
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    review: { findMany: jest.fn() },
+    mechanicProfile: { findUnique: jest.fn(), upsert: jest.fn() },
+    analyticsSnapshot: { updateMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  aggregateReviews,
+  evaluateBadges,
+  recomputeMechanicRating,
+} from '@/backend/services/ratings';
+
+const mockPrisma = prisma as unknown as {
+  review: { findMany: jest.Mock };
+  mechanicProfile: { findUnique: jest.Mock; upsert: jest.Mock };
+  analyticsSnapshot: { updateMany: jest.Mock };
+};
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+function review(rating: number, overrides: Record<string, unknown> = {}) {
+  return { rating, createdAt, ...overrides };
+}
+
+describe('aggregateReviews', () => {
+  it('returns zeroed stats when there are no reviews', () => {
+    const stats = aggregateReviews([]);
+
+    expect(stats.averageRating).toBe(0);
+    expect(stats.totalReviews).toBe(0);
+    expect(stats.ratingDistribution).toEqual({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+    expect(stats.responseRate).toBeNull();
+  });
+
+  it('averages overall and category ratings, ignoring missing sub-ratings', () => {
+    const stats = aggregateReviews([
+      review(5, { qualityRating: 5, punctualityRating: 4 }),
+      review(4, { qualityRating: 4 }),
+      review(3),
+    ]);
+
+    expect(stats.averageRating).toBe(4);
+    expect(stats.totalReviews).toBe(3);
+    expect(stats.ratingDistribution).toEqual({ 1: 0, 2: 0, 3: 1, 4: 1, 5: 1 });
+    expect(stats.categoryAverages.quality).toBe(4.5);
+    expect(stats.categoryAverages.punctuality).toBe(4);
+    expect(stats.categoryAverages.value).toBe(0);
+  });
+
+  it('tracks response rate and average response time', () => {
+    const stats = aggregateReviews([
+      review(5, { respondedAt: new Date('2026-01-01T12:00:00Z') }),
+      review(4),
+    ]);
+
+    expect(stats.responseRate).toBe(50);
+    expect(stats.averageResponseTimeHours).toBe(12);
+  });
+});
+
+describe('evaluateBadges', () => {
+  const fiveStars = Array.from({ length: 30 }, () =>
+    review(5, { qualityRating: 5, punctualityRating: 5 })
+  );
+
+  it('awards badges whose criteria are met', () => {
+    const ids = evaluateBadges(aggregateReviews(fiveStars)).map((b) => b.id);
+
+    expect(ids).toEqual(['five_star_hero', 'quality_champion', 'punctuality_pro']);
+  });
+
+  it('keeps the original earnedAt for badges already held', () => {
+    const earnedAt = new Date('2025-06-01T00:00:00Z');
+    const [hero] = evaluateBadges(aggregateReviews(fiveStars), [
+      { id: 'five_star_hero', name: '', description: '', icon: '', color: '', criteria: '', earnedAt },
+    ]);
+
+    expect(hero.earnedAt).toEqual(earnedAt);
+  });
+
+  it('drops badges once the criteria are no longer met', () => {
+    expect(evaluateBadges(aggregateReviews([review(5), review(1)]))).toEqual([]);
+  });
+});
+
+describe('recomputeMechanicRating', () => {
+  it('writes the aggregate to the profile and current analytics snapshot', async () => {
+    mockPrisma.review.findMany.mockResolvedValue([review(5), review(4)]);
+    mockPrisma.mechanicProfile.findUnique.mockResolvedValue(null);
+
+    await recomputeMechanicRating('mech-1');
+
+    expect(mockPrisma.mechanicProfile.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { mechanicId: 'mech-1' },
+        update: expect.objectContaining({ averageRating: 4.5, totalReviews: 2 }),
+      })
+    );
+    expect(mockPrisma.analyticsSnapshot.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ mechanicId: 'mech-1' }),
+        data: { averageRating: 4.5 },
+      })
+    );
+  });
+});
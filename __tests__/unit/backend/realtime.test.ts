@@ -0,0 +1,232 @@
+/**
+ * Realtime Tests
+ *
+ * The pub/sub transports, Socket.IO rooms shared between instances through
+ * the cluster adapter, the event bus used by tRPC mutations, and presence
+ * in job rooms
+ */
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+import net from 'net';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connectClient, type Socket as ClientSocket } from 'socket.io-client';
+import {
+  createInMemoryPubSub,
+  createRedisPubSub,
+  createRespParser,
+  encodeCommand,
+  PubSubError,
+  type PubSub,
+} from '@/backend/services/pubsub';
+import { createPubSubAdapter } from '@/backend/websocket/adapter';
+import { emitToRoom, jobRoom, relayRoomEvents } from '@/backend/services/realtime';
+import { getRoomPresence, summarizePresence } from '@/backend/services/presence';
+
+// A handler and a promise of the first value it is called with
+function firstCall<T>() {
+  let handler: (value: T) => void = () => undefined;
+  const received = new Promise<T>((resolve) => { handler = resolve; });
+  return { handler, received };
+}
+
+/**
+ * Just enough of the Redis protocol to exercise the client: SUBSCRIBE,
+ * UNSUBSCRIBE and PUBLISH
+ */
+function startFakeRedis() {
+  const subscribers = new Map<string, Set<net.Socket>>();
+
+  const server = net.createServer((socket) => {
+    const parser = createRespParser();
+
+    socket.on('data', (chunk) => {
+      for (const command of parser.feed(chunk) as string[][]) {
+        const [name, channel, message] = command;
+
+        if (name === 'SUBSCRIBE') {
+          const sockets = subscribers.get(channel) ?? new Set<net.Socket>();
+          sockets.add(socket);
+          subscribers.set(channel, sockets);
+          socket.write(`${encodeCommand(['subscribe', channel]).replace('*2', '*3')}:1\r\n`);
+        } else if (name === 'UNSUBSCRIBE') {
+          subscribers.get(channel)?.delete(socket);
+          socket.write(`${encodeCommand(['unsubscribe', channel]).replace('*2', '*3')}:0\r\n`);
+        } else if (name === 'PUBLISH') {
+          const sockets = subscribers.get(channel) ?? new Set<net.Socket>();
+          sockets.forEach((subscriber) => subscriber.write(encodeCommand(['message', channel, message])));
+          socket.write(`:${sockets.size}\r\n`);
+        } else {
+          socket.write(`-ERR unknown command '${name}'\r\n`);
+        }
+      }
+    });
+
+    socket.on('error', () => undefined);
+    socket.on('close', () => subscribers.forEach((sockets) => sockets.delete(socket)));
+  });
+
+  return new Promise<{ url: string; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, () => {
+      resolve({
+        url: `redis://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('Realtime', () => {
+  describe('Redis protocol', () => {
+    it('encodes commands as arrays of bulk strings', () => {
+      expect(encodeCommand(['PUBLISH', 'jobs', 'héllo'])).toBe('*3\r\n$7\r\nPUBLISH\r\n$4\r\njobs\r\n$6\r\nhéllo\r\n');
+    });
+
+    it('parses replies split across chunks', () => {
+      const parser = createRespParser();
+      const reply = Buffer.from(encodeCommand(['message', 'jobs', 'payload']) + ':2\r\n-ERR nope\r\n$-1\r\n');
+
+      expect(parser.feed(reply.subarray(0, 20))).toEqual([]);
+
+      const replies = parser.feed(reply.subarray(20));
+      expect(replies.slice(0, 2)).toEqual([['message', 'jobs', 'payload'], 2]);
+      expect(replies[2]).toBeInstanceOf(PubSubError);
+      expect(replies[3]).toBeNull();
+    });
+
+    it('publishes and subscribes through a Redis-protocol server', async () => {
+      const fake = await startFakeRedis();
+      const pubsub = createRedisPubSub({ url: fake.url });
+
+      try {
+        const { handler, received } = firstCall<string>();
+        await pubsub.subscribe('jobs', handler);
+        await pubsub.publish('jobs', 'hello');
+
+        await expect(received).resolves.toBe('hello');
+      } finally {
+        await pubsub.close();
+        await fake.close();
+      }
+    });
+  });
+
+  describe('In-memory pub/sub', () => {
+    it('delivers to subscribers until they unsubscribe', async () => {
+      const pubsub = createInMemoryPubSub();
+      const handler = jest.fn();
+
+      const unsubscribe = await pubsub.subscribe('jobs', handler);
+      await pubsub.publish('jobs', 'first');
+      await pubsub.publish('other', 'ignored');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      await unsubscribe();
+      await pubsub.publish('jobs', 'second');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(handler.mock.calls).toEqual([['first']]);
+    });
+  });
+
+  describe('Event bus', () => {
+    it('relays room events published by another process', async () => {
+      const pubsub = createInMemoryPubSub();
+      const { handler, received } = firstCall<unknown>();
+      await relayRoomEvents(handler, pubsub);
+
+      await emitToRoom(jobRoom('job-1'), 'message:new', { message: { id: 'm1' } }, pubsub);
+
+      await expect(received).resolves.toEqual({
+        room: 'job-job-1',
+        event: 'message:new',
+        payload: { message: { id: 'm1' } },
+      });
+    });
+
+    it('never fails the caller when publishing fails', async () => {
+      const pubsub = { ...createInMemoryPubSub(), publish: jest.fn().mockRejectedValue(new Error('down')) };
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(emitToRoom('job-1', 'job:status-updated', {}, pubsub)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Presence', () => {
+    it('counts each user once, customers first', () => {
+      const socket = (userId: string, role: string) => ({ data: { user: { userId, role } } });
+
+      expect(summarizePresence([
+        socket('mech-1', 'MECHANIC'),
+        socket('cust-1', 'CUSTOMER'),
+        socket('mech-1', 'MECHANIC'),
+        { data: {} },
+      ])).toEqual([
+        { userId: 'cust-1', role: 'CUSTOMER', connections: 1 },
+        { userId: 'mech-1', role: 'MECHANIC', connections: 2 },
+      ]);
+    });
+  });
+
+  describe('Cluster adapter', () => {
+    let pubsub: PubSub;
+    const servers: Server[] = [];
+    const clients: ClientSocket[] = [];
+
+    // A websocket instance that puts each client in the room it asks for
+    const startInstance = () => new Promise<string>((resolve) => {
+      const httpServer = createServer();
+      const io = new Server(httpServer, { adapter: createPubSubAdapter(pubsub, { channelPrefix: 'test' }) });
+
+      io.use((socket, next) => {
+        socket.data.user = socket.handshake.auth.user;
+        next();
+      });
+      io.on('connection', (socket) => {
+        socket.on('join', async (room: string, ack: () => void) => {
+          await socket.join(room);
+          ack();
+        });
+      });
+
+      servers.push(io);
+      httpServer.listen(0, () => resolve(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`));
+    });
+
+    const connect = (url: string, user: { userId: string; role: string }, room: string) =>
+      new Promise<ClientSocket>((resolve) => {
+        const client = connectClient(url, { transports: ['websocket'], auth: { user } });
+        clients.push(client);
+        client.on('connect', () => client.emit('join', room, () => resolve(client)));
+      });
+
+    beforeAll(() => {
+      pubsub = createInMemoryPubSub();
+    });
+
+    afterAll(async () => {
+      clients.forEach((client) => client.disconnect());
+      await Promise.all(servers.map((io) => new Promise((resolve) => io.close(resolve))));
+      await pubsub.close();
+    });
+
+    it('shares rooms and presence between instances', async () => {
+      const [first, second] = await Promise.all([startInstance(), startInstance()]);
+
+      const customer = await connect(first, { userId: 'cust-1', role: 'CUSTOMER' }, 'job-1');
+      await connect(second, { userId: 'mech-1', role: 'MECHANIC' }, 'job-1');
+
+      const { handler, received } = firstCall<unknown>();
+      customer.on('job:status-updated', handler);
+      servers[1].to('job-1').emit('job:status-updated', { status: 'EN_ROUTE' });
+      await expect(received).resolves.toEqual({ status: 'EN_ROUTE' });
+
+      await expect(getRoomPresence(servers[0], 'job-1')).resolves.toEqual([
+        { userId: 'cust-1', role: 'CUSTOMER', connections: 1 },
+        { userId: 'mech-1', role: 'MECHANIC', connections: 1 },
+      ]);
+    });
+  });
+});
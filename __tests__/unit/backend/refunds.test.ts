@@ -0,0 +1,279 @@
+/**
+ * Refunds Tests
+ *
+ * Partial and line-item refunds to the card through the fake provider,
+ * refunds as account credit, and paying a quote from that credit
+ */
+
+jest.mock('@/lib/prisma', () => {
+  const client: Record<string, unknown> = {
+    payment: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    refund: { create: jest.fn(), update: jest.fn() },
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    quote: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  client.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(client));
+  return { prisma: client };
+});
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { PAYMENT_PROVIDER: 'fake' },
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/earnings', () => ({
+  postPaymentEarnings: jest.fn().mockResolvedValue(null),
+  postRefundClawback: jest.fn().mockResolvedValue(null),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { sendNotification } from '@/backend/services/notifications';
+import { postPaymentEarnings, postRefundClawback } from '@/backend/services/earnings';
+import { setPaymentProvider } from '@/backend/services/payment-provider';
+import {
+  createFakePaymentProvider,
+  FAKE_PAYMENT_METHODS,
+  type FakePaymentProvider,
+} from '@/backend/services/fake-payment-provider';
+import {
+  getCreditBalance,
+  issueRefund,
+  payWithCredit,
+  RefundError,
+  statusAfterRefund,
+} from '@/backend/services/refunds';
+
+const mockPrisma = prisma as unknown as {
+  payment: { findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  refund: { create: jest.Mock; update: jest.Mock };
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  quote: { findUnique: jest.Mock; update: jest.Mock };
+};
+
+const quote = {
+  id: 'quote-1',
+  total: 200,
+  depositPercent: 30,
+  depositAmount: 60,
+  depositPaidAt: null,
+  paidAt: null,
+  lineItems: [
+    { id: 'line-labor', description: 'Brake pad replacement', total: 120, type: 'LABOR' },
+    { id: 'line-pads', description: 'Front brake pads', total: 80, type: 'PART' },
+  ],
+};
+
+describe('Refunds', () => {
+  let provider: FakePaymentProvider;
+  let payment: { stripePaymentId: string; refundAmount: number; [key: string]: unknown };
+  let refunds: Record<string, unknown>[];
+  let credits: { amount: number; [key: string]: unknown }[];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    provider = createFakePaymentProvider();
+    setPaymentProvider(provider);
+    refunds = [];
+    credits = [];
+
+    const intent = await provider.createIntent({
+      amount: 20000,
+      paymentMethodId: FAKE_PAYMENT_METHODS.success,
+      confirm: true,
+    });
+
+    payment = {
+      id: 'pay-1',
+      jobId: 'job-1',
+      customerId: 'customer-1',
+      quoteId: 'quote-1',
+      kind: 'FULL',
+      source: 'CARD',
+      stripePaymentId: intent.id,
+      amount: 200,
+      status: 'SUCCEEDED',
+      refundAmount: 0,
+      disputeStatus: null,
+      job: { id: 'job-1', title: 'Brake service', customerId: 'customer-1' },
+      quote,
+    };
+
+    mockPrisma.payment.findUnique.mockImplementation(async () => ({ ...payment }));
+    mockPrisma.payment.findMany.mockImplementation(async () => [payment]);
+    mockPrisma.payment.updateMany.mockImplementation(async ({ where, data }) => {
+      if (where.refundAmount !== payment.refundAmount) return { count: 0 };
+      Object.assign(payment, data);
+      return { count: 1 };
+    });
+    mockPrisma.payment.update.mockImplementation(async ({ data }) => {
+      const { refundAmount, ...rest } = data;
+      Object.assign(payment, rest);
+      if (refundAmount?.decrement) payment.refundAmount -= refundAmount.decrement;
+      return payment;
+    });
+    mockPrisma.refund.create.mockImplementation(async ({ data }) => {
+      const refund = { id: `refund-${refunds.length + 1}`, ...data };
+      refunds.push(refund);
+      return refund;
+    });
+    mockPrisma.refund.update.mockImplementation(async ({ where, data }) => {
+      const refund = refunds.find((r) => r.id === where.id)!;
+      const { credit, ...rest } = data;
+      if (credit) credits.push({ ...credit.create, refundId: refund.id });
+      return Object.assign(refund, rest);
+    });
+    const creditBalance = () => credits.reduce((sum, c) => sum + c.amount, 0);
+    mockPrisma.user.findUnique.mockImplementation(async () => ({ creditBalance: creditBalance() }));
+    mockPrisma.user.update.mockResolvedValue({});
+    mockPrisma.user.updateMany.mockImplementation(async ({ where }) => ({
+      count: creditBalance() >= where.creditBalance.gte ? 1 : 0,
+    }));
+    mockPrisma.quote.findUnique.mockResolvedValue({ ...quote, paidAt: new Date('2026-10-01T12:00:00Z') });
+  });
+
+  afterAll(() => {
+    setPaymentProvider(null);
+  });
+
+  it('keeps disputed payments disputed and marks partial refunds', () => {
+    expect(statusAfterRefund({ amount: 200, status: 'SUCCEEDED' }, 50)).toBe('PARTIALLY_REFUNDED');
+    expect(statusAfterRefund({ amount: 200, status: 'PARTIALLY_REFUNDED' }, 200)).toBe('REFUNDED');
+    expect(statusAfterRefund({ amount: 200, status: 'DISPUTED' }, 200)).toBe('DISPUTED');
+  });
+
+  it('refunds part of a card payment and records who issued it and why', async () => {
+    const { refund, status } = await issueRefund({
+      paymentId: 'pay-1',
+      initiatedById: 'admin-1',
+      amount: 50,
+      reason: 'SERVICE_ISSUE',
+      note: 'Squeak came back',
+      method: 'ORIGINAL_PAYMENT',
+    });
+
+    expect(refund).toMatchObject({
+      amount: 50,
+      method: 'ORIGINAL_PAYMENT',
+      status: 'SUCCEEDED',
+      reason: 'SERVICE_ISSUE',
+      initiatedById: 'admin-1',
+      providerRefundId: expect.stringMatching(/^re_fake_/),
+    });
+    expect(status).toBe('PARTIALLY_REFUNDED');
+    expect(payment).toMatchObject({ refundAmount: 50, status: 'PARTIALLY_REFUNDED' });
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'customer-1', type: 'PAYMENT_REFUNDED', title: 'Refund Issued' })
+    );
+    expect(postRefundClawback).toHaveBeenCalledWith(
+      expect.objectContaining({ paymentId: 'pay-1', amount: 50, sourceKey: 'refund:refund-1', refundId: 'refund-1' })
+    );
+  });
+
+  it('defaults the amount to the line items the refund covers', async () => {
+    const { refund } = await issueRefund({
+      paymentId: 'pay-1',
+      initiatedById: 'admin-1',
+      lineItemIds: ['line-pads'],
+      reason: 'OVERCHARGE',
+      method: 'ORIGINAL_PAYMENT',
+    });
+
+    expect(refund).toMatchObject({ amount: 80, lineItemIds: ['line-pads'] });
+
+    await expect(
+      issueRefund({
+        paymentId: 'pay-1',
+        initiatedById: 'admin-1',
+        lineItemIds: ['line-other-quote'],
+        reason: 'OVERCHARGE',
+        method: 'ORIGINAL_PAYMENT',
+      })
+    ).rejects.toThrow('not on this payment\'s quote');
+  });
+
+  it('refuses to refund more than is left', async () => {
+    payment.refundAmount = 150;
+    payment.status = 'PARTIALLY_REFUNDED';
+
+    await expect(
+      issueRefund({ paymentId: 'pay-1', initiatedById: 'admin-1', amount: 60, reason: 'GOODWILL', method: 'ACCOUNT_CREDIT' })
+    ).rejects.toThrow('exceeds the $50.00 still refundable');
+    expect(mockPrisma.refund.create).not.toHaveBeenCalled();
+  });
+
+  it('releases the reserved amount when the provider refuses the refund', async () => {
+    await provider.refund({ paymentIntentId: payment.stripePaymentId, amount: 19000 });
+
+    await expect(
+      issueRefund({ paymentId: 'pay-1', initiatedById: 'admin-1', amount: 50, reason: 'CUSTOMER_REQUEST', method: 'ORIGINAL_PAYMENT' })
+    ).rejects.toBeInstanceOf(RefundError);
+
+    expect(refunds).toEqual([expect.objectContaining({ status: 'FAILED' })]);
+    expect(payment).toMatchObject({ refundAmount: 0, status: 'SUCCEEDED' });
+    expect(sendNotification).not.toHaveBeenCalled();
+    expect(postRefundClawback).not.toHaveBeenCalled();
+  });
+
+  it('refunds offline payments only as account credit', async () => {
+    Object.assign(payment, { source: 'CASH', stripePaymentId: null });
+
+    await expect(
+      issueRefund({ paymentId: 'pay-1', initiatedById: 'admin-1', reason: 'JOB_CANCELED', method: 'ORIGINAL_PAYMENT' })
+    ).rejects.toThrow('only be refunded as account credit');
+
+    await issueRefund({ paymentId: 'pay-1', initiatedById: 'admin-1', amount: 75, reason: 'JOB_CANCELED', method: 'ACCOUNT_CREDIT' });
+
+    expect(credits).toEqual([expect.objectContaining({ customerId: 'customer-1', amount: 75, refundId: 'refund-1' })]);
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'customer-1' },
+      data: { creditBalance: { increment: 75 } },
+    });
+    expect(await getCreditBalance('customer-1')).toBe(75);
+    expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Credit Added' }));
+  });
+
+  it('pays the next amount due on a quote from account credit', async () => {
+    credits.push({ customerId: 'customer-1', amount: 100 });
+    mockPrisma.quote.findUnique.mockResolvedValue(quote);
+    mockPrisma.payment.findMany.mockResolvedValue([]);
+    mockPrisma.payment.create.mockImplementation(async ({ data }) => ({ id: 'pay-2', ...data }));
+
+    const result = await payWithCredit({ quoteId: 'quote-1', customerId: 'customer-1', jobId: 'job-1', quote });
+
+    expect(result?.payment).toMatchObject({
+      source: 'ACCOUNT_CREDIT',
+      kind: 'DEPOSIT',
+      amount: 60,
+      status: 'SUCCEEDED',
+      creditEntries: { create: { customerId: 'customer-1', amount: -60, description: 'Applied to quote payment' } },
+    });
+    expect(result?.creditBalance).toBe(40);
+    expect(postPaymentEarnings).toHaveBeenCalledWith('pay-2');
+  });
+
+  it('refuses to spend credit another payment already took', async () => {
+    credits.push({ customerId: 'customer-1', amount: 100 });
+    mockPrisma.quote.findUnique.mockResolvedValue(quote);
+    mockPrisma.payment.findMany.mockResolvedValue([]);
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      payWithCredit({ quoteId: 'quote-1', customerId: 'customer-1', jobId: 'job-1', quote })
+    ).rejects.toThrow(RefundError);
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('has nothing to pay with when the customer has no credit', async () => {
+    await expect(
+      payWithCredit({ quoteId: 'quote-1', customerId: 'customer-1', jobId: 'job-1', quote })
+    ).resolves.toBeNull();
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Route Planner Tests
+ *
+ * Ordering a mechanic's day by drive time and arrival windows, keeping
+ * urgent and under-way jobs in front, and slotting newly assigned jobs
+ * into a saved plan
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    job: { findMany: jest.fn() },
+    mechanicProfile: { findUnique: jest.fn() },
+    routePlan: { findUnique: jest.fn(), upsert: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+import { prisma } from '@/lib/prisma';
+import { setRoutingProvider } from '@/backend/services/routing-provider';
+import {
+  getDayPlan,
+  mergeIntoOrder,
+  optimizeOrder,
+  planDay,
+  RoutePlanError,
+  scheduleRoute,
+  type LegMatrix,
+  type PlannerStop,
+} from '@/backend/services/route-planner';
+
+const mockPrisma = prisma as unknown as {
+  job: { findMany: jest.Mock };
+  mechanicProfile: { findUnique: jest.Mock };
+  routePlan: { findUnique: jest.Mock; upsert: jest.Mock };
+};
+
+const MINUTE = 60_000;
+const START_AT = new Date(2026, 9, 19, 8, 0).getTime();
+
+/**
+ * Points on a straight road, ten minutes of driving per unit; the start
+ * sits at 0
+ */
+const lineLegs = (positions: number[]): LegMatrix => {
+  const all = [0, ...positions];
+  return all.map((from) => all.map((to) => ({
+    distanceMeters: Math.abs(from - to) * 8000,
+    durationSeconds: Math.abs(from - to) * 600,
+  })));
+};
+
+const stop = (id: string, overrides: Partial<PlannerStop> = {}): PlannerStop => ({
+  id,
+  serviceSeconds: 30 * 60,
+  windowStart: null,
+  windowEnd: null,
+  urgent: false,
+  pinned: false,
+  ...overrides,
+});
+
+const ids = (order: number[], stops: PlannerStop[]) => order.map((index) => stops[index].id);
+
+describe('Route planner', () => {
+  describe('scheduleRoute', () => {
+    it('waits for a window to open and counts lateness after it closes', () => {
+      const stops = [
+        stop('early', { windowStart: START_AT + 60 * MINUTE, windowEnd: START_AT + 120 * MINUTE }),
+        stop('tight', { windowStart: START_AT, windowEnd: START_AT + 90 * MINUTE }),
+      ];
+
+      const { timings } = scheduleRoute([0, 1], stops, lineLegs([1, 2]), START_AT);
+
+      // Arrive 8:10, wait until 9:00, work until 9:30, arrive at the next stop 9:40
+      expect(timings[0].waitSeconds).toBe(50 * 60);
+      expect(timings[0].departAt).toBe(START_AT + 90 * MINUTE);
+      expect(timings[1].arrivalAt).toBe(START_AT + 100 * MINUTE);
+      expect(timings[1].lateSeconds).toBe(10 * 60);
+    });
+  });
+
+  describe('optimizeOrder', () => {
+    it('visits stops along the road in order', () => {
+      const stops = [stop('far'), stop('near'), stop('middle')];
+
+      const order = optimizeOrder(stops, lineLegs([3, 1, 2]), START_AT);
+
+      expect(ids(order, stops)).toEqual(['near', 'middle', 'far']);
+    });
+
+    it('drives past nearer stops to make an early window', () => {
+      const stops = [
+        stop('near'),
+        stop('far', { windowStart: START_AT, windowEnd: START_AT + 45 * MINUTE }),
+      ];
+
+      const order = optimizeOrder(stops, lineLegs([1, 4]), START_AT);
+
+      expect(ids(order, stops)).toEqual(['far', 'near']);
+    });
+
+    it('puts urgent jobs first and keeps the job under way in front', () => {
+      const stops = [
+        stop('near'),
+        stop('urgent', { urgent: true }),
+        stop('current', { pinned: true }),
+      ];
+
+      const order = optimizeOrder(stops, lineLegs([1, 5, 2]), START_AT);
+
+      expect(ids(order, stops)).toEqual(['current', 'urgent', 'near']);
+    });
+
+    it('orders a long day by insertion and improvement', () => {
+      const positions = [7, 2, 10, 5, 1, 9, 3, 6, 4, 8];
+      const stops = positions.map((position) => stop(`at-${position}`));
+
+      const order = optimizeOrder(stops, lineLegs(positions), START_AT);
+
+      expect(ids(order, stops)).toEqual(
+        [...positions].sort((a, b) => a - b).map((position) => `at-${position}`)
+      );
+    });
+  });
+
+  describe('mergeIntoOrder', () => {
+    it('keeps the saved order and slots an urgent job in after the stop under way', () => {
+      const stops = [
+        stop('b'),
+        stop('a', { pinned: true }),
+        stop('c'),
+        stop('new-urgent', { urgent: true }),
+      ];
+
+      const { order, added } = mergeIntoOrder(['a', 'c', 'b', 'gone'], stops, lineLegs([1, 2, 3, 6]), START_AT);
+
+      expect(ids(order, stops)).toEqual(['a', 'new-urgent', 'c', 'b']);
+      expect(ids(added, stops)).toEqual(['new-urgent']);
+    });
+
+    it('inserts a regular job where it adds the least driving', () => {
+      const stops = [stop('a'), stop('c'), stop('b')];
+
+      const { order } = mergeIntoOrder(['a', 'c'], stops, lineLegs([1, 3, 2]), START_AT);
+
+      expect(ids(order, stops)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('planDay and getDayPlan', () => {
+    const now = new Date(2026, 9, 19, 8, 0);
+    const home = { latitude: 30.0, longitude: -97.0 };
+
+    // 9.6 km per position (0.01° of longitude), driven at 36 km/h
+    const job = (id: string, position: number, overrides: Record<string, unknown> = {}) => ({
+      id,
+      title: `Job ${id}`,
+      location: `${position} Main St`,
+      latitude: home.latitude,
+      longitude: home.longitude + position * 0.01,
+      status: 'ACCEPTED',
+      priority: 'MEDIUM',
+      scheduledAt: null,
+      arrivalWindowEnd: null,
+      startedAt: null,
+      services: [{ estimatedTime: 45 }],
+      customer: { firstName: 'Casey', lastName: id },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      setRoutingProvider({
+        name: 'heuristic',
+        route: async (origin, destination) => {
+          const meters = Math.round(Math.abs(destination.longitude - origin.longitude) * 960_000);
+          return { distanceMeters: meters, durationSeconds: meters / 10, provider: 'heuristic' };
+        },
+      });
+      mockPrisma.mechanicProfile.findUnique.mockResolvedValue(home);
+      mockPrisma.routePlan.findUnique.mockResolvedValue(null);
+    });
+
+    afterAll(() => setRoutingProvider(null));
+
+    it('saves the optimized order and returns arrival times with navigation links', async () => {
+      mockPrisma.job.findMany.mockResolvedValue([
+        job('far', 3),
+        job('near', 1),
+        job('nowhere', 2, { latitude: null, longitude: null }),
+      ]);
+
+      const plan = await planDay({ mechanicId: 'mech-1', platform: 'android', now });
+
+      expect(plan.stops.map((planned) => planned.jobId)).toEqual(['near', 'far']);
+      expect(plan.stops[0].arrivalAt).toEqual(new Date(now.getTime() + 16 * MINUTE));
+      expect(plan.stops[0].navigationUrl).toBe('google.navigation:q=30,-96.99');
+      expect(plan.unroutable).toEqual([{ jobId: 'nowhere', title: 'Job nowhere' }]);
+      expect(mockPrisma.routePlan.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { startLatitude: 30, startLongitude: -97, jobOrder: ['near', 'far'] },
+      }));
+    });
+
+    it('needs a start location', async () => {
+      mockPrisma.mechanicProfile.findUnique.mockResolvedValue(null);
+
+      await expect(planDay({ mechanicId: 'mech-1', now })).rejects.toThrow(RoutePlanError);
+    });
+
+    it('returns null until the day is planned', async () => {
+      await expect(getDayPlan({ mechanicId: 'mech-1', now })).resolves.toBeNull();
+    });
+
+    it('flags an urgent job assigned after planning and visits it next', async () => {
+      mockPrisma.routePlan.findUnique.mockResolvedValue({
+        startLatitude: home.latitude,
+        startLongitude: home.longitude,
+        jobOrder: ['near', 'far'],
+      });
+      mockPrisma.job.findMany.mockResolvedValue([
+        job('near', 1),
+        job('far', 3),
+        job('urgent', 5, { priority: 'URGENT' }),
+      ]);
+
+      const plan = await getDayPlan({ mechanicId: 'mech-1', now });
+
+      expect(plan!.stops.map((planned) => planned.jobId)).toEqual(['urgent', 'near', 'far']);
+      expect(plan!.addedJobIds).toEqual(['urgent']);
+      expect(mockPrisma.routePlan.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Routing Provider Tests
+ *
+ * OSRM and Valhalla adapters against a local stub server, falling back to
+ * the road-speed heuristic, and caching recent origin/destination pairs
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { ROUTING_PROVIDER: 'heuristic' },
+}));
+
+import {
+  RoutingProviderError,
+  setRoutingProvider,
+  withFallback,
+  withRouteCache,
+  type RoutingProvider,
+} from '@/backend/services/routing-provider';
+import { createHttpRoutingProvider } from '@/backend/services/http-routing-provider';
+import {
+  createHeuristicRoutingProvider,
+  estimateDriveSeconds,
+} from '@/backend/services/heuristic-routing-provider';
+import { calculateRouteDistance } from '@/backend/services/location';
+
+const SHOP = { latitude: 40.7128, longitude: -74.006 };
+const CUSTOMER = { latitude: 40.7306, longitude: -73.9352 };
+
+/**
+ * Stub routing server speaking just enough OSRM and Valhalla
+ */
+let server: http.Server;
+let baseUrl: string;
+let requests: { method?: string; url?: string; body: unknown }[] = [];
+let failWith: number | null = null;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : null;
+      requests.push({ method: req.method, url: req.url, body });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (failWith) {
+        res.statusCode = failWith;
+        res.end(JSON.stringify({ message: 'stub failure' }));
+        return;
+      }
+
+      if (req.method === 'GET' && req.url?.startsWith('/route/v1/driving/')) {
+        res.end(JSON.stringify({ code: 'Ok', routes: [{ distance: 8421.7, duration: 912.4 }] }));
+        return;
+      }
+
+      if (req.method === 'POST' && req.url === '/route') {
+        res.end(JSON.stringify({ trip: { summary: { length: 8.43, time: 905.2 } } }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ message: 'not found' }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  failWith = null;
+});
+
+describe('HTTP routing provider', () => {
+  it('reads distance and duration from an OSRM route', async () => {
+    const osrm = createHttpRoutingProvider({ flavor: 'osrm', baseUrl: `${baseUrl}/` });
+
+    const route = await osrm.route(SHOP, CUSTOMER);
+
+    expect(route).toEqual({ distanceMeters: 8421.7, durationSeconds: 912, provider: 'osrm' });
+    expect(requests[0].url).toBe('/route/v1/driving/-74.006,40.7128;-73.9352,40.7306?overview=false');
+  });
+
+  it('posts both locations to Valhalla and converts kilometers to meters', async () => {
+    const valhalla = createHttpRoutingProvider({ flavor: 'valhalla', baseUrl });
+
+    const route = await valhalla.route(SHOP, CUSTOMER);
+
+    expect(route).toEqual({ distanceMeters: 8430, durationSeconds: 905, provider: 'valhalla' });
+    expect(requests[0].body).toMatchObject({
+      locations: [
+        { lat: 40.7128, lon: -74.006 },
+        { lat: 40.7306, lon: -73.9352 },
+      ],
+      costing: 'auto',
+    });
+  });
+
+  it('raises a RoutingProviderError when the service fails', async () => {
+    failWith = 503;
+    const osrm = createHttpRoutingProvider({ flavor: 'osrm', baseUrl });
+
+    await expect(osrm.route(SHOP, CUSTOMER)).rejects.toThrow(RoutingProviderError);
+    await expect(osrm.route(SHOP, CUSTOMER)).rejects.toThrow('stub failure');
+  });
+
+  it('falls back to the heuristic when the service is down', async () => {
+    failWith = 500;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider = withFallback(
+      createHttpRoutingProvider({ flavor: 'valhalla', baseUrl }),
+      createHeuristicRoutingProvider()
+    );
+
+    const route = await provider.route(SHOP, CUSTOMER);
+
+    expect(route.provider).toBe('heuristic');
+    expect(route.distanceMeters).toBeGreaterThan(0);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('route cache', () => {
+  const osrmWithCache = (options: Parameters<typeof withRouteCache>[1]) =>
+    withRouteCache(createHttpRoutingProvider({ flavor: 'osrm', baseUrl }), options);
+
+  it('reuses a recently computed pair', async () => {
+    const provider = osrmWithCache({});
+
+    await provider.route(SHOP, CUSTOMER);
+    // A few meters away rounds to the same pair
+    await provider.route({ latitude: 40.71281, longitude: -74.00601 }, CUSTOMER);
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('shares one request between concurrent lookups', async () => {
+    const provider = osrmWithCache({});
+
+    await Promise.all([provider.route(SHOP, CUSTOMER), provider.route(SHOP, CUSTOMER)]);
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('recomputes once the entry expires', async () => {
+    let clock = 0;
+    const provider = osrmWithCache({ ttlMs: 60_000, now: () => clock });
+
+    await provider.route(SHOP, CUSTOMER);
+    clock = 59_000;
+    await provider.route(SHOP, CUSTOMER);
+    clock = 61_000;
+    await provider.route(SHOP, CUSTOMER);
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('evicts the oldest pair beyond the size limit', async () => {
+    const provider = osrmWithCache({ maxEntries: 2 });
+    const elsewhere = { latitude: 40.75, longitude: -73.99 };
+    const farther = { latitude: 40.8, longitude: -73.95 };
+
+    await provider.route(SHOP, CUSTOMER);
+    await provider.route(SHOP, elsewhere);
+    await provider.route(SHOP, farther);
+    await provider.route(SHOP, farther);
+    await provider.route(SHOP, CUSTOMER);
+
+    expect(requests).toHaveLength(4);
+  });
+
+  it('does not cache failures', async () => {
+    const provider = osrmWithCache({});
+
+    failWith = 502;
+    await expect(provider.route(SHOP, CUSTOMER)).rejects.toThrow(RoutingProviderError);
+    failWith = null;
+    await expect(provider.route(SHOP, CUSTOMER)).resolves.toMatchObject({ provider: 'osrm' });
+
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('heuristic routing provider', () => {
+  it('drives each band at its own speed', () => {
+    // 3 km at 25 km/h = 432 s, then 2 km at 45 km/h = 160 s
+    expect(estimateDriveSeconds(3_000)).toBe(432);
+    expect(estimateDriveSeconds(5_000)).toBe(592);
+    expect(estimateDriveSeconds(0)).toBe(0);
+  });
+
+  it('is slower per kilometer across town than on a long trip', async () => {
+    const heuristic = createHeuristicRoutingProvider();
+
+    const short = await heuristic.route(SHOP, { latitude: 40.7228, longitude: -74.006 });
+    const long = await heuristic.route(SHOP, { latitude: 41.3, longitude: -74.006 });
+
+    const secondsPerKm = (route: typeof short) => route.durationSeconds / (route.distanceMeters / 1000);
+    expect(secondsPerKm(short)).toBeGreaterThan(2 * secondsPerKm(long));
+  });
+
+  it('returns zero for the same point', async () => {
+    const route = await createHeuristicRoutingProvider().route(SHOP, SHOP);
+
+    expect(route).toEqual({ distanceMeters: 0, durationSeconds: 0, provider: 'heuristic' });
+  });
+});
+
+describe('calculateRouteDistance', () => {
+  afterEach(() => setRoutingProvider(null));
+
+  it('uses the configured provider', async () => {
+    const provider: RoutingProvider = createHttpRoutingProvider({ flavor: 'osrm', baseUrl });
+    setRoutingProvider(provider);
+
+    const result = await calculateRouteDistance(SHOP, CUSTOMER);
+
+    expect(result).toMatchObject({
+      durationMinutes: 15,
+      durationText: '15 min',
+      provider: 'osrm',
+    });
+    expect(result.distanceKm).toBeCloseTo(8.422, 3);
+    expect(result.distanceMiles).toBeCloseTo(5.233, 3);
+  });
+});
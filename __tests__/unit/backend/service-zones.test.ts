@@ -0,0 +1,161 @@
+/**
+ * Service Zones Tests
+ *
+ * Polygon and radius containment, overlapping zones by priority, and
+ * refusing locations outside the configured service area
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceZone: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/env-validation', () => ({ validatedEnv: {} }));
+
+import { prisma } from '@/lib/prisma';
+import {
+  assertInServiceArea,
+  checkServiceArea,
+  isPointInPolygon,
+  matchZone,
+  ServiceAreaError,
+  validateZoneShape,
+  type ServiceZone,
+} from '@/backend/services/service-zones';
+
+const mockPrisma = prisma as unknown as {
+  serviceZone: { findMany: jest.Mock };
+};
+
+const DOWNTOWN = { latitude: 30.2672, longitude: -97.7431 };
+const ROUND_ROCK = { latitude: 30.5083, longitude: -97.6789 };
+const HOUSTON = { latitude: 29.7604, longitude: -95.3698 };
+
+// A square around downtown Austin, about ten miles across
+const SQUARE = [
+  { latitude: 30.2, longitude: -97.82 },
+  { latitude: 30.2, longitude: -97.66 },
+  { latitude: 30.34, longitude: -97.66 },
+  { latitude: 30.34, longitude: -97.82 },
+];
+
+const zone = (id: string, overrides: Partial<ServiceZone> = {}): ServiceZone => ({
+  id,
+  name: id,
+  shape: 'POLYGON',
+  polygon: SQUARE,
+  centerLatitude: null,
+  centerLongitude: null,
+  radiusMiles: null,
+  mechanicId: null,
+  travelFeePerMile: null,
+  minimumTravelFee: null,
+  surcharge: 0,
+  surchargeLabel: null,
+  priority: 0,
+  isActive: true,
+  ...overrides,
+});
+
+const metro = zone('metro', {
+  shape: 'RADIUS',
+  polygon: null,
+  centerLatitude: DOWNTOWN.latitude,
+  centerLongitude: DOWNTOWN.longitude,
+  radiusMiles: 25,
+});
+
+describe('Service zones', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isPointInPolygon', () => {
+    it('tells points inside the outline from points outside it', () => {
+      expect(isPointInPolygon(DOWNTOWN, SQUARE)).toBe(true);
+      expect(isPointInPolygon(ROUND_ROCK, SQUARE)).toBe(false);
+    });
+
+    it('handles a concave outline', () => {
+      // An L shape missing its north-east quarter
+      const lShape = [
+        { latitude: 0, longitude: 0 },
+        { latitude: 0, longitude: 2 },
+        { latitude: 1, longitude: 2 },
+        { latitude: 1, longitude: 1 },
+        { latitude: 2, longitude: 1 },
+        { latitude: 2, longitude: 0 },
+      ];
+
+      expect(isPointInPolygon({ latitude: 1.5, longitude: 0.5 }, lShape)).toBe(true);
+      expect(isPointInPolygon({ latitude: 1.5, longitude: 1.5 }, lShape)).toBe(false);
+    });
+  });
+
+  describe('matchZone', () => {
+    it('matches radius zones by distance from the center', () => {
+      expect(matchZone([metro], ROUND_ROCK)?.id).toBe('metro');
+      expect(matchZone([metro], HOUSTON)).toBeNull();
+    });
+
+    it('picks the highest priority where zones overlap and skips inactive ones', () => {
+      const zones = [
+        metro,
+        zone('core', { priority: 5 }),
+        zone('closed', { priority: 10, isActive: false }),
+      ];
+
+      expect(matchZone(zones, DOWNTOWN)?.id).toBe('core');
+      expect(matchZone(zones, ROUND_ROCK)?.id).toBe('metro');
+    });
+  });
+
+  describe('checkServiceArea', () => {
+    it('serves everywhere until a service area zone exists', () => {
+      const coverage = zone('coverage', { mechanicId: 'mech-1' });
+
+      expect(checkServiceArea([], HOUSTON)).toEqual({ servable: true, zone: null });
+      expect(checkServiceArea([coverage], HOUSTON)).toEqual({ servable: true, zone: null });
+    });
+
+    it('refuses locations outside the service area, or no location at all', () => {
+      expect(checkServiceArea([metro], HOUSTON)).toMatchObject({ servable: false, zone: null });
+      expect(checkServiceArea([metro], null)).toMatchObject({ servable: false });
+      expect(checkServiceArea([metro], DOWNTOWN)).toMatchObject({ servable: true, zone: metro });
+    });
+  });
+
+  describe('assertInServiceArea', () => {
+    it("returns the matching zone's travel pricing", async () => {
+      mockPrisma.serviceZone.findMany.mockResolvedValue([
+        { ...metro, travelFeePerMile: 1.25, surcharge: 10, surchargeLabel: 'Metro fee' },
+      ]);
+
+      await expect(assertInServiceArea(DOWNTOWN)).resolves.toEqual({
+        name: 'metro',
+        travelFeePerMile: 1.25,
+        minimumTravelFee: null,
+        surcharge: 10,
+        surchargeLabel: 'Metro fee',
+      });
+      expect(mockPrisma.serviceZone.findMany).toHaveBeenCalledWith({ where: { isActive: true, mechanicId: null } });
+    });
+
+    it('throws for a location outside the service area', async () => {
+      mockPrisma.serviceZone.findMany.mockResolvedValue([metro]);
+
+      await expect(assertInServiceArea(HOUSTON)).rejects.toThrow(ServiceAreaError);
+    });
+  });
+
+  describe('validateZoneShape', () => {
+    it('needs three points for a polygon and a center and radius for a circle', () => {
+      expect(validateZoneShape(zone('square'))).toBeNull();
+      expect(validateZoneShape(zone('line', { polygon: SQUARE.slice(0, 2) }))).toMatch(/three points/);
+      expect(validateZoneShape({ ...metro, centerLatitude: null })).toMatch(/center/);
+      expect(validateZoneShape({ ...metro, radiusMiles: 0 })).toMatch(/radius/);
+      expect(validateZoneShape(metro)).toBeNull();
+    });
+  });
+});
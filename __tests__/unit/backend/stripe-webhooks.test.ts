@@ -0,0 +1,331 @@
+/**
+ * Stripe Webhooks Tests
+ *
+ * Replays signed fixture payloads through the webhook processor and checks
+ * the Payment/Quote/Job writes, the event ledger and the notifications
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+
+jest.mock('@/lib/prisma', () => {
+  const client: Record<string, unknown> = {
+    processedWebhookEvent: { findUnique: jest.fn(), create: jest.fn() },
+    payment: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    quote: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    refund: { findMany: jest.fn(), create: jest.fn(), updateMany: jest.fn() },
+    paymentDispute: { upsert: jest.fn() },
+    earningsTransaction: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(async ({ data }) => ({ id: `txn-${data.sourceKey}`, ...data })),
+    },
+    systemSettings: { findUnique: jest.fn().mockResolvedValue(null) },
+  };
+  client.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(client));
+  return { prisma: client };
+});
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: {
+    PAYMENT_PROVIDER: 'stripe',
+    STRIPE_SECRET_KEY: 'sk_test_webhooks',
+    STRIPE_WEBHOOK_SECRET: 'whsec_test_webhooks',
+  },
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/job-state-machine', () => ({
+  ...jest.requireActual('@/backend/services/job-state-machine'),
+  transitionJob: jest.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { sendNotification } from '@/backend/services/notifications';
+import { recordJobEvent } from '@/backend/services/job-timeline';
+import { transitionJob } from '@/backend/services/job-state-machine';
+import { handleStripeWebhook } from '@/backend/services/stripe-webhooks';
+import { WebhookSignatureError } from '@/backend/services/payment-provider';
+
+const mockPrisma = prisma as unknown as {
+  processedWebhookEvent: { findUnique: jest.Mock; create: jest.Mock };
+  payment: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  quote: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  refund: { findMany: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+  paymentDispute: { upsert: jest.Mock };
+  earningsTransaction: { findUnique: jest.Mock; findMany: jest.Mock; create: jest.Mock };
+};
+
+const WEBHOOK_SECRET = 'whsec_test_webhooks';
+const FIXTURES = path.join(__dirname, '__fixtures__', 'stripe');
+
+const stripe = new Stripe('sk_test_webhooks');
+
+/**
+ * Raw fixture body and a Stripe-Signature header for it
+ */
+function signedFixture(name: string, edit?: (event: { data: { object: Record<string, unknown> } }) => void) {
+  let payload = fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8');
+  if (edit) {
+    const event = JSON.parse(payload);
+    edit(event);
+    payload = JSON.stringify(event);
+  }
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return { payload, signature };
+}
+
+async function replay(name: string, edit?: (event: { data: { object: Record<string, unknown> } }) => void) {
+  const { payload, signature } = signedFixture(name, edit);
+  return handleStripeWebhook(payload, signature);
+}
+
+describe('Stripe webhook processor', () => {
+  let ledger: Set<string>;
+  let payment: Record<string, unknown>;
+  let refunds: Record<string, unknown>[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = new Set();
+    refunds = [];
+    payment = {
+      id: 'pay-1',
+      stripePaymentId: 'pi_3Qdeposit',
+      quoteId: 'quote-1',
+      kind: 'DEPOSIT',
+      amount: 60,
+      status: 'PENDING',
+      paymentMethod: null,
+      refundAmount: 0,
+      disputeStatus: null,
+      job: { id: 'job-1', title: 'Brake service', status: 'QUOTED', customerId: 'customer-1', mechanicId: 'mechanic-1' },
+    };
+
+    // Ledger with a real unique constraint on the event id
+    mockPrisma.processedWebhookEvent.findUnique.mockImplementation(async ({ where }) =>
+      ledger.has(where.id) ? { id: where.id } : null
+    );
+    mockPrisma.processedWebhookEvent.create.mockImplementation(async ({ data }) => {
+      if (ledger.has(data.id)) throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      ledger.add(data.id);
+      return data;
+    });
+
+    mockPrisma.payment.findUnique.mockImplementation(async () => ({ ...payment }));
+    mockPrisma.payment.update.mockImplementation(async ({ data }) => Object.assign(payment, data));
+    mockPrisma.payment.findMany.mockImplementation(async () => [payment]);
+    mockPrisma.quote.findUnique.mockResolvedValue({
+      id: 'quote-1',
+      total: 200,
+      depositPercent: 30,
+      depositAmount: 60,
+      depositPaidAt: null,
+      paidAt: null,
+    });
+    mockPrisma.quote.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.refund.findMany.mockImplementation(async () => refunds.filter((r) => r.status !== 'FAILED'));
+    mockPrisma.refund.create.mockImplementation(async ({ data }) => {
+      refunds.push(data);
+      return data;
+    });
+    mockPrisma.refund.updateMany.mockImplementation(async ({ where, data }) => {
+      const matched = refunds.filter((r) => r.providerRefundId === where.providerRefundId && r.status === where.status);
+      matched.forEach((r) => Object.assign(r, data));
+      return { count: matched.length };
+    });
+  });
+
+  it('rejects payloads that were not signed with the webhook secret', async () => {
+    const { payload } = signedFixture('payment_intent.succeeded');
+    const forged = stripe.webhooks.generateTestHeaderString({ payload, secret: 'whsec_someone_else' });
+
+    await expect(handleStripeWebhook(payload, forged)).rejects.toBeInstanceOf(WebhookSignatureError);
+    await expect(handleStripeWebhook(payload, undefined)).rejects.toBeInstanceOf(WebhookSignatureError);
+    expect(mockPrisma.processedWebhookEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('marks the deposit paid and accepts the quote and job on payment_intent.succeeded', async () => {
+    const result = await replay('payment_intent.succeeded');
+
+    expect(result).toEqual({
+      eventId: 'evt_1QpaySucceeded',
+      type: 'payment_intent.succeeded',
+      outcome: 'processed',
+      paymentId: 'pay-1',
+    });
+    expect(payment).toMatchObject({ status: 'SUCCEEDED', paymentMethod: 'card' });
+    expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+      where: { id: 'quote-1' },
+      data: { depositPaidAt: expect.any(Date), paidAt: null },
+    });
+    expect(mockPrisma.quote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'quote-1', status: 'PENDING' },
+      data: { status: 'ACCEPTED' },
+    });
+    expect(transitionJob).toHaveBeenCalledWith({
+      jobId: 'job-1',
+      to: 'ACCEPTED',
+      actor: { userId: 'customer-1', role: 'CUSTOMER' },
+      source: 'payment',
+    });
+    expect(recordJobEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'PAYMENT_SUCCEEDED' }));
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'customer-1', type: 'PAYMENT_RECEIVED' })
+    );
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'mechanic-1', type: 'PAYMENT_RECEIVED' })
+    );
+    expect(mockPrisma.earningsTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        mechanicId: 'mechanic-1',
+        type: 'JOB_REVENUE',
+        sourceKey: 'payment:pay-1:revenue',
+        entries: {
+          create: [
+            { account: 'PLATFORM_CASH', debit: 60, credit: 0 },
+            { account: 'MECHANIC_PAYABLE', debit: 0, credit: 60 },
+          ],
+        },
+      }),
+    });
+  });
+
+  it('applies a redelivered event only once', async () => {
+    await replay('payment_intent.succeeded');
+    jest.clearAllMocks();
+
+    const result = await replay('payment_intent.succeeded');
+
+    expect(result.outcome).toBe('duplicate');
+    expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('treats a concurrent delivery that loses the ledger insert as a duplicate', async () => {
+    // Both deliveries pass the ledger check before either commits
+    mockPrisma.processedWebhookEvent.findUnique.mockResolvedValue(null);
+
+    const first = await replay('payment_intent.succeeded');
+    const second = await replay('payment_intent.succeeded');
+
+    expect(first.outcome).toBe('processed');
+    expect(second.outcome).toBe('duplicate');
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not fail a payment that already succeeded', async () => {
+    await replay('payment_intent.succeeded');
+    jest.clearAllMocks();
+
+    const result = await replay('payment_intent.payment_failed');
+
+    expect(result.outcome).toBe('processed');
+    expect(payment.status).toBe('SUCCEEDED');
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('notifies the customer when a payment fails', async () => {
+    await replay('payment_intent.payment_failed');
+
+    expect(payment.status).toBe('FAILED');
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'customer-1',
+        type: 'PAYMENT_FAILED',
+        body: expect.stringContaining('Your card was declined.'),
+      })
+    );
+  });
+
+  it('records partial refunds and reopens the deposit when a dispute is lost', async () => {
+    await replay('payment_intent.succeeded');
+
+    await replay('charge.refunded');
+    expect(payment).toMatchObject({ status: 'PARTIALLY_REFUNDED', refundAmount: 20 });
+    expect(refunds).toEqual([
+      expect.objectContaining({ amount: 20, method: 'ORIGINAL_PAYMENT', status: 'SUCCEEDED', note: 'Refunded outside the app' }),
+    ]);
+    expect(sendNotification).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: 'customer-1', type: 'PAYMENT_REFUNDED' })
+    );
+
+    await replay('charge.dispute.created');
+    expect(payment).toMatchObject({ status: 'DISPUTED', disputeId: 'dp_1Qdeposit', disputeStatus: 'needs_response' });
+    expect(mockPrisma.paymentDispute.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'dp_1Qdeposit' },
+      create: expect.objectContaining({ paymentId: 'pay-1', amount: 60, evidenceDueBy: new Date(1773403199 * 1000) }),
+    }));
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'customer-1', type: 'PAYMENT_DISPUTED' })
+    );
+    expect(sendNotification).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: 'mechanic-1', type: 'PAYMENT_DISPUTED' })
+    );
+
+    mockPrisma.quote.update.mockClear();
+    mockPrisma.quote.findUnique.mockResolvedValue({
+      id: 'quote-1',
+      total: 200,
+      depositPercent: 30,
+      depositAmount: 60,
+      depositPaidAt: new Date('2026-03-01T12:00:00Z'),
+      paidAt: null,
+    });
+    await replay('charge.dispute.closed');
+    expect(payment).toMatchObject({ status: 'DISPUTED', disputeStatus: 'lost' });
+    expect(mockPrisma.quote.update).toHaveBeenCalledWith({
+      where: { id: 'quote-1' },
+      data: { depositPaidAt: null, paidAt: null },
+    });
+  });
+
+  it('goes back to the refunded status when a dispute is won', async () => {
+    await replay('payment_intent.succeeded');
+    await replay('charge.refunded');
+    await replay('charge.dispute.created');
+
+    await replay('charge.dispute.closed', (event) => {
+      event.data.object.status = 'won';
+    });
+
+    expect(payment).toMatchObject({ status: 'PARTIALLY_REFUNDED', refundAmount: 20, disputeStatus: 'won' });
+  });
+
+  it('settles a refund issued from the app without recording it again', async () => {
+    await replay('payment_intent.succeeded');
+    Object.assign(payment, { refundAmount: 20, status: 'PARTIALLY_REFUNDED' });
+    refunds.push({ amount: 20, method: 'ORIGINAL_PAYMENT', status: 'PENDING', providerRefundId: 're_3Qdeposit' });
+    (sendNotification as jest.Mock).mockClear();
+
+    await replay('charge.refunded');
+
+    expect(refunds).toEqual([expect.objectContaining({ providerRefundId: 're_3Qdeposit', status: 'SUCCEEDED' })]);
+    expect(payment).toMatchObject({ status: 'PARTIALLY_REFUNDED', refundAmount: 20 });
+    expect(mockPrisma.refund.create).not.toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges event types it does not handle without touching the ledger', async () => {
+    const payload = JSON.stringify({
+      id: 'evt_1Qcustomer',
+      object: 'event',
+      type: 'customer.created',
+      data: { object: { id: 'cus_1', object: 'customer' } },
+    });
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+    const result = await handleStripeWebhook(payload, signature);
+
+    expect(result.outcome).toBe('ignored');
+    expect(mockPrisma.processedWebhookEvent.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tax Rules Tests
+ *
+ * Covers address parsing, rule precedence and fleet exemptions
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    taxRule: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  matchTaxRule,
+  parseJurisdiction,
+  resolveQuoteTax,
+  taxForJurisdiction,
+  type TaxRule,
+} from '@/backend/services/tax-rules';
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+  taxRule: { findMany: jest.Mock };
+};
+
+const rule = (overrides: Partial<TaxRule>): TaxRule => ({
+  id: 'rule',
+  name: 'Rule',
+  state: null,
+  zipPrefix: null,
+  partsRate: 0.05,
+  laborRate: 0,
+  fleetExempt: false,
+  isActive: true,
+  ...overrides,
+});
+
+const RULES: TaxRule[] = [
+  rule({ id: 'tx', state: 'TX', partsRate: 0.0625 }),
+  rule({ id: 'austin', state: 'TX', zipPrefix: '787', partsRate: 0.0825 }),
+  rule({ id: 'austin-downtown', zipPrefix: '78701', partsRate: 0.0825, laborRate: 0.0825 }),
+  rule({ id: 'ny', state: 'NY', partsRate: 0.08875, laborRate: 0.08875, fleetExempt: true }),
+  rule({ id: 'ca-old', state: 'CA', partsRate: 0.07, isActive: false }),
+];
+
+describe('parseJurisdiction', () => {
+  it('reads the state and ZIP from a US address', () => {
+    expect(parseJurisdiction('500 Congress Ave, Austin, TX 78701-1234')).toEqual({ state: 'TX', zip: '78701' });
+    expect(parseJurisdiction('12 W 4th St, New York, ny, 10012')).toEqual({ state: 'NY', zip: '10012' });
+    expect(parseJurisdiction('Somewhere 90210')).toEqual({ zip: '90210' });
+    expect(parseJurisdiction(null)).toEqual({});
+  });
+});
+
+describe('matchTaxRule', () => {
+  it('prefers the longest ZIP prefix over a state-wide rule', () => {
+    expect(matchTaxRule(RULES, { state: 'TX', zip: '78701' })?.id).toBe('austin-downtown');
+    expect(matchTaxRule(RULES, { state: 'TX', zip: '78745' })?.id).toBe('austin');
+    expect(matchTaxRule(RULES, { state: 'TX', zip: '75201' })?.id).toBe('tx');
+  });
+
+  it('skips inactive rules and ZIP rules scoped to another state', () => {
+    expect(matchTaxRule(RULES, { state: 'CA', zip: '90210' })).toBeNull();
+    expect(matchTaxRule(RULES, { state: 'OK', zip: '78745' })).toBeNull();
+  });
+});
+
+describe('taxForJurisdiction', () => {
+  it('returns separate parts and labor rates and the rule id', () => {
+    expect(taxForJurisdiction(RULES, { state: 'TX', zip: '78745' })).toEqual({
+      rates: { parts: 0.0825, labor: 0 },
+      ruleId: 'austin',
+      exempt: false,
+    });
+  });
+
+  it('exempts fleet accounts only where the rule allows it', () => {
+    expect(taxForJurisdiction(RULES, { state: 'NY', zip: '10012' }, true)).toEqual({
+      rates: { parts: 0, labor: 0 },
+      ruleId: 'ny',
+      exempt: true,
+    });
+    expect(taxForJurisdiction(RULES, { state: 'TX', zip: '75201' }, true).exempt).toBe(false);
+  });
+
+  it('charges no tax without a matching rule', () => {
+    expect(taxForJurisdiction(RULES, {})).toEqual({
+      rates: { parts: 0, labor: 0 },
+      ruleId: null,
+      exempt: false,
+    });
+  });
+});
+
+describe('resolveQuoteTax', () => {
+  beforeEach(() => {
+    mockPrisma.taxRule.findMany.mockResolvedValue(RULES);
+  });
+
+  it('treats members of an organization as fleet customers', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      address: '1 Broadway, New York, NY 10004',
+      isFleetAccount: false,
+      organizationMembership: { id: 'member-1' },
+    });
+
+    await expect(resolveQuoteTax({ customerId: 'customer-1' })).resolves.toMatchObject({ ruleId: 'ny', exempt: true });
+  });
+
+  it('taxes customers outside an organization', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      address: '1 Broadway, New York, NY 10004',
+      isFleetAccount: false,
+      organizationMembership: null,
+    });
+
+    await expect(resolveQuoteTax({ customerId: 'customer-1' })).resolves.toMatchObject({ ruleId: 'ny', exempt: false });
+  });
+});
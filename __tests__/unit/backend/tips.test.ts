@@ -0,0 +1,116 @@
+/**
+ * Tips Tests
+ *
+ * Tip amounts from presets and custom values, and charging a tip on a
+ * completed job through the in-memory payment provider
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    quote: { findUnique: jest.fn() },
+    payment: { findFirst: jest.fn(), create: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { PAYMENT_PROVIDER: 'fake' },
+}));
+
+jest.mock('@/backend/services/earnings', () => ({
+  postPaymentEarnings: jest.fn().mockResolvedValue({ revenue: null, commission: null }),
+}));
+
+jest.mock('@/backend/services/notifications', () => ({
+  sendNotification: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/backend/services/job-timeline', () => ({
+  recordJobEvent: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { postPaymentEarnings } from '@/backend/services/earnings';
+import { sendNotification } from '@/backend/services/notifications';
+import { setPaymentProvider } from '@/backend/services/payment-provider';
+import { createFakePaymentProvider, FAKE_PAYMENT_METHODS } from '@/backend/services/fake-payment-provider';
+import { chargeTip, tipAmountFor, TipError } from '@/backend/services/tips';
+
+const mockPrisma = prisma as unknown as {
+  quote: { findUnique: jest.Mock };
+  payment: { findFirst: jest.Mock; create: jest.Mock };
+};
+
+describe('tipAmountFor', () => {
+  it('takes a percentage of the final amount or a custom amount', () => {
+    expect(tipAmountFor(196.4, { percent: 15 })).toBe(29.46);
+    expect(tipAmountFor(196.4, { amount: 25 })).toBe(25);
+  });
+
+  it('rejects tips that are too small or more than half the job total', () => {
+    expect(() => tipAmountFor(100, { amount: 0 })).toThrow(TipError);
+    expect(() => tipAmountFor(100, { amount: 0.25 })).toThrow('The smallest tip is $0.50');
+    expect(() => tipAmountFor(100, { amount: 60 })).toThrow('cannot be more than 50%');
+  });
+});
+
+describe('chargeTip', () => {
+  const quote = (status = 'COMPLETED') => ({
+    id: 'quote-1',
+    total: 200,
+    job: { id: 'job-1', title: 'Brake service', status, customerId: 'customer-1', mechanicId: 'mechanic-1' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setPaymentProvider(createFakePaymentProvider());
+    mockPrisma.quote.findUnique.mockResolvedValue(quote());
+    mockPrisma.payment.findFirst.mockResolvedValue(null);
+    mockPrisma.payment.create.mockImplementation(async ({ data }) => ({ id: 'tip-1', ...data }));
+  });
+
+  afterAll(() => {
+    setPaymentProvider(null);
+  });
+
+  it('charges the tip as its own payment and credits the mechanic', async () => {
+    const result = await chargeTip({
+      quoteId: 'quote-1',
+      customerId: 'customer-1',
+      percent: 20,
+      paymentMethodId: FAKE_PAYMENT_METHODS.success,
+    });
+
+    expect(result.paymentIntent.status).toBe('succeeded');
+    expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ kind: 'TIP', amount: 40, status: 'SUCCEEDED', jobId: 'job-1' }),
+    });
+    expect(postPaymentEarnings).toHaveBeenCalledWith('tip-1');
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'mechanic-1', title: 'Tip Received' })
+    );
+  });
+
+  it('only tips completed jobs, once', async () => {
+    mockPrisma.quote.findUnique.mockResolvedValue(quote('IN_PROGRESS'));
+    await expect(
+      chargeTip({ quoteId: 'quote-1', customerId: 'customer-1', amount: 10, paymentMethodId: FAKE_PAYMENT_METHODS.success })
+    ).rejects.toThrow('once the job is completed');
+
+    mockPrisma.quote.findUnique.mockResolvedValue(quote());
+    mockPrisma.payment.findFirst.mockResolvedValue({ id: 'tip-0' });
+    await expect(
+      chargeTip({ quoteId: 'quote-1', customerId: 'customer-1', amount: 10, paymentMethodId: FAKE_PAYMENT_METHODS.success })
+    ).rejects.toThrow('already been added');
+
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('reports a declined card without recording a payment', async () => {
+    await expect(
+      chargeTip({ quoteId: 'quote-1', customerId: 'customer-1', amount: 10, paymentMethodId: FAKE_PAYMENT_METHODS.declined })
+    ).rejects.toBeInstanceOf(TipError);
+
+    expect(mockPrisma.payment.create).not.toHaveBeenCalled();
+    expect(postPaymentEarnings).not.toHaveBeenCalled();
+  });
+});
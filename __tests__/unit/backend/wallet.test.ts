@@ -0,0 +1,109 @@
+/**
+ * Wallet Tests
+ *
+ * Linking users to provider customers, saving cards through setup intents,
+ * the default card and removal, on the in-memory payment provider
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('@/backend/env-validation', () => ({
+  validatedEnv: { PAYMENT_PROVIDER: 'fake' },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { setPaymentProvider } from '@/backend/services/payment-provider';
+import { createFakePaymentProvider, type FakePaymentProvider } from '@/backend/services/fake-payment-provider';
+import {
+  defaultPaymentMethodFor,
+  ensurePaymentCustomer,
+  listSavedPaymentMethods,
+  removePaymentMethod,
+  setDefaultPaymentMethod,
+  startCardSetup,
+  WalletError,
+} from '@/backend/services/wallet';
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock };
+};
+
+describe('Wallet', () => {
+  let provider: FakePaymentProvider;
+  let user: Record<string, unknown>;
+
+  const saveCard = async (paymentMethodId: string) => {
+    const setup = await startCardSetup('customer-1');
+    await provider.completeSetup(setup.id, paymentMethodId);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = createFakePaymentProvider();
+    setPaymentProvider(provider);
+
+    user = {
+      id: 'customer-1',
+      email: 'sam@test.com',
+      firstName: 'Sam',
+      lastName: 'Rivera',
+      paymentCustomerId: null,
+      defaultPaymentMethodId: null,
+    };
+    mockPrisma.user.findUnique.mockImplementation(async () => ({ ...user }));
+    mockPrisma.user.update.mockImplementation(async ({ data }) => Object.assign(user, data));
+  });
+
+  afterAll(() => {
+    setPaymentProvider(null);
+  });
+
+  it('links the user to one provider customer', async () => {
+    const first = await ensurePaymentCustomer('customer-1');
+    const second = await ensurePaymentCustomer('customer-1');
+
+    expect(first).toMatch(/^cus_fake_/);
+    expect(second).toBe(first);
+    expect(mockPrisma.user.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists nothing before the first card is saved', async () => {
+    expect(await listSavedPaymentMethods('customer-1')).toEqual([]);
+    expect(await defaultPaymentMethodFor('customer-1')).toBeNull();
+  });
+
+  it('saves cards through a setup intent and lists the default first', async () => {
+    const setup = await startCardSetup('customer-1');
+    expect(setup.clientSecret).toMatch(/^seti_fake_.+_secret_/);
+    await provider.completeSetup(setup.id, 'pm_card_mastercard');
+
+    await setDefaultPaymentMethod('customer-1', 'pm_card_mastercard');
+
+    const methods = await listSavedPaymentMethods('customer-1');
+    expect(methods[0]).toMatchObject({ id: 'pm_card_mastercard', isDefault: true });
+    expect(methods.filter((method) => method.isDefault)).toHaveLength(1);
+    expect(await defaultPaymentMethodFor('customer-1')).toBe('pm_card_mastercard');
+  });
+
+  it('makes the next card the default when the default is removed', async () => {
+    await saveCard('pm_card_mastercard');
+    await setDefaultPaymentMethod('customer-1', 'pm_card_mastercard');
+
+    await removePaymentMethod('customer-1', 'pm_card_mastercard');
+
+    const methods = await listSavedPaymentMethods('customer-1');
+    expect(methods.map((method) => method.id)).not.toContain('pm_card_mastercard');
+    expect(user.defaultPaymentMethodId).toBe(methods[0].id);
+  });
+
+  it("refuses cards that are not in the user's wallet", async () => {
+    await saveCard('pm_card_mastercard');
+
+    await expect(setDefaultPaymentMethod('customer-1', 'pm_someone_else')).rejects.toBeInstanceOf(WalletError);
+    await expect(removePaymentMethod('customer-1', 'pm_someone_else')).rejects.toBeInstanceOf(WalletError);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Quote Totals Tests
+ *
+ * Covers line item pricing, discounts and split parts/labor tax on the
+ * discounted subtotal
+ */
+
+import { priceQuoteLineItems, roundCurrency } from '@/utils/quote-totals';
+
+describe('priceQuoteLineItems', () => {
+  it('rolls line items up into per-type totals and appends tax lines', () => {
+    const { lineItems, totals } = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Brake job', quantity: 1.5, unitPrice: 90 },
+      { type: 'PART', description: 'Brake pads', quantity: 2, unitPrice: 40, partNumber: 'BP-100' },
+      { type: 'TRAVEL', description: 'Travel', quantity: 1, unitPrice: 25 },
+      { type: 'FEE', description: 'Disposal', quantity: 1, unitPrice: 5 },
+    ], 0.08);
+
+    expect(totals).toEqual({
+      laborCost: 135,
+      partsCost: 80,
+      travelFee: 25,
+      feesCost: 5,
+      discountTotal: 0,
+      subtotal: 245,
+      partsTaxRate: 0.08,
+      laborTaxRate: 0.08,
+      partsTax: 6.4,
+      laborTax: 13.2,
+      taxes: 19.6,
+      total: 264.6,
+    });
+    expect(lineItems.map((item) => item.type)).toEqual(['LABOR', 'PART', 'TRAVEL', 'FEE', 'TAX', 'TAX']);
+    expect(lineItems[1]).toMatchObject({ total: 80, partNumber: 'BP-100' });
+  });
+
+  it('taxes the subtotal after discounts and never discounts below zero', () => {
+    const discounted = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 100 },
+      { type: 'DISCOUNT', description: 'Loyalty', quantity: 1, unitPrice: 10 },
+    ], 0.1);
+
+    expect(discounted.totals.subtotal).toBe(90);
+    expect(discounted.totals.taxes).toBe(9);
+    expect(discounted.totals.total).toBe(99);
+
+    const overDiscounted = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 20 },
+      { type: 'DISCOUNT', description: 'Promo', quantity: 1, unitPrice: 50 },
+    ]);
+
+    expect(overDiscounted.totals.discountTotal).toBe(20);
+    expect(overDiscounted.totals.total).toBe(0);
+    expect(overDiscounted.lineItems.some((item) => item.type === 'TAX')).toBe(false);
+  });
+
+  it('taxes parts and labor at their own rates', () => {
+    const { lineItems, totals } = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 150 },
+      { type: 'PART', description: 'Rotor', quantity: 1, unitPrice: 100 },
+      { type: 'TRAVEL', description: 'Travel', quantity: 1, unitPrice: 50 },
+      { type: 'DISCOUNT', description: 'Promo', quantity: 1, unitPrice: 30 },
+    ], { parts: 0.0725, labor: 0 });
+
+    // The $30 discount is spread 1/3 to parts, so $90 of parts is taxable
+    expect(totals.partsTax).toBe(6.53);
+    expect(totals.laborTax).toBe(0);
+    expect(totals.total).toBe(276.53);
+    expect(lineItems.filter((item) => item.type === 'TAX')).toEqual([
+      { type: 'TAX', description: 'Sales tax on parts (7.25%)', quantity: 1, unitPrice: 6.53, total: 6.53 },
+    ]);
+  });
+
+  it('ignores client-supplied tax lines', () => {
+    const { lineItems, totals } = priceQuoteLineItems([
+      { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 50 },
+      { type: 'TAX', description: 'Made-up tax', quantity: 1, unitPrice: 500 },
+    ], 0.08);
+
+    expect(totals.taxes).toBe(4);
+    expect(lineItems.filter((item) => item.type === 'TAX')).toEqual([
+      expect.objectContaining({ description: 'Sales tax on labor (8%)', total: 4 }),
+    ]);
+  });
+
+  it('rounds each line to cents', () => {
+    const { totals } = priceQuoteLineItems([
+      { type: 'PART', description: 'Fluid', quantity: 3, unitPrice: 3.333 },
+    ], 0);
+
+    expect(totals.partsCost).toBe(10);
+    expect(roundCurrency(1.005)).toBe(1.01);
+  });
+});
@@ -4,6 +4,9 @@ import { Colors } from '@/constants/colors';
 import { useAuthStore } from '@/stores/auth-store';
 import { useAppStore } from '@/stores/app-store';
 import * as Icons from 'lucide-react-native';
+import { DisputeQueue } from '@/components/DisputeQueue';
+import { PayoutBatches } from '@/components/PayoutBatches';
+import { FleetInvoices } from '@/components/FleetInvoices';
 
 export default function AdminDashboardScreen() {
   const { user, getAllUsers } = useAuthStore();
@@ -98,6 +101,12 @@ export default function AdminDashboardScreen() {
           </View>
         </View>
 
+        <DisputeQueue />
+
+        <PayoutBatches />
+
+        <FleetInvoices />
+
         {/* Quick Actions */}
         <View style={styles.quickActionsSection}>
           <Text style={styles.sectionTitle}>Quick Actions</Text>
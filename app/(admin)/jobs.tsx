@@ -7,6 +7,8 @@ import { SERVICE_CATEGORIES } from '@/constants/services';
 import { JobPhoto } from '@/types/service';
 import * as Icons from 'lucide-react-native';
 import { LucideIcon } from 'lucide-react-native';
+import { ManualPaymentReconciliation } from '@/components/ManualPaymentReconciliation';
+import { DispatchQueue } from '@/components/DispatchQueue';
 
 export default function AdminJobsScreen() {
   const { user } = useAuthStore();
@@ -77,6 +79,9 @@ export default function AdminJobsScreen() {
 
       <ScrollView style={styles.jobsList} showsVerticalScrollIndicator={false}>
         <View style={styles.content}>
+          <DispatchQueue />
+          <ManualPaymentReconciliation />
+
           {serviceRequests.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Icons.Briefcase size={64} color={Colors.textMuted} />
@@ -4,6 +4,7 @@ import { Colors } from '@/constants/colors';
 import { useAuthStore } from '@/stores/auth-store';
 import { useAppStore } from '@/stores/app-store';
 import { SERVICE_CATEGORIES } from '@/constants/services';
+import { priceQuoteLineItems } from '@/utils/quote-totals';
 import * as Icons from 'lucide-react-native';
 
 export default function AdminQuotesScreen() {
@@ -32,25 +33,36 @@ export default function AdminQuotesScreen() {
 
     Alert.prompt(
       'Create Quote',
-      'Enter the total cost for this service:',
+      'Enter the pre-tax cost for this service:',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Create',
-          onPress: (totalCost: any) => {
-            if (!totalCost || isNaN(Number(totalCost))) {
+          onPress: (amount?: string) => {
+            if (!amount || isNaN(Number(amount))) {
               Alert.alert('Error', 'Please enter a valid amount');
               return;
             }
 
+            const { lineItems, totals } = priceQuoteLineItems([
+              { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: Number(amount) * 0.7 },
+              { type: 'PART', description: 'Parts', quantity: 1, unitPrice: Number(amount) * 0.2 },
+              { type: 'TRAVEL', description: 'Travel', quantity: 1, unitPrice: Number(amount) * 0.1 },
+            ]);
+
             const newQuote = {
               id: `quote-${Date.now()}`,
               serviceRequestId: requestId,
               description: `Professional ${getServiceTitle(request.type)} service`,
-              laborCost: Number(totalCost) * 0.7,
-              partsCost: Number(totalCost) * 0.2,
-              travelCost: Number(totalCost) * 0.1,
-              totalCost: Number(totalCost),
+              lineItems,
+              laborCost: totals.laborCost,
+              partsCost: totals.partsCost,
+              travelCost: totals.travelFee,
+              subtotal: totals.subtotal,
+              partsTaxRate: totals.partsTaxRate,
+              laborTaxRate: totals.laborTaxRate,
+              taxes: totals.taxes,
+              totalCost: totals.total,
               estimatedDuration: 2,
               validUntil: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
               status: 'pending' as const,
@@ -208,7 +220,13 @@ export default function AdminQuotesScreen() {
                       <View style={styles.quoteBreakdown}>
                         <Text style={styles.quoteBreakdownText}>
                           Labor: ${requestQuote.laborCost} • Parts: ${requestQuote.partsCost}
+                          {requestQuote.taxes ? ` • Tax: $${requestQuote.taxes.toFixed(2)}` : ''}
                         </Text>
+                        {requestQuote.lineItems?.filter(item => item.type !== 'TAX').map((item, index) => (
+                          <Text key={item.id ?? index} style={styles.quoteBreakdownText}>
+                            {item.description}{item.partNumber ? ` (#${item.partNumber})` : ''}: {item.type === 'DISCOUNT' ? '-' : ''}${item.total.toFixed(2)}
+                          </Text>
+                        ))}
                         <Text style={styles.quoteBreakdownText}>
                           Est. Time: {requestQuote.estimatedDuration}h
                         </Text>
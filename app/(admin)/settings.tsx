@@ -6,6 +6,9 @@ import { useAdminSettingsStore } from '@/stores/admin-settings-store';
 import { useConfigStore } from '@/lib/configStore';
 import { trpc } from '@/lib/trpc';
 import { Button } from '@/components/Button';
+import { TaxRulesSettings } from '@/components/TaxRulesSettings';
+import { ServiceZoneSettings } from '@/components/ServiceZoneSettings';
+import { DepositSettings } from '@/components/DepositSettings';
 import { logger } from '@/utils/logger';
 import * as Icons from 'lucide-react-native';
 
@@ -318,6 +321,87 @@ export default function AdminSettingsScreen() {
           )}
         </View>
 
+        {/* Sales Tax */}
+        <View style={styles.settingsSection}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('tax')}
+          >
+            <View style={styles.sectionHeaderLeft}>
+              <Icons.Receipt size={20} color={Colors.primary} />
+              <Text style={styles.sectionTitle}>Sales Tax</Text>
+            </View>
+            <Icons.ChevronDown 
+              size={20} 
+              color={Colors.textMuted}
+              style={[
+                styles.chevron,
+                activeSection === 'tax' && styles.chevronRotated
+              ]}
+            />
+          </TouchableOpacity>
+          
+          {activeSection === 'tax' && (
+            <View style={styles.sectionContent}>
+              <TaxRulesSettings />
+            </View>
+          )}
+        </View>
+
+        {/* Service Area */}
+        <View style={styles.settingsSection}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('zones')}
+          >
+            <View style={styles.sectionHeaderLeft}>
+              <Icons.MapPinned size={20} color={Colors.primary} />
+              <Text style={styles.sectionTitle}>Service Area</Text>
+            </View>
+            <Icons.ChevronDown 
+              size={20} 
+              color={Colors.textMuted}
+              style={[
+                styles.chevron,
+                activeSection === 'zones' && styles.chevronRotated
+              ]}
+            />
+          </TouchableOpacity>
+          
+          {activeSection === 'zones' && (
+            <View style={styles.sectionContent}>
+              <ServiceZoneSettings />
+            </View>
+          )}
+        </View>
+
+        {/* Deposits */}
+        <View style={styles.settingsSection}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('deposits')}
+          >
+            <View style={styles.sectionHeaderLeft}>
+              <Icons.Wallet size={20} color={Colors.primary} />
+              <Text style={styles.sectionTitle}>Deposits</Text>
+            </View>
+            <Icons.ChevronDown 
+              size={20} 
+              color={Colors.textMuted}
+              style={[
+                styles.chevron,
+                activeSection === 'deposits' && styles.chevronRotated
+              ]}
+            />
+          </TouchableOpacity>
+          
+          {activeSection === 'deposits' && (
+            <View style={styles.sectionContent}>
+              <DepositSettings />
+            </View>
+          )}
+        </View>
+
         {/* System Settings */}
         <View style={styles.settingsSection}>
           <TouchableOpacity
@@ -3,6 +3,7 @@ import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert, Modal } fr
 import { Colors } from '@/constants/colors';
 import { useAuthStore } from '@/stores/auth-store';
 import { User } from '@/types/auth';
+import { VerificationReviewQueue } from '@/components/VerificationReviewQueue';
 import * as Icons from 'lucide-react-native';
 
 export default function AdminUsersScreen() {
@@ -64,6 +65,8 @@ export default function AdminUsersScreen() {
 
       <ScrollView style={styles.usersList} showsVerticalScrollIndicator={false}>
         <View style={styles.content}>
+          <VerificationReviewQueue />
+
           {allUsers.map((userData) => (
             <View key={userData.id} style={styles.userCard}>
               <View style={styles.userInfo}>
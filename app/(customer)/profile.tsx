@@ -5,6 +5,10 @@ import { Button } from '@/components/Button';
 import { useAppStore } from '@/stores/app-store';
 import { useAuthStore } from '@/stores/auth-store';
 import { Contact, Vehicle } from '@/types/service';
+import { StripeProvider } from '@stripe/stripe-react-native';
+import { SavedPaymentMethods } from '@/components/payments/SavedPaymentMethods';
+import { OrganizationAccount } from '@/components/OrganizationAccount';
+import { STRIPE_PUBLISHABLE_KEY } from '@/lib/stripe-config';
 import * as Icons from 'lucide-react-native';
 
 export default function CustomerProfileScreen() {
@@ -199,6 +203,26 @@ export default function CustomerProfileScreen() {
           />
         </View>
 
+        {/* Saved Cards */}
+        {STRIPE_PUBLISHABLE_KEY ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Payment Methods</Text>
+            </View>
+            <StripeProvider publishableKey={STRIPE_PUBLISHABLE_KEY}>
+              <SavedPaymentMethods />
+            </StripeProvider>
+          </View>
+        ) : null}
+
+        {/* Fleet / business account */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Business Account</Text>
+          </View>
+          <OrganizationAccount />
+        </View>
+
         {/* Vehicles */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -7,6 +7,7 @@ import { SERVICE_CATEGORIES } from '@/constants/services';
 import { Quote } from '@/types/service';
 import { ChatComponent } from '@/components/ChatComponent';
 import { PaymentModal } from '@/components/PaymentModal';
+import { QuoteChangeOrders } from '@/components/QuoteChangeOrders';
 import { LoadingState, LoadingButton } from '@/components/LoadingState';
 import { SkeletonQuoteCard } from '@/components/LoadingSkeleton';
 import { withScreenErrorBoundary } from '@/components/error-boundaries/withErrorBoundary';
@@ -339,6 +340,14 @@ function CustomerQuotesScreen() {
                         </Text>
                       </View>
                     )}
+
+                    {/* Change orders proposed on site need the customer's signature */}
+                    {requestQuote.status !== 'pending' && (
+                      <QuoteChangeOrders
+                        quoteId={requestQuote.id}
+                        onRevisionApproved={(total) => updateQuote(requestQuote.id, { totalCost: total })}
+                      />
+                    )}
                   </View>
                 )}
               </View>
@@ -12,7 +12,9 @@ import { useAppStore } from '@/stores/app-store';
 import { useAuthStore } from '@/stores/auth-store';
 import { useAdminSettingsStore } from '@/stores/admin-settings-store';
 import { ServiceRequest, ServiceType, DiagnosticResult, Vehicle, VehicleType } from '@/types/service';
-import { generateSmartQuote } from '@/utils/quote-generator';
+import { quoteFromEstimate } from '@/utils/quote-generator';
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '@/lib/trpc';
 import { ENV_CONFIG, logProductionEvent } from '@/utils/firebase-config';
 import { logger } from '@/utils/logger';
 import * as Location from 'expo-location';
@@ -24,6 +26,10 @@ export default function CustomerRequestScreen() {
   const { addServiceRequest, addQuote, vehicles, currentLocation, setCurrentLocation, updateServiceRequest, addVehicle } = useAppStore();
   const { user } = useAuthStore();
   const { system } = useAdminSettingsStore();
+  const trpcUtils = trpc.useUtils();
+  const { data: organization } = trpc.organizations.getMine.useQuery(undefined, {
+    enabled: user?.role === 'CUSTOMER',
+  });
   
   const [selectedService, setSelectedService] = useState<ServiceType | null>(
     params.serviceType as ServiceType || null
@@ -37,6 +43,7 @@ export default function CustomerRequestScreen() {
   const [showVinScanner, setShowVinScanner] = useState(false);
   const [, setLocationError] = useState<string | null>(null);
   const [vinNumber, setVinNumber] = useState('');
+  const [poNumber, setPoNumber] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [aiDiagnosis, setAiDiagnosis] = useState<DiagnosticResult | undefined>(
     params.aiDiagnosis ? JSON.parse(params.aiDiagnosis as string) : undefined
@@ -106,6 +113,18 @@ export default function CustomerRequestScreen() {
     setIsSubmitting(true);
 
     try {
+      // Refuse locations outside the service area before creating anything
+      if (currentLocation) {
+        const area = await trpcUtils.location.checkServiceArea.fetch({
+          latitude: currentLocation.latitude,
+          longitude: currentLocation.longitude,
+        });
+        if ('servable' in area && !area.servable) {
+          Alert.alert('Outside Service Area', area.message || 'We do not offer mobile service at this location yet.');
+          return;
+        }
+      }
+
       // Get required tools for this service
       const requiredTools = getRequiredToolsForService(selectedService).map(tool => tool.id);
 
@@ -128,6 +147,7 @@ export default function CustomerRequestScreen() {
         aiDiagnosis: aiDiagnosis || undefined,
         requiredTools, // Set required tools for this service
         toolsChecked: {}, // Initialize empty tools check
+        poNumber: organization && poNumber.trim() ? poNumber.trim() : undefined,
       };
 
       addServiceRequest(request);
@@ -143,15 +163,19 @@ export default function CustomerRequestScreen() {
         toolsCount: requiredTools.length
       });
 
-      // Generate smart quote automatically
-      const quote = generateSmartQuote(request.id, {
+      // Price the request on the server
+      const { estimate } = await trpcUtils.quote.estimate.fetch({
         serviceType: selectedService,
         urgency,
         description: description.trim(),
         selectedParts: selectedParts.length > 0 ? selectedParts : undefined,
         aiDiagnosis,
         vehicle: selectedVehicle,
+        coordinates: currentLocation
+          ? { latitude: currentLocation.latitude, longitude: currentLocation.longitude }
+          : undefined,
       });
+      const quote = quoteFromEstimate(request.id, estimate);
 
       addQuote(quote);
       updateServiceRequest(request.id, { status: 'quoted' });
@@ -181,13 +205,20 @@ export default function CustomerRequestScreen() {
       setSelectedService(null);
       setSelectedParts([]);
       setVinNumber('');
+      setPoNumber('');
       setAiDiagnosis(undefined);
-    } catch {
-      Alert.alert('Error', 'Failed to submit request. Please try again.');
+    } catch (error) {
+      // Service area refusals come back as BAD_REQUEST with a customer-facing message
+      Alert.alert(
+        'Error',
+        error instanceof TRPCClientError && error.data?.code === 'BAD_REQUEST'
+          ? error.message
+          : 'Failed to submit request. Please try again.'
+      );
     } finally {
       setIsSubmitting(false);
     }
-  }, [selectedService, description, user, selectedVehicle, urgency, photos, currentLocation, vinNumber, aiDiagnosis, selectedParts, addServiceRequest, addQuote, updateServiceRequest, router]);
+  }, [selectedService, description, user, selectedVehicle, urgency, photos, currentLocation, vinNumber, aiDiagnosis, selectedParts, organization, poNumber, addServiceRequest, addQuote, updateServiceRequest, router, trpcUtils]);
 
   useEffect(() => {
     getCurrentLocation();
@@ -680,6 +711,25 @@ Would you like to add this vehicle to your profile?`,
           />
         </View>
 
+        {/* Purchase order for fleet accounts */}
+        {organization && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>PO Number (Optional)</Text>
+            <Text style={styles.sectionSubtitle}>
+              Billed to {organization.organization.name} on its monthly invoice
+            </Text>
+            <TextInput
+              style={styles.poInput}
+              value={poNumber}
+              onChangeText={setPoNumber}
+              placeholder="Purchase order number"
+              placeholderTextColor={Colors.textMuted}
+              autoCapitalize="characters"
+              maxLength={50}
+            />
+          </View>
+        )}
+
         {/* Photo Upload */}
         <View style={styles.section}>
           <PhotoUpload
@@ -1037,6 +1087,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     minHeight: 100,
   },
+  poInput: {
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+    color: Colors.text,
+    fontSize: 16,
+  },
   urgencyGrid: {
     gap: 8,
   },
@@ -6,6 +6,7 @@ import { useAppStore } from '@/stores/app-store';
 import { useAuthStore } from '@/stores/auth-store';
 import { SERVICE_CATEGORIES } from '@/constants/services';
 import { MaintenanceReminders } from '@/components/MaintenanceReminders';
+import { DispatchOffers } from '@/components/DispatchOffers';
 import * as Icons from 'lucide-react-native';
 
 export default function MechanicDashboardScreen() {
@@ -85,6 +86,8 @@ export default function MechanicDashboardScreen() {
           </TouchableOpacity>
         </View>
 
+        <DispatchOffers />
+
         {/* Stats Grid */}
         <View style={styles.statsSection}>
           <View style={styles.statsGrid}>
@@ -122,6 +122,7 @@ export default function MechanicJobsScreen() {
       'quoted': 'Set Quoted',
       'accepted': 'Accept Job',
       'scheduled': 'Schedule Job',
+      'en_route': 'Head Out',
       'in_progress': 'Start Work',
       'paused': 'Pause Work',
       'completed': 'Complete Job',
@@ -252,6 +253,17 @@ export default function MechanicJobsScreen() {
     });
     setSelectedRequestForSignature(null);
     
+    const job = serviceRequests.find(j => j.id === jobId);
+    const hasQuote = quotes.some(q => q.serviceRequestId === jobId);
+    if (job?.status === 'completed' && hasQuote) {
+      // Hand the device to the customer for the final payment and an optional tip
+      Alert.alert('Signature Captured', 'Customer signature has been captured.', [
+        { text: 'Done', style: 'cancel' },
+        { text: 'Collect Payment', onPress: () => setSelectedRequestForPayment(jobId) },
+      ]);
+      return;
+    }
+    
     Alert.alert('Signature Captured', 'Customer signature has been captured.');
   };
 
@@ -407,7 +419,6 @@ export default function MechanicJobsScreen() {
   // Timeline View
   if (selectedRequestForTimeline) {
     const job = serviceRequests.find(j => j.id === selectedRequestForTimeline);
-    const timeline = getJobTimeline(selectedRequestForTimeline);
     const duration = getJobDuration(selectedRequestForTimeline);
     
     return (
@@ -433,7 +444,7 @@ export default function MechanicJobsScreen() {
           </View>
           
           <JobTimeline
-            timeline={timeline}
+            jobId={selectedRequestForTimeline}
             currentStatus={job?.status || 'pending'}
             estimatedDuration={duration.estimated}
             actualDuration={duration.actual}
@@ -715,6 +726,7 @@ export default function MechanicJobsScreen() {
         <PaymentModal
           quote={quotes.find(q => q.serviceRequestId === selectedRequestForPayment)!}
           paymentType="full"
+          allowTip
           onSuccess={handlePaymentComplete}
           onCancel={() => setSelectedRequestForPayment(null)}
         />
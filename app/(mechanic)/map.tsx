@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions } from
 import { Colors } from '@/constants/colors';
 import { useAppStore } from '@/stores/app-store';
 import { SERVICE_CATEGORIES } from '@/constants/services';
+import { DayRoutePlan } from '@/components/DayRoutePlan';
 import * as Icons from 'lucide-react-native';
 import { Platform } from 'react-native';
 
@@ -56,13 +57,16 @@ export default function MechanicMapScreen() {
 
   if (activeRequests.length === 0) {
     return (
-      <View style={styles.emptyContainer}>
-        <Icons.MapPin size={64} color={Colors.textMuted} />
-        <Text style={styles.emptyTitle}>No Active Service Locations</Text>
-        <Text style={styles.emptyText}>
-          Service requests with locations will appear here once submitted.
-        </Text>
-      </View>
+      <ScrollView style={styles.container} contentContainerStyle={styles.emptyContent}>
+        <DayRoutePlan currentLocation={currentLocation} />
+        <View style={styles.emptyContainer}>
+          <Icons.MapPin size={64} color={Colors.textMuted} />
+          <Text style={styles.emptyTitle}>No Active Service Locations</Text>
+          <Text style={styles.emptyText}>
+            Service requests with locations will appear here once submitted.
+          </Text>
+        </View>
+      </ScrollView>
     );
   }
 
@@ -91,6 +95,8 @@ export default function MechanicMapScreen() {
 
       {/* Service Requests List */}
       <ScrollView style={styles.requestsList} showsVerticalScrollIndicator={false}>
+        <DayRoutePlan currentLocation={currentLocation} />
+
         <Text style={styles.listTitle}>Service Locations ({activeRequests.length})</Text>
         
         {activeRequests.map((request) => {
@@ -185,6 +191,10 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
+  emptyContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
   emptyContainer: {
     flex: 1,
     alignItems: 'center',
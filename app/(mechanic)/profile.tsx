@@ -13,9 +13,10 @@ import { ToolsEquipmentSettings } from '@/components/ToolsEquipmentSettings';
 import { VehicleType } from '@/types/service';
 import { ReportsAnalytics } from '@/components/ReportsAnalytics';
 import { MechanicVerificationPanel } from '@/components/MechanicVerificationPanel';
+import { PayoutHistory } from '@/components/PayoutHistory';
 import { trpc } from '@/lib/trpc';
 
-type SettingsScreen = 'main' | 'availability' | 'notifications' | 'pricing' | 'tools' | 'reports' | 'verification';
+type SettingsScreen = 'main' | 'availability' | 'notifications' | 'pricing' | 'tools' | 'reports' | 'payouts' | 'verification';
 
 export default function MechanicProfileScreen() {
   const { user, logout } = useAuthStore();
@@ -37,7 +38,15 @@ export default function MechanicProfileScreen() {
   const totalRevenue = quotes
     .filter(q => q.status === 'paid' && q.paidAt)
     .reduce((sum, q) => sum + q.totalCost, 0);
-  const averageRating = 4.8; // Mock rating
+  const { data: reviewSummary } = trpc.reviews.getMechanicReviewSummary.useQuery(
+    { mechanicId: user?.id ?? '' },
+    {
+      enabled: !!user?.id,
+      retry: false,
+      refetchOnWindowFocus: false,
+    }
+  );
+  const averageRating = reviewSummary?.averageRating ?? 0;
 
   const handleLogout = () => {
     Alert.alert(
@@ -90,6 +99,15 @@ export default function MechanicProfileScreen() {
 
     const { verified, status } = verificationStatus;
 
+    if (status === 'approved' && !verified) {
+      return {
+        icon: 'AlertTriangle',
+        text: 'Documents Expired',
+        color: Colors.error,
+        bgColor: Colors.error + '20',
+      };
+    }
+
     if (verified) {
       return {
         icon: 'CheckCircle',
@@ -160,6 +178,13 @@ export default function MechanicProfileScreen() {
       icon: 'BarChart3',
       onPress: () => setCurrentScreen('reports'),
     },
+    {
+      id: 'payouts',
+      title: 'Earnings & Payouts',
+      subtitle: 'Your balance, payout history and bank account',
+      icon: 'Banknote',
+      onPress: () => setCurrentScreen('payouts'),
+    },
   ];
 
   const renderSettingsScreen = () => {
@@ -226,6 +251,8 @@ export default function MechanicProfileScreen() {
             mechanicId={user?.id || 'mechanic-cody'}
           />
         );
+      case 'payouts':
+        return <PayoutHistory />;
       case 'verification':
         return (
           <MechanicVerificationPanel 
@@ -271,13 +298,18 @@ export default function MechanicProfileScreen() {
 
         const IconComponent = Icons[statusDisplay.icon as keyof typeof Icons] as any;
         const isVerified = verificationStatus?.verified;
-        const needsVerification = !verificationStatus?.status;
+        const hasExpired = (verificationStatus?.expiredDocuments?.length ?? 0) > 0;
+        const expiringCount = verificationStatus?.expiringDocuments?.length ?? 0;
+        const needsVerification = !verificationStatus?.status
+          || verificationStatus.status === 'rejected'
+          || (hasExpired && verificationStatus.status !== 'pending')
+          || (expiringCount > 0 && verificationStatus.status === 'approved');
 
         return (
           <TouchableOpacity 
             style={[styles.verificationCard, { backgroundColor: statusDisplay.bgColor }]}
             onPress={() => needsVerification ? setCurrentScreen('verification') : undefined}
-            disabled={isVerified}
+            disabled={!needsVerification}
           >
             <View style={styles.verificationContent}>
               <View style={styles.verificationIcon}>
@@ -287,11 +319,21 @@ export default function MechanicProfileScreen() {
                 <Text style={[styles.verificationTitle, { color: statusDisplay.color }]}>
                   {statusDisplay.text}
                 </Text>
-                {needsVerification && (
+                {!verificationStatus?.status && (
                   <Text style={styles.verificationSubtitle}>
                     Tap to complete identity verification
                   </Text>
                 )}
+                {isVerified && expiringCount > 0 && (
+                  <Text style={styles.verificationSubtitle}>
+                    {expiringCount} document(s) expiring soon. Tap to upload renewed copies
+                  </Text>
+                )}
+                {hasExpired && verificationStatus?.status === 'approved' && (
+                  <Text style={styles.verificationSubtitle}>
+                    Upload renewed documents to receive jobs again
+                  </Text>
+                )}
                 {verificationStatus?.status === 'pending' && (
                   <Text style={styles.verificationSubtitle}>
                     Your verification is being reviewed
@@ -299,7 +341,7 @@ export default function MechanicProfileScreen() {
                 )}
                 {verificationStatus?.status === 'rejected' && (
                   <Text style={styles.verificationSubtitle}>
-                    Please resubmit your verification documents
+                    {verificationStatus.reviewNotes || 'Please resubmit your verification documents'}
                   </Text>
                 )}
               </View>
@@ -329,7 +371,7 @@ export default function MechanicProfileScreen() {
           
           <View style={styles.statCard}>
             <Icons.Star size={24} color={Colors.warning} />
-            <Text style={styles.statNumber}>{averageRating}</Text>
+            <Text style={styles.statNumber}>{averageRating.toFixed(1)}</Text>
             <Text style={styles.statLabel}>Average Rating</Text>
           </View>
         </View>
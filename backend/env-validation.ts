@@ -22,11 +22,22 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters for security'),
   JWT_EXPIRES_IN: z.string().default('7d'),
 
-  // Stripe Payment Processing
-  STRIPE_SECRET_KEY: z.string().startsWith('sk_', 'STRIPE_SECRET_KEY must start with sk_'),
-  STRIPE_PUBLISHABLE_KEY: z.string().startsWith('pk_', 'STRIPE_PUBLISHABLE_KEY must start with pk_'),
+  // Payment processor: 'fake' is an in-memory gateway for tests and offline development
+  PAYMENT_PROVIDER: z.enum(['stripe', 'fake']).default('stripe'),
+
+  // Stripe Payment Processing (required when PAYMENT_PROVIDER is 'stripe')
+  STRIPE_SECRET_KEY: z.string().startsWith('sk_', 'STRIPE_SECRET_KEY must start with sk_').optional(),
+  STRIPE_PUBLISHABLE_KEY: z.string().startsWith('pk_', 'STRIPE_PUBLISHABLE_KEY must start with pk_').optional(),
   STRIPE_WEBHOOK_SECRET: z.string().startsWith('whsec_', 'STRIPE_WEBHOOK_SECRET must start with whsec_').optional(),
 
+  // Mechanic payouts: originator details written into NACHA files
+  NACHA_ODFI_ROUTING_NUMBER: z.string().regex(/^\d{9}$/, 'NACHA_ODFI_ROUTING_NUMBER must be 9 digits').optional(),
+  NACHA_BANK_NAME: z.string().optional(),
+  NACHA_COMPANY_ID: z.string().max(10).optional(),
+  NACHA_COMPANY_NAME: z.string().optional(),
+  // Encrypts mechanics' bank routing and account numbers at rest (32 bytes as hex)
+  PAYOUT_ENCRYPTION_KEY: z.string().regex(/^[0-9a-fA-F]{64}$/, 'PAYOUT_ENCRYPTION_KEY must be 64 hex characters').optional(),
+
   // Firebase (for push notifications, analytics)
   FIREBASE_PROJECT_ID: z.string().min(1, 'FIREBASE_PROJECT_ID is required'),
   FIREBASE_CLIENT_EMAIL: z.string().email().optional(),
@@ -38,6 +49,12 @@ const envSchema = z.object({
   // Google Maps API (for location services)
   GOOGLE_MAPS_API_KEY: z.string().optional(),
 
+  // Routing for distances and ETAs: 'google' (needs GOOGLE_MAPS_API_KEY),
+  // 'osrm' or 'valhalla' (self-hosted, at ROUTING_SERVICE_URL) or 'heuristic'
+  // (offline road-speed estimate). Defaults to google when a key is set.
+  ROUTING_PROVIDER: z.enum(['google', 'osrm', 'valhalla', 'heuristic']).optional(),
+  ROUTING_SERVICE_URL: z.string().url().optional(),
+
   // NHTSA API Key (for VIN decoding)
   NHTSA_API_KEY: z.string().optional(),
 
@@ -61,6 +78,11 @@ const envSchema = z.object({
   REDIS_URL: z.string().url().optional(),
   REDIS_PASSWORD: z.string().optional(),
 
+  // Pub/sub between server instances for websocket rooms and realtime events:
+  // 'redis' (any Redis-protocol server at REDIS_URL) or 'memory' (one
+  // instance only). Defaults to redis when REDIS_URL is set.
+  REALTIME_ADAPTER: z.enum(['memory', 'redis']).optional(),
+
   // Sentry (for error tracking)
   SENTRY_DSN: z.string().url().optional(),
 
@@ -74,6 +96,34 @@ const envSchema = z.object({
 
   // Session
   SESSION_SECRET: z.string().min(32).optional(),
+}).superRefine((values, ctx) => {
+  if (values.REALTIME_ADAPTER === 'redis' && !values.REDIS_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['REDIS_URL'],
+      message: 'REDIS_URL is required when REALTIME_ADAPTER is redis',
+    });
+  }
+
+  if ((values.ROUTING_PROVIDER === 'osrm' || values.ROUTING_PROVIDER === 'valhalla') && !values.ROUTING_SERVICE_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ROUTING_SERVICE_URL'],
+      message: `ROUTING_SERVICE_URL is required when ROUTING_PROVIDER is ${values.ROUTING_PROVIDER}`,
+    });
+  }
+
+  if (values.PAYMENT_PROVIDER !== 'stripe') return;
+
+  for (const key of ['STRIPE_SECRET_KEY', 'STRIPE_PUBLISHABLE_KEY'] as const) {
+    if (!values[key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: `${key} is required when PAYMENT_PROVIDER is stripe`,
+      });
+    }
+  }
 });
 
 // Parse and validate environment variables
@@ -106,11 +156,21 @@ if (env.NODE_ENV === 'production') {
     console.warn('   Set CONNECTION_POOL_URL or use a pooling service like PgBouncer\n');
   }
 
+  if (env.PAYMENT_PROVIDER !== 'stripe') {
+    console.error('❌ PAYMENT_PROVIDER must be stripe in production');
+    process.exit(1);
+  }
+
   if (!env.STRIPE_WEBHOOK_SECRET) {
     console.error('❌ STRIPE_WEBHOOK_SECRET is required in production');
     process.exit(1);
   }
 
+  if (!env.PAYOUT_ENCRYPTION_KEY) {
+    console.error('❌ PAYOUT_ENCRYPTION_KEY is required in production');
+    process.exit(1);
+  }
+
   if (!env.FIREBASE_SERVICE_ACCOUNT && (!env.FIREBASE_PRIVATE_KEY || !env.FIREBASE_CLIENT_EMAIL)) {
     console.error('❌ Firebase configuration is required in production');
     console.error('   Set either FIREBASE_SERVICE_ACCOUNT or FIREBASE_PRIVATE_KEY + FIREBASE_CLIENT_EMAIL');
@@ -153,7 +213,10 @@ export function printEnvSummary(): void {
   console.log(`   Port: ${env.PORT}`);
   console.log(`   Host: ${env.HOST}`);
   console.log(`   Database: ${env.DATABASE_URL.includes('localhost') ? 'localhost' : 'remote'}`);
-  console.log(`   Stripe: ${env.STRIPE_SECRET_KEY.includes('_test_') ? 'test mode' : 'live mode'}`);
+  console.log(`   Payments: ${env.PAYMENT_PROVIDER === 'fake'
+    ? 'fake provider (offline)'
+    : `stripe ${env.STRIPE_SECRET_KEY?.includes('_test_') ? 'test mode' : 'live mode'}`}`);
+  console.log(`   Routing: ${env.ROUTING_PROVIDER ?? (env.GOOGLE_MAPS_API_KEY ? 'google' : 'heuristic')}`);
   console.log(`   Firebase: ${env.FIREBASE_PROJECT_ID}`);
   console.log(`   AI Diagnostics: ${env.ENABLE_AI_DIAGNOSTICS}`);
   console.log(`   Debug Logs: ${env.ENABLE_DEBUG_LOGS}`);
@@ -161,6 +224,7 @@ export function printEnvSummary(): void {
   if (env.REDIS_URL) {
     console.log(`   Redis: enabled`);
   }
+  console.log(`   Realtime: ${env.REALTIME_ADAPTER ?? (env.REDIS_URL ? 'redis' : 'memory')}`);
   if (env.SENTRY_DSN) {
     console.log(`   Sentry: enabled`);
   }
@@ -0,0 +1,230 @@
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+
+/**
+ * Deposits Service
+ *
+ * Splits what a customer pays for a quote into a deposit, charged when the
+ * quote is accepted, and the balance, captured once the job is completed.
+ * The deposit percentage depends on the service category and is fixed on
+ * the quote at acceptance so later setting changes do not move it.
+ */
+
+/**
+ * Service categories (mirrors the ServiceCategory Prisma enum)
+ */
+export type ServiceCategory = 'DIAGNOSTIC' | 'MAINTENANCE' | 'REPAIR' | 'INSPECTION' | 'EMERGENCY';
+
+/**
+ * What a payment is for (mirrors the PaymentKind Prisma enum)
+ */
+export type PaymentKind = 'DEPOSIT' | 'BALANCE' | 'FULL' | 'TIP';
+
+/**
+ * SystemSettings key holding `{ [category]: percent }` overrides
+ */
+export const DEPOSIT_SETTINGS_KEY = 'depositPercents';
+
+export const DEFAULT_DEPOSIT_PERCENTS: Record<ServiceCategory, number> = {
+  DIAGNOSTIC: 0,
+  MAINTENANCE: 0,
+  INSPECTION: 0,
+  REPAIR: 30,
+  EMERGENCY: 50,
+};
+
+/**
+ * Quote fields the schedule is computed from
+ */
+export interface SchedulableQuote {
+  total: number;
+  depositPercent?: number | null;
+  depositAmount?: number | null;
+}
+
+export interface SchedulablePayment {
+  kind: PaymentKind;
+  amount: number;
+  status: string;
+  refundAmount?: number | null;
+  disputeStatus?: string | null;
+}
+
+export interface PaymentSchedule {
+  total: number;
+  depositPercent: number;
+  depositAmount: number;
+  depositPaid: boolean;
+  totalPaid: number;
+  balanceDue: number;
+  next: { kind: Exclude<PaymentKind, 'TIP'>; amount: number } | null; // null once fully paid
+}
+
+/**
+ * Deposit percentages saved from the admin settings, over the defaults
+ */
+export async function loadDepositPercents(): Promise<Record<ServiceCategory, number>> {
+  const percents = { ...DEFAULT_DEPOSIT_PERCENTS };
+
+  const setting = await prisma.systemSettings.findUnique({
+    where: { key: DEPOSIT_SETTINGS_KEY },
+    select: { value: true },
+  });
+
+  const overrides = (setting?.value ?? {}) as Record<string, unknown>;
+  for (const category of Object.keys(percents) as ServiceCategory[]) {
+    const value = Number(overrides[category]);
+    if (overrides[category] !== undefined && Number.isFinite(value) && value >= 0 && value <= 100) {
+      percents[category] = value;
+    }
+  }
+
+  return percents;
+}
+
+/**
+ * Deposit for a quote total; quotes without a category take no deposit
+ */
+export function depositFor(
+  total: number,
+  category: ServiceCategory | null | undefined,
+  percents: Record<ServiceCategory, number>
+): { depositPercent: number; depositAmount: number } {
+  const depositPercent = category ? percents[category] ?? 0 : 0;
+  return { depositPercent, depositAmount: roundCurrency(total * (depositPercent / 100)) };
+}
+
+/**
+ * Payment statuses where the money was collected. Refunded amounts are
+ * subtracted; a disputed charge still counts until the dispute is lost.
+ */
+const COLLECTED_STATUSES = ['SUCCEEDED', 'PARTIALLY_REFUNDED', 'REFUNDED', 'DISPUTED'];
+
+/**
+ * What has been paid on a quote and what is charged next. Only collected
+ * payments count, net of refunds; the deposit is owed first, then the balance.
+ * Tips are paid on top of the quote and never count towards it.
+ */
+export function paymentSchedule(quote: SchedulableQuote, payments: SchedulablePayment[]): PaymentSchedule {
+  let totalPaid = 0;
+  let depositPaid = false;
+
+  for (const payment of payments) {
+    if (payment.kind === 'TIP') continue;
+    if (!COLLECTED_STATUSES.includes(payment.status) || payment.disputeStatus === 'lost') continue;
+
+    const net = roundCurrency(payment.amount - (payment.refundAmount ?? 0));
+    if (net <= 0) continue;
+
+    totalPaid = roundCurrency(totalPaid + net);
+    if (payment.kind === 'DEPOSIT') depositPaid = true;
+  }
+
+  const depositAmount = quote.depositAmount ?? 0;
+  const balanceDue = Math.max(0, roundCurrency(quote.total - totalPaid));
+
+  let next: PaymentSchedule['next'] = null;
+  if (balanceDue > 0) {
+    if (depositAmount > 0 && !depositPaid) {
+      next = { kind: 'DEPOSIT', amount: Math.min(depositAmount, balanceDue) };
+    } else if (totalPaid > 0 || depositAmount > 0) {
+      next = { kind: 'BALANCE', amount: balanceDue };
+    } else {
+      next = { kind: 'FULL', amount: balanceDue };
+    }
+  }
+
+  return {
+    total: quote.total,
+    depositPercent: quote.depositPercent ?? 0,
+    depositAmount,
+    depositPaid,
+    totalPaid,
+    balanceDue,
+    next,
+  };
+}
+
+/**
+ * Category of the service on the job a quote was made for
+ */
+export async function quoteServiceCategory(quote: { jobId: string }): Promise<ServiceCategory | null> {
+  const job = await prisma.job.findUnique({
+    where: { id: quote.jobId },
+    select: { services: { select: { category: true }, take: 1 } },
+  });
+
+  return job?.services[0]?.category ?? null;
+}
+
+/**
+ * Fix the deposit on a quote the first time it is accepted or paid
+ */
+export async function ensureQuoteDeposit(quote: {
+  id: string;
+  jobId: string;
+  total: number;
+  depositPercent?: number | null;
+  depositAmount?: number | null;
+}): Promise<{ depositPercent: number; depositAmount: number }> {
+  if (quote.depositPercent !== null && quote.depositPercent !== undefined) {
+    return { depositPercent: quote.depositPercent, depositAmount: quote.depositAmount ?? 0 };
+  }
+
+  const deposit = depositFor(quote.total, await quoteServiceCategory(quote), await loadDepositPercents());
+
+  await prisma.quote.update({
+    where: { id: quote.id },
+    data: deposit,
+  });
+
+  return deposit;
+}
+
+/**
+ * Prisma client or an interactive transaction
+ */
+type PaymentsDb = Pick<typeof prisma, 'quote' | 'payment'>;
+
+/**
+ * Schedule for a quote from its stored deposit and payments
+ */
+export async function getQuotePaymentSchedule(
+  quote: SchedulableQuote & { id: string },
+  db: PaymentsDb = prisma
+): Promise<PaymentSchedule> {
+  const payments: SchedulablePayment[] = await db.payment.findMany({
+    where: { quoteId: quote.id },
+    select: { kind: true, amount: true, status: true, refundAmount: true, disputeStatus: true },
+  });
+
+  return paymentSchedule(quote, payments);
+}
+
+/**
+ * Bring the quote's deposit/paid stamps in line with its payments after one
+ * succeeds, is refunded or is lost to a dispute
+ */
+export async function syncQuotePayments(quoteId: string | null | undefined, db: PaymentsDb = prisma) {
+  if (!quoteId) return null;
+
+  const quote = await db.quote.findUnique({
+    where: { id: quoteId },
+    select: { id: true, total: true, depositPercent: true, depositAmount: true, depositPaidAt: true, paidAt: true },
+  });
+
+  if (!quote) return null;
+
+  const schedule = await getQuotePaymentSchedule(quote, db);
+  const now = new Date();
+
+  await db.quote.update({
+    where: { id: quote.id },
+    data: {
+      depositPaidAt: schedule.depositPaid ? quote.depositPaidAt ?? now : null,
+      paidAt: schedule.next === null ? quote.paidAt ?? now : null,
+    },
+  });
+
+  return schedule;
+}
@@ -0,0 +1,523 @@
+import { prisma } from '../../lib/prisma';
+import { TRACKABLE_STATUSES } from './job-state-machine';
+import { recordJobEvent } from './job-timeline';
+import { calculateHaversineDistance } from './location';
+import { getVerificationState } from './mechanic-verification';
+import { zoneContains, type ServiceZone } from './service-zones';
+import { sendNotification } from './notifications';
+
+/**
+ * Dispatch Service
+ *
+ * Finds a mechanic for a new job. Eligible mechanics are active and
+ * verified, within their service radius of the job (or inside one of their
+ * drawn coverage areas, when they have any), available in one of
+ * their weekly windows at the job's time, skilled in the job's service
+ * types, carry every tool those services require and have room for
+ * another job. Candidates are ranked by distance, rating and workload and
+ * offered the job one at a time; each offer expires after
+ * OFFER_TIMEOUT_SECONDS. When MAX_OFFERS_PER_ROUND offers go unanswered,
+ * or nobody is eligible, the job is escalated to the admin queue.
+ *
+ * The websocket server delivers offers live and runs expireOffers() on a
+ * timer; offers also go out as push notifications.
+ */
+
+export const OFFER_TIMEOUT_SECONDS = 90;
+export const MAX_OFFERS_PER_ROUND = 3;
+export const MAX_ACTIVE_JOBS = 3;
+
+/**
+ * Rating assumed for mechanics without reviews, so new mechanics still get work
+ */
+const NEW_MECHANIC_RATING = 4;
+
+// Score weights; a perfect candidate scores 100
+const DISTANCE_WEIGHT = 50;
+const RATING_WEIGHT = 30;
+const WORKLOAD_WEIGHT = 20;
+
+const METERS_PER_MILE = 1609.344;
+
+// Indexed by Date.getDay()
+const DAYS_OF_WEEK = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+export interface AvailabilityWindow {
+  dayOfWeek: string;
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM"
+}
+
+export interface DispatchCandidate {
+  mechanicId: string;
+  name: string;
+  score: number;
+  distanceMiles: number;
+  activeJobs: number;
+  rating: number | null; // null until reviewed
+}
+
+export interface DispatchExclusion {
+  mechanicId: string;
+  name: string;
+  reason: string;
+}
+
+export interface DispatchRanking {
+  candidates: DispatchCandidate[]; // Best first
+  excluded: DispatchExclusion[];
+}
+
+/**
+ * A job that cannot be dispatched or an offer that can no longer be answered
+ */
+export class DispatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DispatchError';
+  }
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `at` (server local time) falls inside one of the weekly windows
+ */
+export function isWithinAvailability(windows: AvailabilityWindow[], at: Date): boolean {
+  const day = DAYS_OF_WEEK[at.getDay()];
+  const minute = at.getHours() * 60 + at.getMinutes();
+
+  return windows.some((window) =>
+    window.dayOfWeek === day &&
+    toMinutes(window.startTime) <= minute &&
+    minute < toMinutes(window.endTime)
+  );
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Eligible mechanics for a job, best first, and why the rest were left out
+ */
+export async function rankMechanics(jobId: string, now: Date = new Date()): Promise<DispatchRanking> {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      latitude: true,
+      longitude: true,
+      scheduledAt: true,
+      services: { select: { category: true, requiredTools: true } },
+    },
+  });
+
+  if (!job) {
+    throw new DispatchError('Job not found');
+  }
+
+  if (job.latitude == null || job.longitude == null) {
+    throw new DispatchError('The job has no location to dispatch from');
+  }
+
+  const at: Date = job.scheduledAt ?? now;
+  const categories = [...new Set(job.services.map((service) => service.category))];
+  const requiredTools = [...new Set(
+    job.services.flatMap((service) => service.requiredTools.map((tool) => tool.trim().toLowerCase()))
+  )];
+
+  const mechanics = await prisma.user.findMany({
+    where: { role: 'MECHANIC', status: 'ACTIVE' },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      mechanicProfile: {
+        select: {
+          skills: true,
+          latitude: true,
+          longitude: true,
+          serviceRadiusMiles: true,
+          averageRating: true,
+          totalReviews: true,
+        },
+      },
+      availability: {
+        where: { isActive: true },
+        select: { dayOfWeek: true, startTime: true, endTime: true },
+      },
+      tools: {
+        where: { isAvailable: true },
+        select: { name: true },
+      },
+      coverageZones: {
+        where: { isActive: true },
+      },
+      _count: {
+        select: { jobsAssigned: { where: { status: { in: TRACKABLE_STATUSES } } } },
+      },
+    },
+  });
+
+  const candidates: DispatchCandidate[] = [];
+  const excluded: DispatchExclusion[] = [];
+
+  for (const mechanic of mechanics) {
+    const name = `${mechanic.firstName} ${mechanic.lastName}`;
+    const exclude = (reason: string) => excluded.push({ mechanicId: mechanic.id, name, reason });
+    const profile = mechanic.mechanicProfile;
+
+    if (!profile || profile.latitude == null || profile.longitude == null) {
+      exclude('No location reported');
+      continue;
+    }
+
+    const distanceMiles = calculateHaversineDistance(
+      { latitude: profile.latitude, longitude: profile.longitude },
+      { latitude: job.latitude, longitude: job.longitude }
+    ) / METERS_PER_MILE;
+
+    // Drawn coverage areas replace the service radius
+    const coverageZones = mechanic.coverageZones as ServiceZone[];
+    const jobPoint = { latitude: job.latitude, longitude: job.longitude };
+
+    if (coverageZones.length > 0) {
+      if (!coverageZones.some((zone) => zoneContains(zone, jobPoint))) {
+        exclude('Outside their coverage areas');
+        continue;
+      }
+    } else if (distanceMiles > profile.serviceRadiusMiles) {
+      exclude(`${round(distanceMiles)} mi away, outside their ${profile.serviceRadiusMiles} mi radius`);
+      continue;
+    }
+
+    const missingSkills = categories.filter((category) => !profile.skills.includes(category));
+    if (missingSkills.length > 0) {
+      exclude(`Not skilled for ${missingSkills.join(', ').toLowerCase()}`);
+      continue;
+    }
+
+    const tools = new Set(mechanic.tools.map((tool) => tool.name.trim().toLowerCase()));
+    const missingTools = requiredTools.filter((tool) => !tools.has(tool));
+    if (missingTools.length > 0) {
+      exclude(`Missing tools: ${missingTools.join(', ')}`);
+      continue;
+    }
+
+    if (!isWithinAvailability(mechanic.availability, at)) {
+      exclude('Not available at the job time');
+      continue;
+    }
+
+    const activeJobs: number = mechanic._count.jobsAssigned;
+    if (activeJobs >= MAX_ACTIVE_JOBS) {
+      exclude(`Already on ${activeJobs} active jobs`);
+      continue;
+    }
+
+    const verification = await getVerificationState(mechanic.id, now);
+    if (!verification.verified) {
+      exclude(verification.expiredDocuments.length > 0 ? 'Verification documents expired' : 'Not verified');
+      continue;
+    }
+
+    const rating = profile.totalReviews > 0 ? profile.averageRating : null;
+    const score =
+      DISTANCE_WEIGHT * Math.max(0, 1 - distanceMiles / profile.serviceRadiusMiles) +
+      RATING_WEIGHT * ((rating ?? NEW_MECHANIC_RATING) / 5) +
+      WORKLOAD_WEIGHT * (1 - activeJobs / MAX_ACTIVE_JOBS);
+
+    candidates.push({
+      mechanicId: mechanic.id,
+      name,
+      score: round(score),
+      distanceMiles: round(distanceMiles),
+      activeJobs,
+      rating,
+    });
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.distanceMiles - b.distanceMiles);
+
+  return { candidates, excluded };
+}
+
+/**
+ * Hand the job to the admin queue
+ */
+async function escalate(jobId: string, reason: string) {
+  await prisma.job.update({
+    where: { id: jobId },
+    data: { dispatchStatus: 'ESCALATED' },
+  });
+
+  await recordJobEvent({
+    jobId,
+    kind: 'STATUS_CHANGE',
+    eventType: 'DISPATCH_ESCALATED',
+    description: `Sent to the admin queue: ${reason}`,
+  });
+
+  const admins = await prisma.user.findMany({
+    where: { role: 'ADMIN', status: 'ACTIVE' },
+    select: { id: true },
+  });
+
+  for (const admin of admins) {
+    await sendNotification({
+      userId: admin.id,
+      type: 'JOB_UPDATE',
+      title: 'Job Needs a Mechanic',
+      body: `Automatic dispatch stopped: ${reason}`,
+      data: { jobId },
+    });
+  }
+}
+
+/**
+ * Offer the job to the best mechanic not yet offered it, or escalate when
+ * the round is used up or nobody is left. Returns the new offer, or null.
+ */
+export async function offerNext(jobId: string, now: Date = new Date()) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      title: true,
+      mechanicId: true,
+      dispatchStatus: true,
+      dispatchStartedAt: true,
+      dispatchOffers: { select: { mechanicId: true, offeredAt: true } },
+    },
+  });
+
+  if (!job || job.mechanicId || job.dispatchStatus !== 'OFFERING') {
+    return null;
+  }
+
+  const offeredThisRound = job.dispatchOffers
+    .filter((offer) => job.dispatchStartedAt && offer.offeredAt >= job.dispatchStartedAt)
+    .length;
+
+  if (offeredThisRound >= MAX_OFFERS_PER_ROUND) {
+    await escalate(job.id, `no answer from ${offeredThisRound} mechanics`);
+    return null;
+  }
+
+  let ranking: DispatchRanking;
+  try {
+    ranking = await rankMechanics(job.id, now);
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      await escalate(job.id, error.message.toLowerCase());
+      return null;
+    }
+    throw error;
+  }
+
+  // Mechanics who already declined or let an offer lapse are not asked again
+  const alreadyOffered = new Set(job.dispatchOffers.map((offer) => offer.mechanicId));
+  const next = ranking.candidates.find((candidate) => !alreadyOffered.has(candidate.mechanicId));
+
+  if (!next) {
+    await escalate(job.id, offeredThisRound > 0 ? 'no other eligible mechanics' : 'no eligible mechanics');
+    return null;
+  }
+
+  const expiresAt = new Date(now.getTime() + OFFER_TIMEOUT_SECONDS * 1000);
+  const offer = await prisma.dispatchOffer.create({
+    data: {
+      jobId: job.id,
+      mechanicId: next.mechanicId,
+      rank: offeredThisRound + 1,
+      score: next.score,
+      distanceMiles: next.distanceMiles,
+      offeredAt: now,
+      expiresAt,
+    },
+  });
+
+  await sendNotification({
+    userId: next.mechanicId,
+    type: 'JOB_OFFER',
+    title: 'New Job Offer',
+    body: `${job.title} • ${next.distanceMiles} mi away. Accept within ${OFFER_TIMEOUT_SECONDS} seconds.`,
+    data: { jobId: job.id, offerId: offer.id, expiresAt: expiresAt.toISOString() },
+  });
+
+  return offer;
+}
+
+/**
+ * Start a round of offers for an unassigned job. Open offers from an
+ * earlier round are cancelled.
+ */
+export async function startDispatch(jobId: string, now: Date = new Date()) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { id: true, mechanicId: true, status: true },
+  });
+
+  if (!job) {
+    throw new DispatchError('Job not found');
+  }
+
+  if (job.mechanicId) {
+    throw new DispatchError('This job already has a mechanic');
+  }
+
+  if (job.status === 'COMPLETED' || job.status === 'CANCELLED') {
+    throw new DispatchError(`Cannot dispatch a ${job.status.toLowerCase()} job`);
+  }
+
+  await prisma.dispatchOffer.updateMany({
+    where: { jobId, status: 'PENDING' },
+    data: { status: 'CANCELLED', respondedAt: now },
+  });
+
+  await prisma.job.update({
+    where: { id: jobId },
+    data: { dispatchStatus: 'OFFERING', dispatchStartedAt: now },
+  });
+
+  return offerNext(jobId, now);
+}
+
+/**
+ * Accept or decline an offer. Accepting assigns the mechanic; declining
+ * moves on to the next candidate.
+ */
+export async function respondToOffer(input: {
+  offerId: string;
+  mechanicId: string;
+  accept: boolean;
+  now?: Date;
+}) {
+  const now = input.now ?? new Date();
+
+  const offer = await prisma.dispatchOffer.findUnique({
+    where: { id: input.offerId },
+    select: { id: true, jobId: true, mechanicId: true, status: true, expiresAt: true },
+  });
+
+  if (!offer || offer.mechanicId !== input.mechanicId) {
+    throw new DispatchError('Offer not found');
+  }
+
+  // Claim the offer only while it is still open, so a late answer cannot
+  // race the expiry timer
+  const claimed = await prisma.dispatchOffer.updateMany({
+    where: { id: offer.id, status: 'PENDING', expiresAt: { gt: now } },
+    data: { status: input.accept ? 'ACCEPTED' : 'DECLINED', respondedAt: now },
+  });
+
+  if (claimed.count === 0) {
+    throw new DispatchError(offer.status === 'PENDING' ? 'This offer has expired' : 'This offer is no longer open');
+  }
+
+  if (!input.accept) {
+    await offerNext(offer.jobId, now);
+    return { accepted: false, job: null };
+  }
+
+  const assigned = await prisma.job.updateMany({
+    where: { id: offer.jobId, mechanicId: null },
+    data: { mechanicId: input.mechanicId, dispatchStatus: 'ASSIGNED' },
+  });
+
+  if (assigned.count === 0) {
+    await prisma.dispatchOffer.update({
+      where: { id: offer.id },
+      data: { status: 'CANCELLED' },
+    });
+    throw new DispatchError('This job has already been assigned');
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: offer.jobId },
+    include: { mechanic: { select: { firstName: true, lastName: true } } },
+  });
+
+  if (!job) {
+    throw new DispatchError('Job not found');
+  }
+
+  await recordJobEvent({
+    jobId: offer.jobId,
+    kind: 'STATUS_CHANGE',
+    eventType: 'MECHANIC_ASSIGNED',
+    description: `Mechanic assigned: ${job.mechanic?.firstName} ${job.mechanic?.lastName}`,
+    actorId: input.mechanicId,
+    metadata: { mechanicId: input.mechanicId, offerId: offer.id },
+  });
+
+  await sendNotification({
+    userId: job.customerId,
+    type: 'MECHANIC_ASSIGNED',
+    title: 'Mechanic Assigned',
+    body: `${job.mechanic?.firstName} will be handling your job.`,
+    data: { jobId: offer.jobId },
+  });
+
+  return { accepted: true, job };
+}
+
+/**
+ * After an admin assigns a mechanic by hand, cancel the job's open offers
+ * and take it out of the admin queue
+ */
+export async function closeDispatch(jobId: string, now: Date = new Date()) {
+  await prisma.dispatchOffer.updateMany({
+    where: { jobId, status: 'PENDING' },
+    data: { status: 'CANCELLED', respondedAt: now },
+  });
+
+  await prisma.job.updateMany({
+    where: { id: jobId, dispatchStatus: { not: null } },
+    data: { dispatchStatus: 'ASSIGNED' },
+  });
+}
+
+/**
+ * Expire unanswered offers and move each job on to its next candidate.
+ * Returns the offers that expired.
+ */
+export async function expireOffers(now: Date = new Date()) {
+  const stale = await prisma.dispatchOffer.findMany({
+    where: { status: 'PENDING', expiresAt: { lte: now } },
+    select: { id: true, jobId: true, mechanicId: true },
+  });
+
+  const expired = [];
+  for (const offer of stale) {
+    const claimed = await prisma.dispatchOffer.updateMany({
+      where: { id: offer.id, status: 'PENDING' },
+      data: { status: 'EXPIRED' },
+    });
+    if (claimed.count === 0) continue;
+
+    expired.push(offer);
+    await offerNext(offer.jobId, now);
+  }
+
+  return expired;
+}
+
+/**
+ * Open offers made since `since` (all open offers when omitted), for delivery
+ */
+export async function listOpenOffers(filter: { mechanicId?: string; since?: Date } = {}) {
+  return prisma.dispatchOffer.findMany({
+    where: {
+      status: 'PENDING',
+      ...(filter.mechanicId && { mechanicId: filter.mechanicId }),
+      ...(filter.since && { offeredAt: { gt: filter.since } }),
+    },
+    include: {
+      job: { select: { id: true, title: true, description: true, scheduledAt: true, priority: true } },
+    },
+    orderBy: { offeredAt: 'asc' },
+  });
+}
@@ -0,0 +1,391 @@
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+
+/**
+ * Earnings Service
+ *
+ * Double-entry ledger of what the platform owes each mechanic. Every
+ * customer payment on a mechanic's job posts its revenue and the platform
+ * commission; refunds, lost disputes, tips, admin adjustments and payouts
+ * post further balanced transactions. A mechanic's payout balance is what
+ * MECHANIC_PAYABLE holds for them less the customer money they already
+ * collected in person (MECHANIC_HELD_CASH).
+ */
+
+/**
+ * Ledger accounts (mirrors the EarningsAccount Prisma enum)
+ */
+export type EarningsAccount = 'PLATFORM_CASH' | 'MECHANIC_HELD_CASH' | 'MECHANIC_PAYABLE' | 'PLATFORM_FEES';
+
+/**
+ * Why a transaction was posted (mirrors the EarningsTransactionType Prisma enum)
+ */
+export type EarningsTransactionType =
+  | 'JOB_REVENUE'
+  | 'PLATFORM_FEE'
+  | 'TIP'
+  | 'REFUND_CLAWBACK'
+  | 'ADJUSTMENT'
+  | 'PAYOUT';
+
+/**
+ * SystemSettings key holding the platform commission percent
+ */
+export const COMMISSION_SETTINGS_KEY = 'platformCommissionPercent';
+
+export const DEFAULT_COMMISSION_PERCENT = 15;
+
+/**
+ * Payment sources the mechanic collects themselves
+ */
+const IN_PERSON_SOURCES = ['CASH', 'CHECK', 'TAP_TO_PAY'];
+
+/**
+ * A ledger posting that cannot be made as given
+ */
+export class EarningsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EarningsError';
+  }
+}
+
+export interface LedgerLine {
+  account: EarningsAccount;
+  debit?: number;
+  credit?: number;
+}
+
+export interface PostTransactionInput {
+  mechanicId: string;
+  type: EarningsTransactionType;
+  description: string;
+  sourceKey?: string;
+  paymentId?: string | null;
+  refundId?: string | null;
+  payoutId?: string | null;
+  createdById?: string | null;
+  lines: LedgerLine[];
+}
+
+/**
+ * Prisma client or an interactive transaction
+ */
+export type EarningsDb = Pick<typeof prisma, 'earningsTransaction' | 'earningsEntry' | 'payment' | 'systemSettings'>;
+
+/**
+ * Commission percent saved from the admin settings, over the default
+ */
+export async function loadCommissionPercent(db: Pick<typeof prisma, 'systemSettings'> = prisma): Promise<number> {
+  const setting = await db.systemSettings.findUnique({
+    where: { key: COMMISSION_SETTINGS_KEY },
+    select: { value: true },
+  });
+
+  const value = Number(setting?.value);
+  return setting && Number.isFinite(value) && value >= 0 && value <= 100 ? value : DEFAULT_COMMISSION_PERCENT;
+}
+
+/**
+ * Post a balanced transaction. A transaction with a sourceKey is posted once;
+ * posting it again returns the existing one.
+ */
+export async function postTransaction(input: PostTransactionInput, db: EarningsDb = prisma) {
+  const lines = input.lines
+    .map((line) => ({
+      account: line.account,
+      debit: roundCurrency(line.debit ?? 0),
+      credit: roundCurrency(line.credit ?? 0),
+    }))
+    .filter((line) => line.debit !== 0 || line.credit !== 0);
+
+  const debits = roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0));
+  const credits = roundCurrency(lines.reduce((sum, line) => sum + line.credit, 0));
+
+  if (lines.some((line) => line.debit < 0 || line.credit < 0)) {
+    throw new EarningsError('Ledger lines cannot be negative');
+  }
+
+  if (debits !== credits) {
+    throw new EarningsError(`Unbalanced transaction: debits $${debits.toFixed(2)} ≠ credits $${credits.toFixed(2)}`);
+  }
+
+  if (input.sourceKey) {
+    const existing = await db.earningsTransaction.findUnique({ where: { sourceKey: input.sourceKey } });
+    if (existing) return existing;
+  }
+
+  if (debits === 0) {
+    return null;
+  }
+
+  try {
+    return await db.earningsTransaction.create({
+      data: {
+        mechanicId: input.mechanicId,
+        type: input.type,
+        description: input.description,
+        sourceKey: input.sourceKey ?? null,
+        paymentId: input.paymentId ?? null,
+        refundId: input.refundId ?? null,
+        payoutId: input.payoutId ?? null,
+        createdById: input.createdById ?? null,
+        entries: { create: lines },
+      },
+    });
+  } catch (error) {
+    // Lost a race to post the same source
+    if (input.sourceKey && (error as { code?: string }).code === 'P2002') {
+      return db.earningsTransaction.findUnique({ where: { sourceKey: input.sourceKey } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Post a succeeded payment's revenue and the platform commission on it;
+ * tips carry no commission. Safe to call more than once for the same payment.
+ */
+export async function postPaymentEarnings(paymentId: string, db: EarningsDb = prisma) {
+  const payment = await db.payment.findUnique({
+    where: { id: paymentId },
+    select: { id: true, kind: true, amount: true, source: true, job: { select: { mechanicId: true, title: true } } },
+  });
+
+  const mechanicId = payment?.job?.mechanicId;
+  if (!payment || !mechanicId) {
+    return null;
+  }
+
+  // Money collected in person is already in the mechanic's hands
+  const received: EarningsAccount = IN_PERSON_SOURCES.includes(payment.source) ? 'MECHANIC_HELD_CASH' : 'PLATFORM_CASH';
+  const jobTitle = payment.job.title ?? 'job';
+
+  // Tips go to the mechanic in full
+  if (payment.kind === 'TIP') {
+    const tip = await postTransaction({
+      mechanicId,
+      type: 'TIP',
+      description: `Tip on ${jobTitle}`,
+      sourceKey: `payment:${payment.id}:tip`,
+      paymentId: payment.id,
+      lines: [
+        { account: received, debit: payment.amount },
+        { account: 'MECHANIC_PAYABLE', credit: payment.amount },
+      ],
+    }, db);
+
+    return { revenue: tip, commission: null };
+  }
+
+  const revenue = await postTransaction({
+    mechanicId,
+    type: 'JOB_REVENUE',
+    description: `Payment for ${jobTitle}`,
+    sourceKey: `payment:${payment.id}:revenue`,
+    paymentId: payment.id,
+    lines: [
+      { account: received, debit: payment.amount },
+      { account: 'MECHANIC_PAYABLE', credit: payment.amount },
+    ],
+  }, db);
+
+  const percent = await loadCommissionPercent(db);
+  const fee = roundCurrency(payment.amount * percent / 100);
+
+  const commission = await postTransaction({
+    mechanicId,
+    type: 'PLATFORM_FEE',
+    description: `${percent}% platform fee on ${jobTitle}`,
+    sourceKey: `payment:${payment.id}:fee`,
+    paymentId: payment.id,
+    lines: [
+      { account: 'MECHANIC_PAYABLE', debit: fee },
+      { account: 'PLATFORM_FEES', credit: fee },
+    ],
+  }, db);
+
+  return { revenue, commission };
+}
+
+/**
+ * Revenue (or tip) and commission already posted for a payment
+ */
+async function postedForPayment(paymentId: string, db: EarningsDb) {
+  const transactions: { mechanicId: string; type: EarningsTransactionType; entries: LedgerLine[] }[] =
+    await db.earningsTransaction.findMany({
+      where: { paymentId, type: { in: ['JOB_REVENUE', 'TIP', 'PLATFORM_FEE'] } },
+      select: { mechanicId: true, type: true, entries: { select: { account: true, debit: true, credit: true } } },
+    });
+
+  const creditTo = (type: EarningsTransactionType, account: EarningsAccount) =>
+    transactions
+      .filter((t) => t.type === type)
+      .flatMap((t) => t.entries)
+      .filter((line) => line.account === account)
+      .reduce((sum, line) => sum + (line.credit ?? 0), 0);
+
+  const revenueTx = transactions.find((t) => t.type === 'JOB_REVENUE' || t.type === 'TIP');
+  const received = revenueTx?.entries.find((line) => (line.debit ?? 0) > 0)?.account ?? 'PLATFORM_CASH';
+
+  return {
+    mechanicId: revenueTx?.mechanicId ?? null,
+    received,
+    revenue: roundCurrency(creditTo('JOB_REVENUE', 'MECHANIC_PAYABLE') + creditTo('TIP', 'MECHANIC_PAYABLE')),
+    fee: roundCurrency(creditTo('PLATFORM_FEE', 'PLATFORM_FEES')),
+  };
+}
+
+/**
+ * Take a refunded (or lost-dispute) amount back from the mechanic. The
+ * platform returns its commission on that amount at the rate it charged.
+ */
+export async function postRefundClawback(input: {
+  paymentId: string;
+  amount: number;
+  sourceKey: string;
+  description: string;
+  refundId?: string | null;
+}, db: EarningsDb = prisma) {
+  const posted = await postedForPayment(input.paymentId, db);
+
+  // Payments from before the ledger have nothing to claw back
+  if (!posted.mechanicId || posted.revenue <= 0) {
+    return null;
+  }
+
+  const amount = Math.min(roundCurrency(input.amount), posted.revenue);
+  const feeShare = roundCurrency(amount * posted.fee / posted.revenue);
+
+  return postTransaction({
+    mechanicId: posted.mechanicId,
+    type: 'REFUND_CLAWBACK',
+    description: input.description,
+    sourceKey: input.sourceKey,
+    paymentId: input.paymentId,
+    refundId: input.refundId,
+    lines: [
+      { account: 'MECHANIC_PAYABLE', debit: roundCurrency(amount - feeShare) },
+      { account: 'PLATFORM_FEES', debit: feeShare },
+      { account: 'PLATFORM_CASH', credit: amount },
+    ],
+  }, db);
+}
+
+/**
+ * Undo a payment's revenue and commission, e.g. when an admin rejects an
+ * offline payment that never reached the bank
+ */
+export async function reversePaymentEarnings(paymentId: string, description: string, db: EarningsDb = prisma) {
+  const posted = await postedForPayment(paymentId, db);
+
+  if (!posted.mechanicId || posted.revenue <= 0) {
+    return null;
+  }
+
+  return postTransaction({
+    mechanicId: posted.mechanicId,
+    type: 'ADJUSTMENT',
+    description,
+    sourceKey: `payment:${paymentId}:reversal`,
+    paymentId,
+    lines: [
+      { account: 'MECHANIC_PAYABLE', debit: roundCurrency(posted.revenue - posted.fee) },
+      { account: 'PLATFORM_FEES', debit: posted.fee },
+      { account: posted.received, credit: posted.revenue },
+    ],
+  }, db);
+}
+
+/**
+ * Admin correction to a mechanic's balance; positive amounts are owed to
+ * the mechanic and come out of platform fees
+ */
+export async function postAdjustment(input: {
+  mechanicId: string;
+  amount: number;
+  description: string;
+  createdById: string;
+}, db: EarningsDb = prisma) {
+  const amount = roundCurrency(input.amount);
+  if (amount === 0) {
+    throw new EarningsError('Adjustment amount cannot be zero');
+  }
+
+  const lines: LedgerLine[] = amount > 0
+    ? [{ account: 'PLATFORM_FEES', debit: amount }, { account: 'MECHANIC_PAYABLE', credit: amount }]
+    : [{ account: 'MECHANIC_PAYABLE', debit: -amount }, { account: 'PLATFORM_FEES', credit: -amount }];
+
+  return postTransaction({
+    mechanicId: input.mechanicId,
+    type: 'ADJUSTMENT',
+    description: input.description,
+    createdById: input.createdById,
+    lines,
+  }, db);
+}
+
+export interface EarningsBalance {
+  payable: number;   // Owed to the mechanic on MECHANIC_PAYABLE
+  heldCash: number;  // Customer money the mechanic collected and has not settled
+  available: number; // payable - heldCash; negative when the mechanic owes the platform
+}
+
+/**
+ * A mechanic's balance, optionally as of a cut-off time
+ */
+export async function getEarningsBalance(
+  mechanicId: string,
+  asOf?: Date,
+  db: Pick<typeof prisma, 'earningsEntry'> = prisma
+): Promise<EarningsBalance> {
+  const sums = await db.earningsEntry.groupBy({
+    by: ['account'],
+    where: {
+      account: { in: ['MECHANIC_PAYABLE', 'MECHANIC_HELD_CASH'] },
+      transaction: { mechanicId, ...(asOf ? { createdAt: { lte: asOf } } : {}) },
+    },
+    _sum: { debit: true, credit: true },
+  });
+
+  const net = (account: EarningsAccount) => {
+    const row = sums.find((sum) => sum.account === account);
+    return (row?._sum.credit ?? 0) - (row?._sum.debit ?? 0);
+  };
+
+  const payable = roundCurrency(net('MECHANIC_PAYABLE'));
+  const heldCash = roundCurrency(-net('MECHANIC_HELD_CASH'));
+
+  return { payable, heldCash, available: roundCurrency(payable - heldCash) };
+}
+
+/**
+ * Job revenue net of clawbacks for payments made in a date range, computed
+ * from the ledger. Covers the same payments as getMechanicAnalytics' total
+ * revenue (tips excluded) so the two can be compared.
+ */
+export async function ledgerRevenue(mechanicId: string, from: Date, to: Date): Promise<number> {
+  const entries: { debit: number; credit: number; transaction: { type: EarningsTransactionType } }[] =
+    await prisma.earningsEntry.findMany({
+      where: {
+        OR: [
+          { account: 'MECHANIC_PAYABLE', transaction: { type: 'JOB_REVENUE' } },
+          { account: 'PLATFORM_CASH', transaction: { type: 'REFUND_CLAWBACK' } },
+        ],
+        transaction: {
+          mechanicId,
+          payment: {
+            kind: { not: 'TIP' },
+            status: { in: ['SUCCEEDED', 'PARTIALLY_REFUNDED'] },
+            createdAt: { gte: from, lte: to },
+          },
+        },
+      },
+      select: { debit: true, credit: true, transaction: { select: { type: true } } },
+    });
+
+  return roundCurrency(entries.reduce(
+    (sum, entry) => sum + (entry.transaction.type === 'JOB_REVENUE' ? entry.credit : -entry.credit),
+    0
+  ));
+}
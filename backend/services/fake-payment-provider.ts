@@ -0,0 +1,477 @@
+import Stripe from 'stripe';
+import {
+  PaymentProviderError,
+  WebhookSignatureError,
+  type PaymentProvider,
+  type ProviderPaymentIntent,
+  type ProviderRefund,
+  type ProviderSetupIntent,
+} from './payment-provider';
+
+/**
+ * Fake Payment Provider
+ *
+ * Deterministic in-memory PaymentProvider for tests and offline development.
+ * Ids are sequential and no network is used. Stripe's test payment method
+ * ids script the outcome of a confirmation:
+ *
+ *   pm_card_visa (or any other id)           succeeds
+ *   pm_card_chargeDeclined                   declined (card_declined)
+ *   pm_card_chargeDeclinedInsufficientFunds  declined (insufficient_funds)
+ *   pm_card_threeDSecure2Required            requires_action until authenticate()
+ *
+ * Webhook events are signed with FAKE_WEBHOOK_SECRET and held until
+ * flushWebhooks() so tests decide when (and how often) they arrive.
+ */
+
+export const FAKE_WEBHOOK_SECRET = 'whsec_fake_provider';
+
+export const FAKE_PAYMENT_METHODS = {
+  success: 'pm_card_visa',
+  declined: 'pm_card_chargeDeclined',
+  insufficientFunds: 'pm_card_chargeDeclinedInsufficientFunds',
+  threeDSecure: 'pm_card_threeDSecure2Required',
+} as const;
+
+const DECLINES: Record<string, { declineCode: string; message: string }> = {
+  [FAKE_PAYMENT_METHODS.declined]: {
+    declineCode: 'generic_decline',
+    message: 'Your card was declined.',
+  },
+  [FAKE_PAYMENT_METHODS.insufficientFunds]: {
+    declineCode: 'insufficient_funds',
+    message: 'Your card has insufficient funds.',
+  },
+};
+
+/**
+ * A signed webhook delivery, as Stripe would POST it
+ */
+export interface FakeWebhookDelivery {
+  payload: string;
+  signature: string;
+}
+
+interface FakeIntent extends ProviderPaymentIntent {
+  captureMethod: 'automatic' | 'manual';
+  amountRefunded: number;
+  refunds: ProviderRefund[];
+  chargeId: string | null;
+  lastError: { code: string; decline_code: string; message: string } | null;
+  cancellationReason: string | null;
+}
+
+export interface FakePaymentProvider extends PaymentProvider {
+  readonly name: 'fake';
+  /** Finish (or fail) 3D Secure on an intent waiting in requires_action */
+  authenticate(paymentIntentId: string, options?: { approve?: boolean }): Promise<ProviderPaymentIntent>;
+  /** Save a card on a setup intent, as the customer's card form would */
+  completeSetup(setupIntentId: string, paymentMethodId?: string): Promise<ProviderSetupIntent>;
+  /** Open a dispute on a captured payment; closeDispute() settles it */
+  openDispute(paymentIntentId: string, reason?: string): void;
+  closeDispute(paymentIntentId: string, outcome: 'won' | 'lost'): void;
+  /** Events emitted so far that have not been delivered */
+  pendingWebhooks(): FakeWebhookDelivery[];
+  /** Deliver queued events in order and clear the queue */
+  flushWebhooks(deliver: (payload: string, signature: string) => Promise<unknown>): Promise<number>;
+  /** Forget all intents, customers and queued events */
+  reset(): void;
+}
+
+export function createFakePaymentProvider(): FakePaymentProvider {
+  let sequence = 0;
+  let intents = new Map<string, FakeIntent>();
+  let customers = new Map<string, { id: string; email: string; name: string; methods: string[] }>();
+  let disputes = new Map<string, { id: string; reason: string; status: string }>();
+  let setupIntents = new Map<string, ProviderSetupIntent & { customerId: string }>();
+  let queue: FakeWebhookDelivery[] = [];
+
+  const nextId = (prefix: string) => `${prefix}_fake_${++sequence}`;
+
+  function getIntent(paymentIntentId: string): FakeIntent {
+    const intent = intents.get(paymentIntentId);
+    if (!intent) {
+      throw new PaymentProviderError('resource_missing', `No such payment_intent: '${paymentIntentId}'`);
+    }
+    return intent;
+  }
+
+  function view(intent: FakeIntent): ProviderPaymentIntent {
+    return {
+      id: intent.id,
+      clientSecret: intent.clientSecret,
+      amount: intent.amount,
+      amountCaptured: intent.amountCaptured,
+      currency: intent.currency,
+      status: intent.status,
+      paymentMethod: intent.paymentMethod,
+      metadata: { ...intent.metadata },
+      nextActionUrl: intent.nextActionUrl,
+    };
+  }
+
+  function emit(type: string, object: Record<string, unknown>) {
+    const payload = JSON.stringify({
+      id: nextId('evt'),
+      object: 'event',
+      api_version: '2025-10-29.clover',
+      created: Math.floor(Date.now() / 1000),
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      type,
+      data: { object },
+    }, null, 2);
+
+    queue.push({
+      payload,
+      signature: Stripe.webhooks.generateTestHeaderString({ payload, secret: FAKE_WEBHOOK_SECRET }),
+    });
+  }
+
+  function intentObject(intent: FakeIntent) {
+    return {
+      id: intent.id,
+      object: 'payment_intent',
+      amount: intent.amount,
+      amount_received: intent.amountCaptured ?? 0,
+      currency: intent.currency,
+      status: intent.status,
+      payment_method: intent.paymentMethod,
+      payment_method_types: ['card'],
+      last_payment_error: intent.lastError,
+      cancellation_reason: intent.cancellationReason,
+      metadata: intent.metadata,
+    };
+  }
+
+  function chargeObject(intent: FakeIntent) {
+    return {
+      id: intent.chargeId,
+      object: 'charge',
+      amount: intent.amountCaptured ?? intent.amount,
+      amount_refunded: intent.amountRefunded,
+      currency: intent.currency,
+      payment_intent: intent.id,
+      refunded: intent.amountRefunded >= (intent.amountCaptured ?? intent.amount),
+      refunds: {
+        object: 'list',
+        data: intent.refunds.map((refund) => ({
+          id: refund.id,
+          object: 'refund',
+          amount: refund.amount,
+          payment_intent: intent.id,
+          status: refund.status,
+        })),
+      },
+      status: 'succeeded',
+    };
+  }
+
+  function disputeObject(intent: FakeIntent) {
+    const dispute = disputes.get(intent.id)!;
+    return {
+      id: dispute.id,
+      object: 'dispute',
+      amount: intent.amountCaptured ?? intent.amount,
+      currency: intent.currency,
+      charge: intent.chargeId,
+      payment_intent: intent.id,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidence_details: {
+        due_by: Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60,
+        has_evidence: false,
+        past_due: false,
+        submission_count: 0,
+      },
+    };
+  }
+
+  function succeed(intent: FakeIntent) {
+    intent.lastError = null;
+    intent.nextActionUrl = null;
+    intent.chargeId = intent.chargeId ?? nextId('ch');
+
+    if (intent.captureMethod === 'manual') {
+      intent.status = 'requires_capture';
+      emit('payment_intent.amount_capturable_updated', intentObject(intent));
+      return;
+    }
+
+    intent.status = 'succeeded';
+    intent.amountCaptured = intent.amount;
+    emit('payment_intent.succeeded', intentObject(intent));
+  }
+
+  function attempt(intent: FakeIntent, paymentMethodId: string) {
+    intent.paymentMethod = paymentMethodId;
+
+    const decline = DECLINES[paymentMethodId];
+    if (decline) {
+      intent.status = 'requires_payment_method';
+      intent.lastError = { code: 'card_declined', decline_code: decline.declineCode, message: decline.message };
+      emit('payment_intent.payment_failed', intentObject(intent));
+      throw new PaymentProviderError('card_declined', decline.message, decline.declineCode);
+    }
+
+    if (paymentMethodId === FAKE_PAYMENT_METHODS.threeDSecure) {
+      intent.status = 'requires_action';
+      intent.nextActionUrl = `https://fake-payments.local/3ds/${intent.id}`;
+      emit('payment_intent.requires_action', intentObject(intent));
+      return;
+    }
+
+    succeed(intent);
+  }
+
+  return {
+    name: 'fake',
+
+    async createCustomer({ email, name }) {
+      const customer = { id: nextId('cus'), email, name, methods: [FAKE_PAYMENT_METHODS.success] };
+      customers.set(customer.id, customer);
+      return { id: customer.id, email, name };
+    },
+
+    async createIntent(input) {
+      if (!Number.isInteger(input.amount) || input.amount < 50) {
+        throw new PaymentProviderError('amount_too_small', 'Amount must be at least 50 cents');
+      }
+
+      const id = nextId('pi');
+      const intent: FakeIntent = {
+        id,
+        clientSecret: `${id}_secret_fake`,
+        amount: input.amount,
+        currency: input.currency ?? 'usd',
+        status: input.paymentMethodId ? 'requires_confirmation' : 'requires_payment_method',
+        paymentMethod: input.paymentMethodId ?? null,
+        metadata: { ...input.metadata },
+        nextActionUrl: null,
+        captureMethod: input.captureMethod ?? 'automatic',
+        amountRefunded: 0,
+        refunds: [],
+        chargeId: null,
+        lastError: null,
+        cancellationReason: null,
+      };
+      intents.set(id, intent);
+
+      if (input.confirm && input.paymentMethodId) {
+        attempt(intent, input.paymentMethodId);
+      }
+
+      return view(intent);
+    },
+
+    async retrieveIntent(paymentIntentId) {
+      return view(getIntent(paymentIntentId));
+    },
+
+    async confirmIntent(paymentIntentId, paymentMethodId) {
+      const intent = getIntent(paymentIntentId);
+      const method = paymentMethodId ?? intent.paymentMethod;
+
+      if (intent.status === 'succeeded' || intent.status === 'canceled') {
+        throw new PaymentProviderError(
+          'payment_intent_unexpected_state',
+          `This PaymentIntent's status is ${intent.status} and cannot be confirmed`
+        );
+      }
+
+      if (!method) {
+        throw new PaymentProviderError('payment_intent_unexpected_state', 'A payment method is required');
+      }
+
+      attempt(intent, method);
+      return view(intent);
+    },
+
+    async authenticate(paymentIntentId, { approve = true } = {}) {
+      const intent = getIntent(paymentIntentId);
+
+      if (intent.status !== 'requires_action') {
+        throw new PaymentProviderError('payment_intent_unexpected_state', 'No authentication is pending');
+      }
+
+      if (approve) {
+        succeed(intent);
+      } else {
+        intent.status = 'requires_payment_method';
+        intent.nextActionUrl = null;
+        intent.lastError = {
+          code: 'payment_intent_authentication_failure',
+          decline_code: 'authentication_required',
+          message: 'The customer did not complete authentication.',
+        };
+        emit('payment_intent.payment_failed', intentObject(intent));
+      }
+
+      return view(intent);
+    },
+
+    async captureIntent(paymentIntentId, amount) {
+      const intent = getIntent(paymentIntentId);
+
+      if (intent.status !== 'requires_capture') {
+        throw new PaymentProviderError(
+          'payment_intent_unexpected_state',
+          `This PaymentIntent's status is ${intent.status} and cannot be captured`
+        );
+      }
+
+      intent.status = 'succeeded';
+      intent.amountCaptured = Math.min(amount ?? intent.amount, intent.amount);
+      emit('payment_intent.succeeded', intentObject(intent));
+      return view(intent);
+    },
+
+    async cancelIntent(paymentIntentId) {
+      const intent = getIntent(paymentIntentId);
+
+      if (intent.status === 'succeeded' || intent.status === 'canceled') {
+        throw new PaymentProviderError(
+          'payment_intent_unexpected_state',
+          `This PaymentIntent's status is ${intent.status} and cannot be canceled`
+        );
+      }
+
+      intent.status = 'canceled';
+      intent.cancellationReason = 'requested_by_customer';
+      emit('payment_intent.canceled', intentObject(intent));
+      return view(intent);
+    },
+
+    async refund({ paymentIntentId, amount }) {
+      const intent = getIntent(paymentIntentId);
+      const captured = intent.amountCaptured ?? 0;
+
+      if (intent.status !== 'succeeded') {
+        throw new PaymentProviderError('charge_not_refundable', 'Only captured payments can be refunded');
+      }
+
+      const refundAmount = amount ?? captured - intent.amountRefunded;
+      if (refundAmount <= 0 || intent.amountRefunded + refundAmount > captured) {
+        throw new PaymentProviderError(
+          'charge_already_refunded',
+          'Refund amount is greater than the unrefunded amount on the charge'
+        );
+      }
+
+      const refund: ProviderRefund = {
+        id: nextId('re'),
+        paymentIntentId,
+        amount: refundAmount,
+        status: 'succeeded',
+      };
+
+      intent.amountRefunded += refundAmount;
+      intent.refunds.push(refund);
+      emit('charge.refunded', chargeObject(intent));
+
+      return refund;
+    },
+
+    async createSetupIntent(customerId) {
+      if (!customers.has(customerId)) {
+        throw new PaymentProviderError('resource_missing', `No such customer: '${customerId}'`);
+      }
+
+      const id = nextId('seti');
+      const intent = { id, clientSecret: `${id}_secret_fake`, status: 'requires_payment_method' as const, paymentMethod: null, customerId };
+      setupIntents.set(id, intent);
+
+      const { customerId: _customerId, ...view } = intent;
+      return view;
+    },
+
+    async completeSetup(setupIntentId, paymentMethodId) {
+      const intent = setupIntents.get(setupIntentId);
+      if (!intent) {
+        throw new PaymentProviderError('resource_missing', `No such setup_intent: '${setupIntentId}'`);
+      }
+
+      const method = paymentMethodId ?? nextId('pm');
+      customers.get(intent.customerId)!.methods.push(method);
+      intent.status = 'succeeded';
+      intent.paymentMethod = method;
+
+      const { customerId: _customerId, ...view } = intent;
+      return view;
+    },
+
+    async listPaymentMethods(customerId) {
+      const customer = customers.get(customerId);
+      return (customer?.methods ?? []).map((id) => ({
+        id,
+        type: 'card',
+        card: { brand: 'visa', last4: '4242', expMonth: 12, expYear: 2034 },
+      }));
+    },
+
+    async detachPaymentMethod(paymentMethodId) {
+      const customer = [...customers.values()].find((c) => c.methods.includes(paymentMethodId));
+      if (!customer) {
+        throw new PaymentProviderError('resource_missing', `No such PaymentMethod: '${paymentMethodId}'`);
+      }
+
+      customer.methods = customer.methods.filter((id) => id !== paymentMethodId);
+    },
+
+    openDispute(paymentIntentId, reason = 'fraudulent') {
+      const intent = getIntent(paymentIntentId);
+      disputes.set(paymentIntentId, { id: nextId('dp'), reason, status: 'needs_response' });
+      emit('charge.dispute.created', disputeObject(intent));
+    },
+
+    closeDispute(paymentIntentId, outcome) {
+      const intent = getIntent(paymentIntentId);
+      const dispute = disputes.get(paymentIntentId);
+      if (!dispute) {
+        throw new PaymentProviderError('resource_missing', `No dispute on payment_intent: '${paymentIntentId}'`);
+      }
+
+      dispute.status = outcome;
+      emit('charge.dispute.closed', disputeObject(intent));
+    },
+
+    verifyWebhook(payload, signature) {
+      if (!signature) {
+        throw new WebhookSignatureError('Missing Stripe signature');
+      }
+
+      try {
+        return Stripe.webhooks.constructEvent(payload, signature, FAKE_WEBHOOK_SECRET);
+      } catch (error) {
+        throw new WebhookSignatureError(
+          error instanceof Error ? error.message : 'Webhook signature verification failed'
+        );
+      }
+    },
+
+    pendingWebhooks() {
+      return [...queue];
+    },
+
+    async flushWebhooks(deliver) {
+      const deliveries = queue;
+      queue = [];
+
+      for (const { payload, signature } of deliveries) {
+        await deliver(payload, signature);
+      }
+
+      return deliveries.length;
+    },
+
+    reset() {
+      sequence = 0;
+      intents = new Map();
+      customers = new Map();
+      disputes = new Map();
+      setupIntents = new Map();
+      queue = [];
+    },
+  };
+}
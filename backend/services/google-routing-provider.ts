@@ -0,0 +1,46 @@
+import { Client, TravelMode } from '@googlemaps/google-maps-services-js';
+import { RoutingProviderError, type RoutingProvider } from './routing-provider';
+
+/**
+ * Google Routing Provider
+ *
+ * Road distance and traffic-free duration from the Google Distance Matrix API.
+ */
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+export function createGoogleRoutingProvider(config: { apiKey: string; client?: Client }): RoutingProvider {
+  const client = config.client ?? new Client({});
+
+  return {
+    name: 'google',
+    async route(origin, destination) {
+      if (!config.apiKey) {
+        throw new RoutingProviderError('google', 'Google Maps API key not configured');
+      }
+
+      const response = await client.distancematrix({
+        params: {
+          origins: [`${origin.latitude},${origin.longitude}`],
+          destinations: [`${destination.latitude},${destination.longitude}`],
+          mode: TravelMode.driving,
+          key: config.apiKey,
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+
+      const element = response.data.rows[0]?.elements[0];
+
+      if (!element || element.status !== 'OK') {
+        throw new RoutingProviderError('google', `No route found (${element?.status ?? 'empty response'})`);
+      }
+
+      return {
+        distanceMeters: element.distance.value,
+        durationSeconds: element.duration.value,
+        durationText: element.duration.text,
+        provider: 'google',
+      };
+    },
+  };
+}
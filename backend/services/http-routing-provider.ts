@@ -0,0 +1,91 @@
+import { RoutingProviderError, type RoutePoint, type RoutingProvider } from './routing-provider';
+
+/**
+ * HTTP Routing Provider
+ *
+ * Self-hosted routing engines over their HTTP APIs:
+ *
+ *   osrm      GET  {baseUrl}/route/v1/driving/{lon},{lat};{lon},{lat}?overview=false
+ *             → routes[0].distance (m), routes[0].duration (s)
+ *   valhalla  POST {baseUrl}/route { locations, costing: 'auto' }
+ *             → trip.summary.length (km), trip.summary.time (s)
+ *
+ * Any server speaking either API works, e.g. a routing proxy or a stub.
+ */
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface HttpRoutingConfig {
+  flavor: 'osrm' | 'valhalla';
+  baseUrl: string;
+  timeoutMs?: number;
+}
+
+async function readJson(response: Response, flavor: HttpRoutingConfig['flavor']) {
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const detail = body?.message ?? body?.error ?? `HTTP ${response.status}`;
+    throw new RoutingProviderError(flavor, `Routing request failed: ${detail}`);
+  }
+
+  return body;
+}
+
+async function routeOsrm(config: HttpRoutingConfig, baseUrl: string, origin: RoutePoint, destination: RoutePoint) {
+  const coordinates = `${origin.longitude},${origin.latitude};${destination.longitude},${destination.latitude}`;
+  const response = await fetch(`${baseUrl}/route/v1/driving/${coordinates}?overview=false`, {
+    signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  });
+  const body = await readJson(response, 'osrm');
+
+  const route = body?.routes?.[0];
+  if (body?.code !== 'Ok' || !route) {
+    throw new RoutingProviderError('osrm', `No route found (${body?.code ?? 'empty response'})`);
+  }
+
+  return { distanceMeters: route.distance, durationSeconds: Math.round(route.duration) };
+}
+
+async function routeValhalla(config: HttpRoutingConfig, baseUrl: string, origin: RoutePoint, destination: RoutePoint) {
+  const response = await fetch(`${baseUrl}/route`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      locations: [
+        { lat: origin.latitude, lon: origin.longitude },
+        { lat: destination.latitude, lon: destination.longitude },
+      ],
+      costing: 'auto',
+      units: 'kilometers',
+    }),
+    signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  });
+  const body = await readJson(response, 'valhalla');
+
+  const summary = body?.trip?.summary;
+  if (!summary) {
+    throw new RoutingProviderError('valhalla', 'No route found (missing trip summary)');
+  }
+
+  return { distanceMeters: Math.round(summary.length * 1000), durationSeconds: Math.round(summary.time) };
+}
+
+export function createHttpRoutingProvider(config: HttpRoutingConfig): RoutingProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: config.flavor,
+    async route(origin, destination) {
+      if (!baseUrl) {
+        throw new RoutingProviderError(config.flavor, 'ROUTING_SERVICE_URL not configured');
+      }
+
+      const result = config.flavor === 'osrm'
+        ? await routeOsrm(config, baseUrl, origin, destination)
+        : await routeValhalla(config, baseUrl, origin, destination);
+
+      return { ...result, provider: config.flavor };
+    },
+  };
+}
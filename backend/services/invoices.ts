@@ -0,0 +1,621 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+import type { QuoteLineItemType } from '../../types/service';
+
+/**
+ * Invoices Service
+ *
+ * Builds the invoice for a payment from its job, quote line items, photos and
+ * sign-off signature, and renders it as a PDF. `payments.generateInvoice`
+ * returns the data; `payments.getInvoicePdf` stores the PDF via storage.ts.
+ *
+ * Fleet organizations are invoiced once a month instead: the consolidated
+ * invoice lists every organization job completed in the month with its PO
+ * number and is due on the organization's net terms.
+ */
+
+export interface InvoiceLine {
+  type: QuoteLineItemType;
+  description: string;
+  partNumber?: string | null;
+  quantity: number;
+  unitPrice: number;
+  total: number; // Negative for discounts
+}
+
+export interface InvoicePhoto {
+  type: 'BEFORE' | 'AFTER';
+  url: string;
+  description?: string | null;
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  date: Date;
+  dueDate: Date;
+  status: string;
+  customer: { name: string; email: string; phone?: string | null };
+  mechanic: { name: string; email: string; phone?: string | null; businessLicense?: string | null } | null;
+  job: { title: string; location: string; completedAt?: Date | null };
+  lineItems: InvoiceLine[];
+  taxLines: { description: string; total: number }[];
+  taxExempt: boolean;
+  subtotal: number;
+  discount: number;
+  partsTax: number;
+  laborTax: number;
+  tax: number;
+  total: number;
+  amountPaid: number; // This payment
+  totalPaid: number; // All completed payments on the job, deposit included
+  tip: number; // Paid on top of the total; not part of the balance
+  balanceDue: number;
+  paymentMethod?: string | null;
+  paidDate: Date | null;
+  signature: { signerName?: string | null; signedAt: Date; imageData?: string | null } | null;
+  photos: InvoicePhoto[];
+}
+
+/**
+ * The quote a job is billed on: the one the customer accepted
+ */
+const ACCEPTED_QUOTE = {
+  where: { status: 'ACCEPTED' },
+  orderBy: { updatedAt: 'desc' },
+  take: 1,
+} as const;
+
+/**
+ * What the payment has to be loaded with for buildInvoice
+ */
+export const INVOICE_PAYMENT_INCLUDE = {
+  job: {
+    include: {
+      customer: true,
+      mechanic: {
+        include: { mechanicProfile: { select: { businessLicense: true } } },
+      },
+      quotes: {
+        ...ACCEPTED_QUOTE,
+        include: {
+          lineItems: {
+            orderBy: { position: 'asc' },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+export type InvoicePayment = Prisma.PaymentGetPayload<{ include: typeof INVOICE_PAYMENT_INCLUDE }>;
+
+export function invoiceNumber(paymentId: string): string {
+  return `INV-${paymentId.substring(0, 8).toUpperCase()}`;
+}
+
+export interface ConsolidatedInvoiceLine {
+  jobId: string;
+  title: string;
+  poNumber: string | null;
+  vehicle: string | null;
+  requestedBy: string;
+  completedAt: Date | null;
+  total: number;
+  paid: number; // Paid on the job directly, e.g. a card payment before joining
+  amountDue: number;
+}
+
+export interface ConsolidatedInvoice {
+  invoiceNumber: string;
+  status: 'DRAFT' | 'OPEN' | 'PAID' | 'VOID'; // DRAFT until issued
+  organization: { id: string; name: string; billingEmail: string; billingAddress?: string | null };
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  issuedAt: Date | null;
+  dueDate: Date;
+  paymentTermsDays: number;
+  lines: ConsolidatedInvoiceLine[];
+  total: number;
+  paid: number;
+  balanceDue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The calendar month (UTC) a 'YYYY-MM' period covers
+ */
+export function invoicePeriod(period: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  const month = match ? Number(match[2]) : 0;
+
+  if (!match || month < 1 || month > 12) {
+    throw new Error(`Invalid invoice period: ${period}`);
+  }
+
+  const year = Number(match[1]);
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    end: new Date(Date.UTC(year, month, 1)),
+  };
+}
+
+export function consolidatedInvoiceNumber(organizationId: string, periodStart: Date): string {
+  const month = `${periodStart.getUTCFullYear()}${String(periodStart.getUTCMonth() + 1).padStart(2, '0')}`;
+  return `INV-${organizationId.substring(0, 6).toUpperCase()}-${month}`;
+}
+
+/**
+ * Assemble an organization's invoice for one month from its completed jobs.
+ * Once issued, the stored invoice fixes the issue and due dates.
+ */
+export async function buildConsolidatedInvoice(organizationId: string, period: string): Promise<ConsolidatedInvoice | null> {
+  const { start, end } = invoicePeriod(period);
+
+  const [organization, issued, jobs] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true, billingEmail: true, billingAddress: true, paymentTermsDays: true },
+    }),
+    prisma.organizationInvoice.findUnique({
+      where: { organizationId_periodStart: { organizationId, periodStart: start } },
+      select: { invoiceNumber: true, status: true, issuedAt: true, dueAt: true },
+    }),
+    prisma.job.findMany({
+      where: { organizationId, status: 'COMPLETED', completedAt: { gte: start, lt: end } },
+      orderBy: { completedAt: 'asc' },
+      select: {
+        id: true,
+        title: true,
+        poNumber: true,
+        completedAt: true,
+        customer: { select: { firstName: true, lastName: true } },
+        vehicle: { select: { year: true, make: true, model: true, licensePlate: true } },
+        quotes: { ...ACCEPTED_QUOTE, select: { total: true } },
+        payments: {
+          where: { kind: { not: 'TIP' }, status: { in: ['SUCCEEDED', 'PARTIALLY_REFUNDED'] } },
+          select: { amount: true, refundAmount: true },
+        },
+      },
+    }),
+  ]);
+
+  if (!organization) {
+    return null;
+  }
+
+  const lines: ConsolidatedInvoiceLine[] = jobs.map((job) => {
+    const total = job.quotes[0]?.total ?? 0;
+    const paid = roundCurrency(
+      job.payments.reduce((sum, payment) => sum + payment.amount - (payment.refundAmount ?? 0), 0)
+    );
+    const vehicle = job.vehicle
+      ? `${job.vehicle.year} ${job.vehicle.make} ${job.vehicle.model}${job.vehicle.licensePlate ? ` (${job.vehicle.licensePlate})` : ''}`
+      : null;
+
+    return {
+      jobId: job.id,
+      title: job.title || 'Service',
+      poNumber: job.poNumber,
+      vehicle,
+      requestedBy: `${job.customer.firstName} ${job.customer.lastName}`,
+      completedAt: job.completedAt,
+      total,
+      paid,
+      amountDue: Math.max(0, roundCurrency(total - paid)),
+    };
+  });
+
+  const total = roundCurrency(lines.reduce((sum, line) => sum + line.total, 0));
+  const paid = roundCurrency(lines.reduce((sum, line) => sum + line.paid, 0));
+
+  return {
+    invoiceNumber: issued?.invoiceNumber ?? consolidatedInvoiceNumber(organizationId, start),
+    status: issued?.status ?? 'DRAFT',
+    organization: {
+      id: organization.id,
+      name: organization.name,
+      billingEmail: organization.billingEmail,
+      billingAddress: organization.billingAddress,
+    },
+    periodStart: start,
+    periodEnd: end,
+    issuedAt: issued?.issuedAt ?? null,
+    dueDate: issued?.dueAt ?? new Date(end.getTime() + organization.paymentTermsDays * DAY_MS),
+    paymentTermsDays: organization.paymentTermsDays,
+    lines,
+    total,
+    paid,
+    balanceDue: Math.max(0, roundCurrency(total - paid)),
+  };
+}
+
+/**
+ * Assemble the invoice for a payment loaded with INVOICE_PAYMENT_INCLUDE
+ */
+export async function buildInvoice(payment: InvoicePayment): Promise<Invoice> {
+  const job = payment.job;
+  const quote = job.quotes[0] ?? null;
+  const quoteLines = quote?.lineItems ?? [];
+
+  const [completedPayments, photos, signatureEvent] = await Promise.all([
+    prisma.payment.findMany({
+      where: { jobId: job.id, status: { in: ['SUCCEEDED', 'PARTIALLY_REFUNDED'] } },
+      select: { kind: true, amount: true, refundAmount: true },
+    }),
+    prisma.jobPhoto.findMany({
+      where: { jobId: job.id, type: { in: ['BEFORE', 'AFTER'] } },
+      orderBy: { createdAt: 'asc' },
+      select: { type: true, url: true, thumbnailUrl: true, description: true },
+    }),
+    prisma.jobTimeline.findFirst({
+      where: { jobId: job.id, eventType: 'SIGNATURE_CAPTURED' },
+      orderBy: { createdAt: 'desc' },
+      select: { metadata: true, createdAt: true },
+    }),
+  ]);
+
+  const total = quote ? quote.total : payment.amount;
+  let totalPaid = 0;
+  let tip = 0;
+  for (const completed of completedPayments) {
+    if (completed.kind === 'TIP') {
+      tip += completed.amount - (completed.refundAmount ?? 0);
+      continue;
+    }
+    totalPaid += completed.amount - (completed.refundAmount ?? 0);
+  }
+
+  const lineItems: InvoiceLine[] = [];
+  const taxLines: { description: string; total: number }[] = [];
+  for (const item of quoteLines) {
+    if (item.type === 'TAX') {
+      taxLines.push({ description: item.description, total: item.total });
+      continue;
+    }
+    lineItems.push({
+      type: item.type,
+      description: item.description,
+      partNumber: item.partNumber,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      total: item.type === 'DISCOUNT' ? -item.total : item.total,
+    });
+  }
+
+  const signatureMetadata = (signatureEvent?.metadata ?? {}) as { signatureData?: string; signerName?: string };
+
+  return {
+    id: payment.id,
+    invoiceNumber: invoiceNumber(payment.id),
+    date: payment.createdAt,
+    dueDate: payment.createdAt,
+    status: payment.status,
+
+    customer: {
+      name: `${job.customer.firstName} ${job.customer.lastName}`,
+      email: job.customer.email,
+      phone: job.customer.phone,
+    },
+    mechanic: job.mechanic ? {
+      name: `${job.mechanic.firstName} ${job.mechanic.lastName}`,
+      email: job.mechanic.email,
+      phone: job.mechanic.phone,
+      businessLicense: job.mechanic.mechanicProfile?.businessLicense,
+    } : null,
+    job: {
+      title: job.title || 'Service',
+      location: job.location,
+      completedAt: job.completedAt,
+    },
+
+    lineItems,
+    taxLines,
+    taxExempt: quote?.taxExempt ?? false,
+
+    subtotal: quote ? quote.subtotal : payment.amount,
+    discount: quote?.discountTotal ?? 0,
+    partsTax: quote?.partsTax ?? 0,
+    laborTax: quote?.laborTax ?? 0,
+    tax: quote?.taxes ?? 0,
+    total,
+    amountPaid: payment.amount,
+    totalPaid: roundCurrency(totalPaid),
+    tip: roundCurrency(tip),
+    balanceDue: Math.max(0, roundCurrency(total - totalPaid)),
+
+    paymentMethod: payment.paymentMethod,
+    paidDate: payment.status === 'SUCCEEDED' ? payment.updatedAt : null,
+
+    signature: signatureEvent ? {
+      signerName: signatureMetadata.signerName,
+      signedAt: signatureEvent.createdAt,
+      imageData: signatureMetadata.signatureData,
+    } : null,
+    photos: photos.map((photo) => ({
+      type: photo.type as InvoicePhoto['type'], // Only BEFORE and AFTER are loaded
+      url: photo.thumbnailUrl || photo.url,
+      description: photo.description,
+    })),
+  };
+}
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString('en-US');
+
+/**
+ * Decode a data URI or download an image for embedding. Images that cannot be
+ * loaded are left out rather than failing the whole document.
+ */
+async function loadImage(source: string): Promise<Buffer | null> {
+  try {
+    if (source.startsWith('data:')) {
+      return Buffer.from(source.substring(source.indexOf(',') + 1), 'base64');
+    }
+
+    const response = await fetch(source);
+    if (!response.ok) return null;
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    console.warn('Could not load invoice image:', error);
+    return null;
+  }
+}
+
+/**
+ * pdfkit throws on data it cannot decode (e.g. SVG signatures)
+ */
+function drawImage(doc: PDFKit.PDFDocument, image: Buffer, x: number, y: number, fit: [number, number]): boolean {
+  try {
+    doc.image(image, x, y, { fit });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Render an invoice as a letter-size PDF. pdfkit loads its fonts on import,
+ * so it is only required when a document is actually rendered.
+ */
+export async function renderInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  const PDFDocument: typeof import('pdfkit') = require('pdfkit');
+
+  const [signatureImage, photoImages] = await Promise.all([
+    invoice.signature?.imageData ? loadImage(invoice.signature.imageData) : Promise.resolve(null),
+    Promise.all(invoice.photos.map((photo) => loadImage(photo.url))),
+  ]);
+
+  const doc = new PDFDocument({ size: 'LETTER', margin: 50, info: { Title: invoice.invoiceNumber } });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+
+  // Header
+  doc.fontSize(20).font('Helvetica-Bold').text('Heinicus Mobile Mechanic', left, 50);
+  doc.fontSize(10).font('Helvetica')
+    .text(invoice.balanceDue > 0 ? 'INVOICE' : 'RECEIPT', left, 50, { align: 'right' })
+    .text(invoice.invoiceNumber, { align: 'right' })
+    .text(`Date: ${formatDate(invoice.date)}`, { align: 'right' });
+  if (invoice.paidDate) {
+    doc.text(`Paid: ${formatDate(invoice.paidDate)}`, { align: 'right' });
+  }
+
+  // Parties
+  const partiesTop = 120;
+  doc.font('Helvetica-Bold').text('Bill To', left, partiesTop);
+  doc.font('Helvetica').text(invoice.customer.name).text(invoice.customer.email);
+  if (invoice.customer.phone) doc.text(invoice.customer.phone);
+
+  if (invoice.mechanic) {
+    const column = left + 260;
+    doc.font('Helvetica-Bold').text('Mechanic', column, partiesTop);
+    doc.font('Helvetica').text(invoice.mechanic.name, column).text(invoice.mechanic.email, column);
+    if (invoice.mechanic.phone) doc.text(invoice.mechanic.phone, column);
+    if (invoice.mechanic.businessLicense) doc.text(`License: ${invoice.mechanic.businessLicense}`, column);
+  }
+
+  doc.moveDown(2);
+  doc.font('Helvetica-Bold').text(invoice.job.title, left);
+  doc.font('Helvetica').text(invoice.job.location);
+
+  // Line items
+  const columns = { description: left, quantity: left + 290, unitPrice: left + 350, total: left + 430 };
+  const row = (cells: [string, string, string, string], bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(cells[0], columns.description, y, { width: 280 });
+    const bottom = doc.y;
+    doc.text(cells[1], columns.quantity, y, { width: 50, align: 'right' });
+    doc.text(cells[2], columns.unitPrice, y, { width: 70, align: 'right' });
+    doc.text(cells[3], columns.total, y, { width: right - columns.total, align: 'right' });
+    doc.y = Math.max(bottom, doc.y) + 4;
+  };
+
+  doc.moveDown();
+  row(['Description', 'Qty', 'Unit', 'Amount'], true);
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+  doc.y += 4;
+
+  for (const item of invoice.lineItems) {
+    row([
+      item.partNumber ? `${item.description} (#${item.partNumber})` : item.description,
+      String(item.quantity),
+      money(item.unitPrice),
+      money(item.total),
+    ]);
+  }
+
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+  doc.y += 6;
+
+  // Totals
+  const totalRow = (label: string, value: string, bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(label, columns.quantity - 60, y, { width: 180, align: 'right' });
+    doc.text(value, columns.total, y, { width: right - columns.total, align: 'right' });
+    doc.y += 4;
+  };
+
+  totalRow('Subtotal', money(invoice.subtotal));
+  for (const taxLine of invoice.taxLines) {
+    totalRow(taxLine.description, money(taxLine.total));
+  }
+  if (invoice.taxExempt) {
+    totalRow('Sales tax', 'Exempt (fleet account)');
+  }
+  totalRow('Total', money(invoice.total), true);
+  totalRow('Paid to date', money(-invoice.totalPaid));
+  totalRow('Balance due', money(invoice.balanceDue), true);
+  if (invoice.tip > 0) {
+    totalRow('Tip', money(invoice.tip));
+  }
+
+  if (invoice.paymentMethod) {
+    doc.moveDown(0.5).font('Helvetica').fontSize(9)
+      .text(`Payment method: ${invoice.paymentMethod}`, left)
+      .fontSize(10);
+  }
+
+  // Sign-off
+  if (invoice.signature) {
+    doc.moveDown();
+    doc.font('Helvetica-Bold').text('Customer sign-off', left);
+    const imageTop = doc.y + 4;
+    if (signatureImage && drawImage(doc, signatureImage, left, imageTop, [200, 60])) {
+      doc.y = imageTop + 64;
+    }
+    doc.font('Helvetica').fontSize(9).text(
+      `Signed${invoice.signature.signerName ? ` by ${invoice.signature.signerName}` : ''} on ${formatDate(invoice.signature.signedAt)}`,
+      left
+    ).fontSize(10);
+  }
+
+  // Before/after photos, four thumbnails per row
+  const thumbnails = invoice.photos
+    .map((photo, index) => ({ photo, image: photoImages[index] }))
+    .filter((entry): entry is { photo: InvoicePhoto; image: Buffer } => entry.image !== null);
+
+  if (thumbnails.length > 0) {
+    const size = 110;
+    const gap = 12;
+    const perRow = Math.floor((right - left + gap) / (size + gap));
+
+    if (doc.y + size + 40 > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    doc.moveDown();
+    doc.font('Helvetica-Bold').text('Before & after', left);
+    let top = doc.y + 6;
+
+    thumbnails.forEach(({ photo, image }, index) => {
+      const column = index % perRow;
+      if (index > 0 && column === 0) {
+        top += size + 20;
+        if (top + size > doc.page.height - doc.page.margins.bottom) {
+          doc.addPage();
+          top = doc.page.margins.top;
+        }
+      }
+      const x = left + column * (size + gap);
+      if (drawImage(doc, image, x, top, [size, size])) {
+        doc.font('Helvetica').fontSize(8).text(photo.type === 'BEFORE' ? 'Before' : 'After', x, top + size + 2, { width: size });
+      }
+    });
+    doc.fontSize(10);
+  }
+
+  doc.end();
+  return finished;
+}
+
+/**
+ * Render a consolidated organization invoice: one row per job
+ */
+export async function renderConsolidatedInvoicePdf(invoice: ConsolidatedInvoice): Promise<Buffer> {
+  const PDFDocument: typeof import('pdfkit') = require('pdfkit');
+
+  const doc = new PDFDocument({ size: 'LETTER', margin: 50, info: { Title: invoice.invoiceNumber } });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const lastDay = new Date(invoice.periodEnd.getTime() - DAY_MS);
+
+  // Header
+  doc.fontSize(20).font('Helvetica-Bold').text('Heinicus Mobile Mechanic', left, 50);
+  doc.fontSize(10).font('Helvetica')
+    .text(invoice.status === 'PAID' ? 'STATEMENT (PAID)' : 'INVOICE', left, 50, { align: 'right' })
+    .text(invoice.invoiceNumber, { align: 'right' })
+    .text(`Period: ${formatDate(invoice.periodStart)} – ${formatDate(lastDay)}`, { align: 'right' })
+    .text(`Due: ${formatDate(invoice.dueDate)} (net ${invoice.paymentTermsDays})`, { align: 'right' });
+
+  doc.font('Helvetica-Bold').text('Bill To', left, 120);
+  doc.font('Helvetica').text(invoice.organization.name).text(invoice.organization.billingEmail);
+  if (invoice.organization.billingAddress) doc.text(invoice.organization.billingAddress);
+
+  // One row per job
+  const columns = { date: left, job: left + 70, po: left + 280, amount: left + 370 };
+  const row = (cells: [string, string, string, string], bold = false) => {
+    if (doc.y + 40 > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(cells[0], columns.date, y, { width: 65 });
+    doc.text(cells[1], columns.job, y, { width: 200 });
+    const bottom = doc.y;
+    doc.text(cells[2], columns.po, y, { width: 85 });
+    doc.text(cells[3], columns.amount, y, { width: right - columns.amount, align: 'right' });
+    doc.y = Math.max(bottom, doc.y) + 4;
+  };
+
+  doc.moveDown(2);
+  row(['Completed', 'Job', 'PO #', 'Amount due'], true);
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+  doc.y += 4;
+
+  for (const line of invoice.lines) {
+    const details = [line.title, line.vehicle, `Requested by ${line.requestedBy}`].filter(Boolean).join('\n');
+    row([
+      line.completedAt ? formatDate(line.completedAt) : '',
+      details,
+      line.poNumber ?? '',
+      money(line.amountDue),
+    ]);
+  }
+
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke();
+  doc.y += 6;
+
+  const totalRow = (label: string, value: string, bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(label, columns.po - 60, y, { width: 140, align: 'right' });
+    doc.text(value, columns.amount, y, { width: right - columns.amount, align: 'right' });
+    doc.y += 4;
+  };
+
+  totalRow('Jobs total', money(invoice.total));
+  if (invoice.paid > 0) {
+    totalRow('Paid on jobs', money(-invoice.paid));
+  }
+  totalRow('Balance due', money(invoice.balanceDue), true);
+
+  doc.end();
+  return finished;
+}
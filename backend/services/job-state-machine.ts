@@ -0,0 +1,268 @@
+import { TRPCError } from '@trpc/server';
+import { prisma } from '../../lib/prisma';
+import type { UserRole } from '../../types/auth';
+import { recordJobEvent } from './job-timeline';
+import { sendNotification, type NotificationType } from './notifications';
+
+/**
+ * Job State Machine
+ *
+ * Single source of truth for the job lifecycle:
+ *
+ *   PENDING → QUOTED → ACCEPTED → SCHEDULED → EN_ROUTE → IN_PROGRESS ⇄ PAUSED
+ *                                                        IN_PROGRESS → COMPLETED
+ *   (any non-terminal state) → CANCELLED, subject to role
+ *
+ * The tRPC job router, the websocket job-tracking handlers and payment
+ * flows all change status through transitionJob() so permissions and side
+ * effects (timestamps, notifications, timeline entries) are applied once.
+ */
+
+export const JOB_STATUSES = [
+  'PENDING',
+  'QUOTED',
+  'ACCEPTED',
+  'SCHEDULED',
+  'EN_ROUTE',
+  'IN_PROGRESS',
+  'PAUSED',
+  'COMPLETED',
+  'CANCELLED',
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * Statuses during which the mechanic is on the job and location/ETA updates apply
+ */
+export const TRACKABLE_STATUSES: JobStatus[] = ['ACCEPTED', 'SCHEDULED', 'EN_ROUTE', 'IN_PROGRESS', 'PAUSED'];
+
+const CUSTOMER_SIDE: UserRole[] = ['CUSTOMER', 'ADMIN'];
+const MECHANIC_SIDE: UserRole[] = ['MECHANIC', 'ADMIN'];
+const ANY_PARTICIPANT: UserRole[] = ['CUSTOMER', 'MECHANIC', 'ADMIN'];
+const ADMIN_ONLY: UserRole[] = ['ADMIN'];
+
+/**
+ * Allowed transitions: from → to → roles permitted to make the move
+ */
+export const JOB_TRANSITIONS: Record<JobStatus, Partial<Record<JobStatus, UserRole[]>>> = {
+  PENDING: { QUOTED: MECHANIC_SIDE, CANCELLED: CUSTOMER_SIDE },
+  QUOTED: { ACCEPTED: CUSTOMER_SIDE, CANCELLED: CUSTOMER_SIDE },
+  ACCEPTED: { SCHEDULED: MECHANIC_SIDE, CANCELLED: ANY_PARTICIPANT },
+  SCHEDULED: { EN_ROUTE: MECHANIC_SIDE, CANCELLED: ANY_PARTICIPANT },
+  EN_ROUTE: { IN_PROGRESS: MECHANIC_SIDE, CANCELLED: ANY_PARTICIPANT },
+  IN_PROGRESS: { PAUSED: MECHANIC_SIDE, COMPLETED: MECHANIC_SIDE, CANCELLED: ADMIN_ONLY },
+  PAUSED: { IN_PROGRESS: MECHANIC_SIDE, CANCELLED: ADMIN_ONLY },
+  COMPLETED: {},
+  CANCELLED: {},
+};
+
+/**
+ * Notification copy sent to the other participants after a transition
+ */
+const STATUS_NOTIFICATIONS: Record<JobStatus, { type: NotificationType; title: string; body: string }> = {
+  PENDING: { type: 'JOB_UPDATE', title: 'Job Created', body: 'Your job has been created' },
+  QUOTED: { type: 'QUOTE_RECEIVED', title: 'Quote Ready', body: 'A quote is ready for your review' },
+  ACCEPTED: { type: 'QUOTE_ACCEPTED', title: 'Job Accepted', body: 'The job has been accepted' },
+  SCHEDULED: { type: 'JOB_UPDATE', title: 'Job Scheduled', body: 'Your job has been scheduled' },
+  EN_ROUTE: { type: 'MECHANIC_EN_ROUTE', title: 'Mechanic On The Way', body: 'Your mechanic is en route' },
+  IN_PROGRESS: { type: 'JOB_UPDATE', title: 'Work Started', body: 'Work on your vehicle has started' },
+  PAUSED: { type: 'JOB_UPDATE', title: 'Work Paused', body: 'Work on your vehicle has been paused' },
+  COMPLETED: { type: 'JOB_COMPLETED', title: 'Job Completed', body: 'Your job has been completed' },
+  CANCELLED: { type: 'JOB_UPDATE', title: 'Job Cancelled', body: 'The job has been cancelled' },
+};
+
+export type JobTransitionErrorReason =
+  | 'JOB_NOT_FOUND'
+  | 'INVALID_STATUS'
+  | 'NOT_PARTICIPANT'
+  | 'ILLEGAL_TRANSITION'
+  | 'ROLE_NOT_PERMITTED';
+
+const REASON_CODES: Record<JobTransitionErrorReason, TRPCError['code']> = {
+  JOB_NOT_FOUND: 'NOT_FOUND',
+  INVALID_STATUS: 'BAD_REQUEST',
+  NOT_PARTICIPANT: 'FORBIDDEN',
+  ILLEGAL_TRANSITION: 'BAD_REQUEST',
+  ROLE_NOT_PERMITTED: 'FORBIDDEN',
+};
+
+/**
+ * Rejected transition. Extends TRPCError so routers can rethrow it as-is;
+ * the tRPC error formatter exposes `reason`, `from` and `to` to clients and
+ * the websocket handlers map `reason` onto socket error codes.
+ */
+export class JobTransitionError extends TRPCError {
+  readonly reason: JobTransitionErrorReason;
+  readonly from?: string;
+  readonly to?: string;
+
+  constructor(reason: JobTransitionErrorReason, message: string, from?: string, to?: string) {
+    super({ code: REASON_CODES[reason], message });
+    this.name = 'JobTransitionError';
+    this.reason = reason;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function isJobStatus(value: string): value is JobStatus {
+  return (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses a role may move a job to from its current status
+ */
+export function getAllowedTransitions(from: string, role: UserRole): JobStatus[] {
+  if (!isJobStatus(from)) return [];
+
+  const targets = JOB_TRANSITIONS[from];
+  return (Object.keys(targets) as JobStatus[]).filter((to) => targets[to]?.includes(role));
+}
+
+/**
+ * Throw a JobTransitionError unless `role` may move a job from `from` to `to`
+ */
+export function assertTransition(from: string, to: JobStatus, role: UserRole): void {
+  const roles = isJobStatus(from) ? JOB_TRANSITIONS[from][to] : undefined;
+
+  if (!roles) {
+    throw new JobTransitionError(
+      'ILLEGAL_TRANSITION',
+      `Cannot move a job from ${from} to ${to}`,
+      from,
+      to
+    );
+  }
+
+  if (!roles.includes(role)) {
+    throw new JobTransitionError(
+      'ROLE_NOT_PERMITTED',
+      `A ${role.toLowerCase()} cannot move a job from ${from} to ${to}`,
+      from,
+      to
+    );
+  }
+}
+
+export interface TransitionActor {
+  userId: string;
+  role: UserRole;
+}
+
+export interface TransitionJobInput {
+  jobId: string;
+  to: string;
+  actor: TransitionActor;
+  notes?: string;
+  scheduledAt?: Date;
+  arrivalWindowEnd?: Date; // Latest acceptable arrival when scheduling
+  source?: 'trpc' | 'websocket' | 'payment';
+}
+
+/**
+ * Validate and apply a status change, then run its side effects
+ */
+export async function transitionJob(input: TransitionJobInput) {
+  const { jobId, to, actor, notes, source = 'trpc' } = input;
+
+  if (!isJobStatus(to)) {
+    throw new JobTransitionError('INVALID_STATUS', `Unknown job status: ${to}`, undefined, to);
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      status: true,
+      customerId: true,
+      mechanicId: true,
+      scheduledAt: true,
+      startedAt: true,
+    },
+  });
+
+  if (!job) {
+    throw new JobTransitionError('JOB_NOT_FOUND', 'Job not found', undefined, to);
+  }
+
+  const from = job.status;
+
+  // Any mechanic may quote an open job; everything else needs the assigned mechanic
+  const isParticipant =
+    actor.role === 'ADMIN' ||
+    job.customerId === actor.userId ||
+    (job.mechanicId ? job.mechanicId === actor.userId : actor.role === 'MECHANIC' && from === 'PENDING');
+
+  if (!isParticipant) {
+    throw new JobTransitionError('NOT_PARTICIPANT', 'You do not have access to this job', from, to);
+  }
+
+  assertTransition(from, to, actor.role);
+
+  const now = new Date();
+  const timestamps: Record<string, Date> = {};
+  if (to === 'SCHEDULED') timestamps.scheduledAt = input.scheduledAt ?? job.scheduledAt ?? now;
+  if (to === 'SCHEDULED' && input.arrivalWindowEnd) timestamps.arrivalWindowEnd = input.arrivalWindowEnd;
+  if (to === 'IN_PROGRESS' && !job.startedAt) timestamps.startedAt = now;
+  if (to === 'COMPLETED') timestamps.completedAt = now;
+
+  // The mechanic's location stops being shared once the job is over
+  const stopTracking = to === 'COMPLETED' || to === 'CANCELLED'
+    ? { currentLatitude: null, currentLongitude: null, eta: null }
+    : {};
+
+  // Guard against a concurrent transition having moved the job already
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, status: from },
+    data: { status: to, ...timestamps, ...stopTracking },
+  });
+
+  if (count === 0) {
+    throw new JobTransitionError(
+      'ILLEGAL_TRANSITION',
+      `Job is no longer ${from}; refresh and try again`,
+      from,
+      to
+    );
+  }
+
+  const updatedJob = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      customer: {
+        select: { id: true, firstName: true, lastName: true, email: true },
+      },
+      mechanic: {
+        select: { id: true, firstName: true, lastName: true, email: true },
+      },
+    },
+  });
+
+  await recordJobEvent({
+    jobId,
+    kind: 'STATUS_CHANGE',
+    eventType: to,
+    description: `Job status changed from ${from} to ${to}`,
+    actorId: actor.userId,
+    metadata: { previousStatus: from, notes, source },
+  });
+
+  const copy = STATUS_NOTIFICATIONS[to];
+  const recipients = [job.customerId, job.mechanicId].filter(
+    (id): id is string => !!id && id !== actor.userId
+  );
+
+  for (const userId of recipients) {
+    await sendNotification({
+      userId,
+      jobId,
+      type: copy.type,
+      title: copy.title,
+      body: notes ? `${copy.body}: ${notes}` : copy.body,
+      data: { jobId, status: to, previousStatus: from },
+    });
+  }
+
+  return { job: updatedJob, from, to: to as JobStatus };
+}
@@ -0,0 +1,122 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+
+/**
+ * Job Timeline Service
+ *
+ * Append-only audit log of everything that happens to a job.
+ * Job, quote, payment, messaging and websocket mutations record events here
+ * so clients render server-side history instead of local state.
+ */
+
+/**
+ * Timeline event kinds (mirrors the JobTimelineKind Prisma enum)
+ */
+export type JobTimelineKind =
+  | 'STATUS_CHANGE'
+  | 'TIME_LOG'
+  | 'PARTS_ADDED'
+  | 'PHOTO'
+  | 'SIGNATURE'
+  | 'PAYMENT'
+  | 'MESSAGE';
+
+/**
+ * Timeline event to record
+ */
+export interface JobTimelineEventInput {
+  jobId: string;
+  kind: JobTimelineKind;
+  eventType: string; // Fine-grained event, e.g. 'IN_PROGRESS', 'PAYMENT_SUCCEEDED'
+  description: string;
+  actorId?: string | null; // Omitted for system events (webhooks, schedulers)
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Timeline event as returned to clients
+ */
+export interface JobTimelineEntry {
+  id: string;
+  jobId: string;
+  kind: JobTimelineKind;
+  eventType: string;
+  description: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+  actor: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    role: string;
+  } | null;
+}
+
+/**
+ * Append an event to a job's timeline
+ *
+ * Failures are logged rather than thrown so that an audit write never
+ * rolls back the mutation it describes.
+ */
+export async function recordJobEvent(
+  event: JobTimelineEventInput
+): Promise<{ success: boolean; id?: string }> {
+  try {
+    const entry = await prisma.jobTimeline.create({
+      data: {
+        jobId: event.jobId,
+        kind: event.kind,
+        eventType: event.eventType,
+        description: event.description,
+        actorId: event.actorId ?? null,
+        metadata: (event.metadata ?? {}) as Prisma.InputJsonObject,
+      },
+    });
+
+    return { success: true, id: entry.id };
+  } catch (error) {
+    console.error('Error recording job timeline event:', error);
+    return { success: false };
+  }
+}
+
+/**
+ * Get a job's timeline, oldest first
+ */
+export async function getJobTimeline(
+  jobId: string,
+  options: { kinds?: JobTimelineKind[]; limit?: number } = {}
+): Promise<JobTimelineEntry[]> {
+  const entries = await prisma.jobTimeline.findMany({
+    where: {
+      jobId,
+      ...(options.kinds && options.kinds.length > 0 ? { kind: { in: options.kinds } } : {}),
+    },
+    include: {
+      actor: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: options.limit,
+  });
+
+  return entries.map((entry) => ({
+    id: entry.id,
+    jobId: entry.jobId,
+    kind: entry.kind,
+    eventType: entry.eventType,
+    description: entry.description,
+    // Events are always recorded with an object, but the column is plain JSON
+    metadata: entry.metadata && typeof entry.metadata === 'object' && !Array.isArray(entry.metadata)
+      ? entry.metadata
+      : null,
+    createdAt: entry.createdAt,
+    actor: entry.actor,
+  }));
+}
@@ -0,0 +1,244 @@
+import { prisma } from '../../lib/prisma';
+import { TRACKABLE_STATUSES, transitionJob } from './job-state-machine';
+import { recordJobEvent } from './job-timeline';
+import { calculateHaversineDistance, calculateRouteDistance, type Coordinates } from './location';
+import { sendNotification } from './notifications';
+import type { RoutingProvider } from './routing-provider';
+
+/**
+ * Live Tracking Service
+ *
+ * Takes the positions a mechanic's device reports during a job. Each one
+ * is kept as a breadcrumb, moves the job's current location and
+ * recomputes the ETA. Before work starts, crossing geofences around the
+ * job tells the customer what is happening:
+ *
+ * - EN_ROUTE: the mechanic has left the departure geofence (around where
+ *   tracking began) heading for the job; a SCHEDULED job moves to
+ *   EN_ROUTE, which sends MECHANIC_EN_ROUTE
+ * - ARRIVING: the ETA drops to ARRIVING_MINUTES or less
+ * - ARRIVED: the mechanic is within ARRIVAL_RADIUS_METERS of the job
+ *
+ * Each is sent once per job. Location sharing stops when the job is
+ * completed or cancelled: later updates are refused and the job's current
+ * location is cleared by the state machine.
+ */
+
+export const DEPARTURE_RADIUS_METERS = 300;
+export const ARRIVING_MINUTES = 5;
+export const ARRIVAL_RADIUS_METERS = 150;
+
+/**
+ * Most breadcrumbs returned for a trail; the oldest are dropped
+ */
+export const MAX_TRAIL_POINTS = 500;
+
+/**
+ * Statuses in which the mechanic has not yet reached the job
+ */
+const APPROACH_STATUSES = ['ACCEPTED', 'SCHEDULED', 'EN_ROUTE'];
+
+export type GeofenceEvent = 'EN_ROUTE' | 'ARRIVING' | 'ARRIVED';
+
+export type LiveTrackingErrorCode = 'JOB_NOT_FOUND' | 'UNAUTHORIZED' | 'INVALID_STATUS';
+
+/**
+ * A location update was refused; `code` matches the websocket error codes
+ */
+export class LiveTrackingError extends Error {
+  readonly code: LiveTrackingErrorCode;
+
+  constructor(code: LiveTrackingErrorCode, message: string) {
+    super(message);
+    this.name = 'LiveTrackingError';
+    this.code = code;
+  }
+}
+
+export interface LocationReport {
+  jobId: string;
+  mechanicId: string;
+  location: Coordinates;
+  accuracyMeters?: number | null;
+  now?: Date;
+}
+
+export interface TrackingUpdate {
+  jobId: string;
+  location: Coordinates;
+  recordedAt: Date;
+  eta: Date | null;
+  etaMinutes: number | null;
+  distanceMeters: number | null; // Straight line to the job
+  status: string; // After any automatic transition
+  events: GeofenceEvent[]; // Geofences crossed by this update
+}
+
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  recordedAt: Date;
+}
+
+/**
+ * Record a reported position and run the geofences
+ */
+export async function recordMechanicLocation(
+  report: LocationReport,
+  provider?: RoutingProvider
+): Promise<TrackingUpdate> {
+  const { jobId, mechanicId, location } = report;
+  const now = report.now ?? new Date();
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      customerId: true,
+      mechanicId: true,
+      status: true,
+      latitude: true,
+      longitude: true,
+      arrivingNotifiedAt: true,
+      arrivedAt: true,
+    },
+  });
+
+  if (!job) {
+    throw new LiveTrackingError('JOB_NOT_FOUND', 'Job not found');
+  }
+
+  if (job.mechanicId !== mechanicId) {
+    throw new LiveTrackingError('UNAUTHORIZED', 'Not authorized to update location for this job');
+  }
+
+  if (!TRACKABLE_STATUSES.includes(job.status)) {
+    throw new LiveTrackingError('INVALID_STATUS', 'Can only update location for active jobs');
+  }
+
+  const departure = await prisma.jobLocationPoint.findFirst({
+    where: { jobId },
+    orderBy: { recordedAt: 'asc' },
+  });
+
+  await prisma.jobLocationPoint.create({
+    data: {
+      jobId,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracyMeters: report.accuracyMeters ?? null,
+      recordedAt: now,
+    },
+  });
+
+  let status: string = job.status;
+  const events: GeofenceEvent[] = [];
+  const updates: Record<string, unknown> = {
+    currentLatitude: location.latitude,
+    currentLongitude: location.longitude,
+  };
+
+  if (job.latitude == null || job.longitude == null) {
+    await prisma.job.update({ where: { id: jobId }, data: updates });
+    return { jobId, location, recordedAt: now, eta: null, etaMinutes: null, distanceMeters: null, status, events };
+  }
+
+  const destination = { latitude: job.latitude, longitude: job.longitude };
+  const distanceMeters = calculateHaversineDistance(location, destination);
+  const arrived = distanceMeters <= ARRIVAL_RADIUS_METERS;
+
+  let etaSeconds: number | null = arrived ? 0 : null;
+  if (!arrived) {
+    try {
+      etaSeconds = (await calculateRouteDistance(location, destination, provider)).durationSeconds;
+    } catch (error) {
+      console.error('Error recomputing ETA:', error);
+    }
+  }
+
+  const eta = etaSeconds !== null ? new Date(now.getTime() + etaSeconds * 1000) : null;
+  if (eta) updates.eta = eta;
+
+  if (APPROACH_STATUSES.includes(job.status)) {
+    const leftDeparture = !!departure &&
+      calculateHaversineDistance(departure, location) > DEPARTURE_RADIUS_METERS &&
+      distanceMeters < calculateHaversineDistance(departure, destination);
+
+    if (job.status === 'SCHEDULED' && (leftDeparture || arrived)) {
+      const etaMinutes = etaSeconds !== null ? Math.round(etaSeconds / 60) : null;
+      await transitionJob({
+        jobId,
+        to: 'EN_ROUTE',
+        actor: { userId: mechanicId, role: 'MECHANIC' },
+        notes: etaMinutes !== null && !arrived ? `ETA ${etaMinutes} min` : undefined,
+        source: 'websocket',
+      });
+      status = 'EN_ROUTE';
+      events.push('EN_ROUTE');
+    }
+
+    if (arrived && !job.arrivedAt) {
+      updates.arrivedAt = now;
+      updates.arrivingNotifiedAt = job.arrivingNotifiedAt ?? now;
+      events.push('ARRIVED');
+
+      await recordJobEvent({
+        jobId,
+        kind: 'STATUS_CHANGE',
+        eventType: 'MECHANIC_ARRIVED',
+        description: 'Mechanic arrived at the job location',
+        actorId: mechanicId,
+        metadata: { latitude: location.latitude, longitude: location.longitude },
+      });
+
+      await sendNotification({
+        userId: job.customerId,
+        jobId,
+        type: 'MECHANIC_ARRIVED',
+        title: 'Mechanic Has Arrived',
+        body: 'Your mechanic has arrived',
+        data: { jobId },
+      });
+    } else if (!arrived && !job.arrivingNotifiedAt && etaSeconds !== null && etaSeconds <= ARRIVING_MINUTES * 60) {
+      const minutes = Math.max(1, Math.round(etaSeconds / 60));
+      updates.arrivingNotifiedAt = now;
+      events.push('ARRIVING');
+
+      await sendNotification({
+        userId: job.customerId,
+        jobId,
+        type: 'MECHANIC_ARRIVING',
+        title: 'Mechanic Arriving Soon',
+        body: `Your mechanic is arriving in about ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`,
+        data: { jobId, etaMinutes: minutes },
+      });
+    }
+  }
+
+  await prisma.job.update({ where: { id: jobId }, data: updates });
+
+  return {
+    jobId,
+    location,
+    recordedAt: now,
+    eta,
+    etaMinutes: etaSeconds !== null ? Math.round(etaSeconds / 60) : null,
+    distanceMeters: Math.round(distanceMeters),
+    status,
+    events,
+  };
+}
+
+/**
+ * Breadcrumbs for a job, oldest first
+ */
+export async function getJobTrail(jobId: string, limit = MAX_TRAIL_POINTS): Promise<TrailPoint[]> {
+  const points = await prisma.jobLocationPoint.findMany({
+    where: { jobId },
+    orderBy: { recordedAt: 'desc' },
+    take: limit,
+    select: { latitude: true, longitude: true, recordedAt: true },
+  });
+
+  return points.reverse();
+}
@@ -1,16 +1,13 @@
-import { Client, TravelMode } from '@googlemaps/google-maps-services-js';
 import { prisma } from '../../lib/prisma';
+import { getRoutingProvider, type RoutingProvider, type RoutingProviderName } from './routing-provider';
 
 /**
  * Location Service
  *
  * Handles GPS location calculations, distance, and ETA estimations
- * Uses Google Maps API for accurate route calculations
+ * Routes come from the configured RoutingProvider
  */
 
-const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY || '';
-const googleMapsClient = new Client({});
-
 /**
  * Coordinates interface
  */
@@ -29,11 +26,11 @@ export interface DistanceResult {
   durationSeconds: number;
   durationMinutes: number;
   durationText: string;
+  provider: RoutingProviderName; // Who calculated the route
 }
 
 /**
- * Calculate distance between two points using Haversine formula
- * This is a fallback for when Google Maps API is not available
+ * Straight-line distance between two points in meters (Haversine formula)
  */
 export function calculateHaversineDistance(
   point1: Coordinates,
@@ -56,74 +53,26 @@ export function calculateHaversineDistance(
 }
 
 /**
- * Calculate distance and duration using Google Maps Distance Matrix API
- * Provides accurate road distance and ETA
+ * Calculate driving distance and duration with the configured routing
+ * provider (see routing-provider.ts). Falls back to an offline road-speed
+ * estimate when the routing service is unavailable.
  */
 export async function calculateRouteDistance(
   origin: Coordinates,
-  destination: Coordinates
+  destination: Coordinates,
+  provider: RoutingProvider = getRoutingProvider()
 ): Promise<DistanceResult> {
-  // If no API key, use Haversine formula as fallback
-  if (!GOOGLE_MAPS_API_KEY) {
-    console.warn('Google Maps API key not configured, using Haversine distance');
-    const distanceMeters = calculateHaversineDistance(origin, destination);
-
-    // Estimate duration (assuming average speed of 30 mph / 48 km/h in city)
-    const durationSeconds = Math.round((distanceMeters / 1000 / 48) * 3600);
-
-    return {
-      distanceMeters,
-      distanceMiles: distanceMeters * 0.000621371,
-      distanceKm: distanceMeters / 1000,
-      durationSeconds,
-      durationMinutes: Math.round(durationSeconds / 60),
-      durationText: formatDuration(durationSeconds),
-    };
-  }
-
-  try {
-    const response = await googleMapsClient.distancematrix({
-      params: {
-        origins: [`${origin.latitude},${origin.longitude}`],
-        destinations: [`${destination.latitude},${destination.longitude}`],
-        mode: TravelMode.driving,
-        key: GOOGLE_MAPS_API_KEY,
-      },
-    });
-
-    const element = response.data.rows[0]?.elements[0];
-
-    if (!element || element.status !== 'OK') {
-      throw new Error('Unable to calculate route distance');
-    }
-
-    const distanceMeters = element.distance.value;
-    const durationSeconds = element.duration.value;
-
-    return {
-      distanceMeters,
-      distanceMiles: distanceMeters * 0.000621371,
-      distanceKm: distanceMeters / 1000,
-      durationSeconds,
-      durationMinutes: Math.round(durationSeconds / 60),
-      durationText: element.duration.text,
-    };
-  } catch (error) {
-    console.error('Error calculating route distance with Google Maps:', error);
-
-    // Fallback to Haversine
-    const distanceMeters = calculateHaversineDistance(origin, destination);
-    const durationSeconds = Math.round((distanceMeters / 1000 / 48) * 3600);
-
-    return {
-      distanceMeters,
-      distanceMiles: distanceMeters * 0.000621371,
-      distanceKm: distanceMeters / 1000,
-      durationSeconds,
-      durationMinutes: Math.round(durationSeconds / 60),
-      durationText: formatDuration(durationSeconds),
-    };
-  }
+  const route = await provider.route(origin, destination);
+
+  return {
+    distanceMeters: route.distanceMeters,
+    distanceMiles: route.distanceMeters * 0.000621371,
+    distanceKm: route.distanceMeters / 1000,
+    durationSeconds: route.durationSeconds,
+    durationMinutes: Math.round(route.durationSeconds / 60),
+    durationText: route.durationText ?? formatDuration(route.durationSeconds),
+    provider: route.provider,
+  };
 }
 
 /**
@@ -174,38 +123,6 @@ export async function getMechanicDistanceToJob(
   }
 }
 
-/**
- * Calculate ETA and update job
- */
-export async function updateJobETA(
-  jobId: string,
-  mechanicLocation: Coordinates
-): Promise<Date | null> {
-  try {
-    const distanceResult = await getMechanicDistanceToJob(mechanicLocation, jobId);
-
-    if (!distanceResult) {
-      return null;
-    }
-
-    const etaDate = new Date(Date.now() + distanceResult.durationSeconds * 1000);
-
-    await prisma.job.update({
-      where: { id: jobId },
-      data: {
-        eta: etaDate,
-        currentLatitude: mechanicLocation.latitude,
-        currentLongitude: mechanicLocation.longitude,
-      },
-    });
-
-    return etaDate;
-  } catch (error) {
-    console.error('Error updating job ETA:', error);
-    return null;
-  }
-}
-
 /**
  * Validate coordinates
  */
@@ -0,0 +1,305 @@
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+import { getQuotePaymentSchedule, syncQuotePayments, type PaymentKind } from './deposits';
+import { postPaymentEarnings, reversePaymentEarnings } from './earnings';
+import { recordJobEvent } from './job-timeline';
+import { uploadDocument } from './storage';
+
+/**
+ * Manual Payments Service
+ *
+ * Records money a mechanic collected in person (cash, check, or a card
+ * tapped on their own terminal) as a Payment with no provider intent. The
+ * mechanic attests to each one, it counts toward the quote right away, and
+ * an admin later reconciles it against the deposit or rejects it.
+ */
+
+/**
+ * Where a payment came from (mirrors the PaymentSource Prisma enum)
+ */
+export type PaymentSource = 'CARD' | 'CASH' | 'CHECK' | 'TAP_TO_PAY' | 'ACCOUNT_CREDIT';
+
+export type ManualPaymentSource = Exclude<PaymentSource, 'CARD' | 'ACCOUNT_CREDIT'>;
+
+/**
+ * Admin review of an offline payment (mirrors the ReconciliationStatus Prisma enum)
+ */
+export type ReconciliationStatus = 'PENDING' | 'RECONCILED' | 'REJECTED';
+
+export const MANUAL_PAYMENT_SOURCES: ManualPaymentSource[] = ['CASH', 'CHECK', 'TAP_TO_PAY'];
+
+const isManualPaymentSource = (source: PaymentSource): source is ManualPaymentSource =>
+  (MANUAL_PAYMENT_SOURCES as PaymentSource[]).includes(source);
+
+/**
+ * Statement the mechanic confirms when recording an offline payment
+ */
+export const MANUAL_PAYMENT_ATTESTATION =
+  'I received this payment from the customer in person and will hand it over for deposit.';
+
+const SOURCE_LABELS: Record<ManualPaymentSource, string> = {
+  CASH: 'Cash',
+  CHECK: 'Check',
+  TAP_TO_PAY: 'Tap to pay',
+};
+
+/**
+ * A manual payment request that cannot be recorded or reconciled as given
+ */
+export class ManualPaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManualPaymentError';
+  }
+}
+
+export interface RecordManualPaymentInput {
+  jobId: string;
+  recordedById: string;
+  source: ManualPaymentSource;
+  amount: number;
+  kind?: PaymentKind;
+  checkNumber?: string;
+  receiptPhoto?: string; // data URL, e.g. data:image/jpeg;base64,...
+  terminalReference?: string;
+  attested: boolean;
+  note?: string;
+}
+
+/**
+ * Each source needs its own proof: a check number, a receipt photo, or the
+ * terminal's transaction reference
+ */
+export function validateManualPayment(input: Pick<
+  RecordManualPaymentInput,
+  'source' | 'amount' | 'checkNumber' | 'receiptPhoto' | 'terminalReference' | 'attested'
+>): void {
+  if (!input.attested) {
+    throw new ManualPaymentError('The mechanic must attest to receiving the payment');
+  }
+
+  if (!(input.amount > 0)) {
+    throw new ManualPaymentError('Amount must be greater than zero');
+  }
+
+  if (input.source === 'CHECK' && !input.checkNumber?.trim()) {
+    throw new ManualPaymentError('A check number is required for check payments');
+  }
+
+  if (input.source === 'CASH' && !input.receiptPhoto) {
+    throw new ManualPaymentError('A receipt photo is required for cash payments');
+  }
+
+  if (input.source === 'TAP_TO_PAY' && !input.terminalReference?.trim()) {
+    throw new ManualPaymentError('The terminal transaction reference is required for tap-to-pay payments');
+  }
+}
+
+/**
+ * Split a data URL into its MIME type and bytes
+ */
+function decodeDataUrl(dataUrl: string): { mimeType: string; buffer: Buffer } {
+  const match = /^data:(image\/[a-z+.-]+);base64,(.+)$/i.exec(dataUrl);
+  if (!match) {
+    throw new ManualPaymentError('The receipt photo must be a base64 image data URL');
+  }
+
+  return { mimeType: match[1].toLowerCase(), buffer: Buffer.from(match[2], 'base64') };
+}
+
+async function uploadReceipt(jobId: string, dataUrl: string): Promise<string> {
+  const { mimeType, buffer } = decodeDataUrl(dataUrl);
+  const extension = mimeType.split('/')[1].replace('jpeg', 'jpg');
+
+  const upload = await uploadDocument({
+    folder: `receipts/${jobId}`,
+    fileName: `receipt-${Date.now()}.${extension}`,
+    buffer,
+    mimeType,
+  });
+
+  if (!upload.success) {
+    throw new Error(upload.error);
+  }
+
+  return upload.fileId;
+}
+
+/**
+ * Record an offline payment on a job. When the job has an accepted quote the
+ * payment is applied to its schedule and may not exceed the balance due.
+ */
+export async function recordManualPayment(input: RecordManualPaymentInput) {
+  validateManualPayment(input);
+
+  const job = await prisma.job.findUnique({
+    where: { id: input.jobId },
+    select: { id: true, customerId: true, mechanicId: true },
+  });
+
+  if (!job) {
+    throw new ManualPaymentError('Job not found');
+  }
+
+  const quote = await prisma.quote.findFirst({
+    where: { jobId: job.id, status: 'ACCEPTED' },
+    select: { id: true, total: true, depositPercent: true, depositAmount: true },
+  });
+
+  const amount = roundCurrency(input.amount);
+  let kind: PaymentKind = input.kind ?? 'FULL';
+
+  if (quote) {
+    const schedule = await getQuotePaymentSchedule(quote);
+
+    if (!schedule.next) {
+      throw new ManualPaymentError('This quote has already been paid in full');
+    }
+
+    if (amount > schedule.balanceDue) {
+      throw new ManualPaymentError(`Amount exceeds the balance due of $${schedule.balanceDue.toFixed(2)}`);
+    }
+
+    kind = input.kind ?? schedule.next.kind;
+  }
+
+  const receiptFileId = input.receiptPhoto ? await uploadReceipt(job.id, input.receiptPhoto) : null;
+
+  const payment = await prisma.payment.create({
+    data: {
+      jobId: job.id,
+      customerId: job.customerId,
+      quoteId: quote?.id ?? null,
+      kind,
+      source: input.source,
+      stripePaymentId: null,
+      amount,
+      status: 'SUCCEEDED',
+      paymentMethod: input.source.toLowerCase(),
+      checkNumber: input.source === 'CHECK' ? input.checkNumber?.trim() : null,
+      receiptFileId,
+      terminalReference: input.source === 'TAP_TO_PAY' ? input.terminalReference?.trim() : null,
+      recordedById: input.recordedById,
+      attestation: MANUAL_PAYMENT_ATTESTATION,
+      attestedAt: new Date(),
+      reconciliationStatus: 'PENDING',
+      reconciliationNote: input.note ?? null,
+    },
+  });
+
+  const schedule = await syncQuotePayments(quote?.id);
+  await postPaymentEarnings(payment.id);
+
+  await recordJobEvent({
+    jobId: job.id,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_RECORDED',
+    description: `${SOURCE_LABELS[input.source]} payment of $${amount.toFixed(2)} recorded`,
+    actorId: input.recordedById,
+    metadata: { paymentId: payment.id, source: input.source, kind },
+  });
+
+  return { payment, schedule };
+}
+
+/**
+ * Admin decision on an offline payment. A rejected payment is canceled and
+ * no longer counts toward the quote, so a note explaining why is required.
+ */
+export async function reconcileManualPayment(input: {
+  paymentId: string;
+  adminId: string;
+  decision: Exclude<ReconciliationStatus, 'PENDING'>;
+  note?: string;
+}) {
+  const payment = await prisma.payment.findUnique({ where: { id: input.paymentId } });
+
+  if (!payment) {
+    throw new ManualPaymentError('Payment not found');
+  }
+
+  const { source } = payment;
+  if (!isManualPaymentSource(source)) {
+    throw new ManualPaymentError('Only cash, check and tap-to-pay payments are reconciled');
+  }
+
+  if (payment.reconciliationStatus !== 'PENDING') {
+    throw new ManualPaymentError(`This payment was already ${(payment.reconciliationStatus ?? 'reconciled').toLowerCase()}`);
+  }
+
+  if (input.decision === 'REJECTED' && !input.note?.trim()) {
+    throw new ManualPaymentError('Explain why the payment is being rejected');
+  }
+
+  const updated = await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      reconciliationStatus: input.decision,
+      reconciledById: input.adminId,
+      reconciledAt: new Date(),
+      reconciliationNote: input.note?.trim() || payment.reconciliationNote,
+      ...(input.decision === 'REJECTED' ? { status: 'CANCELED' } : {}),
+    },
+  });
+
+  if (input.decision === 'REJECTED') {
+    await syncQuotePayments(payment.quoteId);
+    await reversePaymentEarnings(payment.id, `${SOURCE_LABELS[source]} payment rejected`);
+  }
+
+  await recordJobEvent({
+    jobId: payment.jobId,
+    kind: 'PAYMENT',
+    eventType: input.decision === 'RECONCILED' ? 'PAYMENT_RECONCILED' : 'PAYMENT_REJECTED',
+    description: input.decision === 'RECONCILED'
+      ? `${SOURCE_LABELS[source]} payment of $${payment.amount.toFixed(2)} reconciled`
+      : `${SOURCE_LABELS[source]} payment of $${payment.amount.toFixed(2)} rejected: ${input.note!.trim()}`,
+    actorId: input.adminId,
+    metadata: { paymentId: payment.id, decision: input.decision },
+  });
+
+  return updated;
+}
+
+export interface RevenueBySource {
+  card: number;
+  cash: number;
+  check: number;
+  tapToPay: number;
+  offline: number; // cash + check + tap to pay
+  credit: number; // Paid from account credit; not new money
+}
+
+/**
+ * Collected revenue, net of refunds, split by where the money came from.
+ * Payments without a source predate offline recording and are card payments.
+ */
+export function revenueBySource(
+  payments: { amount: number; refundAmount?: number | null; source?: string | null }[]
+): RevenueBySource {
+  const totals: RevenueBySource = { card: 0, cash: 0, check: 0, tapToPay: 0, offline: 0, credit: 0 };
+
+  for (const payment of payments) {
+    const amount = payment.amount - (payment.refundAmount ?? 0);
+
+    switch (payment.source) {
+      case 'CASH':
+        totals.cash = roundCurrency(totals.cash + amount);
+        break;
+      case 'CHECK':
+        totals.check = roundCurrency(totals.check + amount);
+        break;
+      case 'TAP_TO_PAY':
+        totals.tapToPay = roundCurrency(totals.tapToPay + amount);
+        break;
+      case 'ACCOUNT_CREDIT':
+        totals.credit = roundCurrency(totals.credit + amount);
+        break;
+      default:
+        totals.card = roundCurrency(totals.card + amount);
+    }
+  }
+
+  totals.offline = roundCurrency(totals.cash + totals.check + totals.tapToPay);
+  return totals;
+}
@@ -0,0 +1,311 @@
+import { prisma } from '../../lib/prisma';
+import { sendNotification } from './notifications';
+import { uploadDocument } from './storage';
+
+/**
+ * Mechanic Verification Service
+ *
+ * Mechanics submit a selfie, government ID, ASE certification and proof of
+ * insurance. Files are stored through storage.ts as authenticated documents
+ * that admins open with signed URLs. An admin approves or rejects the
+ * submission; a mechanic counts as verified while their latest approved
+ * submission has no expired document, and only verified mechanics can be
+ * assigned to jobs. Expiry reminders go out as documents approach expiry.
+ */
+
+export type VerificationDocumentType = 'SELFIE' | 'ID' | 'ASE_CERTIFICATION' | 'INSURANCE'; // mirrors the Prisma enum
+
+export const VERIFICATION_DOCUMENT_TYPES: VerificationDocumentType[] = ['SELFIE', 'ID', 'ASE_CERTIFICATION', 'INSURANCE'];
+
+/**
+ * Documents that lapse and must carry an expiry date
+ */
+export const EXPIRING_DOCUMENT_TYPES: VerificationDocumentType[] = ['ID', 'ASE_CERTIFICATION', 'INSURANCE'];
+
+export const DOCUMENT_LABELS: Record<VerificationDocumentType, string> = {
+  SELFIE: 'Selfie',
+  ID: 'Government ID',
+  ASE_CERTIFICATION: 'ASE certification',
+  INSURANCE: 'Insurance certificate',
+};
+
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'application/pdf'];
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days before expiry the first reminder is sent; a second goes out a week before
+ */
+export const EXPIRY_REMINDER_DAYS = 30;
+const FINAL_REMINDER_DAYS = 7;
+
+export interface VerificationDocumentUpload {
+  type: VerificationDocumentType;
+  base64Data: string; // File contents, base64 without a data: prefix
+  mimeType: string;
+  expiresAt?: Date;
+}
+
+export interface VerificationState {
+  verified: boolean;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | null; // Latest submission
+  expiredDocuments: VerificationDocumentType[];
+  expiringDocuments: { type: VerificationDocumentType; expiresAt: Date }[]; // Within EXPIRY_REMINDER_DAYS
+}
+
+/**
+ * A submission or review that breaks the verification rules
+ */
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+function validateDocuments(documents: VerificationDocumentUpload[], now: Date) {
+  for (const type of VERIFICATION_DOCUMENT_TYPES) {
+    const matching = documents.filter((document) => document.type === type);
+    if (matching.length !== 1) {
+      throw new VerificationError(`Upload one ${DOCUMENT_LABELS[type].toLowerCase()}`);
+    }
+  }
+
+  for (const document of documents) {
+    const label = DOCUMENT_LABELS[document.type];
+
+    if (!ALLOWED_MIME_TYPES.includes(document.mimeType)) {
+      throw new VerificationError(`${label} must be a JPEG, PNG, HEIC or PDF file`);
+    }
+
+    // Base64 encodes 3 bytes in 4 characters
+    if (Math.floor(document.base64Data.length * 3 / 4) > MAX_DOCUMENT_BYTES) {
+      throw new VerificationError(`${label} must be under 10 MB`);
+    }
+
+    if (EXPIRING_DOCUMENT_TYPES.includes(document.type)) {
+      if (!document.expiresAt) {
+        throw new VerificationError(`${label} needs an expiry date`);
+      }
+      if (document.expiresAt <= now) {
+        throw new VerificationError(`${label} has already expired`);
+      }
+    }
+  }
+}
+
+/**
+ * Store the documents and open a submission for admin review
+ */
+export async function submitVerification(input: {
+  mechanicId: string;
+  fullName: string;
+  documents: VerificationDocumentUpload[];
+  now?: Date;
+}) {
+  const now = input.now ?? new Date();
+  validateDocuments(input.documents, now);
+
+  const pending = await prisma.mechanicVerification.findFirst({
+    where: { mechanicId: input.mechanicId, status: 'PENDING' },
+    select: { id: true },
+  });
+
+  if (pending) {
+    throw new VerificationError('Verification already submitted and pending review');
+  }
+
+  const stored = [];
+  for (const document of input.documents) {
+    const extension = document.mimeType === 'application/pdf' ? 'pdf' : document.mimeType.split('/')[1];
+    const upload = await uploadDocument({
+      folder: `verifications/${input.mechanicId}`,
+      fileName: `${document.type.toLowerCase()}-${now.getTime()}.${extension}`,
+      buffer: Buffer.from(document.base64Data, 'base64'),
+      mimeType: document.mimeType,
+    });
+
+    if (!upload.success) {
+      throw new Error(`Failed to store ${DOCUMENT_LABELS[document.type].toLowerCase()}`);
+    }
+
+    stored.push({
+      type: document.type,
+      fileId: upload.fileId,
+      mimeType: document.mimeType,
+      expiresAt: document.expiresAt ?? null,
+    });
+  }
+
+  return prisma.mechanicVerification.create({
+    data: {
+      mechanicId: input.mechanicId,
+      fullName: input.fullName,
+      status: 'PENDING',
+      submittedAt: now,
+      documents: { create: stored },
+    },
+    include: { documents: true },
+  });
+}
+
+/**
+ * Approve or reject a pending submission. Rejections need a note telling
+ * the mechanic what to fix.
+ */
+export async function reviewVerification(input: {
+  verificationId: string;
+  reviewerId: string;
+  decision: 'APPROVED' | 'REJECTED';
+  notes?: string;
+}) {
+  const verification = await prisma.mechanicVerification.findUnique({
+    where: { id: input.verificationId },
+    select: { id: true, mechanicId: true, status: true },
+  });
+
+  if (!verification) {
+    throw new VerificationError('Verification submission not found');
+  }
+
+  if (verification.status !== 'PENDING') {
+    throw new VerificationError(`This submission was already ${verification.status.toLowerCase()}`);
+  }
+
+  const notes = input.notes?.trim() || null;
+  if (input.decision === 'REJECTED' && !notes) {
+    throw new VerificationError('Tell the mechanic why the submission was rejected');
+  }
+
+  const updated = await prisma.mechanicVerification.update({
+    where: { id: verification.id },
+    data: {
+      status: input.decision,
+      reviewedAt: new Date(),
+      reviewedBy: input.reviewerId,
+      reviewNotes: notes,
+    },
+  });
+
+  await sendNotification({
+    userId: verification.mechanicId,
+    type: 'VERIFICATION_UPDATE',
+    title: input.decision === 'APPROVED' ? 'Verification Approved' : 'Verification Rejected',
+    body: input.decision === 'APPROVED'
+      ? 'You are verified and can now be assigned jobs.'
+      : `Please resubmit your documents: ${notes}`,
+    data: { verificationId: verification.id, status: input.decision },
+  });
+
+  return updated;
+}
+
+/**
+ * Where the mechanic stands. Verified while their latest approved submission
+ * has no expired document, so renewing documents does not interrupt work
+ * while the new submission waits for review.
+ */
+export async function getVerificationState(mechanicId: string, now: Date = new Date()): Promise<VerificationState> {
+  const [latest, approved] = await Promise.all([
+    prisma.mechanicVerification.findFirst({
+      where: { mechanicId },
+      orderBy: { submittedAt: 'desc' },
+      select: { status: true },
+    }),
+    prisma.mechanicVerification.findFirst({
+      where: { mechanicId, status: 'APPROVED' },
+      orderBy: { submittedAt: 'desc' },
+      include: { documents: { select: { type: true, expiresAt: true } } },
+    }),
+  ]);
+
+  if (!latest) {
+    return { verified: false, status: null, expiredDocuments: [], expiringDocuments: [] };
+  }
+
+  const reminderCutoff = new Date(now.getTime() + EXPIRY_REMINDER_DAYS * DAY_MS);
+  const dated = (approved?.documents ?? [])
+    .filter((document): document is { type: VerificationDocumentType; expiresAt: Date } => document.expiresAt != null);
+
+  const expiredDocuments = dated
+    .filter((document) => document.expiresAt <= now)
+    .map((document) => document.type);
+  const expiringDocuments = dated
+    .filter((document) => document.expiresAt > now && document.expiresAt <= reminderCutoff);
+
+  return {
+    verified: Boolean(approved) && expiredDocuments.length === 0,
+    status: latest.status,
+    expiredDocuments,
+    expiringDocuments,
+  };
+}
+
+export async function isMechanicVerified(mechanicId: string, now: Date = new Date()): Promise<boolean> {
+  return (await getVerificationState(mechanicId, now)).verified;
+}
+
+/**
+ * Remind mechanics whose approved documents expire within
+ * EXPIRY_REMINDER_DAYS, again a week out, and once they have expired. Each
+ * reminder is sent once; safe to run daily.
+ */
+export async function notifyExpiringDocuments(now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() + EXPIRY_REMINDER_DAYS * DAY_MS);
+
+  const documents = await prisma.verificationDocument.findMany({
+    where: {
+      expiresAt: { not: null, lte: cutoff },
+      verification: { status: 'APPROVED' },
+    },
+    include: { verification: { select: { id: true, mechanicId: true } } },
+  });
+
+  let notified = 0;
+
+  for (const document of documents) {
+    const { expiresAt } = document;
+    if (!expiresAt) continue;
+    const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+
+    // The reminder this document is due for, and when that window opened
+    const windowStart = daysLeft <= 0
+      ? expiresAt
+      : daysLeft <= FINAL_REMINDER_DAYS
+        ? new Date(expiresAt.getTime() - FINAL_REMINDER_DAYS * DAY_MS)
+        : new Date(expiresAt.getTime() - EXPIRY_REMINDER_DAYS * DAY_MS);
+
+    if (document.expiryNotifiedAt && document.expiryNotifiedAt >= windowStart) {
+      continue;
+    }
+
+    // Once renewed documents are submitted, stop reminding about the old ones
+    const latest = await prisma.mechanicVerification.findFirst({
+      where: { mechanicId: document.verification.mechanicId },
+      orderBy: { submittedAt: 'desc' },
+      select: { id: true },
+    });
+    if (latest?.id !== document.verification.id) {
+      continue;
+    }
+
+    const label = DOCUMENT_LABELS[document.type as VerificationDocumentType];
+    await sendNotification({
+      userId: document.verification.mechanicId,
+      type: 'DOCUMENT_EXPIRING',
+      title: daysLeft <= 0 ? `${label} Expired` : `${label} Expiring`,
+      body: daysLeft <= 0
+        ? `Your ${label.toLowerCase()} has expired. Upload a current one to keep receiving jobs.`
+        : `Your ${label.toLowerCase()} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}. Upload a renewed copy to stay verified.`,
+      data: { verificationId: document.verification.id, documentType: document.type, expiresAt: expiresAt.toISOString() },
+    });
+
+    await prisma.verificationDocument.update({
+      where: { id: document.id },
+      data: { expiryNotifiedAt: now },
+    });
+    notified++;
+  }
+
+  return { notified };
+}
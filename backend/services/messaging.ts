@@ -1,4 +1,5 @@
 import { prisma } from '../../lib/prisma';
+import { recordJobEvent } from './job-timeline';
 import { sendNewMessageNotification } from './notifications';
 
 /**
@@ -96,6 +97,15 @@ export async function sendMessage(data: MessageData): Promise<{
     const messagePreview =
       type === 'TEXT' ? content.substring(0, 50) : `Sent ${type.toLowerCase()}`;
 
+    await recordJobEvent({
+      jobId,
+      kind: 'MESSAGE',
+      eventType: `MESSAGE_${type}`,
+      description: `${senderName} sent a message`,
+      actorId: senderId,
+      metadata: { messageId: message.id, type },
+    });
+
     // Send push notification to recipient
     if (recipientId) {
       await sendNewMessageNotification(
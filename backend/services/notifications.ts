@@ -20,9 +20,20 @@ export type NotificationType =
   | 'QUOTE_RECEIVED'
   | 'QUOTE_ACCEPTED'
   | 'PAYMENT_RECEIVED'
+  | 'PAYMENT_FAILED'
+  | 'PAYMENT_REFUNDED'
+  | 'PAYMENT_DISPUTED'
   | 'JOB_COMPLETED'
   | 'MECHANIC_ASSIGNED'
-  | 'MECHANIC_EN_ROUTE';
+  | 'MECHANIC_EN_ROUTE'
+  | 'MECHANIC_ARRIVING'
+  | 'MECHANIC_ARRIVED'
+  | 'PAYOUT_SENT'
+  | 'INVOICE_ISSUED'
+  | 'ORGANIZATION_INVITE'
+  | 'VERIFICATION_UPDATE'
+  | 'DOCUMENT_EXPIRING'
+  | 'JOB_OFFER';
 
 /**
  * Notification payload interface
@@ -264,20 +275,22 @@ export async function getUserNotifications(
 
 /**
  * Mark notification as read
+ * Scoped to the owning user so one user cannot touch another's notifications
  */
 export async function markNotificationAsRead(
-  notificationId: string
+  notificationId: string,
+  userId: string
 ): Promise<{ success: boolean }> {
   try {
-    await prisma.notification.update({
-      where: { id: notificationId },
+    const result = await prisma.notification.updateMany({
+      where: { id: notificationId, userId },
       data: {
         read: true,
         readAt: new Date(),
       },
     });
 
-    return { success: true };
+    return { success: result.count > 0 };
   } catch (error) {
     console.error('Error marking notification as read:', error);
     return { success: false };
@@ -311,16 +324,18 @@ export async function markAllNotificationsAsRead(
 
 /**
  * Delete a notification
+ * Scoped to the owning user so one user cannot touch another's notifications
  */
 export async function deleteNotification(
-  notificationId: string
+  notificationId: string,
+  userId: string
 ): Promise<{ success: boolean }> {
   try {
-    await prisma.notification.delete({
-      where: { id: notificationId },
+    const result = await prisma.notification.deleteMany({
+      where: { id: notificationId, userId },
     });
 
-    return { success: true };
+    return { success: result.count > 0 };
   } catch (error) {
     console.error('Error deleting notification:', error);
     return { success: false };
@@ -0,0 +1,430 @@
+import { prisma } from '../../lib/prisma';
+import { buildConsolidatedInvoice, invoicePeriod } from './invoices';
+import { sendNotification } from './notifications';
+
+/**
+ * Organizations Service
+ *
+ * Fleet and business accounts. An organization has members (a user belongs
+ * to at most one, and joins by accepting an owner's invitation), vehicles
+ * shared between them and per-member limits on the quotes they may approve. Jobs its members request are billed to the
+ * organization on one invoice per month, due on its net terms, instead of
+ * being charged job by job.
+ */
+
+export type OrganizationRole = 'OWNER' | 'MEMBER'; // mirrors the OrganizationRole Prisma enum
+
+/**
+ * How long an invitation can be accepted
+ */
+export const INVITATION_VALID_FOR_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+/**
+ * An organization request that cannot be carried out as given
+ */
+export class OrganizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+/**
+ * The user's membership with its organization, or null
+ */
+export async function getMembership(userId: string) {
+  return prisma.organizationMember.findUnique({
+    where: { userId },
+    include: {
+      organization: {
+        select: { id: true, name: true, billingEmail: true, billingAddress: true, paymentTermsDays: true },
+      },
+    },
+  });
+}
+
+/**
+ * Set up an organization with the user as its first owner
+ */
+export async function createOrganization(input: {
+  ownerId: string;
+  name: string;
+  billingEmail: string;
+  billingAddress?: string;
+}) {
+  if (await getMembership(input.ownerId)) {
+    throw new OrganizationError('You already belong to an organization');
+  }
+
+  return prisma.organization.create({
+    data: {
+      name: input.name,
+      billingEmail: input.billingEmail,
+      billingAddress: input.billingAddress,
+      members: {
+        create: { userId: input.ownerId, role: 'OWNER' },
+      },
+    },
+  });
+}
+
+/**
+ * Invite a customer to the organization. Nothing changes for them until
+ * they accept.
+ */
+export async function inviteMember(input: {
+  organizationId: string;
+  invitedById: string;
+  email: string;
+  role: OrganizationRole;
+  approvalLimit: number | null;
+  now?: Date;
+}) {
+  const now = input.now ?? new Date();
+
+  const user = await prisma.user.findUnique({
+    where: { email: input.email.toLowerCase() },
+    select: { id: true, role: true },
+  });
+
+  if (!user || user.role !== 'CUSTOMER') {
+    throw new OrganizationError('No customer account uses that email');
+  }
+
+  if (await getMembership(user.id)) {
+    throw new OrganizationError('That customer already belongs to an organization');
+  }
+
+  const pending = await prisma.organizationInvitation.findFirst({
+    where: { organizationId: input.organizationId, userId: user.id, status: 'PENDING', expiresAt: { gt: now } },
+    select: { id: true },
+  });
+
+  if (pending) {
+    throw new OrganizationError('That customer has already been invited');
+  }
+
+  const invitation = await prisma.organizationInvitation.create({
+    data: {
+      organizationId: input.organizationId,
+      userId: user.id,
+      invitedById: input.invitedById,
+      role: input.role,
+      approvalLimit: input.approvalLimit,
+      expiresAt: new Date(now.getTime() + INVITATION_VALID_FOR_MS),
+    },
+    include: { organization: { select: { name: true } } },
+  });
+
+  await sendNotification({
+    userId: user.id,
+    type: 'ORGANIZATION_INVITE',
+    title: 'Organization Invitation',
+    body: `You've been invited to join ${invitation.organization.name}. Accept to share its vehicles and monthly billing.`,
+    data: { organizationInvitationId: invitation.id, organizationId: input.organizationId },
+  });
+
+  return invitation;
+}
+
+/**
+ * Invitations the user can still accept
+ */
+export async function listPendingInvitations(userId: string, now: Date = new Date()) {
+  return prisma.organizationInvitation.findMany({
+    where: { userId, status: 'PENDING', expiresAt: { gt: now } },
+    include: {
+      organization: { select: { id: true, name: true } },
+      invitedBy: { select: { firstName: true, lastName: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Accept or decline an invitation addressed to the user. Accepting makes
+ * them a member with the role and limit the owner chose.
+ */
+export async function respondToInvitation(input: {
+  userId: string;
+  invitationId: string;
+  accept: boolean;
+  now?: Date;
+}) {
+  const now = input.now ?? new Date();
+
+  const invitation = await prisma.organizationInvitation.findUnique({ where: { id: input.invitationId } });
+
+  if (!invitation || invitation.userId !== input.userId) {
+    throw new OrganizationError('Invitation not found');
+  }
+
+  if (invitation.status !== 'PENDING') {
+    throw new OrganizationError(`This invitation was already ${invitation.status.toLowerCase()}`);
+  }
+
+  if (invitation.expiresAt <= now) {
+    throw new OrganizationError('This invitation has expired');
+  }
+
+  if (input.accept && await getMembership(input.userId)) {
+    throw new OrganizationError('You already belong to an organization');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Guard against a second answer or a revocation landing first
+    const { count } = await tx.organizationInvitation.updateMany({
+      where: { id: invitation.id, status: 'PENDING' },
+      data: { status: input.accept ? 'ACCEPTED' : 'DECLINED', respondedAt: now },
+    });
+
+    if (count === 0) {
+      throw new OrganizationError('This invitation is no longer open');
+    }
+
+    if (!input.accept) {
+      return null;
+    }
+
+    return tx.organizationMember.create({
+      data: {
+        organizationId: invitation.organizationId,
+        userId: invitation.userId,
+        role: invitation.role,
+        approvalLimit: invitation.approvalLimit,
+      },
+    });
+  });
+}
+
+/**
+ * Withdraw an invitation that has not been answered yet
+ */
+export async function revokeInvitation(organizationId: string, invitationId: string) {
+  const { count } = await prisma.organizationInvitation.updateMany({
+    where: { id: invitationId, organizationId, status: 'PENDING' },
+    data: { status: 'REVOKED' },
+  });
+
+  if (count === 0) {
+    throw new OrganizationError('Invitation not found');
+  }
+}
+
+async function loadMember(organizationId: string, memberId: string) {
+  const member = await prisma.organizationMember.findUnique({ where: { id: memberId } });
+
+  if (!member || member.organizationId !== organizationId) {
+    throw new OrganizationError('Member not found');
+  }
+
+  return member;
+}
+
+/**
+ * An organization must always keep an owner
+ */
+async function assertOtherOwner(organizationId: string, memberId: string) {
+  const owners = await prisma.organizationMember.count({
+    where: { organizationId, role: 'OWNER', id: { not: memberId } },
+  });
+
+  if (owners === 0) {
+    throw new OrganizationError('The organization needs at least one other owner first');
+  }
+}
+
+export async function updateMember(input: {
+  organizationId: string;
+  memberId: string;
+  role?: OrganizationRole;
+  approvalLimit?: number | null;
+}) {
+  const member = await loadMember(input.organizationId, input.memberId);
+
+  if (member.role === 'OWNER' && input.role === 'MEMBER') {
+    await assertOtherOwner(input.organizationId, member.id);
+  }
+
+  return prisma.organizationMember.update({
+    where: { id: member.id },
+    data: { role: input.role, approvalLimit: input.approvalLimit },
+  });
+}
+
+export async function removeMember(organizationId: string, memberId: string) {
+  const member = await loadMember(organizationId, memberId);
+
+  if (member.role === 'OWNER') {
+    await assertOtherOwner(organizationId, member.id);
+  }
+
+  await prisma.organizationMember.delete({ where: { id: member.id } });
+}
+
+/**
+ * Share a vehicle the member owns with the rest of the organization
+ */
+export async function shareVehicle(userId: string, vehicleId: string) {
+  const membership = await getMembership(userId);
+  if (!membership) {
+    throw new OrganizationError('You do not belong to an organization');
+  }
+
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId } });
+  if (!vehicle || vehicle.customerId !== userId) {
+    throw new OrganizationError('Vehicle not found');
+  }
+
+  return prisma.vehicle.update({
+    where: { id: vehicle.id },
+    data: { organizationId: membership.organizationId },
+  });
+}
+
+/**
+ * Whether the user may request service on the vehicle: their own, or one
+ * shared with their organization
+ */
+export async function canUseVehicle(
+  userId: string,
+  vehicle: { customerId: string; organizationId?: string | null }
+): Promise<boolean> {
+  if (vehicle.customerId === userId) return true;
+  if (!vehicle.organizationId) return false;
+
+  const membership = await getMembership(userId);
+  return membership?.organizationId === vehicle.organizationId;
+}
+
+/**
+ * Throw unless the user may approve a quote of this total for the
+ * organization. Owners approve any amount; members up to their limit.
+ */
+export async function assertCanApproveQuote(userId: string, organizationId: string, total: number) {
+  const membership = await getMembership(userId);
+
+  if (!membership || membership.organizationId !== organizationId) {
+    throw new OrganizationError('Only members of the organization can approve this quote');
+  }
+
+  if (membership.role === 'MEMBER' && membership.approvalLimit !== null && total > membership.approvalLimit) {
+    throw new OrganizationError(
+      `This quote is over your approval limit of $${membership.approvalLimit.toFixed(2)}. Ask an organization owner to approve it.`
+    );
+  }
+}
+
+/**
+ * Issue (or re-issue while still open) the organization's invoice for a
+ * month, attaching the jobs it covers. Owners are notified.
+ */
+export async function issueOrganizationInvoice(organizationId: string, period: string, now: Date = new Date()) {
+  const { start, end } = invoicePeriod(period);
+
+  if (end > now) {
+    throw new OrganizationError('A month is invoiced once it has ended');
+  }
+
+  const invoice = await buildConsolidatedInvoice(organizationId, period);
+  if (!invoice) {
+    throw new OrganizationError('Organization not found');
+  }
+
+  if (invoice.status === 'PAID' || invoice.status === 'VOID') {
+    throw new OrganizationError(`Invoice ${invoice.invoiceNumber} is already ${invoice.status.toLowerCase()}`);
+  }
+
+  if (invoice.lines.length === 0) {
+    return null;
+  }
+
+  const dueAt = new Date(now.getTime() + invoice.paymentTermsDays * 24 * 60 * 60 * 1000);
+
+  const issued = await prisma.$transaction(async (tx) => {
+    const record = await tx.organizationInvoice.upsert({
+      where: { organizationId_periodStart: { organizationId, periodStart: start } },
+      create: {
+        organizationId,
+        invoiceNumber: invoice.invoiceNumber,
+        periodStart: start,
+        periodEnd: end,
+        issuedAt: now,
+        dueAt,
+        total: invoice.balanceDue,
+      },
+      update: { total: invoice.balanceDue },
+    });
+
+    await tx.job.updateMany({
+      where: { id: { in: invoice.lines.map((line) => line.jobId) } },
+      data: { organizationInvoiceId: record.id },
+    });
+
+    return record;
+  });
+
+  const owners = await prisma.organizationMember.findMany({
+    where: { organizationId, role: 'OWNER' },
+    select: { userId: true },
+  });
+
+  for (const owner of owners) {
+    await sendNotification({
+      userId: owner.userId,
+      type: 'INVOICE_ISSUED',
+      title: 'Monthly Invoice',
+      body: `Invoice ${issued.invoiceNumber} for $${issued.total.toFixed(2)} is due ${issued.dueAt.toISOString().slice(0, 10)}`,
+      data: { organizationInvoiceId: issued.id, invoiceNumber: issued.invoiceNumber },
+    });
+  }
+
+  return issued;
+}
+
+/**
+ * Invoice every organization with jobs completed in the month
+ */
+export async function issueMonthlyInvoices(period: string, now: Date = new Date()) {
+  const { start, end } = invoicePeriod(period);
+
+  const organizations: { organizationId: string | null }[] = await prisma.job.findMany({
+    where: { organizationId: { not: null }, status: 'COMPLETED', completedAt: { gte: start, lt: end } },
+    distinct: ['organizationId'],
+    select: { organizationId: true },
+  });
+
+  const issued = [];
+  const skipped: { organizationId: string; reason: string }[] = [];
+
+  for (const { organizationId } of organizations) {
+    if (!organizationId) continue;
+
+    try {
+      const invoice = await issueOrganizationInvoice(organizationId, period, now);
+      if (invoice) issued.push(invoice);
+    } catch (error) {
+      if (!(error instanceof OrganizationError)) throw error;
+      skipped.push({ organizationId, reason: error.message });
+    }
+  }
+
+  return { issued, skipped };
+}
+
+export async function markOrganizationInvoicePaid(invoiceId: string, paidAt: Date = new Date()) {
+  const invoice = await prisma.organizationInvoice.findUnique({ where: { id: invoiceId } });
+
+  if (!invoice) {
+    throw new OrganizationError('Invoice not found');
+  }
+
+  if (invoice.status !== 'OPEN') {
+    throw new OrganizationError(`Invoice ${invoice.invoiceNumber} is already ${invoice.status.toLowerCase()}`);
+  }
+
+  return prisma.organizationInvoice.update({
+    where: { id: invoice.id },
+    data: { status: 'PAID', paidAt },
+  });
+}
@@ -0,0 +1,166 @@
+import type Stripe from 'stripe';
+import { validatedEnv } from '../env-validation';
+import { createStripePaymentProvider } from './stripe-payment-provider';
+import { createFakePaymentProvider } from './fake-payment-provider';
+
+/**
+ * Payment Provider
+ *
+ * Everything the backend asks of a card processor, behind one interface so
+ * routers and services never call Stripe directly. The provider is chosen
+ * with PAYMENT_PROVIDER (see env-validation.ts): 'stripe' in real
+ * deployments, 'fake' for tests and offline development.
+ *
+ * Amounts are in cents and intents, refunds and webhook events use Stripe's
+ * vocabulary; other processors translate into it.
+ */
+
+export type PaymentProviderName = 'stripe' | 'fake';
+
+/**
+ * Payment intent lifecycle (Stripe's statuses)
+ */
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action' // 3D Secure or another customer step
+  | 'requires_capture'
+  | 'processing'
+  | 'succeeded'
+  | 'canceled';
+
+export interface ProviderPaymentIntent {
+  id: string;
+  clientSecret: string | null;
+  amount: number; // cents
+  amountCaptured?: number; // cents, once captured
+  currency: string;
+  status: PaymentIntentStatus;
+  paymentMethod: string | null;
+  metadata: Record<string, string>;
+  nextActionUrl?: string | null; // Where the customer completes 3D Secure
+}
+
+export interface CreateIntentInput {
+  amount: number; // cents
+  currency?: string;
+  customerId?: string; // Provider customer id
+  paymentMethodId?: string;
+  confirm?: boolean;
+  confirmationMethod?: 'automatic' | 'manual'; // 'manual' when the server confirms
+  captureMethod?: 'automatic' | 'manual';
+  description?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface RefundInput {
+  paymentIntentId: string;
+  amount?: number; // cents; the full amount when omitted
+  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer';
+  metadata?: Record<string, string>;
+}
+
+export interface ProviderRefund {
+  id: string;
+  paymentIntentId: string;
+  amount: number; // cents
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled';
+}
+
+export interface ProviderCustomer {
+  id: string;
+  email: string | null;
+  name: string | null;
+}
+
+export interface ProviderPaymentMethod {
+  id: string;
+  type: string;
+  card: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  } | null;
+}
+
+/**
+ * Saves a card to a customer without charging it
+ */
+export interface ProviderSetupIntent {
+  id: string;
+  clientSecret: string | null;
+  status: 'requires_payment_method' | 'requires_confirmation' | 'requires_action' | 'processing' | 'succeeded' | 'canceled';
+  paymentMethod: string | null;
+}
+
+/**
+ * Webhook events keep Stripe's shape so one processor handles every provider
+ */
+export type ProviderWebhookEvent = Stripe.Event;
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createCustomer(input: { email: string; name: string; metadata?: Record<string, string> }): Promise<ProviderCustomer>;
+  createIntent(input: CreateIntentInput): Promise<ProviderPaymentIntent>;
+  retrieveIntent(paymentIntentId: string): Promise<ProviderPaymentIntent>;
+  confirmIntent(paymentIntentId: string, paymentMethodId?: string): Promise<ProviderPaymentIntent>;
+  captureIntent(paymentIntentId: string, amount?: number): Promise<ProviderPaymentIntent>;
+  cancelIntent(paymentIntentId: string): Promise<ProviderPaymentIntent>;
+  refund(input: RefundInput): Promise<ProviderRefund>;
+  createSetupIntent(customerId: string): Promise<ProviderSetupIntent>;
+  listPaymentMethods(customerId: string): Promise<ProviderPaymentMethod[]>;
+  detachPaymentMethod(paymentMethodId: string): Promise<void>;
+  verifyWebhook(payload: string, signature: string | undefined | null): ProviderWebhookEvent;
+}
+
+/**
+ * The processor declined or rejected a request (card declined, bad amount,
+ * unknown intent). `code` is the processor's error code, e.g. 'card_declined'.
+ */
+export class PaymentProviderError extends Error {
+  readonly code: string;
+  readonly declineCode?: string;
+
+  constructor(code: string, message: string, declineCode?: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+    this.code = code;
+    this.declineCode = declineCode;
+  }
+}
+
+/**
+ * The webhook signature header is missing or does not match the payload
+ */
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * The configured provider, created on first use
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    provider = validatedEnv.PAYMENT_PROVIDER === 'fake'
+      ? createFakePaymentProvider()
+      : createStripePaymentProvider({
+          secretKey: validatedEnv.STRIPE_SECRET_KEY ?? '',
+          webhookSecret: validatedEnv.STRIPE_WEBHOOK_SECRET,
+        });
+  }
+
+  return provider;
+}
+
+/**
+ * Swap the provider, e.g. for a fake with scripted behavior in tests
+ */
+export function setPaymentProvider(next: PaymentProvider | null): void {
+  provider = next;
+}
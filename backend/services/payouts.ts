@@ -0,0 +1,507 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+import { validatedEnv } from '../env-validation';
+import { getEarningsBalance, postTransaction, type LedgerLine } from './earnings';
+import { sendNotification } from './notifications';
+
+/**
+ * Payouts Service
+ *
+ * Weekly payout batches from the earnings ledger. A batch pays each
+ * mechanic's available balance as of the end of the previous week (Monday
+ * to Sunday, UTC) and settles the in-person cash netted against it. Batches
+ * export as CSV for review or as a NACHA PPD file for the bank.
+ *
+ * Routing and account numbers are stored encrypted and only decrypted to
+ * write the NACHA file; everything else works from the last four digits.
+ */
+
+/**
+ * Smallest balance worth an ACH transfer; smaller balances carry over
+ */
+export const MIN_PAYOUT_AMOUNT = 1;
+
+/**
+ * A payout request that cannot be carried out as given
+ */
+export class PayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+export type PayoutAccountType = 'CHECKING' | 'SAVINGS';
+
+export interface PayoutAccount {
+  accountHolder: string;
+  routingNumber: string;
+  accountNumber: string;
+  accountType: PayoutAccountType;
+}
+
+/**
+ * The originating company and bank written into NACHA file headers
+ */
+export interface NachaOrigin {
+  routingNumber: string; // ODFI routing number
+  bankName: string;
+  companyId: string;     // 10 characters, usually "1" + EIN
+  companyName: string;
+}
+
+/**
+ * ABA routing number checksum
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) return false;
+
+  const d = routingNumber.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+// Width of the DFI account number field in a NACHA entry detail record
+const NACHA_ACCOUNT_NUMBER_LENGTH = 17;
+
+const BANK_NUMBER_CIPHER = 'aes-256-gcm';
+const BANK_NUMBER_VERSION = 'v1';
+
+function bankNumberKey(): Buffer {
+  const key = validatedEnv.PAYOUT_ENCRYPTION_KEY;
+  if (!key) {
+    throw new PayoutError('PAYOUT_ENCRYPTION_KEY is not configured');
+  }
+  return Buffer.from(key, 'hex');
+}
+
+/**
+ * Encrypt a routing or account number for storage, as
+ * "v1:<iv>:<auth tag>:<ciphertext>" in base64
+ */
+export function encryptBankNumber(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(BANK_NUMBER_CIPHER, bankNumberKey(), iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  const parts = [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64'));
+  return [BANK_NUMBER_VERSION, ...parts].join(':');
+}
+
+export function decryptBankNumber(stored: string): string {
+  const unreadable = new PayoutError('The stored bank account cannot be read; the mechanic must enter it again');
+
+  const [version, iv, tag, data] = stored.split(':');
+  if (version !== BANK_NUMBER_VERSION || !iv || !tag || !data) {
+    throw unreadable;
+  }
+
+  try {
+    const decipher = createDecipheriv(BANK_NUMBER_CIPHER, bankNumberKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw unreadable;
+  }
+}
+
+export function validatePayoutAccount(account: PayoutAccount): void {
+  if (!account.accountHolder.trim()) {
+    throw new PayoutError('The account holder name is required');
+  }
+
+  if (!isValidRoutingNumber(account.routingNumber)) {
+    throw new PayoutError('The routing number is not valid');
+  }
+
+  if (!/^\d{4,17}$/.test(account.accountNumber)) {
+    throw new PayoutError('The account number must be 4 to 17 digits');
+  }
+}
+
+/**
+ * The last full Monday–Sunday week (UTC) before `now`
+ */
+export function weeklyPeriod(now: Date = new Date()): { periodStart: Date; periodEnd: Date } {
+  const startOfToday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const daysSinceMonday = (startOfToday.getUTCDay() + 6) % 7;
+
+  const periodStart = new Date(startOfToday);
+  periodStart.setUTCDate(periodStart.getUTCDate() - daysSinceMonday - 7);
+
+  const periodEnd = new Date(periodStart);
+  periodEnd.setUTCDate(periodEnd.getUTCDate() + 7);
+  periodEnd.setUTCMilliseconds(-1);
+
+  return { periodStart, periodEnd };
+}
+
+/**
+ * Create last week's payout batch. Each mechanic with a bank account and at
+ * least MIN_PAYOUT_AMOUNT available gets one payout, posted to the ledger;
+ * the rest carry their balance to the next batch.
+ */
+export async function createPayoutBatch(input: { createdById: string; now?: Date }) {
+  const { periodStart, periodEnd } = weeklyPeriod(input.now);
+
+  const existing = await prisma.payoutBatch.findUnique({ where: { periodEnd } });
+  if (existing) {
+    throw new PayoutError(`A payout batch for the week ending ${periodEnd.toISOString().slice(0, 10)} already exists`);
+  }
+
+  const mechanics: { mechanicId: string }[] = await prisma.earningsTransaction.findMany({
+    where: { createdAt: { lte: periodEnd } },
+    distinct: ['mechanicId'],
+    select: { mechanicId: true },
+  });
+
+  const profiles = await prisma.mechanicProfile.findMany({
+    where: { mechanicId: { in: mechanics.map((m) => m.mechanicId) } },
+    select: { mechanicId: true, payoutAccountNumber: true, payoutAccountLast4: true },
+  });
+
+  const skipped: { mechanicId: string; available: number; reason: string }[] = [];
+
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.payoutBatch.create({
+      data: { periodStart, periodEnd, total: 0, createdById: input.createdById },
+    });
+
+    const payouts = [];
+
+    for (const { mechanicId } of mechanics) {
+      const balance = await getEarningsBalance(mechanicId, periodEnd, tx);
+      const profile = profiles.find((p) => p.mechanicId === mechanicId);
+
+      if (balance.available < MIN_PAYOUT_AMOUNT) {
+        if (balance.available !== 0) {
+          skipped.push({ mechanicId, available: balance.available, reason: 'Below the minimum payout' });
+        }
+        continue;
+      }
+
+      if (!profile?.payoutAccountNumber || !profile.payoutAccountLast4) {
+        skipped.push({ mechanicId, available: balance.available, reason: 'No payout bank account' });
+        continue;
+      }
+
+      const payout = await tx.payout.create({
+        data: {
+          batchId: batch.id,
+          mechanicId,
+          amount: balance.available,
+          accountLast4: profile.payoutAccountLast4,
+        },
+      });
+
+      // Cash the mechanic collected is netted here rather than transferred
+      await postTransaction({
+        mechanicId,
+        type: 'PAYOUT',
+        description: `Payout for the week ending ${periodEnd.toISOString().slice(0, 10)}`,
+        sourceKey: `payout:${payout.id}`,
+        payoutId: payout.id,
+        lines: [
+          { account: 'MECHANIC_PAYABLE', debit: balance.payable },
+          { account: 'PLATFORM_CASH', credit: balance.available },
+          { account: 'MECHANIC_HELD_CASH', credit: balance.heldCash },
+        ],
+      }, tx);
+
+      payouts.push(payout);
+    }
+
+    const total = roundCurrency(payouts.reduce((sum, payout) => sum + payout.amount, 0));
+    const updated = await tx.payoutBatch.update({
+      where: { id: batch.id },
+      data: { total },
+    });
+
+    return { batch: updated, payouts, skipped };
+  });
+}
+
+/**
+ * Batch with its payouts and the bank details needed to export it
+ */
+export async function loadPayoutBatch(batchId: string) {
+  const batch = await prisma.payoutBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      payouts: {
+        where: { status: { not: 'FAILED' } },
+        include: {
+          mechanic: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              mechanicProfile: {
+                select: {
+                  payoutAccountHolder: true,
+                  payoutRoutingNumber: true,
+                  payoutAccountNumber: true,
+                  payoutAccountType: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!batch) {
+    throw new PayoutError('Payout batch not found');
+  }
+
+  return batch;
+}
+
+type ExportableBatch = Awaited<ReturnType<typeof loadPayoutBatch>>;
+
+const csvField = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per payout, for review before the transfer
+ */
+export function payoutBatchCsv(batch: ExportableBatch): string {
+  const header = [
+    'payout_id',
+    'mechanic_id',
+    'mechanic_name',
+    'email',
+    'amount',
+    'account_type',
+    'account_last4',
+    'status',
+  ];
+
+  const rows = batch.payouts.map((payout) => [
+    payout.id,
+    payout.mechanicId,
+    `${payout.mechanic.firstName} ${payout.mechanic.lastName}`.trim(),
+    payout.mechanic.email,
+    payout.amount.toFixed(2),
+    payout.mechanic.mechanicProfile?.payoutAccountType ?? 'CHECKING',
+    payout.accountLast4 ?? '',
+    payout.status,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+const alpha = (value: string, length: number) =>
+  value.toUpperCase().replace(/[^A-Z0-9 .,&'-]/g, '').slice(0, length).padEnd(length, ' ');
+
+const numeric = (value: number | string, length: number) =>
+  String(value).slice(-length).padStart(length, '0');
+
+const yymmdd = (date: Date) => date.toISOString().slice(2, 10).replace(/-/g, '');
+
+/**
+ * NACHA file of PPD credits (service class 220), one entry per payout
+ */
+export function payoutBatchNacha(batch: ExportableBatch, origin: NachaOrigin, now: Date = new Date()): string {
+  if (!isValidRoutingNumber(origin.routingNumber)) {
+    throw new PayoutError('The originating routing number is not valid');
+  }
+
+  if (batch.payouts.length === 0) {
+    throw new PayoutError('This batch has no payouts to export');
+  }
+
+  const odfi = origin.routingNumber.slice(0, 8);
+  const batchNumber = 1;
+  const effectiveDate = new Date(now);
+  effectiveDate.setUTCDate(effectiveDate.getUTCDate() + 1);
+
+  const records: string[] = [];
+
+  // File header
+  records.push([
+    '1',
+    '01',
+    ` ${origin.routingNumber}`,
+    alpha(origin.companyId, 10),
+    yymmdd(now),
+    now.toISOString().slice(11, 16).replace(':', ''),
+    'A',
+    '094',
+    '10',
+    '1',
+    alpha(origin.bankName, 23),
+    alpha(origin.companyName, 23),
+    alpha(batch.id.slice(-8), 8),
+  ].join(''));
+
+  // Batch header
+  records.push([
+    '5',
+    '220',
+    alpha(origin.companyName, 16),
+    alpha('', 20),
+    alpha(origin.companyId, 10),
+    'PPD',
+    alpha('PAYOUT', 10),
+    yymmdd(batch.periodEnd),
+    yymmdd(effectiveDate),
+    '   ',
+    '1',
+    odfi,
+    numeric(batchNumber, 7),
+  ].join(''));
+
+  let entryHash = 0;
+  let totalCents = 0;
+
+  batch.payouts.forEach((payout, index) => {
+    const profile = payout.mechanic.mechanicProfile;
+    if (!profile?.payoutRoutingNumber || !profile.payoutAccountNumber) {
+      throw new PayoutError(`Mechanic ${payout.mechanicId} has no payout bank account`);
+    }
+
+    const routingNumber = decryptBankNumber(profile.payoutRoutingNumber);
+    const accountNumber = decryptBankNumber(profile.payoutAccountNumber);
+    if (!isValidRoutingNumber(routingNumber) || accountNumber.length > NACHA_ACCOUNT_NUMBER_LENGTH) {
+      throw new PayoutError(`Mechanic ${payout.mechanicId} has an invalid payout bank account`);
+    }
+
+    const cents = Math.round(payout.amount * 100);
+    entryHash += Number(routingNumber.slice(0, 8));
+    totalCents += cents;
+
+    records.push([
+      '6',
+      profile.payoutAccountType === 'SAVINGS' ? '32' : '22',
+      routingNumber.slice(0, 8),
+      routingNumber.slice(8),
+      accountNumber.padEnd(NACHA_ACCOUNT_NUMBER_LENGTH, ' '),
+      numeric(cents, 10),
+      alpha(payout.id, 15),
+      alpha(profile.payoutAccountHolder ?? `${payout.mechanic.firstName} ${payout.mechanic.lastName}`, 22),
+      '  ',
+      '0',
+      `${odfi}${numeric(index + 1, 7)}`,
+    ].join(''));
+  });
+
+  const entryCount = batch.payouts.length;
+  const hash = numeric(entryHash, 10);
+
+  // Batch control
+  records.push([
+    '8',
+    '220',
+    numeric(entryCount, 6),
+    hash,
+    numeric(0, 12),
+    numeric(totalCents, 12),
+    alpha(origin.companyId, 10),
+    ' '.repeat(19),
+    ' '.repeat(6),
+    odfi,
+    numeric(batchNumber, 7),
+  ].join(''));
+
+  // File control; the file is padded to whole blocks of ten records
+  const blockCount = Math.ceil((records.length + 1) / 10);
+  records.push([
+    '9',
+    numeric(1, 6),
+    numeric(blockCount, 6),
+    numeric(entryCount, 8),
+    hash,
+    numeric(0, 12),
+    numeric(totalCents, 12),
+    ' '.repeat(39),
+  ].join(''));
+
+  while (records.length % 10 !== 0) {
+    records.push('9'.repeat(94));
+  }
+
+  return records.join('\n') + '\n';
+}
+
+/**
+ * Bank confirmed the batch; pending payouts are marked paid and each
+ * mechanic is told their money is on the way
+ */
+export async function markPayoutBatchPaid(batchId: string) {
+  const batch = await loadPayoutBatch(batchId);
+
+  if (batch.status === 'PAID') {
+    throw new PayoutError('This batch is already marked paid');
+  }
+
+  const paidAt = new Date();
+
+  await prisma.payout.updateMany({
+    where: { batchId, status: 'PENDING' },
+    data: { status: 'PAID' },
+  });
+
+  const updated = await prisma.payoutBatch.update({
+    where: { id: batchId },
+    data: { status: 'PAID', paidAt },
+  });
+
+  for (const payout of batch.payouts) {
+    await sendNotification({
+      userId: payout.mechanicId,
+      type: 'PAYOUT_SENT',
+      title: 'Payout Sent',
+      body: `$${payout.amount.toFixed(2)} is on its way to your account ending in ${payout.accountLast4 ?? '••••'}`,
+      data: { payoutId: payout.id, batchId, amount: payout.amount },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * The bank returned a payout; reverse its ledger posting so the amount is
+ * back on the mechanic's balance for the next batch
+ */
+export async function markPayoutFailed(payoutId: string, reason: string) {
+  const payout = await prisma.payout.findUnique({
+    where: { id: payoutId },
+    include: { transactions: { include: { entries: true } } },
+  });
+
+  if (!payout) {
+    throw new PayoutError('Payout not found');
+  }
+
+  if (payout.status === 'FAILED') {
+    throw new PayoutError('This payout is already marked failed');
+  }
+
+  const posting = payout.transactions.find((t: { type: string }) => t.type === 'PAYOUT');
+  const reversal: LedgerLine[] = (posting?.entries ?? []).map((line: LedgerLine) => ({
+    account: line.account,
+    debit: line.credit,
+    credit: line.debit,
+  }));
+
+  await postTransaction({
+    mechanicId: payout.mechanicId,
+    type: 'ADJUSTMENT',
+    description: `Payout returned by the bank: ${reason}`,
+    sourceKey: `payout:${payout.id}:failed`,
+    payoutId: payout.id,
+    lines: reversal,
+  });
+
+  return prisma.payout.update({
+    where: { id: payout.id },
+    data: { status: 'FAILED', failureReason: reason },
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Presence Service
+ *
+ * Who is online in a job room. Each socket carries its authenticated user
+ * in `socket.data.user`; a user with several devices counts once. With
+ * the cluster adapter, fetchSockets() includes sockets on every websocket
+ * instance, so presence covers the whole cluster.
+ */
+
+export interface PresenceSocket {
+  data: { user?: { userId: string; role: string } };
+}
+
+/**
+ * Anything that can list the sockets in a room, e.g. a Socket.IO server
+ */
+export interface PresenceSource {
+  in(room: string): { fetchSockets(): Promise<PresenceSocket[]> };
+}
+
+export interface Participant {
+  userId: string;
+  role: string;
+  connections: number; // Open sockets, e.g. phone and browser
+}
+
+const ROLE_ORDER = ['CUSTOMER', 'MECHANIC', 'ADMIN'];
+
+/**
+ * One entry per user, customers first, then mechanics and admins
+ */
+export function summarizePresence(sockets: PresenceSocket[]): Participant[] {
+  const participants = new Map<string, Participant>();
+
+  for (const socket of sockets) {
+    const user = socket.data.user;
+    if (!user) continue;
+
+    const existing = participants.get(user.userId);
+    if (existing) {
+      existing.connections++;
+    } else {
+      participants.set(user.userId, { userId: user.userId, role: user.role.toUpperCase(), connections: 1 });
+    }
+  }
+
+  const rank = (role: string) => {
+    const index = ROLE_ORDER.indexOf(role);
+    return index === -1 ? ROLE_ORDER.length : index;
+  };
+
+  return [...participants.values()].sort(
+    (a, b) => rank(a.role) - rank(b.role) || a.userId.localeCompare(b.userId)
+  );
+}
+
+export async function getRoomPresence(source: PresenceSource, room: string): Promise<Participant[]> {
+  return summarizePresence(await source.in(room).fetchSockets());
+}
@@ -0,0 +1,428 @@
+import { prisma } from '../../lib/prisma';
+import { SERVICE_PRICING, TRAVEL_FEE_DEFAULTS } from '../../constants/pricing';
+import type { QuoteLineItem, ServiceType } from '../../types/service';
+import {
+  priceQuoteLineItems,
+  roundCurrency,
+  type QuoteLineItemInput,
+  type QuoteTotals,
+  type TaxRates,
+} from '../../utils/quote-totals';
+import { calculateHaversineDistance, type Coordinates } from './location';
+import { resolveQuoteTax } from './tax-rules';
+import type { ZonePricing } from './service-zones';
+
+/**
+ * Pricing Engine
+ *
+ * Server-authoritative quote estimates. Combines the catalog price for a
+ * service type, the Service row and the mechanic's PricingProfile with the
+ * urgency, vehicle and AI-diagnosis multipliers, and reports every rule that
+ * changed the price so customers and mechanics can see where the total
+ * came from.
+ *
+ * Travel distance is measured here, from the mechanic's reported location
+ * to the work site, rather than taken from the request.
+ */
+
+const METERS_PER_MILE = 1609.344;
+
+export type PricingUrgency = 'low' | 'medium' | 'high' | 'emergency';
+
+export interface PricingVehicle {
+  year: number;
+  make: string;
+  model?: string;
+  mileage?: number;
+}
+
+export interface PricingDiagnosis {
+  confidence: 'low' | 'medium' | 'high';
+  urgencyLevel: PricingUrgency;
+  diagnosticSteps?: string[];
+  likelyCauses?: string[];
+}
+
+export interface EstimateInput {
+  serviceType: ServiceType;
+  urgency: PricingUrgency;
+  description?: string;
+  serviceId?: string;
+  mechanicId?: string;
+  vehicle?: PricingVehicle;
+  aiDiagnosis?: PricingDiagnosis;
+  selectedParts?: string[];
+  customLaborHours?: number;
+  distanceMiles?: number;
+  customerId?: string; // Fleet accounts may be tax-exempt
+  location?: string; // Service address; defaults to the customer's address
+}
+
+/**
+ * An estimate request as received; the distance is measured from `coordinates`
+ */
+export interface EstimateRequest extends Omit<EstimateInput, 'distanceMiles'> {
+  coordinates?: Coordinates | null; // Where the work happens
+}
+
+export interface PricingConfig {
+  travelFeePerMile: number;
+  minimumTravelFee: number;
+}
+
+/**
+ * Everything outside the request that affects the price
+ */
+export interface PricingContext {
+  service?: { basePrice: number; estimatedTime: number } | null; // estimatedTime in minutes
+  pricingProfile?: { customPrice: number; discountPercent: number | null } | null;
+  config: PricingConfig;
+  zone?: ZonePricing | null; // Service zone the work is in
+  taxRates: TaxRates;
+  now: Date;
+}
+
+export interface PricingAdjustment {
+  rule: string;
+  label: string;
+  appliesTo: 'labor' | 'parts' | 'travel' | 'discount';
+  multiplier?: number;
+  amount: number; // Change to the pre-tax price this rule caused
+}
+
+export interface PriceEstimate {
+  serviceType: ServiceType;
+  description: string;
+  laborHours: number;
+  laborRate: number;
+  basePrice: number;
+  basePriceSource: 'mechanic' | 'service' | 'catalog';
+  lineItems: QuoteLineItem[];
+  totals: QuoteTotals;
+  adjustments: PricingAdjustment[];
+}
+
+const URGENCY_RATE_MULTIPLIERS: Record<PricingUrgency, number> = {
+  low: 0.95,
+  medium: 1.1,
+  high: 1.25,
+  emergency: 1.5,
+};
+
+const URGENCY_TRAVEL_MULTIPLIERS: Record<PricingUrgency, number> = {
+  low: 1,
+  medium: 1,
+  high: 1.2,
+  emergency: 1.5,
+};
+
+const LUXURY_BRANDS = ['BMW', 'Mercedes', 'Audi', 'Lexus', 'Acura', 'Infiniti', 'Cadillac'];
+const IMPORT_BRANDS = ['Toyota', 'Honda', 'Nissan', 'Subaru', 'Mazda', 'Mitsubishi'];
+
+const SERVICE_NAMES: Record<ServiceType, string> = {
+  oil_change: 'Oil Change Service',
+  brake_service: 'Brake System Service',
+  tire_service: 'Tire Service',
+  battery_service: 'Battery Service',
+  engine_diagnostic: 'Engine Diagnostic',
+  transmission: 'Transmission Service',
+  ac_service: 'A/C System Service',
+  general_repair: 'General Automotive Repair',
+  emergency_roadside: 'Emergency Roadside Assistance',
+  motorcycle_oil_change: 'Motorcycle Oil Change Service',
+  motorcycle_brake_inspection: 'Motorcycle Brake Inspection',
+  motorcycle_tire_replacement: 'Motorcycle Tire Replacement',
+  motorcycle_chain_service: 'Motorcycle Chain Service',
+  motorcycle_battery_service: 'Motorcycle Battery Service',
+  motorcycle_diagnostic: 'Motorcycle Diagnostic',
+  scooter_oil_change: 'Scooter Oil Change Service',
+  scooter_brake_inspection: 'Scooter Brake Inspection',
+  scooter_tire_replacement: 'Scooter Tire Replacement',
+  scooter_carburetor_clean: 'Scooter Carburetor Cleaning',
+  scooter_battery_service: 'Scooter Battery Service',
+  scooter_diagnostic: 'Scooter Diagnostic',
+};
+
+/**
+ * Price a request against a fixed context. Pure, so it can be golden-tested.
+ */
+export function calculateEstimate(input: EstimateInput, context: PricingContext): PriceEstimate {
+  const catalog = SERVICE_PRICING[input.serviceType];
+  const adjustments: PricingAdjustment[] = [];
+
+  // Labor: hours × rate, with each multiplier recorded as it is applied
+  let hours = input.customLaborHours
+    ?? (context.service ? context.service.estimatedTime / 60 : catalog.estimatedHours);
+  let rate = catalog.laborRate;
+  let labor = hours * rate;
+
+  const adjustLabor = (rule: string, label: string, factor: 'hours' | 'rate', multiplier: number) => {
+    if (factor === 'hours') hours *= multiplier;
+    else rate *= multiplier;
+
+    const next = hours * rate;
+    adjustments.push({ rule, label, appliesTo: 'labor', multiplier, amount: roundCurrency(next - labor) });
+    labor = next;
+  };
+
+  const diagnosis = input.aiDiagnosis;
+  if (diagnosis) {
+    if (diagnosis.confidence === 'low' || (diagnosis.diagnosticSteps?.length ?? 0) > 3) {
+      adjustLabor('ai_complex_diagnosis', 'Complex diagnosis needs extra labor time', 'hours', 1.2);
+    }
+    if (diagnosis.urgencyLevel === 'emergency') {
+      adjustLabor('ai_emergency', 'AI diagnosis flagged an emergency', 'rate', 1.5);
+    }
+    if (diagnosis.confidence === 'high') {
+      adjustLabor('ai_high_confidence', 'High-confidence diagnosis shortens labor time', 'hours', 0.9);
+    }
+  }
+
+  const vehicle = input.vehicle;
+  if (vehicle) {
+    const age = context.now.getFullYear() - vehicle.year;
+    if (age > 15) {
+      adjustLabor('vehicle_age', `Vehicle over 15 years old (${vehicle.year})`, 'hours', 1.3);
+    } else if (age > 10) {
+      adjustLabor('vehicle_age', `Vehicle over 10 years old (${vehicle.year})`, 'hours', 1.15);
+    }
+    if (vehicle.mileage && vehicle.mileage > 150000) {
+      adjustLabor('high_mileage', 'Over 150,000 miles', 'hours', 1.1);
+    }
+  }
+
+  adjustLabor('urgency', `${capitalize(input.urgency)} urgency labor rate`, 'rate', URGENCY_RATE_MULTIPLIERS[input.urgency]);
+
+  // Base price is the least a visit for this service costs
+  const basePriceSource: PriceEstimate['basePriceSource'] = context.pricingProfile
+    ? 'mechanic'
+    : context.service
+      ? 'service'
+      : 'catalog';
+  const basePrice = context.pricingProfile?.customPrice ?? context.service?.basePrice ?? catalog.basePrice;
+  const belowMinimum = labor < basePrice;
+
+  if (belowMinimum) {
+    adjustments.push({
+      rule: 'base_price_minimum',
+      label: basePriceSource === 'mechanic' ? "Mechanic's minimum charge for this service" : 'Minimum charge for this service',
+      appliesTo: 'labor',
+      amount: roundCurrency(basePrice - labor),
+    });
+  }
+
+  const lines: QuoteLineItemInput[] = [
+    belowMinimum
+      ? { type: 'LABOR', description: 'Labor (minimum charge)', quantity: 1, unitPrice: basePrice }
+      : {
+          type: 'LABOR',
+          description: `Labor (${roundCurrency(hours)} h @ $${roundCurrency(rate).toFixed(2)}/h)`,
+          quantity: 1,
+          unitPrice: roundCurrency(labor),
+        },
+  ];
+
+  // Parts: selected catalog parts, else the catalog average
+  let parts: { name: string; price: number }[] = (input.selectedParts ?? [])
+    .map((name) => catalog.commonParts.find((part) => part.name === name))
+    .filter((part): part is { name: string; price: number } => !!part);
+
+  if (parts.length === 0) {
+    const estimated = catalog.commonParts.reduce((sum, part) => sum + part.price, 0) / Math.max(catalog.commonParts.length, 1);
+    parts = estimated > 0 ? [{ name: 'Estimated parts', price: roundCurrency(estimated) }] : [];
+  }
+
+  const partsMultiplier = vehicle && LUXURY_BRANDS.includes(vehicle.make)
+    ? { rule: 'luxury_parts', label: `${vehicle.make} parts pricing`, value: 1.3 }
+    : vehicle && IMPORT_BRANDS.includes(vehicle.make)
+      ? { rule: 'import_parts', label: `${vehicle.make} parts pricing`, value: 1.1 }
+      : null;
+
+  const partsBase = parts.reduce((sum, part) => sum + part.price, 0);
+  if (partsMultiplier && partsBase > 0) {
+    adjustments.push({
+      rule: partsMultiplier.rule,
+      label: partsMultiplier.label,
+      appliesTo: 'parts',
+      multiplier: partsMultiplier.value,
+      amount: roundCurrency(partsBase * (partsMultiplier.value - 1)),
+    });
+  }
+
+  for (const part of parts) {
+    lines.push({
+      type: 'PART',
+      description: part.name,
+      quantity: 1,
+      unitPrice: roundCurrency(part.price * (partsMultiplier?.value ?? 1)),
+    });
+  }
+
+  // Travel: per-mile fee with a minimum (the zone's rates where it sets them), scaled for urgent call-outs
+  const zone = context.zone ?? null;
+  const travelFeePerMile = zone?.travelFeePerMile ?? context.config.travelFeePerMile;
+  const minimumTravelFee = zone?.minimumTravelFee ?? context.config.minimumTravelFee;
+  const miles = input.distanceMiles;
+  let travel = miles !== undefined
+    ? Math.max(miles * travelFeePerMile, minimumTravelFee)
+    : minimumTravelFee;
+
+  const travelMultiplier = URGENCY_TRAVEL_MULTIPLIERS[input.urgency];
+  if (travelMultiplier !== 1) {
+    adjustments.push({
+      rule: 'urgency_travel',
+      label: `${capitalize(input.urgency)} call-out travel`,
+      appliesTo: 'travel',
+      multiplier: travelMultiplier,
+      amount: roundCurrency(travel * (travelMultiplier - 1)),
+    });
+    travel *= travelMultiplier;
+  }
+
+  const travelDescription = miles !== undefined ? `Travel (${roundCurrency(miles)} mi)` : 'Travel (minimum)';
+  lines.push({
+    type: 'TRAVEL',
+    description: zone ? `${travelDescription} - ${zone.name}` : travelDescription,
+    quantity: 1,
+    unitPrice: roundCurrency(travel),
+  });
+
+  if (zone && zone.surcharge > 0) {
+    const label = zone.surchargeLabel || `${zone.name} surcharge`;
+    adjustments.push({ rule: 'zone_surcharge', label, appliesTo: 'travel', amount: roundCurrency(zone.surcharge) });
+    lines.push({ type: 'FEE', description: label, quantity: 1, unitPrice: roundCurrency(zone.surcharge) });
+  }
+
+  // Mechanic's standing discount on everything but tax
+  const discountPercent = context.pricingProfile?.discountPercent ?? 0;
+  if (discountPercent > 0) {
+    const beforeDiscount = lines.reduce((sum, line) => sum + roundCurrency(line.quantity * line.unitPrice), 0);
+    const discount = roundCurrency(beforeDiscount * (discountPercent / 100));
+
+    adjustments.push({
+      rule: 'mechanic_discount',
+      label: `Mechanic discount (${discountPercent}%)`,
+      appliesTo: 'discount',
+      amount: -discount,
+    });
+    lines.push({ type: 'DISCOUNT', description: `Discount (${discountPercent}%)`, quantity: 1, unitPrice: discount });
+  }
+
+  const { lineItems, totals } = priceQuoteLineItems(lines, context.taxRates);
+
+  return {
+    serviceType: input.serviceType,
+    description: describeEstimate(input, hours, totals.travelFee),
+    laborHours: roundCurrency(hours),
+    laborRate: roundCurrency(rate),
+    basePrice,
+    basePriceSource,
+    lineItems,
+    totals,
+    adjustments,
+  };
+}
+
+/**
+ * Load pricing inputs from the database and estimate. `zone` is the
+ * service zone the caller matched the location to, if any. A mechanic
+ * without a profile is ignored.
+ */
+export async function estimateQuote(request: EstimateRequest, zone: ZonePricing | null = null): Promise<PriceEstimate> {
+  const { coordinates, ...input } = request;
+
+  const mechanic = input.mechanicId
+    ? await prisma.mechanicProfile.findUnique({
+        where: { mechanicId: input.mechanicId },
+        select: { latitude: true, longitude: true },
+      })
+    : null;
+  if (!mechanic) {
+    input.mechanicId = undefined;
+  }
+
+  const distanceMiles = coordinates && mechanic?.latitude != null && mechanic.longitude != null
+    ? calculateHaversineDistance({ latitude: mechanic.latitude, longitude: mechanic.longitude }, coordinates) / METERS_PER_MILE
+    : undefined;
+
+  const service = input.serviceId
+    ? await prisma.service.findUnique({
+        where: { id: input.serviceId },
+        select: { basePrice: true, estimatedTime: true, isActive: true },
+      })
+    : null;
+
+  const pricingProfile = input.serviceId && input.mechanicId
+    ? await prisma.pricingProfile.findUnique({
+        where: {
+          mechanicId_serviceId: { mechanicId: input.mechanicId, serviceId: input.serviceId },
+        },
+        select: { customPrice: true, discountPercent: true, isActive: true },
+      })
+    : null;
+
+  const tax = await resolveQuoteTax({ customerId: input.customerId, location: input.location });
+
+  return calculateEstimate({ ...input, distanceMiles }, {
+    service: service?.isActive ? service : null,
+    pricingProfile: pricingProfile?.isActive ? pricingProfile : null,
+    config: await loadPricingConfig(),
+    zone,
+    taxRates: tax.rates,
+    now: new Date(),
+  });
+}
+
+/**
+ * Travel fee settings saved from the admin settings screen, over the defaults
+ */
+export async function loadPricingConfig(): Promise<PricingConfig> {
+  const config: PricingConfig = { ...TRAVEL_FEE_DEFAULTS };
+
+  const settings = await prisma.systemSettings.findMany({
+    where: { key: { in: Object.keys(config) } },
+    select: { key: true, value: true },
+  });
+
+  for (const setting of settings) {
+    const value = Number(setting.value);
+    if (Number.isFinite(value) && value >= 0) {
+      config[setting.key as keyof PricingConfig] = value;
+    }
+  }
+
+  return config;
+}
+
+function describeEstimate(input: EstimateInput, hours: number, travelFee: number): string {
+  let description = `Professional ${SERVICE_NAMES[input.serviceType]}`;
+
+  if (input.vehicle) {
+    description += ` for ${input.vehicle.year} ${input.vehicle.make}${input.vehicle.model ? ` ${input.vehicle.model}` : ''}`;
+  }
+
+  description += input.description
+    ? ` including comprehensive inspection, ${input.description.toLowerCase()}, and expert recommendations.`
+    : ' including comprehensive inspection and expert recommendations.';
+
+  const diagnosis = input.aiDiagnosis;
+  if (diagnosis?.likelyCauses?.[0]) {
+    description += ` AI analysis indicates: ${diagnosis.likelyCauses[0]}.`;
+  }
+  if (diagnosis?.diagnosticSteps?.[0]) {
+    description += ` Diagnostic approach: ${diagnosis.diagnosticSteps[0]}.`;
+  }
+
+  const rounded = roundCurrency(hours);
+  description += ` Estimated completion time: ${rounded.toFixed(1)} hour${rounded !== 1 ? 's' : ''}.`;
+
+  if (travelFee > 0) {
+    description += ' Includes mobile service travel fee for on-location convenience.';
+  }
+
+  return description;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,387 @@
+import net from 'net';
+import tls from 'tls';
+import { validatedEnv } from '../env-validation';
+
+/**
+ * Pub/Sub Service
+ *
+ * Carries messages between server instances: the Socket.IO cluster
+ * adapter and the realtime event bus both publish here. The transport is
+ * chosen with REALTIME_ADAPTER (see env-validation.ts):
+ *
+ *   memory  Within one process only; for tests and single-instance setups
+ *   redis   Any server speaking the Redis protocol (Redis, Valkey, KeyDB)
+ *           at REDIS_URL, so every instance sees every message
+ *
+ * Defaults to redis when REDIS_URL is set.
+ */
+
+export type PubSubName = 'memory' | 'redis';
+
+export type MessageHandler = (message: string) => void;
+
+export interface PubSub {
+  readonly name: PubSubName;
+  publish(channel: string, message: string): Promise<void>;
+  /** Resolves once subscribed, with a function that unsubscribes */
+  subscribe(channel: string, handler: MessageHandler): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+/**
+ * The pub/sub server refused a command or the connection failed
+ */
+export class PubSubError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PubSubError';
+  }
+}
+
+function deliver(handlers: Set<MessageHandler> | undefined, message: string) {
+  for (const handler of handlers ?? []) {
+    try {
+      handler(message);
+    } catch (error) {
+      console.error('Error in pub/sub handler:', error);
+    }
+  }
+}
+
+/**
+ * Pub/sub within this process. Messages are delivered asynchronously, as
+ * they would be over the network.
+ */
+export function createInMemoryPubSub(): PubSub {
+  const channels = new Map<string, Set<MessageHandler>>();
+
+  return {
+    name: 'memory',
+
+    async publish(channel, message) {
+      queueMicrotask(() => deliver(channels.get(channel), message));
+    },
+
+    async subscribe(channel, handler) {
+      const handlers = channels.get(channel) ?? new Set<MessageHandler>();
+      handlers.add(handler);
+      channels.set(channel, handlers);
+
+      return async () => {
+        handlers.delete(handler);
+        if (handlers.size === 0) channels.delete(channel);
+      };
+    },
+
+    async close() {
+      channels.clear();
+    },
+  };
+}
+
+// ==========================================
+// Redis protocol (RESP2)
+// ==========================================
+
+export type RespValue = string | number | null | RespValue[] | PubSubError;
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+}
+
+/**
+ * Incremental RESP reader: feed it socket data, get back complete replies
+ */
+export function createRespParser() {
+  let buffer: Buffer = Buffer.alloc(0);
+
+  // Parse one value at `offset`; undefined when the buffer is incomplete
+  const parseAt = (offset: number): { value: RespValue; next: number } | undefined => {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return undefined;
+
+    const type = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const afterLine = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, next: afterLine };
+      case '-':
+        return { value: new PubSubError(line), next: afterLine };
+      case ':':
+        return { value: Number(line), next: afterLine };
+      case '$': {
+        const length = Number(line);
+        if (length === -1) return { value: null, next: afterLine };
+        if (buffer.length < afterLine + length + 2) return undefined;
+        return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count === -1) return { value: null, next: afterLine };
+
+        const items: RespValue[] = [];
+        let next = afterLine;
+        for (let i = 0; i < count; i++) {
+          const item = parseAt(next);
+          if (!item) return undefined;
+          items.push(item.value);
+          next = item.next;
+        }
+        return { value: items, next };
+      }
+      default:
+        throw new PubSubError(`Unexpected reply type "${type}"`);
+    }
+  };
+
+  return {
+    feed(chunk: Buffer): RespValue[] {
+      buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+
+      const replies: RespValue[] = [];
+      let offset = 0;
+      while (offset < buffer.length) {
+        const parsed = parseAt(offset);
+        if (!parsed) break;
+        replies.push(parsed.value);
+        offset = parsed.next;
+      }
+
+      buffer = buffer.subarray(offset);
+      return replies;
+    },
+  };
+}
+
+export interface RedisPubSubOptions {
+  url: string; // redis://[user:password@]host:port, or rediss:// for TLS
+  password?: string; // Used when the URL has none
+  reconnectDelayMs?: number; // First retry; doubles up to 30 s
+}
+
+interface RedisConnection {
+  command(args: string[]): Promise<RespValue>;
+  close(): void;
+}
+
+type SendCommand = (args: string[]) => Promise<RespValue>;
+
+/**
+ * One connection, opened on first use and reopened after it drops.
+ * `onMessage` gets published messages; `onReady` runs after each
+ * (re)connect, before any other command.
+ */
+function openRedisConnection(
+  options: RedisPubSubOptions,
+  onMessage: (channel: string, message: string) => void = () => undefined,
+  onReady: (send: SendCommand) => Promise<void> = async () => undefined
+): RedisConnection {
+  const url = new URL(options.url);
+  const secure = url.protocol === 'rediss:';
+  const host = url.hostname || 'localhost';
+  const port = Number(url.port) || 6379;
+  const username = decodeURIComponent(url.username);
+  const password = url.password ? decodeURIComponent(url.password) : options.password;
+  const baseDelay = options.reconnectDelayMs ?? 500;
+
+  let socket: net.Socket | null = null;
+  let connecting: Promise<void> | null = null;
+  let pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+  let closed = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const write = (args: string[]) => new Promise<RespValue>((resolve, reject) => {
+    if (!socket) {
+      reject(new PubSubError('Not connected to the pub/sub server'));
+      return;
+    }
+    pending.push({ resolve, reject });
+    socket.write(encodeCommand(args));
+  });
+
+  const send: SendCommand = async (args) => {
+    const reply = await write(args);
+    if (reply instanceof PubSubError) throw reply;
+    return reply;
+  };
+
+  const failPending = (error: Error) => {
+    const waiting = pending;
+    pending = [];
+    waiting.forEach(({ reject }) => reject(error));
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    const delay = Math.min(baseDelay * 2 ** attempts, 30_000);
+    attempts++;
+    const timer = setTimeout(() => {
+      retryTimer = null;
+      connect().catch((error) => console.error('Pub/sub reconnect failed:', error.message));
+    }, delay);
+    // Don't hold the process open just to reconnect
+    (timer as unknown as NodeJS.Timeout).unref?.();
+    retryTimer = timer;
+  };
+
+  const connect = (): Promise<void> => {
+    if (connecting) return connecting;
+
+    connecting = new Promise<void>((resolve, reject) => {
+      const parser = createRespParser();
+      const next = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      let ready = false;
+
+      next.on(secure ? 'secureConnect' : 'connect', async () => {
+        socket = next;
+        try {
+          if (password) {
+            await send(username ? ['AUTH', username, password] : ['AUTH', password]);
+          }
+          await onReady(send);
+          ready = true;
+          attempts = 0;
+          resolve();
+        } catch (error) {
+          reject(error);
+          next.destroy();
+        }
+      });
+
+      next.on('data', (chunk: Buffer) => {
+        for (const reply of parser.feed(chunk)) {
+          if (Array.isArray(reply) && reply[0] === 'message') {
+            onMessage(String(reply[1]), String(reply[2]));
+          } else {
+            pending.shift()?.resolve(reply);
+          }
+        }
+      });
+
+      next.on('error', (error) => {
+        if (!ready) reject(new PubSubError(`Pub/sub connection failed: ${error.message}`));
+        else console.error('Pub/sub connection error:', error.message);
+      });
+
+      next.on('close', () => {
+        if (socket === next) socket = null;
+        connecting = null;
+        failPending(new PubSubError('Pub/sub connection closed'));
+        if (!ready) reject(new PubSubError('Pub/sub connection closed'));
+        scheduleReconnect();
+      });
+    });
+
+    return connecting;
+  };
+
+  const connection: RedisConnection = {
+    async command(args) {
+      if (closed) throw new PubSubError('Pub/sub connection is closed');
+      await connect();
+      return send(args);
+    },
+
+    close() {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.end();
+      socket = null;
+      failPending(new PubSubError('Pub/sub connection closed'));
+    },
+  };
+
+  return connection;
+}
+
+/**
+ * Pub/sub over a Redis-protocol server. Publishing and subscribing use
+ * separate connections, as the protocol requires; subscriptions are
+ * renewed after a reconnect.
+ */
+export function createRedisPubSub(options: RedisPubSubOptions): PubSub {
+  const channels = new Map<string, Set<MessageHandler>>();
+
+  const publisher = openRedisConnection(options);
+  const subscriber = openRedisConnection(
+    options,
+    (channel, message) => deliver(channels.get(channel), message),
+    async (send) => {
+      // One channel per command: each gets its own confirmation reply
+      for (const channel of channels.keys()) {
+        await send(['SUBSCRIBE', channel]);
+      }
+    }
+  );
+
+  return {
+    name: 'redis',
+
+    async publish(channel, message) {
+      await publisher.command(['PUBLISH', channel, message]);
+    },
+
+    async subscribe(channel, handler) {
+      const handlers = channels.get(channel);
+      if (handlers) {
+        handlers.add(handler);
+      } else {
+        channels.set(channel, new Set([handler]));
+        await subscriber.command(['SUBSCRIBE', channel]);
+      }
+
+      return async () => {
+        const current = channels.get(channel);
+        if (!current?.delete(handler) || current.size > 0) return;
+
+        channels.delete(channel);
+        await subscriber.command(['UNSUBSCRIBE', channel]).catch(() => undefined);
+      };
+    },
+
+    async close() {
+      channels.clear();
+      publisher.close();
+      subscriber.close();
+    },
+  };
+}
+
+function createConfiguredPubSub(): PubSub {
+  const name: PubSubName = validatedEnv.REALTIME_ADAPTER ?? (validatedEnv.REDIS_URL ? 'redis' : 'memory');
+
+  switch (name) {
+    case 'redis':
+      return createRedisPubSub({ url: validatedEnv.REDIS_URL ?? '', password: validatedEnv.REDIS_PASSWORD });
+    case 'memory':
+      return createInMemoryPubSub();
+  }
+}
+
+let pubsub: PubSub | null = null;
+
+/**
+ * The configured pub/sub, created on first use
+ */
+export function getPubSub(): PubSub {
+  if (!pubsub) {
+    pubsub = createConfiguredPubSub();
+  }
+
+  return pubsub;
+}
+
+/**
+ * Swap the pub/sub, e.g. for a shared in-memory one in tests
+ */
+export function setPubSub(next: PubSub | null): void {
+  pubsub = next;
+}
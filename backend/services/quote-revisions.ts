@@ -0,0 +1,53 @@
+import type { QuoteLineItem } from '../../types/service';
+
+/**
+ * Quote Revisions Service
+ *
+ * Helpers for change orders: diffing a proposed line item list against the
+ * last approved version. Pending and rejected revisions never touch totals.
+ */
+
+/**
+ * Revision statuses (mirrors the QuoteRevisionStatus Prisma enum)
+ */
+export type QuoteRevisionStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'SUPERSEDED';
+
+export interface LineItemDiff {
+  added: QuoteLineItem[];
+  removed: QuoteLineItem[];
+}
+
+/**
+ * Lines are matched on everything the customer is agreeing to, so a change
+ * in quantity or price shows up as the old line removed and a new one added
+ */
+function lineKey(item: QuoteLineItem): string {
+  return [item.type, item.description, item.partNumber ?? '', item.quantity, item.unitPrice].join('|');
+}
+
+/**
+ * Diff two priced line item lists. TAX lines are derived and left out.
+ */
+export function diffLineItems(before: QuoteLineItem[], after: QuoteLineItem[]): LineItemDiff {
+  const remaining = new Map<string, QuoteLineItem[]>();
+  for (const item of before) {
+    if (item.type === 'TAX') continue;
+    const key = lineKey(item);
+    remaining.set(key, [...(remaining.get(key) ?? []), item]);
+  }
+
+  const added: QuoteLineItem[] = [];
+  for (const item of after) {
+    if (item.type === 'TAX') continue;
+    const matches = remaining.get(lineKey(item));
+    if (matches && matches.length > 0) {
+      matches.shift();
+    } else {
+      added.push(item);
+    }
+  }
+
+  const removed = Array.from(remaining.values()).flat();
+
+  return { added, removed };
+}
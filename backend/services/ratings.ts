@@ -0,0 +1,207 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { RATING_BADGES, type RatingBadge } from '../../types/rating';
+
+/**
+ * Ratings Service
+ *
+ * Recomputes a mechanic's aggregate rating profile from their visible reviews
+ * and keeps MechanicProfile / AnalyticsSnapshot rating columns in sync
+ */
+
+/**
+ * Category ids stored on Review as `<id>Rating` columns
+ */
+const CATEGORY_FIELDS = {
+  punctuality: 'punctualityRating',
+  quality: 'qualityRating',
+  communication: 'communicationRating',
+  value: 'valueRating',
+  professionalism: 'professionalismRating',
+} as const;
+
+type CategoryId = keyof typeof CATEGORY_FIELDS;
+
+/**
+ * Aggregated rating stats used for badge evaluation
+ */
+export interface RatingAggregate {
+  averageRating: number;
+  totalReviews: number;
+  ratingDistribution: Record<number, number>;
+  categoryAverages: Record<CategoryId, number>;
+  responseRate: number | null;
+  averageResponseTimeHours: number | null;
+}
+
+/**
+ * Badge criteria from RATING_BADGES, evaluated against the aggregate
+ */
+const BADGE_RULES: Record<string, (stats: RatingAggregate) => boolean> = {
+  five_star_hero: (s) => s.averageRating >= 4.8 && s.totalReviews >= 20,
+  customer_favorite: (s) => s.totalReviews >= 50 && s.averageRating >= 4.5,
+  quick_responder: (s) => s.averageResponseTimeHours !== null && s.averageResponseTimeHours <= 24,
+  quality_champion: (s) => s.categoryAverages.quality >= 4.8 && s.totalReviews >= 30,
+  punctuality_pro: (s) => s.categoryAverages.punctuality >= 4.9 && s.totalReviews >= 25,
+};
+
+/**
+ * Where clause for reviews that count towards a rating
+ */
+export function visibleReviewsWhere(revieweeId: string) {
+  return {
+    revieweeId,
+    isHidden: false,
+    moderationStatus: { not: 'REJECTED' as const },
+  };
+}
+
+/**
+ * Aggregate a list of reviews into rating stats
+ */
+export function aggregateReviews(
+  reviews: Array<{
+    rating: number;
+    createdAt: Date;
+    respondedAt?: Date | null;
+    punctualityRating?: number | null;
+    qualityRating?: number | null;
+    communicationRating?: number | null;
+    valueRating?: number | null;
+    professionalismRating?: number | null;
+  }>
+): RatingAggregate {
+  const ratingDistribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const categoryTotals = {} as Record<CategoryId, { sum: number; count: number }>;
+  for (const id of Object.keys(CATEGORY_FIELDS) as CategoryId[]) {
+    categoryTotals[id] = { sum: 0, count: 0 };
+  }
+
+  let ratingSum = 0;
+  let responded = 0;
+  let responseHours = 0;
+
+  for (const review of reviews) {
+    ratingSum += review.rating;
+    ratingDistribution[review.rating] = (ratingDistribution[review.rating] || 0) + 1;
+
+    for (const id of Object.keys(CATEGORY_FIELDS) as CategoryId[]) {
+      const value = review[CATEGORY_FIELDS[id]];
+      if (typeof value === 'number') {
+        categoryTotals[id].sum += value;
+        categoryTotals[id].count += 1;
+      }
+    }
+
+    if (review.respondedAt) {
+      responded += 1;
+      responseHours +=
+        (new Date(review.respondedAt).getTime() - new Date(review.createdAt).getTime()) / 3600000;
+    }
+  }
+
+  const categoryAverages = {} as Record<CategoryId, number>;
+  for (const id of Object.keys(CATEGORY_FIELDS) as CategoryId[]) {
+    const { sum, count } = categoryTotals[id];
+    categoryAverages[id] = count > 0 ? round(sum / count) : 0;
+  }
+
+  return {
+    averageRating: reviews.length > 0 ? round(ratingSum / reviews.length) : 0,
+    totalReviews: reviews.length,
+    ratingDistribution,
+    categoryAverages,
+    responseRate: reviews.length > 0 ? round((responded / reviews.length) * 100) : null,
+    averageResponseTimeHours: responded > 0 ? round(responseHours / responded) : null,
+  };
+}
+
+/**
+ * Work out which badges are earned, keeping the original earnedAt for badges
+ * the mechanic already held
+ */
+export function evaluateBadges(
+  stats: RatingAggregate,
+  existing: RatingBadge[] = [],
+  now: Date = new Date()
+): RatingBadge[] {
+  const earned: RatingBadge[] = [];
+
+  for (const badge of RATING_BADGES) {
+    const rule = BADGE_RULES[badge.id];
+    if (!rule || !rule(stats)) continue;
+
+    const previous = existing.find((b) => b.id === badge.id);
+    earned.push({
+      ...badge,
+      earnedAt: previous ? new Date(previous.earnedAt) : now,
+    });
+  }
+
+  return earned;
+}
+
+/**
+ * Recompute a mechanic's rating profile and propagate the average to the
+ * current analytics snapshot(s)
+ */
+export async function recomputeMechanicRating(mechanicId: string): Promise<RatingAggregate> {
+  const reviews = await prisma.review.findMany({
+    where: visibleReviewsWhere(mechanicId),
+    select: {
+      rating: true,
+      createdAt: true,
+      respondedAt: true,
+      punctualityRating: true,
+      qualityRating: true,
+      communicationRating: true,
+      valueRating: true,
+      professionalismRating: true,
+    },
+  });
+
+  const stats = aggregateReviews(reviews);
+  const now = new Date();
+
+  const profile = await prisma.mechanicProfile.findUnique({
+    where: { mechanicId },
+    select: { badges: true },
+  });
+  const badges = evaluateBadges(stats, (profile?.badges as RatingBadge[] | null) ?? [], now);
+
+  const ratingData = {
+    rating: stats.averageRating,
+    averageRating: stats.averageRating,
+    totalReviews: stats.totalReviews,
+    ratingDistribution: stats.ratingDistribution,
+    categoryAverages: stats.categoryAverages,
+    // earnedAt is stored as an ISO string
+    badges: badges as unknown as Prisma.InputJsonArray,
+    responseRate: stats.responseRate,
+    lastRatedAt: now,
+  };
+
+  await prisma.mechanicProfile.upsert({
+    where: { mechanicId },
+    create: { mechanicId, ...ratingData },
+    update: ratingData,
+  });
+
+  // Keep the snapshot covering the current period in step with the profile
+  await prisma.analyticsSnapshot.updateMany({
+    where: {
+      mechanicId,
+      periodStart: { lte: now },
+      periodEnd: { gte: now },
+    },
+    data: {
+      averageRating: stats.totalReviews > 0 ? stats.averageRating : null,
+    },
+  });
+
+  return stats;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,59 @@
+import { getPubSub, type PubSub } from './pubsub';
+
+/**
+ * Realtime Event Bus
+ *
+ * Lets code outside the websocket handlers, such as tRPC mutations, emit
+ * to Socket.IO rooms. Events go out on the pub/sub service and every
+ * websocket instance relays them to its own sockets in the room, so each
+ * client gets one copy whichever instance it is connected to. With the
+ * in-memory pub/sub this only reaches a websocket server in the same
+ * process.
+ */
+
+export const REALTIME_CHANNEL = 'realtime:events';
+
+export interface RoomEvent {
+  room: string;
+  event: string;
+  payload: unknown;
+}
+
+export const jobRoom = (jobId: string) => `job-${jobId}`;
+
+/**
+ * Emit an event to everyone in a room
+ *
+ * Failures are logged rather than thrown so that a missed live update
+ * never fails the mutation it reports.
+ */
+export async function emitToRoom(
+  room: string,
+  event: string,
+  payload: unknown,
+  pubsub: PubSub = getPubSub()
+): Promise<void> {
+  try {
+    const message: RoomEvent = { room, event, payload };
+    await pubsub.publish(REALTIME_CHANNEL, JSON.stringify(message));
+  } catch (error) {
+    console.error(`Error emitting ${event} to ${room}:`, error);
+  }
+}
+
+/**
+ * Receive room events from every instance; used by the websocket server
+ * to deliver them. Resolves with a function that stops relaying.
+ */
+export function relayRoomEvents(
+  deliver: (event: RoomEvent) => void,
+  pubsub: PubSub = getPubSub()
+): Promise<() => Promise<void>> {
+  return pubsub.subscribe(REALTIME_CHANNEL, (raw) => {
+    try {
+      deliver(JSON.parse(raw));
+    } catch (error) {
+      console.error('Error relaying realtime event:', error);
+    }
+  });
+}
@@ -0,0 +1,348 @@
+import type { PaymentStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+import { getQuotePaymentSchedule, syncQuotePayments } from './deposits';
+import { postPaymentEarnings, postRefundClawback } from './earnings';
+import { recordJobEvent } from './job-timeline';
+import { sendNotification } from './notifications';
+import { getPaymentProvider, PaymentProviderError } from './payment-provider';
+
+/**
+ * Refunds Service
+ *
+ * Refunds a payment in one or more parts, either back to the card through
+ * the payment provider or as account credit the customer can spend on a
+ * later quote. Every refund is a Refund row with its reason, initiator and
+ * the quote line items it covers; the Payment keeps the running total.
+ */
+
+/**
+ * Why a refund was issued (mirrors the RefundReason Prisma enum)
+ */
+export type RefundReason =
+  | 'CUSTOMER_REQUEST'
+  | 'SERVICE_ISSUE'
+  | 'OVERCHARGE'
+  | 'DUPLICATE'
+  | 'JOB_CANCELED'
+  | 'GOODWILL'
+  | 'OTHER';
+
+export const REFUND_REASONS: RefundReason[] = [
+  'CUSTOMER_REQUEST',
+  'SERVICE_ISSUE',
+  'OVERCHARGE',
+  'DUPLICATE',
+  'JOB_CANCELED',
+  'GOODWILL',
+  'OTHER',
+];
+
+/**
+ * Where the money goes (mirrors the RefundMethod Prisma enum)
+ */
+export type RefundMethod = 'ORIGINAL_PAYMENT' | 'ACCOUNT_CREDIT';
+
+/**
+ * Payment statuses that can still be refunded. Disputed payments are
+ * settled through the dispute instead.
+ */
+const REFUNDABLE_STATUSES = ['SUCCEEDED', 'PARTIALLY_REFUNDED'];
+
+/**
+ * A refund or credit request that cannot be carried out as given
+ */
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export interface IssueRefundInput {
+  paymentId: string;
+  initiatedById: string;
+  amount?: number; // Defaults to the covered line items, else everything refundable
+  lineItemIds?: string[];
+  reason: RefundReason;
+  note?: string;
+  method: RefundMethod;
+}
+
+/**
+ * What is left to refund on a payment
+ */
+export function refundableAmount(payment: { amount: number; refundAmount?: number | null }): number {
+  return Math.max(0, roundCurrency(payment.amount - (payment.refundAmount ?? 0)));
+}
+
+/**
+ * Payment status once `refunded` of its amount has been given back
+ */
+export function statusAfterRefund(payment: { amount: number; status: string }, refunded: number): PaymentStatus {
+  if (payment.status === 'DISPUTED') return 'DISPUTED';
+  if (refunded <= 0) return 'SUCCEEDED';
+  return refunded >= payment.amount ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+}
+
+const PAYMENT_INCLUDE = {
+  job: { select: { id: true, title: true, customerId: true } },
+  quote: { select: { lineItems: { select: { id: true, description: true, total: true, type: true } } } },
+};
+
+/**
+ * Refund part or all of a payment. The payment's refund total is reserved
+ * before the provider is called so concurrent refunds cannot exceed what
+ * was paid; a provider failure releases it again.
+ */
+export async function issueRefund(input: IssueRefundInput) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: input.paymentId },
+    include: PAYMENT_INCLUDE,
+  });
+
+  if (!payment) {
+    throw new RefundError('Payment not found');
+  }
+
+  if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+    throw new RefundError(`A ${payment.status.toLowerCase().replace('_', ' ')} payment cannot be refunded`);
+  }
+
+  const paymentIntentId = input.method === 'ORIGINAL_PAYMENT' ? payment.stripePaymentId : null;
+  if (input.method === 'ORIGINAL_PAYMENT' && !paymentIntentId) {
+    throw new RefundError('Payments collected in person can only be refunded as account credit');
+  }
+
+  const lineItemIds = [...new Set(input.lineItemIds ?? [])];
+  const lineItems = (payment.quote?.lineItems ?? []).filter((item: { id: string }) => lineItemIds.includes(item.id));
+  if (lineItems.length !== lineItemIds.length) {
+    throw new RefundError('Some line items are not on this payment\'s quote');
+  }
+
+  const available = refundableAmount(payment);
+  const lineItemsTotal = roundCurrency(lineItems.reduce((sum: number, item: { total: number }) => sum + item.total, 0));
+  const amount = roundCurrency(input.amount ?? (lineItems.length > 0 ? Math.min(lineItemsTotal, available) : available));
+
+  if (!(amount > 0)) {
+    throw new RefundError('Nothing is left to refund on this payment');
+  }
+
+  if (amount > available) {
+    throw new RefundError(`Refund exceeds the $${available.toFixed(2)} still refundable on this payment`);
+  }
+
+  const previousRefunded = payment.refundAmount ?? 0;
+  const refunded = roundCurrency(previousRefunded + amount);
+
+  // Reserve the amount; fails if another refund changed the total meanwhile
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, refundAmount: previousRefunded },
+    data: {
+      refundAmount: refunded,
+      refundReason: input.reason,
+      status: statusAfterRefund(payment, refunded),
+    },
+  });
+
+  if (count === 0) {
+    throw new RefundError('The payment changed while refunding; please try again');
+  }
+
+  let refund = await prisma.refund.create({
+    data: {
+      paymentId: payment.id,
+      amount,
+      method: input.method,
+      status: 'PENDING',
+      reason: input.reason,
+      note: input.note ?? null,
+      lineItemIds,
+      initiatedById: input.initiatedById,
+    },
+  });
+
+  if (paymentIntentId) {
+    try {
+      const providerRefund = await getPaymentProvider().refund({
+        paymentIntentId,
+        amount: Math.round(amount * 100),
+        reason: input.reason === 'DUPLICATE' ? 'duplicate' : 'requested_by_customer',
+        metadata: { refundId: refund.id, paymentId: payment.id, jobId: payment.jobId },
+      });
+
+      refund = await prisma.refund.update({
+        where: { id: refund.id },
+        data: {
+          providerRefundId: providerRefund.id,
+          status: providerRefund.status === 'succeeded' ? 'SUCCEEDED' : providerRefund.status === 'pending' ? 'PENDING' : 'FAILED',
+        },
+      });
+    } catch (error) {
+      await prisma.refund.update({ where: { id: refund.id }, data: { status: 'FAILED' } });
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          refundAmount: { decrement: amount },
+          status: statusAfterRefund(payment, previousRefunded),
+        },
+      });
+
+      if (error instanceof PaymentProviderError) {
+        throw new RefundError(error.message);
+      }
+      throw error;
+    }
+  } else {
+    const refundId = refund.id;
+    refund = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: payment.customerId },
+        data: { creditBalance: { increment: amount } },
+      });
+
+      return tx.refund.update({
+        where: { id: refundId },
+        data: {
+          status: 'SUCCEEDED',
+          credit: {
+            create: {
+              customerId: payment.customerId,
+              amount,
+              description: `Refund for ${payment.job?.title ?? 'job'}`,
+            },
+          },
+        },
+      });
+    });
+  }
+
+  await syncQuotePayments(payment.quoteId);
+
+  if (refund.status !== 'FAILED') {
+    await postRefundClawback({
+      paymentId: payment.id,
+      amount,
+      sourceKey: `refund:${refund.id}`,
+      description: `Refund on ${payment.job?.title ?? 'job'}`,
+      refundId: refund.id,
+    });
+  }
+
+  const toCredit = input.method === 'ACCOUNT_CREDIT';
+
+  await recordJobEvent({
+    jobId: payment.jobId,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_REFUNDED',
+    description: toCredit
+      ? `$${amount.toFixed(2)} refunded as account credit`
+      : `Refund processed: $${amount.toFixed(2)}`,
+    actorId: input.initiatedById,
+    metadata: {
+      paymentId: payment.id,
+      refundId: refund.id,
+      refundAmount: amount,
+      method: input.method,
+      reason: input.reason,
+      lineItemIds,
+    },
+  });
+
+  await sendNotification({
+    userId: payment.customerId,
+    jobId: payment.jobId,
+    type: 'PAYMENT_REFUNDED',
+    title: toCredit ? 'Credit Added' : 'Refund Issued',
+    body: toCredit
+      ? `$${amount.toFixed(2)} was added to your account credit for ${payment.job?.title ?? 'your job'}`
+      : `$${amount.toFixed(2)} is being refunded to your payment method`,
+    data: { jobId: payment.jobId, paymentId: payment.id, refundId: refund.id, refundAmount: amount },
+  });
+
+  return { refund, refundAmount: refunded, status: statusAfterRefund(payment, refunded) };
+}
+
+/**
+ * Account credit available to a customer
+ */
+export async function getCreditBalance(customerId: string): Promise<number> {
+  const customer = await prisma.user.findUnique({
+    where: { id: customerId },
+    select: { creditBalance: true },
+  });
+
+  return Math.max(0, roundCurrency(customer?.creditBalance ?? 0));
+}
+
+/**
+ * Pay the next amount due on a quote from account credit, up to the
+ * available balance. The credit is reserved with a conditional update in
+ * the same transaction as the payment, so two payments cannot spend the
+ * same balance. Returns null when the customer has no credit.
+ */
+export async function payWithCredit(input: {
+  quoteId: string;
+  customerId: string;
+  jobId: string;
+  quote: { id: string; total: number; depositPercent?: number | null; depositAmount?: number | null };
+}) {
+  const balance = await getCreditBalance(input.customerId);
+  if (balance <= 0) {
+    return null;
+  }
+
+  const { next } = await getQuotePaymentSchedule(input.quote);
+  if (!next) {
+    throw new RefundError('This quote has already been paid in full');
+  }
+
+  const amount = Math.min(balance, next.amount);
+
+  const payment = await prisma.$transaction(async (tx) => {
+    // Reserve the credit; fails if another payment spent it meanwhile
+    const { count } = await tx.user.updateMany({
+      where: { id: input.customerId, creditBalance: { gte: amount } },
+      data: { creditBalance: { decrement: amount } },
+    });
+
+    if (count === 0) {
+      throw new RefundError('Your account credit changed; please try again');
+    }
+
+    return tx.payment.create({
+      data: {
+        jobId: input.jobId,
+        customerId: input.customerId,
+        quoteId: input.quoteId,
+        kind: next.kind,
+        source: 'ACCOUNT_CREDIT',
+        stripePaymentId: null,
+        amount,
+        status: 'SUCCEEDED',
+        paymentMethod: 'account_credit',
+        creditEntries: {
+          create: {
+            customerId: input.customerId,
+            amount: -amount,
+            description: 'Applied to quote payment',
+          },
+        },
+      },
+    });
+  });
+
+  const updated = await syncQuotePayments(input.quoteId);
+  await postPaymentEarnings(payment.id);
+
+  await recordJobEvent({
+    jobId: input.jobId,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_SUCCEEDED',
+    description: `$${amount.toFixed(2)} paid from account credit`,
+    actorId: input.customerId,
+    metadata: { paymentId: payment.id, kind: payment.kind, source: 'ACCOUNT_CREDIT' },
+  });
+
+  return { payment, schedule: updated, creditBalance: roundCurrency(balance - amount) };
+}
@@ -0,0 +1,508 @@
+import type { JobStatus, RoutePlan } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { TRACKABLE_STATUSES } from './job-state-machine';
+import { getNavigationUrl, type Coordinates } from './location';
+import { getRoutingProvider } from './routing-provider';
+
+/**
+ * Route Planner Service
+ *
+ * Orders a mechanic's jobs for one day. Each stop takes the estimated time
+ * of the job's services and may have a time window: scheduledAt is the
+ * earliest arrival and arrivalWindowEnd the latest (an hour after
+ * scheduledAt when unset). Arriving early means waiting; arriving late is
+ * allowed but weighs LATE_PENALTY times as much as driving, so the planner
+ * only accepts lateness when no order avoids it.
+ *
+ * Jobs already under way stay at the front and URGENT jobs are visited
+ * before the rest. Up to MAX_EXACT_STOPS stops are ordered by exhaustive
+ * search; longer days are built by cheapest insertion and improved by
+ * moving one stop at a time.
+ *
+ * Only the visit order is saved (RoutePlan). When the plan is read, jobs
+ * assigned since it was made are inserted without reshuffling the rest:
+ * an urgent job goes right after the stop under way.
+ */
+
+export const MAX_EXACT_STOPS = 8;
+export const LATE_PENALTY = 10;
+export const DEFAULT_SERVICE_MINUTES = 60;
+export const DEFAULT_WINDOW_MINUTES = 60;
+
+/**
+ * When a future day starts if nothing is scheduled earlier
+ */
+const DAY_START_HOUR = 8;
+
+// Jobs the mechanic is already driving to or working on
+const UNDER_WAY_STATUSES: JobStatus[] = ['EN_ROUTE', 'IN_PROGRESS', 'PAUSED'];
+
+const METERS_PER_MILE = 1609.344;
+
+export interface RouteLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/**
+ * Travel between every pair of points: index 0 is the start, stop i is
+ * index i + 1
+ */
+export type LegMatrix = RouteLeg[][];
+
+export interface PlannerStop {
+  id: string;
+  serviceSeconds: number;
+  windowStart: number | null; // Epoch ms
+  windowEnd: number | null; // Epoch ms
+  urgent: boolean;
+  pinned: boolean; // Under way; stays at the front
+}
+
+export interface StopTiming {
+  leg: RouteLeg;
+  arrivalAt: number;
+  serviceStartAt: number;
+  departAt: number;
+  waitSeconds: number;
+  lateSeconds: number;
+}
+
+export interface PlannedStop {
+  jobId: string;
+  title: string;
+  location: string;
+  customerName: string;
+  priority: string;
+  status: string;
+  latitude: number;
+  longitude: number;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+  travelMinutes: number;
+  distanceMiles: number;
+  arrivalAt: Date;
+  departAt: Date;
+  waitMinutes: number;
+  lateMinutes: number;
+  navigationUrl: string;
+}
+
+export interface DayPlan {
+  day: Date;
+  start: Coordinates;
+  startAt: Date;
+  stops: PlannedStop[];
+  unroutable: { jobId: string; title: string }[]; // Jobs without a location
+  addedJobIds: string[]; // Inserted since the plan was made
+  totalDriveMinutes: number;
+  totalDistanceMiles: number;
+  finishAt: Date | null;
+  lateStops: number;
+}
+
+/**
+ * The day cannot be planned, e.g. without a start location
+ */
+export class RoutePlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutePlanError';
+  }
+}
+
+// Pinned stops first, then urgent, then the rest
+const rankOf = (stop: PlannerStop) => (stop.pinned ? 0 : stop.urgent ? 1 : 2);
+
+/**
+ * Drive the stops in `order` from `startAt`; stop indexes refer to `stops`
+ */
+export function scheduleRoute(
+  order: number[],
+  stops: PlannerStop[],
+  legs: LegMatrix,
+  startAt: number
+): { timings: StopTiming[]; cost: number } {
+  const timings: StopTiming[] = [];
+  let clock = startAt;
+  let from = 0;
+  let lateSeconds = 0;
+
+  for (const index of order) {
+    const stop = stops[index];
+    const leg = legs[from][index + 1];
+    const arrivalAt = clock + leg.durationSeconds * 1000;
+    const serviceStartAt = stop.windowStart != null ? Math.max(arrivalAt, stop.windowStart) : arrivalAt;
+    const late = stop.windowEnd != null ? Math.max(0, (arrivalAt - stop.windowEnd) / 1000) : 0;
+
+    clock = serviceStartAt + stop.serviceSeconds * 1000;
+    lateSeconds += late;
+    from = index + 1;
+
+    timings.push({
+      leg,
+      arrivalAt,
+      serviceStartAt,
+      departAt: clock,
+      waitSeconds: (serviceStartAt - arrivalAt) / 1000,
+      lateSeconds: late,
+    });
+  }
+
+  return { timings, cost: (clock - startAt) / 1000 + LATE_PENALTY * lateSeconds };
+}
+
+/**
+ * Insert one stop where it adds the least cost, between the stops that
+ * must come before it and those that must come after
+ */
+export function insertStop(
+  order: number[],
+  index: number,
+  stops: PlannerStop[],
+  legs: LegMatrix,
+  startAt: number
+): number[] {
+  const rank = rankOf(stops[index]);
+  let first = 0;
+  order.forEach((existing, position) => {
+    if (rankOf(stops[existing]) < rank) first = position + 1;
+  });
+  const after = order.findIndex((existing, position) => position >= first && rankOf(stops[existing]) > rank);
+  const last = after === -1 ? order.length : after;
+
+  let best: { order: number[]; cost: number } | null = null;
+  for (let position = first; position <= last; position++) {
+    const candidate = [...order.slice(0, position), index, ...order.slice(position)];
+    const { cost } = scheduleRoute(candidate, stops, legs, startAt);
+    if (!best || cost < best.cost) best = { order: candidate, cost };
+  }
+
+  return best!.order;
+}
+
+function searchExact(pinned: number[], free: number[], stops: PlannerStop[], legs: LegMatrix, startAt: number) {
+  let best: { order: number[]; cost: number } = { order: [], cost: Infinity };
+
+  const visit = (order: number[], remaining: number[]) => {
+    // Cost only grows as stops are added, so a worse prefix cannot win
+    const { cost } = scheduleRoute(order, stops, legs, startAt);
+    if (cost >= best.cost) return;
+
+    if (remaining.length === 0) {
+      best = { order, cost };
+      return;
+    }
+
+    const urgentLeft = remaining.some((index) => stops[index].urgent);
+    for (const index of remaining) {
+      if (urgentLeft && !stops[index].urgent) continue;
+      visit([...order, index], remaining.filter((other) => other !== index));
+    }
+  };
+
+  visit(pinned, free);
+  return best.order;
+}
+
+function improveByRelocation(order: number[], stops: PlannerStop[], legs: LegMatrix, startAt: number) {
+  let current = order;
+  let currentCost = scheduleRoute(current, stops, legs, startAt).cost;
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+
+    for (const index of current) {
+      if (stops[index].pinned) continue;
+
+      const candidate = insertStop(current.filter((other) => other !== index), index, stops, legs, startAt);
+      const { cost } = scheduleRoute(candidate, stops, legs, startAt);
+      if (cost < currentCost) {
+        current = candidate;
+        currentCost = cost;
+        improved = true;
+        break;
+      }
+    }
+  }
+
+  return current;
+}
+
+/**
+ * The cheapest visit order, as indexes into `stops`
+ */
+export function optimizeOrder(stops: PlannerStop[], legs: LegMatrix, startAt: number): number[] {
+  const pinned = stops.map((_, index) => index).filter((index) => stops[index].pinned);
+  const free = stops.map((_, index) => index).filter((index) => !stops[index].pinned);
+
+  if (free.length <= MAX_EXACT_STOPS) {
+    return searchExact(pinned, free, stops, legs, startAt);
+  }
+
+  const byUrgencyThenWindow = [...free].sort((a, b) =>
+    rankOf(stops[a]) - rankOf(stops[b]) ||
+    (stops[a].windowStart ?? Infinity) - (stops[b].windowStart ?? Infinity)
+  );
+  const built = byUrgencyThenWindow.reduce(
+    (order, index) => insertStop(order, index, stops, legs, startAt),
+    pinned
+  );
+
+  return improveByRelocation(built, stops, legs, startAt);
+}
+
+/**
+ * Keep a saved order for the stops still on the day and insert new ones
+ */
+export function mergeIntoOrder(
+  savedOrder: string[],
+  stops: PlannerStop[],
+  legs: LegMatrix,
+  startAt: number
+): { order: number[]; added: number[] } {
+  const indexById = new Map(stops.map((stop, index) => [stop.id, index]));
+  const kept = savedOrder
+    .map((id) => indexById.get(id))
+    .filter((index): index is number => index !== undefined);
+
+  const pinned = stops.map((_, index) => index).filter((index) => stops[index].pinned);
+  let order = [...pinned, ...kept.filter((index) => !stops[index].pinned)];
+
+  const added = stops
+    .map((_, index) => index)
+    .filter((index) => !order.includes(index))
+    .sort((a, b) => rankOf(stops[a]) - rankOf(stops[b]));
+
+  for (const index of added) {
+    order = insertStop(order, index, stops, legs, startAt);
+  }
+
+  return { order, added };
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+async function loadDay(mechanicId: string, day: Date, now: Date) {
+  const isToday = day.getTime() === startOfDay(now).getTime();
+
+  const jobs = await prisma.job.findMany({
+    where: {
+      mechanicId,
+      status: { in: TRACKABLE_STATUSES },
+      OR: [
+        { scheduledAt: { gte: day, lt: addDays(day, 1) } },
+        // Unscheduled work and anything under way belongs to today
+        ...(isToday ? [{ scheduledAt: null }, { status: { in: UNDER_WAY_STATUSES } }] : []),
+      ],
+    },
+    select: {
+      id: true,
+      title: true,
+      location: true,
+      latitude: true,
+      longitude: true,
+      status: true,
+      priority: true,
+      scheduledAt: true,
+      arrivalWindowEnd: true,
+      startedAt: true,
+      services: { select: { estimatedTime: true } },
+      customer: { select: { firstName: true, lastName: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  type DayJob = (typeof jobs)[number];
+  const routable = jobs.filter((job): job is DayJob & Coordinates => job.latitude != null && job.longitude != null);
+  const unroutable = jobs
+    .filter((job) => job.latitude == null || job.longitude == null)
+    .map((job) => ({ jobId: job.id, title: job.title }));
+
+  const stops: PlannerStop[] = routable.map((job) => {
+    const estimatedMinutes = job.services.reduce((sum, service) => sum + service.estimatedTime, 0)
+      || DEFAULT_SERVICE_MINUTES;
+    // Work already done comes off the estimate
+    const workedMinutes = job.startedAt ? (now.getTime() - job.startedAt.getTime()) / 60000 : 0;
+    const windowStart: number | null = job.scheduledAt?.getTime() ?? null;
+    const windowEnd: number | null = job.arrivalWindowEnd?.getTime()
+      ?? (windowStart != null ? windowStart + DEFAULT_WINDOW_MINUTES * 60000 : null);
+
+    return {
+      id: job.id,
+      serviceSeconds: Math.round(Math.max(0, estimatedMinutes - workedMinutes) * 60),
+      windowStart,
+      windowEnd,
+      urgent: job.priority === 'URGENT',
+      pinned: UNDER_WAY_STATUSES.includes(job.status),
+    };
+  });
+
+  const startAt = isToday
+    ? now
+    : new Date(day.getFullYear(), day.getMonth(), day.getDate(), DAY_START_HOUR);
+
+  return { jobs: routable, stops, unroutable, startAt };
+}
+
+async function loadLegs(start: Coordinates, points: Coordinates[]): Promise<LegMatrix> {
+  const all = [start, ...points];
+  const provider = getRoutingProvider();
+
+  return Promise.all(all.map((from, i) =>
+    Promise.all(all.map(async (to, j) => {
+      if (i === j) return { distanceMeters: 0, durationSeconds: 0 };
+      const route = await provider.route(from, to);
+      return { distanceMeters: route.distanceMeters, durationSeconds: route.durationSeconds };
+    }))
+  ));
+}
+
+async function resolveStart(mechanicId: string, start: Coordinates | undefined, saved: RoutePlan | null): Promise<Coordinates> {
+  if (start) return start;
+
+  const profile = await prisma.mechanicProfile.findUnique({
+    where: { mechanicId },
+    select: { latitude: true, longitude: true },
+  });
+
+  if (profile?.latitude != null && profile?.longitude != null) {
+    return { latitude: profile.latitude, longitude: profile.longitude };
+  }
+  if (saved) {
+    return { latitude: saved.startLatitude, longitude: saved.startLongitude };
+  }
+
+  throw new RoutePlanError('Share your location to plan the day');
+}
+
+type RoutableJob = Awaited<ReturnType<typeof loadDay>>['jobs'][number];
+
+const minutes = (seconds: number) => Math.round(seconds / 60);
+
+function buildPlan(input: {
+  day: Date;
+  start: Coordinates;
+  startAt: Date;
+  jobs: RoutableJob[];
+  stops: PlannerStop[];
+  legs: LegMatrix;
+  order: number[];
+  added: number[];
+  unroutable: DayPlan['unroutable'];
+  platform: 'ios' | 'android' | 'web';
+}): DayPlan {
+  const { timings } = scheduleRoute(input.order, input.stops, input.legs, input.startAt.getTime());
+
+  const stops: PlannedStop[] = input.order.map((index, position) => {
+    const job = input.jobs[index];
+    const stop = input.stops[index];
+    const timing = timings[position];
+    const point = { latitude: job.latitude, longitude: job.longitude };
+
+    return {
+      jobId: job.id,
+      title: job.title,
+      location: job.location,
+      customerName: `${job.customer.firstName} ${job.customer.lastName}`,
+      priority: job.priority,
+      status: job.status,
+      ...point,
+      windowStart: stop.windowStart != null ? new Date(stop.windowStart) : null,
+      windowEnd: stop.windowEnd != null ? new Date(stop.windowEnd) : null,
+      travelMinutes: minutes(timing.leg.durationSeconds),
+      distanceMiles: Math.round((timing.leg.distanceMeters / METERS_PER_MILE) * 10) / 10,
+      arrivalAt: new Date(timing.arrivalAt),
+      departAt: new Date(timing.departAt),
+      waitMinutes: minutes(timing.waitSeconds),
+      lateMinutes: minutes(timing.lateSeconds),
+      navigationUrl: getNavigationUrl(point, input.platform),
+    };
+  });
+
+  const driveSeconds = timings.reduce((sum, timing) => sum + timing.leg.durationSeconds, 0);
+  const driveMeters = timings.reduce((sum, timing) => sum + timing.leg.distanceMeters, 0);
+
+  return {
+    day: input.day,
+    start: input.start,
+    startAt: input.startAt,
+    stops,
+    unroutable: input.unroutable,
+    addedJobIds: input.added.map((index) => input.jobs[index].id),
+    totalDriveMinutes: minutes(driveSeconds),
+    totalDistanceMiles: Math.round((driveMeters / METERS_PER_MILE) * 10) / 10,
+    finishAt: timings.length ? new Date(timings[timings.length - 1].departAt) : null,
+    lateStops: timings.filter((timing) => timing.lateSeconds > 0).length,
+  };
+}
+
+interface PlanDayInput {
+  mechanicId: string;
+  date?: Date;
+  start?: Coordinates; // Defaults to the mechanic's last reported position
+  platform?: 'ios' | 'android' | 'web';
+  now?: Date;
+}
+
+/**
+ * Optimize the day from scratch and save the order
+ */
+export async function planDay(input: PlanDayInput): Promise<DayPlan> {
+  const now = input.now ?? new Date();
+  const day = startOfDay(input.date ?? now);
+
+  const saved = await prisma.routePlan.findUnique({
+    where: { mechanicId_day: { mechanicId: input.mechanicId, day } },
+  });
+  const start = await resolveStart(input.mechanicId, input.start, saved);
+  const { jobs, stops, unroutable, startAt } = await loadDay(input.mechanicId, day, now);
+
+  const legs = await loadLegs(start, jobs.map((job) => ({ latitude: job.latitude, longitude: job.longitude })));
+  const order = optimizeOrder(stops, legs, startAt.getTime());
+
+  const plan = {
+    startLatitude: start.latitude,
+    startLongitude: start.longitude,
+    jobOrder: order.map((index) => stops[index].id),
+  };
+  await prisma.routePlan.upsert({
+    where: { mechanicId_day: { mechanicId: input.mechanicId, day } },
+    create: { mechanicId: input.mechanicId, day, ...plan },
+    update: plan,
+  });
+
+  return buildPlan({
+    day, start, startAt, jobs, stops, legs, order, added: [], unroutable,
+    platform: input.platform ?? 'web',
+  });
+}
+
+/**
+ * The saved plan for the day with current times, or null if the day has
+ * not been planned. Jobs assigned since planning are inserted.
+ */
+export async function getDayPlan(input: PlanDayInput): Promise<DayPlan | null> {
+  const now = input.now ?? new Date();
+  const day = startOfDay(input.date ?? now);
+
+  const saved = await prisma.routePlan.findUnique({
+    where: { mechanicId_day: { mechanicId: input.mechanicId, day } },
+  });
+  if (!saved) return null;
+
+  const start = await resolveStart(input.mechanicId, input.start, saved);
+  const { jobs, stops, unroutable, startAt } = await loadDay(input.mechanicId, day, now);
+
+  const legs = await loadLegs(start, jobs.map((job) => ({ latitude: job.latitude, longitude: job.longitude })));
+  const { order, added } = mergeIntoOrder(saved.jobOrder, stops, legs, startAt.getTime());
+
+  return buildPlan({
+    day, start, startAt, jobs, stops, legs, order, added, unroutable,
+    platform: input.platform ?? 'web',
+  });
+}
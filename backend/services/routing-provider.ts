@@ -0,0 +1,163 @@
+import { validatedEnv } from '../env-validation';
+import { createGoogleRoutingProvider } from './google-routing-provider';
+import { createHeuristicRoutingProvider } from './heuristic-routing-provider';
+import { createHttpRoutingProvider } from './http-routing-provider';
+
+/**
+ * Routing Provider
+ *
+ * Driving distance and duration between two points, behind one interface
+ * so location.ts does not care where routes come from. The provider is
+ * chosen with ROUTING_PROVIDER (see env-validation.ts):
+ *
+ *   google     Google Distance Matrix (GOOGLE_MAPS_API_KEY)
+ *   osrm       Self-hosted OSRM at ROUTING_SERVICE_URL
+ *   valhalla   Self-hosted Valhalla at ROUTING_SERVICE_URL
+ *   heuristic  Offline road-speed estimate, no network
+ *
+ * Network providers fall back to the heuristic when a request fails, and
+ * recent origin/destination pairs are served from a cache.
+ */
+
+export type RoutingProviderName = 'google' | 'osrm' | 'valhalla' | 'heuristic';
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteEstimate {
+  distanceMeters: number;
+  durationSeconds: number;
+  durationText?: string; // Provider's own wording, when it has one
+  provider: RoutingProviderName; // Who answered, after any fallback
+}
+
+export interface RoutingProvider {
+  readonly name: RoutingProviderName;
+  route(origin: RoutePoint, destination: RoutePoint): Promise<RouteEstimate>;
+}
+
+/**
+ * The routing service failed or found no route
+ */
+export class RoutingProviderError extends Error {
+  readonly provider: RoutingProviderName;
+
+  constructor(provider: RoutingProviderName, message: string) {
+    super(message);
+    this.name = 'RoutingProviderError';
+    this.provider = provider;
+  }
+}
+
+export const ROUTE_CACHE_TTL_MS = 5 * 60 * 1000;
+export const ROUTE_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Coordinates rounded to ~10 m so a mechanic creeping along the same street
+ * reuses the route
+ */
+const cacheKey = (origin: RoutePoint, destination: RoutePoint) =>
+  [origin.latitude, origin.longitude, destination.latitude, destination.longitude]
+    .map((value) => value.toFixed(4))
+    .join(',');
+
+/**
+ * Wrap a provider with a cache of recent routes. Entries expire after
+ * `ttlMs`; the oldest are evicted beyond `maxEntries`.
+ */
+export function withRouteCache(
+  inner: RoutingProvider,
+  options: { ttlMs?: number; maxEntries?: number; now?: () => number } = {}
+): RoutingProvider {
+  const ttlMs = options.ttlMs ?? ROUTE_CACHE_TTL_MS;
+  const maxEntries = options.maxEntries ?? ROUTE_CACHE_MAX_ENTRIES;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, { estimate: Promise<RouteEstimate>; storedAt: number }>();
+
+  return {
+    name: inner.name,
+    async route(origin, destination) {
+      const key = cacheKey(origin, destination);
+      const cached = entries.get(key);
+
+      if (cached && now() - cached.storedAt < ttlMs) {
+        return cached.estimate;
+      }
+
+      // Concurrent lookups for the same pair share one request
+      const estimate = inner.route(origin, destination);
+      entries.delete(key);
+      entries.set(key, { estimate, storedAt: now() });
+
+      // Maps iterate in insertion order, so the first key is the oldest
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+
+      try {
+        return await estimate;
+      } catch (error) {
+        entries.delete(key);
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Answer from `fallback` whenever `primary` fails
+ */
+export function withFallback(primary: RoutingProvider, fallback: RoutingProvider): RoutingProvider {
+  return {
+    name: primary.name,
+    async route(origin, destination) {
+      try {
+        return await primary.route(origin, destination);
+      } catch (error) {
+        console.warn(`Routing with ${primary.name} failed, using ${fallback.name}:`, error instanceof Error ? error.message : error);
+        return fallback.route(origin, destination);
+      }
+    },
+  };
+}
+
+function createConfiguredProvider(): RoutingProvider {
+  const heuristic = createHeuristicRoutingProvider();
+  const name: RoutingProviderName = validatedEnv.ROUTING_PROVIDER
+    ?? (validatedEnv.GOOGLE_MAPS_API_KEY ? 'google' : 'heuristic');
+
+  switch (name) {
+    case 'google':
+      return withFallback(createGoogleRoutingProvider({ apiKey: validatedEnv.GOOGLE_MAPS_API_KEY ?? '' }), heuristic);
+    case 'osrm':
+    case 'valhalla':
+      return withFallback(
+        createHttpRoutingProvider({ flavor: name, baseUrl: validatedEnv.ROUTING_SERVICE_URL ?? '' }),
+        heuristic
+      );
+    case 'heuristic':
+      return heuristic;
+  }
+}
+
+let provider: RoutingProvider | null = null;
+
+/**
+ * The configured provider with caching, created on first use
+ */
+export function getRoutingProvider(): RoutingProvider {
+  if (!provider) {
+    provider = withRouteCache(createConfiguredProvider());
+  }
+
+  return provider;
+}
+
+/**
+ * Swap the provider, e.g. for one pointed at a stub server in tests
+ */
+export function setRoutingProvider(next: RoutingProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,184 @@
+import { prisma } from '../../lib/prisma';
+import { calculateHaversineDistance, type Coordinates } from './location';
+
+/**
+ * Service Zones Service
+ *
+ * Where work is offered and what travel costs there. Admins draw zones as
+ * polygons or as a center and radius. Zones without a mechanic together
+ * form the service area: a location must fall inside one of them to be
+ * quoted, and the matching zone (highest priority where zones overlap)
+ * may override the per-mile travel fee and minimum and add a surcharge.
+ * Until any service area zone is configured, service is offered
+ * everywhere at the global travel fee.
+ *
+ * Zones with a mechanic are that mechanic's coverage area; dispatch uses
+ * them instead of the mechanic's service radius.
+ */
+
+const METERS_PER_MILE = 1609.344;
+
+/**
+ * Zone as stored (mirrors the ServiceZone Prisma model)
+ */
+export interface ServiceZone {
+  id: string;
+  name: string;
+  shape: 'POLYGON' | 'RADIUS';
+  polygon: Coordinates[] | null;
+  centerLatitude: number | null;
+  centerLongitude: number | null;
+  radiusMiles: number | null;
+  mechanicId: string | null;
+  travelFeePerMile: number | null;
+  minimumTravelFee: number | null;
+  surcharge: number;
+  surchargeLabel: string | null;
+  priority: number;
+  isActive: boolean;
+}
+
+/**
+ * Travel pricing a zone applies on top of the global settings
+ */
+export interface ZonePricing {
+  name: string;
+  travelFeePerMile: number | null;
+  minimumTravelFee: number | null;
+  surcharge: number;
+  surchargeLabel: string | null;
+}
+
+export interface ServiceAreaCheck {
+  servable: boolean;
+  zone: ServiceZone | null; // Null when no service area is configured
+  message?: string; // Why the location cannot be served
+}
+
+/**
+ * The location is outside the service area, or a zone is malformed
+ */
+export class ServiceAreaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceAreaError';
+  }
+}
+
+/**
+ * Ray casting; points exactly on an edge may land either side
+ */
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+export function zoneContains(zone: ServiceZone, point: Coordinates): boolean {
+  if (zone.shape === 'POLYGON') {
+    return !!zone.polygon && zone.polygon.length >= 3 && isPointInPolygon(point, zone.polygon);
+  }
+
+  if (zone.centerLatitude == null || zone.centerLongitude == null || zone.radiusMiles == null) {
+    return false;
+  }
+
+  const meters = calculateHaversineDistance(
+    { latitude: zone.centerLatitude, longitude: zone.centerLongitude },
+    point
+  );
+  return meters / METERS_PER_MILE <= zone.radiusMiles;
+}
+
+/**
+ * Highest-priority active zone containing the point
+ */
+export function matchZone(zones: ServiceZone[], point: Coordinates): ServiceZone | null {
+  let best: ServiceZone | null = null;
+
+  for (const zone of zones) {
+    if (!zone.isActive || !zoneContains(zone, point)) continue;
+    if (!best || zone.priority > best.priority) best = zone;
+  }
+
+  return best;
+}
+
+/**
+ * Check a location against a set of service area zones
+ */
+export function checkServiceArea(zones: ServiceZone[], point: Coordinates | null | undefined): ServiceAreaCheck {
+  const serviceArea = zones.filter((zone) => zone.isActive && !zone.mechanicId);
+
+  if (serviceArea.length === 0) {
+    return { servable: true, zone: null };
+  }
+
+  if (!point) {
+    return { servable: false, zone: null, message: 'A service location is required to check the service area' };
+  }
+
+  const zone = matchZone(serviceArea, point);
+  return zone
+    ? { servable: true, zone }
+    : { servable: false, zone: null, message: 'This location is outside our service area' };
+}
+
+export function toZonePricing(zone: ServiceZone): ZonePricing {
+  return {
+    name: zone.name,
+    travelFeePerMile: zone.travelFeePerMile,
+    minimumTravelFee: zone.minimumTravelFee,
+    surcharge: zone.surcharge,
+    surchargeLabel: zone.surchargeLabel,
+  };
+}
+
+/**
+ * Geometry problems in a zone about to be saved, or null if it is valid
+ */
+export function validateZoneShape(zone: Pick<ServiceZone, 'shape' | 'polygon' | 'centerLatitude' | 'centerLongitude' | 'radiusMiles'>): string | null {
+  if (zone.shape === 'POLYGON') {
+    return zone.polygon && zone.polygon.length >= 3 ? null : 'A polygon zone needs at least three points';
+  }
+
+  if (zone.centerLatitude == null || zone.centerLongitude == null) {
+    return 'A radius zone needs a center point';
+  }
+  return zone.radiusMiles && zone.radiusMiles > 0 ? null : 'A radius zone needs a radius above zero';
+}
+
+/**
+ * Load active service area zones and check a location
+ */
+export async function resolveServiceArea(point: Coordinates | null | undefined): Promise<ServiceAreaCheck> {
+  const zones = await prisma.serviceZone.findMany({
+    where: { isActive: true, mechanicId: null },
+  });
+
+  return checkServiceArea(zones as ServiceZone[], point);
+}
+
+/**
+ * Throw unless the location is inside the service area; returns the zone's
+ * travel pricing, if any
+ */
+export async function assertInServiceArea(point: Coordinates | null | undefined): Promise<ZonePricing | null> {
+  const check = await resolveServiceArea(point);
+
+  if (!check.servable) {
+    throw new ServiceAreaError(check.message ?? 'This location is outside our service area');
+  }
+
+  return check.zone ? toZonePricing(check.zone) : null;
+}
@@ -1,5 +1,6 @@
 import { v2 as cloudinary } from 'cloudinary';
 import { prisma } from '../../lib/prisma';
+import { recordJobEvent } from './job-timeline';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -40,6 +41,15 @@ export async function uploadPhoto(data: PhotoUploadData) {
       },
     });
 
+    await recordJobEvent({
+      jobId,
+      kind: 'PHOTO',
+      eventType: `PHOTO_${type}`,
+      description: description ? `Photo added: ${description}` : 'Photo added to job',
+      actorId: uploaderId,
+      metadata: { photoId: photo.id, url: photo.url, type },
+    });
+
     return { success: true, photo };
   } catch (error) {
     console.error('Photo upload error:', error);
@@ -67,3 +77,48 @@ export async function deletePhoto(photoId: string, userId: string) {
     return { success: false };
   }
 }
+
+export interface DocumentUploadData {
+  folder: string; // e.g. `invoices/${jobId}`
+  fileName: string; // Including extension, e.g. 'INV-1A2B3C4D.pdf'
+  buffer: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Store a generated document (invoices, receipts). Documents are uploaded as
+ * authenticated raw files, so they can only be fetched through a signed URL.
+ */
+export async function uploadDocument(data: DocumentUploadData) {
+  try {
+    const { folder, fileName, buffer, mimeType } = data;
+
+    const result = await cloudinary.uploader.upload(`data:${mimeType};base64,${buffer.toString('base64')}`, {
+      folder: `heinicus/${folder}`,
+      public_id: fileName,
+      resource_type: 'raw',
+      type: 'authenticated',
+      overwrite: true,
+    });
+
+    return { success: true as const, fileId: result.public_id, bytes: result.bytes };
+  } catch (error) {
+    console.error('Document upload error:', error);
+    return { success: false as const, error: 'Upload failed' };
+  }
+}
+
+/**
+ * Short-lived download URL for a stored document
+ */
+export function getDocumentUrl(fileId: string, expiresInSeconds = 60 * 60) {
+  const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+
+  const url = cloudinary.utils.private_download_url(fileId, '', {
+    resource_type: 'raw',
+    type: 'authenticated',
+    expires_at: Math.floor(expiresAt.getTime() / 1000),
+  });
+
+  return { url, expiresAt };
+}
@@ -0,0 +1,183 @@
+import Stripe from 'stripe';
+import {
+  PaymentProviderError,
+  WebhookSignatureError,
+  type PaymentProvider,
+  type ProviderPaymentIntent,
+  type ProviderRefund,
+  type ProviderSetupIntent,
+} from './payment-provider';
+
+/**
+ * Stripe Payment Provider
+ *
+ * PaymentProvider backed by the Stripe API. Stripe errors from declined or
+ * invalid requests are rethrown as PaymentProviderError; network and
+ * authentication failures propagate unchanged.
+ */
+
+export interface StripePaymentProviderConfig {
+  secretKey: string;
+  webhookSecret?: string;
+}
+
+function toIntent(intent: Stripe.PaymentIntent): ProviderPaymentIntent {
+  return {
+    id: intent.id,
+    clientSecret: intent.client_secret,
+    amount: intent.amount,
+    amountCaptured: intent.amount_received,
+    currency: intent.currency,
+    status: intent.status,
+    paymentMethod: typeof intent.payment_method === 'string'
+      ? intent.payment_method
+      : intent.payment_method?.id ?? null,
+    metadata: intent.metadata,
+    nextActionUrl: intent.next_action?.redirect_to_url?.url ?? null,
+  };
+}
+
+function toSetupIntent(intent: Stripe.SetupIntent): ProviderSetupIntent {
+  return {
+    id: intent.id,
+    clientSecret: intent.client_secret,
+    status: intent.status,
+    paymentMethod: typeof intent.payment_method === 'string'
+      ? intent.payment_method
+      : intent.payment_method?.id ?? null,
+  };
+}
+
+function toRefund(refund: Stripe.Refund): ProviderRefund {
+  return {
+    id: refund.id,
+    paymentIntentId: typeof refund.payment_intent === 'string'
+      ? refund.payment_intent
+      : refund.payment_intent?.id ?? '',
+    amount: refund.amount,
+    status: (refund.status ?? 'pending') as ProviderRefund['status'],
+  };
+}
+
+/**
+ * Card declines and invalid requests become PaymentProviderError
+ */
+async function call<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      throw new PaymentProviderError(error.code ?? 'card_declined', error.message, error.decline_code);
+    }
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      throw new PaymentProviderError(error.code ?? 'invalid_request', error.message);
+    }
+    throw error;
+  }
+}
+
+export function createStripePaymentProvider(config: StripePaymentProviderConfig): PaymentProvider {
+  const stripe = new Stripe(config.secretKey, {
+    apiVersion: '2025-10-29.clover',
+  });
+
+  return {
+    name: 'stripe',
+
+    async createCustomer({ email, name, metadata }) {
+      const customer = await call(() => stripe.customers.create({ email, name, metadata }));
+      return { id: customer.id, email: customer.email ?? null, name: customer.name ?? null };
+    },
+
+    async createIntent(input) {
+      const intent = await call(() =>
+        stripe.paymentIntents.create({
+          amount: input.amount,
+          currency: input.currency ?? 'usd',
+          customer: input.customerId,
+          payment_method: input.paymentMethodId,
+          confirmation_method: input.confirmationMethod ?? 'automatic',
+          confirm: input.confirm ?? false,
+          capture_method: input.captureMethod ?? 'automatic',
+          description: input.description,
+          metadata: input.metadata,
+        })
+      );
+      return toIntent(intent);
+    },
+
+    async retrieveIntent(paymentIntentId) {
+      return toIntent(await call(() => stripe.paymentIntents.retrieve(paymentIntentId)));
+    },
+
+    async confirmIntent(paymentIntentId, paymentMethodId) {
+      const intent = await call(() =>
+        stripe.paymentIntents.confirm(paymentIntentId, { payment_method: paymentMethodId })
+      );
+      return toIntent(intent);
+    },
+
+    async captureIntent(paymentIntentId, amount) {
+      const intent = await call(() =>
+        stripe.paymentIntents.capture(paymentIntentId, amount ? { amount_to_capture: amount } : {})
+      );
+      return toIntent(intent);
+    },
+
+    async cancelIntent(paymentIntentId) {
+      return toIntent(await call(() => stripe.paymentIntents.cancel(paymentIntentId)));
+    },
+
+    async refund({ paymentIntentId, amount, reason, metadata }) {
+      const refund = await call(() =>
+        stripe.refunds.create({ payment_intent: paymentIntentId, amount, reason, metadata })
+      );
+      return toRefund(refund);
+    },
+
+    async createSetupIntent(customerId) {
+      const intent = await call(() =>
+        stripe.setupIntents.create({ customer: customerId, payment_method_types: ['card'], usage: 'on_session' })
+      );
+      return toSetupIntent(intent);
+    },
+
+    async listPaymentMethods(customerId) {
+      const methods = await call(() => stripe.paymentMethods.list({ customer: customerId, type: 'card' }));
+      return methods.data.map((method) => ({
+        id: method.id,
+        type: method.type,
+        card: method.card
+          ? {
+              brand: method.card.brand,
+              last4: method.card.last4,
+              expMonth: method.card.exp_month,
+              expYear: method.card.exp_year,
+            }
+          : null,
+      }));
+    },
+
+    async detachPaymentMethod(paymentMethodId) {
+      await call(() => stripe.paymentMethods.detach(paymentMethodId));
+    },
+
+    verifyWebhook(payload, signature) {
+      if (!config.webhookSecret) {
+        throw new Error('STRIPE_WEBHOOK_SECRET environment variable is not set');
+      }
+
+      if (!signature) {
+        throw new WebhookSignatureError('Missing Stripe signature');
+      }
+
+      try {
+        return stripe.webhooks.constructEvent(payload, signature, config.webhookSecret);
+      } catch (error) {
+        throw new WebhookSignatureError(
+          error instanceof Error ? error.message : 'Webhook signature verification failed'
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,534 @@
+import type Stripe from 'stripe';
+import { prisma } from '../../lib/prisma';
+import { getPaymentProvider, type ProviderWebhookEvent } from './payment-provider';
+import { recordJobEvent, type JobTimelineEventInput } from './job-timeline';
+import { JobTransitionError, transitionJob, type TransitionJobInput } from './job-state-machine';
+import { sendNotification, type NotificationPayload } from './notifications';
+import { syncQuotePayments } from './deposits';
+import { statusAfterRefund } from './refunds';
+import { postPaymentEarnings, postRefundClawback } from './earnings';
+import { roundCurrency } from '../../utils/quote-totals';
+
+/**
+ * Stripe Webhooks Service
+ *
+ * Applies Stripe events to Payment, Quote and Job records. Payloads are
+ * verified by the configured PaymentProvider; the fake provider emits the
+ * same Stripe-shaped events. Every event id is written to the
+ * ProcessedWebhookEvent ledger in the same transaction as the changes it
+ * causes, so a redelivered event is skipped and a failed one leaves nothing
+ * behind for Stripe's retry. Job status changes, timeline entries and
+ * notifications go out only after the transaction commits.
+ */
+
+/**
+ * Events this processor acts on; anything else is acknowledged and ignored
+ */
+export const HANDLED_EVENT_TYPES = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'payment_intent.canceled',
+  'charge.refunded',
+  'charge.dispute.created',
+  'charge.dispute.updated',
+  'charge.dispute.closed',
+] as const;
+
+export type HandledEventType = (typeof HANDLED_EVENT_TYPES)[number];
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  outcome: WebhookOutcome;
+  paymentId?: string;
+}
+
+/**
+ * Side effects collected inside the transaction and run after it commits
+ */
+interface WebhookEffects {
+  paymentId?: string;
+  transitions: TransitionJobInput[];
+  timeline: JobTimelineEventInput[];
+  notifications: NotificationPayload[];
+}
+
+type WebhookDb = Pick<
+  typeof prisma,
+  | 'payment'
+  | 'quote'
+  | 'refund'
+  | 'paymentDispute'
+  | 'processedWebhookEvent'
+  | 'earningsTransaction'
+  | 'earningsEntry'
+  | 'systemSettings'
+>;
+
+const PAYMENT_INCLUDE = {
+  job: {
+    select: { id: true, title: true, status: true, customerId: true, mechanicId: true },
+  },
+};
+
+/**
+ * Apply a verified event once. Redeliveries of an event already in the
+ * ledger (including one being applied concurrently) return 'duplicate'.
+ */
+export async function processStripeEvent(event: ProviderWebhookEvent): Promise<WebhookResult> {
+  const result: WebhookResult = { eventId: event.id, type: event.type, outcome: 'ignored' };
+
+  if (!(HANDLED_EVENT_TYPES as readonly string[]).includes(event.type)) {
+    return result;
+  }
+
+  const seen = await prisma.processedWebhookEvent.findUnique({
+    where: { id: event.id },
+    select: { id: true },
+  });
+
+  if (seen) {
+    return { ...result, outcome: 'duplicate' };
+  }
+
+  let effects: WebhookEffects | null;
+  try {
+    effects = await prisma.$transaction(async (tx: WebhookDb) => {
+      await tx.processedWebhookEvent.create({
+        data: {
+          id: event.id,
+          type: event.type,
+          objectId: (event.data.object as { id?: string }).id ?? null,
+        },
+      });
+
+      return applyEvent(tx, event);
+    });
+  } catch (error) {
+    // Another delivery of the same event committed first
+    if ((error as { code?: string })?.code === 'P2002') {
+      return { ...result, outcome: 'duplicate' };
+    }
+    throw error;
+  }
+
+  if (!effects) {
+    return result;
+  }
+
+  for (const transition of effects.transitions) {
+    try {
+      await transitionJob(transition);
+    } catch (error) {
+      // The job already moved on, e.g. a second payment for the same quote
+      if (!(error instanceof JobTransitionError)) throw error;
+    }
+  }
+
+  for (const entry of effects.timeline) {
+    await recordJobEvent(entry);
+  }
+
+  for (const notification of effects.notifications) {
+    await sendNotification(notification);
+  }
+
+  return { ...result, outcome: 'processed', paymentId: effects.paymentId };
+}
+
+/**
+ * Verify a raw webhook request body with the configured provider and process it
+ */
+export async function handleStripeWebhook(
+  payload: string,
+  signature: string | undefined | null
+): Promise<WebhookResult> {
+  return processStripeEvent(getPaymentProvider().verifyWebhook(payload, signature));
+}
+
+/**
+ * Dispatch an event to its handler. Returns null when the event is about a
+ * payment this app did not create.
+ */
+async function applyEvent(tx: WebhookDb, event: ProviderWebhookEvent): Promise<WebhookEffects | null> {
+  switch (event.type as HandledEventType) {
+    case 'payment_intent.succeeded':
+      return applyPaymentSucceeded(tx, event.data.object as Stripe.PaymentIntent);
+
+    case 'payment_intent.payment_failed':
+      return applyPaymentFailed(tx, event.data.object as Stripe.PaymentIntent);
+
+    case 'payment_intent.canceled':
+      return applyPaymentCanceled(tx, event.data.object as Stripe.PaymentIntent);
+
+    case 'charge.refunded':
+      return applyChargeRefunded(tx, event.data.object as Stripe.Charge);
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+      return applyDispute(tx, event.type as HandledEventType, event.data.object as Stripe.Dispute);
+
+    default:
+      return null;
+  }
+}
+
+function intentId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+async function findPayment(tx: WebhookDb, stripePaymentId: string | null) {
+  if (!stripePaymentId) return null;
+
+  return tx.payment.findUnique({
+    where: { stripePaymentId },
+    include: PAYMENT_INCLUDE,
+  });
+}
+
+function emptyEffects(payment: { id: string }): WebhookEffects {
+  return { paymentId: payment.id, transitions: [], timeline: [], notifications: [] };
+}
+
+async function applyPaymentSucceeded(tx: WebhookDb, intent: Stripe.PaymentIntent) {
+  const payment = await findPayment(tx, intent.id);
+  if (!payment) return null;
+
+  const effects = emptyEffects(payment);
+
+  // Already recorded by confirmPaymentIntent; only make sure the quote and ledger agree
+  if (payment.status === 'SUCCEEDED') {
+    await syncQuotePayments(payment.quoteId, tx);
+    await postPaymentEarnings(payment.id, tx);
+    return effects;
+  }
+
+  await tx.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: 'SUCCEEDED',
+      paymentMethod: payment.paymentMethod ?? intent.payment_method_types?.[0] ?? 'card',
+    },
+  });
+
+  await syncQuotePayments(payment.quoteId, tx);
+  await postPaymentEarnings(payment.id, tx);
+
+  if (payment.quoteId) {
+    await tx.quote.updateMany({
+      where: { id: payment.quoteId, status: 'PENDING' },
+      data: { status: 'ACCEPTED' },
+    });
+  }
+
+  const job = payment.job;
+  const isTip = payment.kind === 'TIP';
+
+  effects.timeline.push({
+    jobId: job.id,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_SUCCEEDED',
+    description: isTip
+      ? `Tip of $${payment.amount.toFixed(2)} added`
+      : `Payment of $${payment.amount.toFixed(2)} succeeded`,
+    metadata: { paymentId: payment.id, stripePaymentId: intent.id, kind: payment.kind, source: 'webhook' },
+  });
+
+  // Paying for a quoted job accepts it on the customer's behalf
+  if (job.status === 'QUOTED') {
+    effects.transitions.push({
+      jobId: job.id,
+      to: 'ACCEPTED',
+      actor: { userId: job.customerId, role: 'CUSTOMER' },
+      source: 'payment',
+    });
+  }
+
+  effects.notifications.push({
+    userId: job.customerId,
+    jobId: job.id,
+    quoteId: payment.quoteId ?? undefined,
+    type: 'PAYMENT_RECEIVED',
+    title: 'Payment Received',
+    body: isTip
+      ? `Your $${payment.amount.toFixed(2)} tip for ${job.title} was received`
+      : `Your payment of $${payment.amount.toFixed(2)} for ${job.title} was received`,
+    data: { jobId: job.id, paymentId: payment.id },
+  });
+
+  if (job.mechanicId) {
+    effects.notifications.push({
+      userId: job.mechanicId,
+      jobId: job.id,
+      type: 'PAYMENT_RECEIVED',
+      title: isTip ? 'Tip Received' : 'Customer Paid',
+      body: isTip
+        ? `The customer added a $${payment.amount.toFixed(2)} tip for ${job.title}`
+        : `The customer paid $${payment.amount.toFixed(2)} for ${job.title}`,
+      data: { jobId: job.id, paymentId: payment.id },
+    });
+  }
+
+  return effects;
+}
+
+async function applyPaymentFailed(tx: WebhookDb, intent: Stripe.PaymentIntent) {
+  const payment = await findPayment(tx, intent.id);
+  if (!payment) return null;
+
+  const effects = emptyEffects(payment);
+
+  // A later attempt on the same intent may already have succeeded
+  if (payment.status === 'SUCCEEDED' || payment.status === 'FAILED') {
+    return effects;
+  }
+
+  await tx.payment.update({
+    where: { id: payment.id },
+    data: { status: 'FAILED' },
+  });
+
+  const failureMessage = intent.last_payment_error?.message;
+
+  effects.timeline.push({
+    jobId: payment.job.id,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_FAILED',
+    description: 'Payment failed',
+    metadata: { paymentId: payment.id, stripePaymentId: intent.id, failureMessage, source: 'webhook' },
+  });
+
+  effects.notifications.push({
+    userId: payment.job.customerId,
+    jobId: payment.job.id,
+    type: 'PAYMENT_FAILED',
+    title: 'Payment Failed',
+    body: failureMessage
+      ? `Your payment of $${payment.amount.toFixed(2)} failed: ${failureMessage}`
+      : `Your payment of $${payment.amount.toFixed(2)} failed. Please try another payment method.`,
+    data: { jobId: payment.job.id, paymentId: payment.id },
+  });
+
+  return effects;
+}
+
+async function applyPaymentCanceled(tx: WebhookDb, intent: Stripe.PaymentIntent) {
+  const payment = await findPayment(tx, intent.id);
+  if (!payment) return null;
+
+  const effects = emptyEffects(payment);
+
+  if (payment.status !== 'PENDING' && payment.status !== 'PROCESSING') {
+    return effects;
+  }
+
+  await tx.payment.update({
+    where: { id: payment.id },
+    data: { status: 'CANCELED' },
+  });
+
+  effects.timeline.push({
+    jobId: payment.job.id,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_CANCELED',
+    description: `Payment of $${payment.amount.toFixed(2)} canceled`,
+    metadata: {
+      paymentId: payment.id,
+      stripePaymentId: intent.id,
+      reason: intent.cancellation_reason,
+      source: 'webhook',
+    },
+  });
+
+  return effects;
+}
+
+async function applyChargeRefunded(tx: WebhookDb, charge: Stripe.Charge) {
+  const payment = await findPayment(tx, intentId(charge.payment_intent));
+  if (!payment) return null;
+
+  const effects = emptyEffects(payment);
+
+  // Refunds issued from the app are already recorded; settle the pending ones
+  for (const providerRefund of charge.refunds?.data ?? []) {
+    if (providerRefund.status !== 'succeeded') continue;
+
+    await tx.refund.updateMany({
+      where: { providerRefundId: providerRefund.id, status: 'PENDING' },
+      data: { status: 'SUCCEEDED' },
+    });
+  }
+
+  const recorded: { amount: number; method: string }[] = await tx.refund.findMany({
+    where: { paymentId: payment.id, status: { not: 'FAILED' } },
+    select: { amount: true, method: true },
+  });
+
+  const sumOf = (method: string) =>
+    roundCurrency(recorded.filter((r) => r.method === method).reduce((sum, r) => sum + r.amount, 0));
+
+  // Anything the card shows beyond what the app recorded was refunded
+  // outside it, e.g. from the Stripe dashboard. Refund events can arrive
+  // out of order, so a smaller total is ignored.
+  const cardRefunded = charge.amount_refunded / 100;
+  const untracked = roundCurrency(cardRefunded - sumOf('ORIGINAL_PAYMENT'));
+
+  if (untracked <= 0) {
+    return effects;
+  }
+
+  const refundAmount = roundCurrency(cardRefunded + sumOf('ACCOUNT_CREDIT'));
+
+  const refund = await tx.refund.create({
+    data: {
+      paymentId: payment.id,
+      amount: untracked,
+      method: 'ORIGINAL_PAYMENT',
+      status: 'SUCCEEDED',
+      reason: 'OTHER',
+      note: 'Refunded outside the app',
+      lineItemIds: [],
+    },
+  });
+
+  await tx.payment.update({
+    where: { id: payment.id },
+    data: {
+      refundAmount,
+      status: statusAfterRefund(payment, refundAmount),
+    },
+  });
+
+  await syncQuotePayments(payment.quoteId, tx);
+
+  await postRefundClawback({
+    paymentId: payment.id,
+    amount: untracked,
+    sourceKey: `refund:${refund.id}`,
+    description: `Refund on ${payment.job.title}`,
+    refundId: refund.id,
+  }, tx);
+
+  effects.timeline.push({
+    jobId: payment.job.id,
+    kind: 'PAYMENT',
+    eventType: 'PAYMENT_REFUNDED',
+    description: `Refund processed: $${untracked.toFixed(2)}`,
+    metadata: { paymentId: payment.id, chargeId: charge.id, refundAmount: untracked, source: 'webhook' },
+  });
+
+  effects.notifications.push({
+    userId: payment.job.customerId,
+    jobId: payment.job.id,
+    type: 'PAYMENT_REFUNDED',
+    title: 'Refund Issued',
+    body: `$${untracked.toFixed(2)} has been refunded to your payment method`,
+    data: { jobId: payment.job.id, paymentId: payment.id, refundAmount: untracked },
+  });
+
+  return effects;
+}
+
+async function applyDispute(tx: WebhookDb, type: HandledEventType, dispute: Stripe.Dispute) {
+  const payment = await findPayment(tx, intentId(dispute.payment_intent));
+  if (!payment) return null;
+
+  const effects = emptyEffects(payment);
+
+  // Closed disputes end in 'won', 'lost' or 'warning_closed' (an inquiry that went away).
+  // Once the dispute is gone the payment goes back to reflecting its refunds.
+  let status = payment.status;
+  if (type === 'charge.dispute.created') status = 'DISPUTED';
+  if (type === 'charge.dispute.closed' && dispute.status !== 'lost') {
+    status = statusAfterRefund({ amount: payment.amount, status: 'SUCCEEDED' }, payment.refundAmount);
+  }
+
+  await tx.payment.update({
+    where: { id: payment.id },
+    data: {
+      status,
+      disputeId: dispute.id,
+      disputeStatus: dispute.status,
+    },
+  });
+
+  // The admin dispute queue reads these rows
+  const amount = dispute.amount / 100;
+  const dueBy = dispute.evidence_details?.due_by;
+  const closedAt = type === 'charge.dispute.closed' ? new Date() : undefined;
+
+  await tx.paymentDispute.upsert({
+    where: { id: dispute.id },
+    create: {
+      id: dispute.id,
+      paymentId: payment.id,
+      amount,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueBy: dueBy ? new Date(dueBy * 1000) : null,
+      closedAt: closedAt ?? null,
+    },
+    update: {
+      amount,
+      status: dispute.status,
+      ...(dueBy ? { evidenceDueBy: new Date(dueBy * 1000) } : {}),
+      ...(closedAt ? { closedAt } : {}),
+    },
+  });
+
+  await syncQuotePayments(payment.quoteId, tx);
+
+  // The bank kept the money, so the mechanic's share comes back out
+  if (type === 'charge.dispute.closed' && dispute.status === 'lost') {
+    await postRefundClawback({
+      paymentId: payment.id,
+      amount,
+      sourceKey: `dispute:${dispute.id}`,
+      description: `Dispute lost on ${payment.job.title}`,
+    }, tx);
+  }
+
+  if (type === 'charge.dispute.updated') {
+    return effects;
+  }
+
+  const opened = type === 'charge.dispute.created';
+
+  effects.timeline.push({
+    jobId: payment.job.id,
+    kind: 'PAYMENT',
+    eventType: opened ? 'PAYMENT_DISPUTED' : 'PAYMENT_DISPUTE_CLOSED',
+    description: opened
+      ? `Payment of $${amount.toFixed(2)} disputed (${dispute.reason})`
+      : `Dispute closed: ${dispute.status}`,
+    metadata: { paymentId: payment.id, disputeId: dispute.id, status: dispute.status, source: 'webhook' },
+  });
+
+  effects.notifications.push({
+    userId: payment.job.customerId,
+    jobId: payment.job.id,
+    type: 'PAYMENT_DISPUTED',
+    title: opened ? 'Payment Disputed' : 'Dispute Resolved',
+    body: opened
+      ? `Your bank disputed your $${amount.toFixed(2)} payment for ${payment.job.title}. We'll be in touch if we need anything from you.`
+      : `The dispute on your $${amount.toFixed(2)} payment for ${payment.job.title} was closed (${dispute.status.replace('_', ' ')})`,
+    data: { jobId: payment.job.id, paymentId: payment.id, disputeId: dispute.id, status: dispute.status },
+  });
+
+  if (opened && payment.job.mechanicId) {
+    effects.notifications.push({
+      userId: payment.job.mechanicId,
+      jobId: payment.job.id,
+      type: 'PAYMENT_DISPUTED',
+      title: 'Payment Disputed',
+      body: `The customer disputed a $${amount.toFixed(2)} payment for ${payment.job.title}`,
+      data: { jobId: payment.job.id, paymentId: payment.id, disputeId: dispute.id },
+    });
+  }
+
+  return effects;
+}
@@ -0,0 +1,140 @@
+import { prisma } from '../../lib/prisma';
+import type { TaxRates } from '../../utils/quote-totals';
+
+/**
+ * Tax Rules Service
+ *
+ * Picks the sales tax rates for a quote from the admin-maintained TaxRule
+ * table, based on where the work happens (the job location, falling back to
+ * the customer's address). Rules are keyed by state and/or ZIP prefix; the
+ * most specific match wins. Without a matching rule nothing is taxed, so
+ * admins add a rule for every jurisdiction that charges sales tax.
+ */
+
+/**
+ * Tax rule as stored (mirrors the TaxRule Prisma model)
+ */
+export interface TaxRule {
+  id: string;
+  name: string;
+  state: string | null;
+  zipPrefix: string | null;
+  partsRate: number;
+  laborRate: number;
+  fleetExempt: boolean;
+  isActive: boolean;
+}
+
+/**
+ * Where the work is done
+ */
+export interface TaxJurisdiction {
+  state?: string;
+  zip?: string;
+}
+
+/**
+ * Rates to price a quote with, and the rule they came from
+ */
+export interface ResolvedTax {
+  rates: TaxRates;
+  ruleId: string | null;
+  exempt: boolean;
+}
+
+const NO_TAX: TaxRates = { parts: 0, labor: 0 };
+
+/**
+ * Pull the state and ZIP out of a free-form US address,
+ * e.g. "123 Main St, Austin, TX 78701-1234"
+ */
+export function parseJurisdiction(address?: string | null): TaxJurisdiction {
+  if (!address) return {};
+
+  const match = address.match(/\b([A-Za-z]{2})\.?,?\s+(\d{5})(?:-\d{4})?\b/);
+  if (match) {
+    return { state: match[1].toUpperCase(), zip: match[2] };
+  }
+
+  const zip = address.match(/\b(\d{5})(?:-\d{4})?\s*$/);
+  return zip ? { zip: zip[1] } : {};
+}
+
+/**
+ * Most specific active rule for a jurisdiction: the longest matching ZIP
+ * prefix, then a state-wide rule. ZIP rules scoped to a state must match it.
+ */
+export function matchTaxRule(rules: TaxRule[], jurisdiction: TaxJurisdiction): TaxRule | null {
+  let best: TaxRule | null = null;
+  let bestScore = 0;
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    if (rule.state && rule.state.toUpperCase() !== jurisdiction.state) continue;
+    if (rule.zipPrefix && !jurisdiction.zip?.startsWith(rule.zipPrefix)) continue;
+    if (!rule.state && !rule.zipPrefix) continue;
+
+    // Any ZIP match outranks a state-wide rule
+    const score = rule.zipPrefix ? 10 + rule.zipPrefix.length : 1;
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rates for a jurisdiction, untaxed without a rule. Fleet customers pay no
+ * tax where the rule exempts them.
+ */
+export function taxForJurisdiction(
+  rules: TaxRule[],
+  jurisdiction: TaxJurisdiction,
+  isFleetAccount = false
+): ResolvedTax {
+  const rule = matchTaxRule(rules, jurisdiction);
+
+  if (!rule) {
+    return { rates: NO_TAX, ruleId: null, exempt: false };
+  }
+
+  if (rule.fleetExempt && isFleetAccount) {
+    return { rates: { parts: 0, labor: 0 }, ruleId: rule.id, exempt: true };
+  }
+
+  return { rates: { parts: rule.partsRate, labor: rule.laborRate }, ruleId: rule.id, exempt: false };
+}
+
+/**
+ * Load the customer and active rules and resolve the rates for a quote.
+ * `location` is the job's service address when there is one. Members of an
+ * organization are fleet customers, as are accounts an admin flagged.
+ */
+export async function resolveQuoteTax({
+  customerId,
+  location,
+}: {
+  customerId?: string | null;
+  location?: string | null;
+}): Promise<ResolvedTax> {
+  const customer = customerId
+    ? await prisma.user.findUnique({
+        where: { id: customerId },
+        select: { address: true, isFleetAccount: true, organizationMembership: { select: { id: true } } },
+      })
+    : null;
+
+  const isFleet = Boolean(customer?.organizationMembership) || (customer?.isFleetAccount ?? false);
+
+  const rules: TaxRule[] = await prisma.taxRule.findMany({
+    where: { isActive: true },
+  });
+
+  return taxForJurisdiction(
+    rules,
+    parseJurisdiction(location || customer?.address),
+    isFleet
+  );
+}
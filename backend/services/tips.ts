@@ -0,0 +1,198 @@
+import type { PaymentStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { roundCurrency } from '../../utils/quote-totals';
+import { postPaymentEarnings } from './earnings';
+import { recordJobEvent } from './job-timeline';
+import { sendNotification } from './notifications';
+import { getPaymentProvider, PaymentProviderError } from './payment-provider';
+
+/**
+ * Tips Service
+ *
+ * Gratuity the customer adds when the job is finished. A tip is its own
+ * Payment (kind TIP) on the job's quote, charged separately from the quote
+ * so it never counts towards the balance, and goes to the mechanic's
+ * earnings without platform commission.
+ */
+
+/**
+ * Largest tip accepted, as a percentage of the final amount
+ */
+export const MAX_TIP_PERCENT = 50;
+
+/**
+ * Payment statuses that mean a tip is already on its way
+ */
+const ACTIVE_TIP_STATUSES: PaymentStatus[] = ['PENDING', 'PROCESSING', 'SUCCEEDED', 'PARTIALLY_REFUNDED'];
+
+/**
+ * A tip that cannot be charged as given
+ */
+export class TipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TipError';
+  }
+}
+
+/**
+ * Tip for a final amount, from a preset percentage or an amount the
+ * customer typed in
+ */
+export function tipAmountFor(total: number, choice: { percent?: number; amount?: number }): number {
+  const amount = roundCurrency(choice.amount ?? total * ((choice.percent ?? 0) / 100));
+
+  if (!(amount > 0)) {
+    throw new TipError('Choose a tip amount');
+  }
+
+  if (amount < 0.5) {
+    throw new TipError('The smallest tip is $0.50');
+  }
+
+  if (amount > roundCurrency(total * (MAX_TIP_PERCENT / 100))) {
+    throw new TipError(`A tip cannot be more than ${MAX_TIP_PERCENT}% of the job total`);
+  }
+
+  return amount;
+}
+
+export interface ChargeTipInput {
+  quoteId: string;
+  customerId: string;
+  percent?: number;
+  amount?: number;
+  paymentMethodId?: string;
+  paymentIntentId?: string; // Charge the card used for this earlier payment
+}
+
+/**
+ * Charge a tip on a completed job. Succeeds immediately for cards that need
+ * no authentication; otherwise the payment is settled by the webhook.
+ */
+export async function chargeTip(input: ChargeTipInput) {
+  const quote = await prisma.quote.findUnique({
+    where: { id: input.quoteId },
+    include: {
+      job: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          customerId: true,
+          mechanicId: true,
+          customer: { select: { paymentCustomerId: true } },
+        },
+      },
+    },
+  });
+
+  if (!quote?.job) {
+    throw new TipError('Quote not found');
+  }
+
+  const job = quote.job;
+
+  if (job.status !== 'COMPLETED') {
+    throw new TipError('A tip can be added once the job is completed');
+  }
+
+  if (!job.mechanicId) {
+    throw new TipError('This job has no mechanic to tip');
+  }
+
+  const existing = await prisma.payment.findFirst({
+    where: { jobId: job.id, kind: 'TIP', status: { in: ACTIVE_TIP_STATUSES } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new TipError('A tip has already been added for this job');
+  }
+
+  const amount = tipAmountFor(quote.total, input);
+  const provider = getPaymentProvider();
+
+  let paymentMethodId = input.paymentMethodId;
+  if (!paymentMethodId && input.paymentIntentId) {
+    const earlier = await prisma.payment.findFirst({
+      where: { stripePaymentId: input.paymentIntentId, jobId: job.id, customerId: input.customerId },
+      select: { id: true },
+    });
+
+    if (earlier) {
+      paymentMethodId = (await provider.retrieveIntent(input.paymentIntentId)).paymentMethod ?? undefined;
+    }
+  }
+
+  if (!paymentMethodId) {
+    throw new TipError('Choose a card to charge the tip to');
+  }
+
+  let intent;
+  try {
+    intent = await provider.createIntent({
+      amount: Math.round(amount * 100),
+      customerId: job.customer?.paymentCustomerId ?? undefined, // Needed to charge saved cards
+      paymentMethodId,
+      confirm: true,
+      confirmationMethod: 'manual',
+      metadata: {
+        quoteId: quote.id,
+        jobId: job.id,
+        customerId: input.customerId,
+        mechanicId: job.mechanicId,
+        kind: 'TIP',
+      },
+      description: `Tip for job: ${job.title || 'Service'}`,
+    });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      throw new TipError(error.message);
+    }
+    throw error;
+  }
+
+  const succeeded = intent.status === 'succeeded';
+
+  const payment = await prisma.payment.create({
+    data: {
+      customerId: input.customerId,
+      jobId: job.id,
+      quoteId: quote.id,
+      kind: 'TIP',
+      amount,
+      currency: 'USD',
+      status: succeeded ? 'SUCCEEDED' : 'PENDING',
+      paymentMethod: intent.paymentMethod ?? 'card',
+      stripePaymentId: intent.id,
+    },
+  });
+
+  if (succeeded) {
+    await postPaymentEarnings(payment.id);
+
+    await recordJobEvent({
+      jobId: job.id,
+      kind: 'PAYMENT',
+      eventType: 'PAYMENT_SUCCEEDED',
+      description: `Tip of $${amount.toFixed(2)} added`,
+      actorId: input.customerId,
+      metadata: { paymentId: payment.id, stripePaymentId: intent.id, kind: 'TIP' },
+    });
+
+    await sendNotification({
+      userId: job.mechanicId,
+      jobId: job.id,
+      type: 'PAYMENT_RECEIVED',
+      title: 'Tip Received',
+      body: `The customer added a $${amount.toFixed(2)} tip for ${job.title}`,
+      data: { jobId: job.id, paymentId: payment.id, amount },
+    });
+  }
+
+  return {
+    payment,
+    paymentIntent: { id: intent.id, clientSecret: intent.clientSecret, status: intent.status },
+  };
+}
@@ -0,0 +1,151 @@
+import { prisma } from '../../lib/prisma';
+import {
+  getPaymentProvider,
+  type ProviderPaymentMethod,
+  type ProviderSetupIntent,
+} from './payment-provider';
+
+/**
+ * Wallet Service
+ *
+ * Cards a customer saved with the payment provider. Each user is linked to
+ * one provider customer (User.paymentCustomerId), created the first time
+ * they save a card. Cards are saved through a SetupIntent confirmed on the
+ * device, so card numbers never reach our servers; we keep only which one
+ * is the default.
+ */
+
+export interface SavedPaymentMethod extends ProviderPaymentMethod {
+  isDefault: boolean;
+}
+
+/**
+ * A saved card that does not exist or belongs to someone else
+ */
+export class WalletError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+async function loadWalletUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      paymentCustomerId: true,
+      defaultPaymentMethodId: true,
+    },
+  });
+
+  if (!user) {
+    throw new WalletError('User not found');
+  }
+
+  return user;
+}
+
+/**
+ * The user's provider customer id, creating the customer on first use
+ */
+export async function ensurePaymentCustomer(userId: string): Promise<string> {
+  const user = await loadWalletUser(userId);
+
+  if (user.paymentCustomerId) {
+    return user.paymentCustomerId;
+  }
+
+  const customer = await getPaymentProvider().createCustomer({
+    email: user.email,
+    name: `${user.firstName} ${user.lastName}`.trim(),
+    metadata: { userId: user.id },
+  });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { paymentCustomerId: customer.id },
+  });
+
+  return customer.id;
+}
+
+/**
+ * Saved cards, default first. When the stored default has been removed at
+ * the provider, the first remaining card is the default.
+ */
+export async function listSavedPaymentMethods(userId: string): Promise<SavedPaymentMethod[]> {
+  const user = await loadWalletUser(userId);
+
+  if (!user.paymentCustomerId) {
+    return [];
+  }
+
+  const methods = await getPaymentProvider().listPaymentMethods(user.paymentCustomerId);
+  const defaultId = methods.some((method) => method.id === user.defaultPaymentMethodId)
+    ? user.defaultPaymentMethodId
+    : methods[0]?.id;
+
+  return methods
+    .map((method) => ({ ...method, isDefault: method.id === defaultId }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * The card one-tap payment charges, or null when nothing is saved
+ */
+export async function defaultPaymentMethodFor(userId: string): Promise<string | null> {
+  const methods = await listSavedPaymentMethods(userId);
+  return methods.find((method) => method.isDefault)?.id ?? null;
+}
+
+/**
+ * Start saving a card. The client confirms the returned secret with the
+ * card form; the card then shows up in listSavedPaymentMethods.
+ */
+export async function startCardSetup(userId: string): Promise<ProviderSetupIntent & { customerId: string }> {
+  const customerId = await ensurePaymentCustomer(userId);
+  const setupIntent = await getPaymentProvider().createSetupIntent(customerId);
+
+  return { ...setupIntent, customerId };
+}
+
+async function assertOwnMethod(userId: string, paymentMethodId: string): Promise<SavedPaymentMethod[]> {
+  const methods = await listSavedPaymentMethods(userId);
+
+  if (!methods.some((method) => method.id === paymentMethodId)) {
+    throw new WalletError('Saved card not found');
+  }
+
+  return methods;
+}
+
+export async function setDefaultPaymentMethod(userId: string, paymentMethodId: string): Promise<void> {
+  await assertOwnMethod(userId, paymentMethodId);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { defaultPaymentMethodId: paymentMethodId },
+  });
+}
+
+/**
+ * Remove a saved card. Removing the default makes the next card the default.
+ */
+export async function removePaymentMethod(userId: string, paymentMethodId: string): Promise<void> {
+  const methods = await assertOwnMethod(userId, paymentMethodId);
+
+  await getPaymentProvider().detachPaymentMethod(paymentMethodId);
+
+  const removed = methods.find((method) => method.id === paymentMethodId);
+  if (removed?.isDefault) {
+    const next = methods.find((method) => method.id !== paymentMethodId);
+    await prisma.user.update({
+      where: { id: userId },
+      data: { defaultPaymentMethodId: next?.id ?? null },
+    });
+  }
+}
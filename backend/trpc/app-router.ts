@@ -15,11 +15,14 @@ import { locationRouter } from './routes/location/route';
 import { notificationsRouter } from './routes/notifications/route';
 import { messagesRouter } from './routes/messages/route';
 import { photosRouter } from './routes/photos/route';
-import { paymentRouter } from './routes/payment/route';
 // Additional features from path-2-sdk54
 import { paymentsRouter } from './routes/payments/route';
 import { reviewsRouter } from './routes/reviews/route';
 import { analyticsRouter } from './routes/analytics/route';
+import { payoutsRouter } from './routes/payouts/route';
+import { organizationsRouter } from './routes/organizations/route';
+import { dispatchRouter } from './routes/dispatch/route';
+import { routePlanRouter } from './routes/route-plan/route';
 
 export const appRouter = router({
   example: router({
@@ -43,12 +46,15 @@ export const appRouter = router({
   notifications: notificationsRouter,
   messages: messagesRouter,
   photos: photosRouter,
-  payment: paymentRouter,
 
   // Additional features
   payments: paymentsRouter,
   reviews: reviewsRouter,
   analytics: analyticsRouter,
+  payouts: payoutsRouter,
+  organizations: organizationsRouter,
+  dispatch: dispatchRouter,
+  routePlan: routePlanRouter,
 });
 
 export type AppRouter = typeof appRouter;
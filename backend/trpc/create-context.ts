@@ -11,5 +11,11 @@ export function createContext(opts: FetchCreateContextFnOptions) {
 export type Context = ReturnType<typeof createContext>;
 
 // Re-export router and procedures from trpc.ts for convenience
-export { router as createTRPCRouter, publicProcedure, protectedProcedure } from './trpc';
-export type { JWTPayload, AuthContext } from './middleware/auth';
\ No newline at end of file
+export {
+  router as createTRPCRouter,
+  publicProcedure,
+  protectedProcedure,
+  mechanicProcedure,
+  adminProcedure,
+} from './trpc';
+export type { JWTPayload, AuthContext, AuthUser } from './middleware/auth';
\ No newline at end of file
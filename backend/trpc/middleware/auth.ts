@@ -2,6 +2,7 @@ import { TRPCError } from '@trpc/server';
 import jwt from 'jsonwebtoken';
 import { initTRPC } from '@trpc/server';
 import type { Context } from '../create-context';
+import type { UserRole } from '../../../types/auth';
 
 // Define the shape of the JWT payload
 export interface JWTPayload {
@@ -12,21 +13,37 @@ export interface JWTPayload {
   exp?: number;
 }
 
+// The authenticated user attached to ctx.user by the auth middleware
+export interface AuthUser {
+  userId: string;
+  email: string;
+  role: UserRole;
+}
+
 // Create a type for the authenticated context
 export interface AuthContext extends Context {
-  user: JWTPayload;
+  user: AuthUser;
 }
 
 const t = initTRPC.context<Context>().create();
 
+const USER_ROLES: UserRole[] = ['CUSTOMER', 'MECHANIC', 'ADMIN'];
+
 /**
- * Authentication middleware that validates JWT tokens
- * Extracts token from Authorization header, validates it, and attaches user to context
+ * Normalize the role claim of a token.
+ * Tokens have been issued with both 'ADMIN' and 'admin' spellings, and
+ * tokens without a role are treated as customers.
  */
-export const isAuthed = t.middleware(async ({ ctx, next }) => {
-  // Get the authorization header
-  const authHeader = ctx.req.headers.get('authorization');
+export function normalizeRole(role?: string): UserRole {
+  const upper = (role || '').toUpperCase() as UserRole;
+  return USER_ROLES.includes(upper) ? upper : 'CUSTOMER';
+}
 
+/**
+ * Verify an Authorization header value and return the authenticated user.
+ * Throws a TRPCError describing why authentication failed.
+ */
+export function verifyAuthorizationHeader(authHeader: string | null): AuthUser {
   if (!authHeader) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
@@ -60,26 +77,24 @@ export const isAuthed = t.middleware(async ({ ctx, next }) => {
     // Verify and decode the JWT token
     const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
 
-    // Attach the decoded user to the context
-    return next({
-      ctx: {
-        ...ctx,
-        user: decoded,
-      },
-    });
+    return {
+      userId: decoded.userId,
+      email: decoded.email,
+      role: normalizeRole(decoded.role),
+    };
   } catch (error) {
-    // Handle specific JWT errors
-    if (error instanceof jwt.JsonWebTokenError) {
+    // TokenExpiredError extends JsonWebTokenError, so check it first
+    if (error instanceof jwt.TokenExpiredError) {
       throw new TRPCError({
         code: 'UNAUTHORIZED',
-        message: 'Invalid token',
+        message: 'Token has expired',
       });
     }
 
-    if (error instanceof jwt.TokenExpiredError) {
+    if (error instanceof jwt.JsonWebTokenError) {
       throw new TRPCError({
         code: 'UNAUTHORIZED',
-        message: 'Token has expired',
+        message: 'Invalid token',
       });
     }
 
@@ -89,4 +104,20 @@ export const isAuthed = t.middleware(async ({ ctx, next }) => {
       message: 'Authentication failed',
     });
   }
+}
+
+/**
+ * Authentication middleware that validates JWT tokens
+ * Extracts token from Authorization header, validates it, and attaches user to context
+ */
+export const isAuthed = t.middleware(async ({ ctx, next }) => {
+  const user = verifyAuthorizationHeader(ctx.req.headers.get('authorization'));
+
+  // Attach the decoded user to the context
+  return next({
+    ctx: {
+      ...ctx,
+      user,
+    },
+  });
 });
@@ -0,0 +1,109 @@
+import { TRPCError } from '@trpc/server';
+import { prisma } from '../../../lib/prisma';
+import type { AuthUser } from './auth';
+
+/**
+ * Ownership checks for resources shared between customers and mechanics.
+ *
+ * Role procedures (protected/mechanic/admin) decide *who* may call an
+ * endpoint; these helpers decide whether the caller may touch a specific row.
+ * Admins always pass.
+ */
+
+interface JobParticipants {
+  customerId: string;
+  mechanicId?: string | null;
+}
+
+export function isAdmin(user: AuthUser): boolean {
+  return user.role === 'ADMIN';
+}
+
+/**
+ * Throw FORBIDDEN unless the user is the job's customer, its assigned
+ * mechanic, or an admin. With allowUnassignedMechanic, any mechanic may
+ * read a job nobody has picked up yet (the open jobs board).
+ */
+export function assertJobAccess(
+  user: AuthUser,
+  job: JobParticipants,
+  options: { allowUnassignedMechanic?: boolean } = {}
+): void {
+  if (isAdmin(user)) return;
+  if (job.customerId === user.userId) return;
+  if (job.mechanicId && job.mechanicId === user.userId) return;
+  if (options.allowUnassignedMechanic && !job.mechanicId && user.role === 'MECHANIC') return;
+
+  throw new TRPCError({
+    code: 'FORBIDDEN',
+    message: 'You do not have access to this job',
+  });
+}
+
+/**
+ * Throw FORBIDDEN unless the user is the job's customer or an admin
+ */
+export function assertJobCustomer(user: AuthUser, job: JobParticipants): void {
+  if (isAdmin(user) || job.customerId === user.userId) return;
+
+  throw new TRPCError({
+    code: 'FORBIDDEN',
+    message: 'Only the customer who requested this job can do that',
+  });
+}
+
+/**
+ * Throw FORBIDDEN unless the user is the job's assigned mechanic or an admin
+ */
+export function assertJobMechanic(user: AuthUser, job: JobParticipants): void {
+  if (isAdmin(user)) return;
+  if (job.mechanicId && job.mechanicId === user.userId) return;
+
+  throw new TRPCError({
+    code: 'FORBIDDEN',
+    message: 'Only the mechanic assigned to this job can do that',
+  });
+}
+
+/**
+ * Throw FORBIDDEN unless the user owns the record (customerId) or is an admin.
+ * Used for quotes and payments, which belong to a customer.
+ */
+export function assertCustomerOwnership(
+  user: AuthUser,
+  record: { customerId: string },
+  resource: string
+): void {
+  if (isAdmin(user) || record.customerId === user.userId) return;
+
+  throw new TRPCError({
+    code: 'FORBIDDEN',
+    message: `You do not have access to this ${resource}`,
+  });
+}
+
+/**
+ * Load a job's participants and check access in one step.
+ * Throws NOT_FOUND when the job does not exist.
+ */
+export async function loadJobForUser(
+  user: AuthUser,
+  jobId: string,
+  options: { allowUnassignedMechanic?: boolean } = {}
+): Promise<JobParticipants & { id: string }> {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { id: true, customerId: true, mechanicId: true },
+  });
+
+  if (!job) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Job not found',
+    });
+  }
+
+  assertJobAccess(user, job, options);
+
+  return job;
+}
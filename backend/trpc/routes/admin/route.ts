@@ -1,40 +1,12 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { adminProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
 import { TRPCError } from '@trpc/server';
-import * as jwt from 'jsonwebtoken';
 import { hashPassword } from '@/utils/password';
-
-// Helper function to get user from request
-async function getUserFromRequest(req: Request): Promise<{ id: string; role: string } | null> {
-  try {
-    const authHeader = req.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-
-    const token = authHeader.substring(7);
-    if (!process.env.NEXTAUTH_SECRET) {
-      throw new Error('NEXTAUTH_SECRET environment variable is not set');
-    }
-    const decoded = jwt.verify(
-      token,
-      process.env.NEXTAUTH_SECRET
-    ) as { userId: string; email: string; role: string };
-
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
-
-    if (!user || !user.isActive) {
-      return null;
-    }
-
-    return { id: user.id, role: user.role };
-  } catch (error) {
-    return null;
-  }
-}
+import { DEPOSIT_SETTINGS_KEY, loadDepositPercents } from '../../../services/deposits';
+import { COMMISSION_SETTINGS_KEY, loadCommissionPercent } from '../../../services/earnings';
+import { validateZoneShape } from '../../../services/service-zones';
+import type { Coordinates } from '../../../services/location';
 
 /**
  * Admin Router
@@ -44,7 +16,7 @@ export const adminRouter = router({
   /**
    * Get all users with optional filtering
    */
-  getAllUsers: publicProcedure
+  getAllUsers: adminProcedure
     .input(z.object({
       role: z.enum(['CUSTOMER', 'MECHANIC', 'ADMIN']).optional(),
       isActive: z.boolean().optional(),
@@ -52,17 +24,8 @@ export const adminRouter = router({
       limit: z.number().min(1).max(100).default(50),
       offset: z.number().min(0).default(0),
     }).optional())
-    .query(async ({ ctx, input }) => {
+    .query(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         const where: any = {};
 
         if (input?.role) {
@@ -133,27 +96,21 @@ export const adminRouter = router({
   /**
    * Get a single user by ID (detailed view)
    */
-  getUserById: publicProcedure
+  getUserById: adminProcedure
     .input(z.object({
       userId: z.string(),
     }))
-    .query(async ({ ctx, input }) => {
+    .query(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         const targetUser = await prisma.user.findUnique({
           where: { id: input.userId },
           include: {
             vehicles: true,
             mechanicProfile: true,
-            mechanicVerification: true,
+            verifications: {
+              orderBy: { submittedAt: 'desc' },
+              take: 1,
+            },
             pricingProfile: true,
             availability: true,
             notificationPrefs: true,
@@ -221,22 +178,13 @@ export const adminRouter = router({
   /**
    * Update user role
    */
-  updateUserRole: publicProcedure
+  updateUserRole: adminProcedure
     .input(z.object({
       userId: z.string(),
       role: z.enum(['CUSTOMER', 'MECHANIC', 'ADMIN']),
     }))
-    .mutation(async ({ ctx, input }) => {
+    .mutation(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         const updatedUser = await prisma.user.update({
           where: { id: input.userId },
           data: {
@@ -285,23 +233,14 @@ export const adminRouter = router({
   /**
    * Update user active status
    */
-  updateUserStatus: publicProcedure
+  updateUserStatus: adminProcedure
     .input(z.object({
       userId: z.string(),
       isActive: z.boolean(),
       reason: z.string().optional(),
     }))
-    .mutation(async ({ ctx, input }) => {
+    .mutation(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         const updatedUser = await prisma.user.update({
           where: { id: input.userId },
           data: {
@@ -331,7 +270,7 @@ export const adminRouter = router({
   /**
    * Create new user (admin function)
    */
-  createUser: publicProcedure
+  createUser: adminProcedure
     .input(z.object({
       email: z.string().email(),
       password: z.string().min(8),
@@ -341,17 +280,8 @@ export const adminRouter = router({
       phone: z.string().optional(),
       address: z.string().optional(),
     }))
-    .mutation(async ({ ctx, input }) => {
+    .mutation(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         // Check if email already exists
         const existingUser = await prisma.user.findUnique({
           where: { email: input.email }
@@ -422,22 +352,13 @@ export const adminRouter = router({
   /**
    * Delete user (soft delete by deactivating)
    */
-  deleteUser: publicProcedure
+  deleteUser: adminProcedure
     .input(z.object({
       userId: z.string(),
       reason: z.string(),
     }))
-    .mutation(async ({ ctx, input }) => {
+    .mutation(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         // Soft delete by deactivating
         await prisma.user.update({
           where: { id: input.userId },
@@ -467,18 +388,9 @@ export const adminRouter = router({
   /**
    * Get system statistics
    */
-  getSystemStats: publicProcedure
-    .query(async ({ ctx }) => {
+  getSystemStats: adminProcedure
+    .query(async () => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         // Get user counts
         const totalUsers = await prisma.user.count();
         const totalCustomers = await prisma.user.count({ where: { role: 'CUSTOMER' } });
@@ -503,7 +415,7 @@ export const adminRouter = router({
             amount: true,
           },
           where: {
-            status: 'succeeded',
+            status: 'SUCCEEDED',
           },
         });
 
@@ -582,22 +494,13 @@ export const adminRouter = router({
   /**
    * Update system setting (configuration)
    */
-  updateSetting: publicProcedure
+  updateSetting: adminProcedure
     .input(z.object({
       key: z.string(),
       value: z.union([z.string(), z.boolean(), z.number(), z.null(), z.object({}).passthrough()]),
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         // Determine type
         const type = typeof input.value === 'boolean' ? 'boolean' :
                     typeof input.value === 'number' ? 'number' :
@@ -609,7 +512,7 @@ export const adminRouter = router({
           update: {
             value: (input.value === null ? null : input.value) as any,
             type,
-            updatedBy: user.id,
+            updatedBy: ctx.user.userId,
           },
           create: {
             key: input.key,
@@ -617,7 +520,7 @@ export const adminRouter = router({
             type,
             category: 'general',
             label: input.key,
-            updatedBy: user.id,
+            updatedBy: ctx.user.userId,
           },
         });
 
@@ -645,22 +548,13 @@ export const adminRouter = router({
   /**
    * Update configuration (alias for updateSetting)
    */
-  updateConfig: publicProcedure
+  updateConfig: adminProcedure
     .input(z.object({
       key: z.string(),
       value: z.union([z.string(), z.boolean(), z.number(), z.null(), z.object({}).passthrough()]),
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-
-        if (!user || user.role !== 'ADMIN') {
-          throw new TRPCError({
-            code: 'UNAUTHORIZED',
-            message: 'Admin access required',
-          });
-        }
-
         // Determine type
         const type = typeof input.value === 'boolean' ? 'boolean' :
                     typeof input.value === 'number' ? 'number' :
@@ -672,7 +566,7 @@ export const adminRouter = router({
           update: {
             value: (input.value === null ? null : input.value) as any,
             type,
-            updatedBy: user.id,
+            updatedBy: ctx.user.userId,
           },
           create: {
             key: input.key,
@@ -680,7 +574,7 @@ export const adminRouter = router({
             type,
             category: 'general',
             label: input.key,
-            updatedBy: user.id,
+            updatedBy: ctx.user.userId,
           },
         });
 
@@ -704,4 +598,373 @@ export const adminRouter = router({
         });
       }
     }),
+
+  /**
+   * Mark a customer as a fleet account (tax-exempt where a rule allows it)
+   */
+  updateFleetAccount: adminProcedure
+    .input(z.object({
+      userId: z.string(),
+      isFleetAccount: z.boolean(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const updatedUser = await prisma.user.update({
+          where: { id: input.userId },
+          data: {
+            isFleetAccount: input.isFleetAccount,
+          },
+          select: { id: true, isFleetAccount: true },
+        });
+
+        return {
+          success: true,
+          user: updatedUser,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error updating fleet account:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update fleet account',
+        });
+      }
+    }),
+
+  /**
+   * List sales tax rules, most specific first
+   */
+  listTaxRules: adminProcedure
+    .query(async () => {
+      try {
+        const rules = await prisma.taxRule.findMany({
+          orderBy: [{ state: 'asc' }, { zipPrefix: 'asc' }],
+        });
+
+        return { rules };
+      } catch (error) {
+        console.error('Error listing tax rules:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list tax rules',
+        });
+      }
+    }),
+
+  /**
+   * Create or update a sales tax rule
+   * Quotes priced after the change use the new rates; existing quotes keep theirs
+   */
+  upsertTaxRule: adminProcedure
+    .input(z.object({
+      id: z.string().optional(),
+      name: z.string().min(1),
+      state: z.string().length(2).transform((state) => state.toUpperCase()).nullable().default(null),
+      zipPrefix: z.string().regex(/^\d{1,5}$/, 'ZIP prefix must be 1-5 digits').nullable().default(null),
+      partsRate: z.number().min(0).max(1),
+      laborRate: z.number().min(0).max(1).default(0),
+      fleetExempt: z.boolean().default(false),
+      isActive: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (!input.state && !input.zipPrefix) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A tax rule needs a state or a ZIP prefix',
+          });
+        }
+
+        const { id, ...data } = input;
+        const rule = id
+          ? await prisma.taxRule.update({
+              where: { id },
+              data: { ...data, updatedBy: ctx.user.userId },
+            })
+          : await prisma.taxRule.create({
+              data: { ...data, updatedBy: ctx.user.userId },
+            });
+
+        return {
+          success: true,
+          rule,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error saving tax rule:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save tax rule',
+        });
+      }
+    }),
+
+  /**
+   * Delete a sales tax rule; quotes priced with it keep their rates
+   */
+  deleteTaxRule: adminProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        await prisma.taxRule.delete({
+          where: { id: input.id },
+        });
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error deleting tax rule:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete tax rule',
+        });
+      }
+    }),
+
+  /**
+   * Service area zones and mechanic coverage areas
+   */
+  listServiceZones: adminProcedure
+    .query(async () => {
+      try {
+        const zones = await prisma.serviceZone.findMany({
+          include: {
+            mechanic: { select: { id: true, firstName: true, lastName: true } },
+          },
+          orderBy: [{ mechanicId: 'asc' }, { priority: 'desc' }, { name: 'asc' }],
+        });
+
+        return {
+          zones: zones.map((zone) => ({ ...zone, polygon: zone.polygon as Coordinates[] | null })),
+        };
+      } catch (error) {
+        console.error('Error listing service zones:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list service zones',
+        });
+      }
+    }),
+
+  /**
+   * Create or update a zone. Without a mechanic it is part of the service
+   * area; with one it is that mechanic's coverage area.
+   */
+  upsertServiceZone: adminProcedure
+    .input(z.object({
+      id: z.string().optional(),
+      name: z.string().min(1),
+      shape: z.enum(['POLYGON', 'RADIUS']),
+      polygon: z.array(z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+      })).nullable().default(null),
+      centerLatitude: z.number().min(-90).max(90).nullable().default(null),
+      centerLongitude: z.number().min(-180).max(180).nullable().default(null),
+      radiusMiles: z.number().positive().max(500).nullable().default(null),
+      mechanicId: z.string().nullable().default(null),
+      travelFeePerMile: z.number().min(0).nullable().default(null),
+      minimumTravelFee: z.number().min(0).nullable().default(null),
+      surcharge: z.number().min(0).default(0),
+      surchargeLabel: z.string().trim().max(60).nullable().default(null),
+      priority: z.number().int().default(0),
+      isActive: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const problem = validateZoneShape(input);
+        if (problem) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: problem,
+          });
+        }
+
+        // Only the geometry for the zone's shape is used; a radius zone keeps any old polygon unused
+        const { id, polygon, ...rest } = input;
+        const data = {
+          ...rest,
+          ...(input.shape === 'POLYGON'
+            ? { polygon: polygon ?? undefined, centerLatitude: null, centerLongitude: null, radiusMiles: null }
+            : {}),
+          updatedBy: ctx.user.userId,
+        };
+
+        const zone = id
+          ? await prisma.serviceZone.update({ where: { id }, data })
+          : await prisma.serviceZone.create({ data });
+
+        return {
+          success: true,
+          zone,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error saving service zone:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save service zone',
+        });
+      }
+    }),
+
+  /**
+   * Delete a zone
+   */
+  deleteServiceZone: adminProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        await prisma.serviceZone.delete({
+          where: { id: input.id },
+        });
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        console.error('Error deleting service zone:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to delete service zone',
+        });
+      }
+    }),
+
+  /**
+   * Deposit percentage charged on acceptance, per service category
+   */
+  getDepositPercents: adminProcedure
+    .query(async () => {
+      try {
+        const percents = await loadDepositPercents();
+
+        return { percents };
+      } catch (error) {
+        console.error('Error loading deposit percentages:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load deposit percentages',
+        });
+      }
+    }),
+
+  /**
+   * Update deposit percentages; quotes already accepted keep their deposit
+   */
+  updateDepositPercents: adminProcedure
+    .input(z.object({
+      percents: z.record(
+        z.enum(['DIAGNOSTIC', 'MAINTENANCE', 'REPAIR', 'INSPECTION', 'EMERGENCY']),
+        z.number().min(0).max(100)
+      ),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const percents = { ...(await loadDepositPercents()), ...input.percents };
+
+        await prisma.systemSettings.upsert({
+          where: { key: DEPOSIT_SETTINGS_KEY },
+          update: {
+            value: percents,
+            updatedBy: ctx.user.userId,
+          },
+          create: {
+            key: DEPOSIT_SETTINGS_KEY,
+            value: percents,
+            type: 'object',
+            category: 'payments',
+            label: 'Deposit percentages',
+            updatedBy: ctx.user.userId,
+          },
+        });
+
+        return {
+          success: true,
+          percents,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error updating deposit percentages:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update deposit percentages',
+        });
+      }
+    }),
+
+  /**
+   * Platform commission taken from each job payment before mechanic payout
+   */
+  getPlatformCommission: adminProcedure
+    .query(async () => {
+      try {
+        const percent = await loadCommissionPercent();
+
+        return { percent };
+      } catch (error) {
+        console.error('Error loading platform commission:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load platform commission',
+        });
+      }
+    }),
+
+  /**
+   * Update the platform commission; payments already posted keep their fee
+   */
+  updatePlatformCommission: adminProcedure
+    .input(z.object({
+      percent: z.number().min(0).max(100),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await prisma.systemSettings.upsert({
+          where: { key: COMMISSION_SETTINGS_KEY },
+          update: {
+            value: input.percent,
+            updatedBy: ctx.user.userId,
+          },
+          create: {
+            key: COMMISSION_SETTINGS_KEY,
+            value: input.percent,
+            type: 'number',
+            category: 'payments',
+            label: 'Platform commission percent',
+            updatedBy: ctx.user.userId,
+          },
+        });
+
+        return {
+          success: true,
+          percent: input.percent,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error updating platform commission:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update platform commission',
+        });
+      }
+    }),
 });
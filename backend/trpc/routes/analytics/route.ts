@@ -1,7 +1,8 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { protectedProcedure, mechanicProcedure, adminProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
 import { TRPCError } from '@trpc/server';
+import { revenueBySource } from '../../../services/manual-payments';
 
 /**
  * Analytics Router
@@ -10,13 +11,21 @@ import { TRPCError } from '@trpc/server';
 export const analyticsRouter = router({
   /**
    * Get mechanic analytics for a specific period
+   * Mechanics can only view their own analytics; admins can view anyone's
    */
-  getMechanicAnalytics: publicProcedure
+  getMechanicAnalytics: mechanicProcedure
     .input(z.object({
       mechanicId: z.string(),
       period: z.enum(['week', 'month', 'quarter', 'year']),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== 'ADMIN' && input.mechanicId !== ctx.user.userId) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only view your own analytics',
+        });
+      }
+
       try {
         const now = new Date();
         const periodStart = new Date(now);
@@ -64,7 +73,7 @@ export const analyticsRouter = router({
             job: {
               mechanicId: input.mechanicId,
             },
-            status: 'succeeded',
+            status: { in: ['SUCCEEDED', 'PARTIALLY_REFUNDED'] },
             createdAt: {
               gte: periodStart,
               lte: now,
@@ -72,7 +81,13 @@ export const analyticsRouter = router({
           }
         });
 
-        const totalRevenue = payments.reduce((sum, payment) => sum + payment.amount, 0);
+        // Tips go to the mechanic on top of the job and are reported separately
+        const jobPayments = payments.filter((payment) => payment.kind !== 'TIP');
+        const tipPayments = payments.filter((payment) => payment.kind === 'TIP');
+
+        const totalRevenue = jobPayments.reduce((sum, payment) => sum + payment.amount - (payment.refundAmount ?? 0), 0);
+        const totalTips = tipPayments.reduce((sum, payment) => sum + payment.amount - (payment.refundAmount ?? 0), 0);
+        const tippedJobs = new Set(tipPayments.map((payment) => payment.jobId)).size;
 
         // Calculate average job value
         const averageJobValue = completedJobs.length > 0 ? totalRevenue / completedJobs.length : 0;
@@ -164,6 +179,10 @@ export const analyticsRouter = router({
           },
           metrics: {
             totalRevenue,
+            revenueBySource: revenueBySource(jobPayments),
+            totalTips,
+            tippedJobs,
+            averageTip: tippedJobs > 0 ? totalTips / tippedJobs : 0,
             completedJobs: completedJobs.length,
             averageJobValue,
             averageJobTime,
@@ -185,6 +204,7 @@ export const analyticsRouter = router({
             labor: laborRevenue,
             parts: partsRevenue,
             fees: feesRevenue,
+            tips: totalTips,
           },
         };
       } catch (error) {
@@ -198,13 +218,21 @@ export const analyticsRouter = router({
 
   /**
    * Get customer analytics
+   * Customers can only view their own analytics; admins can view anyone's
    */
-  getCustomerAnalytics: publicProcedure
+  getCustomerAnalytics: protectedProcedure
     .input(z.object({
       customerId: z.string(),
       period: z.enum(['week', 'month', 'quarter', 'year']),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== 'ADMIN' && input.customerId !== ctx.user.userId) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only view your own analytics',
+        });
+      }
+
       try {
         const now = new Date();
         const periodStart = new Date(now);
@@ -252,7 +280,7 @@ export const analyticsRouter = router({
             job: {
               customerId: input.customerId,
             },
-            status: 'succeeded',
+            status: { in: ['SUCCEEDED', 'PARTIALLY_REFUNDED'] },
             createdAt: {
               gte: periodStart,
               lte: now,
@@ -260,7 +288,7 @@ export const analyticsRouter = router({
           }
         });
 
-        const totalSpent = payments.reduce((sum, payment) => sum + payment.amount, 0);
+        const totalSpent = payments.reduce((sum, payment) => sum + payment.amount - (payment.refundAmount ?? 0), 0);
 
         // Service breakdown
         const serviceBreakdown: Record<string, number> = {};
@@ -302,7 +330,7 @@ export const analyticsRouter = router({
   /**
    * Get admin analytics overview
    */
-  getAdminAnalytics: publicProcedure
+  getAdminAnalytics: adminProcedure
     .input(z.object({
       period: z.enum(['week', 'month', 'quarter', 'year']),
     }))
@@ -347,7 +375,7 @@ export const analyticsRouter = router({
         // Get all payments in period
         const payments = await prisma.payment.findMany({
           where: {
-            status: 'succeeded',
+            status: { in: ['SUCCEEDED', 'PARTIALLY_REFUNDED'] },
             createdAt: {
               gte: periodStart,
               lte: now,
@@ -355,7 +383,12 @@ export const analyticsRouter = router({
           }
         });
 
-        const totalRevenue = payments.reduce((sum, payment) => sum + payment.amount, 0);
+        const totalRevenue = payments.reduce((sum, payment) => sum + payment.amount - (payment.refundAmount ?? 0), 0);
+
+        // Offline payments an admin has not reconciled yet
+        const pendingReconciliation = await prisma.payment.count({
+          where: { reconciliationStatus: 'PENDING' }
+        });
 
         // Get user counts
         const totalCustomers = await prisma.user.count({
@@ -408,6 +441,8 @@ export const analyticsRouter = router({
           },
           metrics: {
             totalRevenue,
+            revenueBySource: revenueBySource(payments),
+            pendingReconciliation,
             totalJobs: jobs.length,
             completedJobs: jobs.filter(j => j.status === 'COMPLETED').length,
             activeJobs: jobs.filter(j => j.status === 'ACTIVE').length,
@@ -1,4 +1,4 @@
-import { router, publicProcedure } from '../../trpc';
+import { router, publicProcedure, adminProcedure } from '../../trpc';
 import { z } from 'zod';
 import { prisma } from '../../../../lib/prisma';
 import { TRPCError } from '@trpc/server';
@@ -88,7 +88,7 @@ export const configRouter = router({
   /**
    * Set or update a configuration value
    */
-  set: publicProcedure
+  set: adminProcedure
     .input(z.object({
       key: z.string(),
       value: z.union([z.string(), z.boolean(), z.number(), z.object({}).passthrough()]),
@@ -96,9 +96,8 @@ export const configRouter = router({
       category: z.string().optional(),
       label: z.string().optional(),
       description: z.string().optional(),
-      updatedBy: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         // Determine type if not provided
         const type = input.type || inferType(input.value);
@@ -112,7 +111,7 @@ export const configRouter = router({
             category: input.category,
             label: input.label,
             description: input.description,
-            updatedBy: input.updatedBy,
+            updatedBy: ctx.user.userId,
           },
           create: {
             key: input.key,
@@ -121,7 +120,7 @@ export const configRouter = router({
             category: input.category || 'general',
             label: input.label || input.key,
             description: input.description,
-            updatedBy: input.updatedBy,
+            updatedBy: ctx.user.userId,
           },
         });
 
@@ -140,7 +139,7 @@ export const configRouter = router({
   /**
    * Delete a configuration setting
    */
-  delete: publicProcedure
+  delete: adminProcedure
     .input(z.object({
       key: z.string(),
     }))
@@ -165,7 +164,7 @@ export const configRouter = router({
   /**
    * Reset all settings to defaults
    */
-  resetToDefaults: publicProcedure
+  resetToDefaults: adminProcedure
     .mutation(async () => {
       try {
         // Delete all existing settings
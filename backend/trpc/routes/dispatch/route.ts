@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { adminProcedure, mechanicProcedure, router } from '../../trpc';
+import { prisma } from '../../../../lib/prisma';
+import { TRPCError } from '@trpc/server';
+import {
+  DispatchError,
+  listOpenOffers,
+  rankMechanics,
+  respondToOffer,
+  startDispatch,
+} from '../../../services/dispatch';
+
+/**
+ * Dispatch rule violations reach the client as BAD_REQUEST
+ */
+function toClientError(error: unknown): unknown {
+  if (error instanceof DispatchError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return error;
+}
+
+/**
+ * Dispatch Router
+ * Job offers for mechanics, and the admin queue for jobs dispatch could not place
+ */
+export const dispatchRouter = router({
+  // The caller's open job offers; the websocket pushes new ones as they arrive
+  getMyOffers: mechanicProcedure
+    .query(async ({ ctx }) => {
+      return listOpenOffers({ mechanicId: ctx.user.userId });
+    }),
+
+  respondToOffer: mechanicProcedure
+    .input(z.object({
+      offerId: z.string(),
+      accept: z.boolean(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const result = await respondToOffer({
+          offerId: input.offerId,
+          mechanicId: ctx.user.userId,
+          accept: input.accept,
+        });
+
+        return { success: true, accepted: result.accepted, jobId: result.job?.id ?? null };
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error responding to job offer:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to respond to the offer',
+        });
+      }
+    }),
+
+  // Jobs no mechanic accepted, oldest first
+  listEscalated: adminProcedure
+    .query(async () => {
+      return prisma.job.findMany({
+        where: { dispatchStatus: 'ESCALATED', mechanicId: null },
+        select: {
+          id: true,
+          title: true,
+          location: true,
+          scheduledAt: true,
+          priority: true,
+          createdAt: true,
+          customer: { select: { firstName: true, lastName: true } },
+          dispatchOffers: {
+            select: { status: true, mechanic: { select: { firstName: true, lastName: true } } },
+            orderBy: { offeredAt: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+    }),
+
+  // Ranked mechanics for a job, with the reasons others are ineligible
+  getCandidates: adminProcedure
+    .input(z.object({
+      jobId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await rankMechanics(input.jobId);
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error ranking mechanics:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to rank mechanics',
+        });
+      }
+    }),
+
+  // Start another round of offers, e.g. once more mechanics are available
+  restart: adminProcedure
+    .input(z.object({
+      jobId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const offer = await startDispatch(input.jobId);
+        return { success: true, offered: Boolean(offer) };
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error restarting dispatch:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to restart dispatch',
+        });
+      }
+    }),
+});
@@ -8,15 +8,20 @@
  */
 
 import { z } from 'zod';
-import { protectedProcedure, createTRPCRouter, publicProcedure } from '../../create-context';
+import {
+  adminProcedure,
+  protectedProcedure,
+  createTRPCRouter,
+  publicProcedure,
+} from '../../create-context';
 
 export const protectedExampleRouter = createTRPCRouter({
   // Example 1: Get current user profile
   // This requires authentication - if no valid JWT is provided, it will throw UNAUTHORIZED
   getProfile: protectedProcedure
     .query(async ({ ctx }) => {
-      // ctx.user is automatically available and typed as JWTPayload
-      // It contains: { userId, email, role?, iat?, exp? }
+      // ctx.user is automatically available and typed as AuthUser
+      // It contains: { userId, email, role } with role normalized to uppercase
       return {
         userId: ctx.user.userId,
         email: ctx.user.email,
@@ -46,14 +51,10 @@ export const protectedExampleRouter = createTRPCRouter({
     }),
 
   // Example 3: Role-based access control
-  // This demonstrates how to check user roles within a protected procedure
-  adminOnlyAction: protectedProcedure
-    .mutation(async ({ ctx }) => {
-      // Check if user has admin role
-      if (ctx.user.role !== 'admin') {
-        throw new Error('This action requires admin privileges');
-      }
-
+  // adminProcedure rejects non-admin tokens with FORBIDDEN before the handler runs.
+  // Use mechanicProcedure for actions open to mechanics (and admins).
+  adminOnlyAction: adminProcedure
+    .mutation(async () => {
       return {
         success: true,
         message: 'Admin action completed successfully',
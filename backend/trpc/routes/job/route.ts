@@ -1,7 +1,20 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { protectedProcedure, mechanicProcedure, adminProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
 import { TRPCError } from '@trpc/server';
+import {
+  assertCustomerOwnership,
+  assertJobAccess,
+  assertJobCustomer,
+  assertJobMechanic,
+  loadJobForUser,
+} from '../../middleware/ownership';
+import { getJobTimeline, recordJobEvent } from '../../../services/job-timeline';
+import { JOB_STATUSES, TRACKABLE_STATUSES, getAllowedTransitions, transitionJob } from '../../../services/job-state-machine';
+import { getMembership } from '../../../services/organizations';
+import { getVerificationState } from '../../../services/mechanic-verification';
+import { closeDispatch, startDispatch } from '../../../services/dispatch';
+import { emitToRoom, jobRoom } from '../../../services/realtime';
 
 /**
  * Job Management Router
@@ -15,14 +28,15 @@ export const jobRouter = router({
    * Create a job from an accepted quote
    * This is typically called when a customer accepts a quote
    */
-  createFromQuote: publicProcedure
+  createFromQuote: protectedProcedure
     .input(z.object({
       quoteId: z.string(),
       urgency: z.enum(['LOW', 'MEDIUM', 'HIGH', 'EMERGENCY']),
       title: z.string().optional(),
       scheduledDate: z.string().optional(),
+      poNumber: z.string().trim().max(50).optional(), // Organization members' purchase order
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         // Get the quote
         const quote = await prisma.quote.findUnique({
@@ -41,6 +55,8 @@ export const jobRouter = router({
           });
         }
 
+        assertCustomerOwnership(ctx.user, quote, 'quote');
+
         // Check if job already exists for this quote
         const existingJob = await prisma.job.findUnique({
           where: { quoteId: input.quoteId }
@@ -67,11 +83,16 @@ export const jobRouter = router({
           requested: new Date().toISOString(),
         } : null;
 
+        // Jobs for organization members are billed to the organization
+        const membership = await getMembership(quote.customerId);
+
         // Create the job
         const job = await prisma.job.create({
           data: {
             quoteId: quote.id,
             customerId: quote.customerId,
+            organizationId: membership?.organizationId ?? null,
+            poNumber: membership ? input.poNumber || null : null,
             urgency: input.urgency,
             title: input.title || `${quote.service.name} - ${quote.vehicle.make} ${quote.vehicle.model}`,
             category: quote.service.category,
@@ -112,22 +133,26 @@ export const jobRouter = router({
           }
         });
 
-        // Create job timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: 'CREATED',
-            description: 'Job created from accepted quote',
-            actorId: quote.customerId,
-            metadata: {
-              quoteId: quote.id,
-              urgency: input.urgency,
-            }
+        // Record timeline event
+        await recordJobEvent({
+          jobId: job.id,
+          kind: 'STATUS_CHANGE',
+          eventType: 'CREATED',
+          description: 'Job created from accepted quote',
+          actorId: quote.customerId,
+          metadata: {
+            quoteId: quote.id,
+            urgency: input.urgency,
           }
         });
 
         console.log('Job created from quote:', job.id);
 
+        // Offer the job to nearby mechanics; a failure here leaves it for an admin
+        await startDispatch(job.id).catch((error) => {
+          console.error('Error starting dispatch for job:', job.id, error);
+        });
+
         return { success: true, job };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -143,16 +168,18 @@ export const jobRouter = router({
 
   /**
    * Get all jobs (with optional filters)
+   * Customers only see their own jobs; mechanics see jobs assigned to them
+   * plus unassigned ones. Admins may filter on anything.
    */
-  getAll: publicProcedure
+  getAll: protectedProcedure
     .input(z.object({
-      status: z.enum(['PENDING', 'QUOTED', 'ACCEPTED', 'ACTIVE', 'COMPLETED', 'CANCELED']).optional(),
+      status: z.enum(JOB_STATUSES).optional(),
       customerId: z.string().optional(),
       mechanicId: z.string().optional(),
       limit: z.number().min(1).max(100).default(50),
       offset: z.number().min(0).default(0),
     }).optional())
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       try {
         const where: any = {};
 
@@ -166,6 +193,18 @@ export const jobRouter = router({
           where.mechanicId = input.mechanicId;
         }
 
+        if (ctx.user.role === 'CUSTOMER') {
+          where.customerId = ctx.user.userId;
+        } else if (ctx.user.role === 'MECHANIC') {
+          where.OR = [{ mechanicId: ctx.user.userId }, { mechanicId: null }];
+          if (input?.mechanicId && input.mechanicId !== ctx.user.userId) {
+            throw new TRPCError({
+              code: 'FORBIDDEN',
+              message: 'Mechanics can only list their own jobs',
+            });
+          }
+        }
+
         const jobs = await prisma.job.findMany({
           where,
           include: {
@@ -205,6 +244,9 @@ export const jobRouter = router({
 
         return { jobs, total, hasMore: (input?.offset || 0) + jobs.length < total };
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         console.error('Error fetching jobs:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -216,11 +258,11 @@ export const jobRouter = router({
   /**
    * Get a single job by ID
    */
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({
       jobId: z.string(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       try {
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -272,6 +314,8 @@ export const jobRouter = router({
           });
         }
 
+        assertJobAccess(ctx.user, job, { allowUnassignedMechanic: true });
+
         return { job };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -285,49 +329,88 @@ export const jobRouter = router({
       }
     }),
 
+  /**
+   * Get the audit timeline for a job, oldest first
+   */
+  getTimeline: protectedProcedure
+    .input(z.object({
+      jobId: z.string(),
+      kinds: z.array(z.enum([
+        'STATUS_CHANGE',
+        'TIME_LOG',
+        'PARTS_ADDED',
+        'PHOTO',
+        'SIGNATURE',
+        'PAYMENT',
+        'MESSAGE',
+      ])).optional(),
+      limit: z.number().min(1).max(500).optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId, { allowUnassignedMechanic: true });
+
+      try {
+        const events = await getJobTimeline(input.jobId, {
+          kinds: input.kinds,
+          limit: input.limit,
+        });
+
+        return { events };
+      } catch (error) {
+        console.error('Error fetching job timeline:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch job timeline',
+        });
+      }
+    }),
+
   /**
    * Update job status
+   * Transitions are validated against the job state machine
    */
-  updateStatus: publicProcedure
+  updateStatus: protectedProcedure
     .input(z.object({
       jobId: z.string(),
-      status: z.enum(['PENDING', 'QUOTED', 'ACCEPTED', 'ACTIVE', 'COMPLETED', 'CANCELED']),
-      actorId: z.string(),
+      status: z.enum(JOB_STATUSES),
       notes: z.string().optional(),
+      scheduledAt: z.date().optional(),
+      arrivalWindowEnd: z.date().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const job = await prisma.job.update({
-          where: { id: input.jobId },
-          data: {
-            status: input.status,
-            updatedAt: new Date(),
-          },
-          include: {
-            quote: true,
-            customer: true,
-            mechanic: true,
-          }
+        const { job, from } = await transitionJob({
+          jobId: input.jobId,
+          to: input.status,
+          actor: ctx.user,
+          notes: input.notes,
+          scheduledAt: input.scheduledAt,
+          arrivalWindowEnd: input.arrivalWindowEnd,
         });
 
-        // Create timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: input.status,
-            description: `Job status changed to ${input.status}`,
-            actorId: input.actorId,
-            metadata: {
-              previousStatus: job.status,
-              notes: input.notes,
-            }
-          }
+        console.log('Job status updated:', input.jobId, input.status);
+
+        // Same events as a status change over the websocket
+        const timestamp = new Date().toISOString();
+        await emitToRoom(jobRoom(input.jobId), 'job:status-updated', {
+          jobId: input.jobId,
+          status: input.status,
+          previousStatus: from,
+          notes: input.notes,
+          job,
+          updatedBy: ctx.user,
+          timestamp,
         });
 
-        console.log('Job status updated:', input.jobId, input.status);
+        if (!TRACKABLE_STATUSES.includes(input.status)) {
+          await emitToRoom(jobRoom(input.jobId), 'job:tracking-stopped', { jobId: input.jobId, timestamp });
+        }
 
         return { success: true, job };
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         console.error('Error updating job status:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -336,17 +419,55 @@ export const jobRouter = router({
       }
     }),
 
+  /**
+   * Statuses the caller may move a job to from its current status
+   */
+  getAllowedTransitions: protectedProcedure
+    .input(z.object({
+      jobId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId, { allowUnassignedMechanic: true });
+
+      const job = await prisma.job.findUnique({
+        where: { id: input.jobId },
+        select: { status: true },
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Job not found',
+        });
+      }
+
+      return {
+        status: job.status,
+        allowed: getAllowedTransitions(job.status, ctx.user.role),
+      };
+    }),
+
   /**
    * Assign mechanic to job
    */
-  assignMechanic: publicProcedure
+  assignMechanic: adminProcedure
     .input(z.object({
       jobId: z.string(),
       mechanicId: z.string(),
-      actorId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
+        // Only mechanics with current, approved verification documents
+        const verification = await getVerificationState(input.mechanicId);
+        if (!verification.verified) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: verification.expiredDocuments.length > 0
+              ? 'This mechanic has expired verification documents'
+              : 'This mechanic has not been verified',
+          });
+        }
+
         const job = await prisma.job.update({
           where: { id: input.jobId },
           data: {
@@ -358,21 +479,23 @@ export const jobRouter = router({
           }
         });
 
-        // Create timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: 'ACCEPTED',
-            description: `Mechanic assigned: ${job.mechanic?.firstName} ${job.mechanic?.lastName}`,
-            actorId: input.actorId,
-            metadata: {
-              mechanicId: input.mechanicId,
-            }
+        await closeDispatch(job.id);
+
+        // Record timeline event
+        await recordJobEvent({
+          jobId: job.id,
+          kind: 'STATUS_CHANGE',
+          eventType: 'MECHANIC_ASSIGNED',
+          description: `Mechanic assigned: ${job.mechanic?.firstName} ${job.mechanic?.lastName}`,
+          actorId: ctx.user.userId,
+          metadata: {
+            mechanicId: input.mechanicId,
           }
         });
 
         return { success: true, job };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error assigning mechanic:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -384,7 +507,7 @@ export const jobRouter = router({
   /**
    * Update job location
    */
-  updateLocation: publicProcedure
+  updateLocation: protectedProcedure
     .input(z.object({
       jobId: z.string(),
       location: z.object({
@@ -393,8 +516,21 @@ export const jobRouter = router({
         lng: z.number(),
       }),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
+        const existing = await prisma.job.findUnique({
+          where: { id: input.jobId },
+        });
+
+        if (!existing) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Job not found',
+          });
+        }
+
+        assertJobCustomer(ctx.user, existing);
+
         const job = await prisma.job.update({
           where: { id: input.jobId },
           data: {
@@ -405,6 +541,9 @@ export const jobRouter = router({
 
         return { success: true, job };
       } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
         console.error('Error updating job location:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -416,14 +555,13 @@ export const jobRouter = router({
   /**
    * Update time log and add timer entry
    */
-  updateTimeLog: publicProcedure
+  updateTimeLog: mechanicProcedure
     .input(z.object({
       jobId: z.string(),
-      mechanicId: z.string(),
       action: z.enum(['start', 'pause', 'resume', 'end']),
       notes: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -436,13 +574,15 @@ export const jobRouter = router({
           });
         }
 
+        assertJobMechanic(ctx.user, job);
+
         const timers = (job.timers as any[]) || [];
         const timestamp = new Date().toISOString();
 
         let newTimer: any = {
           action: input.action,
           timestamp,
-          mechanicId: input.mechanicId,
+          mechanicId: ctx.user.userId,
           notes: input.notes,
         };
 
@@ -457,17 +597,16 @@ export const jobRouter = router({
           },
         });
 
-        // Create timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: input.action === 'start' ? 'IN_PROGRESS' : 'COMPLETED',
-            description: `Time log updated: ${input.action}`,
-            actorId: input.mechanicId,
-            metadata: {
-              action: input.action,
-              notes: input.notes,
-            }
+        // Record timeline event
+        await recordJobEvent({
+          jobId: job.id,
+          kind: 'TIME_LOG',
+          eventType: `TIME_LOG_${input.action.toUpperCase()}`,
+          description: `Time log updated: ${input.action}`,
+          actorId: ctx.user.userId,
+          metadata: {
+            action: input.action,
+            notes: input.notes,
           }
         });
 
@@ -489,14 +628,13 @@ export const jobRouter = router({
   /**
    * Add photo to job
    */
-  addPhoto: publicProcedure
+  addPhoto: mechanicProcedure
     .input(z.object({
       jobId: z.string(),
       photoUrl: z.string(),
       description: z.string().optional(),
-      mechanicId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -509,6 +647,8 @@ export const jobRouter = router({
           });
         }
 
+        assertJobMechanic(ctx.user, job);
+
         const photos = [...job.photos, input.photoUrl];
 
         const updatedJob = await prisma.job.update({
@@ -519,17 +659,16 @@ export const jobRouter = router({
           },
         });
 
-        // Create timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: 'IN_PROGRESS',
-            description: 'Photo added to job',
-            actorId: input.mechanicId,
-            metadata: {
-              photoUrl: input.photoUrl,
-              description: input.description,
-            }
+        // Record timeline event
+        await recordJobEvent({
+          jobId: job.id,
+          kind: 'PHOTO',
+          eventType: 'PHOTO_ADDED',
+          description: 'Photo added to job',
+          actorId: ctx.user.userId,
+          metadata: {
+            photoUrl: input.photoUrl,
+            description: input.description,
           }
         });
 
@@ -551,7 +690,7 @@ export const jobRouter = router({
   /**
    * Add parts used to job
    */
-  addParts: publicProcedure
+  addParts: mechanicProcedure
     .input(z.object({
       jobId: z.string(),
       parts: z.array(z.object({
@@ -559,9 +698,8 @@ export const jobRouter = router({
         qty: z.number(),
         unit_cost: z.number(),
       })),
-      mechanicId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -574,6 +712,8 @@ export const jobRouter = router({
           });
         }
 
+        assertJobMechanic(ctx.user, job);
+
         const existingParts = (job.partsUsed as any[]) || [];
         const newParts = [...existingParts, ...input.parts];
 
@@ -596,17 +736,16 @@ export const jobRouter = router({
           },
         });
 
-        // Create timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: 'IN_PROGRESS',
-            description: `Added ${input.parts.length} part(s) to job`,
-            actorId: input.mechanicId,
-            metadata: {
-              parts: input.parts,
-              partsTotal,
-            }
+        // Record timeline event
+        await recordJobEvent({
+          jobId: job.id,
+          kind: 'PARTS_ADDED',
+          eventType: 'PARTS_ADDED',
+          description: `Added ${input.parts.length} part(s) to job`,
+          actorId: ctx.user.userId,
+          metadata: {
+            parts: input.parts,
+            partsTotal,
           }
         });
 
@@ -626,7 +765,7 @@ export const jobRouter = router({
   /**
    * Update job totals (labor, parts, fees, discounts)
    */
-  updateTotals: publicProcedure
+  updateTotals: mechanicProcedure
     .input(z.object({
       jobId: z.string(),
       labor: z.number().optional(),
@@ -634,7 +773,7 @@ export const jobRouter = router({
       fees: z.number().optional(),
       discounts: z.number().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -647,6 +786,8 @@ export const jobRouter = router({
           });
         }
 
+        assertJobMechanic(ctx.user, job);
+
         const currentTotals = job.totals as any;
         const updatedTotals = {
           labor: input.labor ?? currentTotals.labor ?? 0,
@@ -687,13 +828,13 @@ export const jobRouter = router({
    * Update parts approval status for a job
    * Allows customers to pre-approve parts cost to streamline the service process
    */
-  updatePartsApproval: publicProcedure
+  updatePartsApproval: protectedProcedure
     .input(z.object({
       jobId: z.string(),
       partsApproved: z.boolean(),
       estimatedPartsCost: z.number().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -709,6 +850,8 @@ export const jobRouter = router({
           });
         }
 
+        assertJobCustomer(ctx.user, job);
+
         // Update job with parts approval status
         const updatedJob = await prisma.job.update({
           where: { id: input.jobId },
@@ -729,19 +872,18 @@ export const jobRouter = router({
           }
         });
 
-        // Create timeline event
-        await prisma.jobTimeline.create({
-          data: {
-            jobId: job.id,
-            eventType: 'IN_PROGRESS',
-            description: input.partsApproved
-              ? `Parts pre-approved${input.estimatedPartsCost ? ` (Est. $${input.estimatedPartsCost.toFixed(2)})` : ''}`
-              : 'Parts pre-approval removed',
-            actorId: job.customerId,
-            metadata: {
-              partsApproved: input.partsApproved,
-              estimatedPartsCost: input.estimatedPartsCost,
-            }
+        // Record timeline event
+        await recordJobEvent({
+          jobId: job.id,
+          kind: 'PARTS_ADDED',
+          eventType: 'PARTS_APPROVAL_UPDATED',
+          description: input.partsApproved
+            ? `Parts pre-approved${input.estimatedPartsCost ? ` (Est. $${input.estimatedPartsCost.toFixed(2)})` : ''}`
+            : 'Parts pre-approval removed',
+          actorId: job.customerId,
+          metadata: {
+            partsApproved: input.partsApproved,
+            estimatedPartsCost: input.estimatedPartsCost,
           }
         });
 
@@ -759,4 +901,41 @@ export const jobRouter = router({
         });
       }
     }),
+
+  /**
+   * Record the customer's sign-off signature on a job
+   */
+  captureSignature: mechanicProcedure
+    .input(z.object({
+      jobId: z.string(),
+      signatureData: z.string().min(1),
+      signerName: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const job = await loadJobForUser(ctx.user, input.jobId);
+      assertJobMechanic(ctx.user, job);
+
+      const result = await recordJobEvent({
+        jobId: job.id,
+        kind: 'SIGNATURE',
+        eventType: 'SIGNATURE_CAPTURED',
+        description: input.signerName
+          ? `Signature captured from ${input.signerName}`
+          : 'Customer signature captured',
+        actorId: ctx.user.userId,
+        metadata: {
+          signatureData: input.signatureData,
+          signerName: input.signerName,
+        }
+      });
+
+      if (!result.success) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record signature',
+        });
+      }
+
+      return { success: true, eventId: result.id };
+    }),
 });
@@ -1,16 +1,24 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure } from '../../create-router';
+import {
+  createTRPCRouter,
+  publicProcedure,
+  protectedProcedure,
+  mechanicProcedure,
+} from '../../create-context';
 import {
   calculateRouteDistance,
-  calculateHaversineDistance,
   getMechanicDistanceToJob,
-  updateJobETA,
   validateCoordinates,
   getNavigationUrl,
   formatCoordinates,
   type Coordinates,
 } from '../../../services/location';
+import { createHeuristicRoutingProvider } from '../../../services/heuristic-routing-provider';
+import { resolveServiceArea, toZonePricing } from '../../../services/service-zones';
+import { getJobTrail, LiveTrackingError, recordMechanicLocation } from '../../../services/live-tracking';
 import { prisma } from '../../../../lib/prisma';
+import { TRACKABLE_STATUSES } from '../../../services/job-state-machine';
+import { assertJobMechanic, loadJobForUser } from '../../middleware/ownership';
 
 /**
  * Location tRPC Router
@@ -26,7 +34,7 @@ export const locationRouter = createTRPCRouter({
   /**
    * Calculate distance between two points
    */
-  calculateDistance: publicProcedure
+  calculateDistance: protectedProcedure
     .input(
       z.object({
         origin: z.object({
@@ -37,34 +45,22 @@ export const locationRouter = createTRPCRouter({
           latitude: z.number().min(-90).max(90),
           longitude: z.number().min(-180).max(180),
         }),
-        useGoogleMaps: z.boolean().optional().default(true),
+        useRoutingService: z.boolean().optional().default(true),
       })
     )
     .query(async ({ input }) => {
       try {
-        const { origin, destination, useGoogleMaps } = input;
+        const { origin, destination, useRoutingService } = input;
 
-        if (useGoogleMaps) {
-          const result = await calculateRouteDistance(origin, destination);
-          return {
-            success: true,
-            ...result,
-          };
-        } else {
-          // Use Haversine formula
-          const distanceMeters = calculateHaversineDistance(origin, destination);
-          const durationSeconds = Math.round((distanceMeters / 1000 / 48) * 3600);
+        // Without the routing service, answer from the offline road-speed estimate
+        const result = useRoutingService
+          ? await calculateRouteDistance(origin, destination)
+          : await calculateRouteDistance(origin, destination, createHeuristicRoutingProvider());
 
-          return {
-            success: true,
-            distanceMeters,
-            distanceMiles: distanceMeters * 0.000621371,
-            distanceKm: distanceMeters / 1000,
-            durationSeconds,
-            durationMinutes: Math.round(durationSeconds / 60),
-            durationText: `${Math.round(durationSeconds / 60)} min`,
-          };
-        }
+        return {
+          success: true,
+          ...result,
+        };
       } catch (error) {
         console.error('Error calculating distance:', error);
         return {
@@ -77,7 +73,7 @@ export const locationRouter = createTRPCRouter({
   /**
    * Get mechanic distance to job
    */
-  getMechanicDistanceToJob: publicProcedure
+  getMechanicDistanceToJob: mechanicProcedure
     .input(
       z.object({
         jobId: z.string(),
@@ -87,7 +83,9 @@ export const locationRouter = createTRPCRouter({
         }),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId, { allowUnassignedMechanic: true });
+
       try {
         const { jobId, mechanicLocation } = input;
 
@@ -114,9 +112,10 @@ export const locationRouter = createTRPCRouter({
     }),
 
   /**
-   * Update job ETA based on mechanic location
+   * Report the mechanic's location for a job: records the breadcrumb,
+   * recomputes the ETA and runs the arrival geofences
    */
-  updateJobETA: publicProcedure
+  updateJobETA: mechanicProcedure
     .input(
       z.object({
         jobId: z.string(),
@@ -124,55 +123,79 @@ export const locationRouter = createTRPCRouter({
           latitude: z.number().min(-90).max(90),
           longitude: z.number().min(-180).max(180),
         }),
+        accuracyMeters: z.number().min(0).optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      try {
-        const { jobId, mechanicLocation } = input;
+    .mutation(async ({ ctx, input }) => {
+      const assigned = await loadJobForUser(ctx.user, input.jobId);
+      assertJobMechanic(ctx.user, assigned);
 
-        // Verify job exists and mechanic is assigned
-        const job = await prisma.job.findUnique({
-          where: { id: jobId },
-          select: {
-            id: true,
-            mechanicId: true,
-            status: true,
-          },
+      try {
+        const update = await recordMechanicLocation({
+          jobId: input.jobId,
+          mechanicId: ctx.user.userId,
+          location: input.mechanicLocation,
+          accuracyMeters: input.accuracyMeters,
         });
 
-        if (!job) {
-          return {
-            success: false,
-            error: 'Job not found',
-          };
-        }
-
-        if (job.status !== 'ACCEPTED' && job.status !== 'IN_PROGRESS') {
+        return {
+          success: true,
+          eta: update.eta,
+          etaMinutes: update.etaMinutes,
+          distanceMeters: update.distanceMeters,
+          events: update.events,
+          message: 'ETA updated successfully',
+        };
+      } catch (error) {
+        if (error instanceof LiveTrackingError) {
           return {
             success: false,
-            error: 'Job must be accepted or in progress to update ETA',
+            error: error.code === 'INVALID_STATUS'
+              ? 'Job must be accepted or in progress to update ETA'
+              : error.message,
           };
         }
+        console.error('Error updating job ETA:', error);
+        return {
+          success: false,
+          error: 'Failed to update ETA',
+        };
+      }
+    }),
 
-        const etaDate = await updateJobETA(jobId, mechanicLocation);
+  /**
+   * Report the mechanic's current position, used by dispatch to find
+   * mechanics near new jobs
+   */
+  updateMechanicPosition: mechanicProcedure
+    .input(
+      z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        serviceRadiusMiles: z.number().min(1).max(100).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const position = {
+          latitude: input.latitude,
+          longitude: input.longitude,
+          locationUpdatedAt: new Date(),
+          ...(input.serviceRadiusMiles !== undefined && { serviceRadiusMiles: input.serviceRadiusMiles }),
+        };
 
-        if (!etaDate) {
-          return {
-            success: false,
-            error: 'Failed to calculate ETA',
-          };
-        }
+        await prisma.mechanicProfile.upsert({
+          where: { mechanicId: ctx.user.userId },
+          create: { mechanicId: ctx.user.userId, ...position },
+          update: position,
+        });
 
-        return {
-          success: true,
-          eta: etaDate,
-          message: 'ETA updated successfully',
-        };
+        return { success: true };
       } catch (error) {
-        console.error('Error updating job ETA:', error);
+        console.error('Error updating mechanic position:', error);
         return {
           success: false,
-          error: 'Failed to update ETA',
+          error: 'Failed to update position',
         };
       }
     }),
@@ -180,14 +203,16 @@ export const locationRouter = createTRPCRouter({
   /**
    * Get navigation URL for a job
    */
-  getNavigationUrl: publicProcedure
+  getNavigationUrl: protectedProcedure
     .input(
       z.object({
         jobId: z.string(),
         platform: z.enum(['ios', 'android', 'web']),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId, { allowUnassignedMechanic: true });
+
       try {
         const { jobId, platform } = input;
 
@@ -230,13 +255,15 @@ export const locationRouter = createTRPCRouter({
   /**
    * Get job location details
    */
-  getJobLocation: publicProcedure
+  getJobLocation: protectedProcedure
     .input(
       z.object({
         jobId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId);
+
       try {
         const { jobId } = input;
 
@@ -250,6 +277,7 @@ export const locationRouter = createTRPCRouter({
             currentLatitude: true,
             currentLongitude: true,
             eta: true,
+            arrivedAt: true,
             status: true,
             mechanic: {
               select: {
@@ -268,6 +296,9 @@ export const locationRouter = createTRPCRouter({
           };
         }
 
+        // The trail is only shared while the mechanic is on the job
+        const trail = TRACKABLE_STATUSES.includes(job.status) ? await getJobTrail(jobId) : [];
+
         return {
           success: true,
           job: {
@@ -286,6 +317,8 @@ export const locationRouter = createTRPCRouter({
                 }
               : null,
             eta: job.eta,
+            arrivedAt: job.arrivedAt,
+            trail,
             status: job.status,
             mechanic: job.mechanic,
           },
@@ -299,6 +332,36 @@ export const locationRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Whether a location is inside the service area, and the travel pricing
+   * of its zone; checked before a request is submitted
+   */
+  checkServiceArea: protectedProcedure
+    .input(
+      z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        const check = await resolveServiceArea(input);
+
+        return {
+          success: true,
+          servable: check.servable,
+          message: check.message ?? null,
+          zone: check.zone ? toZonePricing(check.zone) : null,
+        };
+      } catch (error) {
+        console.error('Error checking service area:', error);
+        return {
+          success: false,
+          error: 'Failed to check service area',
+        };
+      }
+    }),
+
   /**
    * Validate coordinates
    */
@@ -1,184 +1,130 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
-import type { Context } from '../../create-context';
+import { protectedProcedure, mechanicProcedure, adminProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
-import * as jwt from 'jsonwebtoken';
+import { TRPCError } from '@trpc/server';
+import { getDocumentUrl } from '../../../services/storage';
+import {
+  getVerificationState,
+  notifyExpiringDocuments,
+  reviewVerification,
+  submitVerification,
+  VerificationError,
+} from '../../../services/mechanic-verification';
 
-// Use publicProcedure for now since protectedProcedure is the same
-const protectedProcedure = publicProcedure;
-
-// Helper function to get user from request
-async function getUserFromRequest(req: Request): Promise<{ id: string; role: 'mechanic' | 'admin' | 'customer' } | null> {
-  try {
-    // Extract token from Authorization header
-    const authHeader = req.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-    
-    const token = authHeader.substring(7);
-
-    // Verify JWT token
-    if (!process.env.NEXTAUTH_SECRET) {
-      throw new Error('NEXTAUTH_SECRET environment variable is not set');
-    }
-    const decoded = jwt.verify(
-      token,
-      process.env.NEXTAUTH_SECRET
-    ) as { userId: string; email: string; role: string };
-    
-    // Find user in database
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
-    
-    if (!user || !user.isActive) {
-      return null;
-    }
-    
-    return {
-      id: user.id,
-      role: user.role.toLowerCase() as 'mechanic' | 'admin' | 'customer'
-    };
-  } catch (error) {
-    console.error('Error getting user from request:', error);
-    return null;
+/**
+ * Verification rule violations reach the client as BAD_REQUEST
+ */
+function toClientError(error: unknown): unknown {
+  if (error instanceof VerificationError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
   }
+  return error;
 }
 
+const documentInput = z.object({
+  type: z.enum(['SELFIE', 'ID', 'ASE_CERTIFICATION', 'INSURANCE']),
+  base64Data: z.string().min(1),
+  mimeType: z.string(),
+  expiresAt: z.coerce.date().optional(),
+});
+
 export const mechanicRouter = router({
-  submitVerification: protectedProcedure
+  // Upload the selfie, ID, ASE certification and insurance documents for review
+  submitVerification: mechanicProcedure
     .input(z.object({
       fullName: z.string().min(2, 'Full name must be at least 2 characters'),
-      photoUri: z.string().url('Invalid photo URL'),
-      idUri: z.string().url('Invalid ID photo URL'),
+      documents: z.array(documentInput).min(1),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-        
-        // Check if user is a mechanic
-        if (user.role !== 'mechanic') {
-          throw new Error('Only mechanics can submit verification');
-        }
-
-        // Get mechanic profile
-        const mechanicProfile = await prisma.mechanicProfile.findUnique({
-          where: { mechanicId: user.id }
-        });
-
-        if (!mechanicProfile) {
-          throw new Error('Mechanic profile not found');
-        }
-
-        // Check if already submitted
-        const existingSubmission = await prisma.mechanicVerification.findFirst({
-          where: {
-            mechanicId: mechanicProfile.id,
-            status: 'PENDING'
-          }
-        });
-        
-        if (existingSubmission) {
-          throw new Error('Verification already submitted and pending review');
-        }
-
-        // Create new verification submission
-        const newSubmission = await prisma.mechanicVerification.create({
-          data: {
-            mechanicId: mechanicProfile.id,
-            fullName: input.fullName,
-            photoUri: input.photoUri,
-            idUri: input.idUri,
-            status: 'PENDING'
-          }
+        const submission = await submitVerification({
+          mechanicId: ctx.user.userId,
+          fullName: input.fullName.trim(),
+          documents: input.documents,
         });
 
         // Log the submission for production monitoring
         console.log('Mechanic verification submitted:', {
-          verificationId: newSubmission.id,
-          userId: user.id,
-          mechanicName: input.fullName,
+          verificationId: submission.id,
+          userId: ctx.user.userId,
           timestamp: new Date().toISOString(),
         });
 
         return {
           success: true,
-          verificationId: newSubmission.id,
+          verificationId: submission.id,
           message: 'Verification submitted successfully',
           submission: {
-            id: newSubmission.id,
-            status: newSubmission.status,
-            submittedAt: newSubmission.submittedAt,
+            id: submission.id,
+            status: submission.status,
+            submittedAt: submission.submittedAt,
           }
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
         console.error('Error in submitVerification:', error);
-        throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to submit verification',
+        });
       }
     }),
 
   getVerificationStatus: protectedProcedure
     .query(async ({ ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        
-        if (!user || user.role !== 'mechanic') {
+        if (ctx.user.role !== 'MECHANIC') {
           return { verified: false, status: null };
         }
 
-        // Get mechanic profile
-        const mechanicProfile = await prisma.mechanicProfile.findUnique({
-          where: { mechanicId: user.id }
-        });
-
-        if (!mechanicProfile) {
-          return { verified: false, status: null };
-        }
-
-        // Find the latest verification submission for this user
-        const latestSubmission = await prisma.mechanicVerification.findFirst({
-          where: { mechanicId: mechanicProfile.id },
-          orderBy: { submittedAt: 'desc' }
-        });
+        const [state, latestSubmission] = await Promise.all([
+          getVerificationState(ctx.user.userId),
+          prisma.mechanicVerification.findFirst({
+            where: { mechanicId: ctx.user.userId },
+            orderBy: { submittedAt: 'desc' },
+            select: { submittedAt: true, reviewedAt: true, reviewNotes: true },
+          }),
+        ]);
 
         if (!latestSubmission) {
           return { verified: false, status: null };
         }
 
         return {
-          verified: latestSubmission.status === 'APPROVED',
-          status: latestSubmission.status,
+          verified: state.verified,
+          status: state.status?.toLowerCase() ?? null,
           submittedAt: latestSubmission.submittedAt?.toISOString() || null,
           reviewedAt: latestSubmission.reviewedAt?.toISOString(),
           reviewNotes: latestSubmission.reviewNotes,
+          expiredDocuments: state.expiredDocuments,
+          expiringDocuments: state.expiringDocuments.map((document) => ({
+            type: document.type,
+            expiresAt: document.expiresAt.toISOString(),
+          })),
         };
       } catch (error) {
         console.error('Error in getVerificationStatus:', error);
         // Always return a valid response structure to prevent crashes
-        return { 
-          verified: false, 
+        return {
+          verified: false,
           status: null,
           error: 'Failed to fetch verification status'
         };
       }
     }),
 
-  // Admin-only procedures for managing verifications
-  getAllVerifications: protectedProcedure
-    .query(async ({ ctx }) => {
+  // Admin review queue, pending submissions oldest first by default
+  getAllVerifications: adminProcedure
+    .input(z.object({
+      status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+    }).optional())
+    .query(async ({ input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        
-        if (!user || user.role !== 'admin') {
-          throw new Error('Only admins can view all verifications');
-        }
-
         const verifications = await prisma.mechanicVerification.findMany({
+          where: input?.status ? { status: input.status } : undefined,
           include: {
             mechanic: {
               select: {
@@ -187,12 +133,13 @@ export const mechanicRouter = router({
                 lastName: true,
                 email: true,
               }
-            }
+            },
+            documents: { select: { type: true, expiresAt: true } },
           },
-          orderBy: { submittedAt: 'desc' }
+          orderBy: { submittedAt: input?.status === 'PENDING' ? 'asc' : 'desc' }
         });
 
-        return verifications.map(verification => ({
+        return verifications.map((verification) => ({
           id: verification.id,
           userId: verification.mechanic.id,
           fullName: verification.fullName,
@@ -200,6 +147,8 @@ export const mechanicRouter = router({
           submittedAt: verification.submittedAt,
           reviewedAt: verification.reviewedAt,
           reviewedBy: verification.reviewedBy,
+          reviewNotes: verification.reviewNotes,
+          documents: verification.documents,
           mechanicInfo: {
             firstName: verification.mechanic.firstName,
             lastName: verification.mechanic.lastName,
@@ -208,48 +157,33 @@ export const mechanicRouter = router({
         }));
       } catch (error) {
         console.error('Error in getAllVerifications:', error);
-        throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load verifications',
+        });
       }
     }),
 
-  reviewVerification: protectedProcedure
+  reviewVerification: adminProcedure
     .input(z.object({
       verificationId: z.string(),
       status: z.enum(['approved', 'rejected']),
-      reviewNotes: z.string().optional(),
+      reviewNotes: z.string().max(1000).optional(),
     }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        
-        if (!user || user.role !== 'admin') {
-          throw new Error('Only admins can review verifications');
-        }
-
-        const verification = await prisma.mechanicVerification.findUnique({
-          where: { id: input.verificationId }
-        });
-
-        if (!verification) {
-          throw new Error('Verification submission not found');
-        }
-
-        // Update the submission
-        await prisma.mechanicVerification.update({
-          where: { id: input.verificationId },
-          data: {
-            status: input.status as 'APPROVED' | 'REJECTED',
-            reviewedAt: new Date(),
-            reviewedBy: user.id,
-            reviewNotes: input.reviewNotes,
-          }
+        await reviewVerification({
+          verificationId: input.verificationId,
+          reviewerId: ctx.user.userId,
+          decision: input.status === 'approved' ? 'APPROVED' : 'REJECTED',
+          notes: input.reviewNotes,
         });
 
         // Log the review for production monitoring
         console.log('Mechanic verification reviewed:', {
           verificationId: input.verificationId,
           status: input.status,
-          reviewedBy: user.id,
+          reviewedBy: ctx.user.userId,
           timestamp: new Date().toISOString(),
         });
 
@@ -258,56 +192,79 @@ export const mechanicRouter = router({
           message: `Verification ${input.status} successfully`,
         };
       } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
         console.error('Error in reviewVerification:', error);
-        throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to review verification',
+        });
       }
     }),
 
-  getVerificationDetails: protectedProcedure
+  // Submission with short-lived download URLs for each document
+  getVerificationDetails: adminProcedure
     .input(z.object({
       verificationId: z.string(),
     }))
-    .query(async ({ ctx, input }) => {
-      try {
-        const user = await getUserFromRequest(ctx.req);
-        
-        if (!user || user.role !== 'admin') {
-          throw new Error('Only admins can view verification details');
+    .query(async ({ input }) => {
+      const verification = await prisma.mechanicVerification.findUnique({
+        where: { id: input.verificationId },
+        include: {
+          mechanic: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            }
+          },
+          documents: true,
         }
+      });
 
-        const verification = await prisma.mechanicVerification.findUnique({
-          where: { id: input.verificationId },
-          include: {
-            mechanic: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-              }
-            }
-          }
+      if (!verification) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Verification submission not found',
         });
+      }
 
-        if (!verification) {
-          throw new Error('Verification submission not found');
-        }
+      return {
+        id: verification.id,
+        fullName: verification.fullName,
+        status: verification.status,
+        submittedAt: verification.submittedAt,
+        reviewedAt: verification.reviewedAt,
+        reviewedBy: verification.reviewedBy,
+        reviewNotes: verification.reviewNotes,
+        mechanic: verification.mechanic,
+        documents: verification.documents.map((document) => {
+          const download = getDocumentUrl(document.fileId, 15 * 60);
+          return {
+            id: document.id,
+            type: document.type,
+            mimeType: document.mimeType,
+            expiresAt: document.expiresAt,
+            url: download.url,
+            urlExpiresAt: download.expiresAt,
+          };
+        }),
+      };
+    }),
 
-        return {
-          id: verification.id,
-          fullName: verification.fullName,
-          photoUri: verification.photoUri,
-          idUri: verification.idUri,
-          status: verification.status,
-          submittedAt: verification.submittedAt,
-          reviewedAt: verification.reviewedAt,
-          reviewedBy: verification.reviewedBy,
-          reviewNotes: verification.reviewNotes,
-          mechanic: verification.mechanic,
-        };
+  // Send reminders for documents expiring within 30 days; run daily
+  notifyExpiringDocuments: adminProcedure
+    .mutation(async () => {
+      try {
+        return await notifyExpiringDocuments();
       } catch (error) {
-        console.error('Error in getVerificationDetails:', error);
-        throw error;
+        console.error('Error sending document expiry reminders:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to send expiry reminders',
+        });
       }
     }),
-});
\ No newline at end of file
+});
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure } from '../../create-router';
+import { createTRPCRouter, protectedProcedure, adminProcedure } from '../../create-context';
 import {
   sendMessage,
   getJobMessages,
@@ -10,6 +10,7 @@ import {
   deleteMessage,
   sendSystemMessage,
 } from '../../../services/messaging';
+import { emitToRoom, jobRoom } from '../../../services/realtime';
 
 /**
  * Messages tRPC Router
@@ -21,36 +22,43 @@ export const messagesRouter = createTRPCRouter({
   /**
    * Send a message
    */
-  sendMessage: publicProcedure
+  sendMessage: protectedProcedure
     .input(
       z.object({
         jobId: z.string(),
-        senderId: z.string(),
         content: z.string().min(1),
         type: z.enum(['TEXT', 'IMAGE', 'FILE', 'SYSTEM']).optional(),
         mediaUrl: z.string().url().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await sendMessage(input);
+    .mutation(async ({ ctx, input }) => {
+      const result = await sendMessage({ ...input, senderId: ctx.user.userId });
+
+      // Reach chat participants connected to the websocket server
+      if (result.success) {
+        await emitToRoom(jobRoom(input.jobId), 'message:new', {
+          message: result.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       return result;
     }),
 
   /**
    * Get messages for a job
    */
-  getJobMessages: publicProcedure
+  getJobMessages: protectedProcedure
     .input(
       z.object({
         jobId: z.string(),
-        userId: z.string(),
         limit: z.number().min(1).max(100).optional(),
         offset: z.number().min(0).optional(),
         beforeId: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
-      const result = await getJobMessages(input.jobId, input.userId, {
+    .query(async ({ ctx, input }) => {
+      const result = await getJobMessages(input.jobId, ctx.user.userId, {
         limit: input.limit,
         offset: input.offset,
         beforeId: input.beforeId,
@@ -62,45 +70,42 @@ export const messagesRouter = createTRPCRouter({
   /**
    * Mark message as read
    */
-  markAsRead: publicProcedure
+  markAsRead: protectedProcedure
     .input(
       z.object({
         messageId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await markMessageAsRead(input.messageId, input.userId);
+    .mutation(async ({ ctx, input }) => {
+      const result = await markMessageAsRead(input.messageId, ctx.user.userId);
       return result;
     }),
 
   /**
    * Mark all job messages as read
    */
-  markJobMessagesAsRead: publicProcedure
+  markJobMessagesAsRead: protectedProcedure
     .input(
       z.object({
         jobId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await markJobMessagesAsRead(input.jobId, input.userId);
+    .mutation(async ({ ctx, input }) => {
+      const result = await markJobMessagesAsRead(input.jobId, ctx.user.userId);
       return result;
     }),
 
   /**
    * Get unread message count for a job
    */
-  getUnreadCount: publicProcedure
+  getUnreadCount: protectedProcedure
     .input(
       z.object({
         jobId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const count = await getUnreadMessageCount(input.jobId, input.userId);
+    .query(async ({ ctx, input }) => {
+      const count = await getUnreadMessageCount(input.jobId, ctx.user.userId);
 
       return {
         success: true,
@@ -111,14 +116,9 @@ export const messagesRouter = createTRPCRouter({
   /**
    * Get total unread message count for user
    */
-  getTotalUnreadCount: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      const count = await getTotalUnreadMessageCount(input.userId);
+  getTotalUnreadCount: protectedProcedure
+    .query(async ({ ctx }) => {
+      const count = await getTotalUnreadMessageCount(ctx.user.userId);
 
       return {
         success: true,
@@ -129,22 +129,21 @@ export const messagesRouter = createTRPCRouter({
   /**
    * Delete a message
    */
-  deleteMessage: publicProcedure
+  deleteMessage: protectedProcedure
     .input(
       z.object({
         messageId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await deleteMessage(input.messageId, input.userId);
+    .mutation(async ({ ctx, input }) => {
+      const result = await deleteMessage(input.messageId, ctx.user.userId);
       return result;
     }),
 
   /**
    * Send system message (admin only)
    */
-  sendSystemMessage: publicProcedure
+  sendSystemMessage: adminProcedure
     .input(
       z.object({
         jobId: z.string(),
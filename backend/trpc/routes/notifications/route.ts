@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure } from '../../create-router';
+import { createTRPCRouter, protectedProcedure, adminProcedure } from '../../create-context';
 import {
   registerPushToken,
   unregisterPushToken,
@@ -22,18 +22,17 @@ export const notificationsRouter = createTRPCRouter({
   /**
    * Register push token for a user
    */
-  registerToken: publicProcedure
+  registerToken: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         token: z.string(),
         platform: z.enum(['ios', 'android', 'web']),
         deviceId: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const result = await registerPushToken(
-        input.userId,
+        ctx.user.userId,
         input.token,
         input.platform,
         input.deviceId
@@ -45,7 +44,7 @@ export const notificationsRouter = createTRPCRouter({
   /**
    * Unregister push token
    */
-  unregisterToken: publicProcedure
+  unregisterToken: protectedProcedure
     .input(
       z.object({
         token: z.string(),
@@ -57,9 +56,9 @@ export const notificationsRouter = createTRPCRouter({
     }),
 
   /**
-   * Send a notification to a user
+   * Send a notification to a user (admin only)
    */
-  sendNotification: publicProcedure
+  sendNotification: adminProcedure
     .input(
       z.object({
         userId: z.string(),
@@ -100,20 +99,19 @@ export const notificationsRouter = createTRPCRouter({
   /**
    * Get user notifications
    */
-  getNotifications: publicProcedure
+  getNotifications: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         unreadOnly: z.boolean().optional(),
         limit: z.number().min(1).max(100).optional(),
         offset: z.number().min(0).optional(),
-      })
+      }).optional()
     )
-    .query(async ({ input }) => {
-      const notifications = await getUserNotifications(input.userId, {
-        unreadOnly: input.unreadOnly,
-        limit: input.limit,
-        offset: input.offset,
+    .query(async ({ ctx, input }) => {
+      const notifications = await getUserNotifications(ctx.user.userId, {
+        unreadOnly: input?.unreadOnly,
+        limit: input?.limit,
+        offset: input?.offset,
       });
 
       return {
@@ -125,56 +123,46 @@ export const notificationsRouter = createTRPCRouter({
   /**
    * Mark notification as read
    */
-  markAsRead: publicProcedure
+  markAsRead: protectedProcedure
     .input(
       z.object({
         notificationId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await markNotificationAsRead(input.notificationId);
+    .mutation(async ({ ctx, input }) => {
+      const result = await markNotificationAsRead(input.notificationId, ctx.user.userId);
       return result;
     }),
 
   /**
    * Mark all notifications as read
    */
-  markAllAsRead: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      const result = await markAllNotificationsAsRead(input.userId);
+  markAllAsRead: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const result = await markAllNotificationsAsRead(ctx.user.userId);
       return result;
     }),
 
   /**
    * Delete a notification
    */
-  deleteNotification: publicProcedure
+  deleteNotification: protectedProcedure
     .input(
       z.object({
         notificationId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await deleteNotification(input.notificationId);
+    .mutation(async ({ ctx, input }) => {
+      const result = await deleteNotification(input.notificationId, ctx.user.userId);
       return result;
     }),
 
   /**
    * Get unread notification count
    */
-  getUnreadCount: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      const count = await getUnreadCount(input.userId);
+  getUnreadCount: protectedProcedure
+    .query(async ({ ctx }) => {
+      const count = await getUnreadCount(ctx.user.userId);
 
       return {
         success: true,
@@ -184,20 +172,20 @@ export const notificationsRouter = createTRPCRouter({
 
   /**
    * Test notification (development only)
+   * Always delivered to the calling user
    */
-  sendTestNotification: publicProcedure
+  sendTestNotification: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         title: z.string().optional(),
         body: z.string().optional(),
-      })
+      }).optional()
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const payload: NotificationPayload = {
-        userId: input.userId,
-        title: input.title || 'Test Notification',
-        body: input.body || 'This is a test notification from Heinicus Mobile Mechanic',
+        userId: ctx.user.userId,
+        title: input?.title || 'Test Notification',
+        body: input?.body || 'This is a test notification from Heinicus Mobile Mechanic',
         type: 'JOB_UPDATE',
         data: { test: true, timestamp: new Date().toISOString() },
       };
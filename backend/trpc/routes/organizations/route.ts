@@ -0,0 +1,437 @@
+import { z } from 'zod';
+import { adminProcedure, protectedProcedure, router } from '../../trpc';
+import { prisma } from '../../../../lib/prisma';
+import { TRPCError } from '@trpc/server';
+import {
+  buildConsolidatedInvoice,
+  renderConsolidatedInvoicePdf,
+} from '../../../services/invoices';
+import { getDocumentUrl, uploadDocument } from '../../../services/storage';
+import {
+  createOrganization,
+  getMembership,
+  inviteMember,
+  issueMonthlyInvoices,
+  issueOrganizationInvoice,
+  listPendingInvitations,
+  markOrganizationInvoicePaid,
+  OrganizationError,
+  removeMember,
+  respondToInvitation,
+  revokeInvitation,
+  shareVehicle,
+  updateMember,
+} from '../../../services/organizations';
+
+/**
+ * Organization rule violations reach the client as BAD_REQUEST
+ */
+function toClientError(error: unknown): unknown {
+  if (error instanceof OrganizationError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return error;
+}
+
+/**
+ * The caller's membership, which must be an owner's
+ */
+async function requireOwnerMembership(userId: string) {
+  const membership = await getMembership(userId);
+
+  if (!membership || membership.role !== 'OWNER') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only an organization owner can do that',
+    });
+  }
+
+  return membership;
+}
+
+/**
+ * Owners see their organization's invoices; admins see any
+ */
+async function assertInvoiceReader(ctx: { user: { userId: string; role: string } }, organizationId: string) {
+  if (ctx.user.role === 'ADMIN') return;
+
+  const membership = await getMembership(ctx.user.userId);
+  if (membership?.role !== 'OWNER' || membership.organizationId !== organizationId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only an organization owner can view its invoices',
+    });
+  }
+}
+
+const periodInput = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be YYYY-MM');
+const approvalLimitInput = z.number().positive().nullable(); // null: no limit
+
+export const organizationsRouter = router({
+  // The caller's organization with members and shared vehicles, or null
+  getMine: protectedProcedure
+    .query(async ({ ctx }) => {
+      const membership = await getMembership(ctx.user.userId);
+
+      if (!membership) {
+        return null;
+      }
+
+      const isOwner = membership.role === 'OWNER';
+
+      const [members, invitations, vehicles] = await Promise.all([
+        prisma.organizationMember.findMany({
+          where: { organizationId: membership.organizationId },
+          include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        isOwner
+          ? prisma.organizationInvitation.findMany({
+              where: { organizationId: membership.organizationId, status: 'PENDING', expiresAt: { gt: new Date() } },
+              include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+              orderBy: { createdAt: 'asc' },
+            })
+          : [],
+        prisma.vehicle.findMany({
+          where: { organizationId: membership.organizationId },
+          select: { id: true, year: true, make: true, model: true, licensePlate: true },
+        }),
+      ]);
+
+      return {
+        organization: membership.organization,
+        role: membership.role,
+        approvalLimit: membership.approvalLimit,
+        members: isOwner ? members : [],
+        invitations,
+        vehicles,
+      };
+    }),
+
+  create: protectedProcedure
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      billingEmail: z.string().email(),
+      billingAddress: z.string().max(300).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.user.role !== 'CUSTOMER') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only customers can set up an organization',
+        });
+      }
+
+      try {
+        return await createOrganization({ ownerId: ctx.user.userId, ...input });
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error creating organization:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create organization',
+        });
+      }
+    }),
+
+  // Invite a customer by email; they join once they accept
+  inviteMember: protectedProcedure
+    .input(z.object({
+      email: z.string().email(),
+      role: z.enum(['OWNER', 'MEMBER']).default('MEMBER'),
+      approvalLimit: approvalLimitInput.default(null),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const membership = await requireOwnerMembership(ctx.user.userId);
+
+      try {
+        return await inviteMember({
+          organizationId: membership.organizationId,
+          invitedById: ctx.user.userId,
+          ...input,
+        });
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error inviting organization member:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to invite member',
+        });
+      }
+    }),
+
+  revokeInvitation: protectedProcedure
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const membership = await requireOwnerMembership(ctx.user.userId);
+
+      try {
+        await revokeInvitation(membership.organizationId, input.invitationId);
+        return { success: true };
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error revoking organization invitation:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to revoke invitation',
+        });
+      }
+    }),
+
+  // Invitations the caller has not answered yet
+  listMyInvitations: protectedProcedure
+    .query(async ({ ctx }) => {
+      return listPendingInvitations(ctx.user.userId);
+    }),
+
+  respondToInvitation: protectedProcedure
+    .input(z.object({
+      invitationId: z.string(),
+      accept: z.boolean(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const member = await respondToInvitation({ userId: ctx.user.userId, ...input });
+        return { success: true, member };
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error answering organization invitation:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to answer invitation',
+        });
+      }
+    }),
+
+  updateMember: protectedProcedure
+    .input(z.object({
+      memberId: z.string(),
+      role: z.enum(['OWNER', 'MEMBER']).optional(),
+      approvalLimit: approvalLimitInput.optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const membership = await requireOwnerMembership(ctx.user.userId);
+
+      try {
+        return await updateMember({ organizationId: membership.organizationId, ...input });
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error updating organization member:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to update member',
+        });
+      }
+    }),
+
+  removeMember: protectedProcedure
+    .input(z.object({ memberId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const membership = await requireOwnerMembership(ctx.user.userId);
+
+      try {
+        await removeMember(membership.organizationId, input.memberId);
+        return { success: true };
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error removing organization member:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to remove member',
+        });
+      }
+    }),
+
+  // Share one of the caller's vehicles with the organization
+  shareVehicle: protectedProcedure
+    .input(z.object({ vehicleId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await shareVehicle(ctx.user.userId, input.vehicleId);
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error sharing vehicle:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to share vehicle',
+        });
+      }
+    }),
+
+  // Issued monthly invoices, newest first
+  listInvoices: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().optional(), // Admins; owners get their own
+      limit: z.number().min(1).max(36).default(12),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const organizationId = input?.organizationId
+        ?? (await getMembership(ctx.user.userId))?.organizationId;
+
+      if (!organizationId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Organization not found',
+        });
+      }
+
+      await assertInvoiceReader(ctx, organizationId);
+
+      return prisma.organizationInvoice.findMany({
+        where: { organizationId },
+        include: { _count: { select: { jobs: true } } },
+        orderBy: { periodStart: 'desc' },
+        take: input?.limit ?? 12,
+      });
+    }),
+
+  // Render a monthly invoice as a PDF and return a short-lived download URL
+  getInvoicePdf: protectedProcedure
+    .input(z.object({ invoiceId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const record = await prisma.organizationInvoice.findUnique({ where: { id: input.invoiceId } });
+
+      if (!record) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invoice not found',
+        });
+      }
+
+      await assertInvoiceReader(ctx, record.organizationId);
+
+      try {
+        const period = record.periodStart.toISOString().slice(0, 7);
+        const invoice = await buildConsolidatedInvoice(record.organizationId, period);
+        if (!invoice) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Organization not found',
+          });
+        }
+
+        const upload = await uploadDocument({
+          folder: `invoices/organizations/${record.organizationId}`,
+          fileName: `${invoice.invoiceNumber}.pdf`,
+          buffer: await renderConsolidatedInvoicePdf(invoice),
+          mimeType: 'application/pdf',
+        });
+
+        if (!upload.success) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to store invoice',
+          });
+        }
+
+        await prisma.organizationInvoice.update({
+          where: { id: record.id },
+          data: { fileId: upload.fileId },
+        });
+
+        return {
+          invoiceNumber: invoice.invoiceNumber,
+          ...getDocumentUrl(upload.fileId),
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+
+        console.error('Error rendering organization invoice:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to generate invoice PDF',
+        });
+      }
+    }),
+
+  // Admin issues the month's invoices, for one organization or all of them
+  issueInvoices: adminProcedure
+    .input(z.object({
+      period: periodInput,
+      organizationId: z.string().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        if (input.organizationId) {
+          const invoice = await issueOrganizationInvoice(input.organizationId, input.period);
+          return { issued: invoice ? [invoice] : [], skipped: [] };
+        }
+
+        return await issueMonthlyInvoices(input.period);
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error issuing organization invoices:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to issue invoices',
+        });
+      }
+    }),
+
+  // Open invoices across organizations, oldest due first
+  listOpenInvoices: adminProcedure
+    .query(async () => {
+      return prisma.organizationInvoice.findMany({
+        where: { status: 'OPEN' },
+        include: { organization: { select: { id: true, name: true, billingEmail: true } } },
+        orderBy: { dueAt: 'asc' },
+      });
+    }),
+
+  // Admin records payment received against an invoice (check, ACH, wire)
+  markInvoicePaid: adminProcedure
+    .input(z.object({ invoiceId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await markOrganizationInvoicePaid(input.invoiceId);
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error marking organization invoice paid:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to mark invoice paid',
+        });
+      }
+    }),
+
+  // Admin sets an organization's net payment terms
+  updateTerms: adminProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      paymentTermsDays: z.number().int().min(0).max(120),
+    }))
+    .mutation(async ({ input }) => {
+      return prisma.organization.update({
+        where: { id: input.organizationId },
+        data: { paymentTermsDays: input.paymentTermsDays },
+      });
+    }),
+});
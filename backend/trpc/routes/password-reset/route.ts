@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { publicProcedure, protectedProcedure, adminProcedure, router } from '../../trpc';
 import {
   requestPasswordReset,
   verifyResetToken,
@@ -89,15 +89,14 @@ export const passwordResetRouter = router({
   /**
    * Change password for authenticated user
    */
-  changePassword: publicProcedure
+  changePassword: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       currentPassword: z.string().min(1, 'Current password is required'),
       newPassword: z.string().min(8, 'New password must be at least 8 characters'),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const result = await changePassword(
-        input.userId,
+        ctx.user.userId,
         input.currentPassword,
         input.newPassword
       );
@@ -118,7 +117,7 @@ export const passwordResetRouter = router({
   /**
    * Get reset attempt status (admin only)
    */
-  getResetAttempts: publicProcedure
+  getResetAttempts: adminProcedure
     .input(z.object({
       userId: z.string(),
     }))
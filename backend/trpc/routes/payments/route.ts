@@ -1,58 +1,94 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { adminProcedure, mechanicProcedure, protectedProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
-import Stripe from 'stripe';
-import * as jwt from 'jsonwebtoken';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-10-29.clover',
-});
-
-// Helper function to get user from request
-async function getUserFromRequest(req: Request): Promise<{ id: string; role: string } | null> {
-  try {
-    const authHeader = req.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-    
-    const token = authHeader.substring(7);
-    if (!process.env.NEXTAUTH_SECRET) {
-      throw new Error('NEXTAUTH_SECRET environment variable is not set');
-    }
-    const decoded = jwt.verify(
-      token,
-      process.env.NEXTAUTH_SECRET
-    ) as { userId: string; email: string; role: string };
-
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
-
-    if (!user || !user.isActive) {
-      return null;
-    }
-
-    return { id: user.id, role: user.role };
-  } catch (error) {
-    return null;
+import { TRPCError } from '@trpc/server';
+import { recordJobEvent } from '../../../services/job-timeline';
+import {
+  buildConsolidatedInvoice,
+  buildInvoice,
+  invoiceNumber,
+  renderInvoicePdf,
+  INVOICE_PAYMENT_INCLUDE,
+  type InvoicePayment,
+} from '../../../services/invoices';
+import { getDocumentUrl, uploadDocument } from '../../../services/storage';
+import {
+  depositFor,
+  ensureQuoteDeposit,
+  getQuotePaymentSchedule,
+  loadDepositPercents,
+  quoteServiceCategory,
+  syncQuotePayments,
+  type PaymentKind,
+} from '../../../services/deposits';
+import { getPaymentProvider, PaymentProviderError } from '../../../services/payment-provider';
+import {
+  ManualPaymentError,
+  MANUAL_PAYMENT_ATTESTATION,
+  MANUAL_PAYMENT_SOURCES,
+  reconcileManualPayment,
+  recordManualPayment,
+} from '../../../services/manual-payments';
+import { postPaymentEarnings } from '../../../services/earnings';
+import { chargeTip, MAX_TIP_PERCENT, TipError } from '../../../services/tips';
+import { getMembership } from '../../../services/organizations';
+import {
+  defaultPaymentMethodFor,
+  listSavedPaymentMethods,
+  removePaymentMethod,
+  setDefaultPaymentMethod,
+  startCardSetup,
+  WalletError,
+} from '../../../services/wallet';
+import {
+  getCreditBalance,
+  issueRefund,
+  payWithCredit,
+  RefundError,
+  refundableAmount,
+  REFUND_REASONS,
+  type RefundReason,
+} from '../../../services/refunds';
+import {
+  assertCustomerOwnership,
+  assertJobAccess,
+  assertJobMechanic,
+  loadJobForUser,
+} from '../../middleware/ownership';
+
+/**
+ * Declined cards, rejected requests and unknown saved cards reach the client
+ * as BAD_REQUEST
+ */
+function toClientError(error: unknown): unknown {
+  if (error instanceof PaymentProviderError || error instanceof WalletError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
   }
+  return error;
 }
 
+const PAYMENT_KIND_LABELS: Record<PaymentKind, string> = {
+  DEPOSIT: 'Deposit',
+  BALANCE: 'Balance payment',
+  FULL: 'Payment',
+  TIP: 'Tip',
+};
+
 export const paymentsRouter = router({
   // Create payment intent for a quote
-  createPaymentIntent: publicProcedure
+  // Charges the deposit first when one is due, then the balance once the job is completed
+  createPaymentIntent: protectedProcedure
     .input(z.object({
       quoteId: z.string(),
       paymentMethodId: z.string().optional(),
+      kind: z.enum(['DEPOSIT', 'BALANCE', 'FULL']).optional(),
+      useDefaultMethod: z.boolean().optional(), // One-tap: charge the saved default card
+      approvedAmount: z.number().positive().optional(), // Amount the customer approved on screen
+    }).refine((input) => !(input.useDefaultMethod && input.paymentMethodId), {
+      message: 'Give either a payment method or useDefaultMethod',
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-
         // Get quote details
         const quote = await prisma.quote.findUnique({
           where: { id: input.quoteId },
@@ -67,140 +103,248 @@ export const paymentsRouter = router({
         });
 
         if (!quote) {
-          throw new Error('Quote not found');
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
+          });
         }
 
         if (!quote.job) {
-          throw new Error('Job not found for quote');
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Job not found for quote',
+          });
         }
 
         // Verify user is the customer
-        if (quote.job.customerId !== user.id) {
-          throw new Error('Unauthorized');
+        if (quote.job.customerId !== ctx.user.userId) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Only the customer can pay for this quote',
+          });
         }
 
         // Check if quote is still valid
         if (quote.validUntil && new Date() > quote.validUntil) {
-          throw new Error('Quote has expired');
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Quote has expired',
+          });
+        }
+
+        if (quote.status !== 'ACCEPTED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Accept the quote before paying for it',
+          });
+        }
+
+        // Organization jobs are billed on the monthly invoice
+        if (quote.job.organizationId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This job is billed to your organization on its monthly invoice',
+          });
+        }
+
+        // The deposit percentage is locked in the first time the quote is paid
+        const deposit = await ensureQuoteDeposit(quote);
+        const schedule = await getQuotePaymentSchedule({ ...quote, ...deposit });
+
+        if (!schedule.next) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This quote has already been paid in full',
+          });
+        }
+
+        const kind = input.kind ?? schedule.next.kind;
+        if (kind !== schedule.next.kind) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: schedule.next.kind === 'DEPOSIT'
+              ? 'The deposit must be paid first'
+              : `A ${kind.toLowerCase()} payment is not due on this quote`,
+          });
         }
 
+        if (kind === 'BALANCE' && quote.job.status !== 'COMPLETED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The balance is charged once the job is completed',
+          });
+        }
+
+        const chargeAmount = schedule.next.amount;
+
         // Calculate amount in cents
-        const amount = Math.round(quote.totalCost * 100);
+        const amount = Math.round(chargeAmount * 100);
+
+        // Pending charges are not counted as paid yet, so a repeated request
+        // picks up the charge already under way instead of starting another
+        const pending = await prisma.payment.findFirst({
+          where: { quoteId: quote.id, kind: { not: 'TIP' }, status: { in: ['PENDING', 'PROCESSING'] } },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        if (pending && (pending.kind !== kind || pending.amount !== chargeAmount || !pending.stripePaymentId)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'Another payment for this quote is already in progress',
+          });
+        }
+
+        // One-tap payment only charges the amount the customer just approved
+        let paymentMethodId = input.paymentMethodId;
+        if (input.useDefaultMethod) {
+          if (input.approvedAmount === undefined || Math.round(input.approvedAmount * 100) !== amount) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `The amount due is $${chargeAmount.toFixed(2)}. Please review and approve it before paying.`,
+            });
+          }
 
-        // Create Stripe payment intent
-        const paymentIntent = await stripe.paymentIntents.create({
+          paymentMethodId = (await defaultPaymentMethodFor(ctx.user.userId)) ?? undefined;
+          if (!paymentMethodId) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'You have no saved card. Add a card to pay in one tap.',
+            });
+          }
+        }
+
+        const provider = getPaymentProvider();
+
+        if (pending?.stripePaymentId) {
+          const paymentIntent = paymentMethodId
+            ? await provider.confirmIntent(pending.stripePaymentId, paymentMethodId)
+            : await provider.retrieveIntent(pending.stripePaymentId);
+
+          return {
+            success: true,
+            paymentIntent: {
+              id: paymentIntent.id,
+              clientSecret: paymentIntent.clientSecret,
+              status: paymentIntent.status,
+              nextActionUrl: paymentIntent.nextActionUrl ?? null,
+            },
+            payment: {
+              id: pending.id,
+              kind,
+              amount: pending.amount,
+              status: pending.status,
+            },
+            schedule,
+          };
+        }
+
+        // Create the payment intent with the configured provider
+        const paymentIntent = await provider.createIntent({
           amount,
-          currency: 'usd',
-          payment_method: input.paymentMethodId,
-          confirmation_method: 'manual',
-          confirm: input.paymentMethodId ? true : false,
+          customerId: quote.job.customer?.paymentCustomerId ?? undefined, // Needed to charge saved cards
+          paymentMethodId,
+          confirmationMethod: 'manual',
+          confirm: paymentMethodId ? true : false,
           metadata: {
             quoteId: quote.id,
             jobId: quote.job?.id || '',
-            customerId: user.id,
+            customerId: ctx.user.userId,
             mechanicId: quote.job?.mechanicId || '',
+            kind,
           },
-          description: `Payment for job: ${quote.job?.title || 'Service'}`,
+          description: `${PAYMENT_KIND_LABELS[kind]} for job: ${quote.job?.title || 'Service'}`,
         });
 
         // Create payment record
         const payment = await prisma.payment.create({
           data: {
-            userId: user.id,
+            customerId: ctx.user.userId,
             jobId: quote.job?.id,
             quoteId: quote.id,
-            amount: quote.totalCost,
+            kind,
+            amount: chargeAmount,
             currency: 'USD',
             status: 'PENDING',
-            paymentMethod: input.paymentMethodId ? 'card' : 'unknown',
+            paymentMethod: paymentMethodId ? 'card' : 'unknown',
             stripePaymentId: paymentIntent.id,
-            stripeIntentId: paymentIntent.id,
-          }
+                      }
         });
 
+        if (payment.jobId) {
+          await recordJobEvent({
+            jobId: payment.jobId,
+            kind: 'PAYMENT',
+            eventType: 'PAYMENT_CREATED',
+            description: `${PAYMENT_KIND_LABELS[kind]} of $${payment.amount.toFixed(2)} initiated`,
+            actorId: ctx.user.userId,
+            metadata: { paymentId: payment.id, stripePaymentId: paymentIntent.id, kind }
+          });
+        }
+
         return {
           success: true,
           paymentIntent: {
             id: paymentIntent.id,
-            clientSecret: paymentIntent.client_secret,
+            clientSecret: paymentIntent.clientSecret,
             status: paymentIntent.status,
+            nextActionUrl: paymentIntent.nextActionUrl ?? null,
           },
           payment: {
             id: payment.id,
+            kind,
             amount: payment.amount,
             status: payment.status,
-          }
+          },
+          schedule,
         };
 
       } catch (error) {
         console.error('Error creating payment intent:', error);
-        throw error;
+        throw toClientError(error);
       }
     }),
 
   // Confirm payment intent
-  confirmPaymentIntent: publicProcedure
+  confirmPaymentIntent: protectedProcedure
     .input(z.object({
       paymentIntentId: z.string(),
       paymentMethodId: z.string().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-
-        // Confirm payment intent with Stripe
-        const paymentIntent = await stripe.paymentIntents.confirm(input.paymentIntentId, {
-          payment_method: input.paymentMethodId,
-        });
-
-        // Update payment record
         const payment = await prisma.payment.findFirst({
-          where: { stripeIntentId: input.paymentIntentId }
+          where: { stripePaymentId: input.paymentIntentId }
         });
 
-        if (payment) {
-          await prisma.payment.update({
-            where: { id: payment.id },
-            data: {
-              status: paymentIntent.status === 'succeeded' ? 'COMPLETED' : 'PROCESSING',
-              paymentMethod: paymentIntent.payment_method?.toString() || 'card',
-            }
+        if (!payment) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Payment not found',
           });
+        }
 
-          // If payment succeeded, update quote and job status
-          if (paymentIntent.status === 'succeeded' && payment.jobId) {
-            const quote = await prisma.quote.findFirst({
-              where: {
-                job: { id: payment.jobId },
-                status: 'PENDING'
-              }
-            });
-
-            if (quote) {
-              await prisma.quote.update({
-                where: { id: quote.id },
-                data: { status: 'ACCEPTED' }
-              });
+        // Only the paying customer (or an admin) may confirm the intent
+        assertCustomerOwnership(ctx.user, payment, 'payment');
 
-              await prisma.job.update({
-                where: { id: payment.jobId },
-                data: { status: 'ACCEPTED' }
-              });
+        // Confirm payment intent with the provider
+        const paymentIntent = await getPaymentProvider().confirmIntent(
+          input.paymentIntentId,
+          input.paymentMethodId
+        );
 
-              // Create timeline entry
-              await prisma.jobTimeline.create({
-                data: {
-                  jobId: payment.jobId,
-                  eventType: 'QUOTE_ACCEPTED',
-                  description: 'Payment processed and quote accepted',
-                  metadata: { paymentId: payment.id }
-                }
-              });
-            }
+        await prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: paymentIntent.status === 'succeeded' ? 'SUCCEEDED' : 'PROCESSING',
+            paymentMethod: paymentIntent.paymentMethod || 'card',
           }
+        });
+
+        // The quote was accepted before it could be paid, so only the
+        // schedule and earnings move here
+        if (paymentIntent.status === 'succeeded') {
+          await syncQuotePayments(payment.quoteId);
+          await postPaymentEarnings(payment.id);
         }
 
         return {
@@ -209,160 +353,355 @@ export const paymentsRouter = router({
           paymentIntent: {
             id: paymentIntent.id,
             status: paymentIntent.status,
+            nextActionUrl: paymentIntent.nextActionUrl ?? null,
           }
         };
 
       } catch (error) {
         console.error('Error confirming payment:', error);
-        throw error;
+        throw toClientError(error);
       }
     }),
 
-  // Get payment methods for user
-  getPaymentMethods: publicProcedure
+  // Cards the user saved with the payment provider, default first
+  getPaymentMethods: protectedProcedure
     .query(async ({ ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
+        return { paymentMethods: await listSavedPaymentMethods(ctx.user.userId) };
+
+      } catch (error) {
+        console.error('Error getting payment methods:', error);
+        throw toClientError(error);
+      }
+    }),
+
+  // Start saving a card; the client confirms the setup intent with the card form
+  createSetupIntent: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      try {
+        const setupIntent = await startCardSetup(ctx.user.userId);
 
-        // In a real app, you would store customer ID and retrieve their payment methods
-        // For demo purposes, return mock data
         return {
-          paymentMethods: [
-            {
-              id: 'pm_1234567890',
-              type: 'card',
-              card: {
-                brand: 'visa',
-                last4: '4242',
-                expMonth: 12,
-                expYear: 2025,
-              },
-              isDefault: true,
-            }
-          ]
+          setupIntentId: setupIntent.id,
+          clientSecret: setupIntent.clientSecret,
+          customerId: setupIntent.customerId,
         };
 
       } catch (error) {
-        console.error('Error getting payment methods:', error);
-        throw error;
+        console.error('Error creating setup intent:', error);
+        throw toClientError(error);
+      }
+    }),
+
+  setDefaultPaymentMethod: protectedProcedure
+    .input(z.object({
+      paymentMethodId: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await setDefaultPaymentMethod(ctx.user.userId, input.paymentMethodId);
+        return { success: true };
+
+      } catch (error) {
+        console.error('Error setting default payment method:', error);
+        throw toClientError(error);
+      }
+    }),
+
+  removePaymentMethod: protectedProcedure
+    .input(z.object({
+      paymentMethodId: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await removePaymentMethod(ctx.user.userId, input.paymentMethodId);
+        return { success: true };
+
+      } catch (error) {
+        console.error('Error removing payment method:', error);
+        throw toClientError(error);
       }
     }),
 
   // Process refund
-  processRefund: publicProcedure
+  // Admin only: account credit is spendable at once and the refund claws back
+  // the mechanic's earnings, so customers ask support rather than refund themselves
+  processRefund: adminProcedure
     .input(z.object({
       paymentId: z.string(),
-      amount: z.number().optional(),
-      reason: z.string().optional(),
+      amount: z.number().positive().optional(),
+      lineItemIds: z.array(z.string()).max(100).optional(),
+      reason: z.enum(REFUND_REASONS as [RefundReason, ...RefundReason[]]).default('CUSTOMER_REQUEST'),
+      note: z.string().max(500).optional(),
+      method: z.enum(['ORIGINAL_PAYMENT', 'ACCOUNT_CREDIT']).default('ORIGINAL_PAYMENT'),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-
-        // Get payment record
         const payment = await prisma.payment.findUnique({
           where: { id: input.paymentId },
-          include: {
-            job: {
-              include: {
-                customer: true,
-                mechanic: true
-              }
-            }
-          }
+          select: { id: true },
         });
 
         if (!payment) {
-          throw new Error('Payment not found');
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Payment not found',
+          });
+        }
+
+        const { refund, refundAmount, status } = await issueRefund({
+          ...input,
+          initiatedById: ctx.user.userId,
+        });
+
+        return {
+          success: true,
+          refund: {
+            id: refund.id,
+            amount: refund.amount,
+            method: refund.method,
+            reason: refund.reason,
+            status: refund.status,
+          },
+          payment: {
+            id: payment.id,
+            refundAmount,
+            status,
+          },
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        if (error instanceof RefundError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error processing refund:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to process refund',
+        });
+      }
+    }),
+
+  // Refunds issued against a payment, newest first
+  listRefunds: protectedProcedure
+    .input(z.object({
+      paymentId: z.string(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const payment = await prisma.payment.findUnique({
+        where: { id: input.paymentId },
+        select: {
+          id: true,
+          customerId: true,
+          amount: true,
+          refundAmount: true,
+          refunds: {
+            include: { initiatedBy: { select: { id: true, firstName: true, lastName: true, role: true } } },
+            orderBy: { createdAt: 'desc' },
+          },
+        },
+      });
+
+      if (!payment) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Payment not found',
+        });
+      }
+
+      if (payment.customerId !== ctx.user.userId && ctx.user.role !== 'ADMIN') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have access to this payment',
+        });
+      }
+
+      return {
+        refunds: payment.refunds,
+        refundable: refundableAmount(payment),
+      };
+    }),
+
+  // Account credit the signed-in customer can spend on a quote
+  getCreditBalance: protectedProcedure
+    .query(async ({ ctx }) => {
+      const [balance, entries] = await Promise.all([
+        getCreditBalance(ctx.user.userId),
+        prisma.accountCredit.findMany({
+          where: { customerId: ctx.user.userId },
+          orderBy: { createdAt: 'desc' },
+          take: 20,
+        }),
+      ]);
+
+      return { balance, entries };
+    }),
+
+  // Pay the next amount due on a quote from account credit
+  payWithCredit: protectedProcedure
+    .input(z.object({
+      quoteId: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const quote = await prisma.quote.findUnique({
+          where: { id: input.quoteId },
+          include: { job: { select: { id: true, customerId: true, status: true, organizationId: true } } },
+        });
+
+        if (!quote || !quote.job) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
+          });
+        }
+
+        if (quote.job.customerId !== ctx.user.userId) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Only the customer can pay for this quote',
+          });
         }
 
-        // Verify user has permission (customer or admin)
-        if (payment.userId !== user.id && user.role !== 'ADMIN') {
-          throw new Error('Unauthorized');
+        if (quote.status !== 'ACCEPTED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Accept the quote before paying for it',
+          });
         }
 
-        if (!payment.stripePaymentId) {
-          throw new Error('Stripe payment ID not found');
+        // Organization jobs are billed on the monthly invoice
+        if (quote.job.organizationId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This job is billed to your organization on its monthly invoice',
+          });
         }
 
-        // Calculate refund amount
-        const refundAmount = input.amount || payment.amount;
-        const refundAmountCents = Math.round(refundAmount * 100);
+        const deposit = await ensureQuoteDeposit(quote);
+        const schedule = await getQuotePaymentSchedule({ ...quote, ...deposit });
 
-        // Process refund with Stripe
-        const refund = await stripe.refunds.create({
-          payment_intent: payment.stripePaymentId,
-          amount: refundAmountCents,
-          reason: 'requested_by_customer',
-          metadata: {
-            paymentId: payment.id,
-            jobId: payment.jobId,
-            refundReason: input.reason || 'Customer requested refund',
-          }
+        if (schedule.next?.kind === 'BALANCE' && quote.job.status !== 'COMPLETED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The balance is charged once the job is completed',
+          });
+        }
+
+        const result = await payWithCredit({
+          quoteId: quote.id,
+          customerId: ctx.user.userId,
+          jobId: quote.job.id,
+          quote: { ...quote, ...deposit },
         });
 
-        // Update payment record
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            status: 'REFUNDED',
-            refundAmount: refundAmount,
-            refundReason: input.reason || 'Customer requested refund',
-          }
+        if (!result) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'You have no account credit to apply',
+          });
+        }
+
+        return {
+          success: true,
+          payment: {
+            id: result.payment.id,
+            kind: result.payment.kind,
+            amount: result.payment.amount,
+            status: result.payment.status,
+          },
+          schedule: result.schedule,
+          creditBalance: result.creditBalance,
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        if (error instanceof RefundError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error paying with credit:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to apply account credit',
         });
+      }
+    }),
 
-        // Create timeline entry if job exists
-        if (payment.jobId) {
-          await prisma.jobTimeline.create({
-            data: {
-              jobId: payment.jobId,
-              eventType: 'JOB_CANCELLED',
-              description: `Refund processed: $${refundAmount.toFixed(2)}`,
-              metadata: {
-                refundId: refund.id,
-                refundAmount: refundAmount,
-                refundReason: input.reason
-              }
-            }
+  // Customer adds a tip once the job is completed, charged as its own payment
+  addTip: protectedProcedure
+    .input(z.object({
+      quoteId: z.string(),
+      percent: z.number().min(0).max(MAX_TIP_PERCENT).optional(),
+      amount: z.number().positive().optional(),
+      paymentMethodId: z.string().optional(),
+      paymentIntentId: z.string().optional(), // Charge the card used for the final payment
+    }).refine((input) => (input.percent === undefined) !== (input.amount === undefined), {
+      message: 'Give either a percentage or an amount',
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const quote = await prisma.quote.findUnique({
+          where: { id: input.quoteId },
+          select: { id: true, job: { select: { customerId: true } } },
+        });
+
+        if (!quote || !quote.job) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
           });
         }
 
+        if (quote.job.customerId !== ctx.user.userId) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Only the customer can tip on this job',
+          });
+        }
+
+        const result = await chargeTip({ ...input, customerId: quote.job.customerId });
+
         return {
           success: true,
-          refund: {
-            id: refund.id,
-            amount: refundAmount,
-            status: refund.status,
-          }
+          paymentIntent: result.paymentIntent,
+          payment: {
+            id: result.payment.id,
+            kind: result.payment.kind,
+            amount: result.payment.amount,
+            status: result.payment.status,
+          },
         };
 
       } catch (error) {
-        console.error('Error processing refund:', error);
-        throw error;
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        if (error instanceof TipError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error adding tip:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to add tip',
+        });
       }
     }),
 
   // Get payment history
-  getPaymentHistory: publicProcedure
+  getPaymentHistory: protectedProcedure
     .input(z.object({
       limit: z.number().min(1).max(100).default(20),
       offset: z.number().min(0).default(0),
     }))
     .query(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-
         const payments = await prisma.payment.findMany({
-          where: { userId: user.id },
+          where: { customerId: ctx.user.userId },
           include: {
             job: {
               select: {
@@ -379,7 +718,7 @@ export const paymentsRouter = router({
         });
 
         const total = await prisma.payment.count({
-          where: { userId: user.id }
+          where: { customerId: ctx.user.userId }
         });
 
         return {
@@ -403,161 +742,425 @@ export const paymentsRouter = router({
       }
     }),
 
+  // What has been paid on a quote and what is still owed
+  getPaymentSchedule: protectedProcedure
+    .input(z.object({
+      quoteId: z.string(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        const quote = await prisma.quote.findUnique({
+          where: { id: input.quoteId },
+          include: {
+            job: {
+              select: { customerId: true, mechanicId: true },
+            },
+          },
+        });
+
+        if (!quote) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
+          });
+        }
+
+        if (quote.job) {
+          assertJobAccess(ctx.user, quote.job);
+        } else {
+          assertCustomerOwnership(ctx.user, quote, 'quote');
+        }
+
+        // Before acceptance, show the deposit the customer would be charged
+        const deposit = quote.depositPercent === null || quote.depositPercent === undefined
+          ? depositFor(quote.total, await quoteServiceCategory(quote), await loadDepositPercents())
+          : quote;
+
+        return {
+          schedule: await getQuotePaymentSchedule({ ...quote, ...deposit }),
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error getting payment schedule:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get payment schedule',
+        });
+      }
+    }),
+
   // Generate invoice
-  generateInvoice: publicProcedure
+  // Organizations get one consolidated invoice per month (period 'YYYY-MM')
+  generateInvoice: protectedProcedure
     .input(z.object({
-      paymentId: z.string(),
+      paymentId: z.string().optional(),
+      organizationId: z.string().optional(),
+      period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be YYYY-MM').optional(),
+    }).refine((input) => Boolean(input.paymentId) !== Boolean(input.organizationId && input.period), {
+      message: 'Give a paymentId, or an organizationId with a period',
     }))
     .query(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
+        if (input.organizationId && input.period) {
+          if (ctx.user.role !== 'ADMIN') {
+            const membership = await getMembership(ctx.user.userId);
+            if (membership?.role !== 'OWNER' || membership.organizationId !== input.organizationId) {
+              throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: 'Only an organization owner can view its invoices',
+              });
+            }
+          }
+
+          const invoice = await buildConsolidatedInvoice(input.organizationId, input.period);
+          if (!invoice) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Organization not found',
+            });
+          }
+
+          return { invoice };
         }
 
         const payment = await prisma.payment.findUnique({
           where: { id: input.paymentId },
-          include: {
-            job: {
-              include: {
-                customer: true,
-                mechanic: true,
-                quote: true
-              }
-            }
-          }
+          include: INVOICE_PAYMENT_INCLUDE,
         });
 
-        if (!payment) {
-          throw new Error('Payment not found');
+        assertInvoiceAccess(payment, ctx.user);
+
+        return {
+          invoice: await buildInvoice(payment),
+        };
+
+      } catch (error) {
+        console.error('Error generating invoice:', error);
+        throw error;
+      }
+    }),
+
+  // Render the invoice as a PDF and return a short-lived download URL
+  getInvoicePdf: protectedProcedure
+    .input(z.object({
+      paymentId: z.string().optional(),
+      paymentIntentId: z.string().optional(),
+      regenerate: z.boolean().default(false),
+    }).refine((input) => input.paymentId || input.paymentIntentId, {
+      message: 'paymentId or paymentIntentId is required',
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const payment = await prisma.payment.findFirst({
+          where: input.paymentId ? { id: input.paymentId } : { stripePaymentId: input.paymentIntentId },
+          include: INVOICE_PAYMENT_INCLUDE,
+        });
+
+        assertInvoiceAccess(payment, ctx.user);
+
+        // Reuse the stored PDF unless the payment changed since it was rendered
+        const isCurrent = !!payment.invoiceGeneratedAt && payment.invoiceGeneratedAt >= payment.updatedAt;
+
+        if (payment.invoiceFileId && isCurrent && !input.regenerate) {
+          return {
+            invoiceNumber: invoiceNumber(payment.id),
+            ...getDocumentUrl(payment.invoiceFileId),
+          };
         }
 
-        if (!payment.job) {
-          throw new Error('Job not found for payment');
+        const invoice = await buildInvoice(payment);
+        const pdf = await renderInvoicePdf(invoice);
+
+        const upload = await uploadDocument({
+          folder: `invoices/${payment.jobId}`,
+          fileName: `${invoice.invoiceNumber}.pdf`,
+          buffer: pdf,
+          mimeType: 'application/pdf',
+        });
+
+        if (!upload.success) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to store invoice',
+          });
         }
 
-        if (payment.userId !== user.id && user.role !== 'ADMIN') {
-          throw new Error('Unauthorized');
+        // updatedAt is pinned so storing the file does not mark it stale
+        const generatedAt = new Date();
+        await prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            invoiceFileId: upload.fileId,
+            invoiceGeneratedAt: generatedAt,
+            updatedAt: generatedAt,
+          },
+        });
+
+        return {
+          invoiceNumber: invoice.invoiceNumber,
+          ...getDocumentUrl(upload.fileId),
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
         }
+        console.error('Error rendering invoice PDF:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to generate invoice PDF',
+        });
+      }
+    }),
 
-        const quote = payment.job.quote;
+  // Record cash, check or tap-to-pay money the assigned mechanic collected
+  recordManualPayment: mechanicProcedure
+    .input(z.object({
+      jobId: z.string(),
+      source: z.enum(['CASH', 'CHECK', 'TAP_TO_PAY']),
+      amount: z.number().positive(),
+      kind: z.enum(['DEPOSIT', 'BALANCE', 'FULL']).optional(),
+      checkNumber: z.string().max(32).optional(),
+      receiptPhoto: z.string().optional(),
+      terminalReference: z.string().max(64).optional(),
+      attested: z.boolean(),
+      note: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const job = await loadJobForUser(ctx.user, input.jobId);
+        assertJobMechanic(ctx.user, job);
+
+        const { payment, schedule } = await recordManualPayment({
+          ...input,
+          recordedById: ctx.user.userId,
+        });
 
         return {
-          invoice: {
+          success: true,
+          payment: {
             id: payment.id,
-            invoiceNumber: `INV-${payment.id.substring(0, 8).toUpperCase()}`,
-            date: payment.createdAt,
-            dueDate: payment.createdAt,
+            source: payment.source,
+            kind: payment.kind,
+            amount: payment.amount,
             status: payment.status,
-            
-            // Customer info
-            customer: {
-              name: `${payment.job.customer.firstName} ${payment.job.customer.lastName}`,
-              email: payment.job.customer.email,
-              phone: payment.job.customer.phone,
-            },
+            reconciliationStatus: payment.reconciliationStatus,
+          },
+          schedule,
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        if (error instanceof ManualPaymentError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error recording manual payment:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record payment',
+        });
+      }
+    }),
 
-            // Mechanic info
-            mechanic: payment.job.mechanic ? {
-              name: `${payment.job.mechanic.firstName} ${payment.job.mechanic.lastName}`,
-              email: payment.job.mechanic.email,
-            } : null,
+  // Statement shown to the mechanic before recording an offline payment
+  getManualPaymentAttestation: mechanicProcedure
+    .query(() => ({ attestation: MANUAL_PAYMENT_ATTESTATION })),
 
-            // Job details
-            job: {
-              title: payment.job.title || 'Service',
-              category: payment.job.category,
-              location: payment.job.location,
+  // Offline payments waiting for (or past) admin reconciliation
+  listManualPayments: adminProcedure
+    .input(z.object({
+      status: z.enum(['PENDING', 'RECONCILED', 'REJECTED']).default('PENDING'),
+      limit: z.number().min(1).max(100).default(50),
+      offset: z.number().min(0).default(0),
+    }).optional())
+    .query(async ({ input }) => {
+      try {
+        const where = {
+          source: { in: MANUAL_PAYMENT_SOURCES },
+          reconciliationStatus: input?.status ?? 'PENDING',
+        };
+
+        const [payments, total] = await Promise.all([
+          prisma.payment.findMany({
+            where,
+            include: {
+              job: { select: { id: true, title: true } },
+              customer: { select: { id: true, firstName: true, lastName: true } },
+              recordedBy: { select: { id: true, firstName: true, lastName: true } },
             },
+            orderBy: { createdAt: 'asc' },
+            take: input?.limit ?? 50,
+            skip: input?.offset ?? 0,
+          }),
+          prisma.payment.count({ where }),
+        ]);
 
-            // Line items
-            lineItems: [
-              {
-                description: 'Labor',
-                quantity: 1,
-                unitPrice: quote?.laborCost || 0,
-                total: quote?.laborCost || 0,
-              },
-              ...(quote?.parts ? (Array.isArray(quote.parts) ? quote.parts : []).map((part: any) => ({
-                description: part.name || part.partName || 'Part',
-                quantity: part.qty || part.quantity || 1,
-                unitPrice: part.cost || part.unitPrice || 0,
-                total: (part.cost || part.unitPrice || 0) * (part.qty || part.quantity || 1),
-              })) : [])
-            ],
-
-            // Totals
-            subtotal: payment.amount,
-            tax: 0, // Add tax calculation if needed
-            total: payment.amount,
-            
-            // Payment info
-            paymentMethod: payment.paymentMethod,
-            paidDate: payment.status === 'COMPLETED' ? payment.updatedAt : null,
-          }
+        return {
+          payments: payments.map((payment) => ({
+            id: payment.id,
+            source: payment.source,
+            kind: payment.kind,
+            amount: payment.amount,
+            status: payment.status,
+            checkNumber: payment.checkNumber,
+            terminalReference: payment.terminalReference,
+            receiptUrl: payment.receiptFileId ? getDocumentUrl(payment.receiptFileId).url : null,
+            attestedAt: payment.attestedAt,
+            reconciliationStatus: payment.reconciliationStatus,
+            reconciliationNote: payment.reconciliationNote,
+            createdAt: payment.createdAt,
+            job: payment.job,
+            customer: payment.customer,
+            recordedBy: payment.recordedBy,
+          })),
+          total,
         };
 
       } catch (error) {
-        console.error('Error generating invoice:', error);
-        throw error;
+        console.error('Error listing manual payments:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list manual payments',
+        });
       }
     }),
 
-  // Webhook handler for Stripe events
-  handleWebhook: publicProcedure
+  // Admin confirms an offline payment was deposited, or rejects it
+  reconcileManualPayment: adminProcedure
     .input(z.object({
-      payload: z.string(),
-      signature: z.string(),
+      paymentId: z.string(),
+      decision: z.enum(['RECONCILED', 'REJECTED']),
+      note: z.string().max(500).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-        if (!webhookSecret) {
-          throw new Error('Webhook secret not configured');
-        }
+        const payment = await reconcileManualPayment({ ...input, adminId: ctx.user.userId });
 
-        // Verify webhook signature
-        const event = stripe.webhooks.constructEvent(
-          input.payload,
-          input.signature,
-          webhookSecret
-        );
-
-        // Handle the event
-        switch (event.type) {
-          case 'payment_intent.succeeded':
-            const paymentIntent = event.data.object as Stripe.PaymentIntent;
-            
-            // Update payment status
-            await prisma.payment.updateMany({
-              where: { stripeIntentId: paymentIntent.id },
-              data: { status: 'COMPLETED' }
-            });
+        return {
+          success: true,
+          payment: {
+            id: payment.id,
+            status: payment.status,
+            reconciliationStatus: payment.reconciliationStatus,
+            reconciledAt: payment.reconciledAt,
+          },
+        };
 
-            console.log('Payment succeeded:', paymentIntent.id);
-            break;
+      } catch (error) {
+        if (error instanceof ManualPaymentError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Error reconciling manual payment:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to reconcile payment',
+        });
+      }
+    }),
 
-          case 'payment_intent.payment_failed':
-            const failedPayment = event.data.object as Stripe.PaymentIntent;
-            
-            // Update payment status
-            await prisma.payment.updateMany({
-              where: { stripeIntentId: failedPayment.id },
-              data: { status: 'FAILED' }
-            });
+  // Chargebacks reported by the payment provider, for the admin dispute queue
+  listDisputes: adminProcedure
+    .input(z.object({
+      state: z.enum(['OPEN', 'CLOSED']).default('OPEN'),
+      limit: z.number().min(1).max(100).default(50),
+      offset: z.number().min(0).default(0),
+    }).optional())
+    .query(async ({ input }) => {
+      try {
+        const where = { closedAt: (input?.state ?? 'OPEN') === 'OPEN' ? null : { not: null } };
+
+        const [disputes, total] = await Promise.all([
+          prisma.paymentDispute.findMany({
+            where,
+            include: {
+              payment: {
+                select: {
+                  id: true,
+                  amount: true,
+                  kind: true,
+                  job: { select: { id: true, title: true } },
+                  customer: { select: { id: true, firstName: true, lastName: true, email: true } },
+                },
+              },
+              reviewedBy: { select: { id: true, firstName: true, lastName: true } },
+            },
+            orderBy: [{ evidenceDueBy: 'asc' }, { createdAt: 'asc' }],
+            take: input?.limit ?? 50,
+            skip: input?.offset ?? 0,
+          }),
+          prisma.paymentDispute.count({ where }),
+        ]);
 
-            console.log('Payment failed:', failedPayment.id);
-            break;
+        return { disputes, total };
 
-          default:
-            console.log(`Unhandled event type: ${event.type}`);
-        }
+      } catch (error) {
+        console.error('Error listing disputes:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list disputes',
+        });
+      }
+    }),
 
-        return { success: true };
+  // Admin marks a dispute as reviewed, with a note on the response sent
+  reviewDispute: adminProcedure
+    .input(z.object({
+      disputeId: z.string(),
+      note: z.string().min(1).max(1000),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const dispute = await prisma.paymentDispute.findUnique({ where: { id: input.disputeId } });
 
-      } catch (error) {
-        console.error('Webhook error:', error);
-        throw error;
+      if (!dispute) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Dispute not found',
+        });
       }
+
+      const updated = await prisma.paymentDispute.update({
+        where: { id: dispute.id },
+        data: {
+          reviewedById: ctx.user.userId,
+          reviewedAt: new Date(),
+          adminNote: input.note.trim(),
+        },
+      });
+
+      return { success: true, dispute: updated };
     }),
-});
\ No newline at end of file
+});
+
+/**
+ * Invoices are visible to the paying customer and admins
+ */
+function assertInvoiceAccess(
+  payment: InvoicePayment | null,
+  user: { userId: string; role: string }
+): asserts payment is InvoicePayment {
+  if (!payment) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Payment not found',
+    });
+  }
+
+  if (!payment.job) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Job not found for payment',
+    });
+  }
+
+  if (payment.customerId !== user.userId && user.role !== 'ADMIN') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have access to this payment',
+    });
+  }
+}
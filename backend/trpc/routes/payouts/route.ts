@@ -0,0 +1,420 @@
+import { z } from 'zod';
+import { adminProcedure, mechanicProcedure, router } from '../../trpc';
+import { prisma } from '../../../../lib/prisma';
+import { TRPCError } from '@trpc/server';
+import { validatedEnv } from '../../../env-validation';
+import { roundCurrency } from '../../../../utils/quote-totals';
+import {
+  EarningsError,
+  getEarningsBalance,
+  ledgerRevenue,
+  postAdjustment,
+} from '../../../services/earnings';
+import {
+  createPayoutBatch,
+  decryptBankNumber,
+  encryptBankNumber,
+  loadPayoutBatch,
+  markPayoutBatchPaid,
+  markPayoutFailed,
+  payoutBatchCsv,
+  payoutBatchNacha,
+  PayoutError,
+  validatePayoutAccount,
+} from '../../../services/payouts';
+import { analyticsRouter } from '../analytics/route';
+
+/**
+ * Ledger and payout rule violations reach the client as BAD_REQUEST
+ */
+function toClientError(error: unknown): unknown {
+  if (error instanceof PayoutError || error instanceof EarningsError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return error;
+}
+
+/**
+ * Mechanics see their own earnings; admins may pass any mechanicId
+ */
+function resolveMechanicId(ctx: { user: { userId: string; role: string } }, mechanicId?: string): string {
+  if (!mechanicId || mechanicId === ctx.user.userId) {
+    return ctx.user.userId;
+  }
+
+  if (ctx.user.role !== 'ADMIN') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only view your own earnings',
+    });
+  }
+
+  return mechanicId;
+}
+
+const payoutAccountInput = z.object({
+  accountHolder: z.string().min(1).max(100),
+  routingNumber: z.string().regex(/^\d{9}$/, 'Routing number must be 9 digits'),
+  accountNumber: z.string().regex(/^\d{4,17}$/, 'Account number must be 4 to 17 digits'),
+  accountType: z.enum(['CHECKING', 'SAVINGS']).default('CHECKING'),
+});
+
+export const payoutsRouter = router({
+  // Balance and recent ledger activity for a mechanic
+  getEarnings: mechanicProcedure
+    .input(z.object({
+      mechanicId: z.string().optional(),
+      limit: z.number().min(1).max(100).default(25),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const mechanicId = resolveMechanicId(ctx, input?.mechanicId);
+
+      try {
+        const [balance, transactions] = await Promise.all([
+          getEarningsBalance(mechanicId),
+          prisma.earningsTransaction.findMany({
+            where: { mechanicId },
+            include: { entries: true },
+            orderBy: { createdAt: 'desc' },
+            take: input?.limit ?? 25,
+          }),
+        ]);
+
+        return { balance, transactions };
+
+      } catch (error) {
+        console.error('Error loading earnings:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load earnings',
+        });
+      }
+    }),
+
+  // Payout history for a mechanic
+  listPayouts: mechanicProcedure
+    .input(z.object({
+      mechanicId: z.string().optional(),
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const mechanicId = resolveMechanicId(ctx, input?.mechanicId);
+
+      try {
+        const [payouts, total] = await Promise.all([
+          prisma.payout.findMany({
+            where: { mechanicId },
+            include: { batch: { select: { periodStart: true, periodEnd: true, status: true, paidAt: true } } },
+            orderBy: { createdAt: 'desc' },
+            take: input?.limit ?? 20,
+            skip: input?.offset ?? 0,
+          }),
+          prisma.payout.count({ where: { mechanicId } }),
+        ]);
+
+        return { payouts, total };
+
+      } catch (error) {
+        console.error('Error listing payouts:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list payouts',
+        });
+      }
+    }),
+
+  // The bank account payouts go to, masked
+  getPayoutAccount: mechanicProcedure
+    .query(async ({ ctx }) => {
+      const profile = await prisma.mechanicProfile.findUnique({
+        where: { mechanicId: ctx.user.userId },
+        select: {
+          payoutAccountHolder: true,
+          payoutRoutingNumber: true,
+          payoutAccountLast4: true,
+          payoutAccountType: true,
+        },
+      });
+
+      if (!profile?.payoutRoutingNumber || !profile.payoutAccountLast4) {
+        return null;
+      }
+
+      try {
+        return {
+          accountHolder: profile.payoutAccountHolder,
+          routingNumber: decryptBankNumber(profile.payoutRoutingNumber),
+          accountType: profile.payoutAccountType,
+          accountLast4: profile.payoutAccountLast4,
+        };
+      } catch (error) {
+        throw toClientError(error);
+      }
+    }),
+
+  updatePayoutAccount: mechanicProcedure
+    .input(payoutAccountInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        validatePayoutAccount(input);
+
+        const account = {
+          payoutAccountHolder: input.accountHolder.trim(),
+          payoutRoutingNumber: encryptBankNumber(input.routingNumber),
+          payoutAccountNumber: encryptBankNumber(input.accountNumber),
+          payoutAccountLast4: input.accountNumber.slice(-4),
+          payoutAccountType: input.accountType,
+        };
+
+        await prisma.mechanicProfile.upsert({
+          where: { mechanicId: ctx.user.userId },
+          update: account,
+          create: { mechanicId: ctx.user.userId, ...account },
+        });
+
+        return {
+          accountHolder: input.accountHolder.trim(),
+          routingNumber: input.routingNumber,
+          accountType: input.accountType,
+          accountLast4: input.accountNumber.slice(-4),
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error saving payout account:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save payout account',
+        });
+      }
+    }),
+
+  // Cross-check ledger revenue against getMechanicAnalytics for a period
+  reconcileEarnings: mechanicProcedure
+    .input(z.object({
+      mechanicId: z.string().optional(),
+      period: z.enum(['week', 'month', 'quarter', 'year']).default('month'),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const mechanicId = resolveMechanicId(ctx, input?.mechanicId);
+
+      const analytics = await analyticsRouter
+        .createCaller(ctx)
+        .getMechanicAnalytics({ mechanicId, period: input?.period ?? 'month' });
+
+      try {
+        const { start, end } = analytics.dateRange;
+        const fromLedger = await ledgerRevenue(mechanicId, start, end);
+        const fromAnalytics = roundCurrency(analytics.metrics.totalRevenue);
+        const difference = roundCurrency(fromAnalytics - fromLedger);
+
+        return {
+          period: analytics.period,
+          dateRange: analytics.dateRange,
+          analyticsRevenue: fromAnalytics,
+          ledgerRevenue: fromLedger,
+          difference,
+          matches: difference === 0,
+        };
+
+      } catch (error) {
+        console.error('Error reconciling earnings:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to reconcile earnings',
+        });
+      }
+    }),
+
+  // Admin creates last week's payout batch
+  createPayoutBatch: adminProcedure
+    .mutation(async ({ ctx }) => {
+      try {
+        return await createPayoutBatch({ createdById: ctx.user.userId });
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error creating payout batch:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to create payout batch',
+        });
+      }
+    }),
+
+  listPayoutBatches: adminProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(52).default(12),
+      offset: z.number().min(0).default(0),
+    }).optional())
+    .query(async ({ input }) => {
+      try {
+        const [batches, total] = await Promise.all([
+          prisma.payoutBatch.findMany({
+            include: {
+              _count: { select: { payouts: true } },
+              createdBy: { select: { id: true, firstName: true, lastName: true } },
+            },
+            orderBy: { periodEnd: 'desc' },
+            take: input?.limit ?? 12,
+            skip: input?.offset ?? 0,
+          }),
+          prisma.payoutBatch.count(),
+        ]);
+
+        return { batches, total };
+
+      } catch (error) {
+        console.error('Error listing payout batches:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list payout batches',
+        });
+      }
+    }),
+
+  // Admin downloads a batch as CSV or a NACHA file for the bank
+  exportPayoutBatch: adminProcedure
+    .input(z.object({
+      batchId: z.string(),
+      format: z.enum(['csv', 'nacha']),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const batch = await loadPayoutBatch(input.batchId);
+        const week = batch.periodEnd.toISOString().slice(0, 10);
+
+        let result: { fileName: string; content: string; mimeType: string };
+
+        if (input.format === 'csv') {
+          result = {
+            fileName: `payouts-${week}.csv`,
+            content: payoutBatchCsv(batch),
+            mimeType: 'text/csv',
+          };
+        } else {
+          const {
+            NACHA_ODFI_ROUTING_NUMBER,
+            NACHA_BANK_NAME,
+            NACHA_COMPANY_ID,
+            NACHA_COMPANY_NAME,
+          } = validatedEnv;
+
+          if (!NACHA_ODFI_ROUTING_NUMBER || !NACHA_BANK_NAME || !NACHA_COMPANY_ID || !NACHA_COMPANY_NAME) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'NACHA export is not configured',
+            });
+          }
+
+          result = {
+            fileName: `payouts-${week}.ach`,
+            content: payoutBatchNacha(batch, {
+              routingNumber: NACHA_ODFI_ROUTING_NUMBER,
+              bankName: NACHA_BANK_NAME,
+              companyId: NACHA_COMPANY_ID,
+              companyName: NACHA_COMPANY_NAME,
+            }),
+            mimeType: 'text/plain',
+          };
+        }
+
+        if (batch.status === 'DRAFT') {
+          await prisma.payoutBatch.update({
+            where: { id: batch.id },
+            data: { status: 'EXPORTED', exportedAt: new Date() },
+          });
+        }
+
+        return result;
+
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error exporting payout batch:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to export payout batch',
+        });
+      }
+    }),
+
+  // Admin confirms the bank sent the batch
+  markPayoutBatchPaid: adminProcedure
+    .input(z.object({ batchId: z.string() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await markPayoutBatchPaid(input.batchId);
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error marking payout batch paid:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to mark payout batch paid',
+        });
+      }
+    }),
+
+  // Admin records a payout the bank returned
+  markPayoutFailed: adminProcedure
+    .input(z.object({
+      payoutId: z.string(),
+      reason: z.string().min(1).max(500),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await markPayoutFailed(input.payoutId, input.reason);
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error marking payout failed:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to mark payout failed',
+        });
+      }
+    }),
+
+  // Admin credits (positive) or debits (negative) a mechanic's balance
+  recordAdjustment: adminProcedure
+    .input(z.object({
+      mechanicId: z.string(),
+      amount: z.number().refine((amount) => amount !== 0, 'Amount cannot be zero'),
+      description: z.string().min(1).max(500),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const transaction = await postAdjustment({
+          mechanicId: input.mechanicId,
+          amount: input.amount,
+          description: input.description,
+          createdById: ctx.user.userId,
+        });
+
+        return { transaction, balance: await getEarningsBalance(input.mechanicId) };
+
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error recording adjustment:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to record adjustment',
+        });
+      }
+    }),
+});
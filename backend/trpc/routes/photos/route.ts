@@ -1,23 +1,29 @@
 import { z } from 'zod';
-import { createTRPCRouter, publicProcedure } from '../../create-router';
+import { createTRPCRouter, protectedProcedure } from '../../create-context';
 import { uploadPhoto, getJobPhotos, deletePhoto } from '../../../services/storage';
+import { loadJobForUser } from '../../middleware/ownership';
 
 export const photosRouter = createTRPCRouter({
-  uploadPhoto: publicProcedure
+  uploadPhoto: protectedProcedure
     .input(z.object({
       jobId: z.string(),
-      uploaderId: z.string(),
       base64Data: z.string(),
       type: z.enum(['BEFORE', 'AFTER', 'DIAGNOSTIC', 'PARTS', 'GENERAL']).optional(),
       description: z.string().optional(),
     }))
-    .mutation(async ({ input }) => uploadPhoto(input)),
+    .mutation(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId);
+      return uploadPhoto({ ...input, uploaderId: ctx.user.userId });
+    }),
 
-  getJobPhotos: publicProcedure
+  getJobPhotos: protectedProcedure
     .input(z.object({ jobId: z.string() }))
-    .query(async ({ input }) => ({ success: true, photos: await getJobPhotos(input.jobId) })),
+    .query(async ({ ctx, input }) => {
+      await loadJobForUser(ctx.user, input.jobId);
+      return { success: true, photos: await getJobPhotos(input.jobId) };
+    }),
 
-  deletePhoto: publicProcedure
-    .input(z.object({ photoId: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) => deletePhoto(input.photoId, input.userId)),
+  deletePhoto: protectedProcedure
+    .input(z.object({ photoId: z.string() }))
+    .mutation(async ({ ctx, input }) => deletePhoto(input.photoId, ctx.user.userId)),
 });
@@ -1,7 +1,40 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { protectedProcedure, mechanicProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
 import { TRPCError } from '@trpc/server';
+import type { Prisma } from '@prisma/client';
+import { assertCustomerOwnership, assertJobMechanic, isAdmin } from '../../middleware/ownership';
+import type { AuthUser } from '../../middleware/auth';
+import { recordJobEvent, type JobTimelineKind } from '../../../services/job-timeline';
+import { sendNotification } from '../../../services/notifications';
+import { diffLineItems } from '../../../services/quote-revisions';
+import { estimateQuote } from '../../../services/pricing-engine';
+import { assertInServiceArea, ServiceAreaError } from '../../../services/service-zones';
+import { resolveQuoteTax } from '../../../services/tax-rules';
+import { ensureQuoteDeposit } from '../../../services/deposits';
+import { assertCanApproveQuote, OrganizationError } from '../../../services/organizations';
+import { SERVICE_TYPES } from '@/constants/pricing';
+import { priceQuoteLineItems, type QuoteTotals } from '@/utils/quote-totals';
+import type { QuoteLineItem, QuoteLineItemType, ServiceType } from '@/types/service';
+
+/**
+ * Line item as entered by a mechanic. TAX lines are computed server-side.
+ */
+const lineItemInputSchema = z.object({
+  type: z.enum(['LABOR', 'PART', 'TRAVEL', 'FEE', 'DISCOUNT']),
+  description: z.string().min(1),
+  quantity: z.number().positive().default(1),
+  unitPrice: z.number().min(0),
+  partNumber: z.string().optional(),
+});
+
+const QUOTE_STATUSES = ['PENDING', 'ACCEPTED', 'REJECTED', 'EXPIRED'] as const;
+
+// Statuses a mechanic may set directly; acceptance is the customer's call
+const MECHANIC_QUOTE_STATUSES = ['PENDING', 'REJECTED', 'EXPIRED'] as const;
+
+// How long a quote can be accepted when the mechanic does not say
+const QUOTE_VALID_FOR_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 /**
  * Quote Management Router
@@ -9,100 +42,113 @@ import { TRPCError } from '@trpc/server';
  */
 export const quoteRouter = router({
   /**
-   * Create a new quote
+   * Estimate a price for a service request
+   * Prices are computed here rather than on the device so they cannot be tampered with
+   */
+  estimate: protectedProcedure
+    .input(z.object({
+      serviceType: z.enum(SERVICE_TYPES as [ServiceType, ...ServiceType[]]),
+      urgency: z.enum(['low', 'medium', 'high', 'emergency']).default('medium'),
+      description: z.string().optional(),
+      serviceId: z.string().optional(),
+      mechanicId: z.string().optional(),
+      vehicle: z.object({
+        year: z.number().int(),
+        make: z.string(),
+        model: z.string().optional(),
+        mileage: z.number().optional(),
+      }).optional(),
+      aiDiagnosis: z.object({
+        confidence: z.enum(['low', 'medium', 'high']),
+        urgencyLevel: z.enum(['low', 'medium', 'high', 'emergency']),
+        diagnosticSteps: z.array(z.string()).optional(),
+        likelyCauses: z.array(z.string()).optional(),
+      }).optional(),
+      selectedParts: z.array(z.string()).optional(),
+      // Honored for mechanics and admins pricing a job, ignored for customers
+      customLaborHours: z.number().positive().max(24).optional(),
+      location: z.string().optional(),
+      // Where the work happens; required once a service area is configured
+      coordinates: z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+      }).optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const zone = await assertInServiceArea(input.coordinates);
+        const isCustomer = ctx.user.role === 'CUSTOMER';
+
+        const estimate = await estimateQuote({
+          ...input,
+          // Mechanics always price with their own profile
+          mechanicId: ctx.user.role === 'MECHANIC' ? ctx.user.userId : input.mechanicId,
+          customLaborHours: isCustomer ? undefined : input.customLaborHours,
+          customerId: isCustomer ? ctx.user.userId : undefined,
+        }, zone);
+        return { estimate };
+      } catch (error) {
+        if (error instanceof ServiceAreaError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+        }
+        console.error('Error estimating quote:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to estimate quote',
+        });
+      }
+    }),
+
+  /**
+   * Create a new quote for a job
    * Typically called by a mechanic after reviewing a service request
    */
-  create: publicProcedure
+  create: mechanicProcedure
     .input(z.object({
-      customerId: z.string(),
-      vehicleId: z.string(),
-      serviceId: z.string(),
-      lineItems: z.array(z.object({
-        label: z.string(),
-        amount: z.number(),
-      })),
-      laborRate: z.number(),
-      estHours: z.number(),
-      laborCost: z.number(),
-      partsCost: z.number(),
-      travelFee: z.number(),
-      discountsApplied: z.array(z.object({
-        type: z.string(),
-        pct: z.number(),
-        amount: z.number(),
-      })).default([]),
-      subtotal: z.number(),
-      taxes: z.number().optional(),
-      total: z.number(),
+      jobId: z.string(),
+      lineItems: z.array(lineItemInputSchema).min(1),
+      description: z.string().optional(),
       validUntil: z.date().optional(),
-      estimatedDuration: z.number().optional(),
-      notes: z.string().optional(),
-      parts: z.array(z.object({
-        name: z.string(),
-        cost: z.number(),
-        qty: z.number(),
-      })).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        // Verify customer exists
-        const customer = await prisma.user.findUnique({
-          where: { id: input.customerId }
+        const job = await prisma.job.findUnique({
+          where: { id: input.jobId },
+          select: { id: true, title: true, customerId: true, mechanicId: true, location: true },
         });
 
-        if (!customer) {
+        if (!job) {
           throw new TRPCError({
             code: 'NOT_FOUND',
-            message: 'Customer not found',
+            message: 'Job not found',
           });
         }
 
-        // Verify vehicle exists and belongs to customer
-        const vehicle = await prisma.vehicle.findUnique({
-          where: { id: input.vehicleId }
-        });
-
-        if (!vehicle || vehicle.userId !== input.customerId) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Invalid vehicle for this customer',
-          });
+        // Open jobs can be quoted by any mechanic; once assigned, only by theirs
+        if (job.mechanicId) {
+          assertJobMechanic(ctx.user, job);
         }
 
-        // Verify service exists
-        const service = await prisma.service.findUnique({
-          where: { id: input.serviceId }
-        });
-
-        if (!service) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Service not found',
-          });
-        }
+        // Totals always come from the line items, never from the client
+        const tax = await resolveQuoteTax({ customerId: job.customerId, location: job.location });
+        const { lineItems, totals } = priceQuoteLineItems(input.lineItems, tax.rates);
 
         // Create the quote
         const quote = await prisma.quote.create({
           data: {
-            customerId: input.customerId,
-            vehicleId: input.vehicleId,
-            serviceId: input.serviceId,
-            lineItems: input.lineItems,
-            laborRate: input.laborRate,
-            estHours: input.estHours,
-            laborCost: input.laborCost,
-            partsCost: input.partsCost,
-            travelFee: input.travelFee,
-            discountsApplied: input.discountsApplied,
-            subtotal: input.subtotal,
-            taxes: input.taxes,
-            total: input.total,
-            totalCost: input.total,
-            validUntil: input.validUntil,
-            estimatedDuration: input.estimatedDuration,
-            notes: input.notes,
-            parts: input.parts || [],
+            jobId: job.id,
+            customerId: job.customerId,
+            description: input.description,
+            ...totals,
+            amount: totals.total,
+            totalCost: totals.total,
+            taxRuleId: tax.ruleId,
+            taxExempt: tax.exempt,
+            validUntil: input.validUntil ?? new Date(Date.now() + QUOTE_VALID_FOR_MS),
             status: 'PENDING',
+            lineItems: {
+              create: lineItemRows(lineItems),
+            },
           },
           include: {
             customer: {
@@ -114,28 +160,25 @@ export const quoteRouter = router({
                 phone: true,
               }
             },
-            vehicle: true,
-            service: true,
+            lineItems: {
+              orderBy: { position: 'asc' },
+            },
           }
         });
 
-        // Create notification for customer
-        await prisma.notification.create({
+        await sendNotification({
+          userId: job.customerId,
+          jobId: job.id,
+          quoteId: quote.id,
+          type: 'QUOTE_RECEIVED',
+          title: 'New Quote Received',
+          body: `You have received a quote for ${job.title}`,
           data: {
-            userId: input.customerId,
-            type: 'QUOTE_RECEIVED',
-            title: 'New Quote Received',
-            message: `You have received a quote for ${service.name}`,
-            data: {
-              quoteId: quote.id,
-              total: quote.total,
-              serviceId: service.id,
-            }
-          }
+            quoteId: quote.id,
+            total: quote.total,
+          },
         });
 
-        console.log('Quote created:', quote.id);
-
         return {
           success: true,
           quote,
@@ -155,34 +198,25 @@ export const quoteRouter = router({
   /**
    * Get all quotes with optional filtering
    */
-  listAll: publicProcedure
+  listAll: mechanicProcedure
     .input(z.object({
-      status: z.enum(['PENDING', 'APPROVED', 'ACCEPTED', 'REJECTED', 'EXPIRED']).optional(),
+      status: z.enum(QUOTE_STATUSES).optional(),
       customerId: z.string().optional(),
       limit: z.number().min(1).max(100).default(50),
       offset: z.number().min(0).default(0),
     }).optional())
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       try {
-        const where: any = {};
-
-        if (input?.status) {
-          where.status = input.status;
-        }
-
-        if (input?.customerId) {
-          where.customerId = input.customerId;
-        }
-
-        // Filter out expired quotes
-        const now = new Date();
-        if (!input?.status || input.status !== 'EXPIRED') {
-          where.OR = [
-            { validUntil: null },
-            { validUntil: { gte: now } },
-            { status: { not: 'PENDING' } }, // Keep non-pending even if expired
-          ];
-        }
+        const where = {
+          status: input?.status,
+          customerId: input?.customerId,
+          // Mechanics only see quotes on the jobs assigned to them
+          ...(isAdmin(ctx.user) ? {} : { job: { mechanicId: ctx.user.userId } }),
+          // Filter out expired quotes, keeping non-pending ones even if expired
+          ...(input?.status !== 'EXPIRED'
+            ? { OR: [{ validUntil: { gte: new Date() } }, { status: { not: 'PENDING' as const } }] }
+            : {}),
+        };
 
         const quotes = await prisma.quote.findMany({
           where,
@@ -195,26 +229,20 @@ export const quoteRouter = router({
                 email: true,
               }
             },
-            vehicle: {
-              select: {
-                id: true,
-                make: true,
-                model: true,
-                year: true,
-                vin: true,
-              }
-            },
-            service: {
-              select: {
-                id: true,
-                name: true,
-                category: true,
-              }
-            },
             job: {
               select: {
                 id: true,
+                title: true,
                 status: true,
+                vehicle: {
+                  select: {
+                    id: true,
+                    make: true,
+                    model: true,
+                    year: true,
+                    vin: true,
+                  }
+                },
               }
             },
           },
@@ -244,30 +272,24 @@ export const quoteRouter = router({
   /**
    * Get quotes for a specific user (customer's quotes)
    */
-  listMine: publicProcedure
+  listMine: protectedProcedure
     .input(z.object({
-      userId: z.string(),
-      status: z.enum(['PENDING', 'APPROVED', 'ACCEPTED', 'REJECTED', 'EXPIRED']).optional(),
-    }))
-    .query(async ({ input }) => {
+      status: z.enum(QUOTE_STATUSES).optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
       try {
-        const where: any = {
-          customerId: input.userId,
-        };
-
-        if (input.status) {
-          where.status = input.status;
-        }
-
         const quotes = await prisma.quote.findMany({
-          where,
+          where: {
+            customerId: ctx.user.userId,
+            status: input?.status,
+          },
           include: {
-            vehicle: true,
-            service: true,
             job: {
               select: {
                 id: true,
+                title: true,
                 status: true,
+                vehicle: true,
               }
             },
           },
@@ -289,11 +311,11 @@ export const quoteRouter = router({
   /**
    * Get a single quote by ID
    */
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({
       quoteId: z.string(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       try {
         const quote = await prisma.quote.findUnique({
           where: { id: input.quoteId },
@@ -307,11 +329,15 @@ export const quoteRouter = router({
                 phone: true,
               }
             },
-            vehicle: true,
-            service: true,
-            job: true,
+            job: {
+              include: {
+                vehicle: true,
+              }
+            },
             payments: true,
-            reviews: true,
+            lineItems: {
+              orderBy: { position: 'asc' },
+            },
           },
         });
 
@@ -322,6 +348,13 @@ export const quoteRouter = router({
           });
         }
 
+        // Mechanics may only read quotes on the jobs assigned to them
+        if (ctx.user.role === 'MECHANIC') {
+          assertJobMechanic(ctx.user, quote.job);
+        } else {
+          assertCustomerOwnership(ctx.user, quote, 'quote');
+        }
+
         return { quote };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -337,56 +370,63 @@ export const quoteRouter = router({
 
   /**
    * Update quote status
+   * Only the customer accepts a quote, through quote.accept
    */
-  updateStatus: publicProcedure
+  updateStatus: mechanicProcedure
     .input(z.object({
       quoteId: z.string(),
-      status: z.enum(['PENDING', 'APPROVED', 'ACCEPTED', 'REJECTED', 'EXPIRED']),
-      userId: z.string(), // Who is performing the action
+      status: z.enum(MECHANIC_QUOTE_STATUSES),
       notes: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
+        const existing = await prisma.quote.findUnique({
+          where: { id: input.quoteId },
+          select: { jobId: true },
+        });
+
+        if (!existing) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
+          });
+        }
+
+        await loadJobForQuoteMechanic(ctx.user, existing.jobId);
+
         const quote = await prisma.quote.update({
           where: { id: input.quoteId },
           data: {
             status: input.status,
           },
-          include: {
-            customer: true,
-            service: true,
-          }
         });
 
         // Create notification based on status
-        let notificationType: any = 'QUOTE_RECEIVED';
         let title = 'Quote Status Updated';
-        let message = `Quote status changed to ${input.status}`;
+        let body = `Quote status changed to ${input.status}`;
 
-        if (input.status === 'ACCEPTED') {
-          notificationType = 'QUOTE_RECEIVED';
-          title = 'Quote Accepted';
-          message = 'Your quote has been accepted by the customer';
-        } else if (input.status === 'REJECTED') {
-          title = 'Quote Rejected';
-          message = 'Unfortunately, the customer has declined your quote';
+        if (input.status === 'REJECTED') {
+          title = 'Quote Withdrawn';
+          body = 'The mechanic has withdrawn this quote';
         }
 
-        await prisma.notification.create({
+        await sendNotification({
+          userId: quote.customerId,
+          jobId: quote.jobId,
+          quoteId: quote.id,
+          type: 'QUOTE_RECEIVED',
+          title,
+          body,
           data: {
-            userId: quote.customerId,
-            type: notificationType,
-            title,
-            message,
-            data: {
-              quoteId: quote.id,
-              status: input.status,
-              notes: input.notes,
-            }
-          }
+            quoteId: quote.id,
+            status: input.status,
+            notes: input.notes,
+          },
         });
 
-        console.log('Quote status updated:', input.quoteId, input.status);
+        await recordQuoteEvent(quote, `QUOTE_${input.status}`, `Quote status changed to ${input.status}`, ctx.user.userId, {
+          notes: input.notes,
+        });
 
         return {
           success: true,
@@ -407,21 +447,19 @@ export const quoteRouter = router({
 
   /**
    * Approve a quote (typically by customer)
-   * This changes status to APPROVED and can be followed by ACCEPTED when payment is confirmed
+   * The quote stays PENDING until it is accepted, usually when payment is confirmed
    */
-  approve: publicProcedure
+  approve: protectedProcedure
     .input(z.object({
       quoteId: z.string(),
-      userId: z.string(),
       notes: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const quote = await prisma.quote.findUnique({
           where: { id: input.quoteId },
           include: {
-            customer: true,
-            service: true,
+            job: { select: { title: true, mechanicId: true, organizationId: true } },
           }
         });
 
@@ -432,41 +470,37 @@ export const quoteRouter = router({
           });
         }
 
-        // Verify the user is the customer
-        if (quote.customerId !== input.userId) {
+        await assertCanApprove(quote, ctx.user.userId, 'approve');
+
+        if (quote.status !== 'PENDING') {
           throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only the customer can approve this quote',
+            code: 'BAD_REQUEST',
+            message: `Cannot approve a ${quote.status.toLowerCase()} quote`,
           });
         }
 
-        // Update quote status
-        const updatedQuote = await prisma.quote.update({
-          where: { id: input.quoteId },
-          data: {
-            status: 'APPROVED',
-          },
-        });
-
-        // Create notification
-        await prisma.notification.create({
-          data: {
-            userId: quote.customerId,
+        if (quote.job.mechanicId) {
+          await sendNotification({
+            userId: quote.job.mechanicId,
+            jobId: quote.jobId,
+            quoteId: quote.id,
             type: 'QUOTE_RECEIVED',
             title: 'Quote Approved',
-            message: `Quote for ${quote.service.name} has been approved`,
+            body: `Quote for ${quote.job.title} has been approved`,
             data: {
               quoteId: quote.id,
               notes: input.notes,
-            }
-          }
-        });
+            },
+          });
+        }
 
-        console.log('Quote approved:', input.quoteId);
+        await recordQuoteEvent(quote, 'QUOTE_APPROVED', 'Quote approved by customer', ctx.user.userId, {
+          notes: input.notes,
+        });
 
         return {
           success: true,
-          quote: updatedQuote,
+          quote,
           message: 'Quote approved successfully',
         };
       } catch (error) {
@@ -485,20 +519,17 @@ export const quoteRouter = router({
    * Accept a quote (typically after payment)
    * This creates a job from the quote
    */
-  accept: publicProcedure
+  accept: protectedProcedure
     .input(z.object({
       quoteId: z.string(),
-      userId: z.string(),
       scheduledDate: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const quote = await prisma.quote.findUnique({
           where: { id: input.quoteId },
           include: {
-            customer: true,
-            service: true,
-            vehicle: true,
+            job: { select: { organizationId: true } },
           }
         });
 
@@ -509,11 +540,13 @@ export const quoteRouter = router({
           });
         }
 
-        // Verify the user is the customer
-        if (quote.customerId !== input.userId) {
+        await assertCanApprove(quote, ctx.user.userId, 'accept');
+
+        // Accepting again would lock a second deposit and schedule
+        if (quote.status !== 'PENDING') {
           throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'Only the customer can accept this quote',
+            code: 'BAD_REQUEST',
+            message: `Cannot accept a ${quote.status.toLowerCase()} quote`,
           });
         }
 
@@ -533,12 +566,18 @@ export const quoteRouter = router({
           },
         });
 
+        // The deposit owed now is fixed at acceptance
+        const deposit = await ensureQuoteDeposit(quote);
+
+        await recordQuoteEvent(quote, 'QUOTE_ACCEPTED', 'Quote accepted by customer', ctx.user.userId, deposit);
+
         console.log('Quote accepted and ready for job creation:', input.quoteId);
 
         return {
           success: true,
           message: 'Quote accepted successfully. You can now create a job.',
           quoteId: quote.id,
+          ...deposit,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
@@ -555,13 +594,12 @@ export const quoteRouter = router({
   /**
    * Reject a quote
    */
-  reject: publicProcedure
+  reject: protectedProcedure
     .input(z.object({
       quoteId: z.string(),
-      userId: z.string(),
       reason: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const quote = await prisma.quote.findUnique({
           where: { id: input.quoteId }
@@ -575,7 +613,7 @@ export const quoteRouter = router({
         }
 
         // Verify the user is the customer
-        if (quote.customerId !== input.userId) {
+        if (quote.customerId !== ctx.user.userId) {
           throw new TRPCError({
             code: 'FORBIDDEN',
             message: 'Only the customer can reject this quote',
@@ -590,6 +628,10 @@ export const quoteRouter = router({
           },
         });
 
+        await recordQuoteEvent(quote, 'QUOTE_REJECTED', 'Quote rejected by customer', ctx.user.userId, {
+          reason: input.reason,
+        });
+
         console.log('Quote rejected:', input.quoteId, input.reason);
 
         return {
@@ -611,22 +653,14 @@ export const quoteRouter = router({
   /**
    * Update quote details
    */
-  update: publicProcedure
+  update: mechanicProcedure
     .input(z.object({
       quoteId: z.string(),
-      laborCost: z.number().optional(),
-      partsCost: z.number().optional(),
-      travelFee: z.number().optional(),
-      estimatedDuration: z.number().optional(),
+      lineItems: z.array(lineItemInputSchema).min(1).optional(),
+      description: z.string().optional(),
       validUntil: z.date().optional(),
-      notes: z.string().optional(),
-      parts: z.array(z.object({
-        name: z.string(),
-        cost: z.number(),
-        qty: z.number(),
-      })).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const quote = await prisma.quote.findUnique({
           where: { id: input.quoteId }
@@ -639,6 +673,8 @@ export const quoteRouter = router({
           });
         }
 
+        await loadJobForQuoteMechanic(ctx.user, quote.jobId);
+
         // Can only update PENDING quotes
         if (quote.status !== 'PENDING') {
           throw new TRPCError({
@@ -647,29 +683,42 @@ export const quoteRouter = router({
           });
         }
 
-        // Calculate new totals
-        const laborCost = input.laborCost ?? quote.laborCost ?? 0;
-        const partsCost = input.partsCost ?? quote.partsCost ?? 0;
-        const travelFee = input.travelFee ?? quote.travelFee;
-        const subtotal = laborCost + partsCost + travelFee;
-        const taxes = subtotal * 0.08; // 8% tax rate
-        const total = subtotal + taxes;
+        // New line items replace the old ones and the totals are recomputed
+        const tax = input.lineItems ? await quoteTax(quote) : null;
+        const priced = input.lineItems && tax
+          ? priceQuoteLineItems(input.lineItems, tax.rates)
+          : null;
 
         const updatedQuote = await prisma.quote.update({
           where: { id: input.quoteId },
           data: {
-            laborCost,
-            partsCost,
-            travelFee,
-            subtotal,
-            taxes,
-            total,
-            totalCost: total,
-            estimatedDuration: input.estimatedDuration,
+            ...(priced
+              ? {
+                  ...priced.totals,
+                  amount: priced.totals.total,
+                  totalCost: priced.totals.total,
+                  taxRuleId: tax?.ruleId ?? null,
+                  taxExempt: tax?.exempt ?? false,
+                  lineItems: {
+                    deleteMany: {},
+                    create: lineItemRows(priced.lineItems),
+                  },
+                }
+              : {}),
+            description: input.description,
             validUntil: input.validUntil,
-            notes: input.notes,
-            parts: input.parts,
           },
+          include: {
+            lineItems: {
+              orderBy: { position: 'asc' },
+            },
+          },
+        });
+
+        const total: number = updatedQuote.total;
+        await recordQuoteEvent(quote, 'QUOTE_UPDATED', `Quote updated: $${total.toFixed(2)}`, ctx.user.userId, {
+          previousTotal: quote.total,
+          total,
         });
 
         console.log('Quote updated:', input.quoteId);
@@ -689,7 +738,453 @@ export const quoteRouter = router({
         });
       }
     }),
+
+  /**
+   * Propose a change order on an accepted quote
+   * The new version only takes effect once the customer signs off on it
+   */
+  proposeRevision: mechanicProcedure
+    .input(z.object({
+      quoteId: z.string(),
+      lineItems: z.array(lineItemInputSchema).min(1),
+      reason: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const quote = await prisma.quote.findUnique({
+          where: { id: input.quoteId },
+          include: {
+            lineItems: {
+              orderBy: { position: 'asc' },
+            },
+          },
+        });
+
+        if (!quote) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
+          });
+        }
+
+        if (quote.status === 'PENDING') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Pending quotes can be updated directly',
+          });
+        }
+
+        if (quote.status !== 'ACCEPTED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Cannot revise a ${quote.status.toLowerCase()} quote`,
+          });
+        }
+
+        const job = await prisma.job.findUnique({
+          where: { id: quote.jobId },
+          select: { id: true, customerId: true, mechanicId: true, location: true },
+        });
+
+        if (!job) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Job not found',
+          });
+        }
+
+        // Only the job's own mechanic changes the work once it is accepted
+        assertJobMechanic(ctx.user, job);
+
+        const tax = await resolveQuoteTax({ customerId: quote.customerId, location: job.location });
+        const { lineItems, totals } = priceQuoteLineItems(input.lineItems, tax.rates);
+        const { added, removed } = diffLineItems(lineItemsFromRows(quote.lineItems), lineItems);
+
+        if (added.length === 0 && removed.length === 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Change order does not change any line items',
+          });
+        }
+
+        const latest = await prisma.quoteRevision.findFirst({
+          where: { quoteId: input.quoteId },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        });
+        const version = Math.max(latest?.version ?? 0, quote.version ?? 1) + 1;
+
+        // Only the newest proposal can be signed
+        await prisma.quoteRevision.updateMany({
+          where: { quoteId: input.quoteId, status: 'PENDING' },
+          data: { status: 'SUPERSEDED' },
+        });
+
+        const revision = await prisma.quoteRevision.create({
+          data: {
+            quoteId: input.quoteId,
+            version,
+            reason: input.reason,
+            lineItems: toJson(lineItems),
+            addedItems: toJson(added),
+            removedItems: toJson(removed),
+            totals: toJson(totals),
+            total: totals.total,
+            previousTotal: quote.total,
+            requestedById: ctx.user.userId,
+          },
+        });
+
+        const difference = totals.total - quote.total;
+        await sendNotification({
+          userId: quote.customerId,
+          quoteId: quote.id,
+          jobId: job.id,
+          type: 'QUOTE_RECEIVED',
+          title: 'Change Order Needs Approval',
+          body: `Your mechanic proposed changes (${difference >= 0 ? '+' : '-'}$${Math.abs(difference).toFixed(2)}). Review and sign to approve.`,
+          data: { quoteId: quote.id, revisionId: revision.id, version },
+        });
+
+        await recordQuoteEvent(quote, 'CHANGE_ORDER_PROPOSED', `Change order v${version} proposed: $${totals.total.toFixed(2)}`, ctx.user.userId, {
+          revisionId: revision.id,
+          version,
+          previousTotal: quote.total,
+          total: totals.total,
+        });
+
+        return {
+          success: true,
+          revision,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error proposing quote revision:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to propose change order',
+        });
+      }
+    }),
+
+  /**
+   * List change orders for a quote, newest first
+   */
+  listRevisions: protectedProcedure
+    .input(z.object({
+      quoteId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const quote = await prisma.quote.findUnique({
+          where: { id: input.quoteId },
+          select: { id: true, customerId: true, version: true, total: true },
+        });
+
+        if (!quote) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Quote not found',
+          });
+        }
+
+        if (ctx.user.role === 'CUSTOMER') {
+          assertCustomerOwnership(ctx.user, quote, 'quote');
+        }
+
+        const revisions = await prisma.quoteRevision.findMany({
+          where: { quoteId: input.quoteId },
+          include: {
+            requestedBy: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+              }
+            },
+          },
+          orderBy: { version: 'desc' },
+        });
+
+        return {
+          currentVersion: quote.version ?? 1,
+          currentTotal: quote.total,
+          revisions: revisions.map((revision) => ({
+            ...revision,
+            lineItems: fromJson<QuoteLineItem[]>(revision.lineItems),
+            addedItems: fromJson<QuoteLineItem[]>(revision.addedItems),
+            removedItems: fromJson<QuoteLineItem[]>(revision.removedItems),
+            totals: fromJson<QuoteTotals>(revision.totals),
+          })),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error fetching quote revisions:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch change orders',
+        });
+      }
+    }),
+
+  /**
+   * Approve or reject a change order with the customer's signature
+   * Approving makes it the quote's current version and recomputes the job's payable totals
+   */
+  respondToRevision: protectedProcedure
+    .input(z.object({
+      revisionId: z.string(),
+      decision: z.enum(['APPROVE', 'REJECT']),
+      signatureData: z.string().min(1),
+      signerName: z.string().optional(),
+      reason: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const revision = await prisma.quoteRevision.findUnique({
+          where: { id: input.revisionId },
+          include: {
+            quote: {
+              select: { id: true, customerId: true, jobId: true },
+            },
+          },
+        });
+
+        if (!revision) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Change order not found',
+          });
+        }
+
+        assertCustomerOwnership(ctx.user, revision.quote, 'quote');
+
+        if (revision.status !== 'PENDING') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Change order is already ${revision.status.toLowerCase()}`,
+          });
+        }
+
+        const approved = input.decision === 'APPROVE';
+
+        // The signature and the new quote version land together or not at all
+        await prisma.$transaction(async (tx) => {
+          // Guard against a newer proposal or a second response landing first
+          const { count } = await tx.quoteRevision.updateMany({
+            where: { id: input.revisionId, status: 'PENDING' },
+            data: {
+              status: approved ? 'APPROVED' : 'REJECTED',
+              respondedAt: new Date(),
+              respondedById: ctx.user.userId,
+              signatureData: input.signatureData,
+              signerName: input.signerName,
+              rejectionReason: approved ? null : input.reason,
+            },
+          });
+
+          if (count === 0) {
+            throw new TRPCError({
+              code: 'CONFLICT',
+              message: 'Change order was updated by someone else; refresh and try again',
+            });
+          }
+
+          if (approved) {
+            const totals = fromJson<QuoteTotals>(revision.totals);
+
+            await tx.quote.update({
+              where: { id: revision.quoteId },
+              data: {
+                ...totals,
+                amount: totals.total,
+                totalCost: totals.total,
+                version: revision.version,
+                lineItems: {
+                  deleteMany: {},
+                  create: lineItemRows(fromJson<QuoteLineItem[]>(revision.lineItems)),
+                },
+              },
+            });
+          }
+        });
+
+        const job = await prisma.job.findUnique({
+          where: { id: revision.quote.jobId },
+          select: { id: true, mechanicId: true },
+        });
+
+        const eventType = approved ? 'CHANGE_ORDER_APPROVED' : 'CHANGE_ORDER_REJECTED';
+        await recordQuoteEvent(
+          revision.quote,
+          eventType,
+          `Change order v${revision.version} ${approved ? 'approved' : 'rejected'} by customer`,
+          ctx.user.userId,
+          {
+            revisionId: revision.id,
+            version: revision.version,
+            signerName: input.signerName,
+            reason: input.reason,
+          },
+          'SIGNATURE'
+        );
+
+        if (job?.mechanicId) {
+          await sendNotification({
+            userId: job.mechanicId,
+            jobId: job.id,
+            quoteId: revision.quoteId,
+            type: approved ? 'QUOTE_ACCEPTED' : 'JOB_UPDATE',
+            title: approved ? 'Change Order Approved' : 'Change Order Rejected',
+            body: approved
+              ? `The customer approved change order v${revision.version}`
+              : `The customer rejected change order v${revision.version}${input.reason ? `: ${input.reason}` : ''}`,
+            data: { quoteId: revision.quoteId, revisionId: revision.id, decision: input.decision },
+          });
+        }
+
+        return {
+          success: true,
+          status: approved ? 'APPROVED' : 'REJECTED',
+          total: approved ? revision.total : revision.previousTotal,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error('Error responding to quote revision:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to respond to change order',
+        });
+      }
+    }),
 });
 
 // Export with expected name for backward compatibility
 export const quoteProcedures = quoteRouter;
+
+/**
+ * Nested-create rows for priced line items, keeping their entry order
+ */
+function lineItemRows(lineItems: QuoteLineItem[]) {
+  return lineItems.map((item, position) => ({
+    type: item.type,
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    total: item.total,
+    partNumber: item.partNumber ?? null,
+    position,
+  }));
+}
+
+/**
+ * Stored line item rows in the shape the pricing helpers work with
+ */
+function lineItemsFromRows(
+  rows: { id: string; type: QuoteLineItemType; description: string; quantity: number; unitPrice: number; total: number; partNumber: string | null }[]
+): QuoteLineItem[] {
+  return rows.map(({ partNumber, ...item }) => ({ ...item, partNumber: partNumber ?? undefined }));
+}
+
+/**
+ * Change order snapshots are stored in JSON columns
+ */
+function toJson(value: QuoteLineItem[] | QuoteTotals): Prisma.InputJsonValue {
+  return value as unknown as Prisma.InputJsonValue;
+}
+
+function fromJson<T extends QuoteLineItem[] | QuoteTotals>(value: Prisma.JsonValue): T {
+  return value as unknown as T;
+}
+
+/**
+ * Customers approve their own quotes. On an organization's job any member
+ * may, up to their approval limit.
+ */
+async function assertCanApprove(
+  quote: { customerId: string; total: number; job?: { organizationId: string | null } | null },
+  userId: string,
+  action: 'approve' | 'accept'
+) {
+  const organizationId = quote.job?.organizationId;
+
+  if (!organizationId) {
+    if (quote.customerId !== userId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `Only the customer can ${action} this quote`,
+      });
+    }
+    return;
+  }
+
+  try {
+    await assertCanApproveQuote(userId, organizationId, quote.total);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load a quote's job, throwing FORBIDDEN unless the user is its assigned
+ * mechanic or an admin
+ */
+async function loadJobForQuoteMechanic(user: AuthUser, jobId: string) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { id: true, customerId: true, mechanicId: true },
+  });
+
+  if (!job) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Job not found',
+    });
+  }
+
+  assertJobMechanic(user, job);
+
+  return job;
+}
+
+/**
+ * Tax for a quote, located at its job's service address
+ */
+async function quoteTax(quote: { customerId: string; jobId: string }) {
+  const job = await prisma.job.findUnique({
+    where: { id: quote.jobId },
+    select: { location: true },
+  });
+
+  return resolveQuoteTax({ customerId: quote.customerId, location: job?.location });
+}
+
+/**
+ * Record a quote event on the timeline of the quote's job
+ */
+async function recordQuoteEvent(
+  quote: { id: string; jobId: string },
+  eventType: string,
+  description: string,
+  actorId: string,
+  metadata: Record<string, unknown> = {},
+  kind: JobTimelineKind = 'STATUS_CHANGE'
+) {
+  await recordJobEvent({
+    jobId: quote.jobId,
+    kind,
+    eventType,
+    description,
+    actorId,
+    metadata: { quoteId: quote.id, ...metadata },
+  });
+}
@@ -1,59 +1,33 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { TRPCError } from '@trpc/server';
+import { publicProcedure, protectedProcedure, mechanicProcedure, adminProcedure, router } from '../../trpc';
 import { prisma } from '../../../../lib/prisma';
-import * as jwt from 'jsonwebtoken';
-
-// Helper function to get user from request
-async function getUserFromRequest(req: Request): Promise<{ id: string; role: string } | null> {
-  try {
-    const authHeader = req.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-    
-    const token = authHeader.substring(7);
-    if (!process.env.NEXTAUTH_SECRET) {
-      throw new Error('NEXTAUTH_SECRET environment variable is not set');
-    }
-    const decoded = jwt.verify(
-      token,
-      process.env.NEXTAUTH_SECRET
-    ) as { userId: string; email: string; role: string };
-
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
-
-    if (!user || !user.isActive) {
-      return null;
-    }
-
-    return { id: user.id, role: user.role };
-  } catch (error) {
-    return null;
-  }
-}
+import { recomputeMechanicRating, visibleReviewsWhere } from '../../../services/ratings';
+import { sendNotification } from '../../../services/notifications';
+
+const REPORT_REASONS = ['INAPPROPRIATE', 'SPAM', 'FAKE', 'OFFENSIVE', 'OTHER'] as const;
 
 export const reviewsRouter = router({
   // Submit a review
-  submitReview: publicProcedure
+  submitReview: protectedProcedure
     .input(z.object({
       jobId: z.string(),
-      rating: z.number().min(1).max(5),
+      rating: z.number().int().min(1).max(5),
+      title: z.string().max(120).optional(),
       comment: z.string().optional(),
-      photos: z.array(z.string()).optional(),
-      punctualityRating: z.number().min(1).max(5).optional(),
-      qualityRating: z.number().min(1).max(5).optional(),
-      communicationRating: z.number().min(1).max(5).optional(),
-      valueRating: z.number().min(1).max(5).optional(),
+      photos: z.array(z.object({
+        url: z.string(),
+        caption: z.string().optional(),
+      })).optional(),
+      punctualityRating: z.number().int().min(1).max(5).optional(),
+      qualityRating: z.number().int().min(1).max(5).optional(),
+      communicationRating: z.number().int().min(1).max(5).optional(),
+      valueRating: z.number().int().min(1).max(5).optional(),
+      professionalismRating: z.number().int().min(1).max(5).optional(),
+      isAnonymous: z.boolean().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-
         // Get job details
         const job = await prisma.job.findUnique({
           where: { id: input.jobId },
@@ -64,54 +38,65 @@ export const reviewsRouter = router({
         });
 
         if (!job) {
-          throw new Error('Job not found');
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Job not found' });
         }
 
         // Verify job is completed
         if (job.status !== 'COMPLETED') {
-          throw new Error('Can only review completed jobs');
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Can only review completed jobs' });
         }
 
         // Determine reviewer and reviewee
         let revieweeId: string;
-        if (user.id === job.customerId) {
+        if (ctx.user.userId === job.customerId) {
           // Customer reviewing mechanic
           if (!job.mechanicId) {
-            throw new Error('No mechanic assigned to this job');
+            throw new TRPCError({ code: 'BAD_REQUEST', message: 'No mechanic assigned to this job' });
           }
           revieweeId = job.mechanicId;
-        } else if (user.id === job.mechanicId) {
+        } else if (ctx.user.userId === job.mechanicId) {
           // Mechanic reviewing customer
           revieweeId = job.customerId;
         } else {
-          throw new Error('You are not authorized to review this job');
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not authorized to review this job' });
         }
 
         // Check if review already exists
         const existingReview = await prisma.review.findFirst({
           where: {
             jobId: input.jobId,
-            reviewerId: user.id,
+            reviewerId: ctx.user.userId,
           }
         });
 
         if (existingReview) {
-          throw new Error('You have already reviewed this job');
+          throw new TRPCError({ code: 'CONFLICT', message: 'You have already reviewed this job' });
         }
 
+        const uploadedAt = new Date();
+        const photos = (input.photos || []).map((photo, index) => ({
+          id: `${input.jobId}-${ctx.user.userId}-${index}`,
+          url: photo.url,
+          caption: photo.caption,
+          uploadedAt,
+        }));
+
         // Create review
         const review = await prisma.review.create({
           data: {
             jobId: input.jobId,
-            reviewerId: user.id,
+            reviewerId: ctx.user.userId,
             revieweeId: revieweeId,
             rating: input.rating,
+            title: input.title,
             comment: input.comment,
-            photos: input.photos || [],
+            photos,
             punctualityRating: input.punctualityRating,
             qualityRating: input.qualityRating,
             communicationRating: input.communicationRating,
             valueRating: input.valueRating,
+            professionalismRating: input.professionalismRating,
+            isAnonymous: input.isAnonymous ?? false,
             isVerified: true, // Mark as verified since it's from a completed job
           },
           include: {
@@ -136,22 +121,21 @@ export const reviewsRouter = router({
 
         // Update mechanic profile rating if reviewing a mechanic
         if (revieweeId === job.mechanicId) {
-          await updateMechanicRating(revieweeId);
+          await recomputeMechanicRating(revieweeId);
         }
 
-        // Create notification for reviewee
-        await prisma.notification.create({
+        // Notify reviewee
+        await sendNotification({
+          userId: revieweeId,
+          type: 'JOB_UPDATE',
+          title: 'New Review',
+          body: `You received a ${input.rating}-star review`,
+          jobId: input.jobId,
           data: {
-            userId: revieweeId,
-            type: 'REVIEW_REQUEST',
-            title: 'New Review',
-            message: `You received a ${input.rating}-star review`,
-            data: {
-              reviewId: review.id,
-              jobId: input.jobId,
-              rating: input.rating,
-            }
-          }
+            reviewId: review.id,
+            jobId: input.jobId,
+            rating: input.rating,
+          },
         });
 
         return {
@@ -159,7 +143,9 @@ export const reviewsRouter = router({
           review: {
             id: review.id,
             rating: review.rating,
+            title: review.title,
             comment: review.comment,
+            photos: review.photos,
             createdAt: review.createdAt,
             reviewer: review.reviewer,
             reviewee: review.reviewee,
@@ -167,8 +153,9 @@ export const reviewsRouter = router({
         };
 
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error submitting review:', error);
-        throw error;
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to submit review' });
       }
     }),
 
@@ -197,10 +184,7 @@ export const reviewsRouter = router({
         }
 
         const reviews = await prisma.review.findMany({
-          where: {
-            revieweeId: input.userId,
-            isHidden: false,
-          },
+          where: visibleReviewsWhere(input.userId),
           include: {
             reviewer: {
               select: {
@@ -214,7 +198,7 @@ export const reviewsRouter = router({
               select: {
                 id: true,
                 title: true,
-                category: true,
+                services: { select: { category: true }, take: 1 },
                 createdAt: true,
               }
             }
@@ -225,24 +209,19 @@ export const reviewsRouter = router({
         });
 
         const total = await prisma.review.count({
-          where: {
-            revieweeId: input.userId,
-            isHidden: false,
-          }
+          where: visibleReviewsWhere(input.userId)
         });
 
         // Calculate average ratings
         const ratingStats = await prisma.review.aggregate({
-          where: {
-            revieweeId: input.userId,
-            isHidden: false,
-          },
+          where: visibleReviewsWhere(input.userId),
           _avg: {
             rating: true,
             punctualityRating: true,
             qualityRating: true,
             communicationRating: true,
             valueRating: true,
+            professionalismRating: true,
           },
           _count: {
             rating: true,
@@ -250,18 +229,29 @@ export const reviewsRouter = router({
         });
 
         return {
-          reviews: reviews.map(review => ({
+          reviews: reviews.map((review) => ({
             id: review.id,
             rating: review.rating,
+            title: review.title,
             comment: review.comment,
-            photos: review.photos,
+            photos: review.photos ?? [],
             createdAt: review.createdAt,
             isVerified: review.isVerified,
+            isAnonymous: review.isAnonymous,
+            helpfulCount: review.helpfulCount,
             punctualityRating: review.punctualityRating,
             qualityRating: review.qualityRating,
             communicationRating: review.communicationRating,
             valueRating: review.valueRating,
-            reviewer: review.reviewer,
+            professionalismRating: review.professionalismRating,
+            reviewer: review.isAnonymous ? null : review.reviewer,
+            response: review.response
+              ? {
+                  message: review.response,
+                  createdAt: review.respondedAt,
+                  updatedAt: review.responseUpdatedAt,
+                }
+              : null,
             job: review.job,
           })),
           total,
@@ -273,6 +263,7 @@ export const reviewsRouter = router({
             averageQuality: ratingStats._avg.qualityRating || 0,
             averageCommunication: ratingStats._avg.communicationRating || 0,
             averageValue: ratingStats._avg.valueRating || 0,
+            averageProfessionalism: ratingStats._avg.professionalismRating || 0,
           }
         };
 
@@ -296,38 +287,32 @@ export const reviewsRouter = router({
           }
         });
 
-        if (!mechanic || !mechanic.mechanicProfile) {
-          throw new Error('Mechanic not found');
+        if (!mechanic || mechanic.role !== 'MECHANIC') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Mechanic not found' });
         }
 
-        // Get rating distribution
-        const ratingDistribution = await prisma.review.groupBy({
-          by: ['rating'],
-          where: {
-            revieweeId: input.mechanicId,
-            isHidden: false,
-          },
-          _count: {
-            rating: true,
-          }
-        });
+        // Profiles are created lazily, so build one on first read
+        let profile = mechanic.mechanicProfile;
+        if (!profile) {
+          await recomputeMechanicRating(input.mechanicId);
+          profile = await prisma.mechanicProfile.findUnique({
+            where: { mechanicId: input.mechanicId },
+          });
+        }
 
-        // Convert to array with all ratings 1-5
+        // Convert stored distribution to array with all ratings 1-5
+        const storedDistribution = (profile?.ratingDistribution ?? {}) as Record<string, number>;
         const distribution = Array.from({ length: 5 }, (_, i) => {
           const rating = i + 1;
-          const found = ratingDistribution.find(r => r.rating === rating);
           return {
             rating,
-            count: found?._count.rating || 0,
+            count: storedDistribution[rating] || 0,
           };
         });
 
         // Get recent reviews
         const recentReviews = await prisma.review.findMany({
-          where: {
-            revieweeId: input.mechanicId,
-            isHidden: false,
-          },
+          where: visibleReviewsWhere(input.mechanicId),
           include: {
             reviewer: {
               select: {
@@ -338,7 +323,7 @@ export const reviewsRouter = router({
             job: {
               select: {
                 title: true,
-                category: true,
+                services: { select: { category: true }, take: 1 },
               }
             }
           },
@@ -347,48 +332,74 @@ export const reviewsRouter = router({
         });
 
         return {
-          averageRating: mechanic.mechanicProfile.averageRating || 0,
-          totalReviews: mechanic.mechanicProfile.totalReviews || 0,
+          averageRating: profile?.averageRating || 0,
+          totalReviews: profile?.totalReviews || 0,
           distribution,
-          recentReviews: recentReviews.map(review => ({
+          categoryAverages: profile?.categoryAverages ?? {},
+          badges: profile?.badges ?? [],
+          responseRate: profile?.responseRate ?? null,
+          lastUpdated: profile?.lastRatedAt ?? null,
+          recentReviews: recentReviews.map((review) => ({
             id: review.id,
             rating: review.rating,
+            title: review.title,
             comment: review.comment,
             createdAt: review.createdAt,
             reviewer: {
-              name: `${review.reviewer.firstName} ${review.reviewer.lastName.charAt(0)}.`
+              name: review.isAnonymous
+                ? 'Anonymous'
+                : `${review.reviewer.firstName} ${review.reviewer.lastName.charAt(0)}.`
             },
+            response: review.response,
             job: review.job,
           })),
         };
 
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error getting mechanic review summary:', error);
-        throw error;
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to get review summary' });
       }
     }),
 
   // Report a review
-  reportReview: publicProcedure
+  reportReview: protectedProcedure
     .input(z.object({
       reviewId: z.string(),
-      reason: z.string(),
+      reason: z.enum(REPORT_REASONS),
+      description: z.string().max(1000).optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
-        }
-
         const review = await prisma.review.findUnique({
           where: { id: input.reviewId }
         });
 
         if (!review) {
-          throw new Error('Review not found');
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Review not found' });
         }
 
+        const existingReport = await prisma.reviewReport.findFirst({
+          where: {
+            reviewId: input.reviewId,
+            reporterId: ctx.user.userId,
+            status: 'PENDING',
+          }
+        });
+
+        if (existingReport) {
+          throw new TRPCError({ code: 'CONFLICT', message: 'You have already reported this review' });
+        }
+
+        const report = await prisma.reviewReport.create({
+          data: {
+            reviewId: input.reviewId,
+            reporterId: ctx.user.userId,
+            reason: input.reason,
+            description: input.description,
+          }
+        });
+
         // Increment report count
         await prisma.review.update({
           where: { id: input.reviewId },
@@ -397,59 +408,113 @@ export const reviewsRouter = router({
           }
         });
 
-        // Create notification for admin review
-        await prisma.notification.create({
-          data: {
-            userId: 'admin', // Send to admin
-            type: 'SYSTEM_ALERT',
+        // Notify admins for moderation
+        const admins = await prisma.user.findMany({
+          where: { role: 'ADMIN' },
+          select: { id: true },
+        });
+
+        for (const admin of admins) {
+          await sendNotification({
+            userId: admin.id,
+            type: 'JOB_UPDATE',
             title: 'Review Reported',
-            message: `Review ${input.reviewId} has been reported: ${input.reason}`,
+            body: `A review has been reported: ${input.reason.toLowerCase()}`,
+            jobId: review.jobId,
             data: {
               reviewId: input.reviewId,
+              reportId: report.id,
               reportReason: input.reason,
-              reportedBy: user.id,
-            }
-          }
-        });
+              reportedBy: ctx.user.userId,
+            },
+          });
+        }
 
         return {
           success: true,
+          reportId: report.id,
           message: 'Review reported successfully'
         };
 
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error('Error reporting review:', error);
-        throw error;
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to report review' });
       }
     }),
 
-  // Get pending reviews for a user
-  getPendingReviews: publicProcedure
-    .query(async ({ ctx }) => {
+  // Mechanic: respond to (or edit the response to) a review they received
+  respondToReview: mechanicProcedure
+    .input(z.object({
+      reviewId: z.string(),
+      message: z.string().min(1).max(1000),
+    }))
+    .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user) {
-          throw new Error('Authentication required');
+        const review = await prisma.review.findUnique({
+          where: { id: input.reviewId }
+        });
+
+        if (!review) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Review not found' });
+        }
+
+        if (review.revieweeId !== ctx.user.userId) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only respond to your own reviews' });
         }
 
+        const now = new Date();
+        const updated = await prisma.review.update({
+          where: { id: input.reviewId },
+          data: review.response
+            ? { response: input.message, responseUpdatedAt: now }
+            : { response: input.message, respondedAt: now },
+        });
+
+        // Response rate and quick responder badge depend on responses
+        await recomputeMechanicRating(ctx.user.userId);
+
+        return {
+          success: true,
+          response: {
+            id: updated.id,
+            mechanicId: ctx.user.userId,
+            message: updated.response,
+            createdAt: updated.respondedAt,
+            updatedAt: updated.responseUpdatedAt,
+          }
+        };
+
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error('Error responding to review:', error);
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to respond to review' });
+      }
+    }),
+
+  // Get pending reviews for a user
+  getPendingReviews: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
         // Find completed jobs that haven't been reviewed yet
         const completedJobs = await prisma.job.findMany({
           where: {
             OR: [
-              { customerId: user.id },
-              { mechanicId: user.id }
+              { customerId: ctx.user.userId },
+              { mechanicId: ctx.user.userId }
             ],
             status: 'COMPLETED',
             // Check that user hasn't reviewed this job yet
             NOT: {
               reviews: {
                 some: {
-                  reviewerId: user.id
+                  reviewerId: ctx.user.userId
                 }
               }
             }
           },
           include: {
+            services: { select: { category: true }, take: 1 },
             customer: {
               select: {
                 id: true,
@@ -473,9 +538,9 @@ export const reviewsRouter = router({
           pendingReviews: completedJobs.map(job => ({
             jobId: job.id,
             title: job.title,
-            category: job.category,
+            category: job.services[0]?.category ?? null,
             completedAt: job.updatedAt,
-            reviewee: user.id === job.customerId ? job.mechanic : job.customer,
+            reviewee: ctx.user.userId === job.customerId ? job.mechanic : job.customer,
           }))
         };
 
@@ -486,7 +551,7 @@ export const reviewsRouter = router({
     }),
 
   // Admin: Hide/unhide review
-  moderateReview: publicProcedure
+  moderateReview: adminProcedure
     .input(z.object({
       reviewId: z.string(),
       isHidden: z.boolean(),
@@ -494,27 +559,32 @@ export const reviewsRouter = router({
     }))
     .mutation(async ({ input, ctx }) => {
       try {
-        const user = await getUserFromRequest(ctx.req);
-        if (!user || user.role !== 'ADMIN') {
-          throw new Error('Admin access required');
-        }
-
-        await prisma.review.update({
+        const now = new Date();
+        const review = await prisma.review.update({
           where: { id: input.reviewId },
           data: {
             isHidden: input.isHidden,
-            // Could add moderationNotes field to schema if needed
-          }
+            moderationStatus: input.isHidden ? 'REJECTED' : 'APPROVED',
+            moderationReason: input.moderationNotes,
+            moderatedAt: now,
+            moderatedBy: ctx.user.userId,
+          },
+          include: { reviewee: true }
         });
 
-        // Update mechanic rating if review was hidden/unhidden
-        const review = await prisma.review.findUnique({
-          where: { id: input.reviewId },
-          include: { reviewee: true }
+        // Close out open reports: hiding upholds them, unhiding dismisses them
+        await prisma.reviewReport.updateMany({
+          where: { reviewId: input.reviewId, status: 'PENDING' },
+          data: {
+            status: input.isHidden ? 'RESOLVED' : 'DISMISSED',
+            resolvedAt: now,
+            resolvedBy: ctx.user.userId,
+          }
         });
 
-        if (review && review.reviewee.role === 'MECHANIC') {
-          await updateMechanicRating(review.revieweeId);
+        // Update mechanic rating if review was hidden/unhidden
+        if (review.reviewee.role === 'MECHANIC') {
+          await recomputeMechanicRating(review.revieweeId);
         }
 
         return {
@@ -529,26 +599,3 @@ export const reviewsRouter = router({
     }),
 });
 
-// Helper function to update mechanic's average rating
-async function updateMechanicRating(mechanicId: string) {
-  const ratingStats = await prisma.review.aggregate({
-    where: {
-      revieweeId: mechanicId,
-      isHidden: false,
-    },
-    _avg: {
-      rating: true,
-    },
-    _count: {
-      rating: true,
-    }
-  });
-
-  await prisma.mechanicProfile.update({
-    where: { mechanicId: mechanicId },
-    data: {
-      averageRating: ratingStats._avg.rating || 0,
-      totalReviews: ratingStats._count.rating || 0,
-    }
-  });
-}
\ No newline at end of file
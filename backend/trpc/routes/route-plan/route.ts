@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { mechanicProcedure, router } from '../../trpc';
+import { TRPCError } from '@trpc/server';
+import { getDayPlan, planDay, RoutePlanError } from '../../../services/route-planner';
+
+/**
+ * Route planning problems reach the client as BAD_REQUEST
+ */
+function toClientError(error: unknown): unknown {
+  if (error instanceof RoutePlanError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+  }
+  return error;
+}
+
+const dayInput = z.object({
+  date: z.coerce.date().optional(), // Defaults to today
+  start: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }).optional(),
+  platform: z.enum(['ios', 'android', 'web']).default('web'),
+});
+
+/**
+ * Route Plan Router
+ * The visit order and arrival times for a mechanic's day
+ */
+export const routePlanRouter = router({
+  // The saved plan with current times and any newly assigned jobs slotted in
+  getDayPlan: mechanicProcedure
+    .input(dayInput)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await getDayPlan({ mechanicId: ctx.user.userId, ...input });
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error loading day plan:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load the day plan',
+        });
+      }
+    }),
+
+  // "Plan my day": optimize the visit order from scratch and save it
+  planDay: mechanicProcedure
+    .input(dayInput)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await planDay({ mechanicId: ctx.user.userId, ...input });
+      } catch (error) {
+        const clientError = toClientError(error);
+        if (clientError instanceof TRPCError) throw clientError;
+
+        console.error('Error planning day:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to plan the day',
+        });
+      }
+    }),
+});
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { publicProcedure, router } from '../../trpc';
+import { protectedProcedure, router } from '../../trpc';
 import {
   generateTOTPSecret,
   generateQRCodeDataURL,
@@ -21,13 +21,10 @@ export const twoFactorRouter = router({
   /**
    * Get 2FA status for current user
    */
-  getStatus: publicProcedure
-    .input(z.object({
-      userId: z.string(),
-    }))
-    .query(async ({ input }) => {
+  getStatus: protectedProcedure
+    .query(async ({ ctx }) => {
       try {
-        const status = await getTwoFactorStatus(input.userId);
+        const status = await getTwoFactorStatus(ctx.user.userId);
         return {
           success: true,
           ...status,
@@ -45,14 +42,10 @@ export const twoFactorRouter = router({
   /**
    * Generate TOTP secret for 2FA setup
    */
-  generateSecret: publicProcedure
-    .input(z.object({
-      userId: z.string(),
-      email: z.string().email(),
-    }))
-    .mutation(async ({ input }) => {
+  generateSecret: protectedProcedure
+    .mutation(async ({ ctx }) => {
       try {
-        const secretData = await generateTOTPSecret(input.userId, input.email);
+        const secretData = await generateTOTPSecret(ctx.user.userId, ctx.user.email);
         const qrCodeDataURL = await generateQRCodeDataURL(secretData.qrCodeUri);
 
         return {
@@ -73,14 +66,13 @@ export const twoFactorRouter = router({
   /**
    * Enable 2FA for user
    */
-  enable: publicProcedure
+  enable: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       secret: z.string(),
       token: z.string().length(6, '2FA code must be 6 digits'),
     }))
-    .mutation(async ({ input }) => {
-      const result = await enableTwoFactor(input.userId, input.secret, input.token);
+    .mutation(async ({ ctx, input }) => {
+      const result = await enableTwoFactor(ctx.user.userId, input.secret, input.token);
 
       if (!result.success) {
         return {
@@ -99,13 +91,12 @@ export const twoFactorRouter = router({
   /**
    * Disable 2FA for user
    */
-  disable: publicProcedure
+  disable: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       token: z.string().length(6, '2FA code must be 6 digits'),
     }))
-    .mutation(async ({ input }) => {
-      const result = await disableTwoFactor(input.userId, input.token);
+    .mutation(async ({ ctx, input }) => {
+      const result = await disableTwoFactor(ctx.user.userId, input.token);
 
       if (!result.success) {
         return {
@@ -123,13 +114,12 @@ export const twoFactorRouter = router({
   /**
    * Verify 2FA token (TOTP or backup code)
    */
-  verify: publicProcedure
+  verify: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       code: z.string().min(6, 'Code must be at least 6 characters'),
     }))
-    .mutation(async ({ input }) => {
-      const result = await verifyTwoFactorCode(input.userId, input.code);
+    .mutation(async ({ ctx, input }) => {
+      const result = await verifyTwoFactorCode(ctx.user.userId, input.code);
 
       if (!result.success) {
         return {
@@ -147,13 +137,10 @@ export const twoFactorRouter = router({
   /**
    * Get remaining backup codes count
    */
-  getBackupCodesCount: publicProcedure
-    .input(z.object({
-      userId: z.string(),
-    }))
-    .query(async ({ input }) => {
+  getBackupCodesCount: protectedProcedure
+    .query(async ({ ctx }) => {
       try {
-        const count = await getBackupCodesCount(input.userId);
+        const count = await getBackupCodesCount(ctx.user.userId);
         return {
           success: true,
           count,
@@ -171,13 +158,12 @@ export const twoFactorRouter = router({
   /**
    * Regenerate backup codes
    */
-  regenerateBackupCodes: publicProcedure
+  regenerateBackupCodes: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       token: z.string().length(6, '2FA code must be 6 digits'),
     }))
-    .mutation(async ({ input }) => {
-      const result = await regenerateBackupCodes(input.userId, input.token);
+    .mutation(async ({ ctx, input }) => {
+      const result = await regenerateBackupCodes(ctx.user.userId, input.token);
 
       if (!result.success) {
         return {
@@ -196,7 +182,7 @@ export const twoFactorRouter = router({
   /**
    * Send SMS code (placeholder for future Twilio integration)
    */
-  sendSMSCode: publicProcedure
+  sendSMSCode: protectedProcedure
     .input(z.object({
       phoneNumber: z.string(),
     }))
@@ -222,9 +208,8 @@ export const twoFactorRouter = router({
   /**
    * Verify SMS code (placeholder)
    */
-  verifySMSCode: publicProcedure
+  verifySMSCode: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       code: z.string().length(6),
     }))
     .mutation(async ({ input }) => {
@@ -1,10 +1,24 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import superjson from 'superjson';
 import type { Context } from './create-context';
 import { isAuthed } from './middleware/auth';
+import type { UserRole } from '../../types/auth';
+import { JobTransitionError } from '../services/job-state-machine';
 
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Typed details for rejected job status changes
+        jobTransition: error instanceof JobTransitionError
+          ? { reason: error.reason, from: error.from, to: error.to }
+          : null,
+      },
+    };
+  },
 });
 
 export const router = t.router;
@@ -18,4 +32,31 @@ export const publicProcedure = t.procedure;
  * Protected procedure - requires valid JWT authentication
  * Context includes user object with decoded JWT payload
  */
-export const protectedProcedure = t.procedure.use(isAuthed);
\ No newline at end of file
+export const protectedProcedure = t.procedure.use(isAuthed);
+
+/**
+ * Build a procedure that only allows the given roles.
+ * Authentication failures are UNAUTHORIZED, role mismatches are FORBIDDEN.
+ */
+function requireRoles(roles: UserRole[]) {
+  return protectedProcedure.use(({ ctx, next }) => {
+    if (!roles.includes(ctx.user.role)) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `This action requires one of the following roles: ${roles.join(', ')}`,
+      });
+    }
+
+    return next({ ctx });
+  });
+}
+
+/**
+ * Mechanic procedure - requires a MECHANIC (or ADMIN) token
+ */
+export const mechanicProcedure = requireRoles(['MECHANIC', 'ADMIN']);
+
+/**
+ * Admin procedure - requires an ADMIN token
+ */
+export const adminProcedure = requireRoles(['ADMIN']);
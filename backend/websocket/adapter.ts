@@ -0,0 +1,87 @@
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+  type ServerId,
+} from 'socket.io-adapter';
+import type { PubSub } from '../services/pubsub';
+
+/**
+ * Socket.IO Cluster Adapter
+ *
+ * Shares rooms between websocket instances over the pub/sub service, so a
+ * broadcast to `job-<id>` reaches sockets connected to any instance and
+ * fetchSockets() sees the whole cluster. Messages are JSON; binary
+ * payloads are not supported.
+ */
+
+export interface PubSubAdapterOptions extends ClusterAdapterOptions {
+  channelPrefix?: string; // Separates apps sharing one pub/sub server
+}
+
+class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private readonly unsubscribes: Promise<() => Promise<void>>[];
+
+  constructor(
+    nsp: Namespace,
+    private readonly pubsub: PubSub,
+    private readonly prefix: string,
+    options: ClusterAdapterOptions
+  ) {
+    super(nsp, options);
+
+    this.channel = `${prefix}#${nsp.name}#`;
+
+    this.unsubscribes = [
+      pubsub.subscribe(this.channel, (raw) => this.receive<ClusterMessage>(raw, (message) => this.onMessage(message))),
+      pubsub.subscribe(this.responseChannel(this.uid), (raw) => this.receive<ClusterResponse>(raw, (response) => this.onResponse(response))),
+    ];
+    this.unsubscribes.forEach((subscribed) => subscribed.catch((error) => {
+      console.error('Error subscribing websocket adapter:', error);
+    }));
+  }
+
+  private responseChannel(uid: ServerId) {
+    return `${this.channel}${uid}#`;
+  }
+
+  private receive<T>(raw: string, handle: (message: T) => unknown) {
+    try {
+      handle(JSON.parse(raw));
+    } catch (error) {
+      console.error('Error handling websocket adapter message:', error);
+    }
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.pubsub.publish(this.channel, JSON.stringify(message));
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.pubsub.publish(this.responseChannel(requesterUid), JSON.stringify(response));
+  }
+
+  close() {
+    super.close();
+    for (const subscribed of this.unsubscribes) {
+      subscribed.then((unsubscribe) => unsubscribe()).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Adapter for io.adapter(): every namespace shares rooms over `pubsub`.
+ * Socket.IO calls it with `new`, so it cannot be an arrow function.
+ */
+export function createPubSubAdapter(pubsub: PubSub, options: PubSubAdapterOptions = {}) {
+  const { channelPrefix = 'socket.io', ...clusterOptions } = options;
+
+  return function pubSubAdapter(nsp: Namespace) {
+    return new PubSubAdapter(nsp, pubsub, channelPrefix, clusterOptions);
+  };
+}
@@ -0,0 +1,102 @@
+import { Server, Socket } from 'socket.io';
+import { DispatchError, expireOffers, listOpenOffers, respondToOffer } from '../../services/dispatch';
+import { normalizeRole } from '../../trpc/middleware/auth';
+
+/**
+ * Dispatch Event Handlers
+ *
+ * Delivers job offers to mechanics as they are made and takes their
+ * answers. Each mechanic's sockets share a `mechanic-<id>` room.
+ */
+
+const SWEEP_INTERVAL_MS = 5000;
+
+const mechanicRoom = (mechanicId: string) => `mechanic-${mechanicId}`;
+
+export function registerDispatchEvents(io: Server, socket: Socket) {
+  const user = socket.data.user;
+
+  if (normalizeRole(user.role) !== 'MECHANIC') {
+    return;
+  }
+
+  socket.join(mechanicRoom(user.userId));
+
+  // Offers made while the mechanic was offline
+  listOpenOffers({ mechanicId: user.userId })
+    .then((offers) => {
+      for (const offer of offers) {
+        socket.emit('dispatch:offer', offer);
+      }
+    })
+    .catch((error) => console.error('Error loading open offers:', error));
+
+  /**
+   * Accept or decline an offer
+   */
+  socket.on('dispatch:respond', async (data: { offerId: string; accept: boolean }) => {
+    try {
+      const result = await respondToOffer({
+        offerId: data.offerId,
+        mechanicId: user.userId,
+        accept: data.accept,
+      });
+
+      io.to(mechanicRoom(user.userId)).emit('dispatch:offer-closed', {
+        offerId: data.offerId,
+        status: result.accepted ? 'ACCEPTED' : 'DECLINED',
+        jobId: result.job?.id ?? null,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (result.accepted && result.job) {
+        io.to(`job-${result.job.id}`).emit('job:mechanic-assigned', {
+          jobId: result.job.id,
+          mechanicId: user.userId,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      if (error instanceof DispatchError) {
+        socket.emit('error', { message: error.message, code: 'OFFER_CLOSED', offerId: data.offerId });
+        return;
+      }
+      console.error('Error responding to offer:', error);
+      socket.emit('error', { message: 'Failed to respond to offer', code: 'OFFER_ERROR' });
+    }
+  });
+}
+
+/**
+ * Expire unanswered offers and push new ones, including offers made by the
+ * API server, to the mechanics' rooms
+ */
+export function startDispatchSweep(io: Server) {
+  let lastSweep = new Date();
+
+  return setInterval(async () => {
+    const now = new Date();
+
+    try {
+      const expired = await expireOffers(now);
+      for (const offer of expired) {
+        io.to(mechanicRoom(offer.mechanicId)).emit('dispatch:offer-closed', {
+          offerId: offer.id,
+          status: 'EXPIRED',
+          jobId: offer.jobId,
+          timestamp: now.toISOString(),
+        });
+      }
+
+      // Every instance sees the same new offers, so each only tells its own sockets
+      const offers = await listOpenOffers({ since: lastSweep });
+      for (const offer of offers) {
+        io.local.to(mechanicRoom(offer.mechanicId)).emit('dispatch:offer', offer);
+      }
+
+      lastSweep = now;
+    } catch (error) {
+      console.error('Error in dispatch sweep:', error);
+    }
+  }, SWEEP_INTERVAL_MS);
+}
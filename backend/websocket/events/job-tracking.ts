@@ -1,16 +1,40 @@
 import { Server, Socket } from 'socket.io';
 import { prisma } from '../../../lib/prisma';
+import { JobTransitionError, TRACKABLE_STATUSES, transitionJob, type JobStatus } from '../../services/job-state-machine';
+import { LiveTrackingError, recordMechanicLocation } from '../../services/live-tracking';
+import { recordJobEvent } from '../../services/job-timeline';
+import { getRoomPresence } from '../../services/presence';
+import { normalizeRole } from '../../trpc/middleware/auth';
 
 /**
  * Job Tracking Event Handlers
  *
  * Handles real-time job updates:
  * - Job status changes
- * - Mechanic location updates
+ * - Mechanic location updates, arrival geofences and ETA
  * - ETA updates
  * - Job start/completion
+ * - Who is online in each job room
  */
 
+const JOB_ROOM_PREFIX = 'job-';
+
+/**
+ * Tell everyone in a job room who is online, across all instances
+ */
+async function broadcastPresence(io: Server, jobId: string) {
+  try {
+    const participants = await getRoomPresence(io, `${JOB_ROOM_PREFIX}${jobId}`);
+    io.to(`${JOB_ROOM_PREFIX}${jobId}`).emit('job:presence', {
+      jobId,
+      participants,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error broadcasting job presence:', error);
+  }
+}
+
 export function registerJobTrackingEvents(io: Server, socket: Socket) {
   const user = socket.data.user;
 
@@ -67,6 +91,8 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
         timestamp: new Date().toISOString(),
       });
 
+      await broadcastPresence(io, jobId);
+
     } catch (error) {
       console.error('Error joining job room:', error);
       socket.emit('error', { message: 'Failed to join job room', code: 'JOIN_ERROR' });
@@ -98,15 +124,58 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
         timestamp: new Date().toISOString(),
       });
 
+      await broadcastPresence(io, jobId);
+
     } catch (error) {
       console.error('Error leaving job room:', error);
       socket.emit('error', { message: 'Failed to leave job room', code: 'LEAVE_ERROR' });
     }
   });
 
+  /**
+   * Who is online in a job room the socket has joined
+   */
+  socket.on('job:presence', async (data: { jobId: string }) => {
+    try {
+      const roomName = `${JOB_ROOM_PREFIX}${data.jobId}`;
+
+      if (!socket.rooms.has(roomName)) {
+        socket.emit('error', { message: 'Join the job room first', code: 'NOT_IN_ROOM' });
+        return;
+      }
+
+      socket.emit('job:presence', {
+        jobId: data.jobId,
+        participants: await getRoomPresence(io, roomName),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Error fetching job presence:', error);
+      socket.emit('error', { message: 'Failed to fetch presence', code: 'PRESENCE_ERROR' });
+    }
+  });
+
+  /**
+   * Update presence in the socket's job rooms once it has gone; the rooms
+   * are only known while it is still disconnecting
+   */
+  let departingJobIds: string[] = [];
+
+  socket.on('disconnecting', () => {
+    departingJobIds = [...socket.rooms]
+      .filter((room) => room.startsWith(JOB_ROOM_PREFIX))
+      .map((room) => room.slice(JOB_ROOM_PREFIX.length));
+  });
+
+  socket.on('disconnect', () => {
+    for (const jobId of departingJobIds) {
+      broadcastPresence(io, jobId);
+    }
+  });
+
   /**
    * Update job status
-   * Only mechanics can update job status
+   * Transitions go through the job state machine, same as the tRPC router
    */
   socket.on('job:update-status', async (data: {
     jobId: string;
@@ -116,52 +185,12 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
     try {
       const { jobId, status, notes } = data;
 
-      // Verify mechanic is assigned to this job
-      const job = await prisma.job.findUnique({
-        where: { id: jobId },
-        select: {
-          id: true,
-          mechanicId: true,
-          customerId: true,
-        },
-      });
-
-      if (!job) {
-        socket.emit('error', { message: 'Job not found', code: 'JOB_NOT_FOUND' });
-        return;
-      }
-
-      if (job.mechanicId !== user.userId && user.role !== 'ADMIN') {
-        socket.emit('error', { message: 'Not authorized to update this job', code: 'UNAUTHORIZED' });
-        return;
-      }
-
-      // Update job status in database
-      const updatedJob = await prisma.job.update({
-        where: { id: jobId },
-        data: {
-          status: status as any,
-          ...(status === 'IN_PROGRESS' && !job ? { startedAt: new Date() } : {}),
-          ...(status === 'COMPLETED' && !job ? { completedAt: new Date() } : {}),
-        },
-        include: {
-          customer: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
-          mechanic: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
-        },
+      const { job: updatedJob, from } = await transitionJob({
+        jobId,
+        to: status,
+        actor: { userId: user.userId, role: normalizeRole(user.role) },
+        notes,
+        source: 'websocket',
       });
 
       // Broadcast status update to all in the room
@@ -169,6 +198,7 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
       io.to(roomName).emit('job:status-updated', {
         jobId,
         status,
+        previousStatus: from,
         notes,
         job: updatedJob,
         updatedBy: {
@@ -179,9 +209,23 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
         timestamp: new Date().toISOString(),
       });
 
+      // Location sharing ends with the job
+      if (!TRACKABLE_STATUSES.includes(status as JobStatus)) {
+        io.to(roomName).emit('job:tracking-stopped', { jobId, timestamp: new Date().toISOString() });
+      }
+
       console.log(`WebSocket: Job ${jobId} status updated to ${status} by ${user.email}`);
 
     } catch (error) {
+      if (error instanceof JobTransitionError) {
+        socket.emit('error', {
+          message: error.message,
+          code: error.reason,
+          from: error.from,
+          to: error.to,
+        });
+        return;
+      }
       console.error('Error updating job status:', error);
       socket.emit('error', { message: 'Failed to update job status', code: 'UPDATE_ERROR' });
     }
@@ -189,71 +233,69 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
 
   /**
    * Update mechanic location
-   * Only mechanics can update their location during an active job
+   * Only the assigned mechanic, during an active job. The server records
+   * the breadcrumb, recomputes the ETA and runs the arrival geofences.
    */
   socket.on('job:update-location', async (data: {
     jobId: string;
     latitude: number;
     longitude: number;
-    eta?: number; // ETA in minutes
+    accuracy?: number; // GPS accuracy in meters
   }) => {
     try {
-      const { jobId, latitude, longitude, eta } = data;
-
-      // Verify mechanic is assigned to this job
-      const job = await prisma.job.findUnique({
-        where: { id: jobId },
-        select: {
-          id: true,
-          mechanicId: true,
-          status: true,
-        },
-      });
-
-      if (!job) {
-        socket.emit('error', { message: 'Job not found', code: 'JOB_NOT_FOUND' });
-        return;
-      }
+      const { jobId, latitude, longitude, accuracy } = data;
 
-      if (job.mechanicId !== user.userId) {
-        socket.emit('error', { message: 'Not authorized to update location for this job', code: 'UNAUTHORIZED' });
-        return;
-      }
-
-      // Only update location for active jobs
-      if (job.status !== 'ACCEPTED' && job.status !== 'IN_PROGRESS') {
-        socket.emit('error', { message: 'Can only update location for active jobs', code: 'INVALID_STATUS' });
-        return;
-      }
-
-      // Update job location in database
-      const etaDate = eta ? new Date(Date.now() + eta * 60 * 1000) : null;
-
-      await prisma.job.update({
-        where: { id: jobId },
-        data: {
-          currentLatitude: latitude,
-          currentLongitude: longitude,
-          ...(etaDate && { eta: etaDate }),
-        },
+      const update = await recordMechanicLocation({
+        jobId,
+        mechanicId: user.userId,
+        location: { latitude, longitude },
+        accuracyMeters: accuracy,
       });
 
       // Broadcast location update to all in the room
       const roomName = `job-${jobId}`;
       io.to(roomName).emit('job:location-updated', {
         jobId,
-        location: {
-          latitude,
-          longitude,
-        },
-        eta: etaDate,
+        location: update.location,
+        eta: update.eta,
+        etaMinutes: update.etaMinutes,
+        distanceMeters: update.distanceMeters,
+        events: update.events,
         mechanicId: user.userId,
-        timestamp: new Date().toISOString(),
+        timestamp: update.recordedAt.toISOString(),
       });
 
-      console.log(`WebSocket: Location updated for job ${jobId} by ${user.email}`);
+      if (update.events.includes('EN_ROUTE')) {
+        io.to(roomName).emit('job:status-updated', {
+          jobId,
+          status: update.status,
+          previousStatus: 'SCHEDULED',
+          updatedBy: {
+            userId: user.userId,
+            email: user.email,
+            role: user.role,
+          },
+          timestamp: update.recordedAt.toISOString(),
+        });
+      }
+
+      for (const event of update.events.filter((event) => event !== 'EN_ROUTE')) {
+        io.to(roomName).emit('job:geofence', {
+          jobId,
+          event,
+          etaMinutes: update.etaMinutes,
+          timestamp: update.recordedAt.toISOString(),
+        });
+      }
 
     } catch (error) {
+      if (error instanceof LiveTrackingError) {
+        socket.emit('error', { message: error.message, code: error.code });
+        if (error.code === 'INVALID_STATUS') {
+          socket.emit('job:tracking-stopped', { jobId: data.jobId, timestamp: new Date().toISOString() });
+        }
+        return;
+      }
       console.error('Error updating location:', error);
       socket.emit('error', { message: 'Failed to update location', code: 'LOCATION_ERROR' });
     }
@@ -298,6 +340,15 @@ export function registerJobTrackingEvents(io: Server, socket: Socket) {
         data: { eta: etaDate },
       });
 
+      await recordJobEvent({
+        jobId,
+        kind: 'STATUS_CHANGE',
+        eventType: 'ETA_UPDATED',
+        description: `ETA updated to ${etaMinutes} minutes`,
+        actorId: user.userId,
+        metadata: { eta: etaDate.toISOString(), etaMinutes },
+      });
+
       // Broadcast ETA update to all in the room
       const roomName = `job-${jobId}`;
       io.to(roomName).emit('job:eta-updated', {
@@ -3,6 +3,10 @@ import { createServer } from 'http';
 import { verifyJWTToken } from '../middleware/auth';
 import { registerJobTrackingEvents } from './events/job-tracking';
 import { registerMessageEvents } from './events/messaging';
+import { registerDispatchEvents, startDispatchSweep } from './events/dispatch';
+import { createPubSubAdapter } from './adapter';
+import { getPubSub } from '../services/pubsub';
+import { relayRoomEvents } from '../services/realtime';
 
 /**
  * WebSocket Server for Real-Time Features
@@ -12,6 +16,13 @@ import { registerMessageEvents } from './events/messaging';
  * - Live chat messaging
  * - Location updates
  * - Job status notifications
+ * - Job offers from dispatch
+ * - Presence in job rooms
+ *
+ * Several instances can run behind a load balancer: with a Redis-protocol
+ * pub/sub configured (see services/pubsub.ts), rooms are shared through
+ * the cluster adapter. Events emitted by the API server (see
+ * services/realtime.ts) arrive over the same pub/sub.
  */
 
 const PORT = process.env.WEBSOCKET_PORT || 3001;
@@ -81,6 +92,7 @@ io.on('connection', (socket) => {
   // Register event handlers for different features
   registerJobTrackingEvents(io, socket);
   registerMessageEvents(io, socket);
+  registerDispatchEvents(io, socket);
 
   // Handle disconnection
   socket.on('disconnect', (reason) => {
@@ -97,12 +109,29 @@ io.on('connection', (socket) => {
  * Start WebSocket Server
  */
 export function startWebSocketServer() {
+  const pubsub = getPubSub();
+
+  if (pubsub.name !== 'memory') {
+    io.adapter(createPubSubAdapter(pubsub));
+  }
+
+  // Each instance delivers to its own sockets, so clients get one copy
+  relayRoomEvents(({ room, event, payload }) => {
+    io.local.to(room).emit(event, payload);
+  }, pubsub).catch((error) => {
+    console.error('Error subscribing to realtime events:', error);
+  });
+
   httpServer.listen(PORT, () => {
     console.log(`🔌 WebSocket server running on port ${PORT}`);
     console.log(`   CORS enabled for: ${CORS_ORIGIN}`);
+    console.log(`   Rooms shared via ${pubsub.name} pub/sub`);
     console.log(`   Ready for real-time connections`);
   });
 
+  // Offer timeouts run here so mechanics hear about expiries immediately
+  startDispatchSweep(io);
+
   return io;
 }
 
@@ -111,7 +140,8 @@ export function startWebSocketServer() {
  */
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing WebSocket server');
-  httpServer.close(() => {
+  httpServer.close(async () => {
+    await getPubSub().close();
     console.log('WebSocket server closed');
     process.exit(0);
   });
@@ -119,7 +149,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT signal received: closing WebSocket server');
-  httpServer.close(() => {
+  httpServer.close(async () => {
+    await getPubSub().close();
     console.log('WebSocket server closed');
     process.exit(0);
   });
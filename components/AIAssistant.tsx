@@ -6,7 +6,6 @@ import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { trpc } from '@/lib/trpc';
 import { Vehicle, DiagnosticResult, ServiceType } from '@/types/service';
 import { SERVICE_CATEGORIES } from '@/constants/services';
-import { generateSmartQuote } from '@/utils/quote-generator';
 import * as Icons from 'lucide-react-native';
 import { router } from 'expo-router';
 
@@ -22,6 +21,7 @@ export function AIAssistant({ vehicle, onDiagnosisComplete, initialSymptoms = ''
   const [diagnosis, setDiagnosis] = useState<DiagnosticResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [estimatedCost, setEstimatedCost] = useState<{ min: number; max: number } | null>(null);
+  const trpcUtils = trpc.useUtils();
 
   const diagnosisMutation = trpc.diagnosis.diagnose.useMutation({
     onSuccess: (result: any) => {
@@ -36,17 +36,19 @@ export function AIAssistant({ vehicle, onDiagnosisComplete, initialSymptoms = ''
       // Generate cost estimate based on AI diagnosis
       if (result.recommendedServiceTypes && result.recommendedServiceTypes.length > 0) {
         const serviceType = result.recommendedServiceTypes[0] as ServiceType;
-        const mockQuote = generateSmartQuote('temp-id', {
+        trpcUtils.quote.estimate.fetch({
           serviceType,
-          urgency: result.urgencyLevel as any,
+          urgency: result.urgencyLevel,
           description: symptoms.trim(),
           aiDiagnosis: result,
           vehicle,
-        });
-        
-        setEstimatedCost({
-          min: Math.round(mockQuote.totalCost * 0.8),
-          max: Math.round(mockQuote.totalCost * 1.2)
+        }).then(({ estimate }) => {
+          setEstimatedCost({
+            min: Math.round(estimate.totals.total * 0.8),
+            max: Math.round(estimate.totals.total * 1.2)
+          });
+        }).catch((error) => {
+          console.error('Failed to estimate cost:', error);
         });
       }
     },
@@ -0,0 +1,216 @@
+import React from 'react';
+import { View, Text, StyleSheet, Alert, Linking, Platform, TouchableOpacity } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+interface DayRoutePlanProps {
+  currentLocation?: { latitude: number; longitude: number } | null;
+}
+
+const platform = Platform.OS === 'ios' || Platform.OS === 'android' ? Platform.OS : 'web';
+
+const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * "Plan my day" for the mechanic map: today's jobs in an optimized order
+ * with arrival times, and one tap to navigate to each stop. Jobs assigned
+ * after planning are slotted in and flagged.
+ */
+export function DayRoutePlan({ currentLocation }: DayRoutePlanProps) {
+  const start = currentLocation
+    ? { latitude: currentLocation.latitude, longitude: currentLocation.longitude }
+    : undefined;
+
+  const { data: savedPlan, refetch } = trpc.routePlan.getDayPlan.useQuery(
+    { start, platform },
+    { refetchOnWindowFocus: false, refetchInterval: 60_000 }
+  );
+
+  const planMutation = trpc.routePlan.planDay.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      Alert.alert('Could Not Plan Route', error.message || 'Please try again.');
+    },
+  });
+
+  const plan = savedPlan ?? planMutation.data;
+
+  const navigate = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch {
+      Alert.alert('Navigation Unavailable', 'No maps app could open this location.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.Route size={20} color={Colors.mechanic} />
+        <Text style={styles.title}>My Day</Text>
+        <Button
+          title={plan ? 'Re-plan' : 'Plan my day'}
+          size="small"
+          variant={plan ? 'outline' : 'primary'}
+          onPress={() => planMutation.mutate({ start, platform })}
+          loading={planMutation.isPending}
+        />
+      </View>
+
+      {!plan && (
+        <Text style={styles.hint}>
+          Order today's jobs by drive time and arrival windows.
+        </Text>
+      )}
+
+      {plan && plan.stops.length === 0 && (
+        <Text style={styles.hint}>No jobs with a location for today.</Text>
+      )}
+
+      {plan && plan.stops.length > 0 && (
+        <>
+          <Text style={styles.summary}>
+            {plan.stops.length} stops • {plan.totalDistanceMiles} mi • {plan.totalDriveMinutes} min driving
+            {plan.finishAt ? ` • done ~${formatTime(plan.finishAt)}` : ''}
+          </Text>
+          {plan.lateStops > 0 && (
+            <Text style={styles.warning}>
+              {plan.lateStops} {plan.lateStops === 1 ? 'stop' : 'stops'} will miss the arrival window
+            </Text>
+          )}
+
+          {plan.stops.map((stop, index) => (
+            <View key={stop.jobId} style={styles.stopRow}>
+              <View style={styles.stopNumber}>
+                <Text style={styles.stopNumberText}>{index + 1}</Text>
+              </View>
+              <View style={styles.stopInfo}>
+                <View style={styles.stopHeader}>
+                  <Text style={styles.stopTitle} numberOfLines={1}>{stop.title}</Text>
+                  {stop.priority === 'URGENT' && <Icons.AlertTriangle size={14} color={Colors.error} />}
+                  {plan.addedJobIds.includes(stop.jobId) && <Text style={styles.newBadge}>NEW</Text>}
+                </View>
+                <Text style={styles.stopDetail} numberOfLines={1}>
+                  {stop.customerName} • {stop.location}
+                </Text>
+                <Text style={styles.stopDetail}>
+                  Arrive {formatTime(stop.arrivalAt)} • {stop.travelMinutes} min drive
+                  {stop.windowStart && stop.windowEnd ? ` • window ${formatTime(stop.windowStart)}–${formatTime(stop.windowEnd)}` : ''}
+                </Text>
+                {stop.waitMinutes > 0 && (
+                  <Text style={styles.stopDetail}>Wait {stop.waitMinutes} min for the window</Text>
+                )}
+                {stop.lateMinutes > 0 && (
+                  <Text style={styles.warning}>{stop.lateMinutes} min late</Text>
+                )}
+              </View>
+              <TouchableOpacity style={styles.navigateButton} onPress={() => navigate(stop.navigationUrl)}>
+                <Icons.Navigation size={18} color={Colors.mechanic} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {plan.unroutable.length > 0 && (
+            <Text style={styles.hint}>
+              Not routed (no location): {plan.unroutable.map((job) => job.title).join(', ')}
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  summary: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  warning: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  stopNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: Colors.mechanic,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stopNumberText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  stopInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  stopHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stopTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+    flexShrink: 1,
+  },
+  newBadge: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: Colors.white,
+    backgroundColor: Colors.error,
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    overflow: 'hidden',
+  },
+  stopDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  navigateButton: {
+    padding: 8,
+    backgroundColor: Colors.mechanic + '20',
+    borderRadius: 8,
+  },
+});
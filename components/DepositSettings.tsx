@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+
+type ServiceCategory = 'DIAGNOSTIC' | 'MAINTENANCE' | 'REPAIR' | 'INSPECTION' | 'EMERGENCY';
+
+const CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  DIAGNOSTIC: 'Diagnostic',
+  MAINTENANCE: 'Maintenance',
+  REPAIR: 'Repair',
+  INSPECTION: 'Inspection',
+  EMERGENCY: 'Emergency',
+};
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as ServiceCategory[];
+
+export function DepositSettings() {
+  const [values, setValues] = useState<Partial<Record<ServiceCategory, string>>>({});
+
+  const { data, isLoading, refetch } = trpc.admin.getDepositPercents.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    const next: Partial<Record<ServiceCategory, string>> = {};
+    for (const category of CATEGORIES) {
+      next[category] = String(data.percents[category]);
+    }
+    setValues(next);
+  }, [data]);
+
+  const updateMutation = trpc.admin.updateDepositPercents.useMutation({
+    onSuccess: () => {
+      refetch();
+      Alert.alert('Saved', 'Deposit percentages updated. Accepted quotes keep their deposit.');
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to save deposit percentages. Please try again.');
+    },
+  });
+
+  const handleSave = () => {
+    const percents: Partial<Record<ServiceCategory, number>> = {};
+
+    for (const category of CATEGORIES) {
+      const value = Number(values[category] || 0);
+      if (!Number.isFinite(value) || value < 0 || value > 100) {
+        Alert.alert('Invalid Percentage', `${CATEGORY_LABELS[category]} must be between 0 and 100.`);
+        return;
+      }
+      percents[category] = value;
+    }
+
+    updateMutation.mutate({ percents });
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />;
+  }
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        Charged when the customer accepts a quote; the balance is collected when the job is
+        completed. Use 0% to take the full payment at completion.
+      </Text>
+
+      {CATEGORIES.map((category) => (
+        <View key={category} style={styles.row}>
+          <Text style={styles.label}>{CATEGORY_LABELS[category]}</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType="decimal-pad"
+            value={values[category] ?? ''}
+            onChangeText={(value) => setValues({ ...values, [category]: value })}
+          />
+          <Text style={styles.suffix}>%</Text>
+        </View>
+      ))}
+
+      <Button
+        title="Save Deposits"
+        onPress={handleSave}
+        loading={updateMutation.isPending}
+        style={styles.saveButton}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  input: {
+    width: 72,
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'right',
+  },
+  suffix: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  saveButton: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import { wsClient } from '@/lib/websocket';
+import * as Icons from 'lucide-react-native';
+
+const secondsLeft = (expiresAt: string | Date, now: number) =>
+  Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 1000));
+
+/**
+ * Job offers from dispatch on the mechanic dashboard. New offers and
+ * expiries arrive over the websocket; each offer counts down to its timeout.
+ */
+export function DispatchOffers() {
+  const [now, setNow] = useState(Date.now());
+
+  const { data: offers, refetch } = trpc.dispatch.getMyOffers.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const respondMutation = trpc.dispatch.respondToOffer.useMutation({
+    onSuccess: (result) => {
+      refetch();
+      if (result.accepted) {
+        Alert.alert('Job Accepted', 'The job has been added to your jobs.');
+      }
+    },
+    onError: (error) => {
+      refetch();
+      Alert.alert('Offer Closed', error.message || 'This offer is no longer available.');
+    },
+  });
+
+  useEffect(() => {
+    const handleChange = () => refetch();
+
+    wsClient.onDispatchOffer(handleChange);
+    wsClient.onDispatchOfferClosed(handleChange);
+
+    return () => {
+      wsClient.off('dispatch:offer', handleChange);
+      wsClient.off('dispatch:offer-closed', handleChange);
+    };
+  }, [refetch]);
+
+  const openOffers = (offers ?? []).filter((offer) => secondsLeft(offer.expiresAt, now) > 0);
+
+  useEffect(() => {
+    if (openOffers.length === 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [openOffers.length]);
+
+  if (openOffers.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.BellRing size={20} color={Colors.primary} />
+        <Text style={styles.title}>Job Offers</Text>
+      </View>
+
+      {openOffers.map((offer) => (
+        <View key={offer.id} style={styles.offerRow}>
+          <View style={styles.offerHeader}>
+            <Text style={styles.offerTitle} numberOfLines={1}>{offer.job.title}</Text>
+            <Text style={styles.countdown}>{secondsLeft(offer.expiresAt, now)}s</Text>
+          </View>
+          <Text style={styles.offerDetail}>
+            {offer.distanceMiles !== null ? `${offer.distanceMiles} mi away` : 'Distance unknown'}
+            {offer.job.scheduledAt ? ` • ${new Date(offer.job.scheduledAt).toLocaleString()}` : ' • As soon as possible'}
+          </Text>
+          <View style={styles.actions}>
+            <Button
+              title="Decline"
+              variant="outline"
+              size="small"
+              onPress={() => respondMutation.mutate({ offerId: offer.id, accept: false })}
+              disabled={respondMutation.isPending}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Accept"
+              size="small"
+              onPress={() => respondMutation.mutate({ offerId: offer.id, accept: true })}
+              loading={respondMutation.isPending}
+              style={styles.actionButton}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  offerRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 2,
+  },
+  offerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  offerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  countdown: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  offerDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
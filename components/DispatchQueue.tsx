@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+const OFFER_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'open',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  EXPIRED: 'no answer',
+  CANCELLED: 'cancelled',
+};
+
+const fullName = (person?: { firstName?: string | null; lastName?: string | null } | null) =>
+  person ? `${person.firstName ?? ''} ${person.lastName ?? ''}`.trim() : 'Unknown';
+
+/**
+ * Jobs automatic dispatch could not place. Admins see the ranked
+ * candidates and assign one by hand, or start another round of offers.
+ */
+export function DispatchQueue() {
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  const { data: jobs, isLoading, refetch } = trpc.dispatch.listEscalated.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: ranking, isLoading: rankingLoading, error: rankingError } = trpc.dispatch.getCandidates.useQuery(
+    { jobId: selectedJobId ?? '' },
+    { enabled: !!selectedJobId, refetchOnWindowFocus: false },
+  );
+
+  const onDone = () => {
+    setSelectedJobId(null);
+    refetch();
+  };
+
+  const assignMutation = trpc.job.assignMechanic.useMutation({
+    onSuccess: onDone,
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to assign the mechanic. Please try again.');
+    },
+  });
+
+  const restartMutation = trpc.dispatch.restart.useMutation({
+    onSuccess: (result) => {
+      onDone();
+      if (!result.offered) {
+        Alert.alert('No Mechanics Available', 'Nobody eligible could be offered the job; it is back in the queue.');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to restart dispatch. Please try again.');
+    },
+  });
+
+  const handleAssign = (jobId: string, mechanicId: string, name: string) => {
+    Alert.alert('Assign Mechanic', `Assign this job to ${name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Assign', onPress: () => assignMutation.mutate({ jobId, mechanicId }) },
+    ]);
+  };
+
+  const queue = jobs ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.Navigation size={20} color={Colors.primary} />
+        <Text style={styles.title}>Dispatch Queue</Text>
+        {queue.length > 0 && (
+          <View style={styles.countBadge}>
+            <Text style={styles.countText}>{queue.length}</Text>
+          </View>
+        )}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : queue.length === 0 ? (
+        <Text style={styles.empty}>Every job has a mechanic</Text>
+      ) : (
+        queue.map((job) => {
+          const isSelected = selectedJobId === job.id;
+
+          return (
+            <View key={job.id} style={styles.jobRow}>
+              <TouchableOpacity style={styles.jobHeader} onPress={() => setSelectedJobId(isSelected ? null : job.id)}>
+                <View style={styles.jobDetails}>
+                  <Text style={styles.jobTitle}>{job.title}</Text>
+                  <Text style={styles.detail}>
+                    {fullName(job.customer)} • {job.scheduledAt ? new Date(job.scheduledAt).toLocaleString() : 'ASAP'}
+                  </Text>
+                  {job.dispatchOffers.length > 0 && (
+                    <Text style={styles.detail}>
+                      Offered to {job.dispatchOffers
+                        .map((offer) => `${fullName(offer.mechanic)} (${OFFER_STATUS_LABELS[offer.status] ?? offer.status})`)
+                        .join(', ')}
+                    </Text>
+                  )}
+                </View>
+                {isSelected
+                  ? <Icons.ChevronUp size={18} color={Colors.textSecondary} />
+                  : <Icons.ChevronDown size={18} color={Colors.textSecondary} />}
+              </TouchableOpacity>
+
+              {isSelected && (
+                rankingLoading ? (
+                  <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+                ) : (
+                  <View style={styles.candidates}>
+                    {rankingError && <Text style={styles.excluded}>{rankingError.message}</Text>}
+                    {ranking?.candidates.length === 0 && (
+                      <Text style={styles.empty}>No eligible mechanics</Text>
+                    )}
+                    {ranking?.candidates.map((candidate) => (
+                      <View key={candidate.mechanicId} style={styles.candidateRow}>
+                        <View style={styles.jobDetails}>
+                          <Text style={styles.candidateName}>{candidate.name}</Text>
+                          <Text style={styles.detail}>
+                            Score {candidate.score} • {candidate.distanceMiles} mi • {candidate.rating !== null ? `${candidate.rating.toFixed(1)}★` : 'No reviews'} • {candidate.activeJobs} active
+                          </Text>
+                        </View>
+                        <Button
+                          title="Assign"
+                          variant="outline"
+                          size="small"
+                          onPress={() => handleAssign(job.id, candidate.mechanicId, candidate.name)}
+                          disabled={assignMutation.isPending}
+                        />
+                      </View>
+                    ))}
+                    {ranking?.excluded.map((exclusion) => (
+                      <Text key={exclusion.mechanicId} style={styles.excluded}>
+                        {exclusion.name}: {exclusion.reason}
+                      </Text>
+                    ))}
+                    <Button
+                      title="Retry Dispatch"
+                      size="small"
+                      onPress={() => restartMutation.mutate({ jobId: job.id })}
+                      loading={restartMutation.isPending}
+                      style={styles.retryButton}
+                    />
+                  </View>
+                )
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  countBadge: {
+    backgroundColor: Colors.error,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  jobRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  jobHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  jobDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  jobTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  detail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  candidates: {
+    marginTop: 8,
+    gap: 6,
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  candidateName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  excluded: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    fontStyle: 'italic',
+  },
+  retryButton: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+type DisputeState = 'OPEN' | 'CLOSED';
+
+const STATE_TABS: { id: DisputeState; label: string }[] = [
+  { id: 'OPEN', label: 'Open' },
+  { id: 'CLOSED', label: 'Closed' },
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  warning_needs_response: 'Inquiry – respond',
+  warning_under_review: 'Inquiry under review',
+  warning_closed: 'Inquiry closed',
+  needs_response: 'Needs response',
+  under_review: 'Under review',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+const fullName = (person?: { firstName?: string | null; lastName?: string | null } | null) =>
+  person ? `${person.firstName ?? ''} ${person.lastName ?? ''}`.trim() : 'Unknown';
+
+const daysUntil = (date: string | Date) =>
+  Math.ceil((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+export function DisputeQueue() {
+  const [state, setState] = useState<DisputeState>('OPEN');
+  const [reviewing, setReviewing] = useState<{ id: string; note: string } | null>(null);
+
+  const { data, isLoading, refetch } = trpc.payments.listDisputes.useQuery({ state }, {
+    refetchOnWindowFocus: false,
+  });
+
+  const reviewMutation = trpc.payments.reviewDispute.useMutation({
+    onSuccess: () => {
+      setReviewing(null);
+      refetch();
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to save the review. Please try again.');
+    },
+  });
+
+  const handleSave = () => {
+    if (!reviewing) return;
+
+    if (!reviewing.note.trim()) {
+      Alert.alert('Note Required', 'Describe the evidence submitted or why the dispute is accepted.');
+      return;
+    }
+
+    reviewMutation.mutate({ disputeId: reviewing.id, note: reviewing.note.trim() });
+  };
+
+  const disputes = data?.disputes ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.ShieldAlert size={20} color={Colors.error} />
+        <Text style={styles.title}>Disputes</Text>
+        {state === 'OPEN' && (data?.total ?? 0) > 0 && (
+          <View style={styles.countBadge}>
+            <Text style={styles.countText}>{data?.total}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {STATE_TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.id}
+            style={[styles.tab, state === tab.id && styles.tabActive]}
+            onPress={() => setState(tab.id)}
+          >
+            <Text style={[styles.tabText, state === tab.id && styles.tabTextActive]}>{tab.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : disputes.length === 0 ? (
+        <Text style={styles.empty}>{state === 'OPEN' ? 'No open disputes' : 'Nothing here yet'}</Text>
+      ) : (
+        disputes.map((dispute) => {
+          const daysLeft = dispute.evidenceDueBy ? daysUntil(dispute.evidenceDueBy) : null;
+
+          return (
+            <View key={dispute.id} style={styles.disputeRow}>
+              <View style={styles.disputeHeader}>
+                <Text style={styles.disputeAmount}>${dispute.amount.toFixed(2)}</Text>
+                <Text style={styles.disputeStatus}>{STATUS_LABELS[dispute.status] ?? dispute.status}</Text>
+              </View>
+              <Text style={styles.disputeDetail}>
+                {dispute.payment?.job?.title ?? 'Job'} • {fullName(dispute.payment?.customer)}
+              </Text>
+              <Text style={styles.disputeDetail}>
+                Reason: {dispute.reason.replace(/_/g, ' ')} • Opened {new Date(dispute.createdAt).toLocaleDateString()}
+              </Text>
+              {state === 'OPEN' && daysLeft !== null && (
+                <Text style={[styles.disputeDetail, daysLeft <= 3 && styles.dueSoon]}>
+                  {daysLeft > 0 ? `Evidence due in ${daysLeft} day${daysLeft === 1 ? '' : 's'}` : 'Evidence deadline passed'}
+                </Text>
+              )}
+              {dispute.adminNote && (
+                <Text style={styles.disputeNote}>
+                  {dispute.adminNote} — {fullName(dispute.reviewedBy)}
+                </Text>
+              )}
+
+              {state === 'OPEN' && (
+                reviewing?.id === dispute.id ? (
+                  <View style={styles.reviewForm}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Evidence submitted, or why the dispute is accepted"
+                      placeholderTextColor={Colors.textMuted}
+                      value={reviewing?.note ?? ''}
+                      onChangeText={(note) => setReviewing({ id: dispute.id, note })}
+                      multiline
+                    />
+                    <View style={styles.actions}>
+                      <Button title="Cancel" variant="outline" size="small" onPress={() => setReviewing(null)} style={styles.actionButton} />
+                      <Button
+                        title="Save"
+                        size="small"
+                        onPress={handleSave}
+                        loading={reviewMutation.isPending}
+                        style={styles.actionButton}
+                      />
+                    </View>
+                  </View>
+                ) : (
+                  <View style={styles.actions}>
+                    <Button
+                      title={dispute.reviewedAt ? 'Update Review' : 'Mark Reviewed'}
+                      variant="outline"
+                      size="small"
+                      onPress={() => setReviewing({ id: dispute.id, note: dispute.adminNote ?? '' })}
+                      style={styles.actionButton}
+                    />
+                  </View>
+                )
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  countBadge: {
+    backgroundColor: Colors.error,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tab: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  tabActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  tabText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  tabTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  disputeRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 2,
+  },
+  disputeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  disputeAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  disputeStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  disputeDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  dueSoon: {
+    color: Colors.error,
+    fontWeight: '600',
+  },
+  disputeNote: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    fontStyle: 'italic',
+  },
+  reviewForm: {
+    marginTop: 8,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+    minHeight: 60,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
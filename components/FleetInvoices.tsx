@@ -0,0 +1,163 @@
+import React from 'react';
+import { View, Text, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString();
+
+/**
+ * Last calendar month as 'YYYY-MM' (UTC, matching the server's periods)
+ */
+function lastMonthPeriod(): string {
+  const now = new Date();
+  const lastMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${lastMonth.getUTCFullYear()}-${String(lastMonth.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function FleetInvoices() {
+  const { data: invoices, isLoading, refetch } = trpc.organizations.listOpenInvoices.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const issueMutation = trpc.organizations.issueInvoices.useMutation({
+    onSuccess: (result) => {
+      refetch();
+      const skipped = result.skipped.length > 0
+        ? `\n${result.skipped.length} skipped: ${result.skipped.map((s) => s.reason).join('; ')}`
+        : '';
+      Alert.alert('Invoices Issued', `${result.issued.length} organization invoice(s) issued${skipped}`);
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to issue invoices. Please try again.');
+    },
+  });
+
+  const paidMutation = trpc.organizations.markInvoicePaid.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to mark the invoice paid. Please try again.');
+    },
+  });
+
+  const handleIssue = () => {
+    const period = lastMonthPeriod();
+    Alert.alert('Issue Invoices', `Invoice every organization for ${period}? Owners will be notified.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Issue', onPress: () => issueMutation.mutate({ period }) },
+    ]);
+  };
+
+  const handleMarkPaid = (invoiceId: string, invoiceNumber: string) => {
+    Alert.alert('Mark Invoice Paid', `Confirm payment was received for ${invoiceNumber}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Mark Paid', onPress: () => paidMutation.mutate({ invoiceId }) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.Building2 size={20} color={Colors.primary} />
+        <Text style={styles.title}>Fleet Invoices</Text>
+      </View>
+
+      <Button
+        title="Issue Last Month's Invoices"
+        size="small"
+        onPress={handleIssue}
+        loading={issueMutation.isPending}
+      />
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : !invoices || invoices.length === 0 ? (
+        <Text style={styles.empty}>No open invoices</Text>
+      ) : (
+        invoices.map((invoice) => {
+          const overdue = new Date(invoice.dueAt) < new Date();
+          return (
+            <View key={invoice.id} style={styles.invoiceRow}>
+              <View style={styles.invoiceHeader}>
+                <Text style={styles.invoiceTotal}>${invoice.total.toFixed(2)}</Text>
+                <Text style={[styles.invoiceDue, { color: overdue ? Colors.error : Colors.textSecondary }]}>
+                  {overdue ? 'Overdue' : 'Due'} {formatDate(invoice.dueAt)}
+                </Text>
+              </View>
+              <Text style={styles.invoiceDetail}>
+                {invoice.organization.name} • {invoice.invoiceNumber}
+              </Text>
+              <Button
+                title="Mark Paid"
+                variant="outline"
+                size="small"
+                onPress={() => handleMarkPaid(invoice.id, invoice.invoiceNumber)}
+                loading={paidMutation.isPending}
+                style={styles.actionButton}
+              />
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  invoiceRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 2,
+  },
+  invoiceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  invoiceTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  invoiceDue: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  invoiceDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  actionButton: {
+    marginTop: 8,
+  },
+});
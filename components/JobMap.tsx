@@ -1,14 +1,16 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, StyleSheet, TouchableOpacity, Text, ActivityIndicator } from 'react-native';
 import MapView, { Marker, PROVIDER_GOOGLE, Region, Polyline } from 'react-native-maps';
 import { useJobTracking } from '@/hooks/useJobTracking';
+import { trpc } from '@/lib/trpc';
 import { getRegionForCoordinates, openNavigation, formatETA, isValidCoordinates } from '@/utils/map-utils';
 
 /**
  * JobMap Component
  *
  * Displays a map with job location and real-time mechanic tracking
- * Shows customer location, mechanic location, and ETA information
+ * Shows customer location, mechanic location, the trail the mechanic has
+ * driven so far, and ETA information
  */
 
 interface JobMapProps {
@@ -33,8 +35,31 @@ export function JobMap({
     isConnected,
     currentLocation: mechanicLocation,
     lastStatusUpdate,
+    trail: liveTrail,
+    arrivalStage,
+    trackingStopped,
+    participants,
   } = useJobTracking(jobId);
 
+  const mechanicOnline = participants.some((participant) => participant.role === 'MECHANIC');
+
+  // Breadcrumbs recorded before this screen opened, then live ones
+  const { data: jobLocation } = trpc.location.getJobLocation.useQuery(
+    { jobId },
+    { refetchOnWindowFocus: false }
+  );
+
+  const trail = useMemo(() => {
+    if (trackingStopped) return [];
+    const saved = jobLocation?.success && jobLocation.job ? jobLocation.job.trail : [];
+    return [
+      ...saved.map((point) => ({ latitude: point.latitude, longitude: point.longitude })),
+      ...liveTrail,
+    ];
+  }, [jobLocation, liveTrail, trackingStopped]);
+
+  const arrived = arrivalStage === 'ARRIVED' || !!(jobLocation?.success && jobLocation.job?.arrivedAt);
+
   // Update map region when locations change
   useEffect(() => {
     const points = [];
@@ -114,8 +139,18 @@ export function JobMap({
           />
         )}
 
+        {/* Trail driven so far */}
+        {trail.length > 1 && (
+          <Polyline
+            coordinates={trail}
+            strokeColor="#2196F3"
+            strokeWidth={4}
+          />
+        )}
+
         {/* Route Line */}
-        {mechanicLocation &&
+        {!arrived &&
+          mechanicLocation &&
           isValidCoordinates(mechanicLocation) &&
           customerLocation &&
           isValidCoordinates(customerLocation) && (
@@ -135,17 +170,29 @@ export function JobMap({
       </MapView>
 
       {/* Connection Status Badge */}
-      {!isConnected && (
+      {!isConnected ? (
         <View style={styles.statusBadge}>
           <View style={[styles.statusDot, styles.disconnected]} />
           <Text style={styles.statusText}>Reconnecting...</Text>
         </View>
+      ) : mechanicOnline && (
+        <View style={styles.statusBadge}>
+          <View style={[styles.statusDot, styles.connected]} />
+          <Text style={styles.statusText}>Mechanic online</Text>
+        </View>
       )}
 
       {/* ETA Card */}
-      {mechanicLocation && mechanicLocation.eta && (
+      {arrived ? (
+        <View style={styles.etaCard}>
+          <Text style={styles.etaLabel}>Your Mechanic</Text>
+          <Text style={styles.etaTime}>Has arrived</Text>
+        </View>
+      ) : mechanicLocation && mechanicLocation.eta && (
         <View style={styles.etaCard}>
-          <Text style={styles.etaLabel}>Estimated Arrival</Text>
+          <Text style={styles.etaLabel}>
+            {arrivalStage === 'ARRIVING' ? 'Arriving Soon' : 'Estimated Arrival'}
+          </Text>
           <Text style={styles.etaTime}>{formatETA(mechanicLocation.eta)}</Text>
         </View>
       )}
@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, Alert } from 'react-native';
+import { View, Text, StyleSheet, Alert, TextInput, TouchableOpacity, Switch, Image } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
 import { Button } from '@/components/Button';
-import PaymentMethodSelector from '@/components/PaymentMethodSelector';
 import { Colors } from '@/constants/colors';
-import { useAuthStore } from '@/stores/auth-store';
+import { trpc } from '@/lib/trpc';
 import * as Icons from 'lucide-react-native';
 
-type PaymentMethod = 'cash' | 'paypal' | 'chime' | 'cashapp' | 'stripe';
+type ManualPaymentSource = 'CASH' | 'CHECK' | 'TAP_TO_PAY';
+
+const SOURCES: { id: ManualPaymentSource; label: string; icon: Icons.LucideIcon }[] = [
+  { id: 'CASH', label: 'Cash', icon: Icons.DollarSign },
+  { id: 'CHECK', label: 'Check', icon: Icons.FileText },
+  { id: 'TAP_TO_PAY', label: 'Tap to Pay', icon: Icons.Smartphone },
+];
 
 interface JobPaymentLoggerProps {
   jobId: string;
@@ -15,12 +21,11 @@ interface JobPaymentLoggerProps {
 }
 
 interface PaymentLogData {
+  paymentId: string;
   jobId: string;
-  method: PaymentMethod;
+  source: ManualPaymentSource;
   amount: number;
   timestamp: Date;
-  userId: string;
-  notes?: string;
 }
 
 export default function JobPaymentLogger({ 
@@ -28,83 +33,122 @@ export default function JobPaymentLogger({
   amount, 
   onPaymentLogged 
 }: JobPaymentLoggerProps) {
-  const { user } = useAuthStore();
-  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>('cash');
-  
-  const handleMethodSelect = (method: string) => {
-    setSelectedMethod(method as PaymentMethod);
-  };
-  const [isLogging, setIsLogging] = useState(false);
-  const [isLogged, setIsLogged] = useState(false);
-
-  const logPayment = async (method: PaymentMethod) => {
-    if (!user) {
-      Alert.alert('Error', 'User not authenticated');
-      return;
-    }
+  const [source, setSource] = useState<ManualPaymentSource>('CASH');
+  const [amountText, setAmountText] = useState(amount.toFixed(2));
+  const [checkNumber, setCheckNumber] = useState('');
+  const [terminalReference, setTerminalReference] = useState('');
+  const [receiptPhoto, setReceiptPhoto] = useState<string | null>(null);
+  const [attested, setAttested] = useState(false);
+  const [logged, setLogged] = useState<PaymentLogData | null>(null);
 
-    setIsLogging(true);
+  const { data: attestationData } = trpc.payments.getManualPaymentAttestation.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
 
-    try {
+  const recordMutation = trpc.payments.recordManualPayment.useMutation({
+    onSuccess: (result) => {
       const paymentData: PaymentLogData = {
+        paymentId: result.payment.id,
         jobId,
-        method,
-        amount,
+        source,
+        amount: result.payment.amount,
         timestamp: new Date(),
-        userId: user.id,
-        notes: `Payment received via ${method}`,
       };
+      setLogged(paymentData);
+      onPaymentLogged?.(paymentData);
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to log payment. Please try again.');
+    },
+  });
 
-      // Log to console for now - in production this would save to database
-      console.log('Payment logged:', paymentData);
+  const sourceLabel = (id: ManualPaymentSource) => SOURCES.find((s) => s.id === id)?.label ?? id;
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  const takeReceiptPhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Camera permission is required to photograph the receipt.');
+      return;
+    }
 
-      setIsLogged(true);
-      onPaymentLogged?.(paymentData);
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.5,
+      base64: true,
+    });
 
-      Alert.alert(
-        'Payment Logged',
-        `${method.charAt(0).toUpperCase() + method.slice(1)} payment of $${amount.toFixed(2)} has been recorded for job ${jobId}.`,
-        [{ text: 'OK' }]
-      );
-
-    } catch (error) {
-      console.error('Error logging payment:', error);
-      Alert.alert('Error', 'Failed to log payment. Please try again.');
-    } finally {
-      setIsLogging(false);
+    const asset = result.canceled ? null : result.assets[0];
+    if (asset?.base64) {
+      setReceiptPhoto(`data:${asset.mimeType ?? 'image/jpeg'};base64,${asset.base64}`);
     }
   };
 
   const handleLogPayment = () => {
+    const value = Number(amountText);
+    if (!Number.isFinite(value) || value <= 0) {
+      Alert.alert('Invalid Amount', 'Enter the amount you received.');
+      return;
+    }
+
+    if (source === 'CHECK' && !checkNumber.trim()) {
+      Alert.alert('Check Number Required', 'Enter the number printed on the check.');
+      return;
+    }
+
+    if (source === 'CASH' && !receiptPhoto) {
+      Alert.alert('Receipt Required', 'Take a photo of the signed cash receipt.');
+      return;
+    }
+
+    if (source === 'TAP_TO_PAY' && !terminalReference.trim()) {
+      Alert.alert('Reference Required', 'Enter the transaction reference shown on your terminal.');
+      return;
+    }
+
+    if (!attested) {
+      Alert.alert('Attestation Required', 'Confirm that you received this payment.');
+      return;
+    }
+
     Alert.alert(
       'Confirm Payment',
-      `Log ${selectedMethod} payment of $${amount.toFixed(2)} for job ${jobId}?`,
+      `Log ${sourceLabel(source).toLowerCase()} payment of $${value.toFixed(2)} for this job?`,
       [
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'Log Payment', 
-          onPress: () => logPayment(selectedMethod) 
+          onPress: () => recordMutation.mutate({
+            jobId,
+            source,
+            amount: value,
+            checkNumber: source === 'CHECK' ? checkNumber.trim() : undefined,
+            receiptPhoto: source === 'CASH' ? receiptPhoto ?? undefined : undefined,
+            terminalReference: source === 'TAP_TO_PAY' ? terminalReference.trim() : undefined,
+            attested,
+          }),
         },
       ]
     );
   };
 
   const resetLogger = () => {
-    setIsLogged(false);
-    setSelectedMethod('cash');
+    setLogged(null);
+    setSource('CASH');
+    setCheckNumber('');
+    setTerminalReference('');
+    setReceiptPhoto(null);
+    setAttested(false);
   };
 
-  if (isLogged) {
+  if (logged) {
     return (
       <View style={styles.container}>
         <View style={styles.successContainer}>
           <Icons.CheckCircle size={48} color={Colors.success} />
           <Text style={styles.successTitle}>Payment Logged</Text>
           <Text style={styles.successMessage}>
-            ${amount.toFixed(2)} payment via {selectedMethod} has been recorded.
+            ${logged.amount.toFixed(2)} {sourceLabel(logged.source).toLowerCase()} payment has been recorded
+            and is awaiting reconciliation by an admin.
           </Text>
           
           <Button
@@ -122,24 +166,87 @@ export default function JobPaymentLogger({
     <View style={styles.container}>
       <View style={styles.header}>
         <Icons.DollarSign size={24} color={Colors.primary} />
-        <Text style={styles.title}>Log Job Payment</Text>
+        <Text style={styles.title}>Log Field Payment</Text>
       </View>
 
       <View style={styles.jobInfo}>
-        <Text style={styles.jobId}>Job ID: {jobId}</Text>
-        <Text style={styles.amount}>Amount: ${amount.toFixed(2)}</Text>
+        <Text style={styles.jobId}>Amount received</Text>
+        <TextInput
+          style={styles.amountInput}
+          keyboardType="decimal-pad"
+          value={amountText}
+          onChangeText={setAmountText}
+        />
+      </View>
+
+      <View style={styles.sourceList}>
+        {SOURCES.map((option) => {
+          const IconComponent = option.icon;
+          const isSelected = source === option.id;
+
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.sourceOption, isSelected && styles.sourceOptionSelected]}
+              onPress={() => setSource(option.id)}
+            >
+              <IconComponent size={18} color={isSelected ? Colors.white : Colors.textSecondary} />
+              <Text style={[styles.sourceLabel, isSelected && styles.sourceLabelSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
       </View>
 
-      <PaymentMethodSelector
-        selectedMethod={selectedMethod}
-        onSelect={handleMethodSelect}
-      />
+      {source === 'CHECK' && (
+        <TextInput
+          style={styles.input}
+          placeholder="Check number"
+          placeholderTextColor={Colors.textMuted}
+          value={checkNumber}
+          onChangeText={setCheckNumber}
+        />
+      )}
+
+      {source === 'TAP_TO_PAY' && (
+        <TextInput
+          style={styles.input}
+          placeholder="Terminal transaction reference"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="characters"
+          value={terminalReference}
+          onChangeText={setTerminalReference}
+        />
+      )}
+
+      {source === 'CASH' && (
+        <View style={styles.receipt}>
+          {receiptPhoto && <Image source={{ uri: receiptPhoto }} style={styles.receiptImage} />}
+          <Button
+            title={receiptPhoto ? 'Retake Receipt Photo' : 'Photograph Receipt'}
+            variant="outline"
+            onPress={takeReceiptPhoto}
+          />
+        </View>
+      )}
+
+      <View style={styles.attestation}>
+        <Switch
+          value={attested}
+          onValueChange={setAttested}
+          trackColor={{ false: Colors.border, true: Colors.primary }}
+        />
+        <Text style={styles.attestationText}>
+          {attestationData?.attestation ?? 'I received this payment from the customer in person.'}
+        </Text>
+      </View>
 
       <View style={styles.actions}>
         <Button
-          title={isLogging ? 'Logging Payment...' : 'Log Payment'}
+          title={recordMutation.isPending ? 'Logging Payment...' : 'Log Payment'}
           onPress={handleLogPayment}
-          disabled={isLogging}
+          disabled={recordMutation.isPending}
           style={styles.logButton}
         />
       </View>
@@ -147,8 +254,8 @@ export default function JobPaymentLogger({
       <View style={styles.note}>
         <Icons.Info size={16} color={Colors.textMuted} />
         <Text style={styles.noteText}>
-          This will record that payment has been received for this job. 
-          Make sure the payment method matches how the customer actually paid.
+          The payment counts toward the job right away. An admin reconciles it once the money
+          has been deposited.
         </Text>
       </View>
     </View>
@@ -186,10 +293,68 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginBottom: 4,
   },
-  amount: {
+  amountInput: {
     fontSize: 18,
     fontWeight: '600',
     color: Colors.primary,
+    paddingVertical: 4,
+  },
+  sourceList: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sourceOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  sourceOptionSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  sourceLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  sourceLabelSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  receipt: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  receiptImage: {
+    width: '100%',
+    height: 160,
+    borderRadius: 8,
+  },
+  attestation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  attestationText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
   },
   actions: {
     marginTop: 16,
@@ -1,23 +1,44 @@
 import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
 import { Colors } from '@/constants/colors';
-import { StatusTimestamp, ServiceStatus } from '@/types/service';
-import { Clock, FileText, CheckCircle, Calendar, Wrench, Pause, CheckCircle2, X, Circle } from 'lucide-react-native';
+import { ServiceStatus } from '@/types/service';
+import { trpc } from '@/lib/trpc';
+import {
+  Clock, FileText, CheckCircle, Calendar, Wrench, Pause, CheckCircle2, X, Circle,
+  Navigation, Timer, Package, Camera, PenTool, CreditCard, MessageSquare,
+} from 'lucide-react-native';
 
 interface JobTimelineProps {
-  timeline: StatusTimestamp[];
+  jobId: string;
   currentStatus: ServiceStatus;
   estimatedDuration?: number;
   actualDuration?: number;
 }
 
-export function JobTimeline({ timeline, currentStatus, estimatedDuration, actualDuration }: JobTimelineProps) {
+type TimelineKind = 'STATUS_CHANGE' | 'TIME_LOG' | 'PARTS_ADDED' | 'PHOTO' | 'SIGNATURE' | 'PAYMENT' | 'MESSAGE';
+
+const KNOWN_STATUSES: ServiceStatus[] = ['pending', 'quoted', 'accepted', 'scheduled', 'en_route', 'in_progress', 'paused', 'completed', 'cancelled'];
+
+export function JobTimeline({ jobId, currentStatus, estimatedDuration, actualDuration }: JobTimelineProps) {
+  // Server-side audit log is the source of truth for job history
+  const { data, isLoading, error } = trpc.job.getTimeline.useQuery(
+    { jobId },
+    { enabled: !!jobId, refetchOnWindowFocus: false }
+  );
+  const timeline = data?.events ?? [];
+
+  const toStatus = (eventType: string): ServiceStatus | null => {
+    const status = (eventType === 'CREATED' ? 'pending' : eventType.toLowerCase()) as ServiceStatus;
+    return KNOWN_STATUSES.includes(status) ? status : null;
+  };
+
   const getStatusIcon = (status: ServiceStatus) => {
     switch (status) {
       case 'pending': return Clock;
       case 'quoted': return FileText;
       case 'accepted': return CheckCircle;
       case 'scheduled': return Calendar;
+      case 'en_route': return Navigation;
       case 'in_progress': return Wrench;
       case 'paused': return Pause;
       case 'completed': return CheckCircle2;
@@ -32,6 +53,7 @@ export function JobTimeline({ timeline, currentStatus, estimatedDuration, actual
       case 'quoted': return Colors.primary;
       case 'accepted': return Colors.success;
       case 'scheduled': return Colors.secondary;
+      case 'en_route': return Colors.primary;
       case 'in_progress': return Colors.mechanic;
       case 'paused': return Colors.warning;
       case 'completed': return Colors.success;
@@ -46,6 +68,7 @@ export function JobTimeline({ timeline, currentStatus, estimatedDuration, actual
       case 'quoted': return 'Quote Provided';
       case 'accepted': return 'Job Accepted';
       case 'scheduled': return 'Job Scheduled';
+      case 'en_route': return 'Mechanic En Route';
       case 'in_progress': return 'Work Started';
       case 'paused': return 'Work Paused';
       case 'completed': return 'Job Completed';
@@ -54,6 +77,41 @@ export function JobTimeline({ timeline, currentStatus, estimatedDuration, actual
     }
   };
 
+  const getEventIcon = (kind: TimelineKind, eventType: string) => {
+    switch (kind) {
+      case 'TIME_LOG': return Timer;
+      case 'PARTS_ADDED': return Package;
+      case 'PHOTO': return Camera;
+      case 'SIGNATURE': return PenTool;
+      case 'PAYMENT': return CreditCard;
+      case 'MESSAGE': return MessageSquare;
+      default: {
+        const status = toStatus(eventType);
+        return status ? getStatusIcon(status) : Circle;
+      }
+    }
+  };
+
+  const getEventColor = (kind: TimelineKind, eventType: string) => {
+    switch (kind) {
+      case 'TIME_LOG': return Colors.mechanic;
+      case 'PARTS_ADDED': return Colors.secondary;
+      case 'PHOTO': return Colors.primary;
+      case 'SIGNATURE': return Colors.success;
+      case 'PAYMENT': return eventType === 'PAYMENT_FAILED' ? Colors.error : Colors.success;
+      case 'MESSAGE': return Colors.textSecondary;
+      default: {
+        const status = toStatus(eventType);
+        return status ? getStatusColor(status) : Colors.textMuted;
+      }
+    }
+  };
+
+  const getEventLabel = (kind: TimelineKind, eventType: string, description: string): string => {
+    const status = kind === 'STATUS_CHANGE' ? toStatus(eventType) : null;
+    return status ? getStatusLabel(status) : description;
+  };
+
   const formatDuration = (minutes: number) => {
     if (minutes < 60) {
       return `${minutes}m`;
@@ -65,15 +123,15 @@ export function JobTimeline({ timeline, currentStatus, estimatedDuration, actual
 
   const calculateDuration = () => {
     if (timeline.length < 2) return null;
-    
-    const startTime = timeline.find(t => t.status === 'in_progress')?.timestamp;
-    const endTime = timeline.find(t => t.status === 'completed')?.timestamp;
-    
+
+    const startTime = timeline.find(t => t.eventType === 'IN_PROGRESS' || t.eventType === 'TIME_LOG_START')?.createdAt;
+    const endTime = timeline.find(t => t.eventType === 'COMPLETED' || t.eventType === 'TIME_LOG_END')?.createdAt;
+
     if (!startTime) return null;
-    
-    const currentTime = endTime || new Date();
-    const duration = Math.round((currentTime.getTime() - startTime.getTime()) / (1000 * 60));
-    
+
+    const currentTime = endTime ? new Date(endTime) : new Date();
+    const duration = Math.round((currentTime.getTime() - new Date(startTime).getTime()) / (1000 * 60));
+
     return duration;
   };
 
@@ -103,7 +161,16 @@ export function JobTimeline({ timeline, currentStatus, estimatedDuration, actual
       </View>
 
       <ScrollView style={styles.timelineContainer} showsVerticalScrollIndicator={false}>
-        {timeline.length === 0 ? (
+        {isLoading ? (
+          <View style={styles.emptyTimeline}>
+            <ActivityIndicator color={Colors.primary} />
+          </View>
+        ) : error ? (
+          <View style={styles.emptyTimeline}>
+            <X size={32} color={Colors.error} />
+            <Text style={styles.emptyText}>Unable to load timeline</Text>
+          </View>
+        ) : timeline.length === 0 ? (
           <View style={styles.emptyTimeline}>
             <Clock size={32} color={Colors.textMuted} />
             <Text style={styles.emptyText}>No timeline events yet</Text>
@@ -111,55 +178,59 @@ export function JobTimeline({ timeline, currentStatus, estimatedDuration, actual
         ) : (
           <View style={styles.timeline}>
             {timeline.map((event, index) => {
-              const IconComponent = getStatusIcon(event.status);
+              const kind = event.kind as TimelineKind;
+              const IconComponent = getEventIcon(kind, event.eventType);
+              const color = getEventColor(kind, event.eventType);
               const isLast = index === timeline.length - 1;
-              const isCurrent = event.status === currentStatus;
-              
+              const isCurrent = kind === 'STATUS_CHANGE' && toStatus(event.eventType) === currentStatus;
+              const timestamp = new Date(event.createdAt);
+              const notes = event.metadata?.notes;
+
               return (
-                <View key={index} style={styles.timelineItem}>
+                <View key={event.id} style={styles.timelineItem}>
                   <View style={styles.timelineLeft}>
                     <View style={[
                       styles.timelineIcon,
-                      { backgroundColor: getStatusColor(event.status) + '20' },
+                      { backgroundColor: color + '20' },
                       isCurrent && styles.currentTimelineIcon
                     ]}>
-                      <IconComponent 
-                        size={16} 
-                        color={getStatusColor(event.status)} 
+                      <IconComponent
+                        size={16}
+                        color={color}
                       />
                     </View>
                     {!isLast && <View style={styles.timelineLine} />}
                   </View>
-                  
+
                   <View style={styles.timelineContent}>
                     <View style={styles.timelineHeader}>
                       <Text style={[
                         styles.timelineStatus,
                         isCurrent && styles.currentTimelineStatus
                       ]}>
-                        {getStatusLabel(event.status)}
+                        {getEventLabel(kind, event.eventType, event.description)}
                       </Text>
                       <Text style={styles.timelineTime}>
-                        {event.timestamp.toLocaleTimeString([], { 
-                          hour: '2-digit', 
-                          minute: '2-digit' 
+                        {timestamp.toLocaleTimeString([], {
+                          hour: '2-digit',
+                          minute: '2-digit'
                         })}
                       </Text>
                     </View>
-                    
+
                     <Text style={styles.timelineDate}>
-                      {event.timestamp.toLocaleDateString()}
+                      {timestamp.toLocaleDateString()}
                     </Text>
-                    
-                    {event.mechanicId && (
+
+                    {event.actor && (
                       <Text style={styles.timelineMechanic}>
-                        by {event.mechanicId === 'mechanic-cody' ? 'Cody Owner' : event.mechanicId}
+                        by {event.actor.firstName} {event.actor.lastName}
                       </Text>
                     )}
-                    
-                    {event.notes && (
+
+                    {typeof notes === 'string' && notes.length > 0 && (
                       <Text style={styles.timelineNotes}>
-                        {event.notes}
+                        {notes}
                       </Text>
                     )}
                   </View>
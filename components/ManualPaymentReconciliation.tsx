@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert, ActivityIndicator, Linking } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc, type RouterOutputs } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+type ReconciliationStatus = 'PENDING' | 'RECONCILED' | 'REJECTED';
+
+type ManualPayment = RouterOutputs['payments']['listManualPayments']['payments'][number];
+
+const SOURCE_LABELS: Record<string, string> = {
+  CASH: 'Cash',
+  CHECK: 'Check',
+  TAP_TO_PAY: 'Tap to Pay',
+};
+
+const STATUS_TABS: { id: ReconciliationStatus; label: string }[] = [
+  { id: 'PENDING', label: 'To Review' },
+  { id: 'RECONCILED', label: 'Reconciled' },
+  { id: 'REJECTED', label: 'Rejected' },
+];
+
+const fullName = (person?: { firstName?: string | null; lastName?: string | null } | null) =>
+  person ? `${person.firstName ?? ''} ${person.lastName ?? ''}`.trim() : 'Unknown';
+
+export function ManualPaymentReconciliation() {
+  const [status, setStatus] = useState<ReconciliationStatus>('PENDING');
+  const [rejecting, setRejecting] = useState<{ id: string; note: string } | null>(null);
+
+  const { data, isLoading, refetch } = trpc.payments.listManualPayments.useQuery({ status }, {
+    refetchOnWindowFocus: false,
+  });
+
+  const reconcileMutation = trpc.payments.reconcileManualPayment.useMutation({
+    onSuccess: () => {
+      setRejecting(null);
+      refetch();
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to update the payment. Please try again.');
+    },
+  });
+
+  const handleReconcile = (payment: ManualPayment) => {
+    Alert.alert(
+      'Reconcile Payment',
+      `Confirm the $${payment.amount.toFixed(2)} ${SOURCE_LABELS[payment.source].toLowerCase()} payment was deposited?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reconcile',
+          onPress: () => reconcileMutation.mutate({ paymentId: payment.id, decision: 'RECONCILED' }),
+        },
+      ]
+    );
+  };
+
+  const handleReject = () => {
+    if (!rejecting) return;
+
+    if (!rejecting.note.trim()) {
+      Alert.alert('Reason Required', 'Explain why the payment is being rejected.');
+      return;
+    }
+
+    reconcileMutation.mutate({ paymentId: rejecting.id, decision: 'REJECTED', note: rejecting.note.trim() });
+  };
+
+  const payments = data?.payments ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.Banknote size={20} color={Colors.primary} />
+        <Text style={styles.title}>Field Payments</Text>
+        {status === 'PENDING' && (data?.total ?? 0) > 0 && (
+          <View style={styles.countBadge}>
+            <Text style={styles.countText}>{data?.total}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {STATUS_TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.id}
+            style={[styles.tab, status === tab.id && styles.tabActive]}
+            onPress={() => setStatus(tab.id)}
+          >
+            <Text style={[styles.tabText, status === tab.id && styles.tabTextActive]}>{tab.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : payments.length === 0 ? (
+        <Text style={styles.empty}>
+          {status === 'PENDING' ? 'No cash, check or tap-to-pay payments to review' : 'Nothing here yet'}
+        </Text>
+      ) : (
+        payments.map((payment) => (
+          <View key={payment.id} style={styles.paymentRow}>
+            <View style={styles.paymentHeader}>
+              <Text style={styles.paymentAmount}>${payment.amount.toFixed(2)}</Text>
+              <Text style={styles.paymentSource}>{SOURCE_LABELS[payment.source]}</Text>
+            </View>
+            <Text style={styles.paymentDetail}>
+              {payment.job?.title ?? 'Job'} • {fullName(payment.customer)}
+            </Text>
+            <Text style={styles.paymentDetail}>
+              Collected by {fullName(payment.recordedBy)} on {new Date(payment.createdAt).toLocaleDateString()}
+            </Text>
+            {payment.checkNumber && <Text style={styles.paymentDetail}>Check #{payment.checkNumber}</Text>}
+            {payment.terminalReference && (
+              <Text style={styles.paymentDetail}>Terminal ref {payment.terminalReference}</Text>
+            )}
+            {payment.reconciliationNote && <Text style={styles.paymentNote}>{payment.reconciliationNote}</Text>}
+
+            {payment.receiptUrl && (
+              <TouchableOpacity style={styles.receiptLink} onPress={() => payment.receiptUrl && Linking.openURL(payment.receiptUrl)}>
+                <Icons.Image size={14} color={Colors.primary} />
+                <Text style={styles.receiptLinkText}>View receipt photo</Text>
+              </TouchableOpacity>
+            )}
+
+            {status === 'PENDING' && (
+              rejecting?.id === payment.id ? (
+                <View style={styles.rejectForm}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Why can't this payment be matched?"
+                    placeholderTextColor={Colors.textMuted}
+                    value={rejecting?.note ?? ''}
+                    onChangeText={(note) => setRejecting({ id: payment.id, note })}
+                  />
+                  <View style={styles.actions}>
+                    <Button title="Cancel" variant="outline" size="small" onPress={() => setRejecting(null)} style={styles.actionButton} />
+                    <Button
+                      title="Reject"
+                      size="small"
+                      onPress={handleReject}
+                      loading={reconcileMutation.isPending}
+                      style={[styles.actionButton, styles.rejectButton]}
+                    />
+                  </View>
+                </View>
+              ) : (
+                <View style={styles.actions}>
+                  <Button
+                    title="Reject"
+                    variant="outline"
+                    size="small"
+                    onPress={() => setRejecting({ id: payment.id, note: '' })}
+                    style={styles.actionButton}
+                  />
+                  <Button
+                    title="Reconcile"
+                    size="small"
+                    onPress={() => handleReconcile(payment)}
+                    disabled={reconcileMutation.isPending}
+                    style={styles.actionButton}
+                  />
+                </View>
+              )
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  countBadge: {
+    backgroundColor: Colors.warning,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.black,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tab: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  tabActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  tabText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  tabTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  paymentRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 2,
+  },
+  paymentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  paymentAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  paymentSource: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  paymentDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  paymentNote: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    fontStyle: 'italic',
+  },
+  receiptLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  receiptLinkText: {
+    fontSize: 13,
+    color: Colors.primary,
+  },
+  rejectForm: {
+    marginTop: 8,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  rejectButton: {
+    backgroundColor: Colors.error,
+  },
+});
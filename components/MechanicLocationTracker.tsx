@@ -2,13 +2,13 @@ import React, { useEffect, useState, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { useLocation, formatDistance } from '@/hooks/useLocation';
 import { useJobTracking } from '@/hooks/useJobTracking';
-import { trpcClient } from '@/lib/trpc';
 
 /**
  * MechanicLocationTracker Component
  *
  * Tracks mechanic's location and broadcasts it in real-time during active jobs
- * Automatically calculates and updates ETA
+ * The server records the trail, recomputes the ETA and tells the customer
+ * when the mechanic is arriving; tracking stops when the job ends
  */
 
 interface MechanicLocationTrackerProps {
@@ -24,8 +24,6 @@ export function MechanicLocationTracker({
 }: MechanicLocationTrackerProps) {
   const [isTracking, setIsTracking] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
-  const [distanceToJob, setDistanceToJob] = useState<number | null>(null);
-  const [etaMinutes, setEtaMinutes] = useState<number | null>(null);
 
   const {
     location,
@@ -39,14 +37,16 @@ export function MechanicLocationTracker({
     distanceFilter: 10, // Update every 10 meters
   });
 
-  const { updateLocation, isConnected } = useJobTracking(jobId);
+  const { updateLocation, isConnected, currentLocation: reported, trackingStopped } = useJobTracking(jobId);
+  const distanceToJob = reported?.distanceMeters ?? null;
+  const etaMinutes = reported?.etaMinutes ?? null;
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastBroadcastRef = useRef<Date | null>(null);
 
   // Start/stop tracking based on isActive prop
   useEffect(() => {
-    if (isActive && permissionStatus === 'granted') {
+    if (isActive && !trackingStopped && permissionStatus === 'granted') {
       startTracking();
     } else {
       stopTracking();
@@ -55,7 +55,7 @@ export function MechanicLocationTracker({
     return () => {
       stopTracking();
     };
-  }, [isActive, permissionStatus]);
+  }, [isActive, trackingStopped, permissionStatus]);
 
   // Broadcast location updates
   useEffect(() => {
@@ -116,38 +116,11 @@ export function MechanicLocationTracker({
   /**
    * Broadcast current location to customers
    */
-  const broadcastLocation = async () => {
+  const broadcastLocation = () => {
     if (!location) return;
 
-    try {
-      // Calculate distance and ETA to job
-      const distanceResult = await trpcClient.location.getMechanicDistanceToJob.query({
-        jobId,
-        mechanicLocation: {
-          latitude: location.latitude,
-          longitude: location.longitude,
-        },
-      });
-
-      if (distanceResult.success && 'durationMinutes' in distanceResult) {
-        setDistanceToJob(distanceResult.distanceMeters);
-        setEtaMinutes(distanceResult.durationMinutes);
-
-        // Broadcast location via WebSocket
-        updateLocation(
-          location.latitude,
-          location.longitude,
-          distanceResult.durationMinutes
-        );
-
-        setLastUpdate(new Date());
-        console.log(
-          `Location broadcast: ${distanceResult.distanceKm.toFixed(2)} km, ETA: ${distanceResult.durationMinutes} min`
-        );
-      }
-    } catch (error) {
-      console.error('Error broadcasting location:', error);
-    }
+    updateLocation(location.latitude, location.longitude, location.accuracy ?? undefined);
+    setLastUpdate(new Date());
   };
 
   // Manual broadcast button
@@ -11,10 +11,69 @@ interface MechanicVerificationPanelProps {
   onVerificationSubmitted?: () => void;
 }
 
+type DocumentType = 'SELFIE' | 'ID' | 'ASE_CERTIFICATION' | 'INSURANCE';
+
+interface PickedDocument {
+  uri: string;
+  base64: string;
+  mimeType: string;
+}
+
+const DOCUMENTS: {
+  type: DocumentType;
+  label: string;
+  description: string;
+  icon: Icons.LucideIcon;
+  aspect: [number, number];
+  expires: boolean;
+}[] = [
+  {
+    type: 'SELFIE',
+    label: 'Selfie Photo',
+    description: 'Take a clear photo of yourself holding your ID next to your face',
+    icon: Icons.Camera,
+    aspect: [1, 1],
+    expires: false,
+  },
+  {
+    type: 'ID',
+    label: 'ID Photo',
+    description: "Take a clear photo of your government-issued ID (driver's license, passport, etc.)",
+    icon: Icons.CreditCard,
+    aspect: [4, 3],
+    expires: true,
+  },
+  {
+    type: 'ASE_CERTIFICATION',
+    label: 'ASE Certification',
+    description: 'Photograph your current ASE certificate',
+    icon: Icons.Award,
+    aspect: [4, 3],
+    expires: true,
+  },
+  {
+    type: 'INSURANCE',
+    label: 'Insurance Certificate',
+    description: 'Photograph your certificate of liability insurance',
+    icon: Icons.ShieldCheck,
+    aspect: [4, 3],
+    expires: true,
+  },
+];
+
+/**
+ * 'YYYY-MM-DD' as the end of that day, or null when not a real date
+ */
+function parseExpiry(text: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return null;
+  const date = new Date(`${text}T23:59:59`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== text ? null : date;
+}
+
 export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicVerificationPanelProps) {
   const [fullName, setFullName] = useState('');
-  const [selfieUri, setSelfieUri] = useState<string | null>(null);
-  const [idUri, setIdUri] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<Partial<Record<DocumentType, PickedDocument>>>({});
+  const [expiryDates, setExpiryDates] = useState<Partial<Record<DocumentType, string>>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const submitVerificationMutation = trpc.mechanic.submitVerification.useMutation({
@@ -26,8 +85,8 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
       );
       // Reset form
       setFullName('');
-      setSelfieUri(null);
-      setIdUri(null);
+      setDocuments({});
+      setExpiryDates({});
     },
     onError: (error) => {
       console.log('Verification submission error:', error);
@@ -41,7 +100,17 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
     }
   });
 
-  const pickImage = async (type: 'selfie' | 'id') => {
+  const saveAsset = (type: DocumentType, result: ImagePicker.ImagePickerResult) => {
+    const asset = result.canceled ? null : result.assets[0];
+    if (asset?.base64) {
+      setDocuments((current) => ({
+        ...current,
+        [type]: { uri: asset.uri, base64: asset.base64!, mimeType: asset.mimeType ?? 'image/jpeg' },
+      }));
+    }
+  };
+
+  const pickImage = async (type: DocumentType, aspect: [number, number]) => {
     try {
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
       if (status !== 'granted') {
@@ -49,27 +118,19 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
         return;
       }
 
-      const result = await ImagePicker.launchImageLibraryAsync({
+      saveAsset(type, await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true,
-        aspect: type === 'selfie' ? [1, 1] : [4, 3],
+        aspect,
         quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        const uri = result.assets[0].uri;
-        if (type === 'selfie') {
-          setSelfieUri(uri);
-        } else {
-          setIdUri(uri);
-        }
-      }
-    } catch (error) {
+        base64: true,
+      }));
+    } catch {
       Alert.alert('Error', 'Failed to pick image. Please try again.');
     }
   };
 
-  const takePhoto = async (type: 'selfie' | 'id') => {
+  const takePhoto = async (type: DocumentType, aspect: [number, number]) => {
     try {
       const { status } = await ImagePicker.requestCameraPermissionsAsync();
       if (status !== 'granted') {
@@ -77,32 +138,24 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
         return;
       }
 
-      const result = await ImagePicker.launchCameraAsync({
+      saveAsset(type, await ImagePicker.launchCameraAsync({
         allowsEditing: true,
-        aspect: type === 'selfie' ? [1, 1] : [4, 3],
+        aspect,
         quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        const uri = result.assets[0].uri;
-        if (type === 'selfie') {
-          setSelfieUri(uri);
-        } else {
-          setIdUri(uri);
-        }
-      }
-    } catch (error) {
+        base64: true,
+      }));
+    } catch {
       Alert.alert('Error', 'Failed to take photo. Please try again.');
     }
   };
 
-  const showImageOptions = (type: 'selfie' | 'id') => {
+  const showImageOptions = (type: DocumentType, label: string, aspect: [number, number]) => {
     Alert.alert(
-      `Add ${type === 'selfie' ? 'Selfie' : 'ID Photo'}`,
+      `Add ${label}`,
       'Choose how you would like to add your photo',
       [
-        { text: 'Take Photo', onPress: () => takePhoto(type) },
-        { text: 'Choose from Library', onPress: () => pickImage(type) },
+        { text: 'Take Photo', onPress: () => takePhoto(type, aspect) },
+        { text: 'Choose from Library', onPress: () => pickImage(type, aspect) },
         { text: 'Cancel', style: 'cancel' }
       ]
     );
@@ -114,27 +167,31 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
       return;
     }
 
-    if (!selfieUri) {
-      Alert.alert('Missing Photo', 'Please upload a selfie photo.');
-      return;
-    }
+    const uploads = [];
+    for (const document of DOCUMENTS) {
+      const picked = documents[document.type];
+      if (!picked) {
+        Alert.alert('Missing Photo', `Please upload your ${document.label.toLowerCase()}.`);
+        return;
+      }
 
-    if (!idUri) {
-      Alert.alert('Missing Photo', 'Please upload a photo of your ID.');
-      return;
+      let expiresAt: Date | undefined;
+      if (document.expires) {
+        const parsed = parseExpiry(expiryDates[document.type]?.trim() ?? '');
+        if (!parsed) {
+          Alert.alert('Expiry Date Required', `Enter the ${document.label.toLowerCase()} expiry date as YYYY-MM-DD.`);
+          return;
+        }
+        expiresAt = parsed;
+      }
+
+      uploads.push({ type: document.type, base64Data: picked.base64, mimeType: picked.mimeType, expiresAt });
     }
 
     setIsSubmitting(true);
-    
-    // For demo purposes, we'll use placeholder URLs since we can't upload actual files
-    // In production, you would upload the images to a cloud storage service first
-    const demoPhotoUri = 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=400&h=400&fit=crop&crop=face';
-    const demoIdUri = 'https://images.unsplash.com/photo-1554224155-6726b3ff858f?w=400&h=300&fit=crop';
-    
     submitVerificationMutation.mutate({
       fullName: fullName.trim(),
-      photoUri: demoPhotoUri,
-      idUri: demoIdUri,
+      documents: uploads,
     });
   };
 
@@ -143,12 +200,14 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
       <View style={styles.container}>
         <View style={styles.loadingContainer}>
           <LoadingSpinner size="large" />
-          <Text style={styles.loadingText}>Submitting verification...</Text>
+          <Text style={styles.loadingText}>Uploading documents...</Text>
         </View>
       </View>
     );
   }
 
+  const isComplete = fullName.trim() && DOCUMENTS.every((document) => documents[document.type]);
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -157,8 +216,8 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
       </View>
 
       <Text style={styles.description}>
-        To ensure the safety and trust of our platform, we require all mechanics to verify their identity. 
-        This process helps protect both mechanics and customers.
+        To ensure the safety and trust of our platform, we require all mechanics to verify their identity,
+        certification and insurance. You can be assigned jobs once an admin approves your documents.
       </Text>
 
       {/* Full Name Input */}
@@ -173,65 +232,54 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
         />
       </View>
 
-      {/* Selfie Upload */}
-      <View style={styles.photoSection}>
-        <Text style={styles.label}>Selfie Photo</Text>
-        <Text style={styles.photoDescription}>
-          Take a clear photo of yourself holding your ID next to your face
-        </Text>
-        
-        <TouchableOpacity 
-          style={styles.photoUpload}
-          onPress={() => showImageOptions('selfie')}
-        >
-          {selfieUri ? (
-            <View style={styles.photoPreview}>
-              <Image source={{ uri: selfieUri }} style={styles.previewImage} />
-              <View style={styles.photoOverlay}>
-                <Icons.Edit2 size={20} color={Colors.white} />
-              </View>
-            </View>
-          ) : (
-            <View style={styles.photoPlaceholder}>
-              <Icons.Camera size={32} color={Colors.textMuted} />
-              <Text style={styles.photoPlaceholderText}>Add Selfie</Text>
-            </View>
-          )}
-        </TouchableOpacity>
-      </View>
+      {DOCUMENTS.map((document) => {
+        const picked = documents[document.type];
+        const IconComponent = document.icon;
 
-      {/* ID Upload */}
-      <View style={styles.photoSection}>
-        <Text style={styles.label}>ID Photo</Text>
-        <Text style={styles.photoDescription}>
-          Take a clear photo of your government-issued ID (driver's license, passport, etc.)
-        </Text>
-        
-        <TouchableOpacity 
-          style={styles.photoUpload}
-          onPress={() => showImageOptions('id')}
-        >
-          {idUri ? (
-            <View style={styles.photoPreview}>
-              <Image source={{ uri: idUri }} style={styles.previewImage} />
-              <View style={styles.photoOverlay}>
-                <Icons.Edit2 size={20} color={Colors.white} />
-              </View>
-            </View>
-          ) : (
-            <View style={styles.photoPlaceholder}>
-              <Icons.CreditCard size={32} color={Colors.textMuted} />
-              <Text style={styles.photoPlaceholderText}>Add ID Photo</Text>
-            </View>
-          )}
-        </TouchableOpacity>
-      </View>
+        return (
+          <View key={document.type} style={styles.photoSection}>
+            <Text style={styles.label}>{document.label}</Text>
+            <Text style={styles.photoDescription}>{document.description}</Text>
+
+            <TouchableOpacity
+              style={styles.photoUpload}
+              onPress={() => showImageOptions(document.type, document.label, document.aspect)}
+            >
+              {picked ? (
+                <View style={styles.photoPreview}>
+                  <Image source={{ uri: picked.uri }} style={styles.previewImage} />
+                  <View style={styles.photoOverlay}>
+                    <Icons.Edit2 size={20} color={Colors.white} />
+                  </View>
+                </View>
+              ) : (
+                <View style={styles.photoPlaceholder}>
+                  <IconComponent size={32} color={Colors.textMuted} />
+                  <Text style={styles.photoPlaceholderText}>Add {document.label}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+
+            {document.expires && (
+              <TextInput
+                style={[styles.textInput, styles.expiryInput]}
+                value={expiryDates[document.type] ?? ''}
+                onChangeText={(text) => setExpiryDates((current) => ({ ...current, [document.type]: text }))}
+                placeholder="Expiry date (YYYY-MM-DD)"
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            )}
+          </View>
+        );
+      })}
 
       {/* Security Notice */}
       <View style={styles.securityNotice}>
         <Icons.Lock size={16} color={Colors.textMuted} />
         <Text style={styles.securityText}>
-          Your personal information is encrypted and securely stored. We only use this information for verification purposes.
+          Your documents are stored privately and only reviewed by our verification team. We will remind you before any of them expire.
         </Text>
       </View>
 
@@ -239,7 +287,7 @@ export function MechanicVerificationPanel({ onVerificationSubmitted }: MechanicV
       <Button
         title="Submit for Verification"
         onPress={handleSubmit}
-        disabled={!fullName.trim() || !selfieUri || !idUri}
+        disabled={!isComplete}
         style={styles.submitButton}
       />
     </View>
@@ -292,6 +340,9 @@ const styles = StyleSheet.create({
   photoSection: {
     marginBottom: 24,
   },
+  expiryInput: {
+    marginTop: 8,
+  },
   photoDescription: {
     fontSize: 12,
     color: Colors.textMuted,
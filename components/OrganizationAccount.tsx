@@ -0,0 +1,344 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, Share } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString();
+
+const formatLimit = (limit: number | null) => (limit === null ? 'No limit' : `Up to $${limit.toFixed(2)}`);
+
+/**
+ * Fleet/business account on the customer profile: set one up or accept an
+ * invitation, and for owners invite members, set their approval limits and
+ * manage the monthly invoices.
+ */
+export function OrganizationAccount() {
+  const { data, isLoading, refetch } = trpc.organizations.getMine.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const isOwner = data?.role === 'OWNER';
+
+  const { data: invoices } = trpc.organizations.listInvoices.useQuery(undefined, {
+    enabled: isOwner,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: myInvitations, refetch: refetchInvitations } = trpc.organizations.listMyInvitations.useQuery(undefined, {
+    enabled: !isLoading && !data,
+    refetchOnWindowFocus: false,
+  });
+
+  const [name, setName] = useState('');
+  const [billingEmail, setBillingEmail] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberLimit, setMemberLimit] = useState('');
+
+  const onError = (fallback: string) => (error: { message: string }) => {
+    Alert.alert('Error', error.message || fallback);
+  };
+
+  const createMutation = trpc.organizations.create.useMutation({
+    onSuccess: () => refetch(),
+    onError: onError('Failed to set up the organization. Please try again.'),
+  });
+
+  const inviteMemberMutation = trpc.organizations.inviteMember.useMutation({
+    onSuccess: () => {
+      setMemberEmail('');
+      setMemberLimit('');
+      refetch();
+    },
+    onError: onError('Failed to invite the member. Please try again.'),
+  });
+
+  const revokeInvitationMutation = trpc.organizations.revokeInvitation.useMutation({
+    onSuccess: () => refetch(),
+    onError: onError('Failed to revoke the invitation. Please try again.'),
+  });
+
+  const respondMutation = trpc.organizations.respondToInvitation.useMutation({
+    onSuccess: () => {
+      refetch();
+      refetchInvitations();
+    },
+    onError: onError('Failed to answer the invitation. Please try again.'),
+  });
+
+  const removeMemberMutation = trpc.organizations.removeMember.useMutation({
+    onSuccess: () => refetch(),
+    onError: onError('Failed to remove the member. Please try again.'),
+  });
+
+  const invoicePdfMutation = trpc.organizations.getInvoicePdf.useMutation({
+    onError: onError('Failed to generate the invoice. Please try again.'),
+  });
+
+  const handleCreate = () => {
+    if (!name.trim() || !billingEmail.trim()) {
+      Alert.alert('Missing Details', 'Enter the organization name and billing email.');
+      return;
+    }
+    createMutation.mutate({ name: name.trim(), billingEmail: billingEmail.trim() });
+  };
+
+  const handleInviteMember = () => {
+    const limit = memberLimit.trim() ? Number(memberLimit) : null;
+    if (limit !== null && (!Number.isFinite(limit) || limit <= 0)) {
+      Alert.alert('Invalid Limit', 'Enter an approval limit in dollars, or leave it blank for no limit.');
+      return;
+    }
+    inviteMemberMutation.mutate({ email: memberEmail.trim(), approvalLimit: limit });
+  };
+
+  const handleRemoveMember = (memberId: string, memberName: string) => {
+    Alert.alert('Remove Member', `Remove ${memberName} from the organization?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => removeMemberMutation.mutate({ memberId }) },
+    ]);
+  };
+
+  const handleShareInvoice = async (invoiceId: string) => {
+    const file = await invoicePdfMutation.mutateAsync({ invoiceId }).catch(() => null);
+    if (!file) return;
+
+    Share.share({ title: `Invoice ${file.invoiceNumber}`, message: `Invoice ${file.invoiceNumber}: ${file.url}`, url: file.url })
+      .catch((error) => console.error('Error sharing invoice:', error));
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />;
+  }
+
+  if (!data) {
+    return (
+      <View style={styles.container}>
+        {myInvitations?.map((invitation) => (
+          <View key={invitation.id} style={styles.row}>
+            <View style={styles.rowDetails}>
+              <Text style={styles.rowTitle}>{invitation.organization.name}</Text>
+              <Text style={styles.detail}>
+                Invited by {invitation.invitedBy.firstName} {invitation.invitedBy.lastName} •{' '}
+                {invitation.role === 'OWNER' ? 'Owner' : formatLimit(invitation.approvalLimit)}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => respondMutation.mutate({ invitationId: invitation.id, accept: true })}
+              disabled={respondMutation.isPending}
+            >
+              <Icons.Check size={18} color={Colors.success} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => respondMutation.mutate({ invitationId: invitation.id, accept: false })}
+              disabled={respondMutation.isPending}
+            >
+              <Icons.X size={18} color={Colors.error} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <Text style={styles.hint}>
+          Set up a business account to share vehicles with your team, add PO numbers and pay on one monthly invoice.
+        </Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Company name"
+          placeholderTextColor={Colors.textMuted}
+        />
+        <TextInput
+          style={styles.input}
+          value={billingEmail}
+          onChangeText={setBillingEmail}
+          placeholder="Billing email"
+          placeholderTextColor={Colors.textMuted}
+          keyboardType="email-address"
+          autoCapitalize="none"
+        />
+        <Button
+          title="Create Business Account"
+          variant="outline"
+          size="small"
+          onPress={handleCreate}
+          loading={createMutation.isPending}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Icons.Building2 size={20} color={Colors.primary} />
+        <View style={styles.summaryDetails}>
+          <Text style={styles.orgName}>{data.organization.name}</Text>
+          <Text style={styles.detail}>
+            Net {data.organization.paymentTermsDays} • {isOwner ? 'Owner' : formatLimit(data.approvalLimit)}
+          </Text>
+        </View>
+      </View>
+
+      {isOwner && (
+        <>
+          <Text style={styles.subheading}>Members</Text>
+          {data.members.map((member) => {
+            const memberName = `${member.user.firstName} ${member.user.lastName}`;
+            return (
+              <View key={member.id} style={styles.row}>
+                <View style={styles.rowDetails}>
+                  <Text style={styles.rowTitle}>{memberName}</Text>
+                  <Text style={styles.detail}>
+                    {member.role === 'OWNER' ? 'Owner' : formatLimit(member.approvalLimit)}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleRemoveMember(member.id, memberName)}
+                  disabled={removeMemberMutation.isPending}
+                >
+                  <Icons.UserMinus size={18} color={Colors.error} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+
+          {data.invitations.map((invitation) => (
+            <View key={invitation.id} style={styles.row}>
+              <View style={styles.rowDetails}>
+                <Text style={styles.rowTitle}>{invitation.user.email}</Text>
+                <Text style={styles.detail}>Invited • expires {formatDate(invitation.expiresAt)}</Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => revokeInvitationMutation.mutate({ invitationId: invitation.id })}
+                disabled={revokeInvitationMutation.isPending}
+              >
+                <Icons.X size={18} color={Colors.error} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TextInput
+            style={styles.input}
+            value={memberEmail}
+            onChangeText={setMemberEmail}
+            placeholder="Member email"
+            placeholderTextColor={Colors.textMuted}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={styles.input}
+            value={memberLimit}
+            onChangeText={setMemberLimit}
+            placeholder="Approval limit in $ (blank for no limit)"
+            placeholderTextColor={Colors.textMuted}
+            keyboardType="decimal-pad"
+          />
+          <Button
+            title="Invite Member"
+            variant="outline"
+            size="small"
+            onPress={handleInviteMember}
+            loading={inviteMemberMutation.isPending}
+            disabled={!memberEmail.trim()}
+          />
+
+          <Text style={styles.subheading}>Monthly Invoices</Text>
+          {!invoices || invoices.length === 0 ? (
+            <Text style={styles.hint}>No invoices yet</Text>
+          ) : (
+            invoices.map((invoice) => (
+              <TouchableOpacity
+                key={invoice.id}
+                style={styles.row}
+                onPress={() => handleShareInvoice(invoice.id)}
+                disabled={invoicePdfMutation.isPending}
+              >
+                <View style={styles.rowDetails}>
+                  <Text style={styles.rowTitle}>
+                    {invoice.invoiceNumber} • ${invoice.total.toFixed(2)}
+                  </Text>
+                  <Text style={styles.detail}>
+                    {invoice.status === 'PAID' && invoice.paidAt
+                      ? `Paid ${formatDate(invoice.paidAt)}`
+                      : `Due ${formatDate(invoice.dueAt)}`} • {invoice._count.jobs} job(s)
+                  </Text>
+                </View>
+                <Icons.FileText size={18} color={Colors.primary} />
+              </TouchableOpacity>
+            ))
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 4,
+  },
+  input: {
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+    color: Colors.text,
+    fontSize: 15,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+  },
+  summaryDetails: {
+    flex: 1,
+  },
+  orgName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  subheading: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  rowDetails: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  detail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+});
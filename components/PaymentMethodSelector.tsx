@@ -13,7 +13,7 @@ const paymentMethods = [
   { id: 'paypal', label: 'PayPal', icon: 'CreditCard' },
   { id: 'chime', label: 'Chime', icon: 'Smartphone' },
   { id: 'cashapp', label: 'Cash App', icon: 'Smartphone' },
-  { id: 'stripe', label: 'Stripe (Coming Soon)', icon: 'CreditCard', disabled: true },
+  { id: 'stripe', label: 'Saved Card', icon: 'CreditCard', disabled: false },
 ];
 
 export default function PaymentMethodSelector({ onSelect, selectedMethod }: PaymentMethodSelectorProps) {
@@ -1,26 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, Platform } from 'react-native';
-import { StripeProvider } from '@stripe/stripe-react-native';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, Platform, Share, Linking } from 'react-native';
+import { StripeProvider, useStripe } from '@stripe/stripe-react-native';
 import { Colors } from '@/constants/colors';
 import { Button } from '@/components/Button';
 import { LoadingButton, LoadingOverlay } from '@/components/LoadingState';
 import { Quote } from '@/types/service';
 import { useAppStore } from '@/stores/app-store';
 import { useStripePayment } from '@/hooks/useStripePayment';
+import { useSavedCards } from '@/hooks/useSavedCards';
+import { useAuthStore } from '@/stores/auth-store';
 import { STRIPE_PUBLISHABLE_KEY } from '@/lib/stripe-config';
 import { PaymentErrorBoundary } from '@/components/error-boundaries';
+import { trpc } from '@/lib/trpc';
 import * as Icons from 'lucide-react-native';
+import { TipSelector, type TipChoice } from '@/components/payments/TipSelector';
 
 interface PaymentModalProps {
   quote: Quote;
   paymentType?: 'deposit' | 'full' | 'completion';
+  allowTip?: boolean; // Offer a tip; always offered on completion payments
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel }: PaymentModalProps) {
+function PaymentModalContent({ quote, paymentType = 'full', allowTip = false, onSuccess, onCancel }: PaymentModalProps) {
   const { updateQuote, updateServiceRequest, getJobParts } = useAppStore();
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'card' | 'apple_pay' | 'google_pay'>('card');
+  const [tip, setTip] = useState<TipChoice | null>(null);
+  const tipEnabled = allowTip || paymentType === 'completion';
 
   const stripePayment = useStripePayment({
     quote,
@@ -33,7 +40,25 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
     },
   });
 
-  const depositAmount = Math.round(quote.totalCost * 0.3); // 30% deposit
+  const invoicePdfMutation = trpc.payments.getInvoicePdf.useMutation();
+  const addTipMutation = trpc.payments.addTip.useMutation();
+
+  // One-tap payment with the customer's default saved card, for what the
+  // server says is owed rather than the locally computed amount
+  const { user } = useAuthStore();
+  const { handleNextAction } = useStripe();
+  const oneTapEnabled = user?.role === 'CUSTOMER' && paymentType !== 'deposit';
+  const { defaultMethod } = useSavedCards({ enabled: oneTapEnabled });
+  const { data: scheduleData } = trpc.payments.getPaymentSchedule.useQuery(
+    { quoteId: quote.id },
+    { enabled: oneTapEnabled, refetchOnWindowFocus: false }
+  );
+  const amountDue = scheduleData?.schedule.next?.amount;
+  const oneTapMutation = trpc.payments.createPaymentIntent.useMutation();
+
+  // Deposit fixed on the quote at acceptance; older quotes fall back to 30%
+  const depositPercent = quote.depositPercent ?? 30;
+  const depositAmount = quote.depositAmount ?? Math.round(quote.totalCost * (depositPercent / 100));
   const remainingAmount = quote.totalCost - depositAmount;
   
   // Calculate completion payment (includes parts if any)
@@ -45,8 +70,103 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
       ? depositAmount 
       : quote.totalCost;
 
-  const handlePaymentSuccess = (result: any) => {
+  const shareInvoice = async (paymentIntentId?: string) => {
+    if (!paymentIntentId) {
+      onSuccess();
+      return;
+    }
+
+    try {
+      const { url, invoiceNumber } = await invoicePdfMutation.mutateAsync({ paymentIntentId });
+      const message = `Invoice ${invoiceNumber} from Heinicus Mobile Mechanic: ${url}`;
+
+      Alert.alert(`Invoice ${invoiceNumber}`, 'The download link is valid for one hour.', [
+        {
+          text: 'Email',
+          onPress: () => {
+            Linking.openURL(`mailto:?subject=${encodeURIComponent(`Invoice ${invoiceNumber}`)}&body=${encodeURIComponent(message)}`)
+              .catch(() => Alert.alert('Email Unavailable', 'No email app is set up on this device.'))
+              .finally(onSuccess);
+          },
+        },
+        {
+          text: 'Share',
+          onPress: () => {
+            Share.share({ title: `Invoice ${invoiceNumber}`, message, url })
+              .catch((error) => console.error('Error sharing invoice:', error))
+              .finally(onSuccess);
+          },
+        },
+        { text: 'Close', style: 'cancel', onPress: onSuccess },
+      ]);
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      Alert.alert('Invoice Unavailable', 'Your payment went through, but the invoice could not be generated. Please try again later.', [
+        { text: 'OK', onPress: onSuccess },
+      ]);
+    }
+  };
+
+  /**
+   * Charge the chosen tip to the card used for the final payment. Returns a
+   * sentence for the success message; a declined tip does not undo the payment.
+   */
+  const chargeTip = async (paymentIntentId?: string): Promise<string> => {
+    if (!tipEnabled || !tip) return '';
+
+    try {
+      await addTipMutation.mutateAsync({
+        quoteId: quote.id,
+        ...(tip.percent !== undefined ? { percent: tip.percent } : { amount: tip.amount }),
+        paymentIntentId,
+      });
+      return ` Thank you for the $${tip.tip.toFixed(2)} tip!`;
+    } catch (error) {
+      console.error('Error adding tip:', error);
+      return ` Your tip could not be charged: ${error instanceof Error ? error.message : 'please try again'}.`;
+    }
+  };
+
+  const payWithDefaultCard = async (approvedAmount: number) => {
+    try {
+      const result = await oneTapMutation.mutateAsync({ quoteId: quote.id, useDefaultMethod: true, approvedAmount });
+      const { paymentIntent } = result;
+
+      if (paymentIntent.status === 'requires_action' && paymentIntent.clientSecret) {
+        const { error } = await handleNextAction(paymentIntent.clientSecret);
+        if (error) throw new Error(error.message);
+      } else if (paymentIntent.status !== 'succeeded' && paymentIntent.status !== 'processing') {
+        throw new Error('Your card could not be charged. Please choose another payment method.');
+      }
+
+      await handlePaymentSuccess({ success: true, paymentIntent: { id: paymentIntent.id } });
+    } catch (error) {
+      console.error('One-tap payment error:', error);
+      Alert.alert('Payment Failed', error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleOneTapPayment = () => {
+    if (!defaultMethod?.card || amountDue === undefined) return;
+
+    // The customer approves the exact amount before the saved card is charged
+    Alert.alert(
+      'Confirm Payment',
+      `Charge $${amountDue.toFixed(2)} to your card ending in ${defaultMethod.card.last4}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Pay', onPress: () => payWithDefaultCard(amountDue) },
+      ]
+    );
+  };
+
+  const handlePaymentSuccess = async (result: any) => {
     const now = new Date();
+    const tipMessage = await chargeTip(result.paymentIntent?.id);
+    const invoiceActions = [
+      { text: 'Share Invoice', onPress: () => shareInvoice(result.paymentIntent?.id) },
+      { text: 'OK', onPress: onSuccess },
+    ];
     
     if (paymentType === 'deposit') {
       updateQuote(quote.id, {
@@ -64,7 +184,7 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
       Alert.alert(
         'Deposit Payment Successful',
         `Deposit of $${stripePayment.paymentAmount} has been processed. Remaining balance: $${remainingAmount}`,
-        [{ text: 'OK', onPress: onSuccess }]
+        invoiceActions
       );
     } else if (paymentType === 'completion') {
       updateQuote(quote.id, {
@@ -84,8 +204,8 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
       
       Alert.alert(
         'Payment Successful',
-        `Final payment of $${stripePayment.paymentAmount} has been processed successfully.${partsCost > 0 ? ` (Includes $${partsCost} in parts)` : ''}`,
-        [{ text: 'OK', onPress: onSuccess }]
+        `Final payment of $${stripePayment.paymentAmount} has been processed successfully.${partsCost > 0 ? ` (Includes $${partsCost} in parts)` : ''}${tipMessage}`,
+        invoiceActions
       );
     } else {
       updateQuote(quote.id, {
@@ -103,8 +223,8 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
       
       Alert.alert(
         'Payment Successful',
-        `Payment of $${stripePayment.paymentAmount} has been processed successfully.`,
-        [{ text: 'OK', onPress: onSuccess }]
+        `Payment of $${stripePayment.paymentAmount} has been processed successfully.${tipMessage}`,
+        invoiceActions
       );
     }
   };
@@ -175,7 +295,7 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
               <View style={styles.depositText}>
                 <Text style={styles.depositTitle}>Deposit Payment</Text>
                 <Text style={styles.depositDescription}>
-                  Pay 30% now to secure your service. Remaining balance due upon completion.
+                  Pay {depositPercent}% now to secure your service. Remaining balance due upon completion.
                 </Text>
               </View>
             </View>
@@ -203,14 +323,29 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
               <Text style={styles.quoteDescription}>{quote.description}</Text>
               
               <View style={styles.breakdown}>
-                <View style={styles.breakdownRow}>
-                  <Text style={styles.breakdownLabel}>Original Labor</Text>
-                  <Text style={styles.breakdownValue}>${quote.laborCost}</Text>
-                </View>
-                <View style={styles.breakdownRow}>
-                  <Text style={styles.breakdownLabel}>Original Parts</Text>
-                  <Text style={styles.breakdownValue}>${quote.partsCost}</Text>
-                </View>
+                {quote.lineItems && quote.lineItems.length > 0 ? (
+                  quote.lineItems.map((item, index) => (
+                    <View key={item.id ?? index} style={styles.breakdownRow}>
+                      <Text style={styles.breakdownLabel}>
+                        {item.description}{item.quantity !== 1 ? ` × ${item.quantity}` : ''}
+                      </Text>
+                      <Text style={styles.breakdownValue}>
+                        {item.type === 'DISCOUNT' ? '-' : ''}${item.total.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))
+                ) : (
+                  <>
+                    <View style={styles.breakdownRow}>
+                      <Text style={styles.breakdownLabel}>Original Labor</Text>
+                      <Text style={styles.breakdownValue}>${quote.laborCost}</Text>
+                    </View>
+                    <View style={styles.breakdownRow}>
+                      <Text style={styles.breakdownLabel}>Original Parts</Text>
+                      <Text style={styles.breakdownValue}>${quote.partsCost}</Text>
+                    </View>
+                  </>
+                )}
                 
                 {paymentType === 'completion' && partsCost > 0 && (
                   <View style={styles.breakdownRow}>
@@ -232,7 +367,7 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
                 {paymentType === 'deposit' && (
                   <>
                     <View style={styles.breakdownRow}>
-                      <Text style={styles.depositLabel}>Deposit (30%)</Text>
+                      <Text style={styles.depositLabel}>Deposit ({depositPercent}%)</Text>
                       <Text style={styles.depositValue}>${depositAmount}</Text>
                     </View>
                     <View style={styles.breakdownRow}>
@@ -265,6 +400,27 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
             </View>
           )}
 
+          {/* Tip */}
+          {tipEnabled && (
+            <TipSelector
+              total={paymentType === 'completion' ? quote.totalCost + partsCost : quote.totalCost}
+              value={tip}
+              onChange={setTip}
+              disabled={stripePayment.isProcessing}
+            />
+          )}
+
+          {/* One-tap with the default saved card */}
+          {oneTapEnabled && defaultMethod?.card && amountDue ? (
+            <Button
+              title={`Pay $${amountDue.toFixed(2)} with •••• ${defaultMethod.card.last4}`}
+              onPress={handleOneTapPayment}
+              loading={oneTapMutation.isPending}
+              disabled={stripePayment.isProcessing}
+              style={styles.oneTapButton}
+            />
+          ) : null}
+
           {/* Payment Methods */}
           <View style={styles.paymentSection}>
             <Text style={styles.sectionTitle}>Payment Method</Text>
@@ -353,7 +509,7 @@ function PaymentModalContent({ quote, paymentType = 'full', onSuccess, onCancel
             disabled={stripePayment.isProcessing}
           />
           <LoadingButton
-            title={`Pay $${stripePayment.paymentAmount}`}
+            title={`Pay $${stripePayment.paymentAmount}${tipEnabled && tip ? ` + $${tip.tip.toFixed(2)} tip` : ''}`}
             loadingTitle="Processing Payment..."
             isLoading={stripePayment.isProcessing}
             onPress={handlePayment}
@@ -589,6 +745,9 @@ const styles = StyleSheet.create({
   paymentSection: {
     marginBottom: 24,
   },
+  oneTapButton: {
+    marginBottom: 24,
+  },
   paymentMethod: {
     backgroundColor: Colors.card,
     borderRadius: 12,
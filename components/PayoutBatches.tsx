@@ -0,0 +1,177 @@
+import React from 'react';
+import { View, Text, StyleSheet, Alert, ActivityIndicator, Share } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+const STATUS_COLORS: Record<string, string> = {
+  DRAFT: Colors.textSecondary,
+  EXPORTED: Colors.warning,
+  PAID: Colors.success,
+};
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString();
+
+export function PayoutBatches() {
+  const { data, isLoading, refetch } = trpc.payouts.listPayoutBatches.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const createMutation = trpc.payouts.createPayoutBatch.useMutation({
+    onSuccess: (result) => {
+      refetch();
+      const skipped = result.skipped.length > 0
+        ? `\n${result.skipped.length} mechanic(s) carried over: ${result.skipped.map((s) => s.reason.toLowerCase()).join(', ')}`
+        : '';
+      Alert.alert('Batch Created', `${result.payouts.length} payout(s) totalling $${result.batch.total.toFixed(2)}${skipped}`);
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to create the payout batch. Please try again.');
+    },
+  });
+
+  const exportMutation = trpc.payouts.exportPayoutBatch.useMutation({
+    onError: (error) => {
+      Alert.alert('Export Failed', error.message || 'Failed to export the payout batch. Please try again.');
+    },
+  });
+
+  const paidMutation = trpc.payouts.markPayoutBatchPaid.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to mark the batch paid. Please try again.');
+    },
+  });
+
+  const handleExport = async (batchId: string, format: 'csv' | 'nacha') => {
+    const file = await exportMutation.mutateAsync({ batchId, format }).catch(() => null);
+    if (!file) return;
+
+    refetch();
+    Share.share({ title: file.fileName, message: file.content })
+      .catch((error) => console.error('Error sharing payout file:', error));
+  };
+
+  const handleMarkPaid = (batchId: string) => {
+    Alert.alert('Mark Batch Paid', 'Confirm the bank has sent this batch. Mechanics will be notified.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Mark Paid', onPress: () => paidMutation.mutate({ batchId }) },
+    ]);
+  };
+
+  const batches = data?.batches ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.Banknote size={20} color={Colors.success} />
+        <Text style={styles.title}>Mechanic Payouts</Text>
+      </View>
+
+      <Button
+        title="Create Last Week's Batch"
+        size="small"
+        onPress={() => createMutation.mutate()}
+        loading={createMutation.isPending}
+      />
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : batches.length === 0 ? (
+        <Text style={styles.empty}>No payout batches yet</Text>
+      ) : (
+        batches.map((batch) => (
+          <View key={batch.id} style={styles.batchRow}>
+            <View style={styles.batchHeader}>
+              <Text style={styles.batchTotal}>${batch.total.toFixed(2)}</Text>
+              <Text style={[styles.batchStatus, { color: STATUS_COLORS[batch.status] ?? Colors.textMuted }]}>
+                {batch.status}
+              </Text>
+            </View>
+            <Text style={styles.batchDetail}>
+              {formatDate(batch.periodStart)} – {formatDate(batch.periodEnd)} • {batch._count.payouts} payout(s)
+            </Text>
+
+            {batch.status !== 'PAID' && batch._count.payouts > 0 && (
+              <View style={styles.actions}>
+                <Button title="CSV" variant="outline" size="small" onPress={() => handleExport(batch.id, 'csv')} style={styles.actionButton} />
+                <Button title="NACHA" variant="outline" size="small" onPress={() => handleExport(batch.id, 'nacha')} style={styles.actionButton} />
+                <Button
+                  title="Mark Paid"
+                  size="small"
+                  onPress={() => handleMarkPaid(batch.id)}
+                  loading={paidMutation.isPending}
+                  style={styles.actionButton}
+                />
+              </View>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  batchRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 2,
+  },
+  batchHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  batchTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  batchStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  batchDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
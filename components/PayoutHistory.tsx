@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+type AccountType = 'CHECKING' | 'SAVINGS';
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  JOB_REVENUE: 'Job payment',
+  PLATFORM_FEE: 'Platform fee',
+  TIP: 'Tip',
+  REFUND_CLAWBACK: 'Refund',
+  ADJUSTMENT: 'Adjustment',
+  PAYOUT: 'Payout',
+};
+
+const PAYOUT_STATUS_COLORS: Record<string, string> = {
+  PENDING: Colors.warning,
+  PAID: Colors.success,
+  FAILED: Colors.error,
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString();
+
+/**
+ * Change to the mechanic's available balance from one ledger transaction
+ */
+const balanceChange = (entries: { account: string; debit: number; credit: number }[]) =>
+  entries.reduce((sum, entry) => {
+    if (entry.account === 'MECHANIC_PAYABLE') return sum + entry.credit - entry.debit;
+    if (entry.account === 'MECHANIC_HELD_CASH') return sum - entry.debit + entry.credit;
+    return sum;
+  }, 0);
+
+export function PayoutHistory() {
+  const [editingAccount, setEditingAccount] = useState(false);
+  const [accountHolder, setAccountHolder] = useState('');
+  const [routingNumber, setRoutingNumber] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [accountType, setAccountType] = useState<AccountType>('CHECKING');
+
+  const { data: earnings, isLoading } = trpc.payouts.getEarnings.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const { data: payoutData } = trpc.payouts.listPayouts.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const { data: account, refetch: refetchAccount } = trpc.payouts.getPayoutAccount.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const { data: reconciliation } = trpc.payouts.reconcileEarnings.useQuery({ period: 'month' }, {
+    refetchOnWindowFocus: false,
+  });
+
+  const saveAccountMutation = trpc.payouts.updatePayoutAccount.useMutation({
+    onSuccess: () => {
+      setEditingAccount(false);
+      setAccountNumber('');
+      refetchAccount();
+      Alert.alert('Saved', 'Your payout account has been updated.');
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to save your payout account. Please try again.');
+    },
+  });
+
+  const startEditing = () => {
+    setAccountHolder(account?.accountHolder ?? '');
+    setRoutingNumber(account?.routingNumber ?? '');
+    setAccountNumber('');
+    setAccountType((account?.accountType as AccountType) ?? 'CHECKING');
+    setEditingAccount(true);
+  };
+
+  const handleSaveAccount = () => {
+    if (!accountHolder.trim() || !/^\d{9}$/.test(routingNumber) || !/^\d{4,17}$/.test(accountNumber)) {
+      Alert.alert('Check Details', 'Enter the account holder, a 9-digit routing number and your account number.');
+      return;
+    }
+
+    saveAccountMutation.mutate({
+      accountHolder: accountHolder.trim(),
+      routingNumber,
+      accountNumber,
+      accountType,
+    });
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={Colors.mechanic} style={styles.loading} />;
+  }
+
+  const balance = earnings?.balance;
+  const transactions = earnings?.transactions ?? [];
+  const payouts = payoutData?.payouts ?? [];
+
+  return (
+    <View style={styles.container}>
+      {/* Balance */}
+      <View style={styles.card}>
+        <Text style={styles.label}>Available for next payout</Text>
+        <Text style={[styles.balance, (balance?.available ?? 0) < 0 && styles.negative]}>
+          {formatCurrency(balance?.available ?? 0)}
+        </Text>
+        {(balance?.heldCash ?? 0) > 0 && (
+          <Text style={styles.detail}>
+            Includes {formatCurrency(balance?.heldCash ?? 0)} collected in person, netted at payout
+          </Text>
+        )}
+        <Text style={styles.detail}>Payouts are sent weekly for the previous Monday–Sunday</Text>
+      </View>
+
+      {/* Reconciliation with analytics */}
+      {reconciliation && (
+        <View style={styles.reconcileRow}>
+          {reconciliation.matches ? (
+            <Icons.CheckCircle size={16} color={Colors.success} />
+          ) : (
+            <Icons.AlertTriangle size={16} color={Colors.warning} />
+          )}
+          <Text style={styles.detail}>
+            {reconciliation.matches
+              ? `Last 30 days match your reports (${formatCurrency(reconciliation.ledgerRevenue)})`
+              : `Ledger ${formatCurrency(reconciliation.ledgerRevenue)} vs reports ${formatCurrency(reconciliation.analyticsRevenue)}`}
+          </Text>
+        </View>
+      )}
+
+      {/* Bank account */}
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Icons.Landmark size={18} color={Colors.mechanic} />
+          <Text style={styles.cardTitle}>Payout Account</Text>
+        </View>
+
+        {editingAccount ? (
+          <View style={styles.form}>
+            <TextInput
+              style={styles.input}
+              placeholder="Account holder name"
+              placeholderTextColor={Colors.textMuted}
+              value={accountHolder}
+              onChangeText={setAccountHolder}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Routing number"
+              placeholderTextColor={Colors.textMuted}
+              value={routingNumber}
+              onChangeText={(text) => setRoutingNumber(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={9}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Account number"
+              placeholderTextColor={Colors.textMuted}
+              value={accountNumber}
+              onChangeText={(text) => setAccountNumber(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={17}
+              secureTextEntry
+            />
+            <View style={styles.tabs}>
+              {(['CHECKING', 'SAVINGS'] as AccountType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.tab, accountType === type && styles.tabActive]}
+                  onPress={() => setAccountType(type)}
+                >
+                  <Text style={[styles.tabText, accountType === type && styles.tabTextActive]}>
+                    {type === 'CHECKING' ? 'Checking' : 'Savings'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.actions}>
+              <Button title="Cancel" variant="outline" size="small" onPress={() => setEditingAccount(false)} style={styles.actionButton} />
+              <Button
+                title="Save"
+                size="small"
+                onPress={handleSaveAccount}
+                loading={saveAccountMutation.isPending}
+                style={styles.actionButton}
+              />
+            </View>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.detail}>
+              {account
+                ? `${account.accountHolder} • ${account.accountType === 'SAVINGS' ? 'Savings' : 'Checking'} ending in ${account.accountLast4}`
+                : 'Add a bank account to receive payouts'}
+            </Text>
+            <View style={styles.actions}>
+              <Button
+                title={account ? 'Change Account' : 'Add Account'}
+                variant="outline"
+                size="small"
+                onPress={startEditing}
+                style={styles.actionButton}
+              />
+            </View>
+          </>
+        )}
+      </View>
+
+      {/* Payout history */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Payout History</Text>
+        {payouts.length === 0 ? (
+          <Text style={styles.empty}>No payouts yet</Text>
+        ) : (
+          payouts.map((payout) => (
+            <View key={payout.id} style={styles.row}>
+              <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>Week ending {formatDate(payout.batch.periodEnd)}</Text>
+                <Text style={styles.detail}>
+                  {payout.accountLast4 ? `To account ending in ${payout.accountLast4}` : 'Bank transfer'}
+                  {payout.failureReason ? ` • ${payout.failureReason}` : ''}
+                </Text>
+              </View>
+              <View style={styles.rowRight}>
+                <Text style={styles.rowAmount}>{formatCurrency(payout.amount)}</Text>
+                <Text style={[styles.status, { color: PAYOUT_STATUS_COLORS[payout.status] ?? Colors.textMuted }]}>
+                  {payout.status}
+                </Text>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Recent ledger activity */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Recent Activity</Text>
+        {transactions.length === 0 ? (
+          <Text style={styles.empty}>No earnings yet</Text>
+        ) : (
+          transactions.map((transaction) => {
+            const change = balanceChange(transaction.entries);
+
+            return (
+              <View key={transaction.id} style={styles.row}>
+                <View style={styles.rowContent}>
+                  <Text style={styles.rowTitle}>{TRANSACTION_LABELS[transaction.type] ?? transaction.type}</Text>
+                  <Text style={styles.detail}>
+                    {transaction.description} • {formatDate(transaction.createdAt)}
+                  </Text>
+                </View>
+                <Text style={[styles.rowAmount, change < 0 && styles.negative]}>
+                  {change < 0 ? '-' : '+'}{formatCurrency(Math.abs(change))}
+                </Text>
+              </View>
+            );
+          })
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    gap: 16,
+  },
+  loading: {
+    paddingVertical: 32,
+  },
+  card: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  balance: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  negative: {
+    color: Colors.error,
+  },
+  detail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  reconcileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+  },
+  form: {
+    gap: 8,
+    marginTop: 4,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tab: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  tabActive: {
+    backgroundColor: Colors.mechanic,
+    borderColor: Colors.mechanic,
+  },
+  tabText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  tabTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    gap: 8,
+  },
+  rowContent: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  rowRight: {
+    alignItems: 'flex-end',
+  },
+  rowAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  status: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -2,22 +2,38 @@ import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
 import { Colors } from '@/constants/colors';
 import { copyToClipboard } from '@/utils/misc';
+import { trpc } from '@/lib/trpc';
 
 interface QuickPayMenuProps {
   total: number;
+  quoteId?: string; // When set, links are for what is still owed on the quote
 }
 
+const NEXT_PAYMENT_LABELS = {
+  DEPOSIT: 'Deposit due now',
+  BALANCE: 'Balance due',
+  FULL: 'Amount due',
+};
+
 const methodLinks = {
   CashApp: 'https://cash.app/$heinicus',
   Chime: 'https://chime.com/pay/heinicus',
   PayPal: 'https://paypal.me/heinicus',
 };
 
-export default function QuickPayMenu({ total }: QuickPayMenuProps) {
+export default function QuickPayMenu({ total, quoteId }: QuickPayMenuProps) {
   const [copied, setCopied] = useState(false);
 
+  const { data } = trpc.payments.getPaymentSchedule.useQuery(
+    { quoteId: quoteId! },
+    { enabled: !!quoteId, refetchOnWindowFocus: false }
+  );
+
+  const schedule = data?.schedule;
+  const amountDue = schedule ? schedule.next?.amount ?? 0 : total;
+
   const handleCopy = async (method: keyof typeof methodLinks) => {
-    const link = `${methodLinks[method]}?amount=${total}`;
+    const link = `${methodLinks[method]}?amount=${amountDue.toFixed(2)}`;
     await copyToClipboard(link);
     setCopied(true);
     Alert.alert('Copied!', `${method} payment link copied to clipboard`);
@@ -27,19 +43,44 @@ export default function QuickPayMenu({ total }: QuickPayMenuProps) {
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Quick Payment Links</Text>
-      <Text style={styles.subtitle}>Total: ${total.toFixed(2)}</Text>
-      
-      <View style={styles.buttonContainer}>
-        {Object.keys(methodLinks).map((method) => (
-          <TouchableOpacity
-            key={method}
-            style={styles.paymentButton}
-            onPress={() => handleCopy(method as keyof typeof methodLinks)}
-          >
-            <Text style={styles.paymentButtonText}>Copy {method} Link</Text>
-          </TouchableOpacity>
-        ))}
-      </View>
+      <Text style={styles.subtitle}>Total: ${(schedule?.total ?? total).toFixed(2)}</Text>
+
+      {schedule && (
+        <View style={styles.schedule}>
+          {schedule.depositAmount > 0 && (
+            <View style={styles.scheduleRow}>
+              <Text style={styles.scheduleLabel}>Deposit ({schedule.depositPercent}%)</Text>
+              <Text style={[styles.scheduleValue, schedule.depositPaid && styles.paidText]}>
+                ${schedule.depositAmount.toFixed(2)}{schedule.depositPaid ? ' paid' : ''}
+              </Text>
+            </View>
+          )}
+          <View style={styles.scheduleRow}>
+            <Text style={styles.scheduleLabel}>Paid so far</Text>
+            <Text style={styles.scheduleValue}>${schedule.totalPaid.toFixed(2)}</Text>
+          </View>
+          <View style={styles.scheduleRow}>
+            <Text style={styles.owedLabel}>
+              {schedule.next ? NEXT_PAYMENT_LABELS[schedule.next.kind] : 'Paid in full'}
+            </Text>
+            <Text style={styles.owedValue}>${amountDue.toFixed(2)}</Text>
+          </View>
+        </View>
+      )}
+
+      {amountDue > 0 && (
+        <View style={styles.buttonContainer}>
+          {Object.keys(methodLinks).map((method) => (
+            <TouchableOpacity
+              key={method}
+              style={styles.paymentButton}
+              onPress={() => handleCopy(method as keyof typeof methodLinks)}
+            >
+              <Text style={styles.paymentButtonText}>Copy {method} Link</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
       
       {copied && (
         <Text style={styles.copiedText}>Link copied to clipboard!</Text>
@@ -66,6 +107,35 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginBottom: 16,
   },
+  schedule: {
+    marginBottom: 16,
+    gap: 4,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  scheduleLabel: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  scheduleValue: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  paidText: {
+    color: Colors.success,
+  },
+  owedLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  owedValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   buttonContainer: {
     gap: 8,
   },
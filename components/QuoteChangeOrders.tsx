@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { SignatureCapture } from '@/components/SignatureCapture';
+import { QuoteLineItem } from '@/types/service';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+interface QuoteChangeOrdersProps {
+  quoteId: string;
+  onRevisionApproved?: (total: number) => void;
+}
+
+type Decision = 'APPROVE' | 'REJECT';
+
+export function QuoteChangeOrders({ quoteId, onRevisionApproved }: QuoteChangeOrdersProps) {
+  const [signing, setSigning] = useState<{ revisionId: string; version: number; decision: Decision } | null>(null);
+
+  const { data, isLoading, refetch } = trpc.quote.listRevisions.useQuery(
+    { quoteId },
+    { enabled: !!quoteId, refetchOnWindowFocus: false }
+  );
+
+  const respondMutation = trpc.quote.respondToRevision.useMutation({
+    onSuccess: (result) => {
+      refetch();
+      if (result.status === 'APPROVED') {
+        onRevisionApproved?.(result.total);
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to submit your response. Please try again.');
+    },
+  });
+
+  const revisions = data?.revisions ?? [];
+
+  if (isLoading) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="small" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  const handleSigned = async (_revisionId: string, signatureData: string) => {
+    if (!signing) return;
+
+    const { revisionId, decision } = signing;
+    setSigning(null);
+
+    try {
+      await respondMutation.mutateAsync({ revisionId, decision, signatureData });
+      Alert.alert(
+        decision === 'APPROVE' ? 'Change Order Approved' : 'Change Order Rejected',
+        decision === 'APPROVE'
+          ? 'Your balance has been updated to include the approved changes.'
+          : 'The mechanic has been notified. Your original quote still applies.'
+      );
+    } catch (error) {
+      console.error('Error responding to change order:', error);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'PENDING': return Colors.warning;
+      case 'APPROVED': return Colors.success;
+      case 'REJECTED': return Colors.error;
+      default: return Colors.textMuted;
+    }
+  };
+
+  const renderLine = (item: QuoteLineItem, sign: '+' | '-', index: number) => (
+    <View key={`${sign}-${index}`} style={styles.diffRow}>
+      <Text style={[styles.diffSign, { color: sign === '+' ? Colors.success : Colors.error }]}>{sign}</Text>
+      <Text style={[styles.diffLabel, sign === '-' && styles.removedText]} numberOfLines={1}>
+        {item.description}
+        {item.quantity !== 1 ? ` × ${item.quantity}` : ''}
+        {item.partNumber ? ` (#${item.partNumber})` : ''}
+      </Text>
+      <Text style={[styles.diffValue, sign === '-' && styles.removedText]}>
+        {item.type === 'DISCOUNT' ? '-' : ''}${item.total.toFixed(2)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.FilePlus size={16} color={Colors.primary} />
+        <Text style={styles.title}>Change Orders</Text>
+      </View>
+
+      {revisions.map((revision) => {
+        const added = revision.addedItems ?? [];
+        const removed = revision.removedItems ?? [];
+        const difference = revision.total - revision.previousTotal;
+        const isPending = revision.status === 'PENDING';
+
+        return (
+          <View key={revision.id} style={styles.revisionCard}>
+            <View style={styles.revisionHeader}>
+              <Text style={styles.revisionTitle}>Version {revision.version}</Text>
+              <View style={[styles.statusBadge, { backgroundColor: getStatusColor(revision.status) + '20' }]}>
+                <Text style={[styles.statusText, { color: getStatusColor(revision.status) }]}>
+                  {revision.status}
+                </Text>
+              </View>
+            </View>
+
+            {revision.reason && <Text style={styles.reason}>{revision.reason}</Text>}
+
+            <View style={styles.diff}>
+              {added.map((item, index) => renderLine(item, '+', index))}
+              {removed.map((item, index) => renderLine(item, '-', index))}
+            </View>
+
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>
+                ${revision.previousTotal.toFixed(2)} → ${revision.total.toFixed(2)}
+              </Text>
+              <Text style={[styles.totalDelta, { color: difference > 0 ? Colors.warning : Colors.success }]}>
+                {difference >= 0 ? '+' : '-'}${Math.abs(difference).toFixed(2)}
+              </Text>
+            </View>
+
+            {isPending && (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.approveButton}
+                  disabled={respondMutation.isPending}
+                  onPress={() => setSigning({ revisionId: revision.id, version: revision.version, decision: 'APPROVE' })}
+                >
+                  <Icons.Check size={16} color={Colors.white} />
+                  <Text style={styles.approveButtonText}>Approve & Sign</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.rejectButton}
+                  disabled={respondMutation.isPending}
+                  onPress={() => setSigning({ revisionId: revision.id, version: revision.version, decision: 'REJECT' })}
+                >
+                  <Icons.X size={16} color={Colors.error} />
+                  <Text style={styles.rejectButtonText}>Reject</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <Modal visible={!!signing} animationType="slide" onRequestClose={() => setSigning(null)}>
+        {signing && (
+          <SignatureCapture
+            jobId={signing.revisionId}
+            jobTitle={`Change Order v${signing.version}`}
+            summaryTitle={signing.decision === 'APPROVE' ? 'Approve Change Order' : 'Reject Change Order'}
+            summaryText={
+              signing.decision === 'APPROVE'
+                ? 'Your signature authorizes the additional work and the updated total.'
+                : 'Your signature confirms you are declining this change. Your previously approved quote still applies.'
+            }
+            agreementItems={
+              signing.decision === 'APPROVE'
+                ? ['The changes have been explained', 'The updated total replaces the previous quote']
+                : ['The proposed changes will not be performed']
+            }
+            confirmLabel={signing.decision === 'APPROVE' ? 'Approve' : 'Reject'}
+            confirmMessage={`Sign to ${signing.decision === 'APPROVE' ? 'approve' : 'reject'} change order v${signing.version}?`}
+            onSignatureComplete={handleSigned}
+            onCancel={() => setSigning(null)}
+          />
+        )}
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  loading: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  revisionCard: {
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 12,
+    marginBottom: 8,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  revisionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  reason: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  diff: {
+    marginVertical: 4,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  diffSign: {
+    width: 14,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  diffLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.text,
+  },
+  diffValue: {
+    fontSize: 13,
+    color: Colors.text,
+  },
+  removedText: {
+    color: Colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingTop: 6,
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  totalDelta: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  approveButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: Colors.success,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  approveButtonText: {
+    color: Colors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rejectButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: Colors.error,
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  rejectButtonText: {
+    color: Colors.error,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -221,6 +221,56 @@ export function ReportsAnalytics({ mechanicId }: ReportsAnalyticsProps) {
         </View>
       </View>
 
+      {/* Revenue by payment source */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Payments Received</Text>
+        <View style={styles.revenueCard}>
+          <View style={styles.revenueRow}>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Card</Text>
+              <Text style={styles.revenueValue}>{formatCurrency(metrics?.revenueBySource?.card || 0)}</Text>
+            </View>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Cash</Text>
+              <Text style={styles.revenueValue}>{formatCurrency(metrics?.revenueBySource?.cash || 0)}</Text>
+            </View>
+          </View>
+          <View style={styles.revenueRow}>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Check</Text>
+              <Text style={styles.revenueValue}>{formatCurrency(metrics?.revenueBySource?.check || 0)}</Text>
+            </View>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Tap to Pay</Text>
+              <Text style={styles.revenueValue}>{formatCurrency(metrics?.revenueBySource?.tapToPay || 0)}</Text>
+            </View>
+          </View>
+        </View>
+      </View>
+
+      {/* Tips */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Tips</Text>
+        <View style={styles.revenueCard}>
+          <View style={styles.revenueRow}>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Total Tips</Text>
+              <Text style={styles.revenueValue}>{formatCurrency(metrics?.totalTips || 0)}</Text>
+            </View>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Average Tip</Text>
+              <Text style={styles.revenueValue}>{formatCurrency(metrics?.averageTip || 0)}</Text>
+            </View>
+          </View>
+          <View style={styles.revenueRow}>
+            <View style={styles.revenueItem}>
+              <Text style={styles.revenueLabel}>Jobs Tipped</Text>
+              <Text style={styles.revenueValue}>{metrics?.tippedJobs || 0} of {metrics?.completedJobs || 0}</Text>
+            </View>
+          </View>
+        </View>
+      </View>
+
       {/* Export Options */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Export Reports</Text>
@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import MapView, { Circle, Marker, Polygon, PROVIDER_GOOGLE } from 'react-native-maps';
+import { Colors } from '@/constants/colors';
+import { getDefaultRegion, getRegionForCoordinates, type Coordinates } from '@/utils/map-utils';
+
+const METERS_PER_MILE = 1609.344;
+
+export interface ServiceZoneMapProps {
+  shape: 'POLYGON' | 'RADIUS';
+  points: Coordinates[];
+  center: Coordinates | null;
+  radiusMiles: number | null;
+  onPress: (coordinate: Coordinates) => void;
+}
+
+/**
+ * Map for drawing a service zone: each tap adds a polygon vertex, or moves
+ * the center of a radius zone
+ */
+export function ServiceZoneMap({ shape, points, center, radiusMiles, onPress }: ServiceZoneMapProps) {
+  const drawn = shape === 'POLYGON' ? points : center ? [center] : [];
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        style={styles.map}
+        provider={PROVIDER_GOOGLE}
+        initialRegion={drawn.length > 0 ? getRegionForCoordinates(drawn) : getDefaultRegion()}
+        onPress={(event) => onPress(event.nativeEvent.coordinate)}
+      >
+        {shape === 'POLYGON' && points.map((point, index) => (
+          <Marker key={`${point.latitude},${point.longitude},${index}`} coordinate={point} pinColor={Colors.primary} />
+        ))}
+        {shape === 'POLYGON' && points.length >= 3 && (
+          <Polygon coordinates={points} strokeColor={Colors.primary} fillColor={Colors.primary + '33'} strokeWidth={2} />
+        )}
+
+        {shape === 'RADIUS' && center && <Marker coordinate={center} pinColor={Colors.primary} />}
+        {shape === 'RADIUS' && center && radiusMiles ? (
+          <Circle
+            center={center}
+            radius={radiusMiles * METERS_PER_MILE}
+            strokeColor={Colors.primary}
+            fillColor={Colors.primary + '33'}
+            strokeWidth={2}
+          />
+        ) : null}
+      </MapView>
+      <Text style={styles.hint}>
+        {shape === 'POLYGON' ? 'Tap the map to add corners of the area' : 'Tap the map to place the center'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 260,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  map: {
+    flex: 1,
+  },
+  hint: {
+    position: 'absolute',
+    bottom: 8,
+    left: 8,
+    right: 8,
+    textAlign: 'center',
+    fontSize: 12,
+    color: Colors.text,
+    backgroundColor: Colors.background + 'CC',
+    borderRadius: 6,
+    paddingVertical: 4,
+  },
+});
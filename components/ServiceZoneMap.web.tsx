@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import type { ServiceZoneMapProps } from './ServiceZoneMap';
+
+/**
+ * Web stand-in for the zone drawing map, which needs the native map SDK:
+ * points are typed as "latitude, longitude"
+ */
+export function ServiceZoneMap({ shape, points, center, onPress }: ServiceZoneMapProps) {
+  const [text, setText] = useState('');
+
+  const handleAdd = () => {
+    const [latitude, longitude] = text.split(',').map((part) => Number(part.trim()));
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return;
+    }
+
+    onPress({ latitude, longitude });
+    setText('');
+  };
+
+  const drawn = shape === 'POLYGON' ? points : center ? [center] : [];
+
+  return (
+    <View style={styles.container}>
+      {drawn.map((point, index) => (
+        <Text key={`${point.latitude},${point.longitude},${index}`} style={styles.point}>
+          {shape === 'POLYGON' ? `${index + 1}. ` : 'Center: '}
+          {point.latitude.toFixed(5)}, {point.longitude.toFixed(5)}
+        </Text>
+      ))}
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          placeholder="Latitude, longitude"
+          placeholderTextColor={Colors.textMuted}
+          value={text}
+          onChangeText={setText}
+          onSubmitEditing={handleAdd}
+        />
+        <Button title={shape === 'POLYGON' ? 'Add Point' : 'Set Center'} size="small" variant="outline" onPress={handleAdd} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  point: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+  },
+});
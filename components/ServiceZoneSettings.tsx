@@ -0,0 +1,490 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Switch, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { ServiceZoneMap } from '@/components/ServiceZoneMap';
+import { trpc, type RouterOutputs } from '@/lib/trpc';
+import type { Coordinates } from '@/utils/map-utils';
+import * as Icons from 'lucide-react-native';
+
+interface ServiceZoneForm {
+  id?: string;
+  name: string;
+  shape: 'POLYGON' | 'RADIUS';
+  polygon: Coordinates[];
+  center: Coordinates | null;
+  radiusMiles: string; // As typed
+  mechanicId: string | null; // Null for the service area
+  travelFeePerMile: string; // Blank uses the global rate
+  minimumTravelFee: string;
+  surcharge: string;
+  surchargeLabel: string;
+  priority: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: ServiceZoneForm = {
+  name: '',
+  shape: 'POLYGON',
+  polygon: [],
+  center: null,
+  radiusMiles: '',
+  mechanicId: null,
+  travelFeePerMile: '',
+  minimumTravelFee: '',
+  surcharge: '0',
+  surchargeLabel: '',
+  priority: '0',
+  isActive: true,
+};
+
+type ServiceZoneRow = RouterOutputs['admin']['listServiceZones']['zones'][number];
+
+const optionalNumber = (value: string | number | null) => (value == null ? '' : String(value));
+
+const parseOptional = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const describeZone = (zone: ServiceZoneRow) => {
+  const parts = [
+    zone.shape === 'RADIUS' ? `${zone.radiusMiles} mi radius` : `${zone.polygon?.length ?? 0}-point area`,
+  ];
+  if (zone.travelFeePerMile != null) parts.push(`$${zone.travelFeePerMile.toFixed(2)}/mi`);
+  if (zone.minimumTravelFee != null) parts.push(`min $${zone.minimumTravelFee.toFixed(2)}`);
+  if (zone.surcharge > 0) parts.push(`+$${zone.surcharge.toFixed(2)} ${zone.surchargeLabel || 'surcharge'}`);
+  if (zone.priority !== 0) parts.push(`priority ${zone.priority}`);
+  return parts.join(' • ');
+};
+
+export function ServiceZoneSettings() {
+  const [form, setForm] = useState<ServiceZoneForm | null>(null);
+
+  const { data, isLoading, refetch } = trpc.admin.listServiceZones.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: mechanicsData } = trpc.admin.getAllUsers.useQuery(
+    { role: 'MECHANIC' },
+    { enabled: !!form, refetchOnWindowFocus: false }
+  );
+
+  const upsertMutation = trpc.admin.upsertServiceZone.useMutation({
+    onSuccess: () => {
+      setForm(null);
+      refetch();
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to save zone. Please try again.');
+    },
+  });
+
+  const deleteMutation = trpc.admin.deleteServiceZone.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to delete zone. Please try again.');
+    },
+  });
+
+  const zones = data?.zones ?? [];
+  const serviceArea = zones.filter((zone) => !zone.mechanicId);
+  const coverage = zones.filter((zone) => zone.mechanicId);
+  const mechanics = mechanicsData?.users ?? [];
+
+  const handleEdit = (zone: ServiceZoneRow) => {
+    setForm({
+      id: zone.id,
+      name: zone.name,
+      shape: zone.shape,
+      polygon: zone.polygon ?? [],
+      center: zone.centerLatitude != null && zone.centerLongitude != null
+        ? { latitude: zone.centerLatitude, longitude: zone.centerLongitude }
+        : null,
+      radiusMiles: optionalNumber(zone.radiusMiles),
+      mechanicId: zone.mechanicId,
+      travelFeePerMile: optionalNumber(zone.travelFeePerMile),
+      minimumTravelFee: optionalNumber(zone.minimumTravelFee),
+      surcharge: String(zone.surcharge),
+      surchargeLabel: zone.surchargeLabel ?? '',
+      priority: String(zone.priority),
+      isActive: zone.isActive,
+    });
+  };
+
+  const handleDelete = (zone: ServiceZoneRow) => {
+    Alert.alert(
+      'Delete Zone',
+      `Delete "${zone.name}"? Existing quotes keep the travel fees they were priced with.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteMutation.mutate({ id: zone.id }) },
+      ]
+    );
+  };
+
+  const handleMapPress = (coordinate: Coordinates) => {
+    if (!form) return;
+
+    if (form.shape === 'POLYGON') {
+      setForm({ ...form, polygon: [...form.polygon, coordinate] });
+    } else {
+      setForm({ ...form, center: coordinate });
+    }
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+
+    const radiusMiles = parseOptional(form.radiusMiles);
+    const travelFeePerMile = parseOptional(form.travelFeePerMile);
+    const minimumTravelFee = parseOptional(form.minimumTravelFee);
+    const surcharge = Number(form.surcharge || 0);
+    const priority = Number(form.priority || 0);
+
+    if (!form.name.trim()) {
+      Alert.alert('Missing Information', 'Enter a name for the zone.');
+      return;
+    }
+
+    if (form.shape === 'POLYGON' && form.polygon.length < 3) {
+      Alert.alert('Incomplete Area', 'Tap at least three points on the map to outline the area.');
+      return;
+    }
+
+    if (form.shape === 'RADIUS' && (!form.center || !radiusMiles || radiusMiles <= 0)) {
+      Alert.alert('Incomplete Area', 'Place the center on the map and enter a radius in miles.');
+      return;
+    }
+
+    const amounts = [travelFeePerMile, minimumTravelFee, surcharge].filter((value) => value != null);
+    if (amounts.some((value) => !Number.isFinite(value) || (value as number) < 0) || !Number.isInteger(priority)) {
+      Alert.alert('Invalid Amount', 'Fees must be dollar amounts and priority a whole number.');
+      return;
+    }
+
+    upsertMutation.mutate({
+      id: form.id,
+      name: form.name.trim(),
+      shape: form.shape,
+      polygon: form.shape === 'POLYGON' ? form.polygon : null,
+      centerLatitude: form.shape === 'RADIUS' ? form.center!.latitude : null,
+      centerLongitude: form.shape === 'RADIUS' ? form.center!.longitude : null,
+      radiusMiles: form.shape === 'RADIUS' ? radiusMiles : null,
+      mechanicId: form.mechanicId,
+      travelFeePerMile,
+      minimumTravelFee,
+      surcharge,
+      surchargeLabel: form.surchargeLabel.trim() || null,
+      priority,
+      isActive: form.isActive,
+    });
+  };
+
+  const renderZone = (zone: ServiceZoneRow) => (
+    <View key={zone.id} style={[styles.zoneRow, !zone.isActive && styles.inactive]}>
+      <View style={styles.zoneInfo}>
+        <Text style={styles.zoneName}>
+          {zone.name}
+          {zone.mechanic ? ` — ${zone.mechanic.firstName} ${zone.mechanic.lastName}` : ''}
+        </Text>
+        <Text style={styles.zoneDetail}>{describeZone(zone)}</Text>
+      </View>
+      <TouchableOpacity onPress={() => handleEdit(zone)} style={styles.iconButton}>
+        <Icons.Pencil size={16} color={Colors.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => handleDelete(zone)} style={styles.iconButton}>
+        <Icons.Trash2 size={16} color={Colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />;
+  }
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        Customers can only request service inside a service area zone. Where zones overlap, the
+        highest priority applies; blank fees fall back to the travel fee settings. With no zones,
+        service is offered everywhere.
+      </Text>
+
+      <Text style={styles.groupTitle}>Service Area</Text>
+      {serviceArea.length === 0 && <Text style={styles.empty}>No service area zones configured</Text>}
+      {serviceArea.map(renderZone)}
+
+      <Text style={styles.groupTitle}>Mechanic Coverage</Text>
+      <Text style={styles.empty}>
+        {coverage.length === 0
+          ? 'Mechanics without coverage zones are offered jobs within their service radius'
+          : 'Mechanics with coverage zones are only offered jobs inside them'}
+      </Text>
+      {coverage.map(renderZone)}
+
+      {form ? (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder="Name (e.g. Downtown)"
+            placeholderTextColor={Colors.textMuted}
+            value={form.name}
+            onChangeText={(name) => setForm({ ...form, name })}
+          />
+
+          <Text style={styles.label}>Applies to</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, !form.mechanicId && styles.chipActive]}
+              onPress={() => setForm({ ...form, mechanicId: null })}
+            >
+              <Text style={[styles.chipText, !form.mechanicId && styles.chipTextActive]}>Service area</Text>
+            </TouchableOpacity>
+            {mechanics.map((mechanic) => (
+              <TouchableOpacity
+                key={mechanic.id}
+                style={[styles.chip, form.mechanicId === mechanic.id && styles.chipActive]}
+                onPress={() => setForm({ ...form, mechanicId: mechanic.id })}
+              >
+                <Text style={[styles.chipText, form.mechanicId === mechanic.id && styles.chipTextActive]}>
+                  {mechanic.firstName} {mechanic.lastName}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.chips}>
+            {(['POLYGON', 'RADIUS'] as const).map((shape) => (
+              <TouchableOpacity
+                key={shape}
+                style={[styles.chip, form.shape === shape && styles.chipActive]}
+                onPress={() => setForm({ ...form, shape })}
+              >
+                <Text style={[styles.chipText, form.shape === shape && styles.chipTextActive]}>
+                  {shape === 'POLYGON' ? 'Draw area' : 'Radius'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ServiceZoneMap
+            shape={form.shape}
+            points={form.polygon}
+            center={form.center}
+            radiusMiles={parseOptional(form.radiusMiles)}
+            onPress={handleMapPress}
+          />
+
+          {form.shape === 'POLYGON' ? (
+            <View style={styles.inputRow}>
+              <Button
+                title="Undo Point"
+                size="small"
+                variant="outline"
+                onPress={() => setForm({ ...form, polygon: form.polygon.slice(0, -1) })}
+                disabled={form.polygon.length === 0}
+                style={styles.formButton}
+              />
+              <Button
+                title="Clear"
+                size="small"
+                variant="outline"
+                onPress={() => setForm({ ...form, polygon: [] })}
+                disabled={form.polygon.length === 0}
+                style={styles.formButton}
+              />
+            </View>
+          ) : (
+            <TextInput
+              style={styles.input}
+              placeholder="Radius (miles)"
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="decimal-pad"
+              value={form.radiusMiles}
+              onChangeText={(radiusMiles) => setForm({ ...form, radiusMiles })}
+            />
+          )}
+
+          {!form.mechanicId && (
+            <>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.inputHalf]}
+                  placeholder="Fee per mile $"
+                  placeholderTextColor={Colors.textMuted}
+                  keyboardType="decimal-pad"
+                  value={form.travelFeePerMile}
+                  onChangeText={(travelFeePerMile) => setForm({ ...form, travelFeePerMile })}
+                />
+                <TextInput
+                  style={[styles.input, styles.inputHalf]}
+                  placeholder="Minimum fee $"
+                  placeholderTextColor={Colors.textMuted}
+                  keyboardType="decimal-pad"
+                  value={form.minimumTravelFee}
+                  onChangeText={(minimumTravelFee) => setForm({ ...form, minimumTravelFee })}
+                />
+              </View>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.inputHalf]}
+                  placeholder="Surcharge $"
+                  placeholderTextColor={Colors.textMuted}
+                  keyboardType="decimal-pad"
+                  value={form.surcharge}
+                  onChangeText={(surcharge) => setForm({ ...form, surcharge })}
+                />
+                <TextInput
+                  style={[styles.input, styles.inputHalf]}
+                  placeholder="Surcharge label"
+                  placeholderTextColor={Colors.textMuted}
+                  value={form.surchargeLabel}
+                  onChangeText={(surchargeLabel) => setForm({ ...form, surchargeLabel })}
+                />
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Priority (higher wins where zones overlap)"
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="number-pad"
+                value={form.priority}
+                onChangeText={(priority) => setForm({ ...form, priority })}
+              />
+            </>
+          )}
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Active</Text>
+            <Switch
+              value={form.isActive}
+              onValueChange={(isActive) => setForm({ ...form, isActive })}
+              trackColor={{ false: Colors.border, true: Colors.primary }}
+            />
+          </View>
+          <View style={styles.inputRow}>
+            <Button title="Cancel" variant="outline" onPress={() => setForm(null)} style={styles.formButton} />
+            <Button
+              title={form.id ? 'Save Zone' : 'Add Zone'}
+              onPress={handleSave}
+              loading={upsertMutation.isPending}
+              style={styles.formButton}
+            />
+          </View>
+        </View>
+      ) : (
+        <Button title="Add Zone" variant="outline" onPress={() => setForm(EMPTY_FORM)} style={styles.addButton} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 12,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  inactive: {
+    opacity: 0.5,
+  },
+  zoneInfo: {
+    flex: 1,
+  },
+  zoneName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  zoneDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  form: {
+    marginTop: 12,
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.text,
+  },
+  chipTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  formButton: {
+    flex: 1,
+  },
+  addButton: {
+    marginTop: 12,
+  },
+});
@@ -11,11 +11,34 @@ interface SignatureCaptureProps {
   jobTitle: string;
   onSignatureComplete: (jobId: string, signatureData: string) => void;
   onCancel: () => void;
+  // Copy overrides for signatures that are not job sign-off (e.g. change orders)
+  summaryTitle?: string;
+  summaryText?: string;
+  agreementItems?: string[];
+  confirmLabel?: string;
+  confirmMessage?: string;
 }
 
+const DEFAULT_AGREEMENT_ITEMS = [
+  'Work has been completed satisfactorily',
+  'All services have been explained',
+  'Payment terms are understood',
+  'Service performed by Cody Owner',
+];
+
 const { width: screenWidth } = Dimensions.get('window');
 
-export function SignatureCapture({ jobId, jobTitle, onSignatureComplete, onCancel }: SignatureCaptureProps) {
+export function SignatureCapture({
+  jobId,
+  jobTitle,
+  onSignatureComplete,
+  onCancel,
+  summaryTitle = 'Work Completed',
+  summaryText,
+  agreementItems = DEFAULT_AGREEMENT_ITEMS,
+  confirmLabel = 'Complete Job',
+  confirmMessage = 'Confirm job completion with customer signature?',
+}: SignatureCaptureProps) {
   const [hasSignature, setHasSignature] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [signaturePaths, setSignaturePaths] = useState<{ x: number; y: number }[][]>([]);
@@ -133,12 +156,12 @@ export function SignatureCapture({ jobId, jobTitle, onSignatureComplete, onCance
     }
 
     Alert.alert(
-      'Complete Job',
-      'Confirm job completion with customer signature?',
+      confirmLabel,
+      confirmMessage,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Complete',
+          text: 'Confirm',
           onPress: () => {
             const signatureData = generateSignatureData();
             
@@ -216,12 +239,18 @@ export function SignatureCapture({ jobId, jobTitle, onSignatureComplete, onCance
 
       {/* Job Summary */}
       <View style={styles.jobSummary}>
-        <Text style={styles.summaryTitle}>Work Completed</Text>
-        <Text style={styles.summaryText}>
-          Service has been completed according to the agreed specifications. 
-          Customer signature confirms satisfaction with the work performed.
-        </Text>
-        <Text style={styles.mechanicInfo}>Completed by: Cody Owner</Text>
+        <Text style={styles.summaryTitle}>{summaryTitle}</Text>
+        {summaryText ? (
+          <Text style={styles.summaryText}>{summaryText}</Text>
+        ) : (
+          <>
+            <Text style={styles.summaryText}>
+              Service has been completed according to the agreed specifications. 
+              Customer signature confirms satisfaction with the work performed.
+            </Text>
+            <Text style={styles.mechanicInfo}>Completed by: Cody Owner</Text>
+          </>
+        )}
       </View>
 
       {/* Signature Canvas Area */}
@@ -295,10 +324,9 @@ export function SignatureCapture({ jobId, jobTitle, onSignatureComplete, onCance
         <Text style={styles.agreementText}>
           By signing above, the customer acknowledges that:
         </Text>
-        <Text style={styles.agreementItem}>• Work has been completed satisfactorily</Text>
-        <Text style={styles.agreementItem}>• All services have been explained</Text>
-        <Text style={styles.agreementItem}>• Payment terms are understood</Text>
-        <Text style={styles.agreementItem}>• Service performed by Cody Owner</Text>
+        {agreementItems.map((item) => (
+          <Text key={item} style={styles.agreementItem}>• {item}</Text>
+        ))}
       </View>
 
       {/* Production Requirements */}
@@ -321,7 +349,7 @@ export function SignatureCapture({ jobId, jobTitle, onSignatureComplete, onCance
           style={styles.cancelButton}
         />
         <Button
-          title="Complete Job"
+          title={confirmLabel}
           onPress={handleComplete}
           disabled={!hasSignature}
           style={[
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Switch, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc, type RouterOutputs } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+type TaxRule = RouterOutputs['admin']['listTaxRules']['rules'][number];
+
+interface TaxRuleForm {
+  id?: string;
+  name: string;
+  state: string;
+  zipPrefix: string;
+  partsRate: string; // Percent, as typed
+  laborRate: string;
+  fleetExempt: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: TaxRuleForm = {
+  name: '',
+  state: '',
+  zipPrefix: '',
+  partsRate: '',
+  laborRate: '0',
+  fleetExempt: false,
+  isActive: true,
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+export function TaxRulesSettings() {
+  const [form, setForm] = useState<TaxRuleForm | null>(null);
+
+  const { data, isLoading, refetch } = trpc.admin.listTaxRules.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const upsertMutation = trpc.admin.upsertTaxRule.useMutation({
+    onSuccess: () => {
+      setForm(null);
+      refetch();
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to save tax rule. Please try again.');
+    },
+  });
+
+  const deleteMutation = trpc.admin.deleteTaxRule.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to delete tax rule. Please try again.');
+    },
+  });
+
+  const rules = data?.rules ?? [];
+
+  const handleEdit = (rule: TaxRule) => {
+    setForm({
+      id: rule.id,
+      name: rule.name,
+      state: rule.state ?? '',
+      zipPrefix: rule.zipPrefix ?? '',
+      partsRate: String(Math.round(rule.partsRate * 10000) / 100),
+      laborRate: String(Math.round(rule.laborRate * 10000) / 100),
+      fleetExempt: rule.fleetExempt,
+      isActive: rule.isActive,
+    });
+  };
+
+  const handleDelete = (rule: TaxRule) => {
+    Alert.alert(
+      'Delete Tax Rule',
+      `Delete "${rule.name}"? Existing quotes keep the rates they were priced with.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteMutation.mutate({ id: rule.id }) },
+      ]
+    );
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+
+    const partsRate = Number(form.partsRate);
+    const laborRate = Number(form.laborRate || 0);
+
+    if (!form.name.trim() || (!form.state.trim() && !form.zipPrefix.trim())) {
+      Alert.alert('Missing Information', 'Enter a name and a state or ZIP prefix.');
+      return;
+    }
+
+    if (!Number.isFinite(partsRate) || !Number.isFinite(laborRate) || partsRate < 0 || laborRate < 0) {
+      Alert.alert('Invalid Rate', 'Rates must be percentages, e.g. 7.25');
+      return;
+    }
+
+    upsertMutation.mutate({
+      id: form.id,
+      name: form.name.trim(),
+      state: form.state.trim() || null,
+      zipPrefix: form.zipPrefix.trim() || null,
+      partsRate: partsRate / 100,
+      laborRate: laborRate / 100,
+      fleetExempt: form.fleetExempt,
+      isActive: form.isActive,
+    });
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />;
+  }
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        The most specific rule for the job location applies (ZIP prefix, then state). Without a
+        match, quotes are not taxed. Travel and service fees are taxed as labor.
+      </Text>
+
+      {rules.length === 0 && <Text style={styles.empty}>No tax rules configured</Text>}
+
+      {rules.map((rule) => (
+        <View key={rule.id} style={[styles.ruleRow, !rule.isActive && styles.inactive]}>
+          <View style={styles.ruleInfo}>
+            <Text style={styles.ruleName}>{rule.name}</Text>
+            <Text style={styles.ruleDetail}>
+              {[rule.state, rule.zipPrefix && `ZIP ${rule.zipPrefix}*`].filter(Boolean).join(' • ')}
+              {` • Parts ${formatPercent(rule.partsRate)} • Labor ${formatPercent(rule.laborRate)}`}
+              {rule.fleetExempt ? ' • Fleet exempt' : ''}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => handleEdit(rule)} style={styles.iconButton}>
+            <Icons.Pencil size={16} color={Colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(rule)} style={styles.iconButton}>
+            <Icons.Trash2 size={16} color={Colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {form ? (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder="Name (e.g. Texas)"
+            placeholderTextColor={Colors.textMuted}
+            value={form.name}
+            onChangeText={(name) => setForm({ ...form, name })}
+          />
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.inputHalf]}
+              placeholder="State (TX)"
+              placeholderTextColor={Colors.textMuted}
+              autoCapitalize="characters"
+              maxLength={2}
+              value={form.state}
+              onChangeText={(state) => setForm({ ...form, state })}
+            />
+            <TextInput
+              style={[styles.input, styles.inputHalf]}
+              placeholder="ZIP prefix (787)"
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="number-pad"
+              maxLength={5}
+              value={form.zipPrefix}
+              onChangeText={(zipPrefix) => setForm({ ...form, zipPrefix })}
+            />
+          </View>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.inputHalf]}
+              placeholder="Parts rate %"
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="decimal-pad"
+              value={form.partsRate}
+              onChangeText={(partsRate) => setForm({ ...form, partsRate })}
+            />
+            <TextInput
+              style={[styles.input, styles.inputHalf]}
+              placeholder="Labor rate %"
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="decimal-pad"
+              value={form.laborRate}
+              onChangeText={(laborRate) => setForm({ ...form, laborRate })}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Fleet customers exempt</Text>
+            <Switch
+              value={form.fleetExempt}
+              onValueChange={(fleetExempt) => setForm({ ...form, fleetExempt })}
+              trackColor={{ false: Colors.border, true: Colors.primary }}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Active</Text>
+            <Switch
+              value={form.isActive}
+              onValueChange={(isActive) => setForm({ ...form, isActive })}
+              trackColor={{ false: Colors.border, true: Colors.primary }}
+            />
+          </View>
+          <View style={styles.inputRow}>
+            <Button title="Cancel" variant="outline" onPress={() => setForm(null)} style={styles.formButton} />
+            <Button
+              title={form.id ? 'Save Rule' : 'Add Rule'}
+              onPress={handleSave}
+              loading={upsertMutation.isPending}
+              style={styles.formButton}
+            />
+          </View>
+        </View>
+      ) : (
+        <Button title="Add Tax Rule" variant="outline" onPress={() => setForm(EMPTY_FORM)} style={styles.addButton} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  inactive: {
+    opacity: 0.5,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  ruleDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  form: {
+    marginTop: 12,
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  formButton: {
+    flex: 1,
+  },
+  addButton: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Alert, ActivityIndicator, Image, Linking } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { trpc } from '@/lib/trpc';
+import * as Icons from 'lucide-react-native';
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  SELFIE: 'Selfie',
+  ID: 'Government ID',
+  ASE_CERTIFICATION: 'ASE Certification',
+  INSURANCE: 'Insurance',
+};
+
+const formatDate = (date: string | Date) => new Date(date).toLocaleDateString();
+
+/**
+ * Pending mechanic verifications for admins: open a submission to see its
+ * documents, then approve it or reject it with a note for the mechanic.
+ */
+export function VerificationReviewQueue() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const { data: pending, isLoading, refetch } = trpc.mechanic.getAllVerifications.useQuery({ status: 'PENDING' }, {
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: details, isLoading: detailsLoading } = trpc.mechanic.getVerificationDetails.useQuery(
+    { verificationId: selectedId ?? '' },
+    { enabled: !!selectedId, refetchOnWindowFocus: false },
+  );
+
+  const reviewMutation = trpc.mechanic.reviewVerification.useMutation({
+    onSuccess: (result) => {
+      setSelectedId(null);
+      setNotes('');
+      refetch();
+      Alert.alert('Review Saved', result.message);
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to save the review. Please try again.');
+    },
+  });
+
+  const remindersMutation = trpc.mechanic.notifyExpiringDocuments.useMutation({
+    onSuccess: (result) => {
+      Alert.alert('Reminders Sent', `${result.notified} expiry reminder(s) sent`);
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to send expiry reminders. Please try again.');
+    },
+  });
+
+  const handleReview = (status: 'approved' | 'rejected') => {
+    if (!selectedId) return;
+    if (status === 'rejected' && !notes.trim()) {
+      Alert.alert('Notes Required', 'Tell the mechanic what to fix before rejecting.');
+      return;
+    }
+    reviewMutation.mutate({ verificationId: selectedId, status, reviewNotes: notes.trim() || undefined });
+  };
+
+  const toggle = (verificationId: string) => {
+    setSelectedId(selectedId === verificationId ? null : verificationId);
+    setNotes('');
+  };
+
+  const submissions = pending ?? [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icons.ShieldCheck size={20} color={Colors.primary} />
+        <Text style={styles.title}>Mechanic Verifications</Text>
+        {submissions.length > 0 && (
+          <View style={styles.countBadge}>
+            <Text style={styles.countText}>{submissions.length}</Text>
+          </View>
+        )}
+      </View>
+
+      <Button
+        title="Send Expiry Reminders"
+        variant="outline"
+        size="small"
+        onPress={() => remindersMutation.mutate()}
+        loading={remindersMutation.isPending}
+      />
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : submissions.length === 0 ? (
+        <Text style={styles.empty}>No verifications waiting for review</Text>
+      ) : (
+        submissions.map((submission) => {
+          const isSelected = selectedId === submission.id;
+
+          return (
+            <View key={submission.id} style={styles.submissionRow}>
+              <TouchableOpacity style={styles.submissionHeader} onPress={() => toggle(submission.id)}>
+                <View style={styles.submissionDetails}>
+                  <Text style={styles.submissionName}>{submission.fullName}</Text>
+                  <Text style={styles.submissionDetail}>
+                    {submission.mechanicInfo.email} • Submitted {formatDate(submission.submittedAt)}
+                  </Text>
+                </View>
+                {isSelected
+                  ? <Icons.ChevronUp size={18} color={Colors.textSecondary} />
+                  : <Icons.ChevronDown size={18} color={Colors.textSecondary} />}
+              </TouchableOpacity>
+
+              {isSelected && (
+                detailsLoading || !details ? (
+                  <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+                ) : (
+                  <View style={styles.reviewForm}>
+                    {details.documents.map((document) => (
+                      <View key={document.id} style={styles.document}>
+                        <View style={styles.documentHeader}>
+                          <Text style={styles.documentLabel}>{DOCUMENT_LABELS[document.type] ?? document.type}</Text>
+                          {document.expiresAt && (
+                            <Text style={styles.submissionDetail}>Expires {formatDate(document.expiresAt)}</Text>
+                          )}
+                        </View>
+                        {document.mimeType === 'application/pdf' ? (
+                          <TouchableOpacity style={styles.pdfLink} onPress={() => Linking.openURL(document.url)}>
+                            <Icons.FileText size={16} color={Colors.primary} />
+                            <Text style={styles.pdfLinkText}>Open PDF</Text>
+                          </TouchableOpacity>
+                        ) : (
+                          <Image source={{ uri: document.url }} style={styles.documentImage} resizeMode="contain" />
+                        )}
+                      </View>
+                    ))}
+
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Review notes (required to reject)"
+                      placeholderTextColor={Colors.textMuted}
+                      value={notes}
+                      onChangeText={setNotes}
+                      multiline
+                    />
+                    <View style={styles.actions}>
+                      <Button
+                        title="Reject"
+                        variant="outline"
+                        size="small"
+                        onPress={() => handleReview('rejected')}
+                        disabled={reviewMutation.isPending}
+                        style={styles.actionButton}
+                      />
+                      <Button
+                        title="Approve"
+                        size="small"
+                        onPress={() => handleReview('approved')}
+                        loading={reviewMutation.isPending}
+                        style={styles.actionButton}
+                      />
+                    </View>
+                  </View>
+                )
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    flex: 1,
+  },
+  countBadge: {
+    backgroundColor: Colors.error,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  submissionRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  submissionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  submissionDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  submissionName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  submissionDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  reviewForm: {
+    marginTop: 8,
+    gap: 8,
+  },
+  document: {
+    gap: 4,
+  },
+  documentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  documentLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  documentImage: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    backgroundColor: Colors.background,
+  },
+  pdfLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  pdfLinkText: {
+    fontSize: 14,
+    color: Colors.primary,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: Colors.text,
+    minHeight: 60,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -6,6 +6,7 @@ import { ValidatedTextInput, VINInput } from './ValidatedTextInput';
 import { validateField, sanitizeDescription, sanitizeVIN } from '@/utils/validation';
 import { ServiceType, VehicleType } from '@/types/service';
 import { SERVICE_CATEGORIES } from '@/constants/services';
+import { trpc } from '@/lib/trpc';
 import * as Icons from 'lucide-react-native';
 
 export interface ServiceRequestFormData {
@@ -21,6 +22,7 @@ export interface ServiceRequestFormProps {
   onSubmit: (data: ServiceRequestFormData) => Promise<void> | void;
   onCancel?: () => void;
   isSubmitting?: boolean;
+  serviceLocation?: { latitude: number; longitude: number } | null; // Checked against the service area
 }
 
 export function ServiceRequestForm({
@@ -28,7 +30,9 @@ export function ServiceRequestForm({
   onSubmit,
   onCancel,
   isSubmitting = false,
+  serviceLocation,
 }: ServiceRequestFormProps) {
+  const trpcUtils = trpc.useUtils();
   const [urgency, setUrgency] = useState<ServiceRequestFormData['urgency']>(
     initialData?.urgency || 'medium'
   );
@@ -116,6 +120,14 @@ export function ServiceRequestForm({
   };
 
   const handleSubmit = async (values: Record<string, string>) => {
+    if (serviceLocation) {
+      const area = await trpcUtils.location.checkServiceArea.fetch(serviceLocation);
+      if ('servable' in area && !area.servable) {
+        Alert.alert('Outside Service Area', area.message || 'We do not offer mobile service at this location yet.');
+        return;
+      }
+    }
+
     const formData: ServiceRequestFormData = {
       description: values.description,
       vinNumber: values.vinNumber || undefined,
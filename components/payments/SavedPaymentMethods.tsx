@@ -0,0 +1,145 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Colors } from '@/constants/colors';
+import { Button } from '@/components/Button';
+import { useSavedCards } from '@/hooks/useSavedCards';
+import * as Icons from 'lucide-react-native';
+
+const formatCardBrand = (brand: string) =>
+  brand === 'amex' ? 'American Express' : brand.charAt(0).toUpperCase() + brand.slice(1);
+
+/**
+ * Customer wallet: saved cards, the default used for one-tap payment,
+ * adding and removing cards. Render inside a StripeProvider.
+ */
+export function SavedPaymentMethods() {
+  const { paymentMethods, isLoading, isSaving, isUpdating, addCard, setDefault, remove } = useSavedCards();
+
+  const handleAddCard = async () => {
+    try {
+      if (await addCard()) {
+        Alert.alert('Card Saved', 'Your card is saved for faster checkout.');
+      }
+    } catch (error) {
+      Alert.alert('Card Not Saved', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleRemove = (paymentMethodId: string, label: string) => {
+    Alert.alert('Remove Card', `Remove ${label} from your wallet?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => remove(paymentMethodId).catch((error) => {
+          Alert.alert('Error', error.message || 'Failed to remove the card. Please try again.');
+        }),
+      },
+    ]);
+  };
+
+  const handleSetDefault = (paymentMethodId: string) => {
+    setDefault(paymentMethodId).catch((error) => {
+      Alert.alert('Error', error.message || 'Failed to change your default card. Please try again.');
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      {isLoading ? (
+        <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+      ) : paymentMethods.length === 0 ? (
+        <Text style={styles.empty}>No saved cards. Save one to pay in one tap when your job is done.</Text>
+      ) : (
+        paymentMethods.map((method) => {
+          const label = method.card
+            ? `${formatCardBrand(method.card.brand)} •••• ${method.card.last4}`
+            : method.type;
+
+          return (
+            <View key={method.id} style={styles.cardRow}>
+              <Icons.CreditCard size={20} color={Colors.primary} />
+              <View style={styles.cardDetails}>
+                <Text style={styles.cardLabel}>{label}</Text>
+                {method.card && (
+                  <Text style={styles.cardExpiry}>
+                    Expires {method.card.expMonth.toString().padStart(2, '0')}/{method.card.expYear}
+                  </Text>
+                )}
+              </View>
+
+              {method.isDefault ? (
+                <Text style={styles.defaultBadge}>Default</Text>
+              ) : (
+                <TouchableOpacity onPress={() => handleSetDefault(method.id)} disabled={isUpdating}>
+                  <Text style={styles.action}>Make default</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => handleRemove(method.id, label)} disabled={isUpdating}>
+                <Icons.Trash2 size={18} color={Colors.error} />
+              </TouchableOpacity>
+            </View>
+          );
+        })
+      )}
+
+      <Button
+        title="Add Card"
+        variant="outline"
+        size="small"
+        onPress={handleAddCard}
+        loading={isSaving}
+        style={styles.addButton}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    paddingVertical: 8,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+  },
+  cardDetails: {
+    flex: 1,
+  },
+  cardLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  cardExpiry: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  defaultBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.success,
+  },
+  action: {
+    fontSize: 13,
+    color: Colors.primary,
+  },
+  addButton: {
+    marginTop: 8,
+  },
+});
@@ -13,16 +13,18 @@ import {
 import { Colors } from '@/constants/colors';
 import { trpc } from '@/lib/trpc';
 import { Ionicons } from '@expo/vector-icons';
+import { TipSelector, type TipChoice } from '@/components/payments/TipSelector';
+import { useSavedCards } from '@/hooks/useSavedCards';
 
 interface PaymentMethod {
   id: string;
   type: string;
-  card?: {
+  card: {
     brand: string;
     last4: string;
     expMonth: number;
     expYear: number;
-  };
+  } | null;
   isDefault: boolean;
 }
 
@@ -49,6 +51,7 @@ interface StripePaymentWidgetProps {
   visible: boolean;
   onClose: () => void;
   onPaymentSuccess: (paymentId: string) => void;
+  allowTip?: boolean; // Final payment on a completed job
 }
 
 export function StripePaymentWidget({
@@ -56,26 +59,44 @@ export function StripePaymentWidget({
   jobId,
   visible,
   onClose,
-  onPaymentSuccess
+  onPaymentSuccess,
+  allowTip = false
 }: StripePaymentWidgetProps) {
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod | null>(null);
   const [loading, setLoading] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [tip, setTip] = useState<TipChoice | null>(null);
 
-  // Get payment methods
-  const { data: paymentMethodsData, isLoading: loadingPaymentMethods } = 
-    trpc.payments.getPaymentMethods.useQuery();
+  // Saved cards; the widget must be rendered inside a StripeProvider to add one
+  const {
+    paymentMethods,
+    isLoading: loadingPaymentMethods,
+    isSaving: savingCard,
+    addCard,
+  } = useSavedCards();
 
   const createPaymentIntentMutation = trpc.payments.createPaymentIntent.useMutation();
   const confirmPaymentMutation = trpc.payments.confirmPaymentIntent.useMutation();
+  const addTipMutation = trpc.payments.addTip.useMutation();
+
+  // Account credit from earlier refunds
+  const { data: creditData, refetch: refetchCredit } = trpc.payments.getCreditBalance.useQuery();
+  const payWithCreditMutation = trpc.payments.payWithCredit.useMutation();
 
   useEffect(() => {
-    if (paymentMethodsData?.paymentMethods && paymentMethodsData.paymentMethods.length > 0) {
-      const defaultMethod = paymentMethodsData.paymentMethods.find(pm => pm.isDefault) 
-        || paymentMethodsData.paymentMethods[0];
+    if (paymentMethods.length > 0) {
+      const defaultMethod = paymentMethods.find(pm => pm.isDefault) || paymentMethods[0];
       setSelectedPaymentMethod(defaultMethod);
     }
-  }, [paymentMethodsData]);
+  }, [paymentMethods]);
+
+  const handleAddCard = async () => {
+    try {
+      await addCard();
+    } catch (error) {
+      Alert.alert('Card Not Saved', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
 
   const handlePayment = async () => {
     if (!selectedPaymentMethod) {
@@ -106,9 +127,25 @@ export function StripePaymentWidget({
       });
 
       if (confirmResult.success) {
+        // The tip is its own charge; a declined tip leaves the payment in place
+        let tipMessage = '';
+        if (allowTip && tip) {
+          try {
+            await addTipMutation.mutateAsync({
+              quoteId: quote.id,
+              ...(tip.percent !== undefined ? { percent: tip.percent } : { amount: tip.amount }),
+              paymentMethodId: selectedPaymentMethod.id,
+            });
+            tipMessage = ` Your $${tip.tip.toFixed(2)} tip was sent to your mechanic.`;
+          } catch (tipError) {
+            console.error('Tip error:', tipError);
+            tipMessage = ` Your tip could not be charged: ${tipError instanceof Error ? tipError.message : 'please try again'}.`;
+          }
+        }
+
         Alert.alert(
           'Payment Successful',
-          'Your payment has been processed successfully!',
+          `Your payment has been processed successfully!${tipMessage}`,
           [
             {
               text: 'OK',
@@ -134,6 +171,39 @@ export function StripePaymentWidget({
     }
   };
 
+  const handleApplyCredit = async () => {
+    try {
+      setProcessing(true);
+
+      const result = await payWithCreditMutation.mutateAsync({ quoteId: quote.id });
+      refetchCredit();
+
+      Alert.alert(
+        'Credit Applied',
+        `$${result.payment.amount.toFixed(2)} was paid from your account credit.`,
+        [
+          {
+            text: 'OK',
+            onPress: () => {
+              onPaymentSuccess(result.payment.id);
+              if (!result.schedule?.next) {
+                onClose();
+              }
+            }
+          }
+        ]
+      );
+    } catch (error) {
+      console.error('Credit payment error:', error);
+      Alert.alert(
+        'Payment Failed',
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const formatCardBrand = (brand: string) => {
     switch (brand.toLowerCase()) {
       case 'visa': return 'Visa';
@@ -232,6 +302,30 @@ export function StripePaymentWidget({
           {/* Quote Breakdown */}
           {renderQuoteBreakdown()}
 
+          {/* Account Credit */}
+          {(creditData?.balance ?? 0) > 0 && (
+            <View style={styles.creditSection}>
+              <View style={styles.creditDetails}>
+                <Ionicons name="gift-outline" size={24} color={Colors.success} />
+                <Text style={styles.creditText}>
+                  ${creditData?.balance.toFixed(2)} account credit available
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.creditButton}
+                onPress={handleApplyCredit}
+                disabled={processing}
+              >
+                <Text style={styles.creditButtonText}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Tip */}
+          {allowTip && (
+            <TipSelector total={quote.totalCost} value={tip} onChange={setTip} disabled={processing} />
+          )}
+
           {/* Payment Methods */}
           <View style={styles.paymentMethodsSection}>
             <Text style={styles.sectionTitle}>Payment Method</Text>
@@ -241,16 +335,20 @@ export function StripePaymentWidget({
                 <ActivityIndicator size="small" color={Colors.primary} />
                 <Text style={styles.loadingText}>Loading payment methods...</Text>
               </View>
-            ) : paymentMethodsData?.paymentMethods.length === 0 ? (
+            ) : paymentMethods.length === 0 ? (
               <View style={styles.emptyState}>
                 <Ionicons name="card-outline" size={48} color={Colors.textSecondary} />
                 <Text style={styles.emptyStateText}>No payment methods found</Text>
-                <TouchableOpacity style={styles.addPaymentButton}>
-                  <Text style={styles.addPaymentButtonText}>Add Payment Method</Text>
+                <TouchableOpacity style={styles.addPaymentButton} onPress={handleAddCard} disabled={savingCard}>
+                  {savingCard ? (
+                    <ActivityIndicator size="small" color={Colors.background} />
+                  ) : (
+                    <Text style={styles.addPaymentButtonText}>Add Payment Method</Text>
+                  )}
                 </TouchableOpacity>
               </View>
             ) : (
-              paymentMethodsData?.paymentMethods.map(renderPaymentMethod)
+              paymentMethods.map(renderPaymentMethod)
             )}
           </View>
 
@@ -277,7 +375,7 @@ export function StripePaymentWidget({
               <ActivityIndicator size="small" color={Colors.background} />
             ) : (
               <Text style={styles.payButtonText}>
-                Pay ${quote.totalCost.toFixed(2)}
+                Pay ${(quote.totalCost + (allowTip ? tip?.tip ?? 0 : 0)).toFixed(2)}
               </Text>
             )}
           </TouchableOpacity>
@@ -479,6 +577,39 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     flex: 1,
   },
+  creditSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: Colors.success,
+  },
+  creditDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    flex: 1,
+  },
+  creditText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  creditButton: {
+    backgroundColor: Colors.success,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  creditButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
   footer: {
     padding: 16,
     borderTopWidth: 1,
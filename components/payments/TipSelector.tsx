@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { Colors } from '@/constants/colors';
+
+/**
+ * One-tap tip percentages of the final amount
+ */
+const PRESET_PERCENTS = [10, 15, 20, 25];
+
+export interface TipChoice {
+  percent?: number;
+  amount?: number;
+  tip: number; // Dollar amount shown to the customer
+}
+
+interface TipSelectorProps {
+  total: number; // Final amount the percentages apply to
+  value: TipChoice | null;
+  onChange: (choice: TipChoice | null) => void;
+  disabled?: boolean;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function TipSelector({ total, value, onChange, disabled = false }: TipSelectorProps) {
+  const [custom, setCustom] = useState('');
+  const [editingCustom, setEditingCustom] = useState(false);
+
+  const selectPercent = (percent: number) => {
+    setEditingCustom(false);
+    onChange({ percent, tip: roundCents(total * (percent / 100)) });
+  };
+
+  const updateCustom = (text: string) => {
+    const cleaned = text.replace(/[^0-9.]/g, '');
+    setCustom(cleaned);
+
+    const amount = roundCents(Number(cleaned));
+    onChange(amount > 0 ? { amount, tip: amount } : null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Add a tip?</Text>
+      <Text style={styles.subtitle}>100% of your tip goes to your mechanic</Text>
+
+      <View style={styles.options}>
+        {PRESET_PERCENTS.map((percent) => {
+          const selected = !editingCustom && value?.percent === percent;
+          return (
+            <TouchableOpacity
+              key={percent}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => selectPercent(percent)}
+              disabled={disabled}
+            >
+              <Text style={[styles.optionPercent, selected && styles.optionTextSelected]}>{percent}%</Text>
+              <Text style={[styles.optionAmount, selected && styles.optionTextSelected]}>
+                ${roundCents(total * (percent / 100)).toFixed(2)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.options}>
+        <TouchableOpacity
+          style={[styles.option, editingCustom && styles.optionSelected]}
+          onPress={() => {
+            setEditingCustom(true);
+            updateCustom(custom);
+          }}
+          disabled={disabled}
+        >
+          <Text style={[styles.optionPercent, editingCustom && styles.optionTextSelected]}>Custom</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.option, !editingCustom && !value && styles.optionSelected]}
+          onPress={() => {
+            setEditingCustom(false);
+            onChange(null);
+          }}
+          disabled={disabled}
+        >
+          <Text style={[styles.optionPercent, !editingCustom && !value && styles.optionTextSelected]}>No tip</Text>
+        </TouchableOpacity>
+      </View>
+
+      {editingCustom && (
+        <TextInput
+          style={styles.input}
+          placeholder="Tip amount"
+          placeholderTextColor={Colors.textMuted}
+          value={custom}
+          onChangeText={updateCustom}
+          keyboardType="decimal-pad"
+          editable={!disabled}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.card,
+  },
+  optionSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  optionPercent: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  optionAmount: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  optionTextSelected: {
+    color: Colors.white,
+  },
+  input: {
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: Colors.text,
+  },
+});
@@ -74,7 +74,7 @@ export function ReviewSubmissionModal({
         jobId,
         rating: overallRating,
         comment: comment.trim() || undefined,
-        photos,
+        photos: photos.map(url => ({ url })),
         punctualityRating: categoryRatings.punctualityRating,
         qualityRating: categoryRatings.qualityRating,
         communicationRating: categoryRatings.communicationRating,
@@ -239,4 +239,14 @@ export const SERVICE_PRICING: Record<ServiceType, ServicePricing> = {
     ],
     priceRange: { min: 75, max: 250 },
   },
-};
\ No newline at end of file
+};
+
+export const SERVICE_TYPES = Object.keys(SERVICE_PRICING) as ServiceType[];
+
+/**
+ * Travel fee defaults; admins override them via SystemSettings
+ */
+export const TRAVEL_FEE_DEFAULTS = {
+  travelFeePerMile: 0.65,
+  minimumTravelFee: 15,
+};
@@ -48,7 +48,6 @@ export function useChat(jobId: string | null) {
     try {
       const result = await trpcClient.messages.getJobMessages.query({
         jobId,
-        userId,
         limit: 50,
       });
 
@@ -149,7 +148,6 @@ export function useChat(jobId: string | null) {
     try {
       await trpcClient.messages.markJobMessagesAsRead.mutate({
         jobId,
-        userId,
       });
 
       // Update local state
@@ -175,7 +173,6 @@ export function useChat(jobId: string | null) {
     try {
       const result = await trpcClient.messages.getUnreadCount.query({
         jobId,
-        userId,
       });
 
       if (result.success) {
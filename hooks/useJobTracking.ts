@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { wsClient } from '@/lib/websocket';
+import { wsClient, type GeofenceEvent, type PresenceEvent, type TrackingStoppedEvent } from '@/lib/websocket';
 
 /**
  * Job Location Update
@@ -8,9 +8,33 @@ export interface JobLocation {
   latitude: number;
   longitude: number;
   eta?: Date;
+  etaMinutes?: number;
+  distanceMeters?: number; // Straight line to the job
   timestamp: string;
 }
 
+/**
+ * Breadcrumb of the mechanic's route to the job
+ */
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Arrival geofence the mechanic has crossed
+ */
+export type ArrivalStage = 'ARRIVING' | 'ARRIVED';
+
+/**
+ * Someone online in the job room
+ */
+export interface Participant {
+  userId: string;
+  role: string;
+  connections: number; // Open sockets, e.g. phone and browser
+}
+
 /**
  * Job Status Update
  */
@@ -39,6 +63,10 @@ export function useJobTracking(jobId: string | null) {
   const [isInRoom, setIsInRoom] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<JobLocation | null>(null);
   const [lastStatusUpdate, setLastStatusUpdate] = useState<JobStatusUpdate | null>(null);
+  const [trail, setTrail] = useState<TrailPoint[]>([]);
+  const [arrivalStage, setArrivalStage] = useState<ArrivalStage | null>(null);
+  const [trackingStopped, setTrackingStopped] = useState(false);
+  const [participants, setParticipants] = useState<Participant[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   const jobIdRef = useRef(jobId);
@@ -97,13 +125,13 @@ export function useJobTracking(jobId: string | null) {
    * Update mechanic location
    */
   const updateLocation = useCallback(
-    (latitude: number, longitude: number, etaMinutes?: number) => {
+    (latitude: number, longitude: number, accuracy?: number) => {
       if (!jobId) {
         console.warn('Cannot update location: no jobId provided');
         return;
       }
 
-      wsClient.updateLocation(jobId, latitude, longitude, etaMinutes);
+      wsClient.updateLocation(jobId, latitude, longitude, accuracy);
     },
     [jobId]
   );
@@ -154,8 +182,31 @@ export function useJobTracking(jobId: string | null) {
           latitude: data.location.latitude,
           longitude: data.location.longitude,
           eta: data.eta ? new Date(data.eta) : undefined,
+          etaMinutes: data.etaMinutes ?? undefined,
+          distanceMeters: data.distanceMeters ?? undefined,
           timestamp: data.timestamp,
         });
+        setTrail((points) => [...points, { latitude: data.location.latitude, longitude: data.location.longitude }]);
+      }
+    };
+
+    const handleGeofence = (data: GeofenceEvent) => {
+      if (data.jobId === jobIdRef.current) {
+        setArrivalStage(data.event);
+      }
+    };
+
+    const handleTrackingStopped = (data: TrackingStoppedEvent) => {
+      if (data.jobId === jobIdRef.current) {
+        setTrackingStopped(true);
+        setCurrentLocation(null);
+        setTrail([]);
+      }
+    };
+
+    const handlePresence = (data: PresenceEvent) => {
+      if (data.jobId === jobIdRef.current) {
+        setParticipants(data.participants);
       }
     };
 
@@ -191,6 +242,9 @@ export function useJobTracking(jobId: string | null) {
     wsClient.onLocationUpdated(handleLocationUpdate);
     wsClient.onJobStatusUpdated(handleStatusUpdate);
     wsClient.onETAUpdated(handleETAUpdate);
+    wsClient.onGeofence(handleGeofence);
+    wsClient.onTrackingStopped(handleTrackingStopped);
+    wsClient.onPresence(handlePresence);
     wsClient.onError(handleError);
 
     // Auto-join room when connected and jobId is available
@@ -204,6 +258,9 @@ export function useJobTracking(jobId: string | null) {
       wsClient.off('job:location-updated', handleLocationUpdate);
       wsClient.off('job:status-updated', handleStatusUpdate);
       wsClient.off('job:eta-updated', handleETAUpdate);
+      wsClient.off('job:geofence', handleGeofence);
+      wsClient.off('job:tracking-stopped', handleTrackingStopped);
+      wsClient.off('job:presence', handlePresence);
       wsClient.off('error', handleError);
 
       clearInterval(interval);
@@ -221,6 +278,10 @@ export function useJobTracking(jobId: string | null) {
     isInRoom,
     currentLocation,
     lastStatusUpdate,
+    trail, // Points received since the hook mounted
+    arrivalStage,
+    trackingStopped,
+    participants, // Who is online in the job room, across all servers
     error,
 
     // Methods
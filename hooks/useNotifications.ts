@@ -89,10 +89,9 @@ export function useNotifications() {
       // Register token with backend if user is logged in
       if (userId && token) {
         const platform = Platform.OS as 'ios' | 'android' | 'web';
-        const deviceId = Device.osInternalBuildId;
+        const deviceId = Device.osInternalBuildId ?? undefined;
 
         await trpcClient.notifications.registerToken.mutate({
-          userId,
           token,
           platform,
           deviceId,
@@ -126,7 +125,6 @@ export function useNotifications() {
 
     try {
       const result = await trpcClient.notifications.getNotifications.query({
-        userId,
         limit: 50,
       });
 
@@ -145,9 +143,7 @@ export function useNotifications() {
     if (!userId) return;
 
     try {
-      const result = await trpcClient.notifications.getUnreadCount.query({
-        userId,
-      });
+      const result = await trpcClient.notifications.getUnreadCount.query();
 
       if (result.success) {
         setUnreadCount(result.count);
@@ -190,9 +186,7 @@ export function useNotifications() {
     if (!userId) return;
 
     try {
-      await trpcClient.notifications.markAllAsRead.mutate({
-        userId,
-      });
+      await trpcClient.notifications.markAllAsRead.mutate();
 
       // Update local state
       setNotifications((prev) =>
@@ -236,7 +230,6 @@ export function useNotifications() {
 
     try {
       await trpcClient.notifications.sendTestNotification.mutate({
-        userId,
         title: 'Test Notification',
         body: 'This is a test notification!',
       });
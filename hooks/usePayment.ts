@@ -2,19 +2,19 @@ import { useState } from 'react';
 import { useStripe } from '@stripe/stripe-react-native';
 import { trpcClient } from '@/lib/trpc';
 
-export function usePayment(jobId: string, customerId: string) {
+export function usePayment(quoteId: string) {
   const { initPaymentSheet, presentPaymentSheet } = useStripe();
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const processPayment = async (amount: number) => {
+  // Charges whatever the quote's payment schedule says is due next
+  const processPayment = async () => {
     setIsProcessing(true);
     try {
-      const result = await trpcClient.payment.createPaymentIntent.mutate({ jobId, customerId, amount });
-      if (!result.success) return { success: false, error: result.error };
+      const result = await trpcClient.payments.createPaymentIntent.mutate({ quoteId });
 
       const { error: initError } = await initPaymentSheet({
         merchantDisplayName: 'Heinicus Mobile Mechanic',
-        paymentIntentClientSecret: result.clientSecret!,
+        paymentIntentClientSecret: result.paymentIntent.clientSecret!,
       });
 
       if (initError) return { success: false, error: initError.message };
@@ -23,6 +23,8 @@ export function usePayment(jobId: string, customerId: string) {
       if (presentError) return { success: false, error: presentError.message };
 
       return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create payment' };
     } finally {
       setIsProcessing(false);
     }
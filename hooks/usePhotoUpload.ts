@@ -3,7 +3,7 @@ import * as ImagePicker from 'expo-image-picker';
 import * as ImageManipulator from 'expo-image-manipulator';
 import { trpcClient } from '@/lib/trpc';
 
-export function usePhotoUpload(jobId: string, uploaderId: string) {
+export function usePhotoUpload(jobId: string) {
   const [isUploading, setIsUploading] = useState(false);
 
   const pickAndUploadImage = async (type: 'BEFORE' | 'AFTER' | 'DIAGNOSTIC' | 'PARTS' | 'GENERAL' = 'GENERAL') => {
@@ -28,7 +28,6 @@ export function usePhotoUpload(jobId: string, uploaderId: string) {
 
       const uploadResult = await trpcClient.photos.uploadPhoto.mutate({
         jobId,
-        uploaderId,
         base64Data: `data:image/jpeg;base64,${manipResult.base64}`,
         type,
       });
@@ -33,7 +33,7 @@ export function usePushNotifications() {
   const notificationListener = useRef<Notifications.Subscription | null>(null);
   const responseListener = useRef<Notifications.Subscription | null>(null);
 
-  const registerDeviceTokenMutation = trpc.notifications.registerDeviceToken.useMutation();
+  const registerDeviceTokenMutation = trpc.notifications.registerToken.useMutation();
 
   // Register for push notifications
   const registerForPushNotificationsAsync = async () => {
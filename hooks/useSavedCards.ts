@@ -0,0 +1,71 @@
+import { useState, useCallback } from 'react';
+import { useStripe, PaymentSheetError } from '@stripe/stripe-react-native';
+import { trpc } from '@/lib/trpc';
+
+/**
+ * The signed-in user's saved cards, and saving a new one through the Stripe
+ * payment sheet in setup mode (nothing is charged). Must be rendered inside
+ * a StripeProvider.
+ */
+export function useSavedCards({ enabled = true }: { enabled?: boolean } = {}) {
+  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, refetch } = trpc.payments.getPaymentMethods.useQuery(undefined, {
+    enabled,
+    refetchOnWindowFocus: false,
+  });
+
+  const setupIntentMutation = trpc.payments.createSetupIntent.useMutation();
+  const setDefaultMutation = trpc.payments.setDefaultPaymentMethod.useMutation({
+    onSuccess: () => refetch(),
+  });
+  const removeMutation = trpc.payments.removePaymentMethod.useMutation({
+    onSuccess: () => refetch(),
+  });
+
+  /**
+   * Returns true once a card was saved, false when the customer backed out
+   */
+  const addCard = useCallback(async (): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const setup = await setupIntentMutation.mutateAsync();
+      if (!setup.clientSecret) {
+        throw new Error('Card setup could not be started');
+      }
+
+      const { error: initError } = await initPaymentSheet({
+        merchantDisplayName: 'Heinicus Mobile Mechanic',
+        setupIntentClientSecret: setup.clientSecret,
+      });
+      if (initError) {
+        throw new Error(initError.message);
+      }
+
+      const { error: presentError } = await presentPaymentSheet();
+      if (presentError) {
+        if (presentError.code === PaymentSheetError.Canceled) return false;
+        throw new Error(presentError.message);
+      }
+
+      await refetch();
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [setupIntentMutation, initPaymentSheet, presentPaymentSheet, refetch]);
+
+  const paymentMethods = data?.paymentMethods ?? [];
+
+  return {
+    paymentMethods,
+    defaultMethod: paymentMethods.find((method) => method.isDefault) ?? null,
+    isLoading,
+    isSaving,
+    addCard,
+    setDefault: (paymentMethodId: string) => setDefaultMutation.mutateAsync({ paymentMethodId }),
+    remove: (paymentMethodId: string) => removeMutation.mutateAsync({ paymentMethodId }),
+    isUpdating: setDefaultMutation.isPending || removeMutation.isPending,
+  };
+}
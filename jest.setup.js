@@ -1,5 +1,10 @@
 /* eslint-env jest */
 
+// jest-expo installs some globals lazily; resolve them while the test module
+// registry is still in scope so Jest 30 does not reject the late require.
+void globalThis.__ExpoImportMetaRegistry;
+void globalThis.structuredClone;
+
 // Silence the warning: Animated: `useNativeDriver` is not supported because the native animated module is missing
 // Mock by suppressing the console warning instead
 jest.spyOn(console, 'warn').mockImplementation((message) => {
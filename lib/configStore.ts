@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TRAVEL_FEE_DEFAULTS } from '@/constants/pricing';
 
 interface ConfigStore {
   // Production settings
@@ -40,8 +41,8 @@ export const useConfigStore = create<ConfigStore>()(
       showScooterSupport: true,
       showMotorcycleSupport: true,
       defaultLaborRate: 95,
-      travelFeePerMile: 0.65,
-      minimumTravelFee: 15,
+      travelFeePerMile: TRAVEL_FEE_DEFAULTS.travelFeePerMile,
+      minimumTravelFee: TRAVEL_FEE_DEFAULTS.minimumTravelFee,
       
       updateSetting: (key, value) => set({ [key]: value }),
     }),
@@ -83,8 +84,16 @@ export const getLabourRate = (): number => {
   return configStore.get().defaultLaborRate;
 };
 
-export const getTravelFeeCalculation = (miles: number): number => {
+// Travel pricing of the service zone a location is in (location.checkServiceArea)
+export interface TravelFeeZone {
+  travelFeePerMile: number | null;
+  minimumTravelFee: number | null;
+  surcharge: number;
+}
+
+export const getTravelFeeCalculation = (miles: number, zone?: TravelFeeZone | null): number => {
   const config = configStore.get();
-  const calculatedFee = miles * config.travelFeePerMile;
-  return Math.max(calculatedFee, config.minimumTravelFee);
+  const perMile = zone?.travelFeePerMile ?? config.travelFeePerMile;
+  const minimum = zone?.minimumTravelFee ?? config.minimumTravelFee;
+  return Math.max(miles * perMile, minimum) + (zone?.surcharge ?? 0);
 };
\ No newline at end of file
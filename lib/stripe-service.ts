@@ -1,6 +1,8 @@
-import { stripe, handleStripeError } from './stripe-config';
 import { Quote } from '@/types/service';
 
+// Server-side Stripe calls go through the backend PaymentProvider
+// (backend/services/payment-provider.ts); these are the shared helpers.
+
 export interface CreatePaymentIntentParams {
   amount: number; // in cents
   currency: string;
@@ -17,112 +19,6 @@ export interface PaymentIntentResponse {
   currency: string;
 }
 
-// Create payment intent for processing payments
-export const createPaymentIntent = async (
-  params: CreatePaymentIntentParams
-): Promise<PaymentIntentResponse> => {
-  try {
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(params.amount * 100), // Convert to cents
-      currency: params.currency.toLowerCase(),
-      customer: params.customerId,
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      metadata: {
-        quoteId: params.quoteId,
-        paymentType: params.paymentType,
-        ...params.metadata,
-      },
-    });
-
-    return {
-      clientSecret: paymentIntent.client_secret!,
-      paymentIntentId: paymentIntent.id,
-      amount: paymentIntent.amount,
-      currency: paymentIntent.currency,
-    };
-  } catch (error) {
-    const stripeError = handleStripeError(error);
-    throw new Error(stripeError.message);
-  }
-};
-
-// Create Stripe customer
-export const createStripeCustomer = async (
-  email: string,
-  name: string,
-  metadata?: Record<string, string>
-) => {
-  try {
-    const customer = await stripe.customers.create({
-      email,
-      name,
-      metadata,
-    });
-
-    return customer;
-  } catch (error) {
-    const stripeError = handleStripeError(error);
-    throw new Error(stripeError.message);
-  }
-};
-
-// Retrieve payment intent
-export const retrievePaymentIntent = async (paymentIntentId: string) => {
-  try {
-    return await stripe.paymentIntents.retrieve(paymentIntentId);
-  } catch (error) {
-    const stripeError = handleStripeError(error);
-    throw new Error(stripeError.message);
-  }
-};
-
-// Confirm payment intent (for server-side confirmation)
-export const confirmPaymentIntent = async (
-  paymentIntentId: string,
-  paymentMethodId: string
-) => {
-  try {
-    return await stripe.paymentIntents.confirm(paymentIntentId, {
-      payment_method: paymentMethodId,
-    });
-  } catch (error) {
-    const stripeError = handleStripeError(error);
-    throw new Error(stripeError.message);
-  }
-};
-
-// Cancel payment intent
-export const cancelPaymentIntent = async (paymentIntentId: string) => {
-  try {
-    return await stripe.paymentIntents.cancel(paymentIntentId);
-  } catch (error) {
-    const stripeError = handleStripeError(error);
-    throw new Error(stripeError.message);
-  }
-};
-
-// Create refund
-export const createRefund = async (
-  paymentIntentId: string,
-  amount?: number,
-  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer'
-) => {
-  try {
-    const refund = await stripe.refunds.create({
-      payment_intent: paymentIntentId,
-      amount,
-      reason,
-    });
-
-    return refund;
-  } catch (error) {
-    const stripeError = handleStripeError(error);
-    throw new Error(stripeError.message);
-  }
-};
-
 // Utility function to calculate Stripe fees
 export const calculateStripeFees = (amount: number): number => {
   // Stripe standard rate: 2.9% + 30¢ per transaction
@@ -1,11 +1,15 @@
 import { createTRPCReact } from "@trpc/react-query";
 import { httpLink } from "@trpc/client";
+import type { inferRouterOutputs } from "@trpc/server";
 import superjson from "superjson";
 import type { AppRouter } from "@/backend/trpc/app-router";
 import { Platform } from "react-native";
+import { useAuthStore } from "@/stores/auth-store";
 
 export const trpc = createTRPCReact<AppRouter>();
 
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
+
 const getBaseUrl = () => {
   // Check for disabled API (standalone mode)
   if (process.env.EXPO_PUBLIC_API_URL === 'disabled' || 
@@ -71,7 +75,11 @@ const createTRPCClient = () => {
           'Content-Type': 'application/json',
         };
 
-        if (process.env.EXPO_PUBLIC_API_KEY) {
+        // Protected procedures authorize against the signed-in user's JWT
+        const token = useAuthStore.getState().token;
+        if (token) {
+          headers['Authorization'] = `Bearer ${token}`;
+        } else if (process.env.EXPO_PUBLIC_API_KEY) {
           headers['Authorization'] = `Bearer ${process.env.EXPO_PUBLIC_API_KEY}`;
         }
 
@@ -9,6 +9,52 @@ import { useAuthStore } from '@/stores/auth-store';
 
 const WEBSOCKET_URL = process.env.EXPO_PUBLIC_WEBSOCKET_URL || 'http://localhost:3001';
 
+/**
+ * The mechanic is about to arrive or has arrived at the job
+ */
+export interface GeofenceEvent {
+  jobId: string;
+  event: 'ARRIVING' | 'ARRIVED';
+  etaMinutes?: number | null;
+  timestamp: string;
+}
+
+/**
+ * Location sharing ended with the job
+ */
+export interface TrackingStoppedEvent {
+  jobId: string;
+  timestamp: string;
+}
+
+/**
+ * Who is online in a job room, each user once
+ */
+export interface PresenceEvent {
+  jobId: string;
+  participants: { userId: string; role: string; connections: number }[];
+  timestamp: string;
+}
+
+/**
+ * A job offered to this mechanic by dispatch
+ */
+export interface DispatchOfferEvent {
+  id: string;
+  jobId: string;
+  expiresAt: string;
+}
+
+/**
+ * An offer that was accepted, declined or expired
+ */
+export interface DispatchOfferClosedEvent {
+  offerId: string;
+  status: 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+  jobId: string | null;
+  timestamp: string;
+}
+
 class WebSocketClient {
   private socket: Socket | null = null;
   private isConnecting: boolean = false;
@@ -168,9 +214,9 @@ class WebSocketClient {
   }
 
   /**
-   * Update mechanic location during job
+   * Update mechanic location during job; the server works out the ETA
    */
-  updateLocation(jobId: string, latitude: number, longitude: number, eta?: number): void {
+  updateLocation(jobId: string, latitude: number, longitude: number, accuracy?: number): void {
     if (!this.socket?.connected) {
       console.warn('WebSocket: Cannot update location - not connected');
       return;
@@ -180,7 +226,7 @@ class WebSocketClient {
       jobId,
       latitude,
       longitude,
-      eta,
+      accuracy,
     });
   }
 
@@ -197,6 +243,29 @@ class WebSocketClient {
     this.socket.emit('job:update-eta', { jobId, etaMinutes });
   }
 
+  /**
+   * Ask who is online in a joined job room; answered with job:presence
+   */
+  requestPresence(jobId: string): void {
+    if (!this.socket?.connected) {
+      return;
+    }
+
+    this.socket.emit('job:presence', { jobId });
+  }
+
+  /**
+   * Accept or decline a job offer (mechanic only)
+   */
+  respondToOffer(offerId: string, accept: boolean): void {
+    if (!this.socket?.connected) {
+      console.warn('WebSocket: Cannot respond to offer - not connected');
+      return;
+    }
+
+    this.socket.emit('dispatch:respond', { offerId, accept });
+  }
+
   // ========================================
   // Event Listeners
   // ========================================
@@ -222,6 +291,27 @@ class WebSocketClient {
     this.socket?.on('job:eta-updated', callback);
   }
 
+  /**
+   * Listen for the mechanic arriving soon or arriving at the job
+   */
+  onGeofence(callback: (data: GeofenceEvent) => void): void {
+    this.socket?.on('job:geofence', callback);
+  }
+
+  /**
+   * Listen for location sharing ending with the job
+   */
+  onTrackingStopped(callback: (data: TrackingStoppedEvent) => void): void {
+    this.socket?.on('job:tracking-stopped', callback);
+  }
+
+  /**
+   * Listen for who is online in a job room
+   */
+  onPresence(callback: (data: PresenceEvent) => void): void {
+    this.socket?.on('job:presence', callback);
+  }
+
   /**
    * Listen for job room join confirmation
    */
@@ -229,6 +319,20 @@ class WebSocketClient {
     this.socket?.on('job:joined', callback);
   }
 
+  /**
+   * Listen for job offers from dispatch (mechanics only)
+   */
+  onDispatchOffer(callback: (data: DispatchOfferEvent) => void): void {
+    this.socket?.on('dispatch:offer', callback);
+  }
+
+  /**
+   * Listen for offers that were accepted, declined or expired
+   */
+  onDispatchOfferClosed(callback: (data: DispatchOfferClosedEvent) => void): void {
+    this.socket?.on('dispatch:offer-closed', callback);
+  }
+
   /**
    * Listen for errors
    */
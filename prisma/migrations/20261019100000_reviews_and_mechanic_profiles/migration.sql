@@ -0,0 +1,124 @@
+-- CreateEnum
+CREATE TYPE "ReviewModerationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "ReviewReportReason" AS ENUM ('INAPPROPRIATE', 'SPAM', 'FAKE', 'OFFENSIVE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReviewReportStatus" AS ENUM ('PENDING', 'RESOLVED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "MechanicProfile" (
+    "id" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+    "bio" TEXT,
+    "specialties" TEXT[],
+    "yearsExperience" INTEGER,
+    "certifications" TEXT[],
+    "insuranceProvider" TEXT,
+    "insurancePolicyNo" TEXT,
+    "businessLicense" TEXT,
+    "rating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalJobs" INTEGER NOT NULL DEFAULT 0,
+    "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalReviews" INTEGER NOT NULL DEFAULT 0,
+    "ratingDistribution" JSONB,
+    "categoryAverages" JSONB,
+    "badges" JSONB,
+    "responseRate" DOUBLE PRECISION,
+    "lastRatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MechanicProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "revieweeId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "comment" TEXT,
+    "photos" JSONB,
+    "punctualityRating" INTEGER,
+    "qualityRating" INTEGER,
+    "communicationRating" INTEGER,
+    "valueRating" INTEGER,
+    "professionalismRating" INTEGER,
+    "isAnonymous" BOOLEAN NOT NULL DEFAULT false,
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "isHidden" BOOLEAN NOT NULL DEFAULT false,
+    "moderationStatus" "ReviewModerationStatus" NOT NULL DEFAULT 'APPROVED',
+    "moderationReason" TEXT,
+    "moderatedAt" TIMESTAMP(3),
+    "moderatedBy" TEXT,
+    "helpfulCount" INTEGER NOT NULL DEFAULT 0,
+    "reportCount" INTEGER NOT NULL DEFAULT 0,
+    "response" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "responseUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewReport" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" "ReviewReportReason" NOT NULL,
+    "description" TEXT,
+    "status" "ReviewReportStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+
+    CONSTRAINT "ReviewReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MechanicProfile_mechanicId_key" ON "MechanicProfile"("mechanicId");
+
+-- CreateIndex
+CREATE INDEX "MechanicProfile_averageRating_idx" ON "MechanicProfile"("averageRating");
+
+-- CreateIndex
+CREATE INDEX "Review_revieweeId_idx" ON "Review"("revieweeId");
+
+-- CreateIndex
+CREATE INDEX "Review_reviewerId_idx" ON "Review"("reviewerId");
+
+-- CreateIndex
+CREATE INDEX "Review_moderationStatus_idx" ON "Review"("moderationStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_jobId_reviewerId_key" ON "Review"("jobId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "ReviewReport_reviewId_idx" ON "ReviewReport"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReviewReport_status_idx" ON "ReviewReport"("status");
+
+-- AddForeignKey
+ALTER TABLE "MechanicProfile" ADD CONSTRAINT "MechanicProfile_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_revieweeId_fkey" FOREIGN KEY ("revieweeId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "JobTimelineKind" AS ENUM ('STATUS_CHANGE', 'TIME_LOG', 'PARTS_ADDED', 'PHOTO', 'SIGNATURE', 'PAYMENT', 'MESSAGE');
+
+-- CreateTable
+CREATE TABLE "JobTimeline" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "kind" "JobTimelineKind" NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "metadata" JSONB,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobTimeline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobTimeline_jobId_createdAt_idx" ON "JobTimeline"("jobId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "JobTimeline_kind_idx" ON "JobTimeline"("kind");
+
+-- AddForeignKey
+ALTER TABLE "JobTimeline" ADD CONSTRAINT "JobTimeline_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobTimeline" ADD CONSTRAINT "JobTimeline_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
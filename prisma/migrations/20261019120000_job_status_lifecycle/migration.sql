@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'SCHEDULED';
+ALTER TYPE "JobStatus" ADD VALUE 'EN_ROUTE';
+ALTER TYPE "JobStatus" ADD VALUE 'PAUSED';
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "QuoteLineItemType" AS ENUM ('LABOR', 'PART', 'TRAVEL', 'FEE', 'DISCOUNT', 'TAX');
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN     "discountTotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "feesCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "laborCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "partsCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxes" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "total" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "totalCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "travelFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill totals on existing single-amount quotes
+UPDATE "Quote" SET "subtotal" = "amount", "total" = "amount", "totalCost" = "amount";
+
+-- CreateTable
+CREATE TABLE "QuoteLineItem" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "type" "QuoteLineItemType" NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "partNumber" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuoteLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuoteLineItem_quoteId_position_idx" ON "QuoteLineItem"("quoteId", "position");
+
+-- AddForeignKey
+ALTER TABLE "QuoteLineItem" ADD CONSTRAINT "QuoteLineItem_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
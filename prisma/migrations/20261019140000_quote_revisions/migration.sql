@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "QuoteRevisionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED');
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "QuoteRevision" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "QuoteRevisionStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "lineItems" JSONB NOT NULL,
+    "addedItems" JSONB NOT NULL,
+    "removedItems" JSONB NOT NULL,
+    "totals" JSONB NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "previousTotal" DOUBLE PRECISION NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "respondedById" TEXT,
+    "signatureData" TEXT,
+    "signerName" TEXT,
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuoteRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuoteRevision_quoteId_status_idx" ON "QuoteRevision"("quoteId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuoteRevision_quoteId_version_key" ON "QuoteRevision"("quoteId", "version");
+
+-- AddForeignKey
+ALTER TABLE "QuoteRevision" ADD CONSTRAINT "QuoteRevision_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteRevision" ADD CONSTRAINT "QuoteRevision_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
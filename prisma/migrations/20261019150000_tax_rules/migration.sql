@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "isFleetAccount" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Quote" RENAME COLUMN "taxRate" TO "partsTaxRate";
+ALTER TABLE "Quote" ADD COLUMN     "laborTaxRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "partsTax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "laborTax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRuleId" TEXT,
+ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing quotes taxed everything at one rate
+UPDATE "Quote" SET "laborTaxRate" = "partsTaxRate";
+
+-- CreateTable
+CREATE TABLE "TaxRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "state" TEXT,
+    "zipPrefix" TEXT,
+    "partsRate" DOUBLE PRECISION NOT NULL,
+    "laborRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fleetExempt" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRule_state_idx" ON "TaxRule"("state");
+
+-- CreateIndex
+CREATE INDEX "TaxRule_zipPrefix_idx" ON "TaxRule"("zipPrefix");
+
+-- CreateIndex
+CREATE INDEX "TaxRule_isActive_idx" ON "TaxRule"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_taxRuleId_fkey" FOREIGN KEY ("taxRuleId") REFERENCES "TaxRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "invoiceFileId" TEXT,
+ADD COLUMN     "invoiceGeneratedAt" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "PaymentKind" AS ENUM ('DEPOSIT', 'BALANCE', 'FULL');
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN     "depositPercent" DOUBLE PRECISION,
+ADD COLUMN     "depositAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "depositPaidAt" TIMESTAMP(3),
+ADD COLUMN     "paidAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "quoteId" TEXT,
+ADD COLUMN     "kind" "PaymentKind" NOT NULL DEFAULT 'FULL';
+
+-- CreateIndex
+CREATE INDEX "Payment_quoteId_idx" ON "Payment"("quoteId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'CANCELED';
+ALTER TYPE "PaymentStatus" ADD VALUE 'DISPUTED';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PAYMENT_FAILED';
+ALTER TYPE "NotificationType" ADD VALUE 'PAYMENT_REFUNDED';
+ALTER TYPE "NotificationType" ADD VALUE 'PAYMENT_DISPUTED';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "paymentMethod" TEXT,
+ADD COLUMN     "refundAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "refundReason" TEXT,
+ADD COLUMN     "disputeId" TEXT,
+ADD COLUMN     "disputeStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProcessedWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "objectId" TEXT,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProcessedWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProcessedWebhookEvent_type_idx" ON "ProcessedWebhookEvent"("type");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PaymentSource" AS ENUM ('CARD', 'CASH', 'CHECK', 'TAP_TO_PAY');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('PENDING', 'RECONCILED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "stripePaymentId" DROP NOT NULL,
+ADD COLUMN     "source" "PaymentSource" NOT NULL DEFAULT 'CARD',
+ADD COLUMN     "checkNumber" TEXT,
+ADD COLUMN     "receiptFileId" TEXT,
+ADD COLUMN     "terminalReference" TEXT,
+ADD COLUMN     "recordedById" TEXT,
+ADD COLUMN     "attestation" TEXT,
+ADD COLUMN     "attestedAt" TIMESTAMP(3),
+ADD COLUMN     "reconciliationStatus" "ReconciliationStatus",
+ADD COLUMN     "reconciledById" TEXT,
+ADD COLUMN     "reconciledAt" TIMESTAMP(3),
+ADD COLUMN     "reconciliationNote" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Payment_source_idx" ON "Payment"("source");
+
+-- CreateIndex
+CREATE INDEX "Payment_reconciliationStatus_idx" ON "Payment"("reconciliationStatus");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
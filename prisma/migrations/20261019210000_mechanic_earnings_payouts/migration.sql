@@ -0,0 +1,138 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PAYOUT_SENT';
+
+-- CreateEnum
+CREATE TYPE "EarningsAccount" AS ENUM ('PLATFORM_CASH', 'MECHANIC_HELD_CASH', 'MECHANIC_PAYABLE', 'PLATFORM_FEES');
+
+-- CreateEnum
+CREATE TYPE "EarningsTransactionType" AS ENUM ('JOB_REVENUE', 'PLATFORM_FEE', 'TIP', 'REFUND_CLAWBACK', 'ADJUSTMENT', 'PAYOUT');
+
+-- CreateEnum
+CREATE TYPE "PayoutBatchStatus" AS ENUM ('DRAFT', 'EXPORTED', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "MechanicProfile" ADD COLUMN     "payoutAccountHolder" TEXT,
+ADD COLUMN     "payoutAccountNumber" TEXT,
+ADD COLUMN     "payoutAccountType" TEXT,
+ADD COLUMN     "payoutRoutingNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "EarningsTransaction" (
+    "id" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+    "type" "EarningsTransactionType" NOT NULL,
+    "description" TEXT NOT NULL,
+    "sourceKey" TEXT,
+    "paymentId" TEXT,
+    "refundId" TEXT,
+    "payoutId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EarningsTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EarningsEntry" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" "EarningsAccount" NOT NULL,
+    "debit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "EarningsEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "status" "PayoutBatchStatus" NOT NULL DEFAULT 'DRAFT',
+    "total" DOUBLE PRECISION NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "exportedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "accountLast4" TEXT,
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EarningsTransaction_sourceKey_key" ON "EarningsTransaction"("sourceKey");
+
+-- CreateIndex
+CREATE INDEX "EarningsTransaction_mechanicId_createdAt_idx" ON "EarningsTransaction"("mechanicId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EarningsTransaction_type_idx" ON "EarningsTransaction"("type");
+
+-- CreateIndex
+CREATE INDEX "EarningsTransaction_paymentId_idx" ON "EarningsTransaction"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "EarningsTransaction_payoutId_idx" ON "EarningsTransaction"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "EarningsEntry_transactionId_idx" ON "EarningsEntry"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "EarningsEntry_account_idx" ON "EarningsEntry"("account");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutBatch_periodEnd_key" ON "PayoutBatch"("periodEnd");
+
+-- CreateIndex
+CREATE INDEX "PayoutBatch_status_idx" ON "PayoutBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "Payout_mechanicId_idx" ON "Payout"("mechanicId");
+
+-- CreateIndex
+CREATE INDEX "Payout_status_idx" ON "Payout"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_batchId_mechanicId_key" ON "Payout"("batchId", "mechanicId");
+
+-- AddForeignKey
+ALTER TABLE "EarningsTransaction" ADD CONSTRAINT "EarningsTransaction_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EarningsTransaction" ADD CONSTRAINT "EarningsTransaction_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EarningsTransaction" ADD CONSTRAINT "EarningsTransaction_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "Payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EarningsTransaction" ADD CONSTRAINT "EarningsTransaction_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EarningsEntry" ADD CONSTRAINT "EarningsEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "EarningsTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutBatch" ADD CONSTRAINT "PayoutBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PayoutBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "defaultPaymentMethodId" TEXT,
+ADD COLUMN     "paymentCustomerId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_paymentCustomerId_key" ON "User"("paymentCustomerId");
@@ -0,0 +1,98 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'INVOICE_ISSUED';
+
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('OWNER', 'MEMBER');
+
+-- CreateEnum
+CREATE TYPE "OrganizationInvoiceStatus" AS ENUM ('OPEN', 'PAID', 'VOID');
+
+-- AlterTable
+ALTER TABLE "Vehicle" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "organizationId" TEXT,
+ADD COLUMN     "organizationInvoiceId" TEXT,
+ADD COLUMN     "poNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "billingEmail" TEXT NOT NULL,
+    "billingAddress" TEXT,
+    "paymentTermsDays" INTEGER NOT NULL DEFAULT 30,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationMember" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'MEMBER',
+    "approvalLimit" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationInvoice" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "status" "OrganizationInvoiceStatus" NOT NULL DEFAULT 'OPEN',
+    "paidAt" TIMESTAMP(3),
+    "fileId" TEXT,
+
+    CONSTRAINT "OrganizationInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationMember_userId_key" ON "OrganizationMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "OrganizationMember_organizationId_idx" ON "OrganizationMember"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationInvoice_invoiceNumber_key" ON "OrganizationInvoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "OrganizationInvoice_status_idx" ON "OrganizationInvoice"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationInvoice_organizationId_periodStart_key" ON "OrganizationInvoice"("organizationId", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "Vehicle_organizationId_idx" ON "Vehicle"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Job_organizationId_idx" ON "Job"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationInvoice" ADD CONSTRAINT "OrganizationInvoice_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Vehicle" ADD CONSTRAINT "Vehicle_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_organizationInvoiceId_fkey" FOREIGN KEY ("organizationInvoiceId") REFERENCES "OrganizationInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
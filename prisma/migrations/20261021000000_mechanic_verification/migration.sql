@@ -0,0 +1,55 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'VERIFICATION_UPDATE';
+ALTER TYPE "NotificationType" ADD VALUE 'DOCUMENT_EXPIRING';
+
+-- CreateEnum
+CREATE TYPE "VerificationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "VerificationDocumentType" AS ENUM ('SELFIE', 'ID', 'ASE_CERTIFICATION', 'INSURANCE');
+
+-- CreateTable
+CREATE TABLE "MechanicVerification" (
+    "id" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "status" "VerificationStatus" NOT NULL DEFAULT 'PENDING',
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewNotes" TEXT,
+
+    CONSTRAINT "MechanicVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VerificationDocument" (
+    "id" TEXT NOT NULL,
+    "verificationId" TEXT NOT NULL,
+    "type" "VerificationDocumentType" NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "expiryNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VerificationDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MechanicVerification_mechanicId_submittedAt_idx" ON "MechanicVerification"("mechanicId", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "MechanicVerification_status_idx" ON "MechanicVerification"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VerificationDocument_verificationId_type_key" ON "VerificationDocument"("verificationId", "type");
+
+-- CreateIndex
+CREATE INDEX "VerificationDocument_expiresAt_idx" ON "VerificationDocument"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "MechanicVerification" ADD CONSTRAINT "MechanicVerification_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VerificationDocument" ADD CONSTRAINT "VerificationDocument_verificationId_fkey" FOREIGN KEY ("verificationId") REFERENCES "MechanicVerification"("id") ON DELETE CASCADE ON UPDATE CASCADE;
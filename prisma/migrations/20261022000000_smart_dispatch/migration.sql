@@ -0,0 +1,56 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'JOB_OFFER';
+
+-- CreateEnum
+CREATE TYPE "DispatchStatus" AS ENUM ('OFFERING', 'ASSIGNED', 'ESCALATED');
+
+-- CreateEnum
+CREATE TYPE "DispatchOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "dispatchStatus" "DispatchStatus",
+ADD COLUMN "dispatchStartedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN "requiredTools" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "MechanicProfile" ADD COLUMN "skills" "ServiceCategory"[] DEFAULT ARRAY[]::"ServiceCategory"[],
+ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "locationUpdatedAt" TIMESTAMP(3),
+ADD COLUMN "serviceRadiusMiles" DOUBLE PRECISION NOT NULL DEFAULT 25;
+
+-- CreateTable
+CREATE TABLE "DispatchOffer" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "distanceMiles" DOUBLE PRECISION,
+    "status" "DispatchOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "offeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DispatchOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Job_dispatchStatus_idx" ON "Job"("dispatchStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DispatchOffer_jobId_mechanicId_key" ON "DispatchOffer"("jobId", "mechanicId");
+
+-- CreateIndex
+CREATE INDEX "DispatchOffer_mechanicId_status_idx" ON "DispatchOffer"("mechanicId", "status");
+
+-- CreateIndex
+CREATE INDEX "DispatchOffer_status_expiresAt_idx" ON "DispatchOffer"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "DispatchOffer" ADD CONSTRAINT "DispatchOffer_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DispatchOffer" ADD CONSTRAINT "DispatchOffer_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
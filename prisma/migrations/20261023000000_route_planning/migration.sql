@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "arrivalWindowEnd" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "RoutePlan" (
+    "id" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+    "day" TIMESTAMP(3) NOT NULL,
+    "startLatitude" DOUBLE PRECISION NOT NULL,
+    "startLongitude" DOUBLE PRECISION NOT NULL,
+    "jobOrder" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoutePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoutePlan_mechanicId_day_key" ON "RoutePlan"("mechanicId", "day");
+
+-- AddForeignKey
+ALTER TABLE "RoutePlan" ADD CONSTRAINT "RoutePlan_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
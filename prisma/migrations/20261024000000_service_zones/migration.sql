@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ServiceZoneShape" AS ENUM ('POLYGON', 'RADIUS');
+
+-- CreateTable
+CREATE TABLE "ServiceZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shape" "ServiceZoneShape" NOT NULL,
+    "polygon" JSONB,
+    "centerLatitude" DOUBLE PRECISION,
+    "centerLongitude" DOUBLE PRECISION,
+    "radiusMiles" DOUBLE PRECISION,
+    "mechanicId" TEXT,
+    "travelFeePerMile" DOUBLE PRECISION,
+    "minimumTravelFee" DOUBLE PRECISION,
+    "surcharge" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "surchargeLabel" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServiceZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceZone_mechanicId_idx" ON "ServiceZone"("mechanicId");
+
+-- CreateIndex
+CREATE INDEX "ServiceZone_isActive_idx" ON "ServiceZone"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "ServiceZone" ADD CONSTRAINT "ServiceZone_mechanicId_fkey" FOREIGN KEY ("mechanicId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
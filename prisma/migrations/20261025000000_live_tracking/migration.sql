@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'MECHANIC_ARRIVING';
+ALTER TYPE "NotificationType" ADD VALUE 'MECHANIC_ARRIVED';
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "arrivingNotifiedAt" TIMESTAMP(3),
+ADD COLUMN "arrivedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "JobLocationPoint" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "accuracyMeters" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobLocationPoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobLocationPoint_jobId_recordedAt_idx" ON "JobLocationPoint"("jobId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "JobLocationPoint" ADD CONSTRAINT "JobLocationPoint_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "SystemSettings" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" JSONB,
+    "type" TEXT NOT NULL DEFAULT 'string',
+    "category" TEXT NOT NULL DEFAULT 'general',
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SystemSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SystemSettings_key_key" ON "SystemSettings"("key");
+
+-- CreateIndex
+CREATE INDEX "SystemSettings_category_idx" ON "SystemSettings"("category");
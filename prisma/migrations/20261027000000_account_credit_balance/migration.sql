@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "creditBalance" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill from the credit ledger
+UPDATE "User" u
+SET "creditBalance" = c."balance"
+FROM (
+    SELECT "customerId", SUM("amount") AS "balance"
+    FROM "AccountCredit"
+    GROUP BY "customerId"
+) c
+WHERE c."customerId" = u."id";
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "MechanicProfile" ADD COLUMN "payoutAccountLast4" TEXT;
+
+-- Bank numbers saved before encryption were plaintext; drop them so
+-- mechanics enter their payout account again
+UPDATE "MechanicProfile"
+SET "payoutRoutingNumber" = NULL, "payoutAccountNumber" = NULL
+WHERE "payoutAccountNumber" IS NOT NULL AND "payoutAccountNumber" NOT LIKE 'v1:%';
@@ -393,11 +393,13 @@ async function main() {
       customerId: customers[0].id,
       vehicleId: vehicles[0].id,
       serviceId: services[0].id,
-      lineItems: [
-        { label: 'Oil Change Service', amount: 30 },
-        { label: 'Synthetic Oil (5 quarts)', amount: 35 },
-        { label: 'Oil Filter', amount: 10 },
-      ],
+      lineItems: {
+        create: [
+          { type: 'LABOR', description: 'Oil Change Service', quantity: 1, unitPrice: 30, total: 30, position: 0 },
+          { type: 'PART', description: 'Synthetic Oil (5 quarts)', quantity: 1, unitPrice: 35, total: 35, position: 1 },
+          { type: 'PART', description: 'Oil Filter', quantity: 1, unitPrice: 10, total: 10, position: 2 },
+        ],
+      },
       laborRate: 30,
       estHours: 0.5,
       laborCost: 15,
@@ -418,11 +420,13 @@ async function main() {
       customerId: customers[1].id,
       vehicleId: vehicles[1].id,
       serviceId: services[1].id,
-      lineItems: [
-        { label: 'Brake Pad Replacement (Front)', amount: 85 },
-        { label: 'Brake Pads', amount: 80 },
-        { label: 'Labor', amount: 170 },
-      ],
+      lineItems: {
+        create: [
+          { type: 'LABOR', description: 'Brake Pad Replacement (Front)', quantity: 1, unitPrice: 85, total: 85, position: 0 },
+          { type: 'PART', description: 'Brake Pads', quantity: 1, unitPrice: 80, total: 80, position: 1 },
+          { type: 'LABOR', description: 'Labor', quantity: 1, unitPrice: 170, total: 170, position: 2 },
+        ],
+      },
       laborRate: 85,
       estHours: 2,
       laborCost: 170,
@@ -490,6 +494,7 @@ async function main() {
   await prisma.jobTimeline.create({
     data: {
       jobId: job1.id,
+      kind: 'STATUS_CHANGE',
       eventType: 'COMPLETED',
       description: 'Job completed successfully',
       actorId: mechanic1.id,
@@ -506,10 +511,11 @@ async function main() {
   await prisma.payment.create({
     data: {
       jobId: job1.id,
+      customerId: job1.customerId,
       stripePaymentId: 'pi_test_' + Math.random().toString(36).substring(7),
       amount: 275,
       currency: 'usd',
-      status: 'succeeded',
+      status: 'SUCCEEDED',
       paymentMethod: 'card',
     },
   });
@@ -79,6 +79,7 @@ export type ServiceStatus =
   | 'quoted'
   | 'accepted'
   | 'scheduled'
+  | 'en_route'
   | 'in_progress'
   | 'paused'
   | 'completed'
@@ -182,6 +183,7 @@ export interface ServiceRequest {
   partsApproved?: boolean; // New field for parts approval toggle
   partsEstimate?: number; // Estimated parts cost
   partsActual?: number; // Actual parts cost
+  poNumber?: string; // Purchase order number for fleet organization jobs
   // Rating and review fields
   rating?: Rating;
   review?: Review;
@@ -207,6 +209,7 @@ export interface Quote {
   paidAt?: Date;
   depositPaidAt?: Date; // New field for deposit payment
   depositAmount?: number; // Deposit amount
+  depositPercent?: number; // Fixed from the service category when the quote is accepted
   remainingBalance?: number; // Remaining balance after deposit
   finalAmount?: number; // Final amount paid
   paymentMethod?: 'card' | 'cash' | 'check' | 'apple_pay' | 'google_pay';
@@ -222,6 +225,27 @@ export interface Quote {
   vehicleType?: VehicleType;
   partsApproved?: boolean; // New field for parts approval
   partsBreakdown?: PartEstimate[]; // Detailed parts breakdown
+  lineItems?: QuoteLineItem[]; // Itemized lines the totals are computed from
+  subtotal?: number; // Before tax, after discounts
+  discountTotal?: number;
+  partsTaxRate?: number;
+  laborTaxRate?: number; // Also applied to travel and fees
+  taxes?: number;
+}
+
+/**
+ * Quote line item kinds (mirrors the QuoteLineItemType Prisma enum)
+ */
+export type QuoteLineItemType = 'LABOR' | 'PART' | 'TRAVEL' | 'FEE' | 'DISCOUNT' | 'TAX';
+
+export interface QuoteLineItem {
+  id?: string;
+  type: QuoteLineItemType;
+  description: string;
+  quantity: number; // Hours for labor, units for parts
+  unitPrice: number; // Discounts are entered as positive amounts
+  total: number;
+  partNumber?: string;
 }
 
 export interface PartEstimate {
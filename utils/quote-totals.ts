@@ -0,0 +1,128 @@
+import type { QuoteLineItem, QuoteLineItemType } from '@/types/service';
+
+/**
+ * Quote Totals
+ *
+ * Turns itemized quote lines into the labor/parts/travel/tax totals shown on
+ * quotes, payment screens and invoices. The quote router runs this on every
+ * create/update so the persisted totals never come from the client.
+ */
+
+/**
+ * Separate rates for parts and for labor. Travel and service fees are taxed
+ * as labor. A jurisdiction that does not tax labor uses `labor: 0`.
+ */
+export interface TaxRates {
+  parts: number;
+  labor: number;
+}
+
+/**
+ * A line as entered by the mechanic; `total` is always derived
+ */
+export type QuoteLineItemInput = Omit<QuoteLineItem, 'id' | 'total'>;
+
+export interface QuoteTotals {
+  laborCost: number;
+  partsCost: number;
+  travelFee: number;
+  feesCost: number;
+  discountTotal: number;
+  subtotal: number;
+  partsTaxRate: number;
+  laborTaxRate: number;
+  partsTax: number;
+  laborTax: number;
+  taxes: number;
+  total: number;
+}
+
+/**
+ * Round to whole cents
+ */
+export function roundCurrency(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Price each line and roll them up into quote totals.
+ *
+ * Tax lines in the input are ignored. Discounts are spread across parts and
+ * labor in proportion, then each is taxed at its own rate and returned as
+ * its own TAX line at the end. A single number taxes both at that rate;
+ * without rates nothing is taxed, so callers pass the resolved tax rule.
+ */
+export function priceQuoteLineItems(
+  items: QuoteLineItemInput[],
+  taxRates: TaxRates | number = 0
+): { lineItems: QuoteLineItem[]; totals: QuoteTotals } {
+  const rates = typeof taxRates === 'number' ? { parts: taxRates, labor: taxRates } : taxRates;
+
+  const sums: Record<QuoteLineItemType, number> = {
+    LABOR: 0,
+    PART: 0,
+    TRAVEL: 0,
+    FEE: 0,
+    DISCOUNT: 0,
+    TAX: 0,
+  };
+
+  const lineItems: QuoteLineItem[] = [];
+
+  for (const item of items) {
+    if (item.type === 'TAX') continue;
+
+    const total = roundCurrency(item.quantity * Math.abs(item.unitPrice));
+    sums[item.type] = roundCurrency(sums[item.type] + total);
+    lineItems.push({
+      type: item.type,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: Math.abs(item.unitPrice),
+      total,
+      ...(item.partNumber ? { partNumber: item.partNumber } : {}),
+    });
+  }
+
+  const beforeDiscount = sums.LABOR + sums.PART + sums.TRAVEL + sums.FEE;
+  const discountTotal = Math.min(sums.DISCOUNT, beforeDiscount);
+  const subtotal = roundCurrency(beforeDiscount - discountTotal);
+
+  const partsBase = beforeDiscount > 0 ? roundCurrency(sums.PART * (subtotal / beforeDiscount)) : 0;
+  const laborBase = roundCurrency(subtotal - partsBase);
+  const partsTax = roundCurrency(partsBase * rates.parts);
+  const laborTax = roundCurrency(laborBase * rates.labor);
+  const taxes = roundCurrency(partsTax + laborTax);
+
+  for (const [label, amount, rate] of [
+    ['parts', partsTax, rates.parts],
+    ['labor', laborTax, rates.labor],
+  ] as const) {
+    if (amount <= 0) continue;
+    lineItems.push({
+      type: 'TAX',
+      description: `Sales tax on ${label} (${roundCurrency(rate * 100)}%)`,
+      quantity: 1,
+      unitPrice: amount,
+      total: amount,
+    });
+  }
+
+  return {
+    lineItems,
+    totals: {
+      laborCost: sums.LABOR,
+      partsCost: sums.PART,
+      travelFee: sums.TRAVEL,
+      feesCost: sums.FEE,
+      discountTotal: roundCurrency(discountTotal),
+      subtotal,
+      partsTaxRate: rates.parts,
+      laborTaxRate: rates.labor,
+      partsTax,
+      laborTax,
+      taxes,
+      total: roundCurrency(subtotal + taxes),
+    },
+  };
+}